@@ -0,0 +1,160 @@
+/**
+ * Board Command for AI-Trackdown
+ * Full-screen, keyboard-driven Kanban board that refreshes when files change
+ */
+
+import * as fs from 'node:fs';
+import * as readline from 'node:readline';
+import { Command } from 'commander';
+import type { ItemType, UnifiedState } from '../types/ai-trackdown.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import {
+  BOARD_GROUPINGS,
+  type BoardGroupBy,
+  type BoardKey,
+  KanbanBoard,
+} from '../utils/kanban-board.js';
+
+interface BoardCommandOptions {
+  type: string;
+  groupBy: string;
+  filter?: string;
+  columns?: string;
+  user?: string;
+  watch: boolean;
+}
+
+const ITEM_TYPES: ItemType[] = ['epic', 'issue', 'task', 'pr'];
+const REFRESH_DEBOUNCE_MS = 150;
+
+export function createBoardCommand(): Command {
+  const cmd = new Command('board');
+
+  cmd
+    .description('Open an interactive Kanban board with one column per state')
+    .option(
+      '-t, --type <types>',
+      'item types to show (comma-separated: epic,issue,task,pr)',
+      'issue,task'
+    )
+    .option('-g, --group-by <field>', `group cards by ${BOARD_GROUPINGS.join('|')}`, 'none')
+    .option('-f, --filter <query>', 'initial filter using the search query syntax')
+    .option('--columns <states>', 'states to show as columns (comma-separated)')
+    .option('--user <name>', 'author recorded for moves and edits')
+    .option('--no-watch', 'do not refresh when files change')
+    .addHelpText(
+      'after',
+      `
+Keys:
+  ←→ / h l      select column           ↑↓ / j k   select card
+  H L / ⇧←→     move card to the next allowed state left or right
+  m             move card to a chosen state
+  p / a         edit priority / assignee
+  /             filter, e.g. "is:open assignee:alice label:bug"
+  g             cycle grouping (none, epic, assignee, priority)
+  r             refresh              q          quit
+`
+    )
+    .action(async (options: BoardCommandOptions) => {
+      try {
+        await runBoard(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to open board: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runBoard(options: BoardCommandOptions): Promise<void> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    throw new Error('The board needs an interactive terminal');
+  }
+
+  const types = options.type.split(',').map((type) => type.trim()) as ItemType[];
+  const invalidType = types.find((type) => !ITEM_TYPES.includes(type));
+  if (invalidType) {
+    throw new Error(`Invalid type: ${invalidType}. Use ${ITEM_TYPES.join(', ')}`);
+  }
+  if (!BOARD_GROUPINGS.includes(options.groupBy as BoardGroupBy)) {
+    throw new Error(`Invalid grouping: ${options.groupBy}. Use ${BOARD_GROUPINGS.join(', ')}`);
+  }
+
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const board = new KanbanBoard(configManager, {
+    cliTasksDir,
+    user: options.user,
+    types,
+    groupBy: options.groupBy as BoardGroupBy,
+    filter: options.filter,
+    columns: options.columns?.split(',').map((state) => state.trim() as UnifiedState),
+  });
+
+  const draw = () => {
+    const width = process.stdout.columns || 80;
+    const height = process.stdout.rows || 24;
+    // Home the cursor and clear each line as it is redrawn to avoid flicker
+    const frame = board
+      .render(width, height)
+      .split('\n')
+      .map((line) => `${line}\x1b[K`)
+      .join('\n');
+    process.stdout.write(`\x1b[H${frame}\x1b[J`);
+  };
+
+  // Alternate screen, hidden cursor
+  process.stdout.write('\x1b[?1049h\x1b[?25l');
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.resume();
+
+  let watcher: fs.FSWatcher | undefined;
+  let refreshTimer: NodeJS.Timeout | undefined;
+  const { tasksRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  if (options.watch && fs.existsSync(tasksRoot)) {
+    watcher = fs.watch(tasksRoot, { recursive: true }, (_event, filename) => {
+      if (!filename?.toString().endsWith('.md')) return;
+      // Saves and index updates arrive in bursts; refresh once they settle
+      if (refreshTimer) clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        board.reload();
+        draw();
+      }, REFRESH_DEBOUNCE_MS);
+    });
+  }
+
+  await new Promise<void>((resolve) => {
+    // Keys are handled in order so a move finishes before the next key is read
+    let queue = Promise.resolve();
+    const onKeypress = (input: string | undefined, key: BoardKey = {}) => {
+      queue = queue.then(async () => {
+        if ((await board.handleKey(input, key)) === 'quit') {
+          process.stdin.off('keypress', onKeypress);
+          process.stdout.off('resize', draw);
+          resolve();
+          return;
+        }
+        draw();
+      });
+    };
+    process.stdin.on('keypress', onKeypress);
+    process.stdout.on('resize', draw);
+    draw();
+  });
+
+  watcher?.close();
+  if (refreshTimer) clearTimeout(refreshTimer);
+  process.stdin.setRawMode(false);
+  process.stdin.pause();
+  process.stdout.write('\x1b[?25h\x1b[?1049l');
+}
@@ -2,8 +2,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import { spawn } from 'child_process';
-import { Comment, CommentInput } from '../../types/comment.js';
-import { generateCommentId, getProjectRoot, loadIndex, saveIndex } from '../../utils/index.js';
+import { createComment, getProjectRoot, loadIndex } from '../../utils/index.js';
 import { formatComment } from '../../utils/formatters.js';
 
 interface AddCommentOptions {
@@ -50,54 +49,10 @@ export async function addComment(issueId: string, options: AddCommentOptions): P
       process.exit(1);
     }
 
-    // Generate comment ID
-    const commentId = await generateCommentId(projectRoot);
-    
-    // Create comment object
-    const now = new Date().toISOString();
-    const comment: Comment = {
-      id: commentId,
-      issueId,
-      body: body.trim(),
-      author: process.env.USER || 'unknown',
-      createdAt: now,
-      updatedAt: now,
-      metadata: {
-        editorUsed: options.editor ? 'editor' : 'cli',
-      },
-    };
-
-    // Create comment directory if it doesn't exist
-    const commentDir = path.join(projectRoot, 'tasks', 'issues', 'comments', issueId);
-    await fs.mkdir(commentDir, { recursive: true });
-
-    // Write comment file
-    const commentPath = path.join(commentDir, `${commentId}.md`);
-    const frontmatter = `---
-id: ${comment.id}
-issueId: ${comment.issueId}
-author: ${comment.author}
-createdAt: ${comment.createdAt}
-updatedAt: ${comment.updatedAt}
----
-
-${comment.body}`;
-
-    await fs.writeFile(commentPath, frontmatter);
-
-    // Update index
-    if (!index.comments) {
-      index.comments = {};
-    }
-    if (!index.comments[issueId]) {
-      index.comments[issueId] = {};
-    }
-    index.comments[issueId][commentId] = {
-      path: path.relative(projectRoot, commentPath),
-      lastModified: now,
-    };
-
-    await saveIndex(projectRoot, index);
+    const comment = await createComment(projectRoot, issueId, body, {
+      editorUsed: options.editor ? 'editor' : 'cli',
+    });
+    const commentId = comment.id;
 
     // Display success message
     console.log(chalk.green(`✅ Comment added successfully!`));
@@ -1,8 +1,6 @@
-import { promises as fs } from 'fs';
-import path from 'path';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { getProjectRoot, loadIndex, saveIndex } from '../../utils/index.js';
+import { getProjectRoot, loadIndex, removeComment } from '../../utils/index.js';
 
 interface DeleteCommentOptions {
   confirm?: boolean;
@@ -49,27 +47,8 @@ export async function deleteComment(
       }
     }
 
-    // Delete comment file
-    const commentPath = path.join(projectRoot, issueComments[commentId].path);
-    await fs.unlink(commentPath);
-
-    // Update index
-    delete issueComments[commentId];
-    
-    // Clean up empty comment entries
-    if (Object.keys(issueComments).length === 0) {
-      delete index.comments![issueId];
-    }
-
-    await saveIndex(projectRoot, index);
-
-    // Try to remove empty comment directory
-    const commentDir = path.dirname(commentPath);
-    try {
-      await fs.rmdir(commentDir);
-    } catch {
-      // Directory not empty, ignore
-    }
+    // Delete comment file, index entry and record the deletion in the issue's history
+    await removeComment(projectRoot, issueId, commentId);
 
     // Display success message
     console.log(chalk.green(`✅ Comment ${commentId} deleted successfully!`));
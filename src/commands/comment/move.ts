@@ -1,7 +1,13 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import chalk from 'chalk';
-import { getProjectRoot, loadIndex, saveIndex } from '../../utils/index.js';
+import {
+  getProjectRoot,
+  loadIndex,
+  saveIndex,
+  updateCommentSearch,
+} from '../../utils/index.js';
+import { recordBeforeWrite } from '../../utils/journaled-fs.js';
 import { parseYamlFrontmatter, stringifyYamlFrontmatter } from '../../utils/yaml.js';
 
 interface MoveCommentOptions {
@@ -83,6 +89,7 @@ export async function moveComment(
     // Write to new location
     const newCommentPath = path.join(targetCommentDir, `${commentId}.md`);
     const updatedContent = stringifyYamlFrontmatter(updatedComment, body);
+    recordBeforeWrite(newCommentPath, oldCommentPath);
     await fs.writeFile(newCommentPath, updatedContent);
 
     // Delete from old location
@@ -110,6 +117,9 @@ export async function moveComment(
 
     await saveIndex(projectRoot, index);
 
+    updateCommentSearch(projectRoot, issueId);
+    updateCommentSearch(projectRoot, targetIssueId);
+
     // Try to remove empty source directory
     const oldCommentDir = path.dirname(oldCommentPath);
     try {
@@ -2,9 +2,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import { spawn } from 'child_process';
-import { Comment } from '../../types/comment.js';
-import { getProjectRoot, loadIndex, saveIndex } from '../../utils/index.js';
-import { parseYamlFrontmatter, stringifyYamlFrontmatter } from '../../utils/yaml.js';
+import { editComment, getProjectRoot, loadIndex } from '../../utils/index.js';
+import { parseYamlFrontmatter } from '../../utils/yaml.js';
 
 interface UpdateCommentOptions {
   body?: string;
@@ -37,7 +36,7 @@ export async function updateComment(
     // Load existing comment
     const commentPath = path.join(projectRoot, issueComments[commentId].path);
     const content = await fs.readFile(commentPath, 'utf-8');
-    const { frontmatter, content: existingBody } = parseYamlFrontmatter(content);
+    const { content: existingBody } = parseYamlFrontmatter(content);
 
     // Get new body
     let body = options.body;
@@ -66,26 +65,11 @@ export async function updateComment(
       process.exit(1);
     }
 
-    // Update comment
-    const now = new Date().toISOString();
-    const updatedComment = {
-      ...frontmatter,
-      updatedAt: now,
-      editedAt: now,
-      metadata: {
-        ...frontmatter.metadata,
-        edited: true,
-        editorUsed: options.editor ? 'editor' : 'cli',
-      },
-    };
-
-    // Write updated comment
-    const updatedContent = stringifyYamlFrontmatter(updatedComment, body.trim());
-    await fs.writeFile(commentPath, updatedContent);
-
-    // Update index
-    issueComments[commentId].lastModified = now;
-    await saveIndex(projectRoot, index);
+    // Update comment, index and audit history
+    const updated = await editComment(projectRoot, issueId, commentId, body, {
+      editorUsed: options.editor ? 'editor' : 'cli',
+    });
+    const now = updated.updatedAt;
 
     // Display success message
     console.log(chalk.green(`✅ Comment updated successfully!`));
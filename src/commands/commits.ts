@@ -0,0 +1,17 @@
+/**
+ * Commits Command Group for AI-Trackdown
+ * Link git commits to the items their messages mention
+ */
+
+import { Command } from 'commander';
+import { createCommitsScanCommand } from './commits/scan.js';
+
+export function createCommitsCommand(): Command {
+  const cmd = new Command('commits');
+
+  cmd
+    .description('Link git commits to epics, issues, tasks and PRs by ID')
+    .addCommand(createCommitsScanCommand());
+
+  return cmd;
+}
@@ -0,0 +1,118 @@
+/**
+ * Commits Scan Command
+ * Record commits on the items they mention and move items that commits fix
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+
+interface ScanOptions {
+  full?: boolean;
+  // A state, or false with --no-transition
+  transition?: string | false;
+  format?: 'text' | 'json';
+}
+
+export function createCommitsScanCommand(): Command {
+  const cmd = new Command('scan');
+
+  cmd
+    .description('Scan git log for item IDs and record the commits on those items')
+    .option('--full', 'rescan the whole history instead of starting after the last scan')
+    .option('--transition <state>', 'move items a commit fixes to this state, e.g. ready_for_qa')
+    .option('--no-transition', 'do not change states, even if commit_links configures it')
+    .option('-f, --format <type>', 'output format (text|json)', 'text')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown commits scan
+  $ aitrackdown commits scan --transition ready_for_qa
+  $ aitrackdown commits scan --full --format json
+
+Any ID such as ISS-0042 or TSK-0007 in a commit message links the commit's SHA,
+author, date and subject to the item; "issue show" and "task show" list them.
+A keyword before an ID ("fixes ISS-0042", "Closes: TSK-0007, TSK-0008") also
+moves the item to the transition state, checked against the workflow like
+"state update". Set a default state and keywords in config.yaml:
+
+  commit_links:
+    transition_state: ready_for_qa
+    keywords: [fix, fixes, fixed, close, closes, closed]
+
+Scans continue from the last scanned commit; a commit is never linked twice.
+`
+    )
+    .action(async (options: ScanOptions) => {
+      try {
+        await scanCommits(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to scan commits: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function scanCommits(options: ScanOptions): Promise<void> {
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  // The linker and git log parsing are only loaded when scanning
+  const { CommitLinker } = await import('../../utils/commit-linker.js');
+  const linker = new CommitLinker(configManager, { cliTasksDir });
+  const result = await linker.scan({
+    full: options.full,
+    transition_state: options.transition,
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  if (!result.head) {
+    console.log(Formatter.info('No commits to scan: not a git repository or no commits yet'));
+    return;
+  }
+
+  const range = result.since ? `since ${result.since.slice(0, 7)}` : 'in the full history';
+  console.log(Formatter.info(`Scanned ${result.scanned} commit(s) ${range}`));
+
+  if (result.linked.length === 0) {
+    console.log(Formatter.info('No new commits mention an item'));
+  } else {
+    const byItem = new Map<string, string[]>();
+    for (const link of result.linked) {
+      byItem.set(link.item_id, [...(byItem.get(link.item_id) || []), link.sha.slice(0, 7)]);
+    }
+    console.log(
+      Formatter.success(`Linked ${result.linked.length} commit(s) to ${byItem.size} item(s)`)
+    );
+    for (const [itemId, shas] of byItem) {
+      console.log(`  ${chalk.bold(itemId)} ${chalk.gray(shas.join(', '))}`);
+    }
+  }
+
+  for (const transition of result.transitions) {
+    const label = `${transition.item_id}: ${transition.from} → ${transition.to} (${transition.sha.slice(0, 7)})`;
+    if (transition.error) {
+      console.log(Formatter.warning(`Not moved ${label}: ${transition.error}`));
+    } else {
+      console.log(Formatter.success(`Moved ${label}`));
+    }
+  }
+
+  if (result.unknown_ids.length > 0) {
+    console.log(Formatter.dim(`Unknown IDs in commit messages: ${result.unknown_ids.join(', ')}`));
+  }
+}
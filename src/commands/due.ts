@@ -0,0 +1,123 @@
+/**
+ * Due Command
+ * Report open items by deadline: overdue, due today, due this week and later
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { ItemType } from '../types/ai-trackdown.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { buildDueReport, type DueBucket, type DueItem, parseDueDate } from '../utils/due-dates.js';
+import { Formatter } from '../utils/formatter.js';
+import { RelationshipManager } from '../utils/relationship-manager.js';
+
+interface DueOptions {
+  assignee?: string;
+  type?: ItemType;
+  overdue?: boolean;
+  date?: string;
+  format?: 'table' | 'json';
+}
+
+const BUCKETS: DueBucket[] = ['overdue', 'today', 'this_week', 'later'];
+
+const BUCKET_LABELS: Record<DueBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  this_week: 'Due this week',
+  later: 'Due later',
+};
+
+export function createDueCommand(): Command {
+  const cmd = new Command('due');
+
+  cmd
+    .description(
+      'Report open items by due date and SLA: overdue, today, this week (through Sunday) and later, in local time'
+    )
+    .option('-a, --assignee <username>', 'only items assigned to this user')
+    .option('-t, --type <type>', 'only items of this type (epic|issue|task|pr)')
+    .option('--overdue', 'only show overdue items')
+    .option('--date <date>', 'report as of this date (YYYY-MM-DD, default: now)')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .action(async (options: DueOptions) => {
+      try {
+        await showDueReport(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to build due report: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showDueReport(options: DueOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const items = relationshipManager.search(options.assignee ? { assignee: options.assignee } : {});
+
+  // A date without a time is treated as the start of that local day
+  const now = options.date ? new Date(`${parseDueDate(options.date)}T00:00:00`) : new Date();
+  const report = buildDueReport(items.items, now);
+
+  const buckets: DueBucket[] = options.overdue ? ['overdue'] : BUCKETS;
+  for (const bucket of BUCKETS) {
+    report[bucket] = buckets.includes(bucket)
+      ? report[bucket].filter((item) => !options.type || item.item_type === options.type)
+      : [];
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const total = buckets.reduce((sum, bucket) => sum + report[bucket].length, 0);
+  if (total === 0) {
+    console.log(
+      Formatter.info(options.overdue ? 'No overdue items' : 'No open items with a due date or SLA')
+    );
+    return;
+  }
+
+  console.log(Formatter.header(`Due report as of ${report.as_of}`));
+  for (const bucket of buckets) {
+    if (report[bucket].length === 0) continue;
+    const label = `${BUCKET_LABELS[bucket]} (${report[bucket].length})`;
+    console.log(bucket === 'overdue' ? chalk.red.bold(label) : chalk.bold(label));
+    for (const item of report[bucket]) {
+      console.log(formatDueItem(item));
+    }
+    console.log('');
+  }
+}
+
+function formatDueItem(item: DueItem): string {
+  let when: string;
+  if (item.days_left < 0) {
+    when = chalk.red(`${-item.days_left}d late`);
+  } else if (item.days_left === 0) {
+    when = chalk.yellow('today');
+  } else {
+    when = `in ${item.days_left}d`;
+  }
+  const sla = item.sla_deadline
+    ? ` · SLA ${item.sla_breached ? chalk.red('breached') : 'until'} ${item.sla_deadline.slice(0, 16).replace('T', ' ')}`
+    : '';
+
+  return (
+    `  ${chalk.bold(item.item_id)} ${chalk.gray(`[${item.item_type}]`)} ${item.title}` +
+    ` · ${item.deadline} (${when})${sla} · ${item.assignee}`
+  );
+}
@@ -7,6 +7,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Command } from 'commander';
 import type { EpicFrontmatter, ItemStatus, Priority } from '../../types/ai-trackdown.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
 import { ProjectContextManager } from '../../utils/project-context-manager.js';
@@ -25,6 +26,9 @@ interface CreateOptions {
   labels?: string;
   milestone?: string;
   project?: string;
+  dueDate?: string;
+  startDate?: string;
+  slaHours?: string;
   dryRun?: boolean;
 }
 
@@ -49,6 +53,9 @@ export function createEpicCreateCommand(): Command {
     .option('--labels <labels>', 'comma-separated labels (alias for --tags)')
     .option('-m, --milestone <name>', 'milestone name')
     .option('--project <name>', 'project name (for multi-project mode)')
+    .option('--due-date <date>', 'due date (YYYY-MM-DD)')
+    .option('--start-date <date>', 'planned start date for the roadmap (YYYY-MM-DD)')
+    .option('--sla-hours <hours>', 'SLA in hours from creation')
     .option('--dry-run', 'show what would be created without creating')
     .action(async (titleArg: string | undefined, options: CreateOptions) => {
       try {
@@ -127,6 +134,9 @@ async function createEpic(title: string, options: CreateOptions): Promise<void>
     milestone: options.milestone,
     dependencies: [],
     completion_percentage: 0,
+    due_date: options.dueDate ? parseDueDate(options.dueDate) : undefined,
+    start_date: options.startDate ? parseDueDate(options.startDate, 'start date') : undefined,
+    sla_hours: options.slaHours ? parseSlaHours(options.slaHours) : undefined,
   };
 
   // Generate content from template
@@ -146,6 +156,12 @@ async function createEpic(title: string, options: CreateOptions): Promise<void>
     console.log(Formatter.debug(`Status: ${epicFrontmatter.status}`));
     console.log(Formatter.debug(`Priority: ${epicFrontmatter.priority}`));
     console.log(Formatter.debug(`Assignee: ${epicFrontmatter.assignee}`));
+    if (epicFrontmatter.due_date) {
+      console.log(Formatter.debug(`Due Date: ${epicFrontmatter.due_date}`));
+    }
+    if (epicFrontmatter.sla_hours) {
+      console.log(Formatter.debug(`SLA: ${epicFrontmatter.sla_hours}h`));
+    }
     if (epicFrontmatter.project_id) {
       console.log(Formatter.debug(`Project: ${epicFrontmatter.project_id}`));
     }
@@ -185,6 +201,12 @@ async function createEpic(title: string, options: CreateOptions): Promise<void>
   console.log(Formatter.info(`Status: ${epicFrontmatter.status}`));
   console.log(Formatter.info(`Priority: ${epicFrontmatter.priority}`));
   console.log(Formatter.info(`Assignee: ${epicFrontmatter.assignee}`));
+  if (epicFrontmatter.due_date) {
+    console.log(Formatter.info(`Due Date: ${epicFrontmatter.due_date}`));
+  }
+  if (epicFrontmatter.sla_hours) {
+    console.log(Formatter.info(`SLA: ${epicFrontmatter.sla_hours}h`));
+  }
 
   if (epicFrontmatter.project_id) {
     console.log(Formatter.info(`Project: ${epicFrontmatter.project_id}`));
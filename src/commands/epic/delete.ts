@@ -7,6 +7,7 @@ import * as fs from 'node:fs';
 import { Command } from 'commander';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { unlinkJournaled } from '../../utils/journaled-fs.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface DeleteOptions {
@@ -177,7 +178,7 @@ async function deleteEpic(epicId: string, options: DeleteOptions): Promise<void>
   for (const filePath of filesToDelete) {
     try {
       if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+        unlinkJournaled(filePath);
         deletedCount++;
       } else {
         console.log(Formatter.warning(`File not found: ${filePath}`));
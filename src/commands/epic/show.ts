@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import { Formatter } from '../../utils/formatter.js';
 import { ProjectContextManager } from '../../utils/project-context-manager.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { RollupEngine, type RollupResult } from '../../utils/rollup-engine.js';
 
 interface ShowOptions {
   format?: 'detailed' | 'json' | 'yaml';
@@ -86,6 +87,15 @@ async function showEpic(epicId: string, options: ShowOptions): Promise<void> {
 
   const { epic, issues, tasks } = hierarchy;
 
+  // Preview what roll-up derives from the children without writing anything
+  const rollupEngine = new RollupEngine(config, paths.projectRoot, cliTasksDir);
+  const rollup = rollupEngine.isEnabled()
+    ? [
+        rollupEngine.rollupEpic(epicId, { dryRun: true }),
+        ...issues.map((issue) => rollupEngine.rollupIssue(issue.issue_id, { dryRun: true })),
+      ].filter((result): result is RollupResult => result !== null)
+    : undefined;
+
   // Output based on format
   switch (options.format) {
     case 'json': {
@@ -93,6 +103,7 @@ async function showEpic(epicId: string, options: ShowOptions): Promise<void> {
         epic,
         ...(options.showIssues && { issues }),
         ...(options.showTasks && { tasks }),
+        ...(rollup && { rollup }),
       };
       console.log(JSON.stringify(jsonOutput, null, 2));
       break;
@@ -104,13 +115,14 @@ async function showEpic(epicId: string, options: ShowOptions): Promise<void> {
         epic,
         ...(options.showIssues && { issues }),
         ...(options.showTasks && { tasks }),
+        ...(rollup && { rollup }),
       };
       console.log(YAML.stringify(yamlOutput));
       break;
     }
 
     default:
-      await displayEpicDetailed(epic, issues, tasks, options, relationshipManager);
+      await displayEpicDetailed(epic, issues, tasks, options, relationshipManager, rollup);
   }
 }
 
@@ -119,7 +131,8 @@ async function displayEpicDetailed(
   issues: any[],
   tasks: any[],
   options: ShowOptions,
-  relationshipManager: RelationshipManager
+  relationshipManager: RelationshipManager,
+  rollup?: RollupResult[]
 ): Promise<void> {
   // Header
   console.log(Formatter.success(`\n=== EPIC: ${epic.title} ===`));
@@ -159,9 +172,44 @@ async function displayEpicDetailed(
     console.log(`  Token Efficiency: ${(efficiency * 100).toFixed(1)}%`);
   }
 
+  if (epic.time_estimate) {
+    console.log(`  Time Estimate: ${epic.time_estimate}`);
+  }
+
+  if (epic.time_spent) {
+    console.log(`  Time Spent: ${epic.time_spent}`);
+  }
+
+  if (epic.time_logged) {
+    console.log(`  Time Logged: ${epic.time_logged}`);
+  }
+
   console.log(`  Sync Status: ${epic.sync_status || 'local'}`);
   console.log('');
 
+  // Roll-up from children
+  if (rollup) {
+    console.log(Formatter.success('Roll-up:'));
+    if (rollup.length === 0) {
+      console.log(Formatter.debug('  No children to roll up'));
+    }
+    for (const result of rollup) {
+      const recorded =
+        result.previous_completion !== undefined && result.previous_completion !== result.completion
+          ? ` (recorded ${result.previous_completion}%)`
+          : '';
+      let line = `  ${result.item_id}: ${result.completion}%${recorded}`;
+      if (result.suggested_state) {
+        line += ` → ${result.suggested_state} (${result.reason})`;
+        if (result.blocked_by?.length) {
+          line += Formatter.warning(` blocked: ${result.blocked_by.join('; ')}`);
+        }
+      }
+      console.log(line);
+    }
+    console.log('');
+  }
+
   // Description
   if (epic.description) {
     console.log(Formatter.success('Description:'));
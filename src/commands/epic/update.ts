@@ -6,6 +6,7 @@
 import { Command } from 'commander';
 import type { EpicFrontmatter, ItemStatus, Priority } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -20,6 +21,12 @@ interface UpdateOptions {
   removeTags?: string;
   milestone?: string;
   clearMilestone?: boolean;
+  dueDate?: string;
+  clearDueDate?: boolean;
+  startDate?: string;
+  clearStartDate?: boolean;
+  slaHours?: string;
+  clearSla?: boolean;
   estimatedTokens?: number;
   actualTokens?: number;
   addDependencies?: string;
@@ -43,6 +50,12 @@ export function createEpicUpdateCommand(): Command {
     .option('--remove-tags <tags>', 'remove tags (comma-separated)')
     .option('-m, --milestone <name>', 'set milestone')
     .option('--clear-milestone', 'clear milestone')
+    .option('--due-date <date>', 'set due date (YYYY-MM-DD)')
+    .option('--clear-due-date', 'clear due date')
+    .option('--start-date <date>', 'set planned start date for the roadmap (YYYY-MM-DD)')
+    .option('--clear-start-date', 'clear start date')
+    .option('--sla-hours <hours>', 'set SLA in hours from creation')
+    .option('--clear-sla', 'clear SLA')
     .option('-e, --estimated-tokens <number>', 'update estimated tokens')
     .option('--actual-tokens <number>', 'update actual tokens')
     .option('--add-dependencies <ids>', 'add dependencies (comma-separated IDs)')
@@ -117,6 +130,30 @@ async function updateEpic(epicId: string, options: UpdateOptions): Promise<void>
     updates.milestone = undefined;
   }
 
+  if (options.dueDate) {
+    updates.due_date = parseDueDate(options.dueDate);
+  }
+
+  if (options.clearDueDate) {
+    updates.due_date = undefined;
+  }
+
+  if (options.startDate) {
+    updates.start_date = parseDueDate(options.startDate, 'start date');
+  }
+
+  if (options.clearStartDate) {
+    updates.start_date = undefined;
+  }
+
+  if (options.slaHours !== undefined) {
+    updates.sla_hours = parseSlaHours(options.slaHours);
+  }
+
+  if (options.clearSla) {
+    updates.sla_hours = undefined;
+  }
+
   if (options.estimatedTokens !== undefined) {
     updates.estimated_tokens = parseInt(options.estimatedTokens.toString(), 10);
   }
@@ -0,0 +1,23 @@
+/**
+ * Graph Command Group for AI-Trackdown
+ * Dependency analysis and graph export across epics, issues, tasks and PRs
+ */
+
+import { Command } from 'commander';
+import { createGraphBlockedCommand } from './graph/blocked.js';
+import { createGraphCriticalPathCommand } from './graph/critical-path.js';
+import { createGraphExportCommand } from './graph/export.js';
+import { createGraphOrderCommand } from './graph/order.js';
+
+export function createGraphCommand(): Command {
+  const cmd = new Command('graph');
+
+  cmd
+    .description('Analyze and export dependencies: critical path, blocked chains, work order')
+    .addCommand(createGraphCriticalPathCommand())
+    .addCommand(createGraphBlockedCommand())
+    .addCommand(createGraphOrderCommand())
+    .addCommand(createGraphExportCommand());
+
+  return cmd;
+}
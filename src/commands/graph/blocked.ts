@@ -0,0 +1,88 @@
+/**
+ * Graph Blocked Command
+ * Items waiting on open items, directly or through a chain, with the blockers to start on
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { DependencyGraph, scopeToEpic } from '../../utils/dependency-graph.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+
+interface BlockedOptions {
+  epic?: string;
+  format?: 'table' | 'json';
+}
+
+export function createGraphBlockedCommand(): Command {
+  const cmd = new Command('blocked');
+
+  cmd
+    .description('List every blocked item with the root blockers holding it up')
+    .option('-e, --epic <epic-id>', 'only items in this epic')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown graph blocked
+  $ aitrackdown graph blocked --epic EP-0001 --format json
+
+Root blockers are the open items in the chain that wait on nothing else.
+`
+    )
+    .action(async (options: BlockedOptions) => {
+      try {
+        await showBlocked(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to list blocked items: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showBlocked(options: BlockedOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(
+    configManager.getConfig(),
+    projectRoot,
+    cliTasksDir
+  );
+  const items = relationshipManager.search({}).items;
+  const graph = new DependencyGraph(options.epic ? scopeToEpic(items, options.epic) : items);
+  const blocked = graph.getBlockedItems();
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ epic: options.epic, total: blocked.length, blocked }, null, 2));
+    return;
+  }
+
+  if (blocked.length === 0) {
+    console.log(Formatter.success('No blocked items'));
+    return;
+  }
+
+  console.log(Formatter.header(`Blocked items (${blocked.length})`));
+  for (const entry of blocked) {
+    console.log(
+      `  ${chalk.bold(entry.item.id)} ${chalk.gray(`[${entry.item.type}]`)} ${entry.item.title}` +
+        ` · ${entry.item.state} · ${entry.item.assignee}`
+    );
+    console.log(`    start with: ${chalk.yellow(entry.root_blockers.join(', '))}`);
+    if (entry.blockers.length > entry.root_blockers.length) {
+      console.log(
+        Formatter.dim(`    chain of ${entry.depth}, waiting on ${entry.blockers.join(', ')}`)
+      );
+    }
+  }
+  console.log('');
+}
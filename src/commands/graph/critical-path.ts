@@ -0,0 +1,116 @@
+/**
+ * Graph Critical Path Command
+ * The heaviest chain of dependent open items, weighted by estimates
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { DependencyGraph, type GraphWeight, scopeToEpic } from '../../utils/dependency-graph.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatDuration } from '../../utils/time-tracker.js';
+
+interface CriticalPathOptions {
+  epic?: string;
+  weight?: GraphWeight;
+  format?: 'table' | 'json';
+}
+
+export function createGraphCriticalPathCommand(): Command {
+  const cmd = new Command('critical-path');
+
+  cmd
+    .description('Show the longest chain of dependent open items, weighted by estimates')
+    .option('-e, --epic <epic-id>', 'only items in this epic')
+    .option(
+      '-w, --weight <unit>',
+      'weigh items by time_estimate hours or estimated tokens (hours|tokens)',
+      'hours'
+    )
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown graph critical-path --epic EP-0001
+  $ aitrackdown graph critical-path --weight tokens --format json
+
+Edges come from dependencies, blocked_by and blocks. Finished items are left out.
+Between chains of equal weight the one with more items wins.
+`
+    )
+    .action(async (options: CriticalPathOptions) => {
+      try {
+        await showCriticalPath(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to find critical path: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showCriticalPath(options: CriticalPathOptions): Promise<void> {
+  const weight = options.weight || 'hours';
+  if (!['hours', 'tokens'].includes(weight)) {
+    throw new Error(`Invalid weight: ${weight}. Expected hours or tokens`);
+  }
+
+  const configManager = new ConfigManager();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(
+    configManager.getConfig(),
+    projectRoot,
+    cliTasksDir
+  );
+  const items = relationshipManager.search({}).items;
+  const graph = new DependencyGraph(options.epic ? scopeToEpic(items, options.epic) : items, {
+    weight,
+  });
+  const result = graph.getCriticalPath();
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ epic: options.epic, ...result }, null, 2));
+    return;
+  }
+
+  if (result.path.length === 0) {
+    console.log(Formatter.info('No open items to plan'));
+    return;
+  }
+
+  const formatWeight = (value: number) =>
+    weight === 'tokens' ? `${value} tokens` : formatDuration(value * 60);
+
+  console.log(
+    Formatter.header(
+      `Critical path${options.epic ? ` for ${options.epic}` : ''}: ${result.path.length} items, ${formatWeight(result.total)}`
+    )
+  );
+  result.path.forEach((node, index) => {
+    const estimate = node.weight > 0 ? formatWeight(node.weight) : chalk.yellow('no estimate');
+    console.log(
+      `  ${String(index + 1).padStart(2)}. ${chalk.bold(node.id)} ${chalk.gray(`[${node.type}]`)} ${node.title}` +
+        ` · ${estimate} · ${node.state} · ${node.assignee}`
+    );
+  });
+  console.log('');
+
+  if (result.unestimated.length > 0) {
+    console.log(
+      Formatter.warning(
+        `No ${weight === 'tokens' ? 'token estimate' : 'time_estimate'} on ${result.unestimated.join(', ')}`
+      )
+    );
+  }
+  for (const cycle of result.cycles) {
+    console.log(Formatter.warning(`Left out, dependency cycle between ${cycle.join(', ')}`));
+  }
+}
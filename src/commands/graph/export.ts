@@ -0,0 +1,131 @@
+/**
+ * Graph Export Command
+ * Export the item hierarchy and dependencies as Mermaid or Graphviz DOT
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Command } from 'commander';
+import { getItemId } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { scopeToEpic, scopeToProject } from '../../utils/dependency-graph.js';
+import { Formatter } from '../../utils/formatter.js';
+import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { embedGraph, exportGraph, type GraphExportFormat } from '../../utils/graph-export.js';
+import { searchItems } from '../../utils/item-search.js';
+import { writeFileJournaled } from '../../utils/journaled-fs.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { getCurrentUser } from '../../utils/saved-views.js';
+
+interface ExportOptions {
+  format?: GraphExportFormat;
+  project?: string;
+  epic?: string;
+  query?: string;
+  output?: string;
+  embed?: string;
+}
+
+export function createGraphExportCommand(): Command {
+  const cmd = new Command('export');
+
+  cmd
+    .description('Export the item hierarchy and dependencies as Mermaid or Graphviz DOT')
+    .option('-f, --format <type>', 'output format (mermaid|dot)', 'mermaid')
+    .option('-p, --project <project-id>', 'only items in this project')
+    .option('-e, --epic <epic-id>', 'only items in this epic')
+    .option('-q, --query <query>', 'only items matching a search query, e.g. "is:open label:bug"')
+    .option('-o, --output <path>', 'write to a file instead of stdout')
+    .option(
+      '--embed <item-id>',
+      "embed the graph in an item's markdown, replacing an earlier embed"
+    )
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown graph export > graph.mmd
+  $ aitrackdown graph export --format dot --epic EP-0001 | dot -Tsvg > ep-0001.svg
+  $ aitrackdown graph export --query "is:open assignee:@me" --output mine.mmd
+  $ aitrackdown graph export --epic EP-0001 --embed ISS-0001
+
+Solid edges are parent → child; dashed red edges run from a blocker to the item
+waiting on it. Nodes are coloured by state. To add the graph to llms.txt, use
+"aitrackdown ai generate-llms-txt --include-graph".
+`
+    )
+    .action(async (options: ExportOptions) => {
+      try {
+        await runExport(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to export graph: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runExport(options: ExportOptions): Promise<void> {
+  const format = options.format || 'mermaid';
+  if (!['mermaid', 'dot'].includes(format)) {
+    throw new Error(`Invalid format: ${format}. Expected mermaid or dot`);
+  }
+
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, projectRoot, cliTasksDir);
+
+  let items = relationshipManager.search({}).items;
+  if (options.project) items = scopeToProject(items, options.project, config.name);
+  if (options.epic) items = scopeToEpic(items, options.epic);
+  if (options.query) {
+    const matches = new Set(
+      searchItems(relationshipManager, options.query, { user: getCurrentUser(config) }).items.map(
+        getItemId
+      )
+    );
+    items = items.filter((item) => matches.has(getItemId(item)));
+  }
+
+  // A project root only makes sense when the whole tree below it is drawn
+  const rootProject = options.epic || options.query ? undefined : options.project || config.name;
+  const graph = exportGraph(items, {
+    format,
+    title: options.epic || options.project || config.name,
+    project: rootProject,
+  });
+
+  if (options.embed) {
+    const target = relationshipManager.getItem(options.embed);
+    if (!target) {
+      throw new Error(`Item not found: ${options.embed}`);
+    }
+    const parser = new FrontmatterParser();
+    const { frontmatter, content } = parser.parse(fs.readFileSync(target.file_path, 'utf8'));
+    writeFileJournaled(
+      target.file_path,
+      parser.stringify(
+        { ...frontmatter, updated_date: new Date().toISOString() },
+        embedGraph(content, graph, format)
+      )
+    );
+    console.log(Formatter.success(`Embedded a ${items.length}-item graph in ${options.embed}`));
+    return;
+  }
+
+  if (options.output) {
+    const outputPath = path.resolve(options.output);
+    fs.writeFileSync(outputPath, graph, 'utf8');
+    console.log(Formatter.success(`Wrote a ${items.length}-item ${format} graph to ${outputPath}`));
+    return;
+  }
+
+  process.stdout.write(graph);
+}
@@ -0,0 +1,87 @@
+/**
+ * Graph Order Command
+ * Topological work order of open items across item types
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { DependencyGraph, scopeToEpic } from '../../utils/dependency-graph.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+
+interface OrderOptions {
+  epic?: string;
+  format?: 'table' | 'json';
+}
+
+export function createGraphOrderCommand(): Command {
+  const cmd = new Command('order');
+
+  cmd
+    .description('Print open items in an order that respects their dependencies')
+    .option('-e, --epic <epic-id>', 'only items in this epic')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown graph order
+  $ aitrackdown graph order --epic EP-0001 --format json
+
+Each item comes after everything it depends on; items that are ready at the
+same time are ordered by priority, then ID.
+`
+    )
+    .action(async (options: OrderOptions) => {
+      try {
+        await showOrder(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to order items: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showOrder(options: OrderOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(
+    configManager.getConfig(),
+    projectRoot,
+    cliTasksDir
+  );
+  const items = relationshipManager.search({}).items;
+  const graph = new DependencyGraph(options.epic ? scopeToEpic(items, options.epic) : items);
+  const result = graph.getWorkOrder();
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ epic: options.epic, ...result }, null, 2));
+    return;
+  }
+
+  if (result.order.length === 0 && result.cycles.length === 0) {
+    console.log(Formatter.info('No open items to order'));
+    return;
+  }
+
+  console.log(Formatter.header(`Work order${options.epic ? ` for ${options.epic}` : ''}`));
+  result.order.forEach((node, index) => {
+    console.log(
+      `  ${String(index + 1).padStart(3)}. ${chalk.bold(node.id)} ${chalk.gray(`[${node.type}]`)} ${node.title}` +
+        ` · ${node.priority} · ${node.state} · ${node.assignee}`
+    );
+  });
+  console.log('');
+
+  for (const cycle of result.cycles) {
+    console.log(Formatter.warning(`Cannot order a dependency cycle between ${cycle.join(', ')}`));
+  }
+}
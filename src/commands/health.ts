@@ -223,6 +223,13 @@ function displayRecommendations(healthMetrics: any): void {
     );
   }
 
+  // Based on deadlines
+  if (healthMetrics.overdue > 0) {
+    recommendations.push(
+      `Reschedule or finish ${healthMetrics.overdue} overdue items (aitrackdown due --overdue)`
+    );
+  }
+
   if (recommendations.length > 0) {
     recommendations.forEach((rec) => {
       console.log(`   • ${rec}`);
@@ -252,12 +259,14 @@ async function runWatchMode(ticketingInterface: UniversalTicketingInterface): Pr
     console.log(`   Completion Rate: ${metrics.completionRate}%`);
     console.log(`   Active Items: ${metrics.statusBreakdown.active}`);
     console.log(`   Blocked Items: ${metrics.statusBreakdown.blocked}`);
+    console.log(`   Overdue Items: ${metrics.overdue}`);
     console.log(`   Recent Activity: ${metrics.recentActivity.updatedLastWeek} updated (7 days)`);
     console.log('');
 
     // Health status
     const isHealthy =
       metrics.statusBreakdown.blocked === 0 &&
+      metrics.overdue === 0 &&
       metrics.priorityBreakdown.critical < 3 &&
       metrics.completionRate > 10;
 
@@ -0,0 +1,109 @@
+/**
+ * History Command for AI-Trackdown
+ * Show the audit trail of an item and reconstruct it as of a past date
+ */
+
+import { Command } from 'commander';
+import * as YAML from 'yaml';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import { formatHistoryEvent, HistoryLog } from '../utils/history-log.js';
+import { RelationshipManager } from '../utils/relationship-manager.js';
+
+interface HistoryOptions {
+  since?: string;
+  until?: string;
+  field?: string;
+  author?: string;
+  asOf?: string;
+  format?: 'table' | 'json';
+}
+
+export function createHistoryCommand(): Command {
+  const cmd = new Command('history');
+
+  cmd
+    .description('Show the change history of an item')
+    .argument('<item-id>', 'epic, issue, task or PR ID')
+    .option('--since <date>', 'only show changes made on or after this date')
+    .option('--until <date>', 'only show changes made on or before this date')
+    .option('--field <name>', 'only show changes to this field')
+    .option('--author <name>', 'only show changes made by this user')
+    .option('--as-of <date>', 'reconstruct the item as it was at this date')
+    .option('--format <format>', 'output format (table|json)', 'table')
+    .action(async (itemId: string, options: HistoryOptions) => {
+      try {
+        await showHistory(itemId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show history: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showHistory(itemId: string, options: HistoryOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const history = new HistoryLog(paths.tasksRoot);
+
+  if (options.asOf) {
+    const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+    const item = relationshipManager.getItem(itemId);
+    if (!item) {
+      throw new Error(`Item not found: ${itemId}`);
+    }
+
+    const snapshot = history.reconstruct(itemId, item, options.asOf);
+    if (!snapshot) {
+      console.log(Formatter.warning(`${itemId} did not exist on ${options.asOf}`));
+      return;
+    }
+
+    const { content, file_path: _filePath, ...frontmatter } = snapshot;
+    if (options.format === 'json') {
+      console.log(JSON.stringify({ ...frontmatter, content }, null, 2));
+      return;
+    }
+
+    console.log(Formatter.header(`${itemId} as of ${options.asOf}`));
+    console.log(YAML.stringify(frontmatter).trimEnd());
+    if (typeof content === 'string' && content.trim()) {
+      console.log('');
+      console.log(content.trim());
+    }
+    return;
+  }
+
+  const events = history.getEvents(itemId, {
+    since: options.since,
+    until: options.until,
+    field: options.field,
+    author: options.author,
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(events, null, 2));
+    return;
+  }
+
+  if (events.length === 0) {
+    console.log(Formatter.info(`No recorded history for ${itemId}`));
+    return;
+  }
+
+  console.log(Formatter.header(`History for ${itemId} (${events.length} events)`));
+  for (const event of events) {
+    console.log(formatHistoryEvent(event, options.field));
+  }
+}
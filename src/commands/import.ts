@@ -0,0 +1,155 @@
+/**
+ * Import Command
+ * Import epics, issues, tasks and comments from Jira exports or CSV files
+ */
+
+import * as fs from 'node:fs';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import type { ImportAction, ImportFormat } from '../utils/item-importer.js';
+
+interface ImportCommandOptions {
+  from: ImportFormat;
+  mapping?: string;
+  dryRun?: boolean;
+  user?: string;
+  all?: boolean;
+}
+
+const IMPORT_FORMATS = ['jira-json', 'jira-csv', 'csv'];
+
+export function createImportCommand(): Command {
+  const cmd = new Command('import');
+
+  cmd
+    .description('Import items and comments from a Jira export or CSV file')
+    .argument('<file>', 'export file to import')
+    .requiredOption('--from <format>', `source format (${IMPORT_FORMATS.join('|')})`)
+    .option('-m, --mapping <file>', 'YAML mapping of source fields, statuses and priorities')
+    .option('--dry-run', 'show what would be created and updated without writing')
+    .option('--user <user>', 'user recorded on created items and comments')
+    .option('--all', 'list every record, including unchanged ones')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown import backlog.json --from jira-json --dry-run
+  $ aitrackdown import export.csv --from jira-csv --mapping jira-mapping.yaml
+  $ aitrackdown import roadmap.csv --from csv
+
+Records are matched to earlier imports by source ID, so re-running an import
+updates changed fields and adds new comments instead of creating duplicates.
+
+Mapping file (layered over the format's defaults):
+  source: jira                 # namespace for source IDs
+  id: key                      # source field with the record's ID
+  type:
+    field: fields.issuetype.name
+    values: { Epic: epic, Story: issue, Sub-task: task }
+  parent: [fields.parent.key]  # fields naming the parent's ID
+  fields:                      # item field: source field
+    title: fields.summary
+    content: fields.description
+    state: fields.status.name
+  task:                        # per-type overrides (epic, issue, task)
+    assignee: fields.reporter.displayName
+  states: { "In Progress": active, Done: done }
+  priorities: { Highest: critical }
+  comments: fields.comment.comments
+`
+    )
+    .action(async (file: string, options: ImportCommandOptions) => {
+      try {
+        await runImport(file, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to import: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runImport(file: string, options: ImportCommandOptions): Promise<void> {
+  if (!IMPORT_FORMATS.includes(options.from)) {
+    throw new Error(
+      `Unknown format: ${options.from}. Expected one of: ${IMPORT_FORMATS.join(', ')}`
+    );
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  if (options.mapping && !fs.existsSync(options.mapping)) {
+    throw new Error(`Mapping file not found: ${options.mapping}`);
+  }
+
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  // Parsers and mappings are only loaded when importing
+  const { ItemImporter, loadImportMapping, readImportRecords } = await import(
+    '../utils/item-importer.js'
+  );
+  const mapping = loadImportMapping(
+    options.from,
+    options.mapping ? fs.readFileSync(options.mapping, 'utf8') : undefined
+  );
+  const records = readImportRecords(options.from, fs.readFileSync(file, 'utf8'));
+
+  const importer = new ItemImporter(configManager, { cliTasksDir, user: options.user });
+  const result = await importer.import(records, mapping, { dryRun: options.dryRun });
+
+  if (result.dry_run) {
+    console.log(Formatter.info('Dry run - no changes written'));
+  }
+
+  for (const action of result.actions) {
+    if (action.action !== 'unchanged' || options.all) {
+      console.log(formatAction(action, result.dry_run));
+    }
+    for (const warning of action.warnings) {
+      console.log(Formatter.warning(`  ${action.source_id}: ${warning}`));
+    }
+  }
+
+  const verb = result.dry_run ? 'Would import' : 'Imported';
+  console.log('');
+  console.log(
+    Formatter.success(
+      `${verb} ${records.length} records: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.comments} comments`
+    )
+  );
+  if (result.errors > 0) {
+    console.log(Formatter.error(`${result.errors} records failed`));
+    process.exitCode = 1;
+  }
+}
+
+function formatAction(action: ImportAction, dryRun: boolean): string {
+  const target = action.item_id || (dryRun ? 'new' : '-');
+  const label = `${action.source_id || '(no ID)'} -> ${target} [${action.type}] ${action.title}`;
+
+  switch (action.action) {
+    case 'create':
+      return `${chalk.green('create')}    ${label}${action.comments ? ` (+${action.comments} comments)` : ''}`;
+    case 'update': {
+      const details = [
+        ...action.changes,
+        ...(action.comments ? [`+${action.comments} comments`] : []),
+      ];
+      return `${chalk.cyan('update')}    ${label} (${details.join(', ')})`;
+    }
+    case 'unchanged':
+      return `${Formatter.dim('unchanged')} ${label}`;
+    default:
+      return `${chalk.red('error')}     ${label}: ${action.error}`;
+  }
+}
@@ -11,6 +11,7 @@ import { createIssueCreateCommand } from './issue/create.js';
 import { createIssueDeleteCommand } from './issue/delete.js';
 import { createIssueListCommand } from './issue/list.js';
 import { createIssueReopenCommand } from './issue/reopen.js';
+import { createIssueSearchCommand } from './issue/search.js';
 import { createIssueShowCommand } from './issue/show.js';
 import { createIssueUpdateCommand } from './issue/update.js';
 
@@ -28,7 +29,8 @@ export function createIssueCommand(): Command {
     .addCommand(createIssueCompleteCommand())
     .addCommand(createIssueAssignCommand())
     .addCommand(createIssueCloseCommand())
-    .addCommand(createIssueReopenCommand());
+    .addCommand(createIssueReopenCommand())
+    .addCommand(createIssueSearchCommand());
 
   return cmd;
 }
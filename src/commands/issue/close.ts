@@ -6,6 +6,7 @@ import { Command } from 'commander';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { createIndexAutoUpdater } from '../../utils/index-auto-updater.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface IssueCloseOptions {
@@ -130,6 +131,9 @@ async function handleCloseIssue(issueId: string, options: IssueCloseOptions): Pr
     // Refresh cache
     relationshipManager.rebuildCache();
 
+    // Keep the index current and roll the change up to parent items
+    await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated('issue', issueId);
+
     console.log(Formatter.success(`Issue closed successfully!`));
     console.log(Formatter.info(`Issue ID: ${issueId}`));
     console.log(Formatter.info(`Title: ${updatedIssue.title}`));
@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { createIndexAutoUpdater } from '../../utils/index-auto-updater.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface CompleteOptions {
@@ -199,6 +200,9 @@ async function completeIssue(issueId: string, options: CompleteOptions): Promise
     // Refresh cache
     relationshipManager.rebuildCache();
 
+    // Keep the index current and roll the change up to parent items
+    await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated('issue', issueId);
+
     console.log(Formatter.success(`Issue completed successfully!`));
     console.log(Formatter.info(`Issue ID: ${issueId}`));
     console.log(Formatter.info(`Title: ${updatedIssue.title}`));
@@ -8,6 +8,7 @@ import * as path from 'node:path';
 import { Command } from 'commander';
 import type { IssueFrontmatter, ItemStatus, Priority, UnifiedState } from '../../types/ai-trackdown.js';
 import type { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
 import { ProjectContextManager } from '../../utils/project-context-manager.js';
@@ -30,6 +31,9 @@ interface CreateOptions {
   milestone?: string;
   dependencies?: string;
   project?: string;
+  dueDate?: string;
+  startDate?: string;
+  slaHours?: string;
   dryRun?: boolean;
 }
 
@@ -60,6 +64,9 @@ export function createIssueCreateCommand(): Command {
     .option('-m, --milestone <name>', 'milestone name')
     .option('--dependencies <ids>', 'comma-separated dependency IDs')
     .option('--project <name>', 'project name (for multi-project mode)')
+    .option('--due-date <date>', 'due date (YYYY-MM-DD)')
+    .option('--start-date <date>', 'planned start date for the roadmap (YYYY-MM-DD)')
+    .option('--sla-hours <hours>', 'SLA in hours from creation')
     .option('--dry-run', 'show what would be created without creating')
     .action(async (titleArg: string | undefined, options: CreateOptions) => {
       try {
@@ -188,6 +195,9 @@ async function createIssue(title: string, options: CreateOptions): Promise<void>
     completion_percentage: 0,
     blocked_by: [],
     blocks: [],
+    due_date: options.dueDate ? parseDueDate(options.dueDate) : undefined,
+    start_date: options.startDate ? parseDueDate(options.startDate, 'start date') : undefined,
+    sla_hours: options.slaHours ? parseSlaHours(options.slaHours) : undefined,
   };
 
   // Generate content from template
@@ -211,6 +221,12 @@ async function createIssue(title: string, options: CreateOptions): Promise<void>
     }
     console.log(Formatter.debug(`Priority: ${issueFrontmatter.priority}`));
     console.log(Formatter.debug(`Assignee: ${issueFrontmatter.assignee}`));
+    if (issueFrontmatter.due_date) {
+      console.log(Formatter.debug(`Due Date: ${issueFrontmatter.due_date}`));
+    }
+    if (issueFrontmatter.sla_hours) {
+      console.log(Formatter.debug(`SLA: ${issueFrontmatter.sla_hours}h`));
+    }
     if (tags.length > 0) {
       console.log(Formatter.debug(`Tags: ${tags.join(', ')}`));
     }
@@ -261,6 +277,12 @@ async function createIssue(title: string, options: CreateOptions): Promise<void>
   console.log(Formatter.info(`Status: ${issueFrontmatter.status}`));
   console.log(Formatter.info(`Priority: ${issueFrontmatter.priority}`));
   console.log(Formatter.info(`Assignee: ${issueFrontmatter.assignee}`));
+  if (issueFrontmatter.due_date) {
+    console.log(Formatter.info(`Due Date: ${issueFrontmatter.due_date}`));
+  }
+  if (issueFrontmatter.sla_hours) {
+    console.log(Formatter.info(`SLA: ${issueFrontmatter.sla_hours}h`));
+  }
 
   if (tags.length > 0) {
     console.log(Formatter.info(`Tags: ${tags.join(', ')}`));
@@ -7,6 +7,7 @@ import * as fs from 'node:fs';
 import { Command } from 'commander';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { unlinkJournaled } from '../../utils/journaled-fs.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface DeleteOptions {
@@ -154,7 +155,7 @@ async function deleteIssue(issueId: string, options: DeleteOptions): Promise<voi
   for (const filePath of filesToDelete) {
     try {
       if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+        unlinkJournaled(filePath);
         deletedCount++;
       } else {
         console.log(Formatter.warning(`File not found: ${filePath}`));
@@ -3,14 +3,16 @@
  */
 
 import * as fs from 'node:fs';
-import * as path from 'node:path';
 import chalk from 'chalk';
 import { Command } from 'commander';
 import * as YAML from 'yaml';
 import type { IssueData } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { isOverdue } from '../../utils/due-dates.js';
 import { formatError, formatInfo, formatWarning } from '../../utils/formatters.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { SearchIndex } from '../../utils/search-index.js';
+import { SearchQueryParser } from '../../utils/search-parser.js';
 
 interface IssueSearchOptions {
   state?: string;
@@ -31,9 +33,13 @@ export function createIssueSearchCommand(): Command {
 
   cmd
     .description('Search issues in the current ai-trackdown project')
-    .argument('<query>', 'Search query (searches in title and content)')
+    .argument('<query>', 'Search query: words, "exact phrases" and prefix* terms')
     .option('-s, --state <state>', 'Issue state (todo, in_progress, completed, all)', 'all')
-    .option('--sort <field>', 'Sort by field (created, updated, priority, status)', 'updated')
+    .option(
+      '--sort <field>',
+      'Sort by field (relevance, created, updated, priority, status)',
+      'relevance'
+    )
     .option('--order <direction>', 'Sort direction (asc, desc)', 'desc')
     .option('-n, --limit <number>', 'Maximum number of results to return', parseInt, 30)
     .option('-p, --page <number>', 'Page number for pagination', parseInt, 1)
@@ -68,8 +74,8 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
   const config = configManager.getConfig();
   const frontmatterParser = new FrontmatterParser();
 
-  const rootDir = path.resolve(config.directory_root || '.ai-trackdown');
-  const issuesDir = path.join(rootDir, 'issues');
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot, issuesDir } = configManager.getAbsolutePaths(cliTasksDir);
 
   if (!fs.existsSync(issuesDir)) {
     throw new Error(
@@ -95,10 +101,28 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
   try {
     console.log(chalk.blue('Searching issues...'));
 
-    // Load all issues
-    const allIssues = frontmatterParser.parseDirectory(issuesDir, 'issue');
-
-    if (allIssues.length === 0) {
+    // An is:overdue qualifier narrows the results; the rest of the query is searched as text
+    const parsedQuery = SearchQueryParser.parse(query);
+    const overdueOnly = parsedQuery.is?.overdue === true;
+    const searchText = overdueOnly
+      ? (parsedQuery.text || []).map((term) => (term.includes(' ') ? `"${term}"` : term)).join(' ')
+      : query;
+    const now = new Date();
+
+    // Text is looked up in the search index, so only matching issues are parsed
+    const hits = searchText.trim()
+      ? new SearchIndex(config, projectRoot, cliTasksDir).search(searchText, {
+          type: 'issue',
+          highlight: (match) => chalk.bold.yellow(match),
+        })
+      : undefined;
+    const allIssues = hits
+      ? hits.map((hit) => frontmatterParser.parseIssue(hit.file_path))
+      : frontmatterParser.parseDirectory(issuesDir, 'issue');
+    const ranks = new Map(hits?.map((hit, position) => [hit.id, position]));
+    const snippets = new Map(hits?.map((hit) => [hit.id, hit.snippet]));
+
+    if (!hits && allIssues.length === 0) {
       console.log(formatWarning('No issues found in the project'));
       return;
     }
@@ -107,9 +131,8 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
     const filteredIssues = allIssues.filter((issue) => {
       const issueData = issue as IssueData;
 
-      // Text search in title and content
-      const searchableText = `${issueData.title.toLowerCase()} ${issueData.content.toLowerCase()}`;
-      if (!searchableText.includes(query.toLowerCase())) {
+      // Overdue filter
+      if (overdueOnly && !isOverdue(issueData, now)) {
         return false;
       }
 
@@ -153,6 +176,12 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
       let comparison = 0;
 
       switch (options.sort) {
+        case 'relevance':
+          comparison =
+            ranks.size > 0
+              ? (ranks.get(issueB.issue_id) ?? 0) - (ranks.get(issueA.issue_id) ?? 0)
+              : new Date(issueA.updated_date).getTime() - new Date(issueB.updated_date).getTime();
+          break;
         case 'created':
           comparison =
             new Date(issueA.created_date).getTime() - new Date(issueB.created_date).getTime();
@@ -198,12 +227,14 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
       console.log('');
       console.log(chalk.bold.cyan('Search Tips:'));
       console.log(chalk.gray('─'.repeat(20)));
-      console.log('• Search matches title and content');
+      console.log('• Search matches title, description, content and comments');
+      console.log('• Quote "exact phrases" and end a word with * to match prefixes');
       console.log('• Use --state to filter by status (todo, in_progress, completed)');
       console.log('• Use --assignee to filter by assignee');
       console.log('• Use --priority to filter by priority level');
       console.log('• Use --epic to filter by epic ID');
       console.log('• Use --labels to filter by labels (comma-separated)');
+      console.log('• Add is:overdue to only show issues past their due date or SLA');
 
       return;
     }
@@ -274,6 +305,10 @@ async function handleSearchIssues(query: string, options: IssueSearchOptions): P
             if (issueData.labels && issueData.labels.length > 0) {
               console.log(`  ${chalk.gray('Labels:')} ${issueData.labels.join(', ')}`);
             }
+            const snippet = snippets.get(issueData.issue_id);
+            if (snippet) {
+              console.log(`  ${chalk.gray(snippet)}`);
+            }
             console.log('');
           });
         }
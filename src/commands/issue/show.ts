@@ -143,6 +143,18 @@ async function displayIssueDetailed(
     console.log(`  Token Efficiency: ${(efficiency * 100).toFixed(1)}%`);
   }
 
+  if (issue.time_estimate) {
+    console.log(`  Time Estimate: ${issue.time_estimate}`);
+  }
+
+  if (issue.time_spent) {
+    console.log(`  Time Spent: ${issue.time_spent}`);
+  }
+
+  if (issue.time_logged) {
+    console.log(`  Time Logged: ${issue.time_logged}`);
+  }
+
   console.log(`  Sync Status: ${issue.sync_status || 'local'}`);
   console.log('');
 
@@ -262,6 +274,17 @@ async function displayIssueDetailed(
     }
   }
 
+  // Commits linked by `commits scan`
+  if (issue.commits && issue.commits.length > 0) {
+    console.log(Formatter.success(`Commits (${issue.commits.length}):`));
+    for (const commit of issue.commits) {
+      console.log(
+        `  • ${commit.sha.slice(0, 7)} ${commit.date.slice(0, 10)} ${commit.author}: ${commit.message}`
+      );
+    }
+    console.log('');
+  }
+
   // GitHub sync information
   if (issue.github_id || issue.github_number || issue.github_url) {
     console.log(Formatter.success('GitHub Integration:'));
@@ -6,9 +6,17 @@
 import { Command } from 'commander';
 import type { IssueFrontmatter, ItemStatus, Priority, UnifiedState } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { createIndexAutoUpdater } from '../../utils/index-auto-updater.js';
+import { HistoryLog } from '../../utils/history-log.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
+import {
+  formatHookResult,
+  type TransitionContext,
+  TransitionHookRunner,
+} from '../../utils/transition-hooks.js';
 import { StateManager, StateTransition } from '../../types/ai-trackdown.js';
 
 interface UpdateOptions {
@@ -23,6 +31,12 @@ interface UpdateOptions {
   removeTags?: string;
   milestone?: string;
   clearMilestone?: boolean;
+  dueDate?: string;
+  clearDueDate?: boolean;
+  startDate?: string;
+  clearStartDate?: boolean;
+  slaHours?: string;
+  clearSla?: boolean;
   estimatedTokens?: number;
   actualTokens?: number;
   addDependencies?: string;
@@ -55,6 +69,12 @@ export function createIssueUpdateCommand(): Command {
     .option('--remove-tags <tags>', 'remove tags (comma-separated)')
     .option('-m, --milestone <name>', 'set milestone')
     .option('--clear-milestone', 'clear milestone')
+    .option('--due-date <date>', 'set due date (YYYY-MM-DD)')
+    .option('--clear-due-date', 'clear due date')
+    .option('--start-date <date>', 'set planned start date for the roadmap (YYYY-MM-DD)')
+    .option('--clear-start-date', 'clear start date')
+    .option('--sla-hours <hours>', 'set SLA in hours from creation')
+    .option('--clear-sla', 'clear SLA')
     .option('-e, --estimated-tokens <number>', 'update estimated tokens')
     .option('--actual-tokens <number>', 'update actual tokens')
     .option('--add-dependencies <ids>', 'add dependencies (comma-separated IDs)')
@@ -135,17 +155,17 @@ async function updateIssue(issueId: string, options: UpdateOptions): Promise<voi
 
     if (!transitionResult.success) {
       console.error(Formatter.error('State transition failed:'));
-      transitionResult.errors.forEach(error => 
-        console.error(Formatter.error(`  - ${error}`))
-      );
+      for (const error of transitionResult.errors) {
+        console.error(Formatter.error(`  - ${error}`));
+      }
       throw new Error('Invalid state transition');
     }
 
     if (transitionResult.warnings.length > 0) {
       console.log(Formatter.warning('State transition warnings:'));
-      transitionResult.warnings.forEach(warning => 
-        console.log(Formatter.warning(`  - ${warning}`))
-      );
+      for (const warning of transitionResult.warnings) {
+        console.log(Formatter.warning(`  - ${warning}`));
+      }
     }
 
     updates.state = transitionResult.item.state;
@@ -172,6 +192,30 @@ async function updateIssue(issueId: string, options: UpdateOptions): Promise<voi
     updates.milestone = undefined;
   }
 
+  if (options.dueDate) {
+    updates.due_date = parseDueDate(options.dueDate);
+  }
+
+  if (options.clearDueDate) {
+    updates.due_date = undefined;
+  }
+
+  if (options.startDate) {
+    updates.start_date = parseDueDate(options.startDate, 'start date');
+  }
+
+  if (options.clearStartDate) {
+    updates.start_date = undefined;
+  }
+
+  if (options.slaHours !== undefined) {
+    updates.sla_hours = parseSlaHours(options.slaHours);
+  }
+
+  if (options.clearSla) {
+    updates.sla_hours = undefined;
+  }
+
   if (options.estimatedTokens !== undefined) {
     updates.estimated_tokens = parseInt(options.estimatedTokens.toString(), 10);
   }
@@ -300,6 +344,28 @@ async function updateIssue(issueId: string, options: UpdateOptions): Promise<voi
     }
   }
 
+  // Run transition hooks for state changes; a failing hook script vetoes the update
+  const hooks = new TransitionHookRunner(config, paths, cliTasksDir);
+  const hookContext: TransitionContext | null = options.state
+    ? {
+        itemId: issueId,
+        itemType: 'issue',
+        from: StateManager.getEffectiveState(issue),
+        to: options.state,
+        user: process.env.USER || 'system',
+        reason: options.reason,
+      }
+    : null;
+  if (hookContext) {
+    const hookResults = hooks.runBefore(issue, hookContext);
+    for (const result of hookResults) {
+      console.log(formatHookResult(result));
+    }
+    if (hookResults.some(result => result.vetoed)) {
+      throw new Error(`Transition to ${options.state} vetoed by hook`);
+    }
+  }
+
   // Update the updated_date
   updates.updated_date = new Date().toISOString();
 
@@ -331,9 +397,24 @@ async function updateIssue(issueId: string, options: UpdateOptions): Promise<voi
   // Update the file with append content
   const updatedIssue = parser.updateFile(filePath, updates, appendContent || undefined);
 
+  // Record the field changes in the audit history
+  new HistoryLog(paths.tasksRoot).recordDiff(issueId, 'update', issue, updatedIssue, {
+    source: 'issue update',
+    reason: options.reason,
+  });
+
+  if (hookContext) {
+    for (const result of await hooks.runAfter(updatedIssue, hookContext)) {
+      console.log(formatHookResult(result));
+    }
+  }
+
   // Refresh cache
   relationshipManager.rebuildCache();
 
+  // Keep the index current and roll the change up to parent items
+  await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated('issue', issueId);
+
   console.log(Formatter.success(`Issue updated successfully!`));
   console.log(Formatter.info(`Issue ID: ${issueId}`));
   console.log(Formatter.info(`File: ${filePath}`));
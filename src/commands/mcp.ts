@@ -0,0 +1,65 @@
+/**
+ * MCP Command for AI-Trackdown
+ * Run a Model Context Protocol server on stdio for AI agents
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import { VersionManager } from '../utils/version.js';
+
+interface McpOptions {
+  user?: string;
+}
+
+export function createMcpCommand(): Command {
+  const cmd = new Command('mcp');
+
+  cmd
+    .description('Run a Model Context Protocol (MCP) server on stdio for AI agents')
+    .option('--user <name>', 'author recorded for changes made by the agent')
+    .action(async (options: McpOptions) => {
+      try {
+        await runMcpServer(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to run MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runMcpServer(options: McpOptions): Promise<void> {
+  // stdout carries the protocol; route informational logging from shared code to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  // The server and its tools are only loaded when an agent connects
+  const { TrackdownMcpServer } = await import('../utils/mcp-server.js');
+  const server = new TrackdownMcpServer(configManager, {
+    cliTasksDir,
+    user: options.user,
+    version: getVersion(),
+  });
+
+  console.error(Formatter.info(`MCP server ready for ${configManager.getConfig().name}`));
+  await server.listen(process.stdin, process.stdout);
+}
+
+function getVersion(): string | undefined {
+  try {
+    return VersionManager.getVersion().version;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Milestone Command Group for AI-Trackdown
+ * Milestones with target dates, progress from linked items and release linkage
+ */
+
+import { Command } from 'commander';
+import { createMilestoneCloseCommand } from './milestone/close.js';
+import { createMilestoneCreateCommand } from './milestone/create.js';
+import { createMilestoneListCommand } from './milestone/list.js';
+import { createMilestoneShowCommand } from './milestone/show.js';
+
+export function createMilestoneCommand(): Command {
+  const cmd = new Command('milestone');
+
+  cmd
+    .description('Manage milestones (release targets for epics, issues, tasks and PRs)')
+    .addCommand(createMilestoneCreateCommand())
+    .addCommand(createMilestoneListCommand())
+    .addCommand(createMilestoneShowCommand())
+    .addCommand(createMilestoneCloseCommand());
+
+  return cmd;
+}
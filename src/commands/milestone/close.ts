@@ -0,0 +1,58 @@
+/**
+ * Milestone Close Command
+ * Close a milestone once its linked items are finished
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
+
+interface CloseOptions {
+  force?: boolean;
+}
+
+export function createMilestoneCloseCommand(): Command {
+  const cmd = new Command('close');
+
+  cmd
+    .description('Close a milestone')
+    .argument('<milestone>', 'milestone ID or title')
+    .option('--force', 'close even if linked items are still open')
+    .action(async (ref: string, options: CloseOptions) => {
+      try {
+        await closeMilestone(ref, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to close milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function closeMilestone(ref: string, options: CloseOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const milestoneManager = new MilestoneManager(config, paths.projectRoot, cliTasksDir);
+
+  const result = milestoneManager.closeMilestone(ref, { force: options.force });
+
+  console.log(
+    Formatter.success(
+      `Milestone ${result.milestone.milestone_id} closed: ${result.milestone.title}`
+    )
+  );
+  if (result.open_items.length > 0) {
+    console.log(Formatter.warning(`Closed with open items: ${result.open_items.join(', ')}`));
+  }
+}
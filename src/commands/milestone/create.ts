@@ -0,0 +1,78 @@
+/**
+ * Milestone Create Command
+ * Create a new milestone with an optional due date and description
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate } from '../../utils/due-dates.js';
+import { Formatter } from '../../utils/formatter.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
+
+interface CreateOptions {
+  description?: string;
+  dueDate?: string;
+  dryRun?: boolean;
+}
+
+export function createMilestoneCreateCommand(): Command {
+  const cmd = new Command('create');
+
+  cmd
+    .description('Create a new milestone')
+    .argument('<title>', 'milestone title, e.g. the release version "v1.4.0"')
+    .option('-d, --description <text>', 'milestone description')
+    .option('--due-date <date>', 'target date (YYYY-MM-DD)')
+    .option('--dry-run', 'show what would be created without creating')
+    .action(async (title: string, options: CreateOptions) => {
+      try {
+        await createMilestone(title, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to create milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function createMilestone(title: string, options: CreateOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const milestoneManager = new MilestoneManager(config, paths.projectRoot, cliTasksDir);
+
+  const dueDate = options.dueDate ? parseDueDate(options.dueDate) : undefined;
+
+  if (options.dryRun) {
+    console.log(Formatter.info('Dry run - milestone would be created with:'));
+    console.log(Formatter.debug(`Title: ${title}`));
+    console.log(Formatter.debug(`Description: ${options.description || 'N/A'}`));
+    console.log(Formatter.debug(`Due Date: ${dueDate || 'N/A'}`));
+    return;
+  }
+
+  const milestone = milestoneManager.createMilestone({
+    title,
+    description: options.description,
+    due_date: dueDate,
+  });
+
+  console.log(Formatter.success(`Milestone created: ${milestone.milestone_id}`));
+  console.log(Formatter.info(`Title: ${milestone.title}`));
+  if (milestone.due_date) {
+    console.log(Formatter.info(`Due Date: ${milestone.due_date}`));
+  }
+  console.log(Formatter.info(`File: ${milestone.file_path}`));
+  console.log(
+    Formatter.info(`Link items with --milestone "${milestone.title}" on create or update`)
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Milestone List Command
+ * List milestones with their due dates, state and progress
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { MilestoneState } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+
+interface ListOptions {
+  state?: MilestoneState | 'all';
+  format?: 'table' | 'json';
+}
+
+export function createMilestoneListCommand(): Command {
+  const cmd = new Command('list');
+
+  cmd
+    .description('List milestones')
+    .option('-s, --state <state>', 'filter by state (open|closed|all)', 'open')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .action(async (options: ListOptions) => {
+      try {
+        await listMilestones(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to list milestones: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function listMilestones(options: ListOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const milestoneManager = new MilestoneManager(config, paths.projectRoot, cliTasksDir);
+
+  const state = options.state || 'open';
+  if (!['open', 'closed', 'all'].includes(state)) {
+    throw new Error(`Invalid state: ${state} (expected open, closed or all)`);
+  }
+
+  const milestones = milestoneManager
+    .listMilestones()
+    .filter((milestone) => state === 'all' || milestone.milestone_state === state)
+    .map((milestone) => {
+      const { items: _items, ...progress } = milestoneManager.getProgress(
+        milestone,
+        relationshipManager
+      );
+      return { milestone, progress };
+    });
+
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        milestones.map(({ milestone: { content: _content, ...milestone }, progress }) => ({
+          ...milestone,
+          progress,
+        })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (milestones.length === 0) {
+    console.log(Formatter.info(state === 'all' ? 'No milestones found' : `No ${state} milestones`));
+    return;
+  }
+
+  const stateColor = { open: chalk.green, closed: chalk.gray };
+
+  for (const { milestone, progress } of milestones) {
+    console.log(
+      `${chalk.bold(milestone.milestone_id.padEnd(10))} ${stateColor[milestone.milestone_state](milestone.milestone_state.padEnd(7))} ${(milestone.due_date || '—').padEnd(10)}  ${`${progress.finished}/${progress.total} (${progress.percentage}%)`.padEnd(12)}  ${milestone.title}`
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Milestone Show Command
+ * Show milestone details and progress computed from linked items
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { getDueItem } from '../../utils/due-dates.js';
+import { Formatter } from '../../utils/formatter.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { daysBetween, toIsoDate } from '../../utils/sprint-manager.js';
+
+interface ShowOptions {
+  format?: 'table' | 'json';
+}
+
+const BAR_WIDTH = 20;
+
+export function createMilestoneShowCommand(): Command {
+  const cmd = new Command('show');
+
+  cmd
+    .description('Show milestone details and progress')
+    .argument('<milestone>', 'milestone ID or title')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .action(async (ref: string, options: ShowOptions) => {
+      try {
+        await showMilestone(ref, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showMilestone(ref: string, options: ShowOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const milestoneManager = new MilestoneManager(config, paths.projectRoot, cliTasksDir);
+
+  const milestone = milestoneManager.getMilestone(ref);
+  if (!milestone) {
+    throw new Error(`Milestone not found: ${ref}`);
+  }
+
+  const progress = milestoneManager.getProgress(milestone, relationshipManager);
+
+  if (options.format === 'json') {
+    const { content: _content, ...frontmatter } = milestone;
+    console.log(JSON.stringify({ ...frontmatter, progress }, null, 2));
+    return;
+  }
+
+  const filled = Math.round((progress.percentage / 100) * BAR_WIDTH);
+  const bar = chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(BAR_WIDTH - filled));
+
+  console.log(Formatter.header(`${milestone.milestone_id}: ${milestone.title}`));
+  console.log(`State: ${milestone.milestone_state}`);
+  if (milestone.due_date) {
+    console.log(`Due: ${milestone.due_date}${formatDaysLeft(milestone.due_date, milestone)}`);
+  }
+  if (milestone.closed_date) {
+    console.log(`Closed: ${toIsoDate(milestone.closed_date)}`);
+  }
+  if (milestone.description) {
+    console.log(`Description: ${milestone.description}`);
+  }
+  if (milestone.github_url) {
+    console.log(`GitHub: ${milestone.github_url}`);
+  }
+  console.log(
+    `Progress: [${bar}] ${progress.percentage}% (${progress.finished}/${progress.total} done)`
+  );
+
+  console.log('');
+  console.log(Formatter.subheader(`Items (${progress.total})`));
+  if (progress.total === 0) {
+    console.log(
+      Formatter.dim(
+        `  No linked items - set --milestone "${milestone.title}" on items to link them`
+      )
+    );
+    return;
+  }
+  for (const item of progress.items) {
+    const marker = item.finished ? chalk.green('✓') : chalk.yellow('○');
+    const linked = relationshipManager.getItem(item.id);
+    const overdue =
+      linked && getDueItem(linked)?.bucket === 'overdue' ? chalk.red(' (overdue)') : '';
+    console.log(
+      `  ${marker} ${item.id.padEnd(10)} ${chalk.gray(`[${item.type}]`.padEnd(8))} ${item.title} ${Formatter.dim(`· ${item.state}`)}${overdue}`
+    );
+  }
+}
+
+function formatDaysLeft(dueDate: string, milestone: { milestone_state: string }): string {
+  if (milestone.milestone_state === 'closed') return '';
+  const daysLeft = daysBetween(toIsoDate(new Date()), dueDate) - 1;
+  if (daysLeft < 0) return chalk.red(` (${-daysLeft}d late)`);
+  if (daysLeft === 0) return chalk.yellow(' (today)');
+  return ` (in ${daysLeft}d)`;
+}
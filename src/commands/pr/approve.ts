@@ -10,6 +10,7 @@ import type { PRData, PRStatus } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { renameJournaled } from '../../utils/journaled-fs.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface ApproveOptions {
@@ -299,7 +300,7 @@ async function handleStatusTransition(pr: PRData, newStatus: PRStatus, paths: an
     const newFilePath = path.join(targetDir, fileName);
 
     // Move the file
-    fs.renameSync(pr.file_path, newFilePath);
+    renameJournaled(pr.file_path, newFilePath);
 
     console.log(Formatter.info(`Moved PR file: ${currentDir} → ${targetDir}`));
   }
@@ -10,6 +10,12 @@ import type { PRData, PRStatus } from '../../types/ai-trackdown.js';
 import { colors } from '../../utils/colors.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import {
+  copyFileJournaled,
+  removeJournaled,
+  unlinkJournaled,
+  writeFileJournaled,
+} from '../../utils/journaled-fs.js';
 import { PRFileManager } from '../../utils/pr-file-manager.js';
 import { PRStatusManager } from '../../utils/pr-status-manager.js';
 
@@ -395,10 +401,10 @@ async function archivePR(
 
     if (!options.dryRun) {
       // Copy file to archive
-      fs.copyFileSync(pr.file_path, targetPath);
+      copyFileJournaled(pr.file_path, targetPath);
 
       // Remove original file
-      fs.unlinkSync(pr.file_path);
+      unlinkJournaled(pr.file_path);
     }
 
     detail.archived = true;
@@ -439,8 +445,8 @@ async function archiveReviewFiles(
 
       try {
         if (!options.dryRun) {
-          fs.copyFileSync(sourcePath, targetPath);
-          fs.unlinkSync(sourcePath);
+          copyFileJournaled(sourcePath, targetPath);
+          unlinkJournaled(sourcePath);
         }
         archivedCount++;
       } catch (error) {
@@ -496,7 +502,7 @@ async function createArchiveIndex(
   }
 
   const indexPath = path.join(archivePath, 'index.json');
-  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2), 'utf8');
+  writeFileJournaled(indexPath, JSON.stringify(index, null, 2));
 
   return indexPath;
 }
@@ -608,7 +614,7 @@ async function restorePR(
       fs.mkdirSync(targetDir, { recursive: true });
     }
 
-    fs.copyFileSync(sourcePath, restorePath);
+    copyFileJournaled(sourcePath, restorePath);
 
     result.success = true;
     result.restoredPath = restorePath;
@@ -657,7 +663,7 @@ async function cleanupArchive(
           const size = calculateDirectorySize(dirPath);
 
           if (force || (await confirmCleanup(dir))) {
-            fs.rmSync(dirPath, { recursive: true, force: true });
+            removeJournaled(dirPath);
             result.removedCount++;
             result.freedSpace += size;
           }
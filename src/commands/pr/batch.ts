@@ -10,6 +10,7 @@ import type { PRData, PRStatus, TaskData } from '../../types/ai-trackdown.js';
 import { colors } from '../../utils/colors.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { writeFileJournaled } from '../../utils/journaled-fs.js';
 import { PRFileManager } from '../../utils/pr-file-manager.js';
 import { PRStatusManager } from '../../utils/pr-status-manager.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -760,7 +761,7 @@ async function createBatchReport(
   const reportFileName = `batch-${result.operation}-${new Date().toISOString().split('T')[0]}.json`;
   const reportPath = path.join(reportsDir, reportFileName);
 
-  fs.writeFileSync(reportPath, JSON.stringify(reportData, null, 2), 'utf8');
+  writeFileJournaled(reportPath, JSON.stringify(reportData, null, 2));
 
   return reportPath;
 }
@@ -10,6 +10,7 @@ import type { PRData } from '../../types/ai-trackdown.js';
 import { colors } from '../../utils/colors.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { writeFileJournaled } from '../../utils/journaled-fs.js';
 import { PRFileManager } from '../../utils/pr-file-manager.js';
 import { PRStatusManager } from '../../utils/pr-status-manager.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -336,7 +337,7 @@ async function updateTaskForClose(
     const closureNote = `\n\n## PR Closed\n\nPR ${prId} was closed (${options.reason})${options.comment ? `: ${options.comment}` : ''}.\n\nThis task may need attention or reassignment.\n`;
     const finalContent = updatedContent + closureNote;
 
-    fs.writeFileSync(taskPath, finalContent, 'utf8');
+    writeFileJournaled(taskPath, finalContent);
   } catch (error) {
     console.error(`Failed to update task ${taskId}: ${error}`);
   }
@@ -371,7 +372,7 @@ async function updateIssueForClose(
     const closureNote = `\n\n## PR Closed\n\nPR ${prId} was closed (${options.reason})${options.comment ? `: ${options.comment}` : ''}.\n\nThis issue may need a new PR or different approach.\n`;
     const finalContent = updatedContent + closureNote;
 
-    fs.writeFileSync(issuePath, finalContent, 'utf8');
+    writeFileJournaled(issuePath, finalContent);
   } catch (error) {
     console.error(`Failed to update issue ${issueId}: ${error}`);
   }
@@ -418,7 +419,7 @@ async function addToClosureReport(
   }
 
   reports.push(reportEntry);
-  fs.writeFileSync(reportPath, JSON.stringify(reports, null, 2), 'utf8');
+  writeFileJournaled(reportPath, JSON.stringify(reports, null, 2));
 }
 
 async function createClosureActivityLog(
@@ -459,7 +460,7 @@ async function updatePRWithClosureInfo(
     const closureSection = `\n\n## PR Closed\n\n**Reason**: ${options.reason}\n${options.comment ? `**Comment**: ${options.comment}\n` : ''}**Closed**: ${new Date().toISOString()}\n`;
     const finalContent = updatedContent + closureSection;
 
-    fs.writeFileSync(prData.file_path, finalContent, 'utf8');
+    writeFileJournaled(prData.file_path, finalContent);
   } catch (error) {
     console.error(`Failed to update PR ${prData.pr_id} with closure info: ${error}`);
   }
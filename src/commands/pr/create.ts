@@ -8,6 +8,7 @@ import * as path from 'node:path';
 import { Command } from 'commander';
 import type { PRFrontmatter, PRStatus, Priority } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -30,6 +31,8 @@ interface CreateOptions {
   repositoryUrl?: string;
   reviewers?: string;
   dependencies?: string;
+  dueDate?: string;
+  slaHours?: string;
   dryRun?: boolean;
 }
 
@@ -59,6 +62,8 @@ export function createPRCreateCommand(): Command {
     .option('--repository-url <url>', 'repository URL')
     .option('--reviewers <usernames>', 'comma-separated reviewer usernames')
     .option('--dependencies <ids>', 'comma-separated dependency IDs')
+    .option('--due-date <date>', 'due date (YYYY-MM-DD)')
+    .option('--sla-hours <hours>', 'SLA in hours from creation')
     .option('--dry-run', 'show what would be created without creating')
     .action(async (titleArg: string | undefined, options: CreateOptions) => {
       try {
@@ -149,6 +154,8 @@ async function createPR(title: string, options: CreateOptions): Promise<void> {
     blocks: [],
     related_prs: [],
     template_used: options.template || 'default',
+    due_date: options.dueDate ? parseDueDate(options.dueDate) : undefined,
+    sla_hours: options.slaHours ? parseSlaHours(options.slaHours) : undefined,
   };
 
   // Generate content from template
@@ -173,6 +180,12 @@ async function createPR(title: string, options: CreateOptions): Promise<void> {
     console.log(Formatter.debug(`PR Status: ${prFrontmatter.pr_status}`));
     console.log(Formatter.debug(`Priority: ${prFrontmatter.priority}`));
     console.log(Formatter.debug(`Assignee: ${prFrontmatter.assignee}`));
+    if (prFrontmatter.due_date) {
+      console.log(Formatter.debug(`Due Date: ${prFrontmatter.due_date}`));
+    }
+    if (prFrontmatter.sla_hours) {
+      console.log(Formatter.debug(`SLA: ${prFrontmatter.sla_hours}h`));
+    }
     console.log(Formatter.debug(`Target Branch: ${prFrontmatter.target_branch}`));
     if (prFrontmatter.branch_name) {
       console.log(Formatter.debug(`Branch Name: ${prFrontmatter.branch_name}`));
@@ -214,6 +227,12 @@ async function createPR(title: string, options: CreateOptions): Promise<void> {
   console.log(Formatter.info(`PR Status: ${prFrontmatter.pr_status}`));
   console.log(Formatter.info(`Priority: ${prFrontmatter.priority}`));
   console.log(Formatter.info(`Assignee: ${prFrontmatter.assignee}`));
+  if (prFrontmatter.due_date) {
+    console.log(Formatter.info(`Due Date: ${prFrontmatter.due_date}`));
+  }
+  if (prFrontmatter.sla_hours) {
+    console.log(Formatter.info(`SLA: ${prFrontmatter.sla_hours}h`));
+  }
   console.log(Formatter.info(`Target Branch: ${prFrontmatter.target_branch}`));
 
   if (prFrontmatter.branch_name) {
@@ -10,6 +10,8 @@ import type { PRData } from '../../types/ai-trackdown.js';
 import { colors } from '../../utils/colors.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { writeFileJournaled } from '../../utils/journaled-fs.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
 import { PRFileManager } from '../../utils/pr-file-manager.js';
 import { PRStatusManager } from '../../utils/pr-status-manager.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -37,6 +39,13 @@ export interface MergeResult {
   archivedFiles: string[];
   errors: string[];
   warnings: string[];
+  milestone?: {
+    id: string;
+    title: string;
+    finished: number;
+    total: number;
+    percentage: number;
+  };
 }
 
 export interface PreMergeCheck {
@@ -116,6 +125,12 @@ export function createPRMergeCommand(): Command {
             console.log(`📁 Archived files: ${result.archivedFiles.length}`);
           }
 
+          if (result.milestone) {
+            console.log(
+              `🏁 Milestone ${result.milestone.title}: ${result.milestone.finished}/${result.milestone.total} done (${result.milestone.percentage}%)`
+            );
+          }
+
           if (result.warnings.length > 0) {
             console.log(colors.yellow('⚠️  Warnings:'));
             result.warnings.forEach((warning) => {
@@ -249,10 +264,14 @@ async function mergePR(
 
     // 8. Update milestone if requested
     if (options.updateMilestone && prData.milestone) {
-      if (!dryRun) {
-        await updateMilestoneProgress(prData.milestone, configManager);
+      const milestone = getMilestoneProgress(prData, configManager, dryRun);
+      if (milestone) {
+        result.milestone = milestone;
+      } else {
+        result.warnings.push(
+          `Milestone not found: ${prData.milestone} (create it with "milestone create")`
+        );
       }
-      result.warnings.push(`Would update milestone: ${prData.milestone}`);
     }
 
     // 9. Create merge activity log
@@ -455,7 +474,7 @@ async function updateTaskForMerge(
     const mergeNote = `\n\n## Completed via PR Merge\n\nThis task was automatically completed when PR ${prId} was merged.\n`;
     const finalContent = updatedContent + mergeNote;
 
-    fs.writeFileSync(taskPath, finalContent, 'utf8');
+    writeFileJournaled(taskPath, finalContent);
   } catch (error) {
     console.error(`Failed to update task ${taskId}: ${error}`);
   }
@@ -489,19 +508,43 @@ async function updateIssueForMerge(
     const mergeNote = `\n\n## PR Merged\n\nPR ${prId} has been merged for this issue.\n`;
     const finalContent = updatedContent + mergeNote;
 
-    fs.writeFileSync(issuePath, finalContent, 'utf8');
+    writeFileJournaled(issuePath, finalContent);
   } catch (error) {
     console.error(`Failed to update issue ${issueId}: ${error}`);
   }
 }
 
-async function updateMilestoneProgress(
-  milestone: string,
-  _configManager: ConfigManager
-): Promise<void> {
-  // This would update milestone progress tracking
-  // Implementation would depend on milestone tracking system
-  console.log(`Updating milestone progress for: ${milestone}`);
+function getMilestoneProgress(
+  prData: PRData,
+  configManager: ConfigManager,
+  dryRun: boolean
+): MergeResult['milestone'] | null {
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const milestoneManager = new MilestoneManager(
+    configManager.getConfig(),
+    paths.projectRoot,
+    cliTasksDir
+  );
+
+  const milestone = prData.milestone ? milestoneManager.getMilestone(prData.milestone) : null;
+  if (!milestone) {
+    return null;
+  }
+
+  const progress = milestoneManager.getProgress(milestone);
+  // A dry run has not merged the PR yet, so count it as it will be once merged
+  const finished = progress.items.filter(
+    (item) => item.finished || (dryRun && item.id === prData.pr_id)
+  ).length;
+
+  return {
+    id: milestone.milestone_id,
+    title: milestone.title,
+    finished,
+    total: progress.total,
+    percentage: progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0,
+  };
 }
 
 async function createMergeActivityLog(
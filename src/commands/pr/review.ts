@@ -6,10 +6,13 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Command } from 'commander';
+import * as YAML from 'yaml';
 import type { PRData, PRStatus } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { HistoryLog } from '../../utils/history-log.js';
+import { renameJournaled, writeFileJournaled } from '../../utils/journaled-fs.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface ReviewOptions {
@@ -228,7 +231,10 @@ ${reviewType === 'comment' ? '💬 **COMMENTED** - General feedback provided' :
   // Write review file
   const reviewFileName = `${reviewId}.md`;
   const reviewFilePath = path.join(reviewsDir, reviewFileName);
-  parser.writeFile(reviewFilePath, reviewFrontmatter, reviewContent);
+  writeFileJournaled(
+    reviewFilePath,
+    `---\n${YAML.stringify(reviewFrontmatter)}---\n\n${reviewContent}\n`
+  );
 
   // Update PR with review information
   const prUpdates: Partial<PRData> = {
@@ -238,7 +244,13 @@ ${reviewType === 'comment' ? '💬 **COMMENTED** - General feedback provided' :
     updated_date: now,
   };
 
-  parser.updateFile(pr.file_path, prUpdates);
+  const updatedPR = parser.updateFile(pr.file_path, prUpdates);
+
+  // Record the review in the audit history
+  new HistoryLog(paths.tasksRoot).recordDiff(prId, 'review', pr, updatedPR, {
+    source: 'pr review',
+    reason: `${reviewType} by ${reviewer} (${reviewId})`,
+  });
 
   // Handle status-based file movement if status changed
   if (newPRStatus !== pr.pr_status) {
@@ -312,7 +324,7 @@ async function handleStatusTransition(
     const newFilePath = path.join(targetDir, fileName);
 
     // Move the file
-    fs.renameSync(pr.file_path, newFilePath);
+    renameJournaled(pr.file_path, newFilePath);
 
     console.log(Formatter.info(`Moved PR file: ${currentDir} → ${targetDir}`));
   }
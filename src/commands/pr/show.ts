@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import type { PRStatus, Priority } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { formatHistoryEvent, HistoryLog } from '../../utils/history-log.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface ShowOptions {
@@ -25,7 +26,7 @@ export function createPRShowCommand(): Command {
     .option('-f, --format <format>', 'output format (detailed|json|yaml)', 'detailed')
     .option('-c, --show-content', 'include PR content/description')
     .option('-r, --show-relationships', 'show related items (issue, epic, dependencies)')
-    .option('-h, --show-history', 'show change history (if available)')
+    .option('-h, --show-history', 'show the change history recorded for the PR')
     .action(async (prId: string, options: ShowOptions) => {
       try {
         await showPR(prId, options);
@@ -45,13 +46,13 @@ export function createPRShowCommand(): Command {
 async function showPR(prId: string, options: ShowOptions): Promise<void> {
   const configManager = new ConfigManager();
   const config = configManager.getConfig();
-  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
 
   // Get CLI tasks directory from parent command options
   const cliTasksDir = process.env.CLI_TASKS_DIR;
 
   // Get absolute paths with CLI override
   const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
 
   // Find the PR
   const prHierarchy = relationshipManager.getPRHierarchy(prId);
@@ -276,6 +277,17 @@ async function showPR(prId: string, options: ShowOptions): Promise<void> {
     }
   }
 
+  if (options.showHistory) {
+    const events = new HistoryLog(paths.tasksRoot).getEvents(pr.pr_id);
+    console.log(`\n${Formatter.header('Change History:')}`);
+    if (events.length === 0) {
+      console.log('  No recorded changes');
+    }
+    for (const event of events) {
+      console.log(formatHistoryEvent(event));
+    }
+  }
+
   // Show change summary
   console.log(`\n${Formatter.success('PR Summary:')}`);
   console.log(`  PR ${pr.pr_id} "${pr.title}"`);
@@ -6,10 +6,17 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Command } from 'commander';
-import type { PRData, PRStatus, Priority } from '../../types/ai-trackdown.js';
+import {
+  type PRData,
+  type PRStatus,
+  type Priority,
+  StateManager,
+} from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { appendFileJournaled, renameJournaled } from '../../utils/journaled-fs.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface UpdateOptions {
@@ -29,6 +36,10 @@ interface UpdateOptions {
   addDependency?: string;
   removeDependency?: string;
   milestone?: string;
+  dueDate?: string;
+  clearDueDate?: boolean;
+  slaHours?: string;
+  clearSla?: boolean;
   estimatedTokens?: number;
   dryRun?: boolean;
 }
@@ -55,6 +66,10 @@ export function createPRUpdateCommand(): Command {
     .option('--add-dependency <id>', 'add a dependency')
     .option('--remove-dependency <id>', 'remove a dependency')
     .option('--milestone <milestone>', 'update milestone')
+    .option('--due-date <date>', 'set due date (YYYY-MM-DD)')
+    .option('--clear-due-date', 'clear due date')
+    .option('--sla-hours <hours>', 'set SLA in hours from creation')
+    .option('--clear-sla', 'clear SLA')
     .option('--estimated-tokens <number>', 'update estimated tokens')
     .option('--dry-run', 'show what would be updated without making changes')
     .action(async (prId: string, options: UpdateOptions) => {
@@ -77,13 +92,13 @@ async function updatePR(prId: string, options: UpdateOptions): Promise<void> {
   const configManager = new ConfigManager();
   const config = configManager.getConfig();
   const parser = new FrontmatterParser();
-  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
 
   // Get CLI tasks directory from parent command options
   const cliTasksDir = process.env.CLI_TASKS_DIR;
 
   // Get absolute paths with CLI override
   const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
 
   // Find the PR
   const prHierarchy = relationshipManager.getPRHierarchy(prId);
@@ -174,6 +189,10 @@ async function updatePR(prId: string, options: UpdateOptions): Promise<void> {
   if (options.repositoryUrl) updates.repository_url = options.repositoryUrl;
   if (options.milestone) updates.milestone = options.milestone;
   if (options.estimatedTokens !== undefined) updates.estimated_tokens = options.estimatedTokens;
+  if (options.dueDate) updates.due_date = parseDueDate(options.dueDate);
+  if (options.clearDueDate) updates.due_date = undefined;
+  if (options.slaHours !== undefined) updates.sla_hours = parseSlaHours(options.slaHours);
+  if (options.clearSla) updates.sla_hours = undefined;
 
   // Update arrays only if they changed
   if (options.addReviewer || options.removeReviewer) {
@@ -294,17 +313,14 @@ async function updatePR(prId: string, options: UpdateOptions): Promise<void> {
 }
 
 function isValidStatusTransition(currentStatus: PRStatus, newStatus: PRStatus): boolean {
-  // Define valid status transitions
-  const validTransitions: Record<PRStatus, PRStatus[]> = {
-    draft: ['open', 'closed'],
-    open: ['draft', 'review', 'approved', 'merged', 'closed'],
-    review: ['open', 'approved', 'closed'],
-    approved: ['review', 'merged', 'closed'],
-    merged: [], // Merged PRs cannot transition to other states
-    closed: ['draft', 'open'], // Closed PRs can be reopened
-  };
-
-  return validTransitions[currentStatus].includes(newStatus);
+  // Status rules are shared with PRStatusManager through the pr_status workflow
+  const workflow = StateManager.getWorkflowEngine();
+  return workflow.validateTransition(
+    currentStatus,
+    newStatus,
+    'pr_status',
+    workflow.getUserRoles(process.env.USER || 'system')
+  ).valid;
 }
 
 async function handleStatusTransition(pr: PRData, newStatus: PRStatus, paths: any): Promise<void> {
@@ -334,7 +350,7 @@ async function handleStatusTransition(pr: PRData, newStatus: PRStatus, paths: an
     const newFilePath = path.join(targetDir, fileName);
 
     // Move the file
-    fs.renameSync(pr.file_path, newFilePath);
+    renameJournaled(pr.file_path, newFilePath);
 
     console.log(Formatter.info(`Moved PR file: ${currentDir} → ${targetDir}`));
   }
@@ -350,7 +366,7 @@ async function logPRUpdate(updateLogEntry: any, paths: any): Promise<void> {
     const logFile = path.join(logDir, 'pr-updates.log');
     const logLine = `${JSON.stringify(updateLogEntry)}\n`;
 
-    fs.appendFileSync(logFile, logLine);
+    appendFileJournaled(logFile, logLine);
   } catch (error) {
     console.warn(
       Formatter.warning(
@@ -0,0 +1,19 @@
+/**
+ * Recur Command Group for AI-Trackdown
+ * Recurring items created on a schedule from items and templates
+ */
+
+import { Command } from 'commander';
+import { createRecurListCommand } from './recur/list.js';
+import { createRecurRunCommand } from './recur/run.js';
+
+export function createRecurCommand(): Command {
+  const cmd = new Command('recur');
+
+  cmd
+    .description('Create recurring items from series with a recurrence rule')
+    .addCommand(createRecurListCommand())
+    .addCommand(createRecurRunCommand());
+
+  return cmd;
+}
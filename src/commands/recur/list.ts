@@ -0,0 +1,91 @@
+/**
+ * Recur List Command
+ * List recurring series with their rule, last instance and next occurrence
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RecurrenceManager } from '../../utils/recurrence-manager.js';
+import { toIsoDate } from '../../utils/sprint-manager.js';
+
+interface ListOptions {
+  format?: 'table' | 'json';
+}
+
+export function createRecurListCommand(): Command {
+  const cmd = new Command('list');
+
+  cmd
+    .description('List recurring series')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .action(async (options: ListOptions) => {
+      try {
+        await listSeries(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to list recurring series: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function listSeries(options: ListOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const recurrenceManager = new RecurrenceManager(config, paths.projectRoot, cliTasksDir);
+  const today = toIsoDate(new Date());
+
+  const rows = recurrenceManager.listSeries().map((series) => {
+    const instances = recurrenceManager.getInstances(series.id);
+    const last = instances[instances.length - 1];
+    return {
+      series: series.id,
+      type: series.type,
+      title: series.title,
+      recurrence: series.rule_text,
+      instances: instances.length,
+      last_instance: last ? `${getInstanceId(last)} (${last.recurrence_date})` : undefined,
+      due: recurrenceManager.getDueDates(series, today),
+      next: recurrenceManager.getNextOccurrence(series, today),
+    };
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log(Formatter.info('No recurring series found'));
+    console.log(
+      Formatter.dim('Add "recurrence: weekly on monday" to an item or template to start one')
+    );
+    return;
+  }
+
+  for (const row of rows) {
+    const due = row.due.length > 0 ? chalk.yellow(` due ${row.due.join(', ')}`) : '';
+    console.log(`${chalk.bold(row.series)} ${chalk.gray(`[${row.type}]`)} ${row.title}`);
+    console.log(
+      `  ${row.recurrence} · ${row.instances} instance${row.instances === 1 ? '' : 's'}` +
+        `${row.last_instance ? `, last ${row.last_instance}` : ''}` +
+        `${row.next ? ` · next ${row.next}` : ''}${due}`
+    );
+  }
+}
+
+function getInstanceId(item: { epic_id?: string; issue_id?: string; task_id?: string }): string {
+  return item.task_id || item.issue_id || item.epic_id || '';
+}
@@ -0,0 +1,81 @@
+/**
+ * Recur Run Command
+ * Create the recurring instances that are due; safe to run from cron
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RecurrenceManager } from '../../utils/recurrence-manager.js';
+
+interface RunOptions {
+  date?: string;
+  catchUp?: boolean;
+  dryRun?: boolean;
+  format?: 'text' | 'json';
+}
+
+export function createRecurRunCommand(): Command {
+  const cmd = new Command('run');
+
+  cmd
+    .description('Create recurring instances that are due (never duplicates an occurrence)')
+    .option('--date <date>', 'run as of this date (YYYY-MM-DD) instead of today')
+    .option('--catch-up', 'create every missed occurrence, not only the latest')
+    .option('--dry-run', 'show what would be created without creating it')
+    .option('-f, --format <type>', 'output format (text|json)', 'text')
+    .action(async (options: RunOptions) => {
+      try {
+        await runRecurrences(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to run recurrences: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runRecurrences(options: RunOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const recurrenceManager = new RecurrenceManager(config, paths.projectRoot, cliTasksDir);
+
+  const results = recurrenceManager.run({
+    date: options.date,
+    catchUp: options.catchUp,
+    dryRun: options.dryRun,
+    user: process.env.USER || 'system',
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(results, null, 2));
+  } else if (results.length === 0) {
+    console.log(Formatter.info('No recurring instances are due'));
+  } else {
+    for (const result of results) {
+      if (result.error) {
+        console.log(Formatter.error(`${result.series_id} (${result.date}): ${result.error}`));
+      } else if (options.dryRun) {
+        console.log(Formatter.info(`Would create ${result.series_id} for ${result.date}`));
+      } else {
+        console.log(
+          Formatter.success(`Created ${result.item_id} from ${result.series_id} for ${result.date}`)
+        );
+      }
+    }
+  }
+
+  if (results.some((result) => result.error)) {
+    process.exit(1);
+  }
+}
@@ -6,6 +6,7 @@
 import { Command } from 'commander';
 import type { 
   AnyItemData, 
+  ItemType,
   ResolutionState, 
   UnifiedState, 
   StateValidationResult 
@@ -13,7 +14,14 @@ import type {
 import { ConfigManager } from '../utils/config-manager.js';
 import { Formatter } from '../utils/formatter.js';
 import { FrontmatterParser } from '../utils/frontmatter-parser.js';
+import { HistoryLog } from '../utils/history-log.js';
+import { createIndexAutoUpdater } from '../utils/index-auto-updater.js';
 import { RelationshipManager } from '../utils/relationship-manager.js';
+import {
+  formatHookResult,
+  type TransitionContext,
+  TransitionHookRunner,
+} from '../utils/transition-hooks.js';
 import { StateManager, StateTransition } from '../types/ai-trackdown.js';
 
 interface ResolveOptions {
@@ -223,6 +231,22 @@ async function resolveItem(
       return;
     }
 
+    // Run transition hooks; a failing hook script vetoes the change
+    const hooks = new TransitionHookRunner(config, paths, cliTasksDir);
+    const hookContext: TransitionContext = {
+      itemId,
+      itemType: getItemType(item) as ItemType,
+      from: currentState,
+      to: targetState,
+      user: process.env.USER || 'system',
+      reason: options.reason,
+    };
+    const hookResults = hooks.runBefore(item, hookContext);
+    for (const result of hookResults) console.log(formatHookResult(result));
+    if (hookResults.some(result => result.vetoed)) {
+      throw new Error(`Transition to ${targetState} vetoed by hook`);
+    }
+
     // Update assignee if provided
     if (options.assignee) {
       transitionResult.item.assignee = options.assignee;
@@ -236,11 +260,25 @@ async function resolveItem(
       ...(options.assignee && { assignee: options.assignee })
     };
 
-    parser.updateFile(item.file_path, updates);
+    const updatedItem = parser.updateFile(item.file_path, updates);
+
+    // Record the transition in the audit history
+    new HistoryLog(paths.tasksRoot).recordDiff(itemId, 'resolve', item, updatedItem, {
+      source: `resolve ${targetState}`,
+      reason: options.reason,
+    });
+
+    // Built-in hook actions run once the new state is saved
+    for (const result of await hooks.runAfter(updatedItem, hookContext)) {
+      console.log(formatHookResult(result));
+    }
 
     // Refresh cache
     relationshipManager.rebuildCache();
 
+    // Keep the index current and roll the change up to parent items
+    await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated(hookContext.itemType, itemId);
+
     console.log(Formatter.success(`Item ${itemId} resolved to ${targetState}`));
     
     if (options.verbose) {
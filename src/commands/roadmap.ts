@@ -0,0 +1,139 @@
+/**
+ * Roadmap Command
+ * Schedule open epics and issues and render the timeline for planning
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import { RelationshipManager } from '../utils/relationship-manager.js';
+import type { RoadmapFormat } from '../utils/roadmap.js';
+
+interface RoadmapCommandOptions {
+  epic?: string;
+  from?: string;
+  hoursPerDay?: string;
+  format?: RoadmapFormat;
+  output?: string;
+}
+
+export function createRoadmapCommand(): Command {
+  const cmd = new Command('roadmap');
+
+  cmd
+    .description('Schedule open epics and issues on a timeline')
+    .option('-e, --epic <epic-id>', 'only show this epic')
+    .option('--from <date>', 'first day to schedule (YYYY-MM-DD, default: today)')
+    .option('--hours-per-day <hours>', 'working hours per assignee per day (default: 6)')
+    .option('-f, --format <type>', 'output format (ascii|mermaid|csv|json)', 'ascii')
+    .option('-o, --output <path>', 'write to a file instead of stdout')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown roadmap
+  $ aitrackdown roadmap --epic EP-0001 --from 2026-11-02
+  $ aitrackdown roadmap --format mermaid --output roadmap.mmd
+  $ aitrackdown roadmap --format csv > roadmap.csv
+
+Issues are scheduled after the items they depend on, from their time estimate
+(or their tasks' estimates) at the assignee's hours per day, one issue at a
+time per assignee. An item with both --start-date and --due-date keeps those
+dates. Due dates, or the due date of the item's milestone, are targets: items
+ending after their target are marked late. Set hours per day for everyone or
+per assignee in config.yaml:
+
+  roadmap:
+    hours_per_day: 6
+    capacity:
+      alice: 4
+`
+    )
+    .action(async (options: RoadmapCommandOptions) => {
+      try {
+        await showRoadmap(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to build roadmap: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showRoadmap(options: RoadmapCommandOptions): Promise<void> {
+  const format = options.format || 'ascii';
+  if (!['ascii', 'mermaid', 'csv', 'json'].includes(format)) {
+    throw new Error(`Invalid format: ${format}. Expected ascii, mermaid, csv or json`);
+  }
+  const hoursPerDay = options.hoursPerDay ? Number(options.hoursPerDay) : undefined;
+  if (hoursPerDay !== undefined && (!Number.isFinite(hoursPerDay) || hoursPerDay <= 0)) {
+    throw new Error(`Invalid hours per day: ${options.hoursPerDay} (expected a positive number)`);
+  }
+
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, projectRoot, cliTasksDir);
+
+  // The scheduler and milestone records are only loaded for this command
+  const { buildRoadmap, renderRoadmap } = await import('../utils/roadmap.js');
+  const { MilestoneManager } = await import('../utils/milestone-manager.js');
+
+  const milestones: Record<string, string> = {};
+  for (const milestone of new MilestoneManager(config, projectRoot, cliTasksDir).listMilestones()) {
+    if (!milestone.due_date) continue;
+    milestones[milestone.milestone_id] = milestone.due_date;
+    milestones[milestone.title] = milestone.due_date;
+  }
+
+  const roadmap = buildRoadmap(relationshipManager.search({}).items, {
+    from: options.from,
+    hours_per_day: hoursPerDay || config.roadmap?.hours_per_day,
+    capacity: config.roadmap?.capacity,
+    milestones,
+    epic_id: options.epic,
+  });
+  const output = renderRoadmap(roadmap, format, { title: options.epic || config.name });
+
+  if (options.output) {
+    const outputPath = path.resolve(options.output);
+    fs.writeFileSync(outputPath, output, 'utf8');
+    console.log(
+      Formatter.success(`Wrote a ${roadmap.entries.length}-row ${format} roadmap to ${outputPath}`)
+    );
+    return;
+  }
+
+  if (format !== 'ascii') {
+    process.stdout.write(output);
+    return;
+  }
+
+  // Colour the late rows; the rest of the timeline is plain text
+  for (const line of output.trimEnd().split('\n')) {
+    console.log(line.includes(' LATE ') ? chalk.red(line) : line);
+  }
+  const late = roadmap.entries.filter((entry) => entry.late_days > 0);
+  if (late.length > 0) {
+    console.log(Formatter.warning(`${late.length} item(s) end after their target date`));
+  }
+  if (roadmap.unestimated.length > 0) {
+    console.log(
+      Formatter.dim(
+        `No estimate, scheduled as one day: ${roadmap.unestimated.join(', ')}. Set time_estimate to plan them.`
+      )
+    );
+  }
+  for (const cycle of roadmap.cycles) {
+    console.log(Formatter.warning(`Not scheduled, dependency cycle: ${cycle.join(' → ')}`));
+  }
+}
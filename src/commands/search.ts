@@ -0,0 +1,115 @@
+/**
+ * Search Command
+ * Full-text search across epics, issues, tasks and PRs, ranked by relevance
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { ItemType } from '../types/ai-trackdown.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+
+interface SearchOptions {
+  type?: ItemType;
+  limit?: string;
+  format?: 'table' | 'json';
+  reindex?: boolean;
+}
+
+export function createSearchCommand(): Command {
+  const cmd = new Command('search');
+
+  cmd
+    .description('Search titles, descriptions, content and comments of all items')
+    .argument('<query...>', 'words, "exact phrases" and prefix* terms; all must match')
+    .option('-t, --type <type>', 'only items of this type (epic|issue|task|pr)')
+    .option('-n, --limit <number>', 'maximum number of results', '20')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .option('--reindex', 'rebuild the search index before searching')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown search login timeout
+  $ aitrackdown search '"payment form"' --type issue
+  $ aitrackdown search auth* --format json
+  $ aitrackdown search checkout --reindex
+
+Results are ranked with BM25; title matches weigh more than body and comment matches.
+`
+    )
+    .action(async (words: string[], options: SearchOptions) => {
+      try {
+        await runSearch(words.join(' '), options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runSearch(query: string, options: SearchOptions): Promise<void> {
+  if (options.type && !['epic', 'issue', 'task', 'pr'].includes(options.type)) {
+    throw new Error(`Invalid type: ${options.type}. Expected one of: epic, issue, task, pr`);
+  }
+  const limit = Number.parseInt(options.limit || '20', 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid limit: ${options.limit}`);
+  }
+
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+
+  const { SearchIndex } = await import('../utils/search-index.js');
+  const searchIndex = new SearchIndex(config, projectRoot, cliTasksDir);
+
+  if (options.reindex) {
+    const stats = searchIndex.rebuild();
+    if (options.format !== 'json') {
+      console.log(
+        Formatter.dim(`Indexed ${stats.documents} items (${stats.terms} distinct terms)`)
+      );
+    }
+  }
+
+  if (options.format === 'json') {
+    const hits = searchIndex.search(query, { type: options.type, limit });
+    console.log(JSON.stringify({ query, total: hits.length, results: hits }, null, 2));
+    return;
+  }
+
+  const hits = searchIndex.search(query, {
+    type: options.type,
+    limit,
+    highlight: (match) => chalk.bold.yellow(match),
+  });
+
+  if (hits.length === 0) {
+    console.log(Formatter.info(`No items match "${query}"`));
+    return;
+  }
+
+  console.log(Formatter.header(`Search results for "${query}"`));
+  for (const hit of hits) {
+    console.log(
+      `${chalk.cyan(hit.id.padEnd(10))} ${chalk.bold(hit.title)} ${Formatter.dim(`(${hit.type}, ${hit.score.toFixed(2)})`)}`
+    );
+    if (hit.snippet) {
+      console.log(`  ${hit.field === 'comments' ? Formatter.dim('comment: ') : ''}${hit.snippet}`);
+    }
+  }
+  console.log('');
+  console.log(
+    Formatter.dim(
+      `${hits.length} result${hits.length === 1 ? '' : 's'}${hits.length === limit ? ` (use --limit for more)` : ''}`
+    )
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Serve Command for AI-Trackdown
+ * Run a local HTTP/JSON API with server-sent events for file changes
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+
+interface ServeOptions {
+  port: string;
+  host: string;
+  cors?: string;
+  watch: boolean;
+}
+
+export function createServeCommand(): Command {
+  const cmd = new Command('serve');
+
+  cmd
+    .description('Serve a local REST API over the project with live change events')
+    .option('-p, --port <port>', 'port to listen on', '4000')
+    .option('--host <host>', 'interface to bind to', '127.0.0.1')
+    .option('--cors <origin>', 'allow cross-origin requests from this origin (or *)')
+    .option('--no-watch', 'do not watch files or push change events')
+    .action(async (options: ServeOptions) => {
+      try {
+        await serve(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to start server: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function serve(options: ServeOptions): Promise<void> {
+  const port = Number.parseInt(options.port, 10);
+  if (Number.isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${options.port}`);
+  }
+
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  // The server and its routes are only loaded when serving
+  const { TrackdownApiServer } = await import('../utils/api-server.js');
+  const server = new TrackdownApiServer(configManager, {
+    port,
+    host: options.host,
+    cors: options.cors,
+    watch: options.watch,
+    cliTasksDir,
+  });
+  const address = await server.start();
+
+  const url = `http://${address.host}:${address.port}/api`;
+  console.log(Formatter.success(`API server listening on ${url}`));
+  console.log(Formatter.info(`Project: ${configManager.getConfig().name}`));
+  if (options.watch) {
+    console.log(Formatter.info(`Change events: ${url}/events`));
+  }
+  console.log(Formatter.dim('Press Ctrl+C to stop'));
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
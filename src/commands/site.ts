@@ -0,0 +1,17 @@
+/**
+ * Site Command Group for AI-Trackdown
+ * Static, read-only HTML views of the tracker for people without the CLI
+ */
+
+import { Command } from 'commander';
+import { createSiteBuildCommand } from './site/build.js';
+
+export function createSiteCommand(): Command {
+  const cmd = new Command('site');
+
+  cmd
+    .description('Generate a static HTML site of the tracker')
+    .addCommand(createSiteBuildCommand());
+
+  return cmd;
+}
@@ -0,0 +1,66 @@
+/**
+ * Site Build Command
+ * Render every item into a linked static site with search, progress and charts
+ */
+
+import * as path from 'node:path';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+
+interface BuildOptions {
+  out: string;
+  title?: string;
+  clean?: boolean;
+}
+
+export function createSiteBuildCommand(): Command {
+  const cmd = new Command('build');
+
+  cmd
+    .description('Build the static site into a directory')
+    .option('-o, --out <dir>', 'output directory', 'dist')
+    .option('--title <title>', 'site title (defaults to the project name)')
+    .option('--clean', 'empty the output directory before building')
+    .action(async (options: BuildOptions) => {
+      try {
+        await buildSite(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to build site: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function buildSite(options: BuildOptions): Promise<void> {
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  // The builder and its page templates are only loaded when a site is built
+  const { SiteBuilder } = await import('../../utils/site-builder.js');
+  const builder = new SiteBuilder(configManager, {
+    outDir: options.out,
+    cliTasksDir,
+    title: options.title,
+    clean: options.clean,
+  });
+  const result = await builder.build();
+
+  console.log(
+    Formatter.success(
+      `Built ${result.pages} pages for ${result.items} items in ${path.relative(process.cwd(), result.outDir) || '.'}`
+    )
+  );
+  if (result.projects.length > 1) {
+    console.log(Formatter.info(`Projects: ${result.projects.join(', ')}`));
+  }
+  console.log(Formatter.dim(`Open ${path.join(result.outDir, 'index.html')} in a browser`));
+}
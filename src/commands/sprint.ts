@@ -0,0 +1,31 @@
+/**
+ * Sprint Command Group for AI-Trackdown
+ * Sprint planning, capacity, rollover and burndown
+ */
+
+import { Command } from 'commander';
+import { createSprintAddCommand } from './sprint/add.js';
+import { createSprintBurndownCommand } from './sprint/burndown.js';
+import { createSprintCloseCommand } from './sprint/close.js';
+import { createSprintCreateCommand } from './sprint/create.js';
+import { createSprintListCommand } from './sprint/list.js';
+import { createSprintRemoveCommand } from './sprint/remove.js';
+import { createSprintShowCommand } from './sprint/show.js';
+import { createSprintStartCommand } from './sprint/start.js';
+
+export function createSprintCommand(): Command {
+  const cmd = new Command('sprint');
+
+  cmd
+    .description('Plan and track sprints (iterations)')
+    .addCommand(createSprintCreateCommand())
+    .addCommand(createSprintListCommand())
+    .addCommand(createSprintShowCommand())
+    .addCommand(createSprintAddCommand())
+    .addCommand(createSprintRemoveCommand())
+    .addCommand(createSprintStartCommand())
+    .addCommand(createSprintCloseCommand())
+    .addCommand(createSprintBurndownCommand());
+
+  return cmd;
+}
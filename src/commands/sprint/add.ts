@@ -0,0 +1,58 @@
+/**
+ * Sprint Add Command
+ * Commit items to a sprint and check them against its capacity
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatWork, SprintManager } from '../../utils/sprint-manager.js';
+
+export function createSprintAddCommand(): Command {
+  const cmd = new Command('add');
+
+  cmd
+    .description('Add issues, tasks or PRs to a sprint')
+    .argument('<sprint-id>', 'sprint ID')
+    .argument('<item-ids...>', 'item IDs to add')
+    .action(async (sprintId: string, itemIds: string[]) => {
+      try {
+        await addToSprint(sprintId, itemIds);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to add items to sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function addToSprint(sprintId: string, itemIds: string[]): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprint = sprintManager.addItems(sprintId, itemIds, relationshipManager);
+  const commitment = sprintManager.getCommitment(sprint, relationshipManager);
+
+  console.log(Formatter.success(`Added ${itemIds.join(', ')} to ${sprintId}`));
+  console.log(
+    Formatter.info(
+      `Committed: ${formatWork(commitment.committed, commitment.unit)} of ${formatWork(commitment.capacity, commitment.unit)}`
+    )
+  );
+  if (commitment.over_capacity) {
+    console.log(Formatter.warning(`${sprintId} is over capacity`));
+  }
+}
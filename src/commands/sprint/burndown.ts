@@ -0,0 +1,90 @@
+/**
+ * Sprint Burndown Command
+ * Render a daily remaining-work chart in the terminal
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatWork, SprintManager } from '../../utils/sprint-manager.js';
+
+interface BurndownOptions {
+  width?: string;
+  json?: boolean;
+}
+
+export function createSprintBurndownCommand(): Command {
+  const cmd = new Command('burndown');
+
+  cmd
+    .description('Show a daily burndown chart (defaults to the active sprint)')
+    .argument('[sprint-id]', 'sprint ID')
+    .option('-w, --width <columns>', 'chart width in characters', '40')
+    .option('--json', 'output the burndown data as JSON')
+    .action(async (sprintId: string | undefined, options: BurndownOptions) => {
+      try {
+        await showBurndown(sprintId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show burndown: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showBurndown(sprintId: string | undefined, options: BurndownOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprint = sprintId ? sprintManager.getSprint(sprintId) : sprintManager.getActiveSprint();
+  if (!sprint) {
+    throw new Error(sprintId ? `Sprint not found: ${sprintId}` : 'No sprint is active');
+  }
+
+  const points = sprintManager.getBurndown(sprint, relationshipManager);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ sprint_id: sprint.sprint_id, unit: sprint.capacity_unit, points }, null, 2)
+    );
+    return;
+  }
+
+  console.log(Formatter.header(`Burndown: ${sprint.sprint_id} - ${sprint.title}`));
+  if (points.length === 0) {
+    console.log(Formatter.info(`Sprint starts on ${sprint.start_date}`));
+    return;
+  }
+
+  const width = Math.max(10, Number.parseInt(options.width || '40', 10) || 40);
+  const max = Math.max(...points.map((p) => Math.max(p.remaining, p.ideal)), 1);
+
+  for (const point of points) {
+    const filled = Math.round((point.remaining / max) * width);
+    const idealAt = Math.min(width - 1, Math.round((point.ideal / max) * width));
+    const bar = Array.from({ length: width }, (_, i) => {
+      if (i === idealAt) return i < filled ? chalk.cyan.inverse('┆') : chalk.gray('┆');
+      return i < filled ? chalk.cyan('█') : ' ';
+    }).join('');
+    const label = formatWork(point.remaining, sprint.capacity_unit);
+    const behind = point.remaining > point.ideal;
+    console.log(`${point.date} │${bar}│ ${behind ? chalk.yellow(label) : label}`);
+  }
+
+  console.log('');
+  console.log(Formatter.dim(`█ remaining work   ┆ ideal burndown   (ends ${sprint.end_date})`));
+}
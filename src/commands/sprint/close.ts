@@ -0,0 +1,67 @@
+/**
+ * Sprint Close Command
+ * Close a sprint and roll unfinished items over to the next one
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { SprintManager } from '../../utils/sprint-manager.js';
+
+interface CloseOptions {
+  rollover?: boolean;
+}
+
+export function createSprintCloseCommand(): Command {
+  const cmd = new Command('close');
+
+  cmd
+    .description('Close a sprint, rolling unfinished items into the next planned sprint')
+    .argument('<sprint-id>', 'sprint ID')
+    .option('--no-rollover', 'leave unfinished items behind instead of rolling them over')
+    .action(async (sprintId: string, options: CloseOptions) => {
+      try {
+        await closeSprint(sprintId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to close sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function closeSprint(sprintId: string, options: CloseOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const result = sprintManager.closeSprint(sprintId, relationshipManager, {
+    rollover: options.rollover,
+  });
+
+  console.log(Formatter.success(`Sprint ${sprintId} closed`));
+  console.log(Formatter.info(`Completed: ${result.completed.length} item(s)`));
+  console.log(Formatter.info(`Unfinished: ${result.unfinished.length} item(s)`));
+
+  if (result.next_sprint) {
+    console.log(
+      Formatter.info(
+        `Rolled over to ${result.next_sprint.sprint_id} (${result.next_sprint.start_date} → ${result.next_sprint.end_date}): ${result.unfinished.join(', ')}`
+      )
+    );
+  } else if (result.unfinished.length > 0) {
+    console.log(Formatter.warning(`Not rolled over: ${result.unfinished.join(', ')}`));
+  }
+}
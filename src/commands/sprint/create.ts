@@ -0,0 +1,88 @@
+/**
+ * Sprint Create Command
+ * Create a new sprint with dates and capacity
+ */
+
+import { Command } from 'commander';
+import type { SprintCapacityUnit } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { addDays, formatWork, SprintManager, toIsoDate } from '../../utils/sprint-manager.js';
+
+interface CreateOptions {
+  goal?: string;
+  start?: string;
+  end?: string;
+  length?: string;
+  capacity?: string;
+  unit?: SprintCapacityUnit;
+}
+
+const CAPACITY_UNITS: SprintCapacityUnit[] = ['hours', 'tokens', 'items'];
+
+export function createSprintCreateCommand(): Command {
+  const cmd = new Command('create');
+
+  cmd
+    .description('Create a new sprint')
+    .argument('<title>', 'sprint title')
+    .option('-g, --goal <text>', 'sprint goal')
+    .option('-s, --start <date>', 'start date (default: today)')
+    .option('-e, --end <date>', 'end date, inclusive (default: start + length)')
+    .option('-l, --length <days>', 'sprint length in days when no end date is given', '14')
+    .option('-c, --capacity <amount>', 'capacity in the chosen unit', '0')
+    .option('-u, --unit <unit>', 'capacity unit (hours|tokens|items)', 'hours')
+    .action(async (title: string, options: CreateOptions) => {
+      try {
+        await createSprint(title, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to create sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function createSprint(title: string, options: CreateOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const unit = options.unit || 'hours';
+  if (!CAPACITY_UNITS.includes(unit)) {
+    throw new Error(`Invalid capacity unit: ${unit} (expected ${CAPACITY_UNITS.join(', ')})`);
+  }
+
+  const length = Number.parseInt(options.length || '14', 10);
+  if (!options.end && (Number.isNaN(length) || length < 1)) {
+    throw new Error(`Invalid sprint length: ${options.length}`);
+  }
+
+  const startDate = toIsoDate(options.start || new Date());
+  const endDate = options.end ? toIsoDate(options.end) : addDays(startDate, length - 1);
+
+  const sprint = sprintManager.createSprint({
+    title,
+    goal: options.goal,
+    start_date: startDate,
+    end_date: endDate,
+    capacity: Number.parseFloat(options.capacity || '0'),
+    capacity_unit: unit,
+  });
+
+  console.log(Formatter.success(`Sprint created: ${sprint.sprint_id}`));
+  console.log(Formatter.info(`Title: ${sprint.title}`));
+  console.log(Formatter.info(`Dates: ${sprint.start_date} → ${sprint.end_date}`));
+  console.log(Formatter.info(`Capacity: ${formatWork(sprint.capacity, sprint.capacity_unit)}`));
+  console.log(Formatter.info(`File: ${sprint.file_path}`));
+}
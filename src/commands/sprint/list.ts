@@ -0,0 +1,69 @@
+/**
+ * Sprint List Command
+ * List sprints with their dates, status and commitment
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { SprintStatus } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatWork, SprintManager } from '../../utils/sprint-manager.js';
+
+interface ListOptions {
+  status?: SprintStatus;
+}
+
+export function createSprintListCommand(): Command {
+  const cmd = new Command('list');
+
+  cmd
+    .description('List sprints')
+    .option('-s, --status <status>', 'filter by status (planning|active|closed)')
+    .action(async (options: ListOptions) => {
+      try {
+        await listSprints(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to list sprints: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function listSprints(options: ListOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprints = sprintManager
+    .listSprints()
+    .filter((sprint) => !options.status || sprint.sprint_status === options.status);
+
+  if (sprints.length === 0) {
+    console.log(Formatter.info('No sprints found'));
+    return;
+  }
+
+  const statusColor = { planning: chalk.yellow, active: chalk.green, closed: chalk.gray };
+
+  for (const sprint of sprints) {
+    const commitment = sprintManager.getCommitment(sprint, relationshipManager);
+    const load = `${formatWork(commitment.committed, commitment.unit)} / ${formatWork(commitment.capacity, commitment.unit)}`;
+    console.log(
+      `${chalk.bold(sprint.sprint_id.padEnd(12))} ${statusColor[sprint.sprint_status](sprint.sprint_status.padEnd(9))} ${sprint.start_date} → ${sprint.end_date}  ${commitment.over_capacity ? chalk.red(load) : load}  ${sprint.title}`
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Sprint Remove Command
+ * Take items out of a sprint
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { SprintManager } from '../../utils/sprint-manager.js';
+
+export function createSprintRemoveCommand(): Command {
+  const cmd = new Command('remove');
+
+  cmd
+    .description('Remove items from a sprint')
+    .argument('<sprint-id>', 'sprint ID')
+    .argument('<item-ids...>', 'item IDs to remove')
+    .action(async (sprintId: string, itemIds: string[]) => {
+      try {
+        await removeFromSprint(sprintId, itemIds);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to remove items from sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function removeFromSprint(sprintId: string, itemIds: string[]): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprint = sprintManager.removeItems(sprintId, itemIds);
+
+  console.log(Formatter.success(`Removed ${itemIds.join(', ')} from ${sprintId}`));
+  console.log(Formatter.info(`${sprint.items.length} item(s) remain in the sprint`));
+}
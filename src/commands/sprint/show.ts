@@ -0,0 +1,81 @@
+/**
+ * Sprint Show Command
+ * Show sprint details, committed items and capacity
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatWork, SprintManager } from '../../utils/sprint-manager.js';
+
+export function createSprintShowCommand(): Command {
+  const cmd = new Command('show');
+
+  cmd
+    .description('Show sprint details (defaults to the active sprint)')
+    .argument('[sprint-id]', 'sprint ID')
+    .action(async (sprintId: string | undefined) => {
+      try {
+        await showSprint(sprintId);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showSprint(sprintId: string | undefined): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprint = sprintId ? sprintManager.getSprint(sprintId) : sprintManager.getActiveSprint();
+  if (!sprint) {
+    throw new Error(sprintId ? `Sprint not found: ${sprintId}` : 'No sprint is active');
+  }
+
+  const commitment = sprintManager.getCommitment(sprint, relationshipManager);
+  const load = `${formatWork(commitment.committed, commitment.unit)} of ${formatWork(commitment.capacity, commitment.unit)}`;
+
+  console.log(Formatter.header(`${sprint.sprint_id}: ${sprint.title}`));
+  console.log(`Status: ${sprint.sprint_status}`);
+  console.log(`Dates: ${sprint.start_date} → ${sprint.end_date}`);
+  if (sprint.goal) {
+    console.log(`Goal: ${sprint.goal}`);
+  }
+  console.log(
+    `Committed: ${commitment.over_capacity ? Formatter.warning(`${load} (over capacity)`) : load}`
+  );
+  if (sprint.rolled_over_from) {
+    console.log(`Rolled over from: ${sprint.rolled_over_from}`);
+  }
+  if (sprint.rolled_over_to) {
+    console.log(`Rolled over to: ${sprint.rolled_over_to}`);
+  }
+
+  console.log('');
+  console.log(Formatter.subheader(`Items (${sprint.items.length})`));
+  for (const itemId of sprint.items) {
+    const item = relationshipManager.getItem(itemId);
+    if (!item) {
+      console.log(`  ${chalk.red('?')} ${itemId} ${Formatter.dim('(missing)')}`);
+      continue;
+    }
+    const marker = sprintManager.isFinished(item) ? chalk.green('✓') : chalk.yellow('○');
+    console.log(`  ${marker} ${itemId.padEnd(10)} ${item.title}`);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Sprint Start Command
+ * Move a planned sprint into the active state
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatWork, SprintManager } from '../../utils/sprint-manager.js';
+
+export function createSprintStartCommand(): Command {
+  const cmd = new Command('start');
+
+  cmd
+    .description('Start a planned sprint')
+    .argument('<sprint-id>', 'sprint ID')
+    .action(async (sprintId: string) => {
+      try {
+        await startSprint(sprintId);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to start sprint: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function startSprint(sprintId: string): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const sprintManager = new SprintManager(config, paths.projectRoot, cliTasksDir);
+
+  const sprint = sprintManager.startSprint(sprintId);
+  const commitment = sprintManager.getCommitment(sprint, relationshipManager);
+
+  console.log(Formatter.success(`Sprint ${sprintId} started`));
+  console.log(Formatter.info(`Dates: ${sprint.start_date} → ${sprint.end_date}`));
+  console.log(
+    Formatter.info(
+      `Committed: ${formatWork(commitment.committed, commitment.unit)} of ${formatWork(commitment.capacity, commitment.unit)} across ${sprint.items.length} item(s)`
+    )
+  );
+  if (commitment.over_capacity) {
+    console.log(Formatter.warning(`${sprintId} is over capacity`));
+  }
+}
@@ -6,14 +6,24 @@
 import { Command } from 'commander';
 import type { 
   AnyItemData, 
+  ItemType,
   UnifiedState, 
   SearchFilters,
-  StateMetadata
+  StateMetadata,
+  StateValidationRule,
+  WorkflowType
 } from '../types/ai-trackdown.js';
 import { ConfigManager } from '../utils/config-manager.js';
 import { Formatter } from '../utils/formatter.js';
 import { FrontmatterParser } from '../utils/frontmatter-parser.js';
+import { HistoryLog } from '../utils/history-log.js';
+import { createIndexAutoUpdater } from '../utils/index-auto-updater.js';
 import { RelationshipManager } from '../utils/relationship-manager.js';
+import {
+  formatHookResult,
+  type TransitionContext,
+  TransitionHookRunner,
+} from '../utils/transition-hooks.js';
 import { StateManager, StateTransition } from '../types/ai-trackdown.js';
 
 interface StateQueryOptions {
@@ -26,6 +36,8 @@ interface StateQueryOptions {
   showTransitions?: boolean;
 }
 
+const WORKFLOW_TYPES: WorkflowType[] = ['default', 'project', 'epic', 'issue', 'task', 'pr', 'pr_status'];
+
 interface StateUpdateOptions {
   reason?: string;
   reviewer?: string;
@@ -109,8 +121,9 @@ export function createStateCommand(): Command {
     .description('Show state transition workflow and rules')
     .option('--from <state>', 'show transitions from specific state')
     .option('--to <state>', 'show transitions to specific state')
+    .option('--type <type>', 'workflow to show (default|project|epic|issue|task|pr|pr_status)', 'default')
     .option('--verbose', 'show detailed workflow information')
-    .action(async (options: { from?: string; to?: string; verbose?: boolean }) => {
+    .action(async (options: { from?: string; to?: string; type?: string; verbose?: boolean }) => {
       await showStateWorkflow(options);
     });
 
@@ -411,6 +424,22 @@ async function updateState(itemId: string, newState: UnifiedState, options: Stat
       return;
     }
 
+    // Run transition hooks; a failing hook script vetoes the change
+    const hooks = new TransitionHookRunner(config, paths, cliTasksDir);
+    const hookContext: TransitionContext = {
+      itemId,
+      itemType: getItemType(item) as ItemType,
+      from: currentState,
+      to: newState,
+      user: process.env.USER || 'system',
+      reason: options.reason,
+    };
+    const hookResults = hooks.runBefore(item, hookContext);
+    for (const result of hookResults) console.log(formatHookResult(result));
+    if (hookResults.some(result => result.vetoed)) {
+      throw new Error(`Transition to ${newState} vetoed by hook`);
+    }
+
     // Update assignee if provided
     if (options.assignee) {
       transitionResult.item.assignee = options.assignee;
@@ -424,11 +453,25 @@ async function updateState(itemId: string, newState: UnifiedState, options: Stat
       ...(options.assignee && { assignee: options.assignee })
     };
 
-    parser.updateFile(item.file_path, updates);
+    const updatedItem = parser.updateFile(item.file_path, updates);
+
+    // Record the transition in the audit history
+    new HistoryLog(paths.tasksRoot).recordDiff(itemId, 'state_change', item, updatedItem, {
+      source: 'state update',
+      reason: options.reason,
+    });
+
+    // Built-in hook actions run once the new state is saved
+    for (const result of await hooks.runAfter(updatedItem, hookContext)) {
+      console.log(formatHookResult(result));
+    }
 
     // Refresh cache
     relationshipManager.rebuildCache();
 
+    // Keep the index current and roll the change up to parent items
+    await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated(hookContext.itemType, itemId);
+
     console.log(Formatter.success(`State updated for ${itemId}: ${currentState} → ${newState}`));
     
     if (options.verbose) {
@@ -512,6 +555,29 @@ async function validateStates(options: { type?: string; fix?: boolean; verbose?:
         hasErrors = true;
       }
 
+      // Check the item against its configured workflow
+      const workflowType = getItemType(item) as WorkflowType;
+      const effectiveState = StateManager.getEffectiveState(item);
+      const workflow = StateManager.getWorkflowEngine();
+      if (!workflow.getWorkflow(workflowType).states.includes(effectiveState)) {
+        issues.push({
+          itemId,
+          type: 'error',
+          message: `State ${effectiveState} is not part of the ${workflowType} workflow`
+        });
+        hasErrors = true;
+      }
+
+      const missingFields = workflow.getMissingFields(item, effectiveState, workflowType);
+      if (missingFields.length > 0) {
+        issues.push({
+          itemId,
+          type: 'error',
+          message: `Missing fields required in ${effectiveState}: ${missingFields.join(', ')}`
+        });
+        hasErrors = true;
+      }
+
       // Validate state metadata if present
       if (item.state_metadata) {
         const validation = StateManager.validateStateMetadata(item.state_metadata);
@@ -710,82 +776,83 @@ async function showStateAnalytics(options: { type?: string; format?: string; ver
   }
 }
 
-async function showStateWorkflow(options: { from?: string; to?: string; verbose?: boolean }): Promise<void> {
-  const allStates: UnifiedState[] = [
-    'planning', 'active', 'completed', 'archived',
-    'ready_for_engineering', 'ready_for_qa', 'ready_for_deployment', 'won_t_do', 'done'
-  ];
+async function showStateWorkflow(options: { from?: string; to?: string; type?: string; verbose?: boolean }): Promise<void> {
+  try {
+    // Loading the configuration applies the project's workflows
+    new ConfigManager().getConfig();
+  } catch {
+    // Outside a project the built-in workflow is shown
+  }
+
+  const type = (options.type || 'default') as WorkflowType;
+  if (!WORKFLOW_TYPES.includes(type)) {
+    console.error(Formatter.error(`Unknown workflow type: ${type} (expected ${WORKFLOW_TYPES.join(', ')})`));
+    process.exit(1);
+  }
+
+  const workflow = StateManager.getWorkflowEngine().getWorkflow(type);
+  const describeRule = (rule: StateValidationRule, target: UnifiedState): string => {
+    const notes = [
+      ...(rule.required_role ? [`role: ${rule.required_role}`] : []),
+      ...(rule.automation_eligible ? [] : ['manual'])
+    ];
+    return `${getStateDisplay(target)}${notes.length > 0 ? Formatter.dim(` (${notes.join(', ')})`) : ''}`;
+  };
 
-  console.log(Formatter.info('State Transition Workflow:'));
+  console.log(Formatter.info(`State Transition Workflow (${type}):`));
   console.log('');
 
   if (options.from) {
-    const fromState = options.from as UnifiedState;
-    const transitions = StateManager.getAllowedTransitions(fromState);
+    const transitions = workflow.transitions.filter(rule => rule.from_state === options.from);
     
-    console.log(Formatter.info(`Transitions from ${getStateDisplay(fromState)}:`));
+    console.log(Formatter.info(`Transitions from ${getStateDisplay(options.from as UnifiedState)}:`));
     if (transitions.length === 0) {
       console.log('  No transitions available');
     } else {
-      transitions.forEach(state => {
-        console.log(`  → ${getStateDisplay(state)}`);
+      transitions.forEach(rule => {
+        console.log(`  → ${describeRule(rule, rule.to_state)}`);
       });
     }
     return;
   }
 
   if (options.to) {
-    const toState = options.to as UnifiedState;
-    const fromStates = allStates.filter(state => {
-      const transitions = StateManager.getAllowedTransitions(state);
-      return transitions.includes(toState);
-    });
+    const transitions = workflow.transitions.filter(rule => rule.to_state === options.to);
     
-    console.log(Formatter.info(`Transitions to ${getStateDisplay(toState)}:`));
-    if (fromStates.length === 0) {
+    console.log(Formatter.info(`Transitions to ${getStateDisplay(options.to as UnifiedState)}:`));
+    if (transitions.length === 0) {
       console.log('  No transitions lead to this state');
     } else {
-      fromStates.forEach(state => {
-        console.log(`  ${getStateDisplay(state)} →`);
+      transitions.forEach(rule => {
+        console.log(`  ${describeRule(rule, rule.from_state)} →`);
       });
     }
     return;
   }
 
-  // Show complete workflow
-  console.log(Formatter.info('Complete Workflow:'));
-  console.log('');
-  
-  console.log(Formatter.info('Legacy Status Flow:'));
-  console.log('  planning → active → completed → archived');
-  console.log('');
-  
-  console.log(Formatter.info('Resolution State Flow:'));
-  console.log('  planning → ready_for_engineering');
-  console.log('  active → ready_for_engineering');
-  console.log('  ready_for_engineering → ready_for_qa');
-  console.log('  ready_for_qa → ready_for_deployment');
-  console.log('  ready_for_deployment → done');
-  console.log('  done → archived');
-  console.log('');
-  
-  console.log(Formatter.info('Rejection Flow:'));
-  console.log('  any_state → won_t_do → archived');
+  // Show the complete graph, one block per state
+  workflow.states.forEach(state => {
+    const transitions = workflow.transitions.filter(rule => rule.from_state === state);
+    const required = workflow.required_fields[state] || [];
+    const requiredNote = required.length > 0 ? Formatter.dim(` [requires: ${required.join(', ')}]`) : '';
+
+    console.log(`${getStateDisplay(state as UnifiedState)}${requiredNote}`);
+    if (transitions.length === 0) {
+      console.log('  (terminal)');
+    } else {
+      transitions.forEach(rule => {
+        console.log(`  → ${describeRule(rule, rule.to_state)}`);
+      });
+    }
+  });
 
   if (options.verbose) {
+    const roles = new Set(workflow.transitions.flatMap(rule => rule.required_role ? [rule.required_role] : []));
     console.log('');
-    console.log(Formatter.info('All Available Transitions:'));
-    allStates.forEach(state => {
-      const transitions = StateManager.getAllowedTransitions(state);
-      console.log(`  ${getStateDisplay(state)}:`);
-      if (transitions.length === 0) {
-        console.log('    (no transitions)');
-      } else {
-        transitions.forEach(toState => {
-          console.log(`    → ${getStateDisplay(toState)}`);
-        });
-      }
-    });
+    console.log(Formatter.info('Summary:'));
+    console.log(`  States: ${workflow.states.length}`);
+    console.log(`  Transitions: ${workflow.transitions.length}`);
+    console.log(`  Required roles: ${roles.size > 0 ? [...roles].join(', ') : 'none'}`);
   }
 }
 
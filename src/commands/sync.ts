@@ -1,5 +1,5 @@
 /**
- * Main GitHub Sync Command
+ * Main Sync Command
  * Combines all sync subcommands
  */
 
@@ -8,6 +8,7 @@ import { createSyncAutoCommand } from './sync/auto.js';
 import { createSyncBidirectionalCommand } from './sync/bidirectional.js';
 import { createSyncPullCommand } from './sync/pull.js';
 import { createSyncPushCommand } from './sync/push.js';
+import { createSyncResolveCommand } from './sync/resolve.js';
 import { createSyncSetupCommand } from './sync/setup.js';
 import { createSyncStatusCommand } from './sync/status.js';
 
@@ -15,35 +16,46 @@ export function createSyncCommand(): Command {
   const command = new Command('sync');
 
   command
-    .description('GitHub Issues sync management')
+    .description('GitHub and GitLab issues sync management')
     .addCommand(createSyncSetupCommand())
     .addCommand(createSyncPushCommand())
     .addCommand(createSyncPullCommand())
     .addCommand(createSyncStatusCommand())
     .addCommand(createSyncAutoCommand())
-    .addCommand(createSyncBidirectionalCommand());
+    .addCommand(createSyncBidirectionalCommand())
+    .addCommand(createSyncResolveCommand());
 
   // Add help action for when no subcommand is provided
   command.action(() => {
-    console.log('🔄 GitHub Issues Sync Management');
+    console.log('🔄 GitHub/GitLab Issues Sync Management');
     console.log('');
     console.log('Available commands:');
-    console.log('  setup         Configure GitHub sync for the project');
-    console.log('  push          Push local changes to GitHub');
-    console.log('  pull          Pull GitHub changes to local');
+    console.log('  setup         Configure GitHub or GitLab sync for the project');
+    console.log('  push          Push local changes to the sync provider');
+    console.log('  pull          Pull sync provider changes to local');
     console.log('  bidirectional Perform full bidirectional sync');
     console.log('  status        Show sync status and conflicts');
     console.log('  auto          Enable/disable automatic sync');
+    console.log('  resolve       List or resolve field conflicts from merges');
     console.log('');
     console.log('Examples:');
     console.log('  aitrackdown sync setup --repository owner/repo --token ghp_xxx');
+    console.log(
+      '  aitrackdown sync setup --provider gitlab --repository group/project --token glpat-xxx'
+    );
+    console.log(
+      '  aitrackdown sync setup --repository owner/repo --token ghp_xxx --epics milestone --tasks sub_issue --prs pull_request --force'
+    );
     console.log('  aitrackdown sync push --verbose');
     console.log('  aitrackdown sync pull --dry-run');
-    console.log('  aitrackdown sync pull --days 7              # Pull issues updated in last 7 days');
+    console.log(
+      '  aitrackdown sync pull --days 7              # Pull issues updated in last 7 days'
+    );
     console.log('  aitrackdown sync pull --since 2024-01-01   # Pull issues updated since date');
     console.log('  aitrackdown sync bidirectional');
     console.log('  aitrackdown sync status --verbose');
     console.log('  aitrackdown sync auto --enable');
+    console.log('  aitrackdown sync resolve ISS-0004 --take title=local,body=remote');
     console.log('');
     console.log('Use "aitrackdown sync <command> --help" for more information about a command.');
   });
@@ -1,9 +1,10 @@
 /**
- * GitHub Sync Auto Command
+ * Sync Auto Command
  * Enable/disable automatic sync
  */
 
 import { Command } from 'commander';
+import { SYNC_PROVIDER_LABELS } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 
@@ -21,15 +22,17 @@ export function createSyncAutoCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
-        // Check if GitHub sync is configured
+        // Check if sync is configured
         if (!config.github_sync?.enabled) {
           console.log(
-            Formatter.error('GitHub sync is not configured. Run "aitrackdown sync setup" first.')
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
           );
           process.exit(1);
         }
 
-        console.log(Formatter.header('🔄 GitHub Auto-Sync Configuration'));
+        const provider = SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github'];
+
+        console.log(Formatter.header(`🔄 ${provider} Auto-Sync Configuration`));
         console.log(Formatter.info(`Repository: ${config.github_sync.repository}`));
         console.log('');
 
@@ -119,8 +122,8 @@ export function createSyncAutoCommand(): Command {
           console.log(Formatter.success('Auto-sync disabled successfully!'));
           console.log('');
           console.log(Formatter.info('Manual sync commands are still available:'));
-          console.log('  • aitrackdown sync push - Push local changes to GitHub');
-          console.log('  • aitrackdown sync pull - Pull GitHub changes to local');
+          console.log(`  • aitrackdown sync push - Push local changes to ${provider}`);
+          console.log(`  • aitrackdown sync pull - Pull ${provider} changes to local`);
           console.log('  • aitrackdown sync bidirectional - Full bidirectional sync');
           console.log('  • aitrackdown sync status - Check sync status');
         } else {
@@ -1,11 +1,11 @@
 /**
- * GitHub Sync Bidirectional Command
- * Perform full bidirectional sync between local and GitHub
+ * Sync Bidirectional Command
+ * Perform full bidirectional sync between local and the configured provider
  */
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { GitHubSyncEngine } from '../../integrations/github-sync.js';
+import { SYNC_PROVIDER_LABELS } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 
@@ -13,7 +13,7 @@ export function createSyncBidirectionalCommand(): Command {
   const command = new Command('bidirectional');
 
   command
-    .description('Perform full bidirectional sync between local and GitHub')
+    .description('Perform full bidirectional sync between local and the sync provider')
     .option('--dry-run', 'Show what would be synced without making changes')
     .option('--force', 'Force sync even with conflicts')
     .option('--verbose', 'Show detailed progress information')
@@ -23,15 +23,17 @@ export function createSyncBidirectionalCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
-        // Check if GitHub sync is configured
+        // Check if sync is configured
         if (!config.github_sync?.enabled) {
           console.log(
-            Formatter.error('GitHub sync is not configured. Run "aitrackdown sync setup" first.')
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
           );
           process.exit(1);
         }
 
-        console.log(Formatter.header('🔄 Bidirectional GitHub Sync'));
+        const provider = SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github'];
+
+        console.log(Formatter.header(`🔄 Bidirectional ${provider} Sync`));
         console.log(Formatter.info(`Repository: ${config.github_sync.repository}`));
         console.log(
           Formatter.info(
@@ -40,19 +42,20 @@ export function createSyncBidirectionalCommand(): Command {
         );
         console.log('');
 
+        const { GitHubSyncEngine } = await import('../../integrations/github-sync.js');
         const syncEngine = new GitHubSyncEngine(configManager);
 
         // Test connection first
-        const spinner = ora('Testing GitHub connection...').start();
+        const spinner = ora(`Testing ${provider} connection...`).start();
         const testResult = await syncEngine.testConnection();
 
         if (!testResult.success) {
-          spinner.fail('GitHub connection failed');
+          spinner.fail(`${provider} connection failed`);
           console.log(Formatter.error(testResult.message));
           process.exit(1);
         }
 
-        spinner.succeed('GitHub connection verified');
+        spinner.succeed(`${provider} connection verified`);
 
         // Perform bidirectional sync
         const syncSpinner = ora('Performing bidirectional sync...').start();
@@ -74,6 +77,21 @@ export function createSyncBidirectionalCommand(): Command {
           console.log(`  Skipped: ${result.skipped_count} issues`);
           console.log(`  Conflicts: ${result.conflict_count} issues`);
           console.log(`  Errors: ${result.errors.length}`);
+          if (result.milestones_synced !== undefined) {
+            console.log(`  Milestones: ${result.milestones_synced} synced`);
+          }
+          if (result.epics_synced !== undefined) {
+            console.log(`  Epics: ${result.epics_synced} synced`);
+          }
+          if (result.tasks_synced !== undefined) {
+            console.log(`  Tasks: ${result.tasks_synced} synced`);
+          }
+          if (result.prs_synced !== undefined) {
+            console.log(`  PRs: ${result.prs_synced} synced`);
+          }
+          if (result.comments_synced !== undefined) {
+            console.log(`  Comments: ${result.comments_synced} synced`);
+          }
 
           // Show success/warning based on results
           if (result.success && result.conflict_count === 0) {
@@ -106,7 +124,7 @@ export function createSyncBidirectionalCommand(): Command {
               console.log(`    Reason: ${conflict.reason}`);
               if (conflict.github_issue) {
                 console.log(
-                  `    GitHub: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
+                  `    ${provider}: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
                 );
               }
             });
@@ -139,7 +157,7 @@ export function createSyncBidirectionalCommand(): Command {
               }
               if (op.github_issue) {
                 console.log(
-                  `     GitHub: #${op.github_issue.number} - ${op.github_issue.html_url}`
+                  `     ${provider}: #${op.github_issue.number} - ${op.github_issue.html_url}`
                 );
               }
               if (op.local_issue.file_path) {
@@ -160,7 +178,7 @@ export function createSyncBidirectionalCommand(): Command {
             }
 
             if (result.pushed_count > 0) {
-              console.log('  • Verify pushed issues appear correctly in GitHub');
+              console.log(`  • Verify pushed issues appear correctly in ${provider}`);
               console.log('  • Check that labels, milestones, and assignees synced properly');
             }
 
@@ -1,11 +1,11 @@
 /**
- * GitHub Sync Pull Command
- * Pull changes from GitHub to local
+ * Sync Pull Command
+ * Pull changes from the configured provider to local
  */
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { GitHubSyncEngine } from '../../integrations/github-sync.js';
+import { SYNC_PROVIDER_LABELS } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 
@@ -13,7 +13,7 @@ export function createSyncPullCommand(): Command {
   const command = new Command('pull');
 
   command
-    .description('Pull changes from GitHub to local')
+    .description('Pull changes from the sync provider to local')
     .option('--dry-run', 'Show what would be pulled without making changes')
     .option('--force', 'Force pull even with conflicts')
     .option('--verbose', 'Show detailed progress information')
@@ -24,31 +24,34 @@ export function createSyncPullCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
-        // Check if GitHub sync is configured
+        // Check if sync is configured
         if (!config.github_sync?.enabled) {
           console.log(
-            Formatter.error('GitHub sync is not configured. Run "aitrackdown sync setup" first.')
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
           );
           process.exit(1);
         }
 
-        console.log(Formatter.header('📥 Pulling Changes from GitHub'));
+        const provider = SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github'];
+
+        console.log(Formatter.header(`📥 Pulling Changes from ${provider}`));
         console.log(Formatter.info(`Repository: ${config.github_sync.repository}`));
         console.log('');
 
+        const { GitHubSyncEngine } = await import('../../integrations/github-sync.js');
         const syncEngine = new GitHubSyncEngine(configManager);
 
         // Test connection first
-        const spinner = ora('Testing GitHub connection...').start();
+        const spinner = ora(`Testing ${provider} connection...`).start();
         const testResult = await syncEngine.testConnection();
 
         if (!testResult.success) {
-          spinner.fail('GitHub connection failed');
+          spinner.fail(`${provider} connection failed`);
           console.log(Formatter.error(testResult.message));
           process.exit(1);
         }
 
-        spinner.succeed('GitHub connection verified');
+        spinner.succeed(`${provider} connection verified`);
 
         // Calculate date filter if provided
         let sinceDate: string | undefined;
@@ -66,7 +69,7 @@ export function createSyncPullCommand(): Command {
         }
 
         // Perform pull operation
-        const pullSpinner = ora('Pulling changes from GitHub...').start();
+        const pullSpinner = ora(`Pulling changes from ${provider}...`).start();
 
         try {
           const result = await syncEngine.pullFromGitHub({ since: sinceDate });
@@ -84,6 +87,21 @@ export function createSyncPullCommand(): Command {
           console.log(`  Skipped: ${result.skipped_count} issues`);
           console.log(`  Conflicts: ${result.conflict_count} issues`);
           console.log(`  Errors: ${result.errors.length}`);
+          if (result.milestones_synced !== undefined) {
+            console.log(`  Milestones: ${result.milestones_synced} synced`);
+          }
+          if (result.epics_synced !== undefined) {
+            console.log(`  Epics: ${result.epics_synced} synced`);
+          }
+          if (result.tasks_synced !== undefined) {
+            console.log(`  Tasks: ${result.tasks_synced} synced`);
+          }
+          if (result.prs_synced !== undefined) {
+            console.log(`  PRs: ${result.prs_synced} synced`);
+          }
+          if (result.comments_synced !== undefined) {
+            console.log(`  Comments: ${result.comments_synced} synced`);
+          }
 
           if (result.errors.length > 0) {
             console.log('');
@@ -101,7 +119,7 @@ export function createSyncPullCommand(): Command {
               console.log(`    Reason: ${conflict.reason}`);
               if (conflict.github_issue) {
                 console.log(
-                  `    GitHub: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
+                  `    ${provider}: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
                 );
               }
             });
@@ -128,7 +146,7 @@ export function createSyncPullCommand(): Command {
                 console.log(`     Reason: ${op.reason}`);
               }
               if (op.github_issue) {
-                console.log(`     GitHub: ${op.github_issue.html_url}`);
+                console.log(`     ${provider}: ${op.github_issue.html_url}`);
               }
               if (op.local_issue.issue_id) {
                 console.log(`     Local: ${op.local_issue.issue_id}`);
@@ -1,11 +1,11 @@
 /**
- * GitHub Sync Push Command
- * Push local changes to GitHub
+ * Sync Push Command
+ * Push local changes to the configured provider
  */
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { GitHubSyncEngine } from '../../integrations/github-sync.js';
+import { SYNC_PROVIDER_LABELS } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 
@@ -13,7 +13,7 @@ export function createSyncPushCommand(): Command {
   const command = new Command('push');
 
   command
-    .description('Push local changes to GitHub')
+    .description('Push local changes to the sync provider')
     .option('--dry-run', 'Show what would be pushed without making changes')
     .option('--force', 'Force push even with conflicts')
     .option('--verbose', 'Show detailed progress information')
@@ -22,34 +22,37 @@ export function createSyncPushCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
-        // Check if GitHub sync is configured
+        // Check if sync is configured
         if (!config.github_sync?.enabled) {
           console.log(
-            Formatter.error('GitHub sync is not configured. Run "aitrackdown sync setup" first.')
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
           );
           process.exit(1);
         }
 
-        console.log(Formatter.header('📤 Pushing Local Changes to GitHub'));
+        const provider = SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github'];
+
+        console.log(Formatter.header(`📤 Pushing Local Changes to ${provider}`));
         console.log(Formatter.info(`Repository: ${config.github_sync.repository}`));
         console.log('');
 
+        const { GitHubSyncEngine } = await import('../../integrations/github-sync.js');
         const syncEngine = new GitHubSyncEngine(configManager);
 
         // Test connection first
-        const spinner = ora('Testing GitHub connection...').start();
+        const spinner = ora(`Testing ${provider} connection...`).start();
         const testResult = await syncEngine.testConnection();
 
         if (!testResult.success) {
-          spinner.fail('GitHub connection failed');
+          spinner.fail(`${provider} connection failed`);
           console.log(Formatter.error(testResult.message));
           process.exit(1);
         }
 
-        spinner.succeed('GitHub connection verified');
+        spinner.succeed(`${provider} connection verified`);
 
         // Perform push operation
-        const pushSpinner = ora('Pushing local changes to GitHub...').start();
+        const pushSpinner = ora(`Pushing local changes to ${provider}...`).start();
 
         try {
           const result = await syncEngine.pushToGitHub();
@@ -67,6 +70,21 @@ export function createSyncPushCommand(): Command {
           console.log(`  Skipped: ${result.skipped_count} issues`);
           console.log(`  Conflicts: ${result.conflict_count} issues`);
           console.log(`  Errors: ${result.errors.length}`);
+          if (result.milestones_synced !== undefined) {
+            console.log(`  Milestones: ${result.milestones_synced} synced`);
+          }
+          if (result.epics_synced !== undefined) {
+            console.log(`  Epics: ${result.epics_synced} synced`);
+          }
+          if (result.tasks_synced !== undefined) {
+            console.log(`  Tasks: ${result.tasks_synced} synced`);
+          }
+          if (result.prs_synced !== undefined) {
+            console.log(`  PRs: ${result.prs_synced} synced`);
+          }
+          if (result.comments_synced !== undefined) {
+            console.log(`  Comments: ${result.comments_synced} synced`);
+          }
 
           if (result.errors.length > 0) {
             console.log('');
@@ -105,7 +123,7 @@ export function createSyncPushCommand(): Command {
               }
               if (op.github_issue) {
                 console.log(
-                  `     GitHub: #${op.github_issue.number} - ${op.github_issue.html_url}`
+                  `     ${provider}: #${op.github_issue.number} - ${op.github_issue.html_url}`
                 );
               }
             });
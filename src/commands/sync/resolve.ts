@@ -0,0 +1,138 @@
+/**
+ * Sync Resolve Command
+ * List and resolve field conflicts recorded by three-way sync merges
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { SYNC_FIELDS, type SyncConflict, type SyncField } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+
+type ConflictChoice = 'local' | 'remote' | Partial<Record<SyncField, 'local' | 'remote'>>;
+
+export function createSyncResolveCommand(): Command {
+  const command = new Command('resolve');
+
+  command
+    .description('List sync conflicts, or resolve those on an issue')
+    .argument('[issue-id]', 'issue whose conflicts to resolve (omit to list all)')
+    .option(
+      '--take <choice>',
+      'side to keep: local, remote, or per field such as title=local,body=remote'
+    )
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown sync resolve
+  $ aitrackdown sync resolve ISS-0004 --take remote
+  $ aitrackdown sync resolve ISS-0004 --take title=local,state=remote
+
+Fields: ${SYNC_FIELDS.join(', ')}
+A remote value is written locally at once; a local value is pushed by the next sync.
+`
+    )
+    .action(async (issueId: string | undefined, options: { take?: string }) => {
+      try {
+        const configManager = new ConfigManager();
+        const config = configManager.getConfig();
+
+        if (!config.github_sync?.enabled) {
+          console.log(
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
+          );
+          process.exit(1);
+        }
+
+        const { GitHubSyncEngine } = await import('../../integrations/github-sync.js');
+        const syncEngine = new GitHubSyncEngine(configManager);
+
+        if (!issueId) {
+          const conflicts = syncEngine.getConflicts();
+          if (conflicts.length === 0) {
+            console.log(Formatter.success('No sync conflicts'));
+            return;
+          }
+          for (const conflict of conflicts) {
+            printConflict(conflict);
+          }
+          console.log(
+            Formatter.info('Resolve with "aitrackdown sync resolve <issue-id> --take local|remote"')
+          );
+          return;
+        }
+
+        if (!options.take) {
+          const conflict = syncEngine.getConflicts().find((entry) => entry.issue_id === issueId);
+          if (!conflict) {
+            throw new Error(`No sync conflicts recorded for ${issueId}`);
+          }
+          printConflict(conflict);
+          console.log(Formatter.info('Pick a side with --take local|remote|field=local,...'));
+          return;
+        }
+
+        const remaining = await syncEngine.resolveConflict(issueId, parseChoice(options.take));
+        if (remaining) {
+          console.log(
+            Formatter.warning(
+              `Resolved part of ${issueId}; still conflicting: ${Object.keys(remaining.fields).join(', ')}`
+            )
+          );
+        } else {
+          console.log(Formatter.success(`Resolved sync conflicts on ${issueId}`));
+          console.log(Formatter.info('Run "aitrackdown sync push" to send kept local values'));
+        }
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to resolve conflicts: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function parseChoice(take: string): ConflictChoice {
+  if (take === 'local' || take === 'remote') {
+    return take;
+  }
+
+  const choices: Partial<Record<SyncField, 'local' | 'remote'>> = {};
+  for (const entry of take.split(',')) {
+    const [field, side] = entry.split('=').map((part) => part.trim());
+    if (!SYNC_FIELDS.includes(field as SyncField)) {
+      throw new Error(`Unknown field: ${field}. Expected one of: ${SYNC_FIELDS.join(', ')}`);
+    }
+    if (side !== 'local' && side !== 'remote') {
+      throw new Error(`Expected ${field}=local or ${field}=remote, got "${entry}"`);
+    }
+    choices[field as SyncField] = side;
+  }
+  return choices;
+}
+
+function printConflict(conflict: SyncConflict): void {
+  console.log(
+    `${chalk.yellow(conflict.issue_id)} #${conflict.github_number} ${Formatter.dim(`(detected ${conflict.detected_at})`)}`
+  );
+  for (const [field, values] of Object.entries(conflict.fields)) {
+    console.log(`  ${field}:`);
+    if (values.base !== undefined) {
+      console.log(`    base:   ${formatValue(values.base)}`);
+    }
+    console.log(`    local:  ${formatValue(values.local)}`);
+    console.log(`    remote: ${formatValue(values.remote)}`);
+  }
+  console.log('');
+}
+
+function formatValue(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(', ') : String(value ?? '');
+  const line = text.split('\n')[0];
+  return line.length > 70 || text.includes('\n') ? `${line.slice(0, 70)}…` : line || '(empty)';
+}
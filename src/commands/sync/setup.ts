@@ -1,28 +1,37 @@
 /**
- * GitHub Sync Setup Command
- * Configure GitHub sync for the project
+ * Sync Setup Command
+ * Configure GitHub or GitLab sync for the project
  */
 
 import { Command } from 'commander';
 import inquirer from 'inquirer';
-import type { GitHubSyncConfig } from '../../types/ai-trackdown.js';
+import {
+  CONFLICT_RESOLUTIONS,
+  EPIC_SYNC_MAPPINGS,
+  type GitHubSyncConfig,
+  PR_SYNC_MAPPINGS,
+  SYNC_PROVIDER_LABELS,
+  type SyncProviderName,
+  TASK_SYNC_MAPPINGS,
+} from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
-import { GitHubClient } from '../../utils/github-client.js';
 
 export function createSyncSetupCommand(): Command {
   const command = new Command('setup');
 
   command
-    .description('Configure GitHub sync for the project')
-    .option('--repository <repo>', 'GitHub repository (owner/repo format)')
-    .option('--token <token>', 'GitHub personal access token')
+    .description('Configure GitHub or GitLab sync for the project')
+    .option('--provider <provider>', 'Sync provider (github|gitlab)')
+    .option('--repository <repo>', 'Repository (owner/repo, or group/project for GitLab)')
+    .option('--token <token>', 'Personal access token for the provider')
+    .option('--api-url <url>', 'API base URL for self-hosted instances')
     .option('--auto-sync', 'Enable automatic sync')
     .option('--no-auto-sync', 'Disable automatic sync')
     .option(
       '--conflict-resolution <strategy>',
-      'Conflict resolution strategy (most_recent|local_wins|remote_wins)',
-      'most_recent'
+      `Conflict resolution strategy (${CONFLICT_RESOLUTIONS.join('|')})`,
+      'merge'
     )
     .option('--sync-labels', 'Enable label synchronization')
     .option('--no-sync-labels', 'Disable label synchronization')
@@ -30,6 +39,11 @@ export function createSyncSetupCommand(): Command {
     .option('--no-sync-milestones', 'Disable milestone synchronization')
     .option('--sync-assignees', 'Enable assignee synchronization')
     .option('--no-sync-assignees', 'Disable assignee synchronization')
+    .option('--sync-comments', 'Enable comment synchronization on synced issues')
+    .option('--no-sync-comments', 'Disable comment synchronization')
+    .option('--epics <mapping>', `Sync epics as (${EPIC_SYNC_MAPPINGS.join('|')})`)
+    .option('--tasks <mapping>', `Sync tasks as (${TASK_SYNC_MAPPINGS.join('|')})`)
+    .option('--prs <mapping>', `Sync PR items as (${PR_SYNC_MAPPINGS.join('|')})`)
     .option('--batch-size <size>', 'Batch size for sync operations', '50')
     .option('--rate-limit-delay <ms>', 'Delay between API calls in milliseconds', '100')
     .option('--dry-run', 'Show what would be configured without making changes')
@@ -39,10 +53,33 @@ export function createSyncSetupCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
+        if (options.provider && !(options.provider in SYNC_PROVIDER_LABELS)) {
+          throw new Error(`Unknown sync provider: ${options.provider}. Expected github or gitlab`);
+        }
+        if (!CONFLICT_RESOLUTIONS.includes(options.conflictResolution)) {
+          throw new Error(
+            `Unknown conflict resolution: ${options.conflictResolution}. Expected one of: ${CONFLICT_RESOLUTIONS.join(', ')}`
+          );
+        }
+        for (const [option, mappings] of [
+          ['epics', EPIC_SYNC_MAPPINGS],
+          ['tasks', TASK_SYNC_MAPPINGS],
+          ['prs', PR_SYNC_MAPPINGS],
+        ] as const) {
+          if (options[option] && !(mappings as readonly string[]).includes(options[option])) {
+            throw new Error(
+              `Unknown ${option} mapping: ${options[option]}. Expected one of: ${mappings.join(', ')}`
+            );
+          }
+        }
+
         // Check if already configured
         if (config.github_sync?.enabled && !options.force) {
+          console.log(Formatter.warning('Sync is already configured. Use --force to reconfigure.'));
           console.log(
-            Formatter.warning('GitHub sync is already configured. Use --force to reconfigure.')
+            Formatter.info(
+              `Current provider: ${SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github']}`
+            )
           );
           console.log(Formatter.info(`Current repository: ${config.github_sync.repository}`));
           console.log(
@@ -54,9 +91,11 @@ export function createSyncSetupCommand(): Command {
           return;
         }
 
-        console.log(Formatter.header('🔧 GitHub Sync Setup'));
+        console.log(Formatter.header('🔧 Sync Setup'));
         console.log(
-          Formatter.info('Configure bidirectional sync between local issues and GitHub Issues')
+          Formatter.info(
+            'Configure bidirectional sync between local issues and GitHub or GitLab issues'
+          )
         );
         console.log('');
 
@@ -66,23 +105,49 @@ export function createSyncSetupCommand(): Command {
           // Non-interactive setup
           syncConfig = {
             enabled: true,
+            provider: (options.provider as SyncProviderName) || 'github',
             repository: options.repository,
             token: options.token,
+            api_url: options.apiUrl,
             auto_sync: options.autoSync ?? false,
-            conflict_resolution: options.conflictResolution || 'most_recent',
+            conflict_resolution: options.conflictResolution || 'merge',
             sync_labels: options.syncLabels ?? true,
             sync_milestones: options.syncMilestones ?? true,
             sync_assignees: options.syncAssignees ?? true,
+            sync_comments: options.syncComments ?? true,
+            sync_epics: options.epics || 'none',
+            sync_tasks: options.tasks || 'none',
+            sync_prs: options.prs || 'none',
             batch_size: parseInt(options.batchSize) || 50,
             rate_limit_delay: parseInt(options.rateLimitDelay) || 100,
           };
         } else {
           // Interactive setup
           const answers = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'provider',
+              message: 'Sync provider:',
+              choices: [
+                { name: 'GitHub', value: 'github' },
+                { name: 'GitLab', value: 'gitlab' },
+              ],
+              default: options.provider || 'github',
+              when: !options.provider,
+            },
+            {
+              type: 'input',
+              name: 'api_url',
+              message: 'GitLab URL (leave empty for gitlab.com):',
+              default: options.apiUrl,
+              when: (current: { provider?: string }) =>
+                (current.provider || options.provider) === 'gitlab',
+              filter: (input: string) => input.trim() || undefined,
+            },
             {
               type: 'input',
               name: 'repository',
-              message: 'GitHub repository (owner/repo format):',
+              message: 'Repository (owner/repo, or group/project for GitLab):',
               validate: (input: string) => {
                 if (!input.includes('/')) {
                   return 'Repository must be in owner/repo format';
@@ -94,7 +159,7 @@ export function createSyncSetupCommand(): Command {
             {
               type: 'password',
               name: 'token',
-              message: 'GitHub personal access token:',
+              message: 'Personal access token:',
               validate: (input: string) => {
                 if (input.length < 10) {
                   return 'Token appears to be too short';
@@ -114,30 +179,72 @@ export function createSyncSetupCommand(): Command {
               name: 'conflict_resolution',
               message: 'Conflict resolution strategy:',
               choices: [
-                { name: 'Most recent wins (recommended)', value: 'most_recent' },
+                {
+                  name: 'Merge, recording fields changed on both sides (recommended)',
+                  value: 'merge',
+                },
+                { name: 'Most recent wins', value: 'most_recent' },
                 { name: 'Local always wins', value: 'local_wins' },
                 { name: 'Remote always wins', value: 'remote_wins' },
               ],
-              default: options.conflictResolution || 'most_recent',
+              default: options.conflictResolution || 'merge',
             },
             {
               type: 'confirm',
               name: 'sync_labels',
-              message: 'Sync labels between local tags and GitHub labels?',
+              message: 'Sync labels between local tags and remote labels?',
               default: options.syncLabels ?? true,
             },
             {
               type: 'confirm',
               name: 'sync_milestones',
-              message: 'Sync milestones between local and GitHub?',
+              message: 'Sync milestones between local and remote?',
               default: options.syncMilestones ?? true,
             },
             {
               type: 'confirm',
               name: 'sync_assignees',
-              message: 'Sync assignees between local and GitHub?',
+              message: 'Sync assignees between local and remote?',
               default: options.syncAssignees ?? true,
             },
+            {
+              type: 'confirm',
+              name: 'sync_comments',
+              message: 'Sync comments and reactions on synced issues?',
+              default: options.syncComments ?? true,
+            },
+            {
+              type: 'list',
+              name: 'sync_epics',
+              message: 'Sync epics as:',
+              choices: [
+                { name: 'Keep epics local', value: 'none' },
+                { name: 'Milestones (issues join their epic milestone)', value: 'milestone' },
+                { name: 'Tracking issues listing their issues', value: 'tracking_issue' },
+              ],
+              default: options.epics || 'none',
+            },
+            {
+              type: 'list',
+              name: 'sync_tasks',
+              message: 'Sync tasks as:',
+              choices: [
+                { name: 'Keep tasks local', value: 'none' },
+                { name: 'Sub-issues of their issue', value: 'sub_issue' },
+                { name: 'Checklist entries in their issue', value: 'checklist' },
+              ],
+              default: options.tasks || 'none',
+            },
+            {
+              type: 'list',
+              name: 'sync_prs',
+              message: 'Sync PR items as:',
+              choices: [
+                { name: 'Keep PR items local', value: 'none' },
+                { name: 'Pull requests matched by branch', value: 'pull_request' },
+              ],
+              default: options.prs || 'none',
+            },
             {
               type: 'number',
               name: 'batch_size',
@@ -157,6 +264,7 @@ export function createSyncSetupCommand(): Command {
           syncConfig = {
             enabled: true,
             ...answers,
+            provider: answers.provider || options.provider,
           };
         }
 
@@ -166,18 +274,20 @@ export function createSyncSetupCommand(): Command {
           return;
         }
 
+        const provider = SYNC_PROVIDER_LABELS[syncConfig.provider || 'github'];
+
         // Test connection before saving
-        console.log(Formatter.info('Testing GitHub connection...'));
-        const testClient = new GitHubClient(syncConfig);
-        const testResult = await testClient.testConnection();
+        console.log(Formatter.info(`Testing ${provider} connection...`));
+        const { createSyncProvider } = await import('../../integrations/sync-provider.js');
+        const testResult = await createSyncProvider(syncConfig).testConnection();
 
         if (!testResult.success) {
-          console.log(Formatter.error('GitHub connection test failed:'));
+          console.log(Formatter.error(`${provider} connection test failed:`));
           console.log(Formatter.error(testResult.message));
           return;
         }
 
-        console.log(Formatter.success('GitHub connection test passed!'));
+        console.log(Formatter.success(`${provider} connection test passed!`));
 
         // Save configuration
         const updatedConfig = {
@@ -187,22 +297,30 @@ export function createSyncSetupCommand(): Command {
 
         configManager.saveConfig(updatedConfig);
 
-        console.log(Formatter.success('GitHub sync configuration saved successfully!'));
+        console.log(Formatter.success('Sync configuration saved successfully!'));
         console.log('');
         console.log(Formatter.info('Configuration summary:'));
+        console.log(`  Provider: ${provider}`);
         console.log(`  Repository: ${syncConfig.repository}`);
+        if (syncConfig.api_url) {
+          console.log(`  API URL: ${syncConfig.api_url}`);
+        }
         console.log(`  Auto sync: ${syncConfig.auto_sync ? 'enabled' : 'disabled'}`);
         console.log(`  Conflict resolution: ${syncConfig.conflict_resolution}`);
         console.log(`  Sync labels: ${syncConfig.sync_labels ? 'enabled' : 'disabled'}`);
         console.log(`  Sync milestones: ${syncConfig.sync_milestones ? 'enabled' : 'disabled'}`);
         console.log(`  Sync assignees: ${syncConfig.sync_assignees ? 'enabled' : 'disabled'}`);
+        console.log(`  Sync comments: ${syncConfig.sync_comments ? 'enabled' : 'disabled'}`);
+        console.log(`  Epics: ${syncConfig.sync_epics || 'none'}`);
+        console.log(`  Tasks: ${syncConfig.sync_tasks || 'none'}`);
+        console.log(`  PRs: ${syncConfig.sync_prs || 'none'}`);
         console.log(`  Batch size: ${syncConfig.batch_size}`);
         console.log(`  Rate limit delay: ${syncConfig.rate_limit_delay}ms`);
         console.log('');
         console.log(Formatter.info('Next steps:'));
         console.log('  • Run "aitrackdown sync status" to check sync status');
-        console.log('  • Run "aitrackdown sync pull" to pull existing GitHub issues');
-        console.log('  • Run "aitrackdown sync push" to push local issues to GitHub');
+        console.log(`  • Run "aitrackdown sync pull" to pull existing ${provider} issues`);
+        console.log(`  • Run "aitrackdown sync push" to push local issues to ${provider}`);
         console.log('  • Run "aitrackdown sync auto" to enable automatic sync');
       } catch (error) {
         console.error(Formatter.error('Setup failed:'));
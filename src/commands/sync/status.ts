@@ -1,11 +1,11 @@
 /**
- * GitHub Sync Status Command
+ * Sync Status Command
  * Show sync status and conflicts
  */
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { GitHubSyncEngine } from '../../integrations/github-sync.js';
+import { SYNC_PROVIDER_LABELS } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 
@@ -21,31 +21,34 @@ export function createSyncStatusCommand(): Command {
         const configManager = new ConfigManager();
         const config = configManager.getConfig();
 
-        // Check if GitHub sync is configured
+        // Check if sync is configured
         if (!config.github_sync?.enabled) {
           console.log(
-            Formatter.error('GitHub sync is not configured. Run "aitrackdown sync setup" first.')
+            Formatter.error('Sync is not configured. Run "aitrackdown sync setup" first.')
           );
           process.exit(1);
         }
 
-        console.log(Formatter.header('🔄 GitHub Sync Status'));
+        const provider = SYNC_PROVIDER_LABELS[config.github_sync.provider || 'github'];
+
+        console.log(Formatter.header(`🔄 ${provider} Sync Status`));
         console.log(Formatter.info(`Repository: ${config.github_sync.repository}`));
         console.log('');
 
+        const { GitHubSyncEngine } = await import('../../integrations/github-sync.js');
         const syncEngine = new GitHubSyncEngine(configManager);
 
         // Test connection first
-        const spinner = ora('Checking GitHub connection...').start();
+        const spinner = ora(`Checking ${provider} connection...`).start();
         const testResult = await syncEngine.testConnection();
 
         if (!testResult.success) {
-          spinner.fail('GitHub connection failed');
+          spinner.fail(`${provider} connection failed`);
           console.log(Formatter.error(testResult.message));
           process.exit(1);
         }
 
-        spinner.succeed('GitHub connection verified');
+        spinner.succeed(`${provider} connection verified`);
 
         // Get sync status
         const statusSpinner = ora('Fetching sync status...').start();
@@ -58,6 +61,7 @@ export function createSyncStatusCommand(): Command {
           if (!options.conflictsOnly) {
             console.log('');
             console.log(Formatter.info('Sync Configuration:'));
+            console.log(`  Provider: ${provider}`);
             console.log(`  Repository: ${status.repository}`);
             console.log(`  Auto sync: ${status.auto_sync ? 'enabled' : 'disabled'}`);
             console.log(`  Conflict resolution: ${config.github_sync.conflict_resolution}`);
@@ -112,10 +116,10 @@ export function createSyncStatusCommand(): Command {
                     console.log(`     Reason: ${conflict.reason}`);
                     if (conflict.github_issue) {
                       console.log(
-                        `     GitHub: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
+                        `     ${provider}: #${conflict.github_issue.number} - ${conflict.github_issue.html_url}`
                       );
                       console.log(`     Local updated: ${conflict.local_issue.updated_date}`);
-                      console.log(`     GitHub updated: ${conflict.github_issue.updated_at}`);
+                      console.log(`     ${provider} updated: ${conflict.github_issue.updated_at}`);
                     }
                     console.log('');
                   });
@@ -133,6 +137,9 @@ export function createSyncStatusCommand(): Command {
             console.log(Formatter.info('Conflict Resolution Options:'));
             console.log('  • Use "aitrackdown sync push --force" to push local changes');
             console.log('  • Use "aitrackdown sync pull --force" to pull remote changes');
+            console.log(
+              '  • Use "aitrackdown sync resolve <issue-id> --take local|remote" to pick a side'
+            );
             console.log('  • Manually resolve conflicts and sync again');
           }
 
@@ -141,26 +148,28 @@ export function createSyncStatusCommand(): Command {
             const rateLimitSpinner = ora('Checking rate limit...').start();
 
             try {
-              const client = new (await import('../../utils/github-client.js')).GitHubClient(
-                config.github_sync
-              );
-              const rateLimit = await client.getRateLimit();
-              rateLimitSpinner.succeed('Rate limit information retrieved');
-
-              console.log('');
-              console.log(Formatter.info('GitHub API Rate Limit:'));
-              console.log(`  Limit: ${rateLimit.limit} requests/hour`);
-              console.log(`  Remaining: ${rateLimit.remaining} requests`);
-              console.log(`  Used: ${rateLimit.used} requests`);
-              console.log(`  Reset: ${rateLimit.reset.toLocaleString()}`);
-
-              // Rate limit health indicator
-              const rateLimitPercentage = (rateLimit.remaining / rateLimit.limit) * 100;
-              const rateLimitIcon =
-                rateLimitPercentage > 50 ? '✅' : rateLimitPercentage > 20 ? '⚠️' : '❌';
-              console.log(
-                `  Health: ${rateLimitIcon} ${rateLimitPercentage.toFixed(1)}% remaining`
-              );
+              const { createSyncProvider } = await import('../../integrations/sync-provider.js');
+              const rateLimit = await createSyncProvider(config.github_sync).getRateLimit();
+              if (!rateLimit) {
+                rateLimitSpinner.info(`${provider} does not report a rate limit`);
+              } else {
+                rateLimitSpinner.succeed('Rate limit information retrieved');
+
+                console.log('');
+                console.log(Formatter.info(`${provider} API Rate Limit:`));
+                console.log(`  Limit: ${rateLimit.limit} requests`);
+                console.log(`  Remaining: ${rateLimit.remaining} requests`);
+                console.log(`  Used: ${rateLimit.used} requests`);
+                console.log(`  Reset: ${rateLimit.reset.toLocaleString()}`);
+
+                // Rate limit health indicator
+                const rateLimitPercentage = (rateLimit.remaining / rateLimit.limit) * 100;
+                const rateLimitIcon =
+                  rateLimitPercentage > 50 ? '✅' : rateLimitPercentage > 20 ? '⚠️' : '❌';
+                console.log(
+                  `  Health: ${rateLimitIcon} ${rateLimitPercentage.toFixed(1)}% remaining`
+                );
+              }
             } catch (error) {
               rateLimitSpinner.fail('Failed to check rate limit');
               console.log(
@@ -195,7 +204,7 @@ export function createSyncStatusCommand(): Command {
             }
 
             if (status.sync_health === 'failed') {
-              console.log('  • Check GitHub connection and permissions');
+              console.log(`  • Check ${provider} connection and permissions`);
               console.log('  • Verify token is valid and has correct permissions');
             }
           }
@@ -7,6 +7,7 @@ import { Command } from 'commander';
 import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
+import { createIndexAutoUpdater } from '../../utils/index-auto-updater.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
 
 interface CompleteOptions {
@@ -114,6 +115,9 @@ async function completeTask(taskId: string, options: CompleteOptions): Promise<v
     // Refresh cache
     relationshipManager.rebuildCache();
 
+    // Keep the index current and roll the change up to parent items
+    await createIndexAutoUpdater(cliTasksDir)?.onItemUpdated('task', taskId);
+
     console.log(Formatter.success(`Task completed successfully!`));
     console.log(Formatter.info(`Task ID: ${taskId}`));
     console.log(Formatter.info(`Title: ${updatedTask.title}`));
@@ -8,6 +8,7 @@ import * as path from 'node:path';
 import { Command } from 'commander';
 import type { ItemStatus, Priority, TaskFrontmatter } from '../../types/ai-trackdown.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { parseDueDate, parseSlaHours } from '../../utils/due-dates.js';
 import { Formatter } from '../../utils/formatter.js';
 import { FrontmatterParser } from '../../utils/frontmatter-parser.js';
 import { RelationshipManager } from '../../utils/relationship-manager.js';
@@ -26,6 +27,8 @@ interface CreateOptions {
   tags?: string;
   labels?: string;
   dependencies?: string;
+  dueDate?: string;
+  slaHours?: string;
   dryRun?: boolean;
 }
 
@@ -51,6 +54,8 @@ export function createTaskCreateCommand(): Command {
     .option('--tags <tags>', 'comma-separated tags')
     .option('--labels <labels>', 'comma-separated labels (alias for --tags)')
     .option('--dependencies <ids>', 'comma-separated dependency IDs')
+    .option('--due-date <date>', 'due date (YYYY-MM-DD)')
+    .option('--sla-hours <hours>', 'SLA in hours from creation')
     .option('--dry-run', 'show what would be created without creating')
     .action(async (titleArg: string | undefined, options: CreateOptions) => {
       try {
@@ -138,6 +143,8 @@ async function createTask(title: string, options: CreateOptions): Promise<void>
     time_spent: undefined,
     blocked_by: [],
     blocks: [],
+    due_date: options.dueDate ? parseDueDate(options.dueDate) : undefined,
+    sla_hours: options.slaHours ? parseSlaHours(options.slaHours) : undefined,
   };
 
   // Generate content from template
@@ -159,6 +166,12 @@ async function createTask(title: string, options: CreateOptions): Promise<void>
     console.log(Formatter.debug(`Status: ${taskFrontmatter.status}`));
     console.log(Formatter.debug(`Priority: ${taskFrontmatter.priority}`));
     console.log(Formatter.debug(`Assignee: ${taskFrontmatter.assignee}`));
+    if (taskFrontmatter.due_date) {
+      console.log(Formatter.debug(`Due Date: ${taskFrontmatter.due_date}`));
+    }
+    if (taskFrontmatter.sla_hours) {
+      console.log(Formatter.debug(`SLA: ${taskFrontmatter.sla_hours}h`));
+    }
     if (options.timeEstimate) {
       console.log(Formatter.debug(`Time Estimate: ${options.timeEstimate}`));
     }
@@ -195,6 +208,12 @@ async function createTask(title: string, options: CreateOptions): Promise<void>
   console.log(Formatter.info(`Status: ${taskFrontmatter.status}`));
   console.log(Formatter.info(`Priority: ${taskFrontmatter.priority}`));
   console.log(Formatter.info(`Assignee: ${taskFrontmatter.assignee}`));
+  if (taskFrontmatter.due_date) {
+    console.log(Formatter.info(`Due Date: ${taskFrontmatter.due_date}`));
+  }
+  if (taskFrontmatter.sla_hours) {
+    console.log(Formatter.info(`SLA: ${taskFrontmatter.sla_hours}h`));
+  }
 
   if (options.timeEstimate) {
     console.log(Formatter.info(`Time Estimate: ${options.timeEstimate}`));
@@ -1,10 +1,23 @@
 /**
- * Task Show Command - Placeholder
+ * Task Show Command
  * Display detailed information about a specific task
  */
 
 import { Command } from 'commander';
+import {
+  type EpicData,
+  type IssueData,
+  StateManager,
+  type TaskData,
+} from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+
+interface ShowOptions {
+  format?: 'detailed' | 'json' | 'yaml';
+  showContent?: boolean;
+}
 
 export function createTaskShowCommand(): Command {
   const cmd = new Command('show');
@@ -12,14 +25,164 @@ export function createTaskShowCommand(): Command {
   cmd
     .description('Show detailed information about a task')
     .argument('<task-id>', 'task ID to show')
-    .action(async (taskId: string) => {
-      console.log(Formatter.info(`Task show command not yet implemented for ${taskId}`));
-      console.log(
-        Formatter.info(
-          'This command will display detailed task information including content, time tracking, and related items.'
-        )
-      );
+    .option('-f, --format <type>', 'output format (detailed|json|yaml)', 'detailed')
+    .option('--show-content', 'show task content/description')
+    .action(async (taskId: string, options: ShowOptions) => {
+      try {
+        await showTask(taskId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show task: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
     });
 
   return cmd;
 }
+
+async function showTask(taskId: string, options: ShowOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+
+  const hierarchy = relationshipManager.getTaskHierarchy(taskId);
+  if (!hierarchy) {
+    throw new Error(`Task not found: ${taskId}`);
+  }
+
+  const { task, issue, epic } = hierarchy;
+
+  switch (options.format) {
+    case 'json':
+      console.log(JSON.stringify({ task, issue, ...(epic && { epic }) }, null, 2));
+      break;
+
+    case 'yaml': {
+      const YAML = await import('yaml');
+      console.log(YAML.stringify({ task, issue, ...(epic && { epic }) }));
+      break;
+    }
+
+    default:
+      displayTaskDetailed(task, issue, epic, options);
+  }
+}
+
+function displayTaskDetailed(
+  task: TaskData,
+  issue: IssueData,
+  epic: EpicData | undefined,
+  options: ShowOptions
+): void {
+  // Header
+  console.log(Formatter.success(`\n=== TASK: ${task.title} ===`));
+  console.log(Formatter.info(`ID: ${task.task_id}`));
+  console.log('');
+
+  // Basic Information
+  console.log(Formatter.success('Basic Information:'));
+  console.log(`  Title: ${task.title}`);
+  console.log(`  State: ${StateManager.getEffectiveState(task)}`);
+  console.log(`  Priority: ${task.priority.toUpperCase()}`);
+  console.log(`  Assignee: ${task.assignee || 'Unassigned'}`);
+  console.log(`  Issue: ${issue.issue_id} - ${issue.title}`);
+
+  if (epic) {
+    console.log(`  Epic: ${epic.epic_id} - ${epic.title}`);
+  }
+
+  if (task.parent_task) {
+    console.log(`  Parent Task: ${task.parent_task}`);
+  }
+
+  if (task.tags && task.tags.length > 0) {
+    console.log(`  Tags: ${task.tags.join(', ')}`);
+  }
+
+  console.log('');
+
+  // Dates and Tracking
+  console.log(Formatter.success('Tracking Information:'));
+  console.log(`  Created: ${formatDateTime(task.created_date)}`);
+  console.log(`  Updated: ${formatDateTime(task.updated_date)}`);
+  console.log(`  Estimated Tokens: ${task.estimated_tokens || 0}`);
+  console.log(`  Actual Tokens: ${task.actual_tokens || 0}`);
+
+  if (task.time_estimate) {
+    console.log(`  Time Estimate: ${task.time_estimate}`);
+  }
+
+  if (task.time_spent) {
+    console.log(`  Time Spent: ${task.time_spent}`);
+  }
+
+  if (task.time_logged) {
+    console.log(`  Time Logged: ${task.time_logged}`);
+  }
+
+  if (task.due_date) {
+    console.log(`  Due Date: ${task.due_date}`);
+  }
+
+  console.log('');
+
+  // Description
+  if (task.description) {
+    console.log(Formatter.success('Description:'));
+    console.log(`  ${task.description}`);
+    console.log('');
+  }
+
+  // Content
+  if (options.showContent && task.content) {
+    console.log(Formatter.success('Content:'));
+    console.log(task.content);
+    console.log('');
+  }
+
+  // Dependencies, blockers and subtasks
+  const lists: Array<[string, string[] | undefined]> = [
+    ['Dependencies', task.dependencies],
+    ['Blocked By', task.blocked_by],
+    ['Blocks', task.blocks],
+    ['Subtasks', task.subtasks],
+  ];
+  for (const [label, ids] of lists) {
+    if (!ids || ids.length === 0) continue;
+    console.log(Formatter.success(`${label}:`));
+    for (const id of ids) {
+      console.log(`  • ${id}`);
+    }
+    console.log('');
+  }
+
+  // Commits linked by `commits scan`
+  if (task.commits && task.commits.length > 0) {
+    console.log(Formatter.success(`Commits (${task.commits.length}):`));
+    for (const commit of task.commits) {
+      console.log(
+        `  • ${commit.sha.slice(0, 7)} ${commit.date.slice(0, 10)} ${commit.author}: ${commit.message}`
+      );
+    }
+    console.log('');
+  }
+
+  // File Information
+  console.log(Formatter.success('File Information:'));
+  console.log(`  Path: ${task.file_path}`);
+  console.log('');
+}
+
+function formatDateTime(dateString: string): string {
+  if (!dateString) return 'N/A';
+  const date = new Date(dateString);
+  return date.toLocaleString();
+}
@@ -0,0 +1,25 @@
+/**
+ * Time Command Group for AI-Trackdown
+ * Timers, manual time entries and timesheets
+ */
+
+import { Command } from 'commander';
+import { createTimeLogCommand } from './time/log.js';
+import { createTimeReportCommand } from './time/report.js';
+import { createTimeStartCommand } from './time/start.js';
+import { createTimeStatusCommand } from './time/status.js';
+import { createTimeStopCommand } from './time/stop.js';
+
+export function createTimeCommand(): Command {
+  const cmd = new Command('time');
+
+  cmd
+    .description('Track time against epics, issues, tasks and PRs')
+    .addCommand(createTimeStartCommand())
+    .addCommand(createTimeStopCommand())
+    .addCommand(createTimeLogCommand())
+    .addCommand(createTimeStatusCommand())
+    .addCommand(createTimeReportCommand());
+
+  return cmd;
+}
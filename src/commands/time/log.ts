@@ -0,0 +1,85 @@
+/**
+ * Time Log Command
+ * Record a manual time entry against an item
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatDuration, parseDuration, TimeTracker } from '../../utils/time-tracker.js';
+
+interface LogOptions {
+  note?: string;
+  user?: string;
+  date?: string;
+  dryRun?: boolean;
+}
+
+export function createTimeLogCommand(): Command {
+  const cmd = new Command('log');
+
+  cmd
+    .description('Log time manually against an item')
+    .argument('<item-id>', 'item ID to log time against')
+    .argument('<duration>', 'time spent (e.g., 2h30m, 45m, 1.5h, 1d)')
+    .option('-n, --note <text>', 'note describing the work')
+    .option('-u, --user <name>', 'user the time is logged for (default: $USER)')
+    .option('--date <date>', 'when the work finished (default: now)')
+    .option('--dry-run', 'show what would be logged without logging')
+    .action(async (itemId: string, duration: string, options: LogOptions) => {
+      try {
+        await logTime(itemId, duration, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to log time: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function logTime(itemId: string, duration: string, options: LogOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const tracker = new TimeTracker(paths.configDir);
+
+  const item = relationshipManager.getItem(itemId);
+  if (!item) {
+    throw new Error(`Item not found: ${itemId}`);
+  }
+
+  const minutes = parseDuration(duration);
+  const user = options.user || process.env.USER || 'system';
+
+  if (options.dryRun) {
+    console.log(Formatter.info('Dry run - would log:'));
+    console.log(`  Item: ${itemId} - ${item.title}`);
+    console.log(`  Duration: ${formatDuration(minutes)}`);
+    console.log(`  User: ${user}`);
+    if (options.note) {
+      console.log(`  Note: ${options.note}`);
+    }
+    return;
+  }
+
+  const entry = tracker.logTime(itemId, minutes, user, { note: options.note, date: options.date });
+  const updated = tracker.applyRollUps(itemId, relationshipManager);
+
+  console.log(Formatter.success(`Logged ${formatDuration(entry.duration_minutes)} on ${itemId}`));
+  console.log(Formatter.info(`User: ${entry.user}`));
+  if (entry.note) {
+    console.log(Formatter.info(`Note: ${entry.note}`));
+  }
+  console.log(Formatter.dim(`✓ Time rolled up to ${updated.join(' → ')}`));
+}
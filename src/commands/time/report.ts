@@ -0,0 +1,174 @@
+/**
+ * Time Report Command
+ * Per-assignee, per-week timesheets exportable as CSV or JSON
+ */
+
+import * as fs from 'node:fs';
+import { Command } from 'commander';
+import type { TimesheetRow } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { buildTimesheet, formatDuration, TimeTracker } from '../../utils/time-tracker.js';
+
+interface ReportOptions {
+  format?: 'table' | 'csv' | 'json';
+  user?: string;
+  item?: string;
+  since?: string;
+  until?: string;
+  output?: string;
+}
+
+export function createTimeReportCommand(): Command {
+  const cmd = new Command('report');
+
+  cmd
+    .description('Generate per-assignee, per-week timesheets')
+    .option('-f, --format <type>', 'output format (table|csv|json)', 'table')
+    .option('-u, --user <name>', 'only include time logged by this user')
+    .option('-i, --item <id>', 'only include time on this item and its children')
+    .option('--since <date>', 'only include entries started on or after this date')
+    .option('--until <date>', 'only include entries started on or before this date')
+    .option('-o, --output <file>', 'write the report to a file instead of stdout')
+    .action(async (options: ReportOptions) => {
+      try {
+        await generateReport(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to generate time report: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function generateReport(options: ReportOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const tracker = new TimeTracker(paths.configDir);
+
+  let itemIds: string[] | undefined;
+  if (options.item) {
+    itemIds = tracker.getScopeItemIds(options.item, relationshipManager);
+  }
+
+  const entries = tracker.getEntries({
+    itemIds,
+    user: options.user,
+    since: options.since ? toTimestamp(options.since, 'start') : undefined,
+    until: options.until ? toTimestamp(options.until, 'end') : undefined,
+  });
+  const rows = buildTimesheet(entries, (id) => relationshipManager.getItem(id)?.assignee);
+
+  let output: string;
+  switch (options.format) {
+    case 'json':
+      output = JSON.stringify(
+        {
+          generated_at: new Date().toISOString(),
+          filters: {
+            user: options.user,
+            item: options.item,
+            since: options.since,
+            until: options.until,
+          },
+          total_minutes: rows.reduce((sum, row) => sum + row.minutes, 0),
+          timesheet: rows,
+          entries,
+        },
+        null,
+        2
+      );
+      break;
+    case 'csv':
+      output = formatCSV(rows, relationshipManager);
+      break;
+    default:
+      output = formatTable(rows);
+  }
+
+  if (options.output) {
+    fs.writeFileSync(options.output, `${output}\n`, 'utf8');
+    console.log(Formatter.success(`Time report written to ${options.output}`));
+    return;
+  }
+
+  console.log(output);
+}
+
+function formatTable(rows: TimesheetRow[]): string {
+  if (rows.length === 0) {
+    return Formatter.info('No time entries found');
+  }
+
+  const lines: string[] = [];
+  const byAssignee = new Map<string, TimesheetRow[]>();
+  for (const row of rows) {
+    byAssignee.set(row.assignee, [...(byAssignee.get(row.assignee) || []), row]);
+  }
+
+  for (const [assignee, assigneeRows] of byAssignee) {
+    const assigneeTotal = assigneeRows.reduce((sum, row) => sum + row.minutes, 0);
+    lines.push(Formatter.success(`${assignee} (${formatDuration(assigneeTotal)})`));
+
+    const byWeek = new Map<string, TimesheetRow[]>();
+    for (const row of assigneeRows) {
+      byWeek.set(row.week_start, [...(byWeek.get(row.week_start) || []), row]);
+    }
+
+    for (const [week, weekRows] of byWeek) {
+      const weekTotal = weekRows.reduce((sum, row) => sum + row.minutes, 0);
+      lines.push(`  Week of ${week}: ${formatDuration(weekTotal)}`);
+      for (const row of weekRows) {
+        lines.push(`    ${row.item_id.padEnd(12)} ${formatDuration(row.minutes).padStart(7)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.minutes, 0);
+  lines.push(Formatter.info(`Total: ${formatDuration(total)}`));
+  return lines.join('\n');
+}
+
+function formatCSV(rows: TimesheetRow[], relationshipManager: RelationshipManager): string {
+  const header = 'assignee,week_start,item_id,title,hours,minutes,entries';
+  const lines = rows.map((row) => {
+    const title = relationshipManager.getItem(row.item_id)?.title || '';
+    return [
+      escapeCSV(row.assignee),
+      row.week_start,
+      row.item_id,
+      escapeCSV(title),
+      (row.minutes / 60).toFixed(2),
+      row.minutes,
+      row.entries,
+    ].join(',');
+  });
+  return [header, ...lines].join('\n');
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toTimestamp(date: string, edge: 'start' | 'end'): string {
+  // Bare dates cover the whole local calendar day
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const parsed = new Date(`${date}T00:00:00`);
+    if (edge === 'end') parsed.setHours(23, 59, 59, 999);
+    return parsed.toISOString();
+  }
+  return new Date(date).toISOString();
+}
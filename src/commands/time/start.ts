@@ -0,0 +1,83 @@
+/**
+ * Time Start Command
+ * Start a running timer against an item
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatDuration, TimeTracker } from '../../utils/time-tracker.js';
+
+interface StartOptions {
+  note?: string;
+  user?: string;
+  switch?: boolean;
+}
+
+export function createTimeStartCommand(): Command {
+  const cmd = new Command('start');
+
+  cmd
+    .description('Start a timer for an epic, issue, task or PR')
+    .argument('<item-id>', 'item ID to track time against')
+    .option('-n, --note <text>', 'note describing the work')
+    .option('-u, --user <name>', 'user the time is tracked for (default: $USER)')
+    .option('--switch', 'stop the running timer (recording it) before starting the new one')
+    .action(async (itemId: string, options: StartOptions) => {
+      try {
+        await startTimer(itemId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to start timer: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function startTimer(itemId: string, options: StartOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const tracker = new TimeTracker(paths.configDir);
+
+  const item = relationshipManager.getItem(itemId);
+  if (!item) {
+    throw new Error(`Item not found: ${itemId}`);
+  }
+
+  const running = tracker.getActiveTimer();
+  if (running && options.switch) {
+    const entry = tracker.stopTimer();
+    tracker.applyRollUps(entry.item_id, relationshipManager);
+    console.log(
+      Formatter.info(
+        `Stopped timer for ${entry.item_id}: ${formatDuration(entry.duration_minutes)} recorded`
+      )
+    );
+  } else if (running) {
+    throw new Error(
+      `A timer is already running for ${running.item_id}. Run "aitrackdown time stop" or use --switch`
+    );
+  }
+
+  const user = options.user || process.env.USER || 'system';
+  const timer = tracker.startTimer(itemId, user, options.note);
+
+  console.log(Formatter.success(`Timer started for ${itemId}: ${item.title}`));
+  console.log(Formatter.info(`User: ${timer.user}`));
+  console.log(Formatter.info(`Started: ${new Date(timer.started_at).toLocaleString()}`));
+  if (timer.note) {
+    console.log(Formatter.info(`Note: ${timer.note}`));
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Time Status Command
+ * Show the running timer and logged time for an item
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatDuration, TimeTracker } from '../../utils/time-tracker.js';
+
+interface StatusOptions {
+  entries?: boolean;
+}
+
+export function createTimeStatusCommand(): Command {
+  const cmd = new Command('status');
+
+  cmd
+    .description('Show the running timer, or logged vs estimated time for an item')
+    .argument('[item-id]', 'item ID to summarize (includes all child items)')
+    .option('--entries', 'list the individual time entries')
+    .action(async (itemId: string | undefined, options: StatusOptions) => {
+      try {
+        await showTimeStatus(itemId, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to show time status: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function showTimeStatus(itemId: string | undefined, options: StatusOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const tracker = new TimeTracker(paths.configDir);
+
+  const timer = tracker.getActiveTimer();
+  if (timer) {
+    const elapsed = (Date.now() - new Date(timer.started_at).getTime()) / 60000;
+    console.log(Formatter.success(`⏱  Timer running for ${timer.item_id}`));
+    console.log(`  User: ${timer.user}`);
+    console.log(`  Started: ${new Date(timer.started_at).toLocaleString()}`);
+    console.log(`  Elapsed: ${formatDuration(elapsed)}`);
+    if (timer.note) {
+      console.log(`  Note: ${timer.note}`);
+    }
+  } else {
+    console.log(Formatter.info('No timer is running'));
+  }
+
+  if (!itemId) {
+    return;
+  }
+
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const rollUp = tracker.getRollUp(itemId, relationshipManager);
+
+  console.log('');
+  console.log(Formatter.success(`Time for ${itemId}:`));
+  console.log(`  Logged (incl. children): ${formatDuration(rollUp.logged_minutes)}`);
+  console.log(`  Logged directly: ${formatDuration(rollUp.own_minutes)}`);
+  if (rollUp.estimated_minutes > 0) {
+    const ratio = (rollUp.logged_minutes / rollUp.estimated_minutes) * 100;
+    const display = `${formatDuration(rollUp.estimated_minutes)} (${ratio.toFixed(1)}% used)`;
+    console.log(`  Estimated: ${ratio <= 100 ? display : Formatter.warning(display)}`);
+  }
+  console.log(`  Entries: ${rollUp.entry_count}`);
+
+  if (options.entries) {
+    const entries = tracker.getEntries({
+      itemIds: tracker.getScopeItemIds(itemId, relationshipManager),
+    });
+    console.log('');
+    for (const entry of entries) {
+      const date = new Date(entry.started_at).toLocaleDateString();
+      const note = entry.note ? ` - ${entry.note}` : '';
+      console.log(
+        `  ${date}  ${entry.item_id.padEnd(10)} ${formatDuration(entry.duration_minutes).padStart(7)}  ${entry.user} [${entry.source}]${note}`
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Time Stop Command
+ * Stop the running timer and record the elapsed time
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { formatDuration, TimeTracker } from '../../utils/time-tracker.js';
+
+interface StopOptions {
+  note?: string;
+  discard?: boolean;
+}
+
+export function createTimeStopCommand(): Command {
+  const cmd = new Command('stop');
+
+  cmd
+    .description('Stop the running timer and record a time entry')
+    .option('-n, --note <text>', 'note to add to the recorded entry')
+    .option('--discard', 'discard the running timer without recording time')
+    .action(async (options: StopOptions) => {
+      try {
+        await stopTimer(options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to stop timer: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function stopTimer(options: StopOptions): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  const tracker = new TimeTracker(paths.configDir);
+
+  if (options.discard) {
+    const discarded = tracker.cancelTimer();
+    if (!discarded) {
+      console.log(Formatter.warning('No timer is running'));
+      return;
+    }
+    console.log(Formatter.success(`Discarded timer for ${discarded.item_id}`));
+    return;
+  }
+
+  const entry = tracker.stopTimer(options.note);
+
+  const relationshipManager = new RelationshipManager(config, paths.projectRoot, cliTasksDir);
+  const updated = relationshipManager.getItem(entry.item_id)
+    ? tracker.applyRollUps(entry.item_id, relationshipManager)
+    : [];
+
+  console.log(Formatter.success(`Timer stopped for ${entry.item_id}`));
+  console.log(Formatter.info(`Recorded: ${formatDuration(entry.duration_minutes)}`));
+  if (entry.note) {
+    console.log(Formatter.info(`Note: ${entry.note}`));
+  }
+  if (updated.length > 0) {
+    console.log(Formatter.dim(`✓ Time rolled up to ${updated.join(' → ')}`));
+  }
+}
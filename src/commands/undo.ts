@@ -0,0 +1,159 @@
+/**
+ * Undo/Redo Commands for AI-Trackdown
+ * Restore item files, index entries and ID counters from the transaction journal
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import type { JournalTransaction } from '../types/ai-trackdown.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { Formatter } from '../utils/formatter.js';
+import { type JournalApplyResult, TransactionJournal } from '../utils/transaction-journal.js';
+
+interface UndoOptions {
+  list?: boolean;
+  limit?: string;
+  force?: boolean;
+  dryRun?: boolean;
+  format?: 'table' | 'json';
+}
+
+export function createUndoCommand(): Command {
+  const cmd = new Command('undo');
+
+  cmd
+    .description('Undo the most recent change made by an aitrackdown command')
+    .option('--list', 'list recent operations that can be undone')
+    .option('--limit <n>', 'number of operations to list', '10')
+    .option('--force', 'overwrite files that were edited after the operation')
+    .option('--dry-run', 'show which files would be restored without changing them')
+    .option('--format <format>', 'output format for --list (table|json)', 'table')
+    .action(async (options: UndoOptions) => {
+      try {
+        const journal = getJournal();
+        if (options.list) {
+          listTransactions(journal, options);
+          return;
+        }
+        reportResult(journal.undo(options), 'Undid', options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to undo: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+export function createRedoCommand(): Command {
+  const cmd = new Command('redo');
+
+  cmd
+    .description('Reapply the most recently undone change')
+    .option('--force', 'overwrite files that were edited after the undo')
+    .option('--dry-run', 'show which files would be rewritten without changing them')
+    .action(async (options: UndoOptions) => {
+      try {
+        reportResult(getJournal().redo(options), 'Redid', options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to redo: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+function getJournal(): TransactionJournal {
+  const configManager = new ConfigManager();
+
+  // Get CLI tasks directory from parent command options
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+
+  return new TransactionJournal(configManager.getAbsolutePaths(cliTasksDir));
+}
+
+function describeTransaction(transaction: JournalTransaction): string {
+  const when = new Date(transaction.timestamp).toLocaleString();
+  const ids = transaction.item_ids.length > 0 ? transaction.item_ids.join(', ') : '(no items)';
+  // Pending transactions have not been diffed yet, so their file count is unknown
+  const files =
+    transaction.status === 'pending' ? 'in progress' : `${transaction.files.length} files`;
+  return `${chalk.bold(when)}  ${chalk.cyan(transaction.user)}  ${transaction.command}\n  ${chalk.gray('affects:')} ${ids} ${chalk.gray(`(${files})`)}`;
+}
+
+function listTransactions(journal: TransactionJournal, options: UndoOptions): void {
+  const limit = Number.parseInt(options.limit || '10', 10);
+  if (Number.isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid limit: ${options.limit}`);
+  }
+
+  const undoable = journal.list(limit);
+  const redoable = journal.listRedo(limit);
+
+  if (options.format === 'json') {
+    const strip = ({ snapshot: _snapshot, files, ...rest }: JournalTransaction) => ({
+      ...rest,
+      files: files.map((file) => file.path),
+    });
+    console.log(JSON.stringify({ undo: undoable.map(strip), redo: redoable.map(strip) }, null, 2));
+    return;
+  }
+
+  if (undoable.length === 0) {
+    console.log(Formatter.info('Nothing to undo'));
+  } else {
+    console.log(Formatter.header(`Last ${undoable.length} operations (most recent first)`));
+    for (const transaction of undoable) {
+      console.log(describeTransaction(transaction));
+    }
+  }
+
+  if (redoable.length > 0) {
+    console.log('');
+    console.log(Formatter.subheader(`Undone operations that can be redone (${redoable.length})`));
+    for (const transaction of redoable) {
+      console.log(describeTransaction(transaction));
+    }
+  }
+}
+
+function reportResult(result: JournalApplyResult, verb: string, options: UndoOptions): void {
+  const { transaction, restored, conflicts } = result;
+
+  if (conflicts.length > 0 && !options.force) {
+    console.error(
+      Formatter.warning(`These files changed after "${transaction.command}" was recorded:`)
+    );
+    for (const file of conflicts) {
+      console.error(`  - ${file}`);
+    }
+    if (!options.dryRun) {
+      throw new Error('Refusing to overwrite newer changes (use --force to override)');
+    }
+  }
+
+  if (options.dryRun) {
+    console.log(Formatter.info(`Dry run - would restore ${transaction.files.length} files:`));
+    for (const file of transaction.files) {
+      console.log(`  - ${file.path}`);
+    }
+    return;
+  }
+
+  console.log(Formatter.success(`${verb}: ${transaction.command}`));
+  if (transaction.item_ids.length > 0) {
+    console.log(`  Items: ${transaction.item_ids.join(', ')}`);
+  }
+  for (const file of restored) {
+    console.log(chalk.gray(`  restored ${file}`));
+  }
+}
@@ -1,7 +1,10 @@
 import { Command } from 'commander';
+import type { MilestoneData } from '../../types/ai-trackdown.js';
 import { ChangelogManager } from '../../utils/changelog.js';
+import { ConfigManager } from '../../utils/config-manager.js';
 import { Formatter } from '../../utils/formatter.js';
 import { GitManager } from '../../utils/git.js';
+import { MilestoneManager } from '../../utils/milestone-manager.js';
 import { VersionManager } from '../../utils/version.js';
 
 export function createReleaseCommand(): Command {
@@ -16,6 +19,7 @@ export function createReleaseCommand(): Command {
     .option('--push', 'push changes and tags to remote')
     .option('--dry-run', 'show what would be done without making changes')
     .option('--message <msg>', 'custom release message')
+    .option('--close-milestone', 'close the milestone titled after the new version (e.g. v1.4.0)')
     .action(async (type: string, options) => {
       try {
         // Validate bump type
@@ -64,6 +68,17 @@ export function createReleaseCommand(): Command {
             console.log(Formatter.info('   📝 Generate changelog'));
           }
 
+          if (options.closeMilestone) {
+            const milestone = getMilestoneManager().findForVersion(newVersion);
+            console.log(
+              Formatter.info(
+                milestone
+                  ? `   🏁 Close milestone ${milestone.milestone_id} (${milestone.title})`
+                  : `   🏁 No milestone found for ${newVersion}`
+              )
+            );
+          }
+
           if (!options.noCommit && GitManager.isGitRepository()) {
             console.log(Formatter.info('   📝 Commit changes'));
           }
@@ -96,7 +111,31 @@ export function createReleaseCommand(): Command {
           console.log(Formatter.success('✅ Changelog updated'));
         }
 
-        // Step 3: Commit changes
+        // Step 3: Close the milestone for this version, so the release commit includes it
+        let closedMilestone: MilestoneData | undefined;
+        if (options.closeMilestone) {
+          const milestoneManager = getMilestoneManager();
+          const milestone = milestoneManager.findForVersion(newVersion);
+          if (!milestone) {
+            console.warn(Formatter.warning(`No milestone found for ${newVersion}`));
+          } else if (milestone.milestone_state === 'closed') {
+            console.log(Formatter.info(`🏁 Milestone ${milestone.title} is already closed`));
+          } else {
+            // The version is being released, so the milestone closes even with items left open
+            const result = milestoneManager.closeMilestone(milestone.milestone_id, { force: true });
+            closedMilestone = result.milestone;
+            console.log(Formatter.success(`✅ Milestone ${milestone.title} closed`));
+            if (result.open_items.length > 0) {
+              console.warn(
+                Formatter.warning(
+                  `Milestone closed with open items: ${result.open_items.join(', ')}`
+                )
+              );
+            }
+          }
+        }
+
+        // Step 4: Commit changes
         if (!options.noCommit && GitManager.isGitRepository()) {
           console.log(Formatter.info('📝 Committing changes...'));
 
@@ -106,12 +145,15 @@ export function createReleaseCommand(): Command {
           if (!options.noChangelog) {
             filesToCommit.push('CHANGELOG.md');
           }
+          if (closedMilestone) {
+            filesToCommit.push(closedMilestone.file_path);
+          }
 
           GitManager.commit(commitMessage, filesToCommit);
           console.log(Formatter.success('✅ Changes committed'));
         }
 
-        // Step 4: Create tag
+        // Step 5: Create tag
         if (!options.noTag && GitManager.isGitRepository()) {
           console.log(Formatter.info(`🏷️  Creating tag v${newVersion}...`));
 
@@ -120,7 +162,7 @@ export function createReleaseCommand(): Command {
           console.log(Formatter.success('✅ Tag created'));
         }
 
-        // Step 5: Push to remote
+        // Step 6: Push to remote
         if (options.push && GitManager.isGitRepository()) {
           console.log(Formatter.info('📤 Pushing to remote...'));
 
@@ -163,6 +205,10 @@ export function createReleaseCommand(): Command {
           console.log(Formatter.info(`   🏷️  Tag: v${newVersion} created`));
         }
 
+        if (closedMilestone) {
+          console.log(Formatter.info(`   🏁 Milestone: ${closedMilestone.title} closed`));
+        }
+
         // Next steps
         if (!options.push && GitManager.isGitRepository()) {
           console.log('');
@@ -189,3 +235,10 @@ export function createReleaseCommand(): Command {
 
   return command;
 }
+
+function getMilestoneManager(): MilestoneManager {
+  const configManager = new ConfigManager();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const paths = configManager.getAbsolutePaths(cliTasksDir);
+  return new MilestoneManager(configManager.getConfig(), paths.projectRoot, cliTasksDir);
+}
@@ -0,0 +1,21 @@
+/**
+ * View Command Group for AI-Trackdown
+ * Named search queries: built-in presets and views saved in project config
+ */
+
+import { Command } from 'commander';
+import { createViewListCommand } from './view/list.js';
+import { createViewRunCommand } from './view/run.js';
+import { createViewSaveCommand } from './view/save.js';
+
+export function createViewCommand(): Command {
+  const cmd = new Command('view');
+
+  cmd
+    .description('Save, list and run named search queries across all item types')
+    .addCommand(createViewSaveCommand())
+    .addCommand(createViewListCommand())
+    .addCommand(createViewRunCommand());
+
+  return cmd;
+}
@@ -0,0 +1,53 @@
+/**
+ * View List Command
+ * List built-in and saved views with their queries
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { listViews } from '../../utils/saved-views.js';
+
+interface ListOptions {
+  format?: 'table' | 'json';
+}
+
+export function createViewListCommand(): Command {
+  const cmd = new Command('list');
+
+  cmd
+    .description('List built-in and saved views')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .action(async (options: ListOptions) => {
+      try {
+        const views = listViews(new ConfigManager().getConfig());
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(views, null, 2));
+          return;
+        }
+
+        const width = Math.max(...views.map((view) => view.name.length));
+        for (const source of ['saved', 'built-in'] as const) {
+          const group = views.filter((view) => view.source === source);
+          if (group.length === 0) continue;
+          console.log(Formatter.header(source === 'saved' ? 'Saved views' : 'Built-in views'));
+          for (const view of group) {
+            const description = view.description ? Formatter.dim(` · ${view.description}`) : '';
+            console.log(`  ${chalk.cyan(view.name.padEnd(width))}  ${view.query}${description}`);
+          }
+          console.log('');
+        }
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to list views: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
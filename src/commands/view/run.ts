@@ -0,0 +1,106 @@
+/**
+ * View Run Command
+ * Run a built-in or saved view against every item type
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getItemId, getItemType, StateManager } from '../../types/ai-trackdown.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { RelationshipManager } from '../../utils/relationship-manager.js';
+import { getCurrentUser, runView } from '../../utils/saved-views.js';
+
+interface RunOptions {
+  format?: 'table' | 'json';
+}
+
+export function createViewRunCommand(): Command {
+  const cmd = new Command('run');
+
+  cmd
+    .description('Run a view and list the matching items')
+    .argument('<name>', 'view name (see "aitrackdown view list")')
+    .option('-f, --format <type>', 'output format (table|json)', 'table')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown view run my-issues
+  $ aitrackdown view run stale --format json
+`
+    )
+    .action(async (name: string, options: RunOptions) => {
+      try {
+        await runNamedView(name, options);
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to run view: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runNamedView(name: string, options: RunOptions): Promise<void> {
+  if (options.format && !['table', 'json'].includes(options.format)) {
+    throw new Error(`Invalid format: ${options.format}. Expected table or json`);
+  }
+
+  const configManager = new ConfigManager();
+  const config = configManager.getConfig();
+  const cliTasksDir = process.env.CLI_TASKS_DIR;
+  const { projectRoot } = configManager.getAbsolutePaths(cliTasksDir);
+  const relationshipManager = new RelationshipManager(config, projectRoot, cliTasksDir);
+
+  const result = runView(relationshipManager, config, name);
+  const items = result.items.map((item) => ({
+    id: getItemId(item),
+    type: getItemType(item),
+    title: item.title,
+    state: StateManager.getEffectiveState(item),
+    priority: item.priority,
+    assignee: item.assignee,
+    updated_date: item.updated_date,
+    file_path: item.file_path,
+  }));
+
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        {
+          view: name,
+          query: result.query,
+          user: getCurrentUser(config),
+          total: items.length,
+          items,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  for (const warning of result.warnings) {
+    console.log(Formatter.warning(warning));
+  }
+  if (items.length === 0) {
+    console.log(Formatter.info(`No items match view "${name}" (${result.query})`));
+    return;
+  }
+
+  console.log(Formatter.header(`${name}: ${result.query}`));
+  for (const item of items) {
+    console.log(
+      `  ${chalk.bold(item.id)} ${chalk.gray(`[${item.type}]`)} ${item.title}` +
+        ` · ${item.state} · ${item.priority} · ${item.assignee}`
+    );
+  }
+  console.log('');
+  console.log(Formatter.dim(`${items.length} item${items.length === 1 ? '' : 's'}`));
+}
@@ -0,0 +1,48 @@
+/**
+ * View Save Command
+ * Save a search query under a name in project config
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { Formatter } from '../../utils/formatter.js';
+import { saveView } from '../../utils/saved-views.js';
+
+export function createViewSaveCommand(): Command {
+  const cmd = new Command('save');
+
+  cmd
+    .description('Save a search query as a named view')
+    .argument('<name>', 'view name (letters, digits, "-" and "_")')
+    .argument('<query>', 'search query, e.g. "is:open label:bug assignee:@me"')
+    .addHelpText(
+      'after',
+      `
+Examples:
+  $ aitrackdown view save my-bugs "is:open label:bug assignee:@me"
+  $ aitrackdown view save stale-tasks "is:open updated:<14d"
+  $ aitrackdown view save checkout '"payment form" no:assignee'
+
+@me resolves to "user" in .ai-trackdown/config.yaml (or ATD_USER, else $USER).
+Saving a view under a built-in name replaces the built-in.
+`
+    )
+    .action(async (name: string, query: string) => {
+      try {
+        const configManager = new ConfigManager();
+        const existed = Boolean(configManager.getConfig().views?.[name]);
+        saveView(configManager, name, query);
+        console.log(Formatter.success(`${existed ? 'Updated' : 'Saved'} view "${name}"`));
+        console.log(Formatter.info(`Run it with "aitrackdown view run ${name}"`));
+      } catch (error) {
+        console.error(
+          Formatter.error(
+            `Failed to save view: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
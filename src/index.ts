@@ -3,15 +3,29 @@ import { Command } from 'commander';
 import { createAiCommand } from './commands/ai.js';
 import { createBacklogCommand } from './commands/backlog.js';
 import { createBacklogEnhancedCommand } from './commands/backlog-enhanced.js';
+import { createBoardCommand } from './commands/board.js';
+import { createCommitsCommand } from './commands/commits.js';
+import { createDueCommand } from './commands/due.js';
 import { createEpicCommand } from './commands/epic.js';
 import { createExportCommand } from './commands/export.js';
+import { createGraphCommand } from './commands/graph.js';
 import { createHealthCommand } from './commands/health.js';
+import { createImportCommand } from './commands/import.js';
 import { createIndexHealthCommand } from './commands/index-health.js';
 import { createInitCommand } from './commands/init.js';
 import { createIssueCommand } from './commands/issue.js';
+import { createMcpCommand } from './commands/mcp.js';
 import { createMigrateCommand } from './commands/migrate.js';
+import { createMilestoneCommand } from './commands/milestone.js';
 import { createMigrateStructureCommand } from './commands/migrate-structure.js';
+import { createRecurCommand } from './commands/recur.js';
 import { createResolveCommand } from './commands/resolve.js';
+import { createRoadmapCommand } from './commands/roadmap.js';
+import { createSearchCommand } from './commands/search.js';
+import { createServeCommand } from './commands/serve.js';
+import { createSiteCommand } from './commands/site.js';
+import { createHistoryCommand } from './commands/history.js';
+import { createSprintCommand } from './commands/sprint.js';
 import { createStateCommand } from './commands/state.js';
 import { createMigrateStateCommand } from './commands/migrate-state.js';
 import { createPortfolioCommand } from './commands/portfolio.js';
@@ -21,10 +35,16 @@ import { createStatusCommand } from './commands/status.js';
 import { createStatusEnhancedCommand } from './commands/status-enhanced.js';
 import { createSyncCommand } from './commands/sync.js';
 import { createTaskCommand } from './commands/task.js';
+import { createTimeCommand } from './commands/time.js';
 import { createTrackCommand } from './commands/track.js';
+import { createRedoCommand, createUndoCommand } from './commands/undo.js';
 import { createVersionCommand } from './commands/version.js';
+import { createViewCommand } from './commands/view.js';
 import { createCommentCommand } from './commands/comment/index.js';
+import { StateManager } from './types/ai-trackdown.js';
+import { ConfigManager } from './utils/config-manager.js';
 import { Formatter } from './utils/formatter.js';
+import { beginCommandTransaction } from './utils/transaction-journal.js';
 import { VersionManager } from './utils/version.js';
 
 // Get version from VERSION file
@@ -91,6 +111,13 @@ async function main(): Promise<void> {
       process.env.CLI_TASKS_DIR = tasksDir;
     }
 
+    // State transitions follow the workflows configured for this project
+    try {
+      StateManager.configureWorkflows(new ConfigManager().getConfig());
+    } catch {
+      // Not inside a project yet (e.g. init); the built-in workflow applies
+    }
+
     // Handle verbose option
     if (opts.verbose) {
       console.log(Formatter.debug(`Running command: ${thisCommand.name()}`));
@@ -105,6 +132,37 @@ async function main(): Promise<void> {
     }
   });
 
+  // Record mutating commands in the undo journal
+  let commitTransaction: (() => void) | null = null;
+  program.hook('preAction', (_thisCommand, actionCommand) => {
+    if (actionCommand.opts().dryRun) {
+      return;
+    }
+
+    const names: string[] = [];
+    for (let command: Command | null = actionCommand; command?.parent; command = command.parent) {
+      names.unshift(command.name());
+    }
+
+    commitTransaction = beginCommandTransaction(
+      names.join(' '),
+      actionCommand.args,
+      process.env.CLI_TASKS_DIR
+    );
+    // Commands often exit the process directly, so commit on exit as well
+    if (commitTransaction) {
+      process.once('exit', commitTransaction);
+    }
+  });
+
+  program.hook('postAction', () => {
+    if (commitTransaction) {
+      process.removeListener('exit', commitTransaction);
+      commitTransaction();
+      commitTransaction = null;
+    }
+  });
+
   // Add core commands
   program.addCommand(createInitCommand());
   program.addCommand(createTrackCommand());
@@ -112,6 +170,7 @@ async function main(): Promise<void> {
   program.addCommand(createStatusEnhancedCommand());
   program.addCommand(createBacklogCommand());
   program.addCommand(createBacklogEnhancedCommand());
+  program.addCommand(createBoardCommand());
   program.addCommand(createPortfolioCommand());
   program.addCommand(createExportCommand());
   program.addCommand(createVersionCommand());
@@ -125,13 +184,30 @@ async function main(): Promise<void> {
   program.addCommand(createTaskCommand());
   program.addCommand(createPRCommand());
   program.addCommand(createCommentCommand());
+  program.addCommand(createSearchCommand());
+  program.addCommand(createViewCommand());
+  program.addCommand(createGraphCommand());
+  program.addCommand(createRoadmapCommand());
+  program.addCommand(createCommitsCommand());
   program.addCommand(createAiCommand());
   program.addCommand(createSyncCommand());
+  program.addCommand(createTimeCommand());
+  program.addCommand(createSprintCommand());
+  program.addCommand(createRecurCommand());
+  program.addCommand(createDueCommand());
+  program.addCommand(createMilestoneCommand());
+  program.addCommand(createHistoryCommand());
+  program.addCommand(createUndoCommand());
+  program.addCommand(createRedoCommand());
+  program.addCommand(createServeCommand());
+  program.addCommand(createMcpCommand());
+  program.addCommand(createSiteCommand());
 
   // Migration commands
   program.addCommand(createMigrateCommand());
   program.addCommand(createMigrateStructureCommand());
   program.addCommand(createMigrateStateCommand());
+  program.addCommand(createImportCommand());
 
   // State management commands
   program.addCommand(createResolveCommand());
@@ -187,14 +263,99 @@ async function main(): Promise<void> {
     console.log('    $ aitrackdown pr merge PR-0001 --delete-branch');
     console.log('    $ aitrackdown pr review PR-0001 --approve --comment "LGTM"');
     console.log('');
-    console.log('  GitHub Sync:');
+    console.log('  Time Tracking:');
+    console.log('    $ aitrackdown time start TSK-0001 --note "Wiring up the form"');
+    console.log('    $ aitrackdown time stop');
+    console.log('    $ aitrackdown time log TSK-0001 2h30m --note "Pairing session"');
+    console.log('    $ aitrackdown time status ISS-0001 --entries');
+    console.log('    $ aitrackdown time report --format csv --since 2024-01-01');
+    console.log('');
+    console.log('  Sprints:');
+    console.log('    $ aitrackdown sprint create "Sprint 12" --start 2024-03-04 --length 14 --capacity 60');
+    console.log('    $ aitrackdown sprint add SPRINT-0001 ISS-0001 TSK-0003');
+    console.log('    $ aitrackdown sprint start SPRINT-0001');
+    console.log('    $ aitrackdown sprint burndown');
+    console.log('    $ aitrackdown sprint close SPRINT-0001');
+    console.log('');
+    console.log('  Recurring Items:');
+    console.log('    $ aitrackdown recur list');
+    console.log('    $ aitrackdown recur run --dry-run');
+    console.log('    $ aitrackdown recur run --catch-up');
+    console.log('');
+    console.log('  Due Dates & SLAs:');
+    console.log('    $ aitrackdown issue create "Fix checkout bug" --due-date 2024-03-15 --sla-hours 48');
+    console.log('    $ aitrackdown issue update ISS-0001 --due-date 2024-03-20');
+    console.log('    $ aitrackdown due');
+    console.log('    $ aitrackdown due --overdue --assignee john');
+    console.log('    $ aitrackdown issue search "is:overdue checkout"');
+    console.log('');
+    console.log('  Milestones:');
+    console.log('    $ aitrackdown milestone create v1.4.0 --due-date 2024-04-01');
+    console.log('    $ aitrackdown issue update ISS-0001 --milestone v1.4.0');
+    console.log('    $ aitrackdown milestone show v1.4.0');
+    console.log('    $ aitrackdown milestone close v1.4.0');
+    console.log('    $ aitrackdown version release --close-milestone');
+    console.log('');
+    console.log('  Search:');
+    console.log('    $ aitrackdown search login timeout');
+    console.log('    $ aitrackdown search \'"payment form"\' --type issue');
+    console.log('    $ aitrackdown search auth* --format json');
+    console.log('');
+    console.log('  Saved Views:');
+    console.log('    $ aitrackdown view save my-bugs "is:open label:bug assignee:@me"');
+    console.log('    $ aitrackdown view list');
+    console.log('    $ aitrackdown view run stale --format json');
+    console.log('');
+    console.log('  Dependency Graph:');
+    console.log('    $ aitrackdown graph critical-path --epic EP-0001');
+    console.log('    $ aitrackdown graph blocked');
+    console.log('    $ aitrackdown graph order --format json');
+    console.log('    $ aitrackdown graph export --format dot --epic EP-0001');
+    console.log('');
+    console.log('  Roadmap:');
+    console.log('    $ aitrackdown roadmap --from 2026-11-02');
+    console.log('    $ aitrackdown roadmap --epic EP-0001 --format mermaid');
+    console.log('    $ aitrackdown roadmap --format csv --output roadmap.csv');
+    console.log('');
+    console.log('  Commit Links:');
+    console.log('    $ aitrackdown commits scan');
+    console.log('    $ aitrackdown commits scan --transition ready_for_qa');
+    console.log('');
+    console.log('  Audit History:');
+    console.log('    $ aitrackdown history ISS-0001 --since 2024-01-01 --field state');
+    console.log('    $ aitrackdown history ISS-0001 --author alice');
+    console.log('    $ aitrackdown history ISS-0001 --as-of 2024-02-01');
+    console.log('');
+    console.log('  Undo/Redo:');
+    console.log('    $ aitrackdown undo --list --limit 5');
+    console.log('    $ aitrackdown undo --dry-run');
+    console.log('    $ aitrackdown undo');
+    console.log('    $ aitrackdown redo');
+    console.log('');
+    console.log('  GitHub/GitLab Sync:');
     console.log('    $ aitrackdown sync setup --repository owner/repo --token ghp_xxx');
+    console.log('    $ aitrackdown sync setup --provider gitlab --repository group/project --token glpat-xxx');
     console.log('    $ aitrackdown sync push --verbose');
     console.log('    $ aitrackdown sync pull --dry-run');
     console.log('    $ aitrackdown sync bidirectional');
     console.log('    $ aitrackdown sync status --verbose');
     console.log('    $ aitrackdown sync auto --enable');
     console.log('');
+    console.log('  API Server:');
+    console.log('    $ aitrackdown serve --port 4000');
+    console.log('    $ curl localhost:4000/api/search?q=is:open+label:bug');
+    console.log('    $ curl -N localhost:4000/api/events');
+    console.log('');
+    console.log('  MCP Server:');
+    console.log('    $ aitrackdown mcp --user agent');
+    console.log('');
+    console.log('  Static Site:');
+    console.log('    $ aitrackdown site build --out dist/');
+    console.log('');
+    console.log('  Import:');
+    console.log('    $ aitrackdown import backlog.json --from jira-json --dry-run');
+    console.log('    $ aitrackdown import export.csv --from jira-csv --mapping mapping.yaml');
+    console.log('');
     console.log(chalk.bold.cyan('🤖 AI-SPECIFIC COMMANDS:'));
     console.log('  Token Tracking:');
     console.log('    $ aitrackdown ai track-tokens --report');
@@ -232,6 +393,12 @@ async function main(): Promise<void> {
     console.log('    $ aitrackdown state update ISS-0001 ready_for_deployment --reason "QA passed"');
     console.log('    $ aitrackdown state analytics --verbose');
     console.log('    $ aitrackdown state workflow --from active');
+    console.log('    $ aitrackdown state workflow --type issue');
+    console.log('    $ aitrackdown state validate --type task');
+    console.log('');
+    console.log('  Kanban board:');
+    console.log('    $ aitrackdown board');
+    console.log('    $ aitrackdown board --group-by epic --filter "is:open assignee:alice"');
     console.log('');
     console.log('  Batch operations:');
     console.log('    $ aitrackdown resolve batch-qa ISS-0001 ISS-0002 ISS-0003');
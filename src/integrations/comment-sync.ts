@@ -0,0 +1,302 @@
+/**
+ * Comment Sync
+ * Syncs comments on synced issues with the provider's issue comments: new comments,
+ * edits and deletions go both ways, and reactions are merged.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { GitHubSyncConfig, RemoteComment, SyncResult } from '../types/ai-trackdown.js';
+import type { Comment, CommentReactions, ReactionType } from '../types/comment.js';
+import type { ConfigManager } from '../utils/config-manager.js';
+import {
+  createComment,
+  editComment,
+  listComments,
+  removeComment,
+  updateCommentMetadata,
+} from '../utils/index.js';
+import type { SyncProvider } from './sync-provider.js';
+
+type SyncDirection = 'push' | 'pull' | 'both';
+
+// Local comment IDs keyed by issue ID, then remote comment ID
+type CommentLinks = Record<string, Record<string, string>>;
+
+const REACTION_TYPES: ReactionType[] = [
+  '+1',
+  '-1',
+  'laugh',
+  'hooray',
+  'confused',
+  'heart',
+  'rocket',
+  'eyes',
+];
+
+export class CommentSync {
+  private client: SyncProvider;
+  private configManager: ConfigManager;
+  private syncConfig: GitHubSyncConfig;
+
+  constructor(client: SyncProvider, configManager: ConfigManager, syncConfig: GitHubSyncConfig) {
+    this.client = client;
+    this.configManager = configManager;
+    this.syncConfig = syncConfig;
+  }
+
+  /**
+   * Sync the comments of each issue with its remote issue. Links between local and
+   * remote comments are kept in comment-sync.json, so a comment missing on one side
+   * was deleted there rather than never synced. Returns the number of comments
+   * created, updated or deleted on either side.
+   */
+  async syncIssues(
+    issues: Array<{ issue_id: string; github_number?: number }>,
+    direction: SyncDirection,
+    result: SyncResult
+  ): Promise<number> {
+    const links = this.loadLinks();
+    let synced = 0;
+
+    for (const issue of issues) {
+      if (!issue.github_number) continue;
+      links[issue.issue_id] = links[issue.issue_id] || {};
+      try {
+        synced += await this.syncIssue(
+          issue.issue_id,
+          issue.github_number,
+          direction,
+          links[issue.issue_id]
+        );
+      } catch (error) {
+        result.errors.push(
+          `Failed to sync comments for ${issue.issue_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      if (Object.keys(links[issue.issue_id]).length === 0) {
+        delete links[issue.issue_id];
+      }
+    }
+
+    this.saveLinks(links);
+    return synced;
+  }
+
+  private async syncIssue(
+    issueId: string,
+    issueNumber: number,
+    direction: SyncDirection,
+    links: Record<string, string>
+  ): Promise<number> {
+    const { projectRoot, tasksRoot } = this.configManager.getAbsolutePaths();
+    const remoteComments = await this.client.getComments(issueNumber);
+    const localComments = await listComments(projectRoot, issueId);
+    const remoteById = new Map(remoteComments.map((comment) => [String(comment.id), comment]));
+    const localById = new Map(localComments.map((comment) => [comment.id, comment]));
+    let synced = 0;
+
+    // Comments linked by an earlier sync whose link file was lost
+    for (const comment of localComments) {
+      const remoteId = comment.metadata?.remoteId;
+      if (remoteId && !links[remoteId]) {
+        links[remoteId] = comment.id;
+      }
+    }
+
+    // Comments on either side of a link are never created again, even once it is dropped
+    const linkedRemoteIds = new Set(Object.keys(links));
+    const linkedCommentIds = new Set(Object.values(links));
+
+    for (const [remoteId, commentId] of Object.entries(links)) {
+      const local = localById.get(commentId);
+      const remote = remoteById.get(remoteId);
+
+      if (!local && !remote) {
+        delete links[remoteId];
+      } else if (!local) {
+        // Deleted locally; a pull leaves the link so the comment is not pulled back
+        if (direction === 'pull') continue;
+        await this.client.deleteComment(issueNumber, Number(remoteId));
+        delete links[remoteId];
+        synced++;
+      } else if (!remote) {
+        if (direction === 'push') continue;
+        await removeComment(projectRoot, issueId, commentId, { source: 'sync pull', tasksRoot });
+        delete links[remoteId];
+        synced++;
+      } else if (await this.syncLinkedComment(issueId, issueNumber, local, remote, direction)) {
+        synced++;
+      }
+    }
+
+    if (direction !== 'pull') {
+      for (const local of localComments) {
+        if (linkedCommentIds.has(local.id)) continue;
+        const remote = await this.client.createComment(issueNumber, local.body);
+        await updateCommentMetadata(projectRoot, issueId, local.id, {
+          remoteId: remote.id,
+          remoteUrl: remote.html_url,
+          remoteUpdatedAt: remote.updated_at,
+          syncedAt: new Date().toISOString(),
+        });
+        links[remote.id] = local.id;
+        await this.syncReactions(issueId, issueNumber, local, remote, direction);
+        synced++;
+      }
+    }
+
+    if (direction !== 'push') {
+      for (const remote of remoteComments) {
+        if (linkedRemoteIds.has(String(remote.id))) continue;
+        const local = await createComment(projectRoot, issueId, remote.body, {
+          author: remote.author,
+          editorUsed: 'api',
+          source: 'sync pull',
+          tasksRoot,
+          createdAt: remote.created_at,
+          metadata: {
+            remoteId: remote.id,
+            remoteUrl: remote.html_url,
+            remoteUpdatedAt: remote.updated_at,
+            syncedAt: new Date().toISOString(),
+          },
+        });
+        links[remote.id] = local.id;
+        await this.syncReactions(issueId, issueNumber, local, remote, direction);
+        synced++;
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Carry an edit across a linked pair. A local edit is one made after the last sync;
+   * a remote edit changes the remote updated_at. When both sides were edited, the
+   * configured conflict resolution picks the winner. Returns whether anything changed.
+   */
+  private async syncLinkedComment(
+    issueId: string,
+    issueNumber: number,
+    local: Comment,
+    remote: RemoteComment,
+    direction: SyncDirection
+  ): Promise<boolean> {
+    const { projectRoot, tasksRoot } = this.configManager.getAbsolutePaths();
+    const syncedAt = local.metadata?.syncedAt;
+    const editedAt = local.editedAt || '';
+    const localChanged = Boolean(editedAt && (!syncedAt || editedAt > syncedAt));
+    const remoteChanged = remote.updated_at !== local.metadata?.remoteUpdatedAt;
+
+    let winner: 'local' | 'remote' | undefined;
+    if (localChanged && remoteChanged) {
+      // A comment body cannot be merged, so 'merge' also keeps the more recent edit
+      const resolution = this.syncConfig.conflict_resolution;
+      winner =
+        resolution === 'local_wins' ||
+        (resolution !== 'remote_wins' &&
+          new Date(editedAt).getTime() >= new Date(remote.updated_at).getTime())
+          ? 'local'
+          : 'remote';
+    } else if (localChanged) {
+      winner = 'local';
+    } else if (remoteChanged) {
+      winner = 'remote';
+    }
+
+    let changed = false;
+    if (winner === 'local' && direction !== 'pull') {
+      const updated =
+        local.body === remote.body
+          ? remote
+          : await this.client.updateComment(issueNumber, remote.id, local.body);
+      await updateCommentMetadata(projectRoot, issueId, local.id, {
+        remoteUpdatedAt: updated.updated_at,
+        syncedAt: new Date().toISOString(),
+      });
+      changed = updated !== remote;
+    } else if (winner === 'remote' && direction !== 'push') {
+      const metadata = { remoteUpdatedAt: remote.updated_at, syncedAt: new Date().toISOString() };
+      if (local.body === remote.body) {
+        await updateCommentMetadata(projectRoot, issueId, local.id, metadata);
+      } else {
+        await editComment(projectRoot, issueId, local.id, remote.body, {
+          editorUsed: 'api',
+          source: 'sync pull',
+          tasksRoot,
+          editedAt: remote.updated_at,
+          metadata,
+        });
+        changed = true;
+      }
+    }
+
+    const reacted = await this.syncReactions(issueId, issueNumber, local, remote, direction);
+    return changed || reacted;
+  }
+
+  /**
+   * Merge reactions: local reactions missing remotely are added as the token's user,
+   * and the local comment records every remote reactor. Removed reactions are not
+   * carried across. Returns whether either side changed.
+   */
+  private async syncReactions(
+    issueId: string,
+    issueNumber: number,
+    local: Comment,
+    remote: RemoteComment,
+    direction: SyncDirection
+  ): Promise<boolean> {
+    const localReactions = local.metadata?.reactions || {};
+    const hasLocal = Object.values(localReactions).some((users) => users.length > 0);
+    if (remote.reactions === 0 && !hasLocal) {
+      return false;
+    }
+
+    const remoteReactions = await this.client.getCommentReactions(issueNumber, remote.id);
+    let changed = false;
+
+    if (direction !== 'pull') {
+      for (const reaction of REACTION_TYPES) {
+        if (localReactions[reaction]?.length && !remoteReactions[reaction]?.length) {
+          await this.client.addCommentReaction(issueNumber, remote.id, reaction);
+          changed = true;
+        }
+      }
+    }
+
+    if (direction !== 'push') {
+      const merged: CommentReactions = {};
+      for (const reaction of REACTION_TYPES) {
+        const users = [
+          ...new Set([...(localReactions[reaction] || []), ...(remoteReactions[reaction] || [])]),
+        ];
+        if (users.length > 0) merged[reaction] = users;
+      }
+      if (JSON.stringify(merged) !== JSON.stringify(localReactions)) {
+        const { projectRoot } = this.configManager.getAbsolutePaths();
+        await updateCommentMetadata(projectRoot, issueId, local.id, { reactions: merged });
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  private loadLinks(): CommentLinks {
+    const linksPath = this.getLinksPath();
+    return fs.existsSync(linksPath) ? JSON.parse(fs.readFileSync(linksPath, 'utf8')) : {};
+  }
+
+  private saveLinks(links: CommentLinks): void {
+    fs.writeFileSync(this.getLinksPath(), JSON.stringify(links, null, 2), 'utf8');
+  }
+
+  /**
+   * Get the comment link file path
+   */
+  private getLinksPath(): string {
+    return path.join(this.configManager.getAbsolutePaths().configDir, 'comment-sync.json');
+  }
+}
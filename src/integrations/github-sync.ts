@@ -1,31 +1,64 @@
 /**
  * GitHub Sync Engine
- * Handles bidirectional sync between local issues and GitHub Issues
+ * Handles bidirectional sync between local issues and the configured provider's
+ * issues (GitHub by default, or GitLab). Epics, tasks and PR items are synced as
+ * milestones, issues or pull requests when their sync mapping is set, and comments
+ * on synced issues when comment sync is on.
  */
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type {
-  GitHubIssue,
-  GitHubSyncConfig,
-  IssueData,
-  IssueFrontmatter,
-  ItemStatus,
-  ProjectConfig,
-  SyncOperation,
-  SyncResult,
-  SyncStatus,
+import {
+  type AnyFrontmatter,
+  type AnyItemData,
+  type EpicData,
+  type GitHubIssue,
+  type GitHubMilestone,
+  type GitHubSyncConfig,
+  type IssueData,
+  type IssueFrontmatter,
+  type ItemStatus,
+  type MilestoneData,
+  type PRData,
+  type PRStatus,
+  type ProjectConfig,
+  type RemotePullRequest,
+  SYNC_FIELDS,
+  type SyncConflict,
+  type SyncField,
+  type SyncFieldConflict,
+  type SyncOperation,
+  type SyncResult,
+  type SyncSnapshot,
+  type SyncStatus,
+  type TaskData,
 } from '../types/ai-trackdown.js';
 import type { ConfigManager } from '../utils/config-manager.js';
 import { FrontmatterParser } from '../utils/frontmatter-parser.js';
-import { GitHubClient } from '../utils/github-client.js';
+import { HistoryLog } from '../utils/history-log.js';
+import { writeFileJournaled } from '../utils/journaled-fs.js';
+import { MilestoneManager } from '../utils/milestone-manager.js';
+import { CommentSync } from './comment-sync.js';
+import { createSyncProvider, type SyncProvider } from './sync-provider.js';
 
 export class GitHubSyncEngine {
-  private client: GitHubClient;
+  private client: SyncProvider;
   private configManager: ConfigManager;
   private config: ProjectConfig;
   private syncConfig: GitHubSyncConfig;
   private frontmatterParser: FrontmatterParser;
+  // GitHub milestone numbers keyed by lowercased title, filled by syncMilestones
+  private milestoneNumbers = new Map<string, number>();
+  // Milestone numbers of epics synced as milestones, keyed by epic ID
+  private epicMilestones = new Map<string, number>();
+  // Remote issue numbers linked to epics and tasks, which pull leaves alone
+  private linkedIssueNumbers = new Set<number>();
+  // Tasks listed in their issue's body, keyed by issue ID
+  private taskChecklists = new Map<string, TaskData[]>();
+  // Issue fields as both sides last agreed, keyed by issue ID (loaded on first use)
+  private syncBases?: Record<string, SyncSnapshot>;
+  // Unresolved field conflicts, keyed by issue ID (loaded on first use)
+  private syncConflicts?: Record<string, SyncConflict>;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
@@ -37,11 +70,11 @@ export class GitHubSyncEngine {
     }
 
     this.syncConfig = this.config.github_sync;
-    this.client = new GitHubClient(this.syncConfig);
+    this.client = createSyncProvider(this.syncConfig);
   }
 
   /**
-   * Test GitHub connection
+   * Test the provider connection
    */
   async testConnection(): Promise<{ success: boolean; message: string }> {
     return await this.client.testConnection();
@@ -74,7 +107,7 @@ export class GitHubSyncEngine {
           (issue) => issue.sync_status === 'local' || issue.sync_status === 'conflict'
         ).length,
         conflicts,
-        sync_health: rateLimit.remaining > 100 ? 'healthy' : 'degraded',
+        sync_health: !rateLimit || rateLimit.remaining > 100 ? 'healthy' : 'degraded',
       };
     } catch (_error) {
       return {
@@ -105,6 +138,14 @@ export class GitHubSyncEngine {
     };
 
     try {
+      this.loadLinkedItems();
+      if (this.syncConfig.sync_milestones) {
+        result.milestones_synced = await this.syncMilestones('push', result);
+      }
+      if (this.syncConfig.sync_epics === 'milestone') {
+        result.epics_synced = await this.syncEpicMilestones(result);
+      }
+
       const localIssues = await this.getLocalIssues();
       const githubIssues = await this.client.getAllIssues();
 
@@ -125,6 +166,11 @@ export class GitHubSyncEngine {
         }
       }
 
+      await this.syncLinkedItems('push', githubIssuesMap, result);
+      if (this.syncConfig.sync_comments) {
+        result.comments_synced = await this.syncComments('push', result);
+      }
+
       // Update sync metadata
       await this.updateSyncMetadata(result);
 
@@ -152,10 +198,17 @@ export class GitHubSyncEngine {
     };
 
     try {
-      const githubIssues = await this.client.getAllIssues({
-        state: 'all',
-        since: options.since,
-      });
+      this.loadLinkedItems();
+      if (this.syncConfig.sync_milestones) {
+        result.milestones_synced = await this.syncMilestones('pull', result);
+      }
+
+      const githubIssues = (
+        await this.client.getAllIssues({
+          state: 'all',
+          since: options.since,
+        })
+      ).filter((issue) => !this.linkedIssueNumbers.has(issue.number));
       const localIssues = await this.getLocalIssues();
 
       // Create ID mappings
@@ -179,6 +232,13 @@ export class GitHubSyncEngine {
         }
       }
 
+      if (this.syncConfig.sync_prs === 'pull_request') {
+        result.prs_synced = await this.syncPullRequests('pull', result);
+      }
+      if (this.syncConfig.sync_comments) {
+        result.comments_synced = await this.syncComments('pull', result);
+      }
+
       // Update sync metadata
       await this.updateSyncMetadata(result);
 
@@ -206,6 +266,14 @@ export class GitHubSyncEngine {
     };
 
     try {
+      this.loadLinkedItems();
+      if (this.syncConfig.sync_milestones) {
+        result.milestones_synced = await this.syncMilestones('both', result);
+      }
+      if (this.syncConfig.sync_epics === 'milestone') {
+        result.epics_synced = await this.syncEpicMilestones(result);
+      }
+
       const localIssues = await this.getLocalIssues();
       const githubIssues = await this.client.getAllIssues();
 
@@ -230,7 +298,10 @@ export class GitHubSyncEngine {
 
       // Process GitHub issues not in local (pull operations)
       for (const githubIssue of githubIssues) {
-        if (!localIssuesMap.has(githubIssue.number)) {
+        if (
+          !localIssuesMap.has(githubIssue.number) &&
+          !this.linkedIssueNumbers.has(githubIssue.number)
+        ) {
           const operation = await this.processBidirectionalOperation(
             null,
             githubIssuesMap,
@@ -242,6 +313,11 @@ export class GitHubSyncEngine {
         }
       }
 
+      await this.syncLinkedItems('both', githubIssuesMap, result);
+      if (this.syncConfig.sync_comments) {
+        result.comments_synced = await this.syncComments('both', result);
+      }
+
       // Update sync metadata
       await this.updateSyncMetadata(result);
 
@@ -256,11 +332,653 @@ export class GitHubSyncEngine {
   }
 
   /**
-   * Process push operation for a local issue
+   * Sync comments on every issue linked to a remote issue, after the issues themselves
+   * so newly linked issues are included. Returns the number of comments changed.
+   */
+  private async syncComments(
+    direction: 'push' | 'pull' | 'both',
+    result: SyncResult
+  ): Promise<number> {
+    const issues = await this.getLocalIssues();
+    return new CommentSync(this.client, this.configManager, this.syncConfig).syncIssues(
+      issues,
+      direction,
+      result
+    );
+  }
+
+  /**
+   * Sync milestone records with GitHub milestones. Records link by github_number,
+   * falling back to the title; a missing side is created, and otherwise the
+   * direction (or, for both, the more recently updated side) decides which wins.
+   * Returns the number of milestones created or updated.
+   */
+  private async syncMilestones(
+    direction: 'push' | 'pull' | 'both',
+    result: SyncResult
+  ): Promise<number> {
+    const milestoneManager = this.getMilestoneManager();
+    // Milestones standing for epics are synced with the epics
+    const epicMilestones = new Set(this.epicMilestones.values());
+    const remoteMilestones = (await this.client.getMilestones()).filter(
+      (milestone) => !epicMilestones.has(milestone.number)
+    );
+    const localMilestones = milestoneManager.listMilestones();
+    const linked = new Set<number>();
+    let synced = 0;
+
+    this.milestoneNumbers = new Map(
+      remoteMilestones.map((milestone) => [milestone.title.toLowerCase(), milestone.number])
+    );
+
+    for (const local of localMilestones) {
+      try {
+        const remote =
+          remoteMilestones.find((milestone) => milestone.number === local.github_number) ||
+          remoteMilestones.find(
+            (milestone) => milestone.title.toLowerCase() === local.title.toLowerCase()
+          );
+
+        if (!remote) {
+          if (direction === 'pull') continue;
+          const created = await this.client.createMilestone(this.toGitHubMilestone(local));
+          this.linkMilestone(milestoneManager, local, created);
+          this.milestoneNumbers.set(created.title.toLowerCase(), created.number);
+          synced++;
+          continue;
+        }
+
+        linked.add(remote.number);
+        if (!this.milestoneDiffers(local, remote)) {
+          if (local.github_number !== remote.number) {
+            this.linkMilestone(milestoneManager, local, remote);
+          }
+          continue;
+        }
+
+        const localWins =
+          direction === 'push' ||
+          (direction === 'both' &&
+            new Date(local.updated_date).getTime() > new Date(remote.updated_at).getTime());
+
+        if (localWins) {
+          const updated = await this.client.updateMilestone(
+            remote.number,
+            this.toGitHubMilestone(local)
+          );
+          this.linkMilestone(milestoneManager, local, updated);
+          this.milestoneNumbers.delete(remote.title.toLowerCase());
+          this.milestoneNumbers.set(updated.title.toLowerCase(), updated.number);
+        } else {
+          milestoneManager.updateMilestone(local.milestone_id, {
+            ...this.fromGitHubMilestone(remote),
+            github_number: remote.number,
+            github_url: remote.html_url,
+            github_updated_at: remote.updated_at,
+          });
+        }
+        synced++;
+      } catch (error) {
+        result.errors.push(
+          `Milestone ${local.title}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (direction !== 'push') {
+      for (const remote of remoteMilestones) {
+        if (linked.has(remote.number)) continue;
+        try {
+          const created = milestoneManager.createMilestone({
+            title: remote.title,
+            description: remote.description,
+            due_date: remote.due_on,
+          });
+          this.linkMilestone(milestoneManager, created, remote);
+          synced++;
+        } catch (error) {
+          result.errors.push(
+            `Milestone ${remote.title}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+    }
+
+    return synced;
+  }
+
+  private getMilestoneManager(): MilestoneManager {
+    const cliTasksDir = process.env.CLI_TASKS_DIR;
+    const paths = this.configManager.getAbsolutePaths(cliTasksDir);
+    return new MilestoneManager(this.config, paths.projectRoot, cliTasksDir);
+  }
+
+  private linkMilestone(
+    milestoneManager: MilestoneManager,
+    local: MilestoneData,
+    remote: GitHubMilestone
+  ): void {
+    milestoneManager.updateMilestone(local.milestone_id, {
+      milestone_state: remote.state,
+      github_number: remote.number,
+      github_url: remote.html_url,
+      github_updated_at: remote.updated_at,
+    });
+  }
+
+  private milestoneDiffers(local: MilestoneData, remote: GitHubMilestone): boolean {
+    const fields = this.fromGitHubMilestone(remote);
+    return (
+      local.title !== fields.title ||
+      (local.description || '') !== (fields.description || '') ||
+      local.due_date !== fields.due_date ||
+      local.milestone_state !== fields.milestone_state
+    );
+  }
+
+  private toGitHubMilestone(local: MilestoneData): {
+    title: string;
+    description?: string;
+    state: 'open' | 'closed';
+    due_on?: string;
+  } {
+    return {
+      title: local.title,
+      description: local.description,
+      state: local.milestone_state,
+      // GitHub stores due dates as timestamps; only the day is significant
+      due_on: local.due_date ? `${local.due_date}T00:00:00Z` : undefined,
+    };
+  }
+
+  private fromGitHubMilestone(
+    remote: GitHubMilestone
+  ): Pick<MilestoneData, 'title' | 'description' | 'due_date' | 'milestone_state'> {
+    return {
+      title: remote.title,
+      description: remote.description,
+      due_date: remote.due_on ? remote.due_on.slice(0, 10) : undefined,
+      milestone_state: remote.state,
+    };
+  }
+
+  /**
+   * GitHub milestone number for an item's milestone title, when milestones are synced,
+   * or else for its epic's milestone when epics are synced as milestones
+   */
+  private getGitHubMilestoneNumber(item: {
+    milestone?: string;
+    epic_id?: string;
+  }): number | undefined {
+    if (this.syncConfig.sync_milestones && item.milestone) {
+      const number = this.milestoneNumbers.get(item.milestone.toLowerCase());
+      if (number !== undefined) {
+        return number;
+      }
+    }
+    return item.epic_id ? this.epicMilestones.get(item.epic_id) : undefined;
+  }
+
+  /**
+   * Milestone title to record for a remote issue, unless its milestone stands for an epic
+   */
+  private getRemoteMilestoneTitle(githubIssue: GitHubIssue): string | undefined {
+    if (!githubIssue.milestone || this.getMilestoneEpic(githubIssue)) {
+      return undefined;
+    }
+    return githubIssue.milestone.title;
+  }
+
+  /**
+   * Epic whose milestone a remote issue is in, when epics are synced as milestones
+   */
+  private getMilestoneEpic(githubIssue: GitHubIssue): string | undefined {
+    for (const [epicId, number] of this.epicMilestones) {
+      if (number === githubIssue.milestone?.number) {
+        return epicId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the epics, tasks and their remote links that the item sync mappings use
+   */
+  private loadLinkedItems(): void {
+    this.epicMilestones = new Map();
+    this.linkedIssueNumbers = new Set();
+    this.taskChecklists = new Map();
+
+    if ((this.syncConfig.sync_epics || 'none') !== 'none') {
+      for (const epic of this.getLocalItems<EpicData>('epic')) {
+        if (epic.github_milestone_number) {
+          this.epicMilestones.set(epic.epic_id, epic.github_milestone_number);
+        }
+        if (epic.github_number) {
+          this.linkedIssueNumbers.add(epic.github_number);
+        }
+      }
+    }
+
+    if ((this.syncConfig.sync_tasks || 'none') !== 'none') {
+      for (const task of this.getLocalItems<TaskData>('task')) {
+        if (task.github_number) {
+          this.linkedIssueNumbers.add(task.github_number);
+        }
+        if (this.syncConfig.sync_tasks === 'checklist') {
+          const tasks = this.taskChecklists.get(task.issue_id) || [];
+          tasks.push(task);
+          this.taskChecklists.set(task.issue_id, tasks);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sync the item types that depend on issues having been pushed: epic tracking
+   * issues, task sub-issues or checklists, and pull requests
+   */
+  private async syncLinkedItems(
+    direction: 'push' | 'both',
+    githubIssuesMap: Map<number, GitHubIssue>,
+    result: SyncResult
+  ): Promise<void> {
+    if (this.syncConfig.sync_epics === 'tracking_issue') {
+      result.epics_synced = await this.syncEpicTrackingIssues(githubIssuesMap, result);
+    }
+
+    if (this.syncConfig.sync_tasks === 'sub_issue') {
+      result.tasks_synced = await this.syncTaskSubIssues(githubIssuesMap, result);
+    } else if (this.syncConfig.sync_tasks === 'checklist') {
+      // Tasks travel in their issue's body, so they sync with the issues pushed
+      const pushed = new Set(
+        result.operations
+          .filter((operation) => operation.action !== 'skip')
+          .map((operation) => operation.local_issue.issue_id)
+      );
+      result.tasks_synced = [...this.taskChecklists]
+        .filter(([issueId]) => pushed.has(issueId))
+        .reduce((count, [, tasks]) => count + tasks.length, 0);
+    }
+
+    if (this.syncConfig.sync_prs === 'pull_request') {
+      result.prs_synced = await this.syncPullRequests(direction, result);
+    }
+  }
+
+  /**
+   * Push epics as milestones carrying the epic's title, description, due date and
+   * open/closed state. Epics link by github_milestone_number, falling back to the
+   * title. Returns the number of milestones created or updated.
+   */
+  private async syncEpicMilestones(result: SyncResult): Promise<number> {
+    const remoteMilestones = await this.client.getMilestones();
+    let synced = 0;
+
+    for (const epic of this.getLocalItems<EpicData>('epic')) {
+      try {
+        const data = {
+          title: epic.title,
+          description: epic.description || undefined,
+          state: this.mapStatusToGitHubState(epic.status),
+          due_on: epic.due_date ? `${epic.due_date}T00:00:00Z` : undefined,
+        };
+        const remote =
+          remoteMilestones.find((milestone) => milestone.number === epic.github_milestone_number) ||
+          remoteMilestones.find(
+            (milestone) => milestone.title.toLowerCase() === epic.title.toLowerCase()
+          );
+
+        let milestone: GitHubMilestone;
+        if (!remote) {
+          milestone = await this.client.createMilestone(data);
+        } else if (
+          remote.title !== data.title ||
+          (remote.description || '') !== (data.description || '') ||
+          remote.state !== data.state ||
+          remote.due_on?.slice(0, 10) !== epic.due_date
+        ) {
+          milestone = await this.client.updateMilestone(remote.number, data);
+        } else {
+          if (epic.github_milestone_number !== remote.number) {
+            this.linkItem(epic, { github_milestone_number: remote.number });
+          }
+          this.epicMilestones.set(epic.epic_id, remote.number);
+          continue;
+        }
+
+        this.linkItem(epic, {
+          github_milestone_number: milestone.number,
+          github_url: milestone.html_url,
+          github_updated_at: milestone.updated_at,
+        });
+        this.epicMilestones.set(epic.epic_id, milestone.number);
+        synced++;
+      } catch (error) {
+        result.errors.push(
+          `Epic ${epic.epic_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Push epics as tracking issues whose body checks off the epic's issues.
+   * Returns the number of tracking issues created or updated.
+   */
+  private async syncEpicTrackingIssues(
+    githubIssuesMap: Map<number, GitHubIssue>,
+    result: SyncResult
+  ): Promise<number> {
+    const localIssues = await this.getLocalIssues();
+    let synced = 0;
+
+    for (const epic of this.getLocalItems<EpicData>('epic')) {
+      try {
+        const checklist = this.createChecklist(
+          'Issues',
+          localIssues
+            .filter((issue) => issue.epic_id === epic.epic_id)
+            .map((issue) => ({
+              done: this.mapStatusToGitHubState(issue.status) === 'closed',
+              label: issue.github_number
+                ? `#${issue.github_number}`
+                : `${issue.title} (${issue.issue_id})`,
+            }))
+        );
+        const pushed = await this.pushItemIssue(
+          epic,
+          this.createGitHubIssueBody(epic, checklist),
+          githubIssuesMap
+        );
+        if (pushed) synced++;
+      } catch (error) {
+        result.errors.push(
+          `Epic ${epic.epic_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Push tasks as issues attached to their parent issue. The parent must already
+   * be synced. Returns the number of task issues created or updated.
+   */
+  private async syncTaskSubIssues(
+    githubIssuesMap: Map<number, GitHubIssue>,
+    result: SyncResult
+  ): Promise<number> {
+    // Re-read issues, as the push has just linked new ones
+    const issueNumbers = new Map<string, number>();
+    for (const issue of await this.getLocalIssues()) {
+      if (issue.github_number === undefined) continue;
+      issueNumbers.set(issue.issue_id, issue.github_number);
+    }
+    let synced = 0;
+
+    for (const task of this.getLocalItems<TaskData>('task')) {
+      try {
+        const parentNumber = issueNumbers.get(task.issue_id);
+        if (!parentNumber) {
+          result.errors.push(`Task ${task.task_id}: parent issue ${task.issue_id} is not synced`);
+          continue;
+        }
+
+        const pushed = await this.pushItemIssue(
+          task,
+          this.createGitHubIssueBody(task),
+          githubIssuesMap
+        );
+        if (!pushed) continue;
+
+        if (pushed.created) {
+          await this.client.addSubIssue(parentNumber, pushed.issue);
+        }
+        synced++;
+      } catch (error) {
+        result.errors.push(
+          `Task ${task.task_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Create or update the remote issue linked to an epic or task. Returns null when
+   * the remote issue is already up to date.
+   */
+  private async pushItemIssue(
+    item: EpicData | TaskData,
+    body: string,
+    githubIssuesMap: Map<number, GitHubIssue>
+  ): Promise<{ issue: GitHubIssue; created: boolean } | null> {
+    const data = {
+      title: item.title,
+      body,
+      assignee: this.syncConfig.sync_assignees ? item.assignee : undefined,
+      milestone: this.getGitHubMilestoneNumber(item),
+      labels: this.syncConfig.sync_labels ? item.tags : undefined,
+    };
+    const state = this.mapStatusToGitHubState(item.status);
+    const remote = item.github_number ? githubIssuesMap.get(item.github_number) : undefined;
+
+    let issue: GitHubIssue;
+    if (!remote) {
+      issue = await this.client.createIssue(data);
+      if (state === 'closed') {
+        issue = await this.client.updateIssue(issue.number, { state });
+      }
+    } else if (remote.title !== data.title || remote.body !== body || remote.state !== state) {
+      issue = await this.client.updateIssue(remote.number, { ...data, state });
+    } else {
+      return null;
+    }
+
+    this.linkItem(item, {
+      github_id: issue.id,
+      github_number: issue.number,
+      github_url: issue.html_url,
+      github_updated_at: issue.updated_at,
+    });
+    this.linkedIssueNumbers.add(issue.number);
+    return { issue, created: !remote };
+  }
+
+  /**
+   * Sync PR items with pull requests, matched by pr_number and then by branch.
+   * Push opens pull requests for PR items with a branch and no match; an existing
+   * pair takes the pushing side's title and open/closed state (for both, the more
+   * recently updated side). A merged pull request always marks the item merged.
+   * Returns the number of PR items or pull requests created or updated.
+   */
+  private async syncPullRequests(
+    direction: 'push' | 'pull' | 'both',
+    result: SyncResult
+  ): Promise<number> {
+    const remotePulls = await this.client.getPullRequests();
+    let synced = 0;
+
+    for (const pr of this.getLocalItems<PRData>('pr')) {
+      try {
+        const branch = pr.branch_name || pr.source_branch;
+        const prNumber = pr.pr_number ?? pr.github_number;
+        const remote =
+          (prNumber !== undefined && remotePulls.find((pull) => pull.number === prNumber)) ||
+          (branch && remotePulls.find((pull) => pull.head === branch)) ||
+          undefined;
+
+        if (!remote) {
+          if (
+            direction === 'pull' ||
+            !branch ||
+            pr.pr_status === 'merged' ||
+            pr.pr_status === 'closed'
+          ) {
+            continue;
+          }
+          const created = await this.client.createPullRequest({
+            title: pr.title,
+            body: this.createGitHubIssueBody(pr),
+            head: branch,
+            base: pr.target_branch,
+            draft: pr.pr_status === 'draft',
+          });
+          this.linkPullRequest(pr, created);
+          synced++;
+          continue;
+        }
+
+        if (remote.state === 'merged') {
+          if (pr.pr_status !== 'merged' || pr.pr_number !== remote.number) {
+            this.linkPullRequest(pr, remote, {
+              pr_status: 'merged',
+              merge_commit: remote.merge_commit || pr.merge_commit,
+            });
+            synced++;
+          }
+          continue;
+        }
+
+        const body = this.createGitHubIssueBody(pr);
+        const state = this.mapPRStatusToRemoteState(pr.pr_status);
+        const differs =
+          remote.title !== pr.title ||
+          (state !== undefined && remote.state !== state) ||
+          (direction !== 'pull' && remote.body !== body);
+
+        if (!differs) {
+          if (pr.pr_number !== remote.number) {
+            this.linkPullRequest(pr, remote);
+          }
+          continue;
+        }
+
+        const localWins =
+          direction === 'push' ||
+          (direction === 'both' &&
+            new Date(pr.updated_date).getTime() > new Date(remote.updated_at).getTime());
+
+        if (localWins) {
+          const updated = await this.client.updatePullRequest(remote.number, {
+            title: pr.title,
+            body,
+            state,
+          });
+          this.linkPullRequest(pr, updated);
+        } else {
+          this.linkPullRequest(pr, remote, {
+            title: remote.title,
+            pr_status: this.mapRemoteStateToPRStatus(remote, pr.pr_status),
+          });
+        }
+        synced++;
+      } catch (error) {
+        result.errors.push(
+          `PR ${pr.pr_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return synced;
+  }
+
+  private linkPullRequest(
+    pr: PRData,
+    remote: RemotePullRequest,
+    updates: Partial<PRData> = {}
+  ): void {
+    this.linkItem(pr, {
+      pr_number: remote.number,
+      branch_name: pr.branch_name || remote.head,
+      target_branch: pr.target_branch || remote.base,
+      github_id: remote.id,
+      github_number: remote.number,
+      github_url: remote.html_url,
+      github_updated_at: remote.updated_at,
+      ...updates,
+    });
+  }
+
+  /**
+   * Remote state for a PR item; merging is left to the remote, so merged maps to none
+   */
+  private mapPRStatusToRemoteState(status: PRStatus): 'open' | 'closed' | undefined {
+    switch (status) {
+      case 'merged':
+        return undefined;
+      case 'closed':
+        return 'closed';
+      default:
+        return 'open';
+    }
+  }
+
+  private mapRemoteStateToPRStatus(remote: RemotePullRequest, current: PRStatus): PRStatus {
+    if (remote.state === 'merged' || remote.state === 'closed') {
+      return remote.state;
+    }
+    if (remote.draft) {
+      return 'draft';
+    }
+    // Keep review progress that the remote state does not express
+    return current === 'review' || current === 'approved' ? current : 'open';
+  }
+
+  /**
+   * Record remote link metadata on an epic, task or PR item. Linking is not an edit,
+   * so updated_date is kept and the next push finds the remote body unchanged.
+   */
+  private linkItem(item: AnyItemData, updates: Record<string, unknown>): void {
+    const {
+      content,
+      file_path: _filePath,
+      ...frontmatter
+    } = this.frontmatterParser.parseAnyItem(item.file_path);
+    const linked = { ...frontmatter, ...updates, sync_status: 'synced' } as AnyFrontmatter;
+    writeFileJournaled(item.file_path, this.frontmatterParser.stringify(linked, content));
+  }
+
+  /**
+   * Read local epics, tasks or PR items
+   */
+  private getLocalItems<T extends AnyItemData>(type: 'epic' | 'task' | 'pr'): T[] {
+    const paths = this.configManager.getAbsolutePaths();
+    const dir = type === 'epic' ? paths.epicsDir : type === 'task' ? paths.tasksDir : paths.prsDir;
+    return this.frontmatterParser.parseDirectory(dir, type) as T[];
+  }
+
+  /**
+   * Checklist block appended to a remote issue body; pull strips it again
+   */
+  private createChecklist(
+    heading: string,
+    entries: Array<{ done: boolean; label: string }>
+  ): string {
+    if (entries.length === 0) {
+      return '';
+    }
+    const lines = entries.map((entry) => `- [${entry.done ? 'x' : ' '}] ${entry.label}`);
+    return `<!-- AI-Trackdown Checklist -->
+### ${heading}
+${lines.join('\n')}
+<!-- /AI-Trackdown Checklist -->`;
+  }
+
+  /**
+   * Process push operation for a local issue. Linked issues with a snapshot from the
+   * last sync are merged field by field; a bidirectional sync also applies remote
+   * changes locally.
    */
   private async processPushOperation(
     localIssue: IssueData,
-    githubIssuesMap: Map<number, GitHubIssue>
+    githubIssuesMap: Map<number, GitHubIssue>,
+    direction: 'push' | 'both' = 'push'
   ): Promise<SyncOperation> {
     const operation: SyncOperation = {
       type: 'push',
@@ -276,11 +994,9 @@ export class GitHubSyncEngine {
         if (githubIssue) {
           operation.github_issue = githubIssue;
 
-          // Check for conflicts
-          if (await this.hasConflict(localIssue, githubIssue)) {
-            operation.type = 'conflict';
-            operation.reason = 'Conflict detected - both local and GitHub have changes';
-            return operation;
+          const base = this.getSyncBases()[localIssue.issue_id];
+          if (base || (await this.hasConflict(localIssue, githubIssue))) {
+            return await this.mergeIssue(localIssue, githubIssue, base || {}, direction);
           }
 
           // Update GitHub issue
@@ -289,6 +1005,7 @@ export class GitHubSyncEngine {
             body: this.createGitHubIssueBody(localIssue),
             state: this.mapStatusToGitHubState(localIssue.status),
             assignee: this.syncConfig.sync_assignees ? localIssue.assignee : undefined,
+            milestone: this.getGitHubMilestoneNumber(localIssue),
             labels: this.syncConfig.sync_labels ? localIssue.tags : undefined,
           });
 
@@ -304,6 +1021,7 @@ export class GitHubSyncEngine {
           title: localIssue.title,
           body: this.createGitHubIssueBody(localIssue),
           assignee: this.syncConfig.sync_assignees ? localIssue.assignee : undefined,
+          milestone: this.getGitHubMilestoneNumber(localIssue),
           labels: this.syncConfig.sync_labels ? localIssue.tags : undefined,
         });
 
@@ -342,11 +1060,9 @@ export class GitHubSyncEngine {
         // Update existing local issue
         operation.local_issue = localIssue;
 
-        // Check for conflicts
-        if (await this.hasConflict(localIssue, githubIssue)) {
-          operation.type = 'conflict';
-          operation.reason = 'Conflict detected - both local and GitHub have changes';
-          return operation;
+        const base = this.getSyncBases()[localIssue.issue_id];
+        if (base || (await this.hasConflict(localIssue, githubIssue))) {
+          return await this.mergeIssue(localIssue, githubIssue, base || {}, 'pull');
         }
 
         // Update local issue
@@ -375,7 +1091,7 @@ export class GitHubSyncEngine {
     githubIssue?: GitHubIssue
   ): Promise<SyncOperation> {
     if (direction === 'push' && localIssue) {
-      return this.processPushOperation(localIssue, githubIssuesMap);
+      return this.processPushOperation(localIssue, githubIssuesMap, 'both');
     } else if (direction === 'pull' && githubIssue) {
       const localIssuesMap = new Map<number, IssueData>();
       return this.processPullOperation(githubIssue, localIssuesMap);
@@ -390,6 +1106,338 @@ export class GitHubSyncEngine {
     };
   }
 
+  /**
+   * Three-way merge of a linked issue against the snapshot from the last sync. A field
+   * changed on one side only takes that side's value; a field changed differently on
+   * both sides is a conflict, which local_wins, remote_wins and most_recent settle and
+   * merge records for 'sync resolve'. Without a snapshot every differing field is a
+   * conflict. The direction decides which side is written.
+   */
+  private async mergeIssue(
+    localIssue: IssueData,
+    githubIssue: GitHubIssue,
+    base: SyncSnapshot,
+    direction: 'push' | 'pull' | 'both'
+  ): Promise<SyncOperation> {
+    const local = this.getLocalSnapshot(localIssue);
+    const remote = this.getRemoteSnapshot(githubIssue);
+    const toLocal: SyncSnapshot = {};
+    const toRemote: SyncSnapshot = {};
+    const conflicts: Partial<Record<SyncField, SyncFieldConflict>> = {};
+    const localIsNewer =
+      new Date(localIssue.updated_date).getTime() >= new Date(githubIssue.updated_at).getTime();
+
+    for (const field of SYNC_FIELDS) {
+      if (!(field in local) || sameSyncValue(local[field], remote[field])) continue;
+
+      const localChanged = !(field in base) || !sameSyncValue(local[field], base[field]);
+      const remoteChanged = !(field in base) || !sameSyncValue(remote[field], base[field]);
+      let winner: 'local' | 'remote' | undefined;
+      if (localChanged && remoteChanged) {
+        const resolution = this.syncConfig.conflict_resolution;
+        if (resolution === 'local_wins' || (resolution === 'most_recent' && localIsNewer)) {
+          winner = 'local';
+        } else if (resolution !== 'merge') {
+          winner = 'remote';
+        }
+      } else {
+        winner = localChanged ? 'local' : 'remote';
+      }
+
+      if (winner === 'local') {
+        Object.assign(toRemote, { [field]: local[field] });
+      } else if (winner === 'remote') {
+        Object.assign(toLocal, { [field]: remote[field] });
+      } else {
+        conflicts[field] = { base: base[field], local: local[field], remote: remote[field] };
+      }
+    }
+
+    const writeLocal = direction !== 'push' && Object.keys(toLocal).length > 0;
+    const writeRemote = direction !== 'pull' && Object.keys(toRemote).length > 0;
+    const finalLocal: SyncSnapshot = { ...local, ...(writeLocal ? toLocal : {}) };
+    const finalRemote: SyncSnapshot = { ...remote, ...(writeRemote ? toRemote : {}) };
+    const conflictFields = Object.keys(conflicts);
+
+    const operation: SyncOperation = {
+      type: conflictFields.length > 0 ? 'conflict' : direction === 'pull' ? 'pull' : 'push',
+      local_issue: localIssue,
+      github_issue: githubIssue,
+      action: writeLocal || writeRemote ? 'update' : 'skip',
+      reason:
+        conflictFields.length > 0
+          ? `Conflicting changes to ${conflictFields.join(', ')}`
+          : writeLocal || writeRemote
+            ? `Merged ${[...Object.keys(toLocal), ...Object.keys(toRemote)].join(', ')}`
+            : 'No changes needed',
+    };
+
+    let updatedIssue = githubIssue;
+    if (writeRemote) {
+      const item = this.applySnapshot(localIssue, finalRemote);
+      updatedIssue = await this.client.updateIssue(githubIssue.number, {
+        title: item.title,
+        body: this.createGitHubIssueBody(item),
+        state: this.mapStatusToGitHubState(item.status),
+        assignee: this.syncConfig.sync_assignees ? finalRemote.assignee || undefined : undefined,
+        milestone: this.getGitHubMilestoneNumber(item),
+        labels: this.syncConfig.sync_labels ? item.tags : undefined,
+      });
+      operation.github_issue = updatedIssue;
+    }
+
+    const syncStatus = conflictFields.length > 0 ? 'conflict' : 'synced';
+    if (writeLocal || writeRemote || localIssue.sync_status !== syncStatus) {
+      const item = this.applySnapshot(localIssue, finalLocal);
+      const { content, file_path: _filePath, ...frontmatter } = item;
+      const updatedFrontmatter: IssueFrontmatter = {
+        ...frontmatter,
+        github_id: updatedIssue.id,
+        github_number: updatedIssue.number,
+        github_url: updatedIssue.html_url,
+        github_updated_at: updatedIssue.updated_at,
+        sync_status: syncStatus,
+        updated_date: writeLocal ? new Date().toISOString() : localIssue.updated_date,
+      };
+      writeFileJournaled(
+        localIssue.file_path,
+        this.frontmatterParser.stringify(updatedFrontmatter, content)
+      );
+
+      if (writeLocal) {
+        this.getHistoryLog().recordDiff(
+          localIssue.issue_id,
+          'sync_pull',
+          localIssue,
+          { ...updatedFrontmatter, content },
+          { source: `sync ${direction === 'both' ? 'bidirectional' : direction}` }
+        );
+      }
+    }
+
+    // Fields both sides now agree on move the snapshot forward
+    const nextBase: SyncSnapshot = {};
+    for (const field of SYNC_FIELDS) {
+      if (field in finalLocal && sameSyncValue(finalLocal[field], finalRemote[field])) {
+        Object.assign(nextBase, { [field]: finalLocal[field] });
+      } else if (field in base) {
+        Object.assign(nextBase, { [field]: base[field] });
+      }
+    }
+    this.getSyncBases()[localIssue.issue_id] = nextBase;
+    this.recordConflict(localIssue.issue_id, githubIssue.number, conflicts);
+
+    return operation;
+  }
+
+  /**
+   * Unresolved conflicts recorded by earlier syncs
+   */
+  getConflicts(): SyncConflict[] {
+    return Object.values(this.getSyncConflicts());
+  }
+
+  /**
+   * Resolve an issue's recorded conflicts by taking one side for every field, or a
+   * side per field. A taken remote value is written locally; a taken local value is
+   * pushed by the next sync. Returns the conflict left over, if any fields remain.
+   */
+  async resolveConflict(
+    issueId: string,
+    take: 'local' | 'remote' | Partial<Record<SyncField, 'local' | 'remote'>>
+  ): Promise<SyncConflict | undefined> {
+    const conflict = this.getSyncConflicts()[issueId];
+    if (!conflict) {
+      throw new Error(`No sync conflicts recorded for ${issueId}`);
+    }
+
+    const choices =
+      typeof take === 'string'
+        ? Object.fromEntries(Object.keys(conflict.fields).map((field) => [field, take]))
+        : take;
+    for (const field of Object.keys(choices) as SyncField[]) {
+      if (!conflict.fields[field]) {
+        throw new Error(
+          `${issueId} has no conflict on ${field}. Conflicting fields: ${Object.keys(conflict.fields).join(', ')}`
+        );
+      }
+    }
+
+    const localIssue = (await this.getLocalIssues()).find((issue) => issue.issue_id === issueId);
+    if (!localIssue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    // The remote value becomes the snapshot, so a kept local value reads as a local change
+    const base: SyncSnapshot = { ...this.getSyncBases()[issueId] };
+    const fromRemote: SyncSnapshot = {};
+    let keptLocal = false;
+    for (const [field, side] of Object.entries(choices) as Array<[SyncField, string]>) {
+      const { remote } = conflict.fields[field] as SyncFieldConflict;
+      Object.assign(base, { [field]: remote });
+      if (side === 'remote') {
+        Object.assign(fromRemote, { [field]: remote });
+      } else {
+        keptLocal = true;
+      }
+      delete conflict.fields[field];
+    }
+    this.getSyncBases()[issueId] = base;
+
+    const remaining = Object.keys(conflict.fields).length > 0 ? conflict : undefined;
+    if (!remaining) {
+      delete this.getSyncConflicts()[issueId];
+    }
+
+    const item = this.applySnapshot(localIssue, fromRemote);
+    const { content, file_path: _filePath, ...frontmatter } = item;
+    const updatedFrontmatter: IssueFrontmatter = {
+      ...frontmatter,
+      sync_status: remaining ? 'conflict' : keptLocal ? 'local' : 'synced',
+      updated_date: new Date().toISOString(),
+    };
+    writeFileJournaled(
+      localIssue.file_path,
+      this.frontmatterParser.stringify(updatedFrontmatter, content)
+    );
+    this.getHistoryLog().recordDiff(
+      issueId,
+      'update',
+      localIssue,
+      { ...updatedFrontmatter, content },
+      { source: 'sync resolve' }
+    );
+
+    this.saveSyncState();
+    return remaining;
+  }
+
+  /**
+   * Issue fields in the remote's terms, for the fields this config syncs
+   */
+  private getLocalSnapshot(localIssue: IssueData): SyncSnapshot {
+    const snapshot: SyncSnapshot = {
+      title: localIssue.title,
+      state: this.mapStatusToGitHubState(localIssue.status),
+      body: (localIssue.content || '').trim(),
+    };
+    if (this.syncConfig.sync_labels) {
+      snapshot.labels = [...(localIssue.tags || [])].sort();
+    }
+    if (this.syncConfig.sync_assignees) {
+      snapshot.assignee = localIssue.assignee === 'unassigned' ? '' : localIssue.assignee || '';
+    }
+    if (this.syncConfig.sync_milestones) {
+      snapshot.milestone = localIssue.milestone || '';
+    }
+    return snapshot;
+  }
+
+  private getRemoteSnapshot(githubIssue: GitHubIssue): SyncSnapshot {
+    const snapshot: SyncSnapshot = {
+      title: githubIssue.title,
+      state: githubIssue.state,
+      body: this.extractContentFromGitHubBody(githubIssue.body || ''),
+    };
+    if (this.syncConfig.sync_labels) {
+      snapshot.labels = githubIssue.labels.map((label) => label.name).sort();
+    }
+    if (this.syncConfig.sync_assignees) {
+      snapshot.assignee = githubIssue.assignee?.login || '';
+    }
+    if (this.syncConfig.sync_milestones) {
+      snapshot.milestone = this.getRemoteMilestoneTitle(githubIssue) || '';
+    }
+    return snapshot;
+  }
+
+  /**
+   * Local issue with snapshot fields written over it. The state only changes the
+   * status when it maps to a different remote state, so 'planning' stays 'planning'.
+   */
+  private applySnapshot(localIssue: IssueData, snapshot: SyncSnapshot): IssueData {
+    const item: IssueData = { ...localIssue };
+    if (snapshot.title !== undefined) item.title = snapshot.title;
+    if (snapshot.state && snapshot.state !== this.mapStatusToGitHubState(item.status)) {
+      item.status = this.mapGitHubStateToStatus(snapshot.state);
+    }
+    if (snapshot.body !== undefined) item.content = snapshot.body;
+    if (snapshot.labels !== undefined) item.tags = [...snapshot.labels];
+    if (snapshot.assignee !== undefined && snapshot.assignee !== (item.assignee || '')) {
+      item.assignee = snapshot.assignee || this.config.default_assignee || 'unassigned';
+    }
+    if (snapshot.milestone !== undefined) item.milestone = snapshot.milestone || undefined;
+    return item;
+  }
+
+  /**
+   * Record a snapshot once an issue has been written to match its remote issue
+   */
+  private recordBase(issueId: string, githubIssue: GitHubIssue): void {
+    this.getSyncBases()[issueId] = this.getRemoteSnapshot(githubIssue);
+    delete this.getSyncConflicts()[issueId];
+  }
+
+  private recordConflict(
+    issueId: string,
+    githubNumber: number,
+    fields: Partial<Record<SyncField, SyncFieldConflict>>
+  ): void {
+    if (Object.keys(fields).length === 0) {
+      delete this.getSyncConflicts()[issueId];
+      return;
+    }
+    this.getSyncConflicts()[issueId] = {
+      issue_id: issueId,
+      github_number: githubNumber,
+      detected_at: new Date().toISOString(),
+      fields,
+    };
+  }
+
+  private getSyncBases(): Record<string, SyncSnapshot> {
+    this.syncBases ??= this.readSyncState('sync-base.json');
+    return this.syncBases;
+  }
+
+  private getSyncConflicts(): Record<string, SyncConflict> {
+    this.syncConflicts ??= this.readSyncState('sync-conflicts.json');
+    return this.syncConflicts;
+  }
+
+  /**
+   * Read a sync state file; an unreadable file only loses merge snapshots
+   */
+  private readSyncState<T>(file: string): Record<string, T> {
+    const filePath = path.join(this.configManager.getAbsolutePaths().configDir, file);
+    try {
+      return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Write snapshots and conflicts, if this sync loaded them
+   */
+  private saveSyncState(): void {
+    const configDir = this.configManager.getAbsolutePaths().configDir;
+    if (this.syncBases) {
+      fs.writeFileSync(
+        path.join(configDir, 'sync-base.json'),
+        JSON.stringify(this.syncBases, null, 2),
+        'utf8'
+      );
+    }
+    if (this.syncConflicts) {
+      fs.writeFileSync(
+        path.join(configDir, 'sync-conflicts.json'),
+        JSON.stringify(this.syncConflicts, null, 2),
+        'utf8'
+      );
+    }
+  }
+
   /**
    * Check if there's a conflict between local and GitHub issues
    */
@@ -447,20 +1495,34 @@ export class GitHubSyncEngine {
   }
 
   /**
-   * Create GitHub issue body from local issue
+   * Create GitHub issue (or pull request) body from a local item. Issues list their
+   * tasks when tasks are synced as checklists.
    */
-  private createGitHubIssueBody(localIssue: IssueData): string {
+  private createGitHubIssueBody(localItem: AnyItemData, checklist?: string): string {
+    const ids = localItem as Partial<Record<'epic_id' | 'issue_id' | 'task_id' | 'pr_id', string>>;
     const aiMetadata = {
-      ai_context: localIssue.ai_context,
-      estimated_tokens: localIssue.estimated_tokens,
-      actual_tokens: localIssue.actual_tokens,
-      epic_id: localIssue.epic_id,
-      issue_id: localIssue.issue_id,
-      local_created_date: localIssue.created_date,
-      local_updated_date: localIssue.updated_date,
+      ai_context: localItem.ai_context,
+      estimated_tokens: localItem.estimated_tokens,
+      actual_tokens: localItem.actual_tokens,
+      epic_id: ids.epic_id,
+      issue_id: ids.issue_id,
+      task_id: ids.task_id,
+      pr_id: ids.pr_id,
+      local_created_date: localItem.created_date,
+      local_updated_date: localItem.updated_date,
     };
 
-    return `${localIssue.content}
+    if (checklist === undefined && ids.issue_id && !ids.task_id && !ids.pr_id) {
+      checklist = this.createChecklist(
+        'Tasks',
+        (this.taskChecklists.get(ids.issue_id) || []).map((task) => ({
+          done: this.mapStatusToGitHubState(task.status) === 'closed',
+          label: `${task.title} (${task.task_id})`,
+        }))
+      );
+    }
+
+    return `${localItem.content}${checklist ? `\n\n${checklist}` : ''}
 
 <!-- AI-Trackdown Metadata -->
 \`\`\`json
@@ -513,13 +1575,15 @@ ${JSON.stringify(aiMetadata, null, 2)}
       updatedFrontmatter.github_assignee = githubIssue.assignee.login;
     }
 
-    if (this.syncConfig.sync_milestones && githubIssue.milestone) {
-      updatedFrontmatter.github_milestone = githubIssue.milestone.title;
+    const milestoneTitle = this.getRemoteMilestoneTitle(githubIssue);
+    if (this.syncConfig.sync_milestones && milestoneTitle) {
+      updatedFrontmatter.github_milestone = milestoneTitle;
     }
 
     // Write updated issue back to file
     const updatedContent = this.frontmatterParser.stringify(updatedFrontmatter, localIssue.content);
-    fs.writeFileSync(localIssue.file_path, updatedContent, 'utf8');
+    writeFileJournaled(localIssue.file_path, updatedContent);
+    this.recordBase(localIssue.issue_id, githubIssue);
   }
 
   /**
@@ -551,9 +1615,10 @@ ${JSON.stringify(aiMetadata, null, 2)}
       updatedFrontmatter.github_assignee = githubIssue.assignee.login;
     }
 
-    if (this.syncConfig.sync_milestones && githubIssue.milestone) {
-      updatedFrontmatter.milestone = githubIssue.milestone.title;
-      updatedFrontmatter.github_milestone = githubIssue.milestone.title;
+    const milestoneTitle = this.getRemoteMilestoneTitle(githubIssue);
+    if (this.syncConfig.sync_milestones && milestoneTitle) {
+      updatedFrontmatter.milestone = milestoneTitle;
+      updatedFrontmatter.github_milestone = milestoneTitle;
     }
 
     // Extract original content from GitHub body (remove AI metadata)
@@ -561,7 +1626,16 @@ ${JSON.stringify(aiMetadata, null, 2)}
 
     // Write updated issue back to file
     const updatedContent = this.frontmatterParser.stringify(updatedFrontmatter, content);
-    fs.writeFileSync(localIssue.file_path, updatedContent, 'utf8');
+    writeFileJournaled(localIssue.file_path, updatedContent);
+    this.recordBase(localIssue.issue_id, githubIssue);
+
+    this.getHistoryLog().recordDiff(
+      localIssue.issue_id,
+      'sync_pull',
+      localIssue,
+      { ...updatedFrontmatter, content },
+      { source: 'sync pull' }
+    );
   }
 
   /**
@@ -578,7 +1652,8 @@ ${JSON.stringify(aiMetadata, null, 2)}
 
     const newIssue: IssueFrontmatter = {
       issue_id: issueId,
-      epic_id: '', // Will need to be assigned manually
+      // Will need to be assigned manually, unless the issue is in an epic's milestone
+      epic_id: this.getMilestoneEpic(githubIssue) || '',
       title: githubIssue.title,
       description: githubIssue.body,
       status: this.mapGitHubStateToStatus(githubIssue.state),
@@ -599,7 +1674,9 @@ ${JSON.stringify(aiMetadata, null, 2)}
       github_labels: githubIssue.labels.map((label) => label.name),
       github_assignee: githubIssue.assignee?.login,
       github_milestone: githubIssue.milestone?.title,
-      milestone: this.syncConfig.sync_milestones ? githubIssue.milestone?.title : undefined,
+      milestone: this.syncConfig.sync_milestones
+        ? this.getRemoteMilestoneTitle(githubIssue)
+        : undefined,
     };
 
     // Extract content from GitHub body
@@ -607,7 +1684,16 @@ ${JSON.stringify(aiMetadata, null, 2)}
 
     // Create the issue file
     const issueContent = this.frontmatterParser.stringify(newIssue, content);
-    fs.writeFileSync(filePath, issueContent, 'utf8');
+    writeFileJournaled(filePath, issueContent);
+    this.recordBase(issueId, githubIssue);
+
+    this.getHistoryLog().recordDiff(
+      issueId,
+      'create',
+      null,
+      { ...newIssue, content },
+      { source: 'sync pull' }
+    );
 
     return {
       ...newIssue,
@@ -620,9 +1706,11 @@ ${JSON.stringify(aiMetadata, null, 2)}
    * Extract content from GitHub issue body, removing AI metadata
    */
   private extractContentFromGitHubBody(body: string): string {
-    // Remove AI metadata section
+    // Remove AI metadata section and any synced checklist
     const metadataRegex = /<!-- AI-Trackdown Metadata -->\s*```json[\s\S]*?```/;
-    return body.replace(metadataRegex, '').trim();
+    const checklistRegex =
+      /<!-- AI-Trackdown Checklist -->[\s\S]*?<!-- \/AI-Trackdown Checklist -->/;
+    return body.replace(metadataRegex, '').replace(checklistRegex, '').trim();
   }
 
   /**
@@ -649,6 +1737,7 @@ ${JSON.stringify(aiMetadata, null, 2)}
     };
 
     fs.writeFileSync(syncMetaFile, JSON.stringify(syncMeta, null, 2), 'utf8');
+    this.saveSyncState();
   }
 
   /**
@@ -659,6 +1748,13 @@ ${JSON.stringify(aiMetadata, null, 2)}
     return path.join(paths.configDir, 'sync-metadata.json');
   }
 
+  /**
+   * Get the audit history log for pulled changes
+   */
+  private getHistoryLog(): HistoryLog {
+    return new HistoryLog(this.configManager.getAbsolutePaths().tasksRoot);
+  }
+
   /**
    * Update result counters
    */
@@ -675,3 +1771,10 @@ ${JSON.stringify(aiMetadata, null, 2)}
     }
   }
 }
+
+/**
+ * Compare snapshot values, treating a missing value as empty
+ */
+function sameSyncValue(a: SyncSnapshot[SyncField], b: SyncSnapshot[SyncField]): boolean {
+  return JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+}
@@ -0,0 +1,105 @@
+/**
+ * Sync Provider
+ * Interface implemented by each remote issue tracker, and the factory that picks one from config
+ */
+
+import type {
+  GitHubIssue,
+  GitHubMilestone,
+  GitHubSyncConfig,
+  RateLimitInfo,
+  RemoteComment,
+  RemotePullRequest,
+  SyncProviderName,
+} from '../types/ai-trackdown.js';
+import type { CommentReactions, ReactionType } from '../types/comment.js';
+import { GitHubClient } from '../utils/github-client.js';
+import { GitLabClient } from '../utils/gitlab-client.js';
+
+export interface RemoteIssueQuery {
+  state?: 'open' | 'closed' | 'all';
+  sort?: 'created' | 'updated' | 'comments';
+  direction?: 'asc' | 'desc';
+  since?: string;
+}
+
+export interface RemoteIssueInput {
+  title: string;
+  body: string;
+  assignee?: string;
+  milestone?: number;
+  labels?: string[];
+}
+
+export interface RemoteIssueUpdate extends Partial<RemoteIssueInput> {
+  state?: 'open' | 'closed';
+}
+
+export interface RemoteMilestoneInput {
+  title?: string;
+  description?: string;
+  state?: 'open' | 'closed';
+  due_on?: string;
+}
+
+export interface RemotePullRequestInput {
+  title: string;
+  body: string;
+  head: string;
+  base?: string; // Default: the repository's default branch
+  draft?: boolean;
+}
+
+export interface RemotePullRequestUpdate {
+  title?: string;
+  body?: string;
+  state?: 'open' | 'closed';
+}
+
+/**
+ * A remote issue tracker. Issues and milestones are identified by the number the
+ * provider shows to users, and are returned in the GitHub shapes.
+ */
+export interface SyncProvider {
+  readonly name: SyncProviderName;
+  testConnection(): Promise<{ success: boolean; message: string }>;
+  getAllIssues(options?: RemoteIssueQuery): Promise<GitHubIssue[]>;
+  getIssue(issueNumber: number): Promise<GitHubIssue | null>;
+  createIssue(data: RemoteIssueInput): Promise<GitHubIssue>;
+  updateIssue(issueNumber: number, data: RemoteIssueUpdate): Promise<GitHubIssue>;
+  getLabels(): Promise<Array<{ name: string; color: string; description?: string }>>;
+  getMilestones(): Promise<GitHubMilestone[]>;
+  createMilestone(data: RemoteMilestoneInput & { title: string }): Promise<GitHubMilestone>;
+  updateMilestone(milestoneNumber: number, data: RemoteMilestoneInput): Promise<GitHubMilestone>;
+  getComments(issueNumber: number): Promise<RemoteComment[]>;
+  createComment(issueNumber: number, body: string): Promise<RemoteComment>;
+  updateComment(issueNumber: number, commentId: number, body: string): Promise<RemoteComment>;
+  deleteComment(issueNumber: number, commentId: number): Promise<void>;
+  // Users who reacted to a comment, by GitHub reaction name
+  getCommentReactions(issueNumber: number, commentId: number): Promise<CommentReactions>;
+  // React as the token's user
+  addCommentReaction(issueNumber: number, commentId: number, reaction: ReactionType): Promise<void>;
+  // Attach an issue to a parent issue (GitLab links the two issues instead)
+  addSubIssue(parentNumber: number, child: GitHubIssue): Promise<void>;
+  // Pull requests (GitLab merge requests), open, closed and merged
+  getPullRequests(): Promise<RemotePullRequest[]>;
+  createPullRequest(data: RemotePullRequestInput): Promise<RemotePullRequest>;
+  updatePullRequest(pullNumber: number, data: RemotePullRequestUpdate): Promise<RemotePullRequest>;
+  // Null when the provider does not report a rate limit
+  getRateLimit(): Promise<RateLimitInfo | null>;
+}
+
+/**
+ * Create the provider selected by the sync configuration (GitHub unless set)
+ */
+export function createSyncProvider(config: GitHubSyncConfig): SyncProvider {
+  const provider = config.provider || 'github';
+  switch (provider) {
+    case 'github':
+      return new GitHubClient(config);
+    case 'gitlab':
+      return new GitLabClient(config);
+    default:
+      throw new Error(`Unknown sync provider: ${provider}. Expected github or gitlab`);
+  }
+}
@@ -3,6 +3,8 @@
  * Hierarchical project management with YAML frontmatter support
  */
 
+import { WorkflowEngine } from '../utils/workflow-engine.js';
+
 // Core status and priority enums
 export type ItemStatus = 'planning' | 'active' | 'completed' | 'archived';
 export type Priority = 'low' | 'medium' | 'high' | 'critical';
@@ -30,16 +32,49 @@ export interface StateMetadata {
   reviewer?: string;
 }
 
-// GitHub sync configuration
+// Issue trackers that sync can talk to
+export type SyncProviderName = 'github' | 'gitlab';
+
+export const SYNC_PROVIDER_LABELS: Record<SyncProviderName, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+};
+
+// How each item type is represented remotely ('none' keeps the type local)
+export type EpicSyncMapping = 'none' | 'milestone' | 'tracking_issue';
+export type TaskSyncMapping = 'none' | 'sub_issue' | 'checklist';
+export type PRSyncMapping = 'none' | 'pull_request';
+
+export const EPIC_SYNC_MAPPINGS: EpicSyncMapping[] = ['none', 'milestone', 'tracking_issue'];
+export const TASK_SYNC_MAPPINGS: TaskSyncMapping[] = ['none', 'sub_issue', 'checklist'];
+export const PR_SYNC_MAPPINGS: PRSyncMapping[] = ['none', 'pull_request'];
+
+export type ConflictResolution = 'merge' | 'most_recent' | 'local_wins' | 'remote_wins';
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = [
+  'merge',
+  'most_recent',
+  'local_wins',
+  'remote_wins',
+];
+
+// Sync configuration (stored under github_sync; the provider picks the tracker)
 export interface GitHubSyncConfig {
   enabled: boolean;
-  repository: string; // Format: "owner/repo"
-  token: string; // GitHub personal access token
+  provider?: SyncProviderName; // Default: github
+  repository: string; // Format: "owner/repo" (GitLab: "group/project", subgroups allowed)
+  token: string; // Personal access token for the provider
+  api_url?: string; // Base URL for self-hosted instances, e.g. https://gitlab.example.com
   auto_sync: boolean;
-  conflict_resolution: 'most_recent' | 'local_wins' | 'remote_wins';
+  // How fields changed on both sides since the last sync are resolved ('merge' records them)
+  conflict_resolution: ConflictResolution;
   sync_labels: boolean;
   sync_milestones: boolean;
   sync_assignees: boolean;
+  sync_epics?: EpicSyncMapping; // Default: none
+  sync_tasks?: TaskSyncMapping; // Default: none
+  sync_prs?: PRSyncMapping; // Default: none
+  sync_comments?: boolean; // Sync comments on synced issues (default: false)
   rate_limit_delay: number; // Delay in milliseconds between API calls
   batch_size: number; // Number of items to process in each batch
 }
@@ -56,13 +91,14 @@ export interface BaseFrontmatter {
   state_metadata?: StateMetadata;
   priority: Priority;
   assignee: string;
+  created_by?: string; // Who created the item; matched by `author:` in queries
   created_date: string;
   updated_date: string;
   estimated_tokens: number;
   actual_tokens: number;
   ai_context: string[];
   sync_status: SyncStatus;
-  // GitHub sync metadata
+  // Sync metadata (github_* names are kept for every provider)
   github_id?: number; // GitHub issue ID
   github_number?: number; // GitHub issue number
   github_url?: string; // GitHub issue URL
@@ -70,6 +106,25 @@ export interface BaseFrontmatter {
   github_labels?: string[]; // GitHub labels
   github_milestone?: string; // GitHub milestone
   github_assignee?: string; // GitHub assignee
+  // Import: namespaced ID of the record the item was imported from, e.g. "jira:PROJ-12"
+  source_id?: string;
+  // Recurrence: an item with a rule is a series that `recur run` creates instances of
+  recurrence?: string; // e.g. "weekly on monday"
+  recurrence_template?: string; // Template used for instances (default: "default")
+  recurrence_series?: string; // On instances: series item ID, or template:<type>-<name>
+  recurrence_date?: string; // On instances: occurrence date (YYYY-MM-DD)
+  // Deadlines: an item is overdue past its due date or once its SLA has run out
+  due_date?: string; // YYYY-MM-DD
+  sla_hours?: number; // Hours from created_date
+  // Git commits whose message mentions the item's ID, recorded by `commits scan`
+  commits?: LinkedCommit[];
+}
+
+export interface LinkedCommit {
+  sha: string;
+  author: string;
+  date: string; // Commit date (ISO 8601)
+  message: string; // Subject line
 }
 
 // Project frontmatter - Top-level container for multi-project management
@@ -102,9 +157,14 @@ export interface EpicFrontmatter extends BaseFrontmatter {
   project_id?: string; // Optional for backward compatibility in single-project mode
   related_issues: string[];
   milestone?: string;
+  start_date?: string; // YYYY-MM-DD; planned start on the roadmap
   tags?: string[];
   dependencies?: string[];
   completion_percentage?: number;
+  time_estimate?: string;
+  time_spent?: string;
+  time_logged?: string; // Rolled up from time entries on the epic and its issues
+  github_milestone_number?: number; // Set when the epic is synced as a milestone
 }
 
 // Issue frontmatter - Mid-level work units within epics
@@ -116,11 +176,15 @@ export interface IssueFrontmatter extends BaseFrontmatter {
   related_prs?: string[];
   related_issues?: string[];
   milestone?: string;
+  start_date?: string; // YYYY-MM-DD; planned start on the roadmap
   tags?: string[];
   dependencies?: string[];
   completion_percentage?: number;
   blocked_by?: string[];
   blocks?: string[];
+  time_estimate?: string;
+  time_spent?: string;
+  time_logged?: string; // Rolled up from time entries on the issue and its tasks
 }
 
 // Task frontmatter - Granular work items within issues
@@ -135,6 +199,7 @@ export interface TaskFrontmatter extends BaseFrontmatter {
   dependencies?: string[];
   time_estimate?: string;
   time_spent?: string;
+  time_logged?: string; // Rolled up from time entries on the task and its subtasks
   blocked_by?: string[];
   blocks?: string[];
   completion_percentage?: number;
@@ -159,6 +224,7 @@ export interface PRFrontmatter extends BaseFrontmatter {
   reviewers?: string[];
   approvals?: string[];
   merge_commit?: string;
+  milestone?: string;
   tags?: string[];
   dependencies?: string[];
   blocked_by?: string[];
@@ -249,6 +315,8 @@ export interface ProjectConfig {
     templates_dir: string;
     // NEW: PR directory for pull request tracking
     prs_dir?: string;
+    sprints_dir?: string; // Default: "sprints"
+    milestones_dir?: string; // Default: "milestones"
   };
   naming_conventions: {
     project_prefix?: string; // NEW: Project prefix
@@ -256,9 +324,13 @@ export interface ProjectConfig {
     issue_prefix: string;
     task_prefix: string;
     pr_prefix?: string; // NEW: PR prefix
+    sprint_prefix?: string; // Default: "SPRINT"
+    milestone_prefix?: string; // Default: "MS"
     file_extension: string;
   };
   default_assignee?: string;
+  // Who `@me` refers to in queries and views (default: $USER)
+  user?: string;
   ai_context_templates?: string[];
   automation?: {
     auto_update_timestamps: boolean;
@@ -267,6 +339,25 @@ export interface ProjectConfig {
   };
   // GitHub sync configuration
   github_sync?: GitHubSyncConfig;
+  // Workflow configuration (states and transitions per item type)
+  workflows?: WorkflowsConfig;
+  // Roles held by each user, checked against required_role on transitions
+  roles?: Record<string, string[]>;
+  // Scripts and actions run when items change state
+  hooks?: TransitionHookConfig[];
+  // Derive parent completion and state from children
+  rollup?: RollupConfig;
+  // Saved search queries run with `view run <name>`
+  views?: Record<string, SavedView>;
+  // Working hours per day used to schedule the roadmap
+  roadmap?: RoadmapConfig;
+  // State changes triggered by commits that fix an item
+  commit_links?: CommitLinksConfig;
+}
+
+export interface SavedView {
+  query: string;
+  created_date: string;
 }
 
 // Search and filter types
@@ -282,10 +373,16 @@ export interface SearchFilters {
   updated_after?: string;
   updated_before?: string;
   content_search?: string;
+  // Full-text query against the search index; matches come back best first
+  text?: string;
   ai_context_search?: string;
   // NEW: Filter by state transition metadata
   transitioned_by?: string | string[];
   automation_eligible?: boolean;
+  // Filter by deadline (due date or SLA)
+  due_before?: string;
+  due_after?: string;
+  overdue?: boolean;
 }
 
 export interface SearchResult<T> {
@@ -339,6 +436,161 @@ export interface TimelineEntry {
   };
 }
 
+// Time tracking types
+export type TimeEntrySource = 'timer' | 'manual';
+
+export interface TimeEntry {
+  id: string;
+  item_id: string;
+  user: string;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  source: TimeEntrySource;
+  note?: string;
+  logged_at: string;
+}
+
+export interface ActiveTimer {
+  item_id: string;
+  user: string;
+  started_at: string;
+  note?: string;
+}
+
+export interface TimeRollUp {
+  item_id: string;
+  logged_minutes: number; // Entries on the item itself plus all descendants
+  own_minutes: number; // Entries logged directly against the item
+  estimated_minutes: number;
+  entry_count: number;
+}
+
+export interface TimesheetRow {
+  assignee: string; // Assignee of the item, not the user who logged the time
+  week_start: string; // ISO date (YYYY-MM-DD) of the Monday starting the week
+  item_id: string;
+  minutes: number;
+  entries: number;
+}
+
+// Sprint types
+export type SprintStatus = 'planning' | 'active' | 'closed';
+export type SprintCapacityUnit = 'hours' | 'tokens' | 'items';
+
+export interface SprintFrontmatter {
+  sprint_id: string;
+  title: string;
+  goal?: string;
+  sprint_status: SprintStatus;
+  start_date: string; // ISO date (YYYY-MM-DD)
+  end_date: string; // ISO date (YYYY-MM-DD), inclusive
+  capacity: number;
+  capacity_unit: SprintCapacityUnit;
+  items: string[]; // Issue, task and PR IDs committed to the sprint
+  created_date: string;
+  updated_date: string;
+  closed_date?: string;
+  completed_items?: string[]; // Snapshot taken when the sprint is closed
+  unfinished_items?: string[]; // Snapshot taken when the sprint is closed
+  rolled_over_from?: string;
+  rolled_over_to?: string;
+}
+
+export interface SprintData extends SprintFrontmatter {
+  content: string;
+  file_path: string;
+}
+
+export interface BurndownPoint {
+  date: string; // ISO date (YYYY-MM-DD)
+  remaining: number;
+  ideal: number;
+}
+
+// Milestone types
+export type MilestoneState = 'open' | 'closed';
+
+export interface MilestoneFrontmatter {
+  milestone_id: string;
+  title: string; // Items link to a milestone by title or ID in their `milestone` field
+  description?: string;
+  due_date?: string; // ISO date (YYYY-MM-DD)
+  milestone_state: MilestoneState;
+  created_date: string;
+  updated_date: string;
+  closed_date?: string;
+  // GitHub sync metadata
+  github_number?: number;
+  github_url?: string;
+  github_updated_at?: string;
+}
+
+export interface MilestoneData extends MilestoneFrontmatter {
+  content: string;
+  file_path: string;
+}
+
+export interface MilestoneProgress {
+  total: number; // Linked items, not counting won't-do
+  finished: number;
+  percentage: number;
+  items: Array<{
+    id: string;
+    type: ItemType;
+    title: string;
+    state: string;
+    finished: boolean;
+  }>;
+}
+
+// Audit history types
+export type HistoryAction =
+  | 'create'
+  | 'update'
+  | 'state_change'
+  | 'resolve'
+  | 'review'
+  | 'comment'
+  | 'sync_pull';
+
+export interface FieldChange {
+  field: string;
+  old_value?: unknown; // Absent when the field was added
+  new_value?: unknown; // Absent when the field was removed
+}
+
+export interface HistoryEvent {
+  id: string;
+  item_id: string;
+  timestamp: string;
+  author: string;
+  action: HistoryAction;
+  source: string; // Command or integration that made the change, e.g. "issue update"
+  changes: FieldChange[];
+  reason?: string;
+}
+
+// Undo/redo journal types
+export interface JournalFileChange {
+  path: string; // Relative to the project root
+  before: string | null; // null when the file did not exist
+  after: string | null; // null when the file was deleted
+}
+
+export interface JournalTransaction {
+  id: string;
+  command: string;
+  user: string;
+  timestamp: string;
+  item_ids: string[];
+  status: 'pending' | 'committed';
+  files: JournalFileChange[];
+  // Content of each file before the command first wrote it (null when it did not exist),
+  // kept only until the command commits
+  snapshot?: Record<string, string | null>;
+}
+
 // Validation types
 export interface ValidationError {
   field: string;
@@ -375,6 +627,8 @@ export interface ItemTemplate {
   frontmatter_template: Partial<BaseFrontmatter>;
   content_template: string;
   ai_context_defaults?: string[];
+  recurrence?: string; // Makes the template a series that `recur run` creates instances of
+  recurrence_start?: string; // First date the series can occur on (YYYY-MM-DD)
 }
 
 // Export union types for type safety
@@ -438,6 +692,16 @@ export function getItemId(item: AnyItemData): string {
   throw new Error('Unknown item type');
 }
 
+// Utility function to get the type of any item
+export function getItemType(item: AnyItemData): ItemType {
+  if (isProjectData(item)) return 'project';
+  if (isEpicData(item)) return 'epic';
+  if (isIssueData(item)) return 'issue';
+  if (isTaskData(item)) return 'task';
+  if (isPRData(item)) return 'pr';
+  throw new Error('Unknown item type');
+}
+
 // Utility type for ID generation
 export interface IdGenerator {
   generateProjectId(title: string): string;
@@ -470,7 +734,7 @@ export interface PaginatedResponse<T> {
   timestamp: string;
 }
 
-// GitHub sync types
+// Sync types; other providers map their issues and milestones to the GitHub shapes
 export interface GitHubIssue {
   id: number;
   number: number;
@@ -494,6 +758,84 @@ export interface GitHubIssue {
   html_url: string;
 }
 
+export interface GitHubMilestone {
+  number: number;
+  title: string;
+  description?: string;
+  state: 'open' | 'closed';
+  due_on?: string;
+  updated_at: string;
+  html_url: string;
+}
+
+export interface RemoteComment {
+  id: number;
+  body: string;
+  author: string;
+  created_at: string;
+  updated_at: string;
+  html_url?: string;
+  reactions?: number; // Total reactions, when the provider lists them with the comment
+}
+
+export interface RemotePullRequest {
+  id: number;
+  number: number;
+  title: string;
+  body: string;
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  head: string; // Source branch
+  base: string; // Target branch
+  merge_commit?: string;
+  created_at: string;
+  updated_at: string;
+  html_url: string;
+}
+
+// Issue fields as compared by three-way sync merges, in the remote's terms
+export interface SyncSnapshot {
+  title?: string;
+  state?: 'open' | 'closed';
+  body?: string;
+  labels?: string[];
+  assignee?: string; // '' when unassigned
+  milestone?: string; // '' when none
+}
+
+export type SyncField = keyof SyncSnapshot;
+
+export const SYNC_FIELDS: SyncField[] = [
+  'title',
+  'state',
+  'body',
+  'labels',
+  'assignee',
+  'milestone',
+];
+
+// A field changed differently on both sides since the last sync
+export interface SyncFieldConflict {
+  base?: SyncSnapshot[SyncField]; // Missing when the issue has no snapshot yet
+  local: SyncSnapshot[SyncField];
+  remote: SyncSnapshot[SyncField];
+}
+
+// Unresolved conflicts on one issue, kept until 'sync resolve'
+export interface SyncConflict {
+  issue_id: string;
+  github_number: number;
+  detected_at: string;
+  fields: Partial<Record<SyncField, SyncFieldConflict>>;
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: Date;
+  used: number;
+}
+
 export interface SyncOperation {
   type: 'push' | 'pull' | 'conflict';
   local_issue: IssueData;
@@ -511,6 +853,14 @@ export interface SyncResult {
   pulled_count: number;
   skipped_count: number;
   conflict_count: number;
+  // Milestones created or updated on either side when sync_milestones is on
+  milestones_synced?: number;
+  // Items created or updated for each type whose sync mapping is not 'none'
+  epics_synced?: number;
+  tasks_synced?: number;
+  prs_synced?: number;
+  // Comments created, edited or deleted on either side when sync_comments is on
+  comments_synced?: number;
 }
 
 export interface SyncStatusInfo {
@@ -541,6 +891,70 @@ export interface StateValidationResult {
   allowed_transitions: UnifiedState[];
 }
 
+// Workflow configuration types
+export interface WorkflowTransitionConfig {
+  from: string | string[]; // '*' allows the transition from any state
+  to: string;
+  required_role?: string;
+  automation_eligible?: boolean; // Default: false
+}
+
+export interface WorkflowConfig {
+  states?: string[];
+  transitions?: WorkflowTransitionConfig[];
+  required_fields?: Record<string, string[]>; // Fields an item must have on entering a state
+}
+
+// Keyed by item type; unset fields fall back to the default workflow
+export interface WorkflowsConfig {
+  default?: WorkflowConfig;
+  project?: WorkflowConfig;
+  epic?: WorkflowConfig;
+  issue?: WorkflowConfig;
+  task?: WorkflowConfig;
+  pr?: WorkflowConfig;
+  pr_status?: WorkflowConfig; // Transitions between PR statuses (draft, open, review, ...)
+}
+
+export type WorkflowType = keyof WorkflowsConfig;
+
+// Transition hook types
+export type TransitionHookAction = 'assign' | 'add_tag' | 'comment' | 'cascade';
+
+export interface TransitionHookConfig {
+  on: string | string[]; // Target state(s) that trigger the hook
+  from?: string | string[]; // Only when leaving these states
+  types?: ItemType[]; // Only for these item types
+  // Shell command run before the transition is saved, with the item's frontmatter as JSON on stdin
+  run?: string;
+  veto?: boolean; // A non-zero exit blocks the transition (default: true)
+  timeout?: number; // Milliseconds (default: 30000)
+  // Built-in action run after the transition is saved
+  action?: TransitionHookAction;
+  assignee?: string; // assign
+  tag?: string; // add_tag
+  body?: string; // comment; supports {{id}}, {{title}}, {{from}}, {{to}} and {{user}}
+  state?: string; // cascade target state (default: the hook's target state)
+}
+
+// Parent roll-up types
+export interface RollupConfig {
+  enabled: boolean;
+  apply_states?: boolean; // Move parents to the derived state (default: only suggest it)
+  issue_tasks_done_state?: string; // Issue state once all its tasks are done (default: ready_for_qa)
+  epic_started_state?: string; // Epic state once its first issue starts (default: active)
+}
+
+export interface CommitLinksConfig {
+  transition_state?: string; // State for items a commit fixes, e.g. ready_for_qa (default: no transition)
+  keywords?: string[]; // Words before an ID that trigger it (default: fix, close, resolve and their forms)
+}
+
+export interface RoadmapConfig {
+  hours_per_day?: number; // Hours an assignee works per day (default: 6)
+  capacity?: Record<string, number>; // Hours per day for specific assignees
+}
+
 // Migration types for converting legacy status to unified state
 export interface MigrationMapping {
   legacy_status: ItemStatus;
@@ -597,33 +1011,8 @@ export type MigrationCompatibleItem = LegacyItem | ModernItem | StateOnlyItem;
 export { StateTransition } from '../utils/state-migration.js';
 
 export class StateManager {
-  private static readonly STATE_TRANSITIONS: StateValidationRule[] = [
-    // Engineering workflow
-    { from_state: 'planning', to_state: 'ready_for_engineering', automation_eligible: true },
-    { from_state: 'active', to_state: 'ready_for_engineering', automation_eligible: true },
-    { from_state: 'ready_for_engineering', to_state: 'active', automation_eligible: false },
-    { from_state: 'ready_for_engineering', to_state: 'ready_for_qa', automation_eligible: true },
-    
-    // QA workflow
-    { from_state: 'ready_for_qa', to_state: 'active', automation_eligible: false },
-    { from_state: 'ready_for_qa', to_state: 'ready_for_deployment', automation_eligible: true },
-    { from_state: 'ready_for_qa', to_state: 'ready_for_engineering', automation_eligible: false },
-    
-    // Deployment workflow
-    { from_state: 'ready_for_deployment', to_state: 'done', automation_eligible: true },
-    { from_state: 'ready_for_deployment', to_state: 'ready_for_qa', automation_eligible: false },
-    
-    // Terminal states
-    { from_state: 'done', to_state: 'archived', automation_eligible: true },
-    { from_state: 'won_t_do', to_state: 'archived', automation_eligible: true },
-    
-    // Universal transitions
-    { from_state: 'planning', to_state: 'won_t_do', automation_eligible: false },
-    { from_state: 'active', to_state: 'won_t_do', automation_eligible: false },
-    { from_state: 'ready_for_engineering', to_state: 'won_t_do', automation_eligible: false },
-    { from_state: 'ready_for_qa', to_state: 'won_t_do', automation_eligible: false },
-    { from_state: 'ready_for_deployment', to_state: 'won_t_do', automation_eligible: false },
-  ];
+  // Built-in workflow until a project configuration is applied
+  private static workflowEngine = new WorkflowEngine();
 
   private static readonly LEGACY_MIGRATION_MAP: MigrationMapping[] = [
     { 
@@ -652,51 +1041,37 @@ export class StateManager {
     },
   ];
 
+  /**
+   * Applies the workflows and roles declared in a project configuration
+   */
+  static configureWorkflows(config: Pick<ProjectConfig, 'workflows' | 'roles'>): void {
+    this.workflowEngine = new WorkflowEngine(config);
+  }
+
+  /**
+   * Gets the engine for the active workflow configuration
+   */
+  static getWorkflowEngine(): WorkflowEngine {
+    return this.workflowEngine;
+  }
+
   /**
    * Validates if a state transition is allowed
    */
   static validateTransition(
     from_state: UnifiedState, 
     to_state: UnifiedState, 
-    user_role?: string
+    user_role?: string | string[],
+    item_type?: ItemType
   ): StateValidationResult {
-    const rule = this.STATE_TRANSITIONS.find(
-      r => r.from_state === from_state && r.to_state === to_state
-    );
-
-    if (!rule) {
-      return {
-        valid: false,
-        errors: [`Invalid transition from ${from_state} to ${to_state}`],
-        warnings: [],
-        allowed_transitions: this.getAllowedTransitions(from_state)
-      };
-    }
-
-    if (rule.required_role && user_role !== rule.required_role) {
-      return {
-        valid: false,
-        errors: [`Transition requires role: ${rule.required_role}`],
-        warnings: [],
-        allowed_transitions: this.getAllowedTransitions(from_state)
-      };
-    }
-
-    return {
-      valid: true,
-      errors: [],
-      warnings: rule.automation_eligible ? [] : ['Manual transition - automation not recommended'],
-      allowed_transitions: this.getAllowedTransitions(from_state)
-    };
+    return this.workflowEngine.validateTransition(from_state, to_state, item_type, user_role);
   }
 
   /**
    * Gets all allowed transitions from a given state
    */
-  static getAllowedTransitions(from_state: UnifiedState): UnifiedState[] {
-    return this.STATE_TRANSITIONS
-      .filter(rule => rule.from_state === from_state)
-      .map(rule => rule.to_state);
+  static getAllowedTransitions(from_state: UnifiedState, item_type?: ItemType): UnifiedState[] {
+    return this.workflowEngine.getAllowedTransitions(from_state, item_type);
   }
 
   /**
@@ -24,6 +24,11 @@ export interface CommentMetadata {
   editorUsed?: 'cli' | 'editor' | 'api'; // How the comment was created/edited
   attachments?: string[];  // File paths or URLs
   reactions?: CommentReactions;
+  // Sync: the linked remote comment, and when the two last matched
+  remoteId?: number;
+  remoteUrl?: string;
+  remoteUpdatedAt?: string; // Remote updated_at at the last sync
+  syncedAt?: string;       // ISO 8601 date (local edits after this are pushed)
 }
 
 /**
@@ -12,6 +12,7 @@ export interface ParsedSearchQuery {
     public?: boolean;
     private?: boolean;
     fork?: boolean;
+    overdue?: boolean; // Past its due date or SLA and not finished
   };
   state?: 'open' | 'closed';
   type?: 'issue' | 'pr';
@@ -86,6 +87,7 @@ export interface AdvancedFilters {
   state?: 'open' | 'closed' | 'all';
   draft?: boolean;
   locked?: boolean;
+  overdue?: boolean;
 
   // User filters
   author?: string;
@@ -186,73 +188,74 @@ export interface SortOptions {
   comments: Array<'created' | 'updated'>;
 }
 
-// Filter presets for common queries
+// Built-in views: queries run with `view run <name>` against every item type.
+// `@me` resolves to the configured user.
 export interface FilterPreset {
   name: string;
   description: string;
-  filters: AdvancedFilters;
+  query: string;
   icon?: string;
 }
 
 export const DEFAULT_FILTER_PRESETS: FilterPreset[] = [
   {
     name: 'my-issues',
-    description: 'Issues assigned to me',
-    filters: { assignee: '@me', state: 'open' },
+    description: 'Open items assigned to me',
+    query: 'is:open assignee:@me',
     icon: '👤',
   },
   {
     name: 'my-created',
-    description: 'Issues I created',
-    filters: { author: '@me', state: 'open' },
+    description: 'Open items I created',
+    query: 'is:open author:@me',
     icon: '✏️',
   },
   {
     name: 'mentioned',
-    description: 'Issues that mention me',
-    filters: { mentions: '@me', state: 'open' },
+    description: 'Open items that mention me',
+    query: 'is:open mentions:@me',
     icon: '📢',
   },
   {
     name: 'bugs',
     description: 'Open bug reports',
-    filters: { labels: 'bug', state: 'open' },
+    query: 'is:open label:bug',
     icon: '🐛',
   },
   {
     name: 'enhancements',
     description: 'Enhancement requests',
-    filters: { labels: 'enhancement', state: 'open' },
+    query: 'is:open label:enhancement',
     icon: '✨',
   },
   {
     name: 'help-wanted',
-    description: 'Issues looking for help',
-    filters: { labels: 'help wanted', state: 'open' },
+    description: 'Items looking for help',
+    query: 'is:open label:"help wanted"',
     icon: '🆘',
   },
   {
     name: 'good-first-issue',
     description: 'Good for new contributors',
-    filters: { labels: 'good first issue', state: 'open' },
+    query: 'is:open label:"good first issue"',
     icon: '🌱',
   },
   {
     name: 'high-priority',
-    description: 'High priority issues',
-    filters: { labels: ['priority:high', 'urgent'], labelOperator: 'or', state: 'open' },
+    description: 'High priority items',
+    query: 'is:open label:priority:high label:urgent',
     icon: '🔥',
   },
   {
     name: 'no-assignee',
-    description: 'Unassigned issues',
-    filters: { assignee: 'none', state: 'open' },
+    description: 'Unassigned items',
+    query: 'is:open no:assignee',
     icon: '❓',
   },
   {
     name: 'stale',
-    description: 'Issues not updated in 30 days',
-    filters: { updated: '<30d', state: 'open' },
+    description: 'Items not updated in 30 days',
+    query: 'is:open updated:<30d',
     icon: '📅',
   },
 ];
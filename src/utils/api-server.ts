@@ -0,0 +1,679 @@
+/**
+ * API Server for AI-Trackdown
+ * Local HTTP/JSON API over the index and relationship managers, with server-sent
+ * events for file changes so dashboards and scripts don't have to scrape CLI output
+ */
+
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as path from 'node:path';
+import { type AnyItemData, getItemType, type ItemType } from '../types/ai-trackdown.js';
+import type { ConfigManager } from './config-manager.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { createComment, editComment, listComments, removeComment } from './index.js';
+import { searchItems } from './item-search.js';
+import { type ItemInput, ItemService, type WritableItemType } from './item-service.js';
+import { ProjectContextManager } from './project-context-manager.js';
+import type { RelationshipManager } from './relationship-manager.js';
+import { TrackdownIndexManager } from './trackdown-index-manager.js';
+
+// URL segment for each item collection
+const COLLECTIONS: Record<string, WritableItemType> = {
+  epics: 'epic',
+  issues: 'issue',
+  tasks: 'task',
+  prs: 'pr',
+};
+
+// Host names the server answers to, besides a specific --host it was bound to
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::']);
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const WATCH_DEBOUNCE_MS = 100;
+const HEARTBEAT_MS = 30000;
+
+export interface ApiServerOptions {
+  port?: number;
+  host?: string;
+  // Value for Access-Control-Allow-Origin; CORS headers are omitted when unset
+  cors?: string;
+  // Watch the tasks directory and push server-sent events on file changes
+  watch?: boolean;
+  cliTasksDir?: string;
+}
+
+export interface ApiEvent {
+  type: 'created' | 'changed' | 'deleted';
+  item_type: ItemType | 'comment';
+  item_id: string;
+  // Parent issue for comment events
+  issue_id?: string;
+  file_path: string;
+  timestamp: string;
+}
+
+interface RouteContext {
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+}
+
+export class TrackdownApiServer {
+  private configManager: ConfigManager;
+  private options: ApiServerOptions;
+  private paths: ReturnType<ConfigManager['getAbsolutePaths']>;
+  private itemService: ItemService;
+  private relationshipManager: RelationshipManager;
+  private indexManager: TrackdownIndexManager;
+  private server?: http.Server;
+  private watcher?: fs.FSWatcher;
+  private heartbeat?: NodeJS.Timeout;
+  private clients = new Set<http.ServerResponse>();
+  private pending = new Map<string, NodeJS.Timeout>();
+  private inFlight = new Set<Promise<void>>();
+  private knownFiles = new Set<string>();
+
+  constructor(configManager: ConfigManager, options: ApiServerOptions = {}) {
+    this.configManager = configManager;
+    this.options = options;
+    this.paths = configManager.getAbsolutePaths(options.cliTasksDir);
+    this.itemService = new ItemService(configManager, options.cliTasksDir);
+    this.relationshipManager = this.itemService.getRelationshipManager();
+    this.indexManager = new TrackdownIndexManager(
+      configManager.getConfig(),
+      this.paths.projectRoot,
+      options.cliTasksDir
+    );
+  }
+
+  /**
+   * Start listening; resolves with the bound address (port 0 picks a free port)
+   */
+  public async start(): Promise<{ host: string; port: number }> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.sendError(res, req.method || 'GET', error));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server?.once('error', reject);
+      this.server?.listen(this.options.port ?? 4000, this.options.host || '127.0.0.1', () =>
+        resolve()
+      );
+    });
+
+    if (this.options.watch !== false) {
+      this.startWatching();
+    }
+
+    const address = this.server.address() as AddressInfo;
+    return { host: address.address, port: address.port };
+  }
+
+  /**
+   * Stop watching, close event streams and shut the server down
+   */
+  public async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+    await Promise.all(this.inFlight);
+    for (const client of this.clients) client.end();
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Push an event to all connected event-stream clients
+   */
+  public broadcast(event: ApiEvent): void {
+    const payload = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const client of this.clients) {
+      client.write(payload);
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+
+    // A DNS-rebound name would otherwise let any web page read the API
+    if (!this.isAllowedHost(req.headers.host)) {
+      this.sendJson(res, 403, { error: `Host not allowed: ${req.headers.host || '(none)'}` });
+      return;
+    }
+
+    if (this.options.cors) {
+      res.setHeader('Access-Control-Allow-Origin', this.options.cors);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Trackdown-User');
+    }
+    if (method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    // Cross-site form and text/plain posts skip the CORS preflight, so writes must be JSON
+    if ((method === 'POST' || method === 'PATCH') && !isJsonRequest(req)) {
+      this.sendJson(res, 415, { error: 'Content-Type must be application/json' });
+      return;
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== 'api') {
+      this.sendJson(res, 404, { error: `Not found: ${method} ${url.pathname}` });
+      return;
+    }
+
+    const context: RouteContext = {
+      method,
+      segments: segments.slice(1),
+      query: url.searchParams,
+      req,
+      res,
+    };
+    const handled = await this.route(context);
+    if (!handled) {
+      this.sendJson(res, 404, { error: `Not found: ${method} ${url.pathname}` });
+    }
+  }
+
+  private async route(ctx: RouteContext): Promise<boolean> {
+    const { method, segments, res } = ctx;
+    const [resource, id, sub, subId] = segments;
+
+    if (!resource && method === 'GET') {
+      this.sendJson(res, 200, {
+        name: 'ai-trackdown',
+        project: this.configManager.getConfig().name,
+        watching: this.watcher !== undefined,
+        routes: [
+          'GET /api/overview',
+          'GET|POST /api/projects',
+          'GET /api/projects/:name',
+          'GET|POST /api/{epics|issues|tasks|prs}',
+          'GET|PATCH|DELETE /api/{epics|issues|tasks|prs}/:id',
+          'GET /api/epics/:id/hierarchy',
+          'GET /api/issues/:id/hierarchy',
+          'GET|POST /api/issues/:id/comments',
+          'PATCH|DELETE /api/issues/:id/comments/:commentId',
+          'GET /api/search?q=',
+          'GET /api/events',
+        ],
+      });
+      return true;
+    }
+
+    switch (resource) {
+      case 'overview':
+        if (method !== 'GET' || id) return false;
+        this.indexManager.clearCache();
+        this.sendJson(res, 200, await this.indexManager.getProjectOverview());
+        return true;
+      case 'events':
+        if (method !== 'GET' || id) return false;
+        this.openEventStream(ctx);
+        return true;
+      case 'search':
+        if (method !== 'GET' || id) return false;
+        this.sendJson(res, 200, this.search(ctx.query));
+        return true;
+      case 'projects':
+        return this.routeProjects(ctx, id);
+    }
+
+    const type = COLLECTIONS[resource];
+    if (!type) return false;
+
+    if (!id) {
+      if (method === 'GET') {
+        this.sendJson(res, 200, await this.listItems(type, ctx.query));
+        return true;
+      }
+      if (method === 'POST') {
+        const item = await this.itemService.createItem(type, await this.readInput(ctx), {
+          user: this.getUser(ctx),
+          source: 'api',
+        });
+        this.indexManager.clearCache();
+        this.sendJson(res, 201, item);
+        return true;
+      }
+      return false;
+    }
+
+    if (sub === 'hierarchy' && method === 'GET' && !subId) {
+      const hierarchy =
+        type === 'epic'
+          ? this.relationshipManager.getEpicHierarchy(id)
+          : type === 'issue'
+            ? this.relationshipManager.getIssueHierarchy(id)
+            : undefined;
+      if (hierarchy === undefined) return false;
+      if (!hierarchy) {
+        throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `${type} not found: ${id}`);
+      }
+      this.sendJson(res, 200, hierarchy);
+      return true;
+    }
+
+    if (sub === 'comments' && type === 'issue') {
+      return this.routeComments(ctx, id, subId);
+    }
+    if (sub) return false;
+
+    switch (method) {
+      case 'GET': {
+        this.sendJson(res, 200, this.requireItem(type, id));
+        return true;
+      }
+      case 'PATCH': {
+        this.requireItem(type, id);
+        const item = await this.itemService.updateItem(id, await this.readInput(ctx), {
+          user: this.getUser(ctx),
+          source: 'api',
+        });
+        this.indexManager.clearCache();
+        this.sendJson(res, 200, item);
+        return true;
+      }
+      case 'DELETE': {
+        this.requireItem(type, id);
+        const deleted = await this.itemService.deleteItem(id, {
+          recursive: ctx.query.get('recursive') === 'true',
+          force: ctx.query.get('force') === 'true',
+        });
+        this.indexManager.clearCache();
+        this.sendJson(res, 200, { deleted });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private async routeProjects(ctx: RouteContext, name?: string): Promise<boolean> {
+    const contextManager = new ProjectContextManager(this.paths.projectRoot);
+    const state = await contextManager.initializeContext();
+
+    if (!name && ctx.method === 'GET') {
+      this.sendJson(ctx.res, 200, {
+        mode: state.context.mode,
+        current: state.context.currentProject || null,
+        projects: contextManager.listProjects(),
+      });
+      return true;
+    }
+
+    if (!name && ctx.method === 'POST') {
+      const body = await this.readBody(ctx.req);
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        throw new AITrackdownError(ErrorCode.MISSING_REQUIRED, 'Project name is required');
+      }
+      if (contextManager.listProjects().includes(body.name)) {
+        throw new AITrackdownError(ErrorCode.FILE_EXISTS, `Project already exists: ${body.name}`);
+      }
+      const created = await contextManager.createProject(body.name.trim());
+      this.sendJson(ctx.res, 201, {
+        name: created.context.currentProject,
+        mode: created.context.mode,
+      });
+      return true;
+    }
+
+    if (name && ctx.method === 'GET') {
+      if (!contextManager.listProjects().includes(name)) {
+        throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Project not found: ${name}`);
+      }
+      this.sendJson(ctx.res, 200, {
+        name,
+        mode: state.context.mode,
+        current: state.context.currentProject === name,
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  private async routeComments(
+    ctx: RouteContext,
+    issueId: string,
+    commentId?: string
+  ): Promise<boolean> {
+    const { projectRoot, tasksRoot } = this.paths;
+    this.requireItem('issue', issueId);
+
+    if (!commentId && ctx.method === 'GET') {
+      this.sendJson(ctx.res, 200, await listComments(projectRoot, issueId));
+      return true;
+    }
+
+    if (!commentId && ctx.method === 'POST') {
+      const body = await this.readBody(ctx.req);
+      if (typeof body.body !== 'string' || !body.body.trim()) {
+        throw new AITrackdownError(ErrorCode.MISSING_REQUIRED, 'Comment body is required');
+      }
+      const comment = await createComment(projectRoot, issueId, body.body, {
+        author: this.getUser(ctx),
+        editorUsed: 'api',
+        source: 'api',
+        tasksRoot,
+      });
+      this.sendJson(ctx.res, 201, comment);
+      return true;
+    }
+
+    if (!commentId) return false;
+    const existing = (await listComments(projectRoot, issueId)).find(
+      (comment) => comment.id === commentId
+    );
+
+    if (ctx.method === 'PATCH') {
+      if (!existing) {
+        throw new AITrackdownError(
+          ErrorCode.FILE_NOT_FOUND,
+          `Comment ${commentId} not found in issue ${issueId}`
+        );
+      }
+      const body = await this.readBody(ctx.req);
+      const comment = await editComment(projectRoot, issueId, commentId, String(body.body ?? ''), {
+        editorUsed: 'api',
+        source: 'api',
+        tasksRoot,
+      });
+      this.sendJson(ctx.res, 200, comment);
+      return true;
+    }
+
+    if (ctx.method === 'DELETE') {
+      if (!existing) {
+        throw new AITrackdownError(
+          ErrorCode.FILE_NOT_FOUND,
+          `Comment ${commentId} not found in issue ${issueId}`
+        );
+      }
+      await removeComment(projectRoot, issueId, commentId, { source: 'api', tasksRoot });
+      this.sendJson(ctx.res, 200, { deleted: [commentId] });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * List index entries of one type, filtered by query parameters and paginated
+   */
+  private async listItems(type: WritableItemType, query: URLSearchParams) {
+    this.indexManager.clearCache();
+    const filters: Record<string, string | null> = {
+      status: query.get('status'),
+      priority: query.get('priority'),
+      assignee: query.get('assignee'),
+      epicId: query.get('epic'),
+      issueId: query.get('issue'),
+    };
+    const tag = query.get('tag');
+
+    const items = (await this.indexManager.getItemsByType(type))
+      .filter((entry) =>
+        Object.entries(filters).every(
+          ([field, value]) =>
+            !value || (entry as unknown as Record<string, unknown>)[field] === value
+        )
+      )
+      .filter((entry) => !tag || entry.tags?.includes(tag))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    return this.paginate(items, query);
+  }
+
+  /**
+   * Search all items with the GitHub-style query syntax, e.g. `is:open label:bug login`
+   */
+  private search(query: URLSearchParams) {
+    const type = query.get('type') || undefined;
+    if (type && !Object.values(COLLECTIONS).includes(type as WritableItemType)) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Invalid type: ${type}`);
+    }
+    const result = searchItems(this.relationshipManager, query.get('q') || '', {
+      type: type as WritableItemType | undefined,
+    });
+    return {
+      query: result.query,
+      warnings: result.warnings,
+      ...this.paginate(result.items, query),
+    };
+  }
+
+  private paginate<T>(items: T[], query: URLSearchParams) {
+    const limit = Math.max(1, Number.parseInt(query.get('limit') || '100', 10) || 100);
+    const offset = Math.max(0, Number.parseInt(query.get('offset') || '0', 10) || 0);
+    return { total: items.length, limit, offset, items: items.slice(offset, offset + limit) };
+  }
+
+  private openEventStream(ctx: RouteContext): void {
+    ctx.res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    ctx.res.write(': connected\n\n');
+    this.clients.add(ctx.res);
+    ctx.req.on('close', () => this.clients.delete(ctx.res));
+  }
+
+  /**
+   * Watch the tasks directory for item and comment files changing, whether
+   * through this server, the CLI or an editor
+   */
+  private startWatching(): void {
+    const { tasksRoot } = this.paths;
+    if (!fs.existsSync(tasksRoot)) {
+      fs.mkdirSync(tasksRoot, { recursive: true });
+    }
+
+    for (const filePath of listMarkdownFiles(tasksRoot)) {
+      this.knownFiles.add(filePath);
+    }
+
+    this.watcher = fs.watch(tasksRoot, { recursive: true }, (_event, filename) => {
+      if (!filename?.toString().endsWith('.md')) return;
+      const filePath = path.join(tasksRoot, filename.toString());
+
+      // Editors and parent-link updates touch files in bursts; settle before reporting
+      const timer = this.pending.get(filePath);
+      if (timer) clearTimeout(timer);
+      this.pending.set(
+        filePath,
+        setTimeout(() => {
+          this.pending.delete(filePath);
+          const change = this.onFileChange(filePath)
+            .catch(() => {
+              // A file that vanishes mid-read is reported by its delete event
+            })
+            .finally(() => this.inFlight.delete(change));
+          this.inFlight.add(change);
+        }, WATCH_DEBOUNCE_MS)
+      );
+    });
+
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) client.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private async onFileChange(filePath: string): Promise<void> {
+    const target = this.classify(filePath);
+    if (!target) return;
+
+    const exists = fs.existsSync(filePath);
+    const type: ApiEvent['type'] = !exists
+      ? 'deleted'
+      : this.knownFiles.has(filePath)
+        ? 'changed'
+        : 'created';
+    if (type === 'deleted' && !this.knownFiles.has(filePath)) return;
+
+    if (exists) {
+      this.knownFiles.add(filePath);
+    } else {
+      this.knownFiles.delete(filePath);
+    }
+
+    // Keep the cache and index in step with edits made outside the API
+    if (target.item_type !== 'comment') {
+      this.relationshipManager.rebuildCache();
+      if (exists) {
+        await this.indexManager.updateItem(target.item_type, target.item_id);
+      } else {
+        await this.indexManager.removeItem(target.item_type, target.item_id);
+      }
+      this.indexManager.clearCache();
+    }
+
+    this.broadcast({ type, ...target, file_path: filePath, timestamp: new Date().toISOString() });
+  }
+
+  private classify(filePath: string): Pick<ApiEvent, 'item_type' | 'item_id' | 'issue_id'> | null {
+    const itemId = path.basename(filePath).match(/^([A-Za-z]+-\d+)/)?.[1];
+    if (!itemId) return null;
+
+    const dir = path.dirname(filePath);
+    if (path.basename(path.dirname(dir)) === 'comments') {
+      return { item_type: 'comment', item_id: itemId, issue_id: path.basename(dir) };
+    }
+
+    const dirs: Array<[string, ItemType]> = [
+      [this.paths.epicsDir, 'epic'],
+      [this.paths.issuesDir, 'issue'],
+      [this.paths.tasksDir, 'task'],
+      [this.paths.prsDir, 'pr'],
+    ];
+    const match = dirs.find(([itemDir]) => path.resolve(itemDir) === dir);
+    return match ? { item_type: match[1], item_id: itemId } : null;
+  }
+
+  private requireItem(type: WritableItemType, id: string): AnyItemData {
+    const item = this.relationshipManager.getItem(id);
+    if (!item || getItemType(item) !== type) {
+      throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `${type} not found: ${id}`);
+    }
+    return item;
+  }
+
+  private async readInput(ctx: RouteContext): Promise<ItemInput> {
+    const body = await this.readBody(ctx.req);
+    // Accept comma-separated strings for list fields, as the CLI flags do
+    for (const field of ['tags', 'dependencies', 'reviewers']) {
+      if (typeof body[field] === 'string') {
+        body[field] = (body[field] as string)
+          .split(',')
+          .map((value) => value.trim())
+          .filter(Boolean);
+      }
+    }
+    return body as ItemInput;
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, 'Request body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf8').trim();
+    if (!raw) return {};
+    try {
+      const body = JSON.parse(raw);
+      if (body && typeof body === 'object' && !Array.isArray(body)) {
+        return body;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, 'Request body must be a JSON object');
+  }
+
+  private isAllowedHost(host: string | undefined): boolean {
+    if (!host) return false;
+
+    const port = (this.server?.address() as AddressInfo | null)?.port;
+    const bound = this.options.host;
+    const names = [...LOOPBACK_HOSTS];
+    if (bound && !WILDCARD_HOSTS.has(bound)) {
+      names.push(bound.includes(':') ? `[${bound}]` : bound);
+    }
+
+    const requested = host.toLowerCase();
+    return names.some(
+      (name) => requested === `${name}:${port}` || (port === 80 && requested === name)
+    );
+  }
+
+  private getUser(ctx: RouteContext): string | undefined {
+    const header = ctx.req.headers['x-trackdown-user'];
+    return (Array.isArray(header) ? header[0] : header) || undefined;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+  }
+
+  private sendError(res: http.ServerResponse, method: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    let status = method === 'GET' ? 500 : 400;
+    if (error instanceof AITrackdownError) {
+      status =
+        error.code === ErrorCode.FILE_NOT_FOUND
+          ? 404
+          : error.code === ErrorCode.FILE_EXISTS
+            ? 409
+            : 400;
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, status, {
+      error: message,
+      ...(error instanceof AITrackdownError && { code: error.code }),
+    });
+  }
+}
+
+function isJsonRequest(req: http.IncomingMessage): boolean {
+  const mediaType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  return mediaType === 'application/json';
+}
+
+function listMarkdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listMarkdownFiles(entryPath));
+    } else if (entry.name.endsWith('.md')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,275 @@
+/**
+ * Commit Linker for AI-Trackdown
+ * Record git commits on the items their messages mention and move items that a
+ * commit fixes to a configured state, scanning incrementally from the last commit
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  type AnyItemData,
+  getItemId,
+  type LinkedCommit,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import type { ConfigManager } from './config-manager.js';
+import { isFinishedItem } from './due-dates.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { type GitCommit, GitMetadataExtractor } from './git-metadata-extractor.js';
+import { HistoryLog } from './history-log.js';
+import { ItemService } from './item-service.js';
+
+// Scan position, kept next to the config
+const STATE_FILE = 'commit-links.json';
+
+export const DEFAULT_CLOSING_KEYWORDS = [
+  'fix',
+  'fixes',
+  'fixed',
+  'close',
+  'closes',
+  'closed',
+  'resolve',
+  'resolves',
+  'resolved',
+];
+
+export interface CommitScanOptions {
+  // Rescan the whole history instead of starting after the last scanned commit
+  full?: boolean;
+  // State for items a commit fixes; false turns transitions off for this scan
+  transition_state?: string | false;
+}
+
+export interface CommitLink {
+  item_id: string;
+  sha: string;
+}
+
+export interface CommitTransition extends CommitLink {
+  from: UnifiedState;
+  to: string;
+  // Why the transition was not made
+  error?: string;
+}
+
+export interface CommitScanResult {
+  // Commits read from the log
+  scanned: number;
+  // Commit before the scan started, if it was incremental
+  since?: string;
+  head?: string;
+  linked: CommitLink[];
+  transitions: CommitTransition[];
+  // IDs in commit messages that match no item
+  unknown_ids: string[];
+}
+
+interface CommitLinkState {
+  last_commit: string;
+  scanned_date: string;
+}
+
+/**
+ * Item IDs mentioned in a commit message, in order of first mention
+ */
+export function findItemReferences(message: string, prefixes: string[]): string[] {
+  const matches = message.match(idPattern(prefixes, 'g')) || [];
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Item IDs that follow a closing keyword, as in "fixes ISS-0042" or
+ * "Closes: TSK-0007, TSK-0008"
+ */
+export function findClosingReferences(
+  message: string,
+  prefixes: string[],
+  keywords: string[] = DEFAULT_CLOSING_KEYWORDS
+): string[] {
+  const id = idPattern(prefixes).source;
+  const pattern = new RegExp(
+    `\\b(?:${keywords.map(escapeRegExp).join('|')}):?\\s+(${id}(?:\\s*(?:,|and)\\s*${id})*)`,
+    'gi'
+  );
+  const ids = new Set<string>();
+  for (const match of message.matchAll(pattern)) {
+    for (const ref of findItemReferences(match[1], prefixes)) ids.add(ref);
+  }
+  return Array.from(ids);
+}
+
+export class CommitLinker {
+  private configManager: ConfigManager;
+  private items: ItemService;
+  private extractor: GitMetadataExtractor;
+  private parser = new FrontmatterParser();
+  private statePath: string;
+  private tasksRoot: string;
+
+  constructor(configManager: ConfigManager, options: { cliTasksDir?: string } = {}) {
+    const paths = configManager.getAbsolutePaths(options.cliTasksDir);
+    this.configManager = configManager;
+    this.items = new ItemService(configManager, options.cliTasksDir);
+    this.extractor = new GitMetadataExtractor(paths.projectRoot, false);
+    this.statePath = path.join(paths.configDir, STATE_FILE);
+    this.tasksRoot = paths.tasksRoot;
+  }
+
+  /**
+   * Last commit a scan processed, if any
+   */
+  public getLastCommit(): string | undefined {
+    try {
+      const state = JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as CommitLinkState;
+      return state.last_commit || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Scan commits for item IDs. Each commit is recorded once per item, so a full
+   * rescan only adds what is missing; a fixing commit moves its items to the
+   * transition state when it is newly linked, with the usual workflow validation.
+   */
+  public async scan(options: CommitScanOptions = {}): Promise<CommitScanResult> {
+    const config = this.configManager.getConfig();
+    const conventions = config.naming_conventions;
+    const prefixes = [
+      conventions.epic_prefix,
+      conventions.issue_prefix,
+      conventions.task_prefix,
+      conventions.pr_prefix || 'PR',
+    ].filter(Boolean);
+    const keywords = config.commit_links?.keywords || DEFAULT_CLOSING_KEYWORDS;
+    const transitionState =
+      options.transition_state === false
+        ? undefined
+        : options.transition_state || config.commit_links?.transition_state;
+
+    const head = await this.extractor.getHeadCommit();
+    const result: CommitScanResult = {
+      scanned: 0,
+      head,
+      linked: [],
+      transitions: [],
+      unknown_ids: [],
+    };
+    if (!head) {
+      return result;
+    }
+
+    // A last commit that is gone from the history (rebased or reset) means a full scan
+    const last = options.full ? undefined : this.getLastCommit();
+    const since = last && (await this.extractor.isAncestorOfHead(last)) ? last : undefined;
+    const commits = await this.extractor.getCommits(since);
+    result.scanned = commits.length;
+    result.since = since;
+
+    const relationshipManager = this.items.getRelationshipManager();
+    const newCommits = new Map<string, LinkedCommit[]>();
+    // Last newly linked commit that fixes each item
+    const fixes = new Map<string, GitCommit>();
+    const unknown = new Set<string>();
+
+    for (const commit of commits) {
+      const closing = new Set(findClosingReferences(commit.message, prefixes, keywords));
+      for (const id of findItemReferences(commit.message, prefixes)) {
+        const item = relationshipManager.getItem(id);
+        if (!item) {
+          unknown.add(id);
+          continue;
+        }
+        const known = item.commits?.some((linked) => linked.sha === commit.sha);
+        const pending = newCommits.get(id) || [];
+        if (known || pending.some((linked) => linked.sha === commit.sha)) continue;
+
+        pending.push({
+          sha: commit.sha,
+          author: commit.author,
+          date: commit.date,
+          message: commit.message.split('\n')[0],
+        });
+        newCommits.set(id, pending);
+        result.linked.push({ item_id: id, sha: commit.sha });
+        if (closing.has(id)) fixes.set(id, commit);
+      }
+    }
+
+    const history = new HistoryLog(this.tasksRoot);
+    for (const [id, linked] of newCommits) {
+      const item = relationshipManager.getItem(id) as AnyItemData;
+      const updated = this.parser.updateFile(item.file_path, {
+        commits: [...(item.commits || []), ...linked],
+      });
+      history.recordDiff(id, 'update', item, updated, { source: 'commits scan' });
+    }
+    if (newCommits.size > 0) {
+      relationshipManager.rebuildCache();
+    }
+
+    if (transitionState) {
+      for (const [id, commit] of fixes) {
+        result.transitions.push(await this.transition(id, commit, transitionState));
+      }
+    }
+
+    fs.writeFileSync(
+      this.statePath,
+      JSON.stringify(
+        { last_commit: head, scanned_date: new Date().toISOString() } satisfies CommitLinkState,
+        null,
+        2
+      ),
+      'utf8'
+    );
+
+    result.unknown_ids = Array.from(unknown).sort();
+    return result;
+  }
+
+  /**
+   * Move an item a commit fixes through ItemService, so workflow rules, hooks and
+   * history apply as for `state update`. Finished items and items already in the
+   * state are left alone.
+   */
+  private async transition(
+    id: string,
+    commit: GitCommit,
+    state: string
+  ): Promise<CommitTransition> {
+    const item = this.items.getRelationshipManager().getItem(id) as AnyItemData;
+    const from = StateManager.getEffectiveState(item);
+    const transition: CommitTransition = { item_id: id, sha: commit.sha, from, to: state };
+    if (from === state) {
+      return { ...transition, error: `already ${state}` };
+    }
+    if (isFinishedItem(item)) {
+      return { ...transition, error: `already finished (${from})` };
+    }
+
+    try {
+      await this.items.updateItem(
+        getItemId(item),
+        {
+          state: state as UnifiedState,
+          reason: `Commit ${commit.sha.slice(0, 7)}: ${commit.message.split('\n')[0]}`,
+        },
+        { user: commit.author, source: 'commits scan' }
+      );
+      return transition;
+    } catch (error) {
+      return { ...transition, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+function idPattern(prefixes: string[], flags?: string): RegExp {
+  return new RegExp(`\\b(?:${prefixes.map(escapeRegExp).join('|')})-\\d+\\b`, flags);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -69,6 +69,8 @@ export class ConfigManager {
             auto_calculate_tokens: false,
             auto_sync_status: true,
           },
+          workflows: rawConfig.workflows,
+          roles: rawConfig.roles,
         };
       } else {
         this.config = rawConfig as ProjectConfig;
@@ -213,6 +215,10 @@ export class ConfigManager {
       config.default_assignee = process.env.ATD_DEFAULT_ASSIGNEE;
     }
 
+    if (process.env.ATD_USER) {
+      config.user = process.env.ATD_USER;
+    }
+
     if (process.env.ATD_AUTO_TIMESTAMPS === 'false') {
       config.automation!.auto_update_timestamps = false;
     }
@@ -235,6 +241,8 @@ export class ConfigManager {
     issuesDir: string;
     tasksDir: string;
     prsDir: string;
+    sprintsDir: string;
+    milestonesDir: string;
     templatesDir: string;
   } {
     const config = this.getConfig();
@@ -253,6 +261,8 @@ export class ConfigManager {
       issuesDir: unifiedPaths.issuesDir,
       tasksDir: unifiedPaths.tasksDir,
       prsDir: unifiedPaths.prsDir,
+      sprintsDir: unifiedPaths.sprintsDir,
+      milestonesDir: unifiedPaths.milestonesDir,
       templatesDir: unifiedPaths.templatesDir,
     };
   }
@@ -311,6 +321,25 @@ export class ConfigManager {
         throw new Error(`Configuration naming_conventions missing required field: ${field}`);
       }
     }
+
+    // Validate workflow transitions
+    for (const [type, workflow] of Object.entries(config.workflows || {})) {
+      for (const transition of workflow?.transitions || []) {
+        if (!transition.from || !transition.to) {
+          throw new Error(`Configuration workflows.${type} has a transition without from/to`);
+        }
+      }
+    }
+
+    // Validate transition hooks
+    (config.hooks || []).forEach((hook, index) => {
+      if (!hook.on) {
+        throw new Error(`Configuration hooks[${index}] missing required field: on`);
+      }
+      if (!hook.run === !hook.action) {
+        throw new Error(`Configuration hooks[${index}] must have exactly one of run or action`);
+      }
+    });
   }
 
   /**
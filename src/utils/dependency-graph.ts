@@ -0,0 +1,352 @@
+/**
+ * Dependency Graph for AI-Trackdown
+ * Work order, critical path and blocked chains from `dependencies`, `blocked_by`
+ * and `blocks` across epics, issues, tasks and PRs
+ */
+
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type ItemType,
+  isEpicData,
+  isIssueData,
+  isPRData,
+  isTaskData,
+  type Priority,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { isFinishedItem } from './due-dates.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { parseDurationSafe } from './time-tracker.js';
+
+export type GraphWeight = 'hours' | 'tokens';
+
+const PRIORITY_RANK: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export interface GraphNode {
+  id: string;
+  type: ItemType;
+  title: string;
+  state: UnifiedState;
+  priority: Priority;
+  assignee: string;
+  // Estimate in the graph's weight unit; 0 when the item has none
+  weight: number;
+}
+
+export interface WorkOrder {
+  order: GraphNode[];
+  // Items in dependency cycles, which have no valid order
+  cycles: string[][];
+}
+
+export interface CriticalPath {
+  path: GraphNode[];
+  total: number;
+  weight: GraphWeight;
+  // Items on the path without an estimate
+  unestimated: string[];
+  cycles: string[][];
+}
+
+export interface BlockedItem {
+  item: GraphNode;
+  // Every open item that must finish first, nearest first
+  blockers: string[];
+  // Blockers that are not blocked themselves: where to start
+  root_blockers: string[];
+  // Longest chain of blockers in front of the item
+  depth: number;
+}
+
+/**
+ * Scope items to an epic: the epic, its issues, and tasks and PRs under either
+ */
+export function scopeToEpic(items: AnyItemData[], epicId: string): AnyItemData[] {
+  if (!items.some((item) => isEpicData(item) && item.epic_id === epicId)) {
+    throw new AITrackdownError(ErrorCode.INVALID_EPIC_ID, `Epic not found: ${epicId}`);
+  }
+  const issueIds = new Set(
+    items.filter((item) => isIssueData(item) && item.epic_id === epicId).map(getItemId)
+  );
+  return items.filter((item) => {
+    if ('epic_id' in item && item.epic_id === epicId) return true;
+    return (isTaskData(item) || isPRData(item)) && issueIds.has(item.issue_id);
+  });
+}
+
+/**
+ * Scope items to a project by `project_id`; the current project's name keeps every item
+ */
+export function scopeToProject(
+  items: AnyItemData[],
+  projectId: string,
+  currentProject?: string
+): AnyItemData[] {
+  if (projectId === currentProject) return items;
+  const epicIds = items
+    .filter((item) => isEpicData(item) && item.project_id === projectId)
+    .map(getItemId);
+  const scoped = new Set([
+    ...items.filter((item) => 'project_id' in item && item.project_id === projectId),
+    ...epicIds.flatMap((epicId) => scopeToEpic(items, epicId)),
+  ]);
+  if (scoped.size === 0) {
+    throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Project not found: ${projectId}`);
+  }
+  return items.filter((item) => scoped.has(item));
+}
+
+/**
+ * Graph of open items with an edge from each item to the items waiting on it.
+ * Finished items are left out: they no longer block anything.
+ */
+export class DependencyGraph {
+  private nodes = new Map<string, GraphNode>();
+  // id -> items that must finish before it
+  private before = new Map<string, Set<string>>();
+  // id -> items waiting on it
+  private after = new Map<string, Set<string>>();
+  private weightUnit: GraphWeight;
+
+  constructor(items: AnyItemData[], options: { weight?: GraphWeight } = {}) {
+    this.weightUnit = options.weight || 'hours';
+
+    const open = items.filter((item) => !isFinishedItem(item));
+    for (const item of open) {
+      const id = getItemId(item);
+      this.nodes.set(id, {
+        id,
+        type: getItemType(item),
+        title: item.title,
+        state: StateManager.getEffectiveState(item),
+        priority: item.priority,
+        assignee: item.assignee,
+        weight: this.getWeight(item),
+      });
+      this.before.set(id, new Set());
+      this.after.set(id, new Set());
+    }
+
+    for (const item of open) {
+      const id = getItemId(item);
+      const links = item as { dependencies?: string[]; blocked_by?: string[]; blocks?: string[] };
+      for (const blocker of [...(links.dependencies || []), ...(links.blocked_by || [])]) {
+        this.addEdge(blocker, id);
+      }
+      for (const blocked of links.blocks || []) {
+        this.addEdge(id, blocked);
+      }
+    }
+  }
+
+  public get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Topological work order: an item comes after everything it waits on, and
+   * among items that are ready, higher priority first
+   */
+  public getWorkOrder(): WorkOrder {
+    const remaining = new Map(
+      Array.from(this.before, ([id, blockers]) => [id, blockers.size] as const)
+    );
+    const ready = Array.from(remaining)
+      .filter(([, count]) => count === 0)
+      .map(([id]) => id);
+    const order: GraphNode[] = [];
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => this.compareNodes(a, b));
+      const id = ready.shift() as string;
+      order.push(this.requireNode(id));
+      for (const next of this.after.get(id) || []) {
+        const count = (remaining.get(next) || 0) - 1;
+        remaining.set(next, count);
+        if (count === 0) ready.push(next);
+      }
+    }
+
+    const ordered = new Set(order.map((node) => node.id));
+    return {
+      order,
+      cycles: this.findCycles(Array.from(this.nodes.keys()).filter((id) => !ordered.has(id))),
+    };
+  }
+
+  /**
+   * Heaviest chain of dependent items by estimate; the longer chain wins a tie.
+   * Items in cycles are left out.
+   */
+  public getCriticalPath(): CriticalPath {
+    const { order, cycles } = this.getWorkOrder();
+    const best = new Map<string, { total: number; length: number; previous?: string }>();
+
+    for (const node of order) {
+      let entry = { total: node.weight, length: 1, previous: undefined as string | undefined };
+      for (const blocker of this.before.get(node.id) || []) {
+        const candidate = best.get(blocker);
+        if (!candidate) continue;
+        const total = candidate.total + node.weight;
+        const length = candidate.length + 1;
+        if (total > entry.total || (total === entry.total && length > entry.length)) {
+          entry = { total, length, previous: blocker };
+        }
+      }
+      best.set(node.id, entry);
+    }
+
+    let end: string | undefined;
+    for (const node of order) {
+      const entry = best.get(node.id);
+      const current = end ? best.get(end) : undefined;
+      if (
+        entry &&
+        (!current ||
+          entry.total > current.total ||
+          (entry.total === current.total && entry.length > current.length))
+      ) {
+        end = node.id;
+      }
+    }
+
+    const path: GraphNode[] = [];
+    for (let id = end; id; id = best.get(id)?.previous) {
+      path.unshift(this.requireNode(id));
+    }
+
+    return {
+      path,
+      total: end ? best.get(end)?.total || 0 : 0,
+      weight: this.weightUnit,
+      unestimated: path.filter((node) => node.weight === 0).map((node) => node.id),
+      cycles,
+    };
+  }
+
+  /**
+   * Every item waiting on at least one open item, with the blockers to start on.
+   * Most deeply blocked items come first.
+   */
+  public getBlockedItems(): BlockedItem[] {
+    const blocked: BlockedItem[] = [];
+    const depths = new Map<string, number>();
+
+    for (const [id, node] of this.nodes) {
+      if ((this.before.get(id)?.size || 0) === 0) continue;
+
+      // Breadth-first, so the nearest blockers come first
+      const blockers: string[] = [];
+      const seen = new Set([id]);
+      const queue = [id];
+      while (queue.length > 0) {
+        const current = queue.shift() as string;
+        for (const blocker of this.before.get(current) || []) {
+          if (seen.has(blocker)) continue;
+          seen.add(blocker);
+          blockers.push(blocker);
+          queue.push(blocker);
+        }
+      }
+
+      // Roots wait on nothing else; in a cycle with the item they wait only on it
+      const roots = blockers.filter((blocker) =>
+        Array.from(this.before.get(blocker) || []).every((other) => other === id)
+      );
+
+      blocked.push({
+        item: node,
+        blockers,
+        root_blockers: roots.length > 0 ? roots : blockers,
+        depth: this.getDepth(id, depths, new Set()),
+      });
+    }
+
+    return blocked.sort((a, b) => b.depth - a.depth || this.compareNodes(a.item.id, b.item.id));
+  }
+
+  private addEdge(from: string, to: string): void {
+    // Links to unknown or finished items do not constrain the order
+    if (from === to || !this.nodes.has(from) || !this.nodes.has(to)) return;
+    this.before.get(to)?.add(from);
+    this.after.get(from)?.add(to);
+  }
+
+  private getWeight(item: AnyItemData): number {
+    if (this.weightUnit === 'tokens') {
+      return item.estimated_tokens || 0;
+    }
+    return parseDurationSafe((item as { time_estimate?: string }).time_estimate) / 60;
+  }
+
+  private getDepth(id: string, depths: Map<string, number>, visiting: Set<string>): number {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    visiting.add(id);
+
+    let depth = 0;
+    for (const blocker of this.before.get(id) || []) {
+      if (visiting.has(blocker)) continue;
+      depth = Math.max(depth, this.getDepth(blocker, depths, visiting) + 1);
+    }
+
+    visiting.delete(id);
+    depths.set(id, depth);
+    return depth;
+  }
+
+  /**
+   * Group unordered items into cycles (strongly connected components).
+   * Items only waiting on a cycle are not part of it.
+   */
+  private findCycles(ids: string[]): string[][] {
+    const cycles: string[][] = [];
+    const assigned = new Set<string>();
+
+    for (const id of ids.sort()) {
+      if (assigned.has(id)) continue;
+      const reachable = this.reach(id, this.after);
+      const component = this.reach(id, this.before).filter(
+        (other) => reachable.includes(other) && other !== id
+      );
+      if (component.length === 0) continue;
+      const cycle = [id, ...component].sort();
+      for (const member of cycle) assigned.add(member);
+      cycles.push(cycle);
+    }
+
+    return cycles;
+  }
+
+  private reach(start: string, edges: Map<string, Set<string>>): string[] {
+    const seen = new Set<string>();
+    const stack = [start];
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      for (const next of edges.get(current) || []) {
+        if (seen.has(next)) continue;
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+    return Array.from(seen);
+  }
+
+  private compareNodes(a: string, b: string): number {
+    const nodeA = this.requireNode(a);
+    const nodeB = this.requireNode(b);
+    return (
+      (PRIORITY_RANK[nodeA.priority] ?? 2) - (PRIORITY_RANK[nodeB.priority] ?? 2) ||
+      a.localeCompare(b, undefined, { numeric: true })
+    );
+  }
+
+  private requireNode(id: string): GraphNode {
+    const node = this.nodes.get(id);
+    if (!node) throw new Error(`Unknown item in dependency graph: ${id}`);
+    return node;
+  }
+}
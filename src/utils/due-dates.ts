@@ -0,0 +1,165 @@
+/**
+ * Due Dates for AI-Trackdown
+ * Deadlines from due dates and SLAs, overdue checks and the bucketed due report
+ */
+
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type ItemType,
+  isPRData,
+  type Priority,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { addDays, daysBetween, toIsoDate } from './sprint-manager.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Finished items have no deadline left to miss
+const FINISHED_STATES: UnifiedState[] = ['completed', 'archived', 'done', 'won_t_do'];
+
+export type DueBucket = 'overdue' | 'today' | 'this_week' | 'later';
+
+export interface DueItem {
+  item_id: string;
+  item_type: ItemType;
+  title: string;
+  assignee: string;
+  priority: Priority;
+  due_date?: string;
+  // When the SLA runs out (created_date + sla_hours)
+  sla_deadline?: string;
+  sla_breached: boolean;
+  // Earliest of the due date and the SLA deadline day
+  deadline: string;
+  // Days from today to the deadline, negative once it has passed
+  days_left: number;
+  bucket: DueBucket;
+}
+
+export interface DueReport {
+  as_of: string;
+  overdue: DueItem[];
+  today: DueItem[];
+  this_week: DueItem[];
+  later: DueItem[];
+}
+
+/**
+ * Validate a due date option and normalize it to YYYY-MM-DD
+ */
+export function parseDueDate(value: string, label = 'due date'): string {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid ${label}: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value.slice(0, 10);
+}
+
+/**
+ * Validate an SLA option as a positive number of hours
+ */
+export function parseSlaHours(value: string | number): number {
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`Invalid SLA hours: ${value} (expected a positive number)`);
+  }
+  return hours;
+}
+
+/**
+ * Whether an item is finished, so its deadline no longer applies
+ */
+export function isFinishedItem(item: AnyItemData): boolean {
+  if (isPRData(item) && ['merged', 'closed'].includes(item.pr_status)) return true;
+  return (
+    FINISHED_STATES.includes(StateManager.getEffectiveState(item)) ||
+    item.status === 'completed' ||
+    item.status === 'archived'
+  );
+}
+
+/**
+ * Work out an open item's deadline and where it falls relative to now.
+ * Days are local calendar days, and "this week" runs through Sunday.
+ * Returns null for finished items and items without a due date or SLA.
+ */
+export function getDueItem(item: AnyItemData, now: Date = new Date()): DueItem | null {
+  if (isFinishedItem(item)) return null;
+
+  const dueDate =
+    item.due_date && isValidDate(item.due_date) ? toIsoDate(item.due_date) : undefined;
+  const createdAt = new Date(item.created_date).getTime();
+  const slaDeadline =
+    item.sla_hours && item.sla_hours > 0 && !Number.isNaN(createdAt)
+      ? new Date(createdAt + item.sla_hours * HOUR_MS)
+      : undefined;
+  if (!dueDate && !slaDeadline) return null;
+
+  const candidates = [dueDate, slaDeadline && toIsoDate(slaDeadline)].filter(
+    (day): day is string => day !== undefined
+  );
+  const deadline = candidates.sort()[0];
+  const today = toIsoDate(now);
+  const daysLeft = daysBetween(today, deadline) - 1;
+  // Weeks start on Monday, as in timesheets
+  const endOfWeek = addDays(today, (7 - now.getDay()) % 7);
+  const slaBreached = slaDeadline !== undefined && slaDeadline.getTime() < now.getTime();
+
+  let bucket: DueBucket;
+  if (slaBreached || daysLeft < 0) bucket = 'overdue';
+  else if (daysLeft === 0) bucket = 'today';
+  else if (deadline <= endOfWeek) bucket = 'this_week';
+  else bucket = 'later';
+
+  return {
+    item_id: getItemId(item),
+    item_type: getItemType(item),
+    title: item.title,
+    assignee: item.assignee,
+    priority: item.priority,
+    ...(dueDate && { due_date: dueDate }),
+    ...(slaDeadline && { sla_deadline: slaDeadline.toISOString() }),
+    sla_breached: slaBreached,
+    deadline,
+    days_left: daysLeft,
+    bucket,
+  };
+}
+
+/**
+ * Whether an open item is past its due date or has run out of SLA
+ */
+export function isOverdue(item: AnyItemData, now: Date = new Date()): boolean {
+  return getDueItem(item, now)?.bucket === 'overdue';
+}
+
+/**
+ * Bucket items with deadlines into overdue, today, this week and later,
+ * each sorted by deadline
+ */
+export function buildDueReport(items: AnyItemData[], now: Date = new Date()): DueReport {
+  const report: DueReport = {
+    as_of: toIsoDate(now),
+    overdue: [],
+    today: [],
+    this_week: [],
+    later: [],
+  };
+
+  const dueItems = items
+    .map((item) => getDueItem(item, now))
+    .filter((dueItem): dueItem is DueItem => dueItem !== null)
+    .sort((a, b) => a.deadline.localeCompare(b.deadline) || a.item_id.localeCompare(b.item_id));
+
+  for (const dueItem of dueItems) {
+    report[dueItem.bucket].push(dueItem);
+  }
+
+  return report;
+}
+
+function isValidDate(value: string): boolean {
+  return !Number.isNaN(new Date(value).getTime());
+}
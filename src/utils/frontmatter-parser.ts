@@ -20,6 +20,7 @@ import type {
   ValidationError,
   ValidationResult,
 } from '../types/ai-trackdown.js';
+import { writeFileJournaled } from './journaled-fs.js';
 
 // Frontmatter delimiter patterns
 const FRONTMATTER_DELIMITER = '---';
@@ -249,7 +250,7 @@ export class FrontmatterParser {
   public writeEpic(filePath: string, data: EpicFrontmatter, content: string): void {
     const serialized = this.serializeEpic(data, content);
     this.ensureDirectoryExists(path.dirname(filePath));
-    fs.writeFileSync(filePath, serialized, 'utf8');
+    writeFileJournaled(filePath, serialized);
   }
 
   /**
@@ -258,7 +259,7 @@ export class FrontmatterParser {
   public writeIssue(filePath: string, data: IssueFrontmatter, content: string): void {
     const serialized = this.serializeIssue(data, content);
     this.ensureDirectoryExists(path.dirname(filePath));
-    fs.writeFileSync(filePath, serialized, 'utf8');
+    writeFileJournaled(filePath, serialized);
   }
 
   /**
@@ -267,7 +268,7 @@ export class FrontmatterParser {
   public writeTask(filePath: string, data: TaskFrontmatter, content: string): void {
     const serialized = this.serializeTask(data, content);
     this.ensureDirectoryExists(path.dirname(filePath));
-    fs.writeFileSync(filePath, serialized, 'utf8');
+    writeFileJournaled(filePath, serialized);
   }
 
   /**
@@ -276,7 +277,7 @@ export class FrontmatterParser {
   public writePR(filePath: string, data: PRFrontmatter, content: string): void {
     const serialized = this.serializePR(data, content);
     this.ensureDirectoryExists(path.dirname(filePath));
-    fs.writeFileSync(filePath, serialized, 'utf8');
+    writeFileJournaled(filePath, serialized);
   }
 
   /**
@@ -317,7 +318,7 @@ export class FrontmatterParser {
       this.writePR(filePath, updated as PRFrontmatter, finalContent);
     }
 
-    return updated;
+    return { ...updated, content: finalContent };
   }
 
   /**
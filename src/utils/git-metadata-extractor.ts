@@ -47,6 +47,15 @@ export interface GitContributor {
   last_commit: string;
 }
 
+export interface GitCommit {
+  sha: string;
+  author: string;
+  email: string;
+  date: string;
+  // Full message: subject and body
+  message: string;
+}
+
 export interface LanguageStats {
   language: string;
   files: number;
@@ -338,6 +347,68 @@ export class GitMetadataExtractor {
     }
   }
 
+  /**
+   * Commits reachable from HEAD, oldest first. With `since`, only the commits
+   * after it; throws when the log cannot be read.
+   */
+  async getCommits(since?: string): Promise<GitCommit[]> {
+    if (since && !/^[0-9a-f]{7,40}$/i.test(since)) {
+      throw new Error(`Invalid commit SHA: ${since}`);
+    }
+
+    // Unit and record separators keep multi-line messages intact
+    const output = execSync(
+      `git log ${since ? `${since}..HEAD` : 'HEAD'} --reverse --format=%H%x1f%an%x1f%ae%x1f%cI%x1f%B%x1e`,
+      {
+        encoding: 'utf8',
+        cwd: this.projectPath,
+        maxBuffer: 256 * 1024 * 1024,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      }
+    );
+
+    const commits: GitCommit[] = [];
+    for (const record of output.split('\x1e')) {
+      const [sha, author, email, date, message] = record.replace(/^\n/, '').split('\x1f');
+      if (!sha || !date) continue;
+      commits.push({ sha, author, email, date, message: (message || '').trim() });
+    }
+    return commits;
+  }
+
+  /**
+   * SHA of the commit HEAD points at, if the repository has one
+   */
+  async getHeadCommit(): Promise<string | undefined> {
+    try {
+      return (
+        execSync('git rev-parse HEAD', {
+          encoding: 'utf8',
+          cwd: this.projectPath,
+          stdio: ['ignore', 'pipe', 'ignore'],
+        }).trim() || undefined
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a commit is still reachable from HEAD (false after a rebase or reset)
+   */
+  async isAncestorOfHead(sha: string): Promise<boolean> {
+    if (!/^[0-9a-f]{7,40}$/i.test(sha)) return false;
+    try {
+      execSync(`git merge-base --is-ancestor ${sha} HEAD`, {
+        cwd: this.projectPath,
+        stdio: 'ignore',
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Normalize repository URL to HTTPS format
    */
@@ -4,10 +4,29 @@
  */
 
 import { RequestError } from '@octokit/request-error';
-import { Octokit } from '@octokit/rest';
-import type { GitHubIssue, GitHubSyncConfig } from '../types/ai-trackdown.js';
-
-export class GitHubClient {
+import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
+import type {
+  RemotePullRequestInput,
+  RemotePullRequestUpdate,
+  SyncProvider,
+} from '../integrations/sync-provider.js';
+import type {
+  GitHubIssue,
+  GitHubMilestone,
+  GitHubSyncConfig,
+  RemoteComment,
+  RemotePullRequest,
+} from '../types/ai-trackdown.js';
+import type { CommentReactions, ReactionType } from '../types/comment.js';
+
+type OctokitMilestone = RestEndpointMethodTypes['issues']['getMilestone']['response']['data'];
+type OctokitComment = RestEndpointMethodTypes['issues']['getComment']['response']['data'];
+type OctokitPullRequest =
+  | RestEndpointMethodTypes['pulls']['get']['response']['data']
+  | RestEndpointMethodTypes['pulls']['list']['response']['data'][number];
+
+export class GitHubClient implements SyncProvider {
+  readonly name = 'github' as const;
   private octokit: Octokit;
   private owner: string;
   private repo: string;
@@ -92,7 +111,8 @@ export class GitHubClient {
   }
 
   /**
-   * Get all issues from GitHub repository with pagination
+   * Get all issues from GitHub repository with pagination. The issues API also
+   * lists pull requests; those are left out.
    */
   async getAllIssues(
     options: {
@@ -129,7 +149,9 @@ export class GitHubClient {
         }
 
         // Convert to our GitHubIssue format
-        const convertedIssues = response.data.map(this.convertGitHubIssue);
+        const convertedIssues = response.data
+          .filter((issue) => !issue.pull_request)
+          .map(this.convertGitHubIssue);
         issues.push(...convertedIssues);
 
         // Check if we have more pages
@@ -275,20 +297,18 @@ export class GitHubClient {
   }
 
   /**
-   * Get repository milestones
+   * Get repository milestones, open and closed
    */
-  async getMilestones(): Promise<Array<{ title: string; number: number; state: string }>> {
+  async getMilestones(): Promise<GitHubMilestone[]> {
     try {
-      const response = await this.octokit.rest.issues.listMilestones({
+      const milestones = await this.octokit.paginate(this.octokit.rest.issues.listMilestones, {
         owner: this.owner,
         repo: this.repo,
+        state: 'all',
+        per_page: 100,
       });
 
-      return response.data.map((milestone) => ({
-        title: milestone.title,
-        number: milestone.number,
-        state: milestone.state,
-      }));
+      return milestones.map((milestone) => this.convertGitHubMilestone(milestone));
     } catch (error) {
       throw new Error(
         `Failed to fetch milestones: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -296,6 +316,342 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Create a milestone in GitHub
+   */
+  async createMilestone(data: {
+    title: string;
+    description?: string;
+    state?: 'open' | 'closed';
+    due_on?: string;
+  }): Promise<GitHubMilestone> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const response = await this.octokit.rest.issues.createMilestone({
+        owner: this.owner,
+        repo: this.repo,
+        title: data.title,
+        description: data.description,
+        state: data.state,
+        due_on: data.due_on,
+      });
+
+      return this.convertGitHubMilestone(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to create milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Update an existing milestone in GitHub
+   */
+  async updateMilestone(
+    milestoneNumber: number,
+    data: {
+      title?: string;
+      description?: string;
+      state?: 'open' | 'closed';
+      due_on?: string;
+    }
+  ): Promise<GitHubMilestone> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const response = await this.octokit.rest.issues.updateMilestone({
+        owner: this.owner,
+        repo: this.repo,
+        milestone_number: milestoneNumber,
+        title: data.title,
+        description: data.description,
+        state: data.state,
+        due_on: data.due_on,
+      });
+
+      return this.convertGitHubMilestone(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to update milestone #${milestoneNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the comments on an issue, oldest first
+   */
+  async getComments(issueNumber: number): Promise<RemoteComment[]> {
+    const comments: RemoteComment[] = [];
+    let page = 1;
+
+    try {
+      while (true) {
+        if (page > 1) {
+          await this.delay(this.config.rate_limit_delay || 100);
+        }
+
+        const response = await this.octokit.rest.issues.listComments({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: issueNumber,
+          per_page: 100,
+          page,
+        });
+
+        comments.push(...response.data.map((comment) => this.convertGitHubComment(comment)));
+
+        if (response.data.length < 100) {
+          break;
+        }
+
+        page++;
+      }
+
+      return comments;
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch comments for issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Add a comment to an issue
+   */
+  async createComment(issueNumber: number, body: string): Promise<RemoteComment> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const response = await this.octokit.rest.issues.createComment({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: issueNumber,
+        body,
+      });
+
+      return this.convertGitHubComment(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to comment on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Replace the body of a comment
+   */
+  async updateComment(
+    issueNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<RemoteComment> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const response = await this.octokit.rest.issues.updateComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+        body,
+      });
+
+      return this.convertGitHubComment(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to update comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete a comment
+   */
+  async deleteComment(issueNumber: number, commentId: number): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.octokit.rest.issues.deleteComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the users who reacted to a comment, grouped by reaction
+   */
+  async getCommentReactions(issueNumber: number, commentId: number): Promise<CommentReactions> {
+    try {
+      const response = await this.octokit.rest.reactions.listForIssueComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+        per_page: 100,
+      });
+
+      const reactions: CommentReactions = {};
+      for (const reaction of response.data) {
+        const users = reactions[reaction.content] || [];
+        users.push(reaction.user?.login || 'unknown');
+        reactions[reaction.content] = users;
+      }
+      return reactions;
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch reactions for comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * React to a comment as the authenticated user
+   */
+  async addCommentReaction(
+    issueNumber: number,
+    commentId: number,
+    reaction: ReactionType
+  ): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.octokit.rest.reactions.createForIssueComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: commentId,
+        content: reaction,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to react to comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Attach an issue to a parent issue as a sub-issue
+   */
+  async addSubIssue(parentNumber: number, child: GitHubIssue): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: parentNumber,
+        sub_issue_id: child.id,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to add #${child.number} as a sub-issue of #${parentNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get all pull requests, open and closed, with pagination
+   */
+  async getPullRequests(): Promise<RemotePullRequest[]> {
+    const pulls: RemotePullRequest[] = [];
+    let page = 1;
+
+    try {
+      while (true) {
+        if (page > 1) {
+          await this.delay(this.config.rate_limit_delay || 100);
+        }
+
+        const response = await this.octokit.rest.pulls.list({
+          owner: this.owner,
+          repo: this.repo,
+          state: 'all',
+          per_page: 100,
+          page,
+        });
+
+        pulls.push(...response.data.map((pull) => this.convertGitHubPullRequest(pull)));
+
+        if (response.data.length < 100) {
+          break;
+        }
+
+        page++;
+      }
+
+      return pulls;
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch pull requests: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Open a pull request, against the default branch unless a base is given
+   */
+  async createPullRequest(data: RemotePullRequestInput): Promise<RemotePullRequest> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      let base = data.base;
+      if (!base) {
+        const { data: repoData } = await this.octokit.rest.repos.get({
+          owner: this.owner,
+          repo: this.repo,
+        });
+        base = repoData.default_branch;
+      }
+
+      const response = await this.octokit.rest.pulls.create({
+        owner: this.owner,
+        repo: this.repo,
+        title: data.title,
+        body: data.body,
+        head: data.head,
+        base,
+        draft: data.draft,
+      });
+
+      return this.convertGitHubPullRequest(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to create pull request from ${data.head}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Update a pull request's title, body or open/closed state
+   */
+  async updatePullRequest(
+    pullNumber: number,
+    data: RemotePullRequestUpdate
+  ): Promise<RemotePullRequest> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const response = await this.octokit.rest.pulls.update({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pullNumber,
+        title: data.title,
+        body: data.body,
+        state: data.state,
+      });
+
+      return this.convertGitHubPullRequest(response.data);
+    } catch (error) {
+      throw new Error(
+        `Failed to update pull request #${pullNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get repository collaborators
    */
@@ -375,6 +731,56 @@ export class GitHubClient {
     };
   }
 
+  /**
+   * Convert GitHub API milestone to our format
+   */
+  private convertGitHubMilestone(milestone: OctokitMilestone): GitHubMilestone {
+    return {
+      number: milestone.number,
+      title: milestone.title,
+      description: milestone.description || undefined,
+      state: milestone.state,
+      due_on: milestone.due_on || undefined,
+      updated_at: milestone.updated_at,
+      html_url: milestone.html_url,
+    };
+  }
+
+  /**
+   * Convert GitHub API comment to our format
+   */
+  private convertGitHubComment(comment: OctokitComment): RemoteComment {
+    return {
+      id: comment.id,
+      body: comment.body || '',
+      author: comment.user?.login || 'unknown',
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      html_url: comment.html_url,
+      reactions: comment.reactions?.total_count,
+    };
+  }
+
+  /**
+   * Convert GitHub API pull request to our format
+   */
+  private convertGitHubPullRequest(pull: OctokitPullRequest): RemotePullRequest {
+    return {
+      id: pull.id,
+      number: pull.number,
+      title: pull.title,
+      body: pull.body || '',
+      state: pull.merged_at ? 'merged' : pull.state === 'open' ? 'open' : 'closed',
+      draft: Boolean(pull.draft),
+      head: pull.head?.ref,
+      base: pull.base?.ref,
+      merge_commit: pull.merged_at ? pull.merge_commit_sha || undefined : undefined,
+      created_at: pull.created_at,
+      updated_at: pull.updated_at,
+      html_url: pull.html_url,
+    };
+  }
+
   /**
    * Helper method to add delay for rate limiting
    */
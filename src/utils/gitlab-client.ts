@@ -0,0 +1,906 @@
+/**
+ * GitLab API Client
+ * Handles GitLab Issues API (v4) interactions with token authentication, rate limiting
+ * and pagination, mapping issues, milestones, notes and merge requests to the shapes
+ * sync works with
+ */
+
+import * as http from 'node:http';
+import * as https from 'node:https';
+import type {
+  RemoteIssueInput,
+  RemoteIssueQuery,
+  RemoteIssueUpdate,
+  RemoteMilestoneInput,
+  RemotePullRequestInput,
+  RemotePullRequestUpdate,
+  SyncProvider,
+} from '../integrations/sync-provider.js';
+import type {
+  GitHubIssue,
+  GitHubMilestone,
+  GitHubSyncConfig,
+  RateLimitInfo,
+  RemoteComment,
+  RemotePullRequest,
+} from '../types/ai-trackdown.js';
+import type { CommentReactions, ReactionType } from '../types/comment.js';
+
+// Reporter access is needed to edit issues, labels and milestones
+const REPORTER_ACCESS_LEVEL = 20;
+
+// GitLab award emoji names for GitHub reaction names
+const AWARD_EMOJI: Record<ReactionType, string> = {
+  '+1': 'thumbsup',
+  '-1': 'thumbsdown',
+  laugh: 'laughing',
+  hooray: 'tada',
+  confused: 'confused',
+  heart: 'heart',
+  rocket: 'rocket',
+  eyes: 'eyes',
+};
+
+export class GitLabRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GitLabRequestError';
+  }
+}
+
+interface GitLabResponse<T> {
+  data: T;
+  headers: http.IncomingHttpHeaders;
+}
+
+// The parts of the GitLab v4 REST payloads that sync reads
+
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+interface GitLabProject {
+  default_branch: string;
+  permissions?: {
+    project_access?: { access_level: number } | null;
+    group_access?: { access_level: number } | null;
+  };
+}
+
+interface GitLabLabel {
+  name: string;
+  color?: string;
+  description?: string | null;
+}
+
+interface GitLabMilestone {
+  id: number;
+  title: string;
+  description?: string | null;
+  state: 'active' | 'closed';
+  due_date?: string | null;
+  updated_at: string;
+  web_url: string;
+}
+
+interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  description?: string | null;
+  state: 'opened' | 'closed';
+  created_at: string;
+  updated_at: string;
+  assignee?: GitLabUser | null;
+  assignees?: GitLabUser[];
+  // Label names, or label objects with `with_labels_details`
+  labels?: Array<string | GitLabLabel>;
+  milestone?: Pick<GitLabMilestone, 'id' | 'title'> | null;
+  web_url: string;
+}
+
+interface GitLabNote {
+  id: number;
+  body?: string | null;
+  author?: GitLabUser | null;
+  system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitLabAwardEmoji {
+  name: string;
+  user?: GitLabUser | null;
+}
+
+interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  description?: string | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  draft?: boolean;
+  work_in_progress?: boolean;
+  source_branch: string;
+  target_branch: string;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+  created_at: string;
+  updated_at: string;
+  web_url: string;
+}
+
+interface GitLabErrorBody {
+  message?: unknown;
+  error?: unknown;
+}
+
+export class GitLabClient implements SyncProvider {
+  readonly name = 'gitlab' as const;
+  private config: GitHubSyncConfig;
+  private apiUrl: URL;
+  private projectPath: string;
+  // User IDs keyed by username, since GitLab assigns by ID
+  private userIds = new Map<string, number | null>();
+
+  constructor(config: GitHubSyncConfig) {
+    this.config = config;
+
+    const segments = config.repository.split('/');
+    if (segments.length < 2 || segments.some((segment) => !segment)) {
+      throw new Error(
+        `Invalid repository format: ${config.repository}. Expected format: group/project`
+      );
+    }
+    this.projectPath = encodeURIComponent(config.repository);
+
+    const base = (config.api_url || 'https://gitlab.com').replace(/\/+$/, '');
+    this.apiUrl = new URL(/\/api\/v4$/.test(base) ? `${base}/` : `${base}/api/v4/`);
+  }
+
+  /**
+   * Test GitLab connection and permissions
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      const { data: project } = await this.request<GitLabProject>('GET', this.projectUrl());
+      const access = Math.max(
+        project.permissions?.project_access?.access_level || 0,
+        project.permissions?.group_access?.access_level || 0
+      );
+
+      if (access < REPORTER_ACCESS_LEVEL) {
+        return {
+          success: false,
+          message: 'Token does not have at least Reporter access to the project',
+        };
+      }
+
+      return {
+        success: true,
+        message: `Connected to ${this.config.repository} successfully`,
+      };
+    } catch (error) {
+      if (error instanceof GitLabRequestError) {
+        switch (error.status) {
+          case 401:
+            return {
+              success: false,
+              message: 'Authentication failed. Please check your GitLab token.',
+            };
+          case 403:
+            return {
+              success: false,
+              message: 'Access forbidden. Token may not have required scopes (api).',
+            };
+          case 404:
+            return {
+              success: false,
+              message: `Project ${this.config.repository} not found or not accessible.`,
+            };
+          default:
+            return {
+              success: false,
+              message: `GitLab API error: ${error.message}`,
+            };
+        }
+      }
+      return {
+        success: false,
+        message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Get all issues from the GitLab project with pagination
+   */
+  async getAllIssues(options: RemoteIssueQuery = {}): Promise<GitHubIssue[]> {
+    const per_page = Math.min(this.config.batch_size || 100, 100);
+    const query: Record<string, string | number | undefined> = {
+      state:
+        options.state === 'open' ? 'opened' : options.state === 'closed' ? 'closed' : undefined,
+      order_by: options.sort === 'created' ? 'created_at' : 'updated_at',
+      sort: options.direction || 'desc',
+      updated_after: options.since,
+      per_page,
+    };
+
+    try {
+      const issues = await this.paginate<GitLabIssue>(this.projectUrl('issues'), query, per_page);
+      return issues.map((issue) => this.convertGitLabIssue(issue));
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch issues: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get a specific issue by its project-level number (iid)
+   */
+  async getIssue(issueNumber: number): Promise<GitHubIssue | null> {
+    try {
+      const { data } = await this.request<GitLabIssue>(
+        'GET',
+        this.projectUrl(`issues/${issueNumber}`)
+      );
+      return this.convertGitLabIssue(data);
+    } catch (error) {
+      if (error instanceof GitLabRequestError && error.status === 404) {
+        return null;
+      }
+      throw new Error(
+        `Failed to fetch issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create a new issue in GitLab
+   */
+  async createIssue(data: RemoteIssueInput): Promise<GitHubIssue> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data: issue } = await this.request<GitLabIssue>(
+        'POST',
+        this.projectUrl('issues'),
+        await this.toGitLabIssue(data)
+      );
+
+      return this.convertGitLabIssue(issue);
+    } catch (error) {
+      throw new Error(
+        `Failed to create issue: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Update an existing issue in GitLab
+   */
+  async updateIssue(issueNumber: number, data: RemoteIssueUpdate): Promise<GitHubIssue> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const body: Record<string, unknown> = await this.toGitLabIssue(data);
+      if (data.state) {
+        body.state_event = data.state === 'closed' ? 'close' : 'reopen';
+      }
+
+      const { data: issue } = await this.request<GitLabIssue>(
+        'PUT',
+        this.projectUrl(`issues/${issueNumber}`),
+        body
+      );
+
+      return this.convertGitLabIssue(issue);
+    } catch (error) {
+      throw new Error(
+        `Failed to update issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get project labels
+   */
+  async getLabels(): Promise<Array<{ name: string; color: string; description?: string }>> {
+    try {
+      const labels = await this.paginate<GitLabLabel>(
+        this.projectUrl('labels'),
+        { per_page: 100 },
+        100
+      );
+      return labels.map((label) => ({
+        name: label.name,
+        color: String(label.color || '').replace(/^#/, ''),
+        description: label.description || undefined,
+      }));
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch labels: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get project milestones, open and closed. Milestones are numbered by their
+   * global ID, which is what issues reference.
+   */
+  async getMilestones(): Promise<GitHubMilestone[]> {
+    try {
+      const milestones = await this.paginate<GitLabMilestone>(
+        this.projectUrl('milestones'),
+        { per_page: 100 },
+        100
+      );
+      return milestones.map((milestone) => this.convertGitLabMilestone(milestone));
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch milestones: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Create a milestone in GitLab
+   */
+  async createMilestone(data: RemoteMilestoneInput & { title: string }): Promise<GitHubMilestone> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data: milestone } = await this.request<GitLabMilestone>(
+        'POST',
+        this.projectUrl('milestones'),
+        {
+          title: data.title,
+          description: data.description,
+          due_date: data.due_on?.slice(0, 10),
+        }
+      );
+
+      // New milestones are always active; closing takes a second request
+      if (data.state === 'closed') {
+        return this.updateMilestone(milestone.id, { state: 'closed' });
+      }
+
+      return this.convertGitLabMilestone(milestone);
+    } catch (error) {
+      throw new Error(
+        `Failed to create milestone: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Update an existing milestone in GitLab
+   */
+  async updateMilestone(
+    milestoneNumber: number,
+    data: RemoteMilestoneInput
+  ): Promise<GitHubMilestone> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data: milestone } = await this.request<GitLabMilestone>(
+        'PUT',
+        this.projectUrl(`milestones/${milestoneNumber}`),
+        {
+          title: data.title,
+          description: data.description,
+          due_date: data.due_on?.slice(0, 10),
+          state_event: data.state ? (data.state === 'closed' ? 'close' : 'activate') : undefined,
+        }
+      );
+
+      return this.convertGitLabMilestone(milestone);
+    } catch (error) {
+      throw new Error(
+        `Failed to update milestone #${milestoneNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the comments (non-system notes) on an issue, oldest first
+   */
+  async getComments(issueNumber: number): Promise<RemoteComment[]> {
+    try {
+      const notes = await this.paginate<GitLabNote>(
+        this.projectUrl(`issues/${issueNumber}/notes`),
+        { sort: 'asc', order_by: 'created_at', per_page: 100 },
+        100
+      );
+      return notes.filter((note) => !note.system).map((note) => this.convertGitLabNote(note));
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch comments for issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Add a comment (note) to an issue
+   */
+  async createComment(issueNumber: number, body: string): Promise<RemoteComment> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data } = await this.request<GitLabNote>(
+        'POST',
+        this.projectUrl(`issues/${issueNumber}/notes`),
+        { body }
+      );
+
+      return this.convertGitLabNote(data);
+    } catch (error) {
+      throw new Error(
+        `Failed to comment on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Replace the body of a comment (note)
+   */
+  async updateComment(
+    issueNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<RemoteComment> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data } = await this.request<GitLabNote>(
+        'PUT',
+        this.projectUrl(`issues/${issueNumber}/notes/${commentId}`),
+        { body }
+      );
+
+      return this.convertGitLabNote(data);
+    } catch (error) {
+      throw new Error(
+        `Failed to update comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete a comment (note)
+   */
+  async deleteComment(issueNumber: number, commentId: number): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.request('DELETE', this.projectUrl(`issues/${issueNumber}/notes/${commentId}`));
+    } catch (error) {
+      throw new Error(
+        `Failed to delete comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the users who awarded emoji to a note, grouped by GitHub reaction name.
+   * Emoji without a GitHub equivalent are left out.
+   */
+  async getCommentReactions(issueNumber: number, commentId: number): Promise<CommentReactions> {
+    try {
+      const awards = await this.paginate<GitLabAwardEmoji>(
+        this.projectUrl(`issues/${issueNumber}/notes/${commentId}/award_emoji`),
+        { per_page: 100 },
+        100
+      );
+
+      const reactions: CommentReactions = {};
+      for (const award of awards) {
+        const reaction = (Object.keys(AWARD_EMOJI) as ReactionType[]).find(
+          (name) => AWARD_EMOJI[name] === award.name
+        );
+        if (!reaction) continue;
+        const users = reactions[reaction] || [];
+        users.push(award.user?.username || 'unknown');
+        reactions[reaction] = users;
+      }
+      return reactions;
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch reactions for comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Award emoji to a note as the token's user
+   */
+  async addCommentReaction(
+    issueNumber: number,
+    commentId: number,
+    reaction: ReactionType
+  ): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.request(
+        'POST',
+        this.projectUrl(`issues/${issueNumber}/notes/${commentId}/award_emoji`),
+        { name: AWARD_EMOJI[reaction] }
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to react to comment ${commentId} on issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Link an issue to a parent issue. GitLab's REST API cannot create child tasks
+   * for an issue, so the two are related with an issue link instead.
+   */
+  async addSubIssue(parentNumber: number, child: GitHubIssue): Promise<void> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      await this.request('POST', this.projectUrl(`issues/${parentNumber}/links`), {
+        target_project_id: this.config.repository,
+        target_issue_iid: child.number,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to link #${child.number} to #${parentNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get all merge requests, open, closed and merged, with pagination
+   */
+  async getPullRequests(): Promise<RemotePullRequest[]> {
+    try {
+      const requests = await this.paginate<GitLabMergeRequest>(
+        this.projectUrl('merge_requests'),
+        { state: 'all', per_page: 100 },
+        100
+      );
+      return requests.map((request) => this.convertGitLabMergeRequest(request));
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch merge requests: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Open a merge request, into the default branch unless a base is given
+   */
+  async createPullRequest(data: RemotePullRequestInput): Promise<RemotePullRequest> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      let base = data.base;
+      if (!base) {
+        const { data: project } = await this.request<GitLabProject>('GET', this.projectUrl());
+        base = project.default_branch;
+      }
+
+      const { data: request } = await this.request<GitLabMergeRequest>(
+        'POST',
+        this.projectUrl('merge_requests'),
+        {
+          source_branch: data.head,
+          target_branch: base,
+          // Merge requests are marked as drafts by their title
+          title: data.draft ? `Draft: ${data.title}` : data.title,
+          description: data.body,
+        }
+      );
+
+      return this.convertGitLabMergeRequest(request);
+    } catch (error) {
+      throw new Error(
+        `Failed to create merge request from ${data.head}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Update a merge request's title, description or open/closed state
+   */
+  async updatePullRequest(
+    pullNumber: number,
+    data: RemotePullRequestUpdate
+  ): Promise<RemotePullRequest> {
+    try {
+      await this.delay(this.config.rate_limit_delay || 100);
+
+      const { data: request } = await this.request<GitLabMergeRequest>(
+        'PUT',
+        this.projectUrl(`merge_requests/${pullNumber}`),
+        {
+          title: data.title,
+          description: data.body,
+          state_event: data.state ? (data.state === 'closed' ? 'close' : 'reopen') : undefined,
+        }
+      );
+
+      return this.convertGitLabMergeRequest(request);
+    } catch (error) {
+      throw new Error(
+        `Failed to update merge request !${pullNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get rate limit information from the RateLimit-* response headers. Self-hosted
+   * instances may not send them, in which case there is no limit to report.
+   */
+  async getRateLimit(): Promise<RateLimitInfo | null> {
+    try {
+      const { headers } = await this.request<unknown>('GET', this.projectUrl());
+      const limit = Number(headers['ratelimit-limit']);
+      const remaining = Number(headers['ratelimit-remaining']);
+
+      if (!Number.isFinite(limit) || !Number.isFinite(remaining)) {
+        return null;
+      }
+
+      return {
+        limit,
+        remaining,
+        reset: new Date(Number(headers['ratelimit-reset'] || 0) * 1000),
+        used: Number(headers['ratelimit-observed']) || limit - remaining,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Build the request body shared by issue create and update
+   */
+  private async toGitLabIssue(data: Partial<RemoteIssueInput>): Promise<Record<string, unknown>> {
+    const body: Record<string, unknown> = {
+      title: data.title,
+      description: data.body,
+      milestone_id: data.milestone,
+      labels: data.labels ? data.labels.join(',') : undefined,
+    };
+
+    if (data.assignee && data.assignee !== 'unassigned') {
+      const userId = await this.getUserId(data.assignee);
+      if (userId !== null) {
+        body.assignee_ids = [userId];
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * Look up a user ID by username; unknown users are left unassigned
+   */
+  private async getUserId(username: string): Promise<number | null> {
+    if (!this.userIds.has(username)) {
+      const { data } = await this.request<Array<{ id: number }>>('GET', 'users', undefined, {
+        username,
+      });
+      this.userIds.set(username, data[0]?.id ?? null);
+    }
+    return this.userIds.get(username) ?? null;
+  }
+
+  /**
+   * Fetch every page of a list endpoint
+   */
+  private async paginate<T>(
+    path: string,
+    query: Record<string, string | number | undefined>,
+    perPage: number
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let page = 1;
+
+    while (true) {
+      // Rate limiting delay
+      if (page > 1) {
+        await this.delay(this.config.rate_limit_delay || 100);
+      }
+
+      const { data } = await this.request<T[]>('GET', path, undefined, { ...query, page });
+      results.push(...data);
+
+      if (data.length < perPage) {
+        break;
+      }
+
+      page++;
+    }
+
+    return results;
+  }
+
+  private projectUrl(path?: string): string {
+    return path ? `projects/${this.projectPath}/${path}` : `projects/${this.projectPath}`;
+  }
+
+  /**
+   * Send an API request; non-2xx responses reject with a GitLabRequestError
+   */
+  private request<T>(
+    method: string,
+    path: string,
+    body?: Record<string, unknown>,
+    query: Record<string, string | number | undefined> = {}
+  ): Promise<GitLabResponse<T>> {
+    // The project path is already encoded, so it is appended rather than resolved
+    const url = new URL(`${this.apiUrl.href}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const payload = body ? JSON.stringify(body) : undefined;
+    const transport = url.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(
+        url,
+        {
+          method,
+          headers: {
+            'PRIVATE-TOKEN': this.config.token,
+            Accept: 'application/json',
+            ...(payload
+              ? {
+                  'Content-Type': 'application/json',
+                  'Content-Length': Buffer.byteLength(payload),
+                }
+              : {}),
+          },
+          timeout: 30000, // 30 second timeout
+        },
+        (res) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => {
+            text += chunk;
+          });
+          res.on('end', () => {
+            const status = res.statusCode || 0;
+            let data: unknown = null;
+            try {
+              data = text ? JSON.parse(text) : null;
+            } catch {
+              data = text;
+            }
+
+            if (status < 200 || status >= 300) {
+              const error = (data && typeof data === 'object' ? data : {}) as GitLabErrorBody;
+              const detail = error.message || error.error || res.statusMessage || 'Request failed';
+              reject(
+                new GitLabRequestError(
+                  status,
+                  `${status} ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`
+                )
+              );
+              return;
+            }
+
+            resolve({ data: data as T, headers: res.headers });
+          });
+        }
+      );
+
+      req.on('timeout', () => {
+        req.destroy(new Error('Request timed out'));
+      });
+      req.on('error', reject);
+      if (payload) {
+        req.write(payload);
+      }
+      req.end();
+    });
+  }
+
+  /**
+   * Convert GitLab API issue to our GitHubIssue format
+   */
+  private convertGitLabIssue(issue: GitLabIssue): GitHubIssue {
+    const assignee = issue.assignee || issue.assignees?.[0];
+    return {
+      id: issue.id,
+      number: issue.iid,
+      title: issue.title,
+      body: issue.description || '',
+      state: issue.state === 'closed' ? 'closed' : 'open',
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      assignee: assignee
+        ? {
+            login: assignee.username,
+            id: assignee.id,
+          }
+        : undefined,
+      // Issues list label names only
+      labels: (issue.labels || []).map((label) => ({
+        name: typeof label === 'string' ? label : label.name,
+        color: typeof label === 'string' ? '' : String(label.color || '').replace(/^#/, ''),
+      })),
+      milestone: issue.milestone
+        ? {
+            title: issue.milestone.title,
+            number: issue.milestone.id,
+          }
+        : undefined,
+      html_url: issue.web_url,
+    };
+  }
+
+  /**
+   * Convert GitLab API milestone to our format
+   */
+  private convertGitLabMilestone(milestone: GitLabMilestone): GitHubMilestone {
+    return {
+      number: milestone.id,
+      title: milestone.title,
+      description: milestone.description || undefined,
+      state: milestone.state === 'closed' ? 'closed' : 'open',
+      due_on: milestone.due_date ? `${milestone.due_date}T00:00:00Z` : undefined,
+      updated_at: milestone.updated_at,
+      html_url: milestone.web_url,
+    };
+  }
+
+  /**
+   * Convert GitLab API note to our comment format
+   */
+  private convertGitLabNote(note: GitLabNote): RemoteComment {
+    return {
+      id: note.id,
+      body: note.body || '',
+      author: note.author?.username || 'unknown',
+      created_at: note.created_at,
+      updated_at: note.updated_at,
+    };
+  }
+
+  /**
+   * Convert GitLab API merge request to our pull request format
+   */
+  private convertGitLabMergeRequest(request: GitLabMergeRequest): RemotePullRequest {
+    return {
+      id: request.id,
+      number: request.iid,
+      title: String(request.title || '').replace(/^(Draft:|\[Draft\]|\(Draft\))\s*/i, ''),
+      body: request.description || '',
+      state: request.state === 'merged' ? 'merged' : request.state === 'closed' ? 'closed' : 'open',
+      draft: Boolean(request.draft ?? request.work_in_progress),
+      head: request.source_branch,
+      base: request.target_branch,
+      merge_commit:
+        request.state === 'merged'
+          ? request.merge_commit_sha || request.squash_commit_sha || undefined
+          : undefined,
+      created_at: request.created_at,
+      updated_at: request.updated_at,
+      html_url: request.web_url,
+    };
+  }
+
+  /**
+   * Helper method to add delay for rate limiting
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
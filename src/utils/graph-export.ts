@@ -0,0 +1,229 @@
+/**
+ * Graph Export for AI-Trackdown
+ * Render the project → epic → issue → task → PR tree and dependency links as
+ * Mermaid or Graphviz DOT, with nodes coloured by state
+ */
+
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type ItemType,
+  isEpicData,
+  isIssueData,
+  isPRData,
+  isTaskData,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+
+export type GraphExportFormat = 'mermaid' | 'dot';
+
+// Markers around a graph embedded in item markdown, so a new export replaces it
+export const GRAPH_EMBED_START = '<!-- aitrackdown:graph -->';
+export const GRAPH_EMBED_END = '<!-- /aitrackdown:graph -->';
+
+// Same palette as the static site's state badges
+const STATE_COLORS: Record<UnifiedState, { fill: string; stroke: string }> = {
+  planning: { fill: '#f6f8fa', stroke: '#8c959f' },
+  active: { fill: '#ddf4ff', stroke: '#0969da' },
+  ready_for_engineering: { fill: '#ddf4ff', stroke: '#0969da' },
+  ready_for_qa: { fill: '#fff8c5', stroke: '#9a6700' },
+  ready_for_deployment: { fill: '#fff8c5', stroke: '#9a6700' },
+  completed: { fill: '#dafbe1', stroke: '#1a7f37' },
+  done: { fill: '#dafbe1', stroke: '#1a7f37' },
+  archived: { fill: '#eaeef2', stroke: '#6e7781' },
+  won_t_do: { fill: '#eaeef2', stroke: '#6e7781' },
+};
+
+const DEPENDENCY_COLOR = '#cf222e';
+
+export interface GraphExportNode {
+  id: string;
+  type: ItemType;
+  label: string;
+  // Project nodes have no state
+  state?: UnifiedState;
+}
+
+export interface GraphExportEdge {
+  from: string;
+  to: string;
+  // hierarchy: parent to child; blocks: the blocker to the item waiting on it
+  kind: 'hierarchy' | 'blocks';
+}
+
+export interface GraphExportOptions {
+  format: GraphExportFormat;
+  title?: string;
+  // Root project node the epics hang off; omit to draw epics as roots
+  project?: string;
+}
+
+/**
+ * Collect the nodes and edges between the given items. Links to items outside
+ * the set are dropped.
+ */
+export function buildExportGraph(
+  items: AnyItemData[],
+  project?: string
+): { nodes: GraphExportNode[]; edges: GraphExportEdge[] } {
+  const nodes: GraphExportNode[] = items.map((item) => ({
+    id: getItemId(item),
+    type: getItemType(item),
+    label: item.title,
+    state: StateManager.getEffectiveState(item),
+  }));
+  const ids = new Set(nodes.map((node) => node.id));
+  const edges: GraphExportEdge[] = [];
+  const seen = new Set<string>();
+
+  const addEdge = (from: string | undefined, to: string, kind: GraphExportEdge['kind']) => {
+    const key = `${from}>${to}>${kind}`;
+    if (!from || from === to || !ids.has(from) || !ids.has(to) || seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to, kind });
+  };
+
+  if (project) {
+    const projectIds = new Set(items.filter(isEpicData).map((epic) => epic.project_id || project));
+    for (const projectId of projectIds) {
+      nodes.unshift({ id: projectId, type: 'project', label: projectId });
+      ids.add(projectId);
+    }
+  }
+
+  for (const item of items) {
+    const id = getItemId(item);
+    if (isEpicData(item) && project) {
+      addEdge(item.project_id || project, id, 'hierarchy');
+    } else if (isIssueData(item)) {
+      addEdge(item.epic_id, id, 'hierarchy');
+    } else if (isTaskData(item)) {
+      addEdge(item.parent_task || item.issue_id, id, 'hierarchy');
+    } else if (isPRData(item)) {
+      addEdge(item.issue_id, id, 'hierarchy');
+    }
+  }
+
+  for (const item of items) {
+    const id = getItemId(item);
+    const links = item as { dependencies?: string[]; blocked_by?: string[]; blocks?: string[] };
+    for (const blocker of [...(links.dependencies || []), ...(links.blocked_by || [])]) {
+      addEdge(blocker, id, 'blocks');
+    }
+    for (const blocked of links.blocks || []) {
+      addEdge(id, blocked, 'blocks');
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Render items as a Mermaid flowchart or a Graphviz digraph
+ */
+export function exportGraph(items: AnyItemData[], options: GraphExportOptions): string {
+  const graph = buildExportGraph(items, options.project);
+  return options.format === 'dot'
+    ? renderDot(graph, options.title)
+    : renderMermaid(graph, options.title);
+}
+
+/**
+ * Put a rendered graph into markdown between the embed markers, replacing an
+ * earlier embed or appending a new section
+ */
+export function embedGraph(markdown: string, graph: string, format: GraphExportFormat): string {
+  const block = `${GRAPH_EMBED_START}\n\`\`\`${format}\n${graph.trimEnd()}\n\`\`\`\n${GRAPH_EMBED_END}`;
+  const start = markdown.indexOf(GRAPH_EMBED_START);
+  const end = markdown.indexOf(GRAPH_EMBED_END);
+  if (start !== -1 && end > start) {
+    return `${markdown.slice(0, start)}${block}${markdown.slice(end + GRAPH_EMBED_END.length)}`;
+  }
+  return `${markdown.trimEnd()}\n\n## Dependency Graph\n\n${block}\n`;
+}
+
+function renderMermaid(
+  graph: { nodes: GraphExportNode[]; edges: GraphExportEdge[] },
+  title?: string
+): string {
+  const lines: string[] = [];
+  if (title) {
+    lines.push('---', `title: ${title}`, '---');
+  }
+  lines.push('flowchart TD');
+
+  for (const node of graph.nodes) {
+    const label = escapeMermaid(node.type === 'project' ? node.label : `${node.id}: ${node.label}`);
+    // Projects and epics as stadiums, PRs as hexagons, the rest as boxes
+    const shape =
+      node.type === 'project' || node.type === 'epic'
+        ? `(["${label}"])`
+        : node.type === 'pr'
+          ? `{{"${label}"}}`
+          : `["${label}"]`;
+    lines.push(`  ${mermaidId(node.id)}${shape}`);
+  }
+
+  graph.edges.forEach((edge, index) => {
+    const arrow = edge.kind === 'blocks' ? ' -.->|blocks| ' : ' --> ';
+    lines.push(`  ${mermaidId(edge.from)}${arrow}${mermaidId(edge.to)}`);
+    if (edge.kind === 'blocks') {
+      lines.push(`  linkStyle ${index} stroke:${DEPENDENCY_COLOR}`);
+    }
+  });
+
+  const states = new Set(graph.nodes.map((node) => node.state).filter(Boolean) as UnifiedState[]);
+  for (const state of states) {
+    const { fill, stroke } = STATE_COLORS[state] || STATE_COLORS.planning;
+    lines.push(`  classDef state_${state} fill:${fill},stroke:${stroke}`);
+    const members = graph.nodes.filter((node) => node.state === state).map((node) => node.id);
+    lines.push(`  class ${members.map(mermaidId).join(',')} state_${state}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderDot(
+  graph: { nodes: GraphExportNode[]; edges: GraphExportEdge[] },
+  title?: string
+): string {
+  const lines = [`digraph ${quoteDot(title || 'aitrackdown')} {`, '  rankdir=TB;'];
+  if (title) {
+    lines.push(`  label=${quoteDot(title)};`, '  labelloc=t;');
+  }
+  lines.push('  node [shape=box, style="rounded,filled", fontname="Helvetica"];');
+
+  for (const node of graph.nodes) {
+    const colors = node.state ? STATE_COLORS[node.state] || STATE_COLORS.planning : undefined;
+    const attributes = [
+      `label=${quoteDot(node.type === 'project' ? node.label : `${node.id}\n${node.label}`)}`,
+      ...(node.type === 'project' ? ['shape=folder', 'fillcolor="#ffffff"'] : []),
+      ...(node.type === 'pr' ? ['shape=hexagon'] : []),
+      ...(colors ? [`fillcolor="${colors.fill}"`, `color="${colors.stroke}"`] : []),
+    ];
+    lines.push(`  ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const style =
+      edge.kind === 'blocks' ? ` [style=dashed, color="${DEPENDENCY_COLOR}", label="blocks"]` : '';
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${style};`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\n/g, ' ');
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
@@ -0,0 +1,234 @@
+/**
+ * Audit History Log for AI-Trackdown
+ * Append-only per-item event log of field changes, with point-in-time reconstruction
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import type { FieldChange, HistoryAction, HistoryEvent } from '../types/ai-trackdown.js';
+
+const HISTORY_DIR = '.ai-trackdown-history';
+
+// Fields that change on every write or only describe where the item lives
+const UNTRACKED_FIELDS = new Set(['file_path', 'updated_date']);
+
+export interface HistoryRecordOptions {
+  source: string;
+  author?: string;
+  reason?: string;
+  timestamp?: string;
+}
+
+export interface HistoryFilter {
+  since?: string;
+  until?: string;
+  field?: string;
+  author?: string;
+}
+
+/**
+ * Compute the field-level changes between two versions of an item
+ */
+export function diffItems(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const oldValue = before?.[field];
+    const newValue = after[field];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes.push({
+      field,
+      ...(oldValue !== undefined && { old_value: oldValue }),
+      ...(newValue !== undefined && { new_value: newValue }),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Render a recorded value on a single line for terminal output
+ */
+export function formatHistoryValue(value: unknown, maxLength = 60): string {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+/**
+ * Render an event as a header line plus one line per changed field
+ */
+export function formatHistoryEvent(event: HistoryEvent, field?: string): string {
+  const when = new Date(event.timestamp).toLocaleString();
+  const reason = event.reason ? chalk.gray(` - ${event.reason}`) : '';
+  const lines = [`${chalk.bold(when)}  ${chalk.cyan(event.author)}  ${event.source}${reason}`];
+
+  for (const change of event.changes) {
+    if (field && change.field !== field) continue;
+    if (change.field === 'content') {
+      // Bodies are too long to show inline; summarize the size of the edit
+      const delta = String(change.new_value ?? '').length - String(change.old_value ?? '').length;
+      lines.push(`  content: edited (${delta >= 0 ? '+' : ''}${delta} chars)`);
+      continue;
+    }
+    lines.push(
+      `  ${change.field}: ${chalk.red(formatHistoryValue(change.old_value))} → ${chalk.green(formatHistoryValue(change.new_value))}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize a user-supplied date to an ISO timestamp for comparisons
+ */
+export function toHistoryTimestamp(input: string): string {
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${input}`);
+  }
+  return date.toISOString();
+}
+
+export class HistoryLog {
+  private historyDir: string;
+
+  constructor(tasksRoot: string) {
+    this.historyDir = path.join(tasksRoot, HISTORY_DIR);
+  }
+
+  /**
+   * Append an event for an item; returns null when there is nothing to record
+   */
+  public record(
+    itemId: string,
+    action: HistoryAction,
+    changes: FieldChange[],
+    options: HistoryRecordOptions
+  ): HistoryEvent | null {
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const event: HistoryEvent = {
+      id: `HE-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      item_id: itemId,
+      timestamp: options.timestamp || new Date().toISOString(),
+      author: options.author || process.env.USER || 'system',
+      action,
+      source: options.source,
+      changes,
+      ...(options.reason && { reason: options.reason }),
+    };
+
+    if (!fs.existsSync(this.historyDir)) {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+    }
+    fs.appendFileSync(this.getLogPath(itemId), `${JSON.stringify(event)}\n`, 'utf8');
+    return event;
+  }
+
+  /**
+   * Diff two versions of an item and record the changed fields
+   */
+  public recordDiff(
+    itemId: string,
+    action: HistoryAction,
+    before: object | null,
+    after: object,
+    options: HistoryRecordOptions
+  ): HistoryEvent | null {
+    return this.record(
+      itemId,
+      action,
+      diffItems(before as Record<string, unknown> | null, after as Record<string, unknown>),
+      options
+    );
+  }
+
+  /**
+   * Read an item's events in chronological order, optionally filtered
+   */
+  public getEvents(itemId: string, filter: HistoryFilter = {}): HistoryEvent[] {
+    const logPath = this.getLogPath(itemId);
+    if (!fs.existsSync(logPath)) {
+      return [];
+    }
+
+    const since = filter.since && toHistoryTimestamp(filter.since);
+    const until = filter.until && toHistoryTimestamp(filter.until);
+    const events: HistoryEvent[] = [];
+
+    for (const line of fs.readFileSync(logPath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as HistoryEvent);
+      } catch {
+        // Skip corrupted lines rather than hiding the rest of the history
+      }
+    }
+
+    return events
+      .filter((event) => {
+        if (since && event.timestamp < since) return false;
+        if (until && event.timestamp > until) return false;
+        if (filter.author && event.author !== filter.author) return false;
+        if (filter.field && !event.changes.some((c) => c.field === filter.field)) return false;
+        return true;
+      })
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Reconstruct an item as it was at a point in time by undoing every later
+   * change, starting from its current state. Returns null if it did not exist yet.
+   */
+  public reconstruct(
+    itemId: string,
+    current: object,
+    asOf: string
+  ): Record<string, unknown> | null {
+    const cutoff = toHistoryTimestamp(asOf);
+    const snapshot: Record<string, unknown> = { ...(current as Record<string, unknown>) };
+    const later = this.getEvents(itemId).filter((event) => event.timestamp > cutoff);
+
+    const created = snapshot.created_date;
+    if (
+      later.some((event) => event.action === 'create') ||
+      (typeof created === 'string' && new Date(created).getTime() > new Date(cutoff).getTime())
+    ) {
+      return null;
+    }
+
+    for (const event of later.reverse()) {
+      // Comments live in their own files and are not part of the item itself
+      if (event.action === 'comment') continue;
+      for (const change of event.changes) {
+        if (change.old_value === undefined) {
+          delete snapshot[change.field];
+        } else {
+          snapshot[change.field] = change.old_value;
+        }
+      }
+    }
+
+    return snapshot;
+  }
+
+  private getLogPath(itemId: string): string {
+    // IDs are used as file names, so refuse anything that could escape the directory
+    if (!/^[A-Za-z0-9_-]+$/.test(itemId)) {
+      throw new Error(`Invalid item ID: ${itemId}`);
+    }
+    return path.join(this.historyDir, `${itemId}.jsonl`);
+  }
+}
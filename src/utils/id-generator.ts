@@ -6,6 +6,17 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { IdGenerator, ProjectConfig } from '../types/ai-trackdown.js';
+import { writeFileJournaled } from './journaled-fs.js';
+
+type CounterType = 'project' | 'epic' | 'issue' | 'task' | 'pr' | 'sprint' | 'milestone';
+
+// Prefixes used when the config does not define one for the type
+const DEFAULT_PREFIXES: Partial<Record<CounterType, string>> = {
+  project: 'PRJ',
+  pr: 'PR',
+  sprint: 'SPRINT',
+  milestone: 'MS',
+};
 
 export class AITrackdownIdGenerator implements IdGenerator {
   private config: ProjectConfig;
@@ -17,12 +28,16 @@ export class AITrackdownIdGenerator implements IdGenerator {
     issue: number;
     task: number;
     pr: number;
+    sprint: number;
+    milestone: number;
   } = {
     project: 1,
     epic: 1,
     issue: 1,
     task: 1,
     pr: 1,
+    sprint: 1,
+    milestone: 1,
   };
 
   private countersPath: string;
@@ -85,6 +100,26 @@ export class AITrackdownIdGenerator implements IdGenerator {
     return id;
   }
 
+  /**
+   * Generate unique Sprint ID
+   */
+  public generateSprintId(_title: string): string {
+    const id = `${this.getPrefix('sprint')}-${this.counters.sprint.toString().padStart(4, '0')}`;
+    this.counters.sprint++;
+    this.saveCounters();
+    return id;
+  }
+
+  /**
+   * Generate unique Milestone ID
+   */
+  public generateMilestoneId(_title: string): string {
+    const id = `${this.getPrefix('milestone')}-${this.counters.milestone.toString().padStart(4, '0')}`;
+    this.counters.milestone++;
+    this.saveCounters();
+    return id;
+  }
+
   /**
    * Generate filename for an item
    */
@@ -104,10 +139,8 @@ export class AITrackdownIdGenerator implements IdGenerator {
   /**
    * Get next available ID without incrementing counter
    */
-  public peekNextId(type: 'project' | 'epic' | 'issue' | 'task' | 'pr'): string {
-    const prefix =
-      this.config.naming_conventions[`${type}_prefix`] ||
-      (type === 'project' ? 'PRJ' : type === 'pr' ? 'PR' : '');
+  public peekNextId(type: CounterType): string {
+    const prefix = this.getPrefix(type);
     const counter = this.counters[type];
     return `${prefix}-${counter.toString().padStart(4, '0')}`;
   }
@@ -116,7 +149,7 @@ export class AITrackdownIdGenerator implements IdGenerator {
    * Reset counters (dangerous - only for testing or project reset)
    */
   public resetCounters(): void {
-    this.counters = { project: 1, epic: 1, issue: 1, task: 1, pr: 1 };
+    this.counters = { project: 1, epic: 1, issue: 1, task: 1, pr: 1, sprint: 1, milestone: 1 };
     this.saveCounters();
   }
 
@@ -130,7 +163,7 @@ export class AITrackdownIdGenerator implements IdGenerator {
   /**
    * Set specific counter value (useful for migration)
    */
-  public setCounter(type: 'project' | 'epic' | 'issue' | 'task' | 'pr', value: number): void {
+  public setCounter(type: CounterType, value: number): void {
     this.counters[type] = Math.max(1, value);
     this.saveCounters();
   }
@@ -196,6 +229,13 @@ export class AITrackdownIdGenerator implements IdGenerator {
     this.saveCounters();
   }
 
+  /**
+   * Resolve the configured ID prefix for a counter type
+   */
+  private getPrefix(type: CounterType): string {
+    return this.config.naming_conventions[`${type}_prefix`] || DEFAULT_PREFIXES[type] || '';
+  }
+
   /**
    * Load counters from file
    */
@@ -211,6 +251,8 @@ export class AITrackdownIdGenerator implements IdGenerator {
         this.counters.issue = Math.max(1, loaded.issue || 1);
         this.counters.task = Math.max(1, loaded.task || 1);
         this.counters.pr = Math.max(1, loaded.pr || 1);
+        this.counters.sprint = Math.max(1, loaded.sprint || 1);
+        this.counters.milestone = Math.max(1, loaded.milestone || 1);
       }
     } catch (error) {
       console.warn(
@@ -230,8 +272,12 @@ export class AITrackdownIdGenerator implements IdGenerator {
         fs.mkdirSync(dir, { recursive: true });
       }
 
-      const data = JSON.stringify(this.counters, null, 2);
-      fs.writeFileSync(this.countersPath, data, 'utf8');
+      // Both ID generators share this file; keep the counters the other one owns
+      const existing = fs.existsSync(this.countersPath)
+        ? JSON.parse(fs.readFileSync(this.countersPath, 'utf8'))
+        : {};
+      const data = JSON.stringify({ ...existing, ...this.counters }, null, 2);
+      writeFileJournaled(this.countersPath, data);
     } catch (error) {
       console.warn(
         `Failed to save counters: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -242,10 +288,8 @@ export class AITrackdownIdGenerator implements IdGenerator {
   /**
    * Validate ID format
    */
-  public validateId(id: string, type: 'project' | 'epic' | 'issue' | 'task' | 'pr'): boolean {
-    const prefix =
-      this.config.naming_conventions[`${type}_prefix`] ||
-      (type === 'project' ? 'PRJ' : type === 'pr' ? 'PR' : '');
+  public validateId(id: string, type: CounterType): boolean {
+    const prefix = this.getPrefix(type);
     const pattern = new RegExp(`^${prefix}-\\d{4}$`);
     return pattern.test(id);
   }
@@ -255,11 +299,9 @@ export class AITrackdownIdGenerator implements IdGenerator {
    */
   public extractIdNumber(
     id: string,
-    type: 'project' | 'epic' | 'issue' | 'task' | 'pr'
+    type: CounterType
   ): number | null {
-    const prefix =
-      this.config.naming_conventions[`${type}_prefix`] ||
-      (type === 'project' ? 'PRJ' : type === 'pr' ? 'PR' : '');
+    const prefix = this.getPrefix(type);
     const pattern = new RegExp(`^${prefix}-(\\d{4})$`);
     const match = id.match(pattern);
     return match ? parseInt(match[1], 10) : null;
@@ -269,13 +311,11 @@ export class AITrackdownIdGenerator implements IdGenerator {
    * Generate batch of IDs (useful for bulk operations)
    */
   public generateBatchIds(
-    type: 'project' | 'epic' | 'issue' | 'task' | 'pr',
+    type: CounterType,
     count: number
   ): string[] {
     const ids: string[] = [];
-    const prefix =
-      this.config.naming_conventions[`${type}_prefix`] ||
-      (type === 'project' ? 'PRJ' : type === 'pr' ? 'PR' : '');
+    const prefix = this.getPrefix(type);
 
     for (let i = 0; i < count; i++) {
       const id = `${prefix}-${this.counters[type].toString().padStart(4, '0')}`;
@@ -1,19 +1,29 @@
 /**
  * Index Auto-Updater Utility
- * Provides helper functions to automatically update the TrackdownIndex
- * when items are created, modified, or deleted
+ * Provides helper functions to automatically update the TrackdownIndex and the
+ * full-text search index when items or their comments are created, modified, or deleted
  */
 
-import type { ItemType } from '../types/ai-trackdown.js';
+import type { ItemType, ProjectConfig } from '../types/ai-trackdown.js';
 import { ConfigManager } from './config-manager.js';
 import { Formatter } from './formatter.js';
+import { formatRollupResult, RollupEngine, type RollupResult } from './rollup-engine.js';
+import { SearchIndex } from './search-index.js';
 import { TrackdownIndexManager } from './trackdown-index-manager.js';
 
 export class IndexAutoUpdater {
+  private config: ProjectConfig;
+  private projectRoot: string;
+  private cliTasksDir?: string;
   private indexManager: TrackdownIndexManager;
+  private rollupEngine?: RollupEngine;
+  private searchIndex?: SearchIndex;
   private isEnabled: boolean = true;
 
-  constructor(config: any, projectRoot: string, cliTasksDir?: string) {
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+    this.cliTasksDir = cliTasksDir;
     this.indexManager = new TrackdownIndexManager(config, projectRoot, cliTasksDir);
   }
 
@@ -31,6 +41,7 @@ export class IndexAutoUpdater {
     if (!this.isEnabled) return;
 
     try {
+      this.getSearchIndex().updateItem(type, id);
       await this.indexManager.updateItem(type, id);
       if (!silent) {
         console.log(Formatter.dim(`✓ Index updated for ${type} ${id}`));
@@ -47,12 +58,18 @@ export class IndexAutoUpdater {
   }
 
   /**
-   * Update index after item modification
+   * Update index after item modification, then roll the change up to the
+   * item's parents when roll-up is enabled
    */
-  async onItemUpdated(type: ItemType, id: string, silent: boolean = false): Promise<void> {
-    if (!this.isEnabled) return;
+  async onItemUpdated(
+    type: ItemType,
+    id: string,
+    silent: boolean = false
+  ): Promise<RollupResult[]> {
+    if (!this.isEnabled) return [];
 
     try {
+      this.getSearchIndex().updateItem(type, id);
       await this.indexManager.updateItem(type, id);
       if (!silent) {
         console.log(Formatter.dim(`✓ Index updated for ${type} ${id}`));
@@ -66,6 +83,29 @@ export class IndexAutoUpdater {
         );
       }
     }
+
+    const rollupEngine = this.getRollupEngine();
+    if (!rollupEngine) return [];
+
+    try {
+      const results = rollupEngine.rollupFrom(type, id, { user: process.env.USER });
+      for (const result of results) {
+        await this.indexManager.updateItem(result.item_type, result.item_id);
+        if (!silent) {
+          console.log(formatRollupResult(result));
+        }
+      }
+      return results;
+    } catch (error) {
+      if (!silent) {
+        console.warn(
+          Formatter.warning(
+            `Roll-up failed (non-critical): ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+      }
+      return [];
+    }
   }
 
   /**
@@ -75,6 +115,7 @@ export class IndexAutoUpdater {
     if (!this.isEnabled) return;
 
     try {
+      this.getSearchIndex().removeItem(type, id);
       await this.indexManager.removeItem(type, id);
       if (!silent) {
         console.log(Formatter.dim(`✓ Index updated (removed ${type} ${id})`));
@@ -90,6 +131,25 @@ export class IndexAutoUpdater {
     }
   }
 
+  /**
+   * Reindex an item's comments for search after one was added, edited or deleted
+   */
+  async onCommentsChanged(itemId: string, silent: boolean = false): Promise<void> {
+    if (!this.isEnabled) return;
+
+    try {
+      this.getSearchIndex().updateComments(itemId);
+    } catch (error) {
+      if (!silent) {
+        console.warn(
+          Formatter.warning(
+            `Search index update failed (non-critical): ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+      }
+    }
+  }
+
   /**
    * Batch update multiple items (for performance)
    */
@@ -104,9 +164,11 @@ export class IndexAutoUpdater {
         switch (update.action) {
           case 'create':
           case 'update':
+            this.getSearchIndex().updateItem(update.type, update.id);
             await this.indexManager.updateItem(update.type, update.id);
             break;
           case 'delete':
+            this.getSearchIndex().removeItem(update.type, update.id);
             await this.indexManager.removeItem(update.type, update.id);
             break;
         }
@@ -138,6 +200,7 @@ export class IndexAutoUpdater {
       }
 
       await this.indexManager.rebuildIndex();
+      this.getSearchIndex().rebuild();
 
       if (!silent) {
         console.log(Formatter.success('✅ Index rebuilt successfully'));
@@ -214,6 +277,23 @@ export class IndexAutoUpdater {
   getIndexManager(): TrackdownIndexManager {
     return this.indexManager;
   }
+
+  /**
+   * Get the full-text search index, opened on first use
+   */
+  getSearchIndex(): SearchIndex {
+    this.searchIndex ??= new SearchIndex(this.config, this.projectRoot, this.cliTasksDir);
+    return this.searchIndex;
+  }
+
+  /**
+   * Get the roll-up engine, created on first use and only when roll-up is enabled
+   */
+  private getRollupEngine(): RollupEngine | null {
+    if (this.config.rollup?.enabled !== true) return null;
+    this.rollupEngine ??= new RollupEngine(this.config, this.projectRoot, this.cliTasksDir);
+    return this.rollupEngine;
+  }
 }
 
 /**
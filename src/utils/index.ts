@@ -4,8 +4,14 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
+import type { Comment, CommentMetadata } from '../types/comment.js';
+import { ConfigManager } from './config-manager.js';
+import { HistoryLog } from './history-log.js';
+import { recordBeforeWrite } from './journaled-fs.js';
 import { IdGenerator } from './simple-id-generator.js';
 import { ProjectDetector } from './project-detector.js';
+import { SearchIndex } from './search-index.js';
+import { parseYamlFrontmatter, stringifyYamlFrontmatter } from './yaml.js';
 
 /**
  * Get the project root directory
@@ -127,6 +133,7 @@ export async function saveIndex(projectRoot: string, index: any): Promise<void>
   };
   
   // Write index file
+  recordBeforeWrite(indexPath);
   await fs.writeFile(indexPath, JSON.stringify(newIndex, null, 2));
 }
 
@@ -139,6 +146,273 @@ export async function generateCommentId(projectRoot: string): Promise<string> {
   return idGenerator.generateCommentId();
 }
 
+/**
+ * Write a new comment on an issue and register it in the index and the issue's history
+ */
+export async function createComment(
+  projectRoot: string,
+  issueId: string,
+  body: string,
+  options: {
+    author?: string;
+    editorUsed?: CommentMetadata['editorUsed'];
+    source?: string;
+    tasksRoot?: string;
+    // Original timestamp for comments brought in from elsewhere
+    createdAt?: string;
+    metadata?: CommentMetadata;
+  } = {}
+): Promise<Comment> {
+  const index = await loadIndex(projectRoot);
+  const commentId = await generateCommentId(projectRoot);
+
+  const now = new Date().toISOString();
+  const comment: Comment = {
+    id: commentId,
+    issueId,
+    body: body.trim(),
+    author: options.author || process.env.USER || 'unknown',
+    createdAt: options.createdAt || now,
+    updatedAt: options.createdAt || now,
+    metadata: {
+      editorUsed: options.editorUsed || 'cli',
+      ...options.metadata,
+    },
+  };
+
+  // Create comment directory if it doesn't exist
+  const commentDir = path.join(projectRoot, 'tasks', 'issues', 'comments', issueId);
+  await fs.mkdir(commentDir, { recursive: true });
+
+  // Write comment file
+  const commentPath = path.join(commentDir, `${commentId}.md`);
+  // Metadata such as sync links needs full YAML; plain comments keep the short form
+  const { body: _body, ...fields } = comment;
+  const frontmatter = options.metadata
+    ? stringifyYamlFrontmatter(fields, comment.body)
+    : `---
+id: ${comment.id}
+issueId: ${comment.issueId}
+author: ${comment.author}
+createdAt: ${comment.createdAt}
+updatedAt: ${comment.updatedAt}
+---
+
+${comment.body}`;
+
+  recordBeforeWrite(commentPath);
+  await fs.writeFile(commentPath, frontmatter);
+
+  // Update index
+  if (!index.comments) {
+    index.comments = {};
+  }
+  if (!index.comments[issueId]) {
+    index.comments[issueId] = {};
+  }
+  index.comments[issueId][commentId] = {
+    path: path.relative(projectRoot, commentPath),
+    lastModified: now,
+  };
+
+  await saveIndex(projectRoot, index);
+
+  // Record the new comment in the issue's audit history
+  const tasksRoot =
+    options.tasksRoot ||
+    new ConfigManager(projectRoot).getAbsolutePaths(process.env.CLI_TASKS_DIR).tasksRoot;
+  new HistoryLog(tasksRoot).record(
+    issueId,
+    'comment',
+    [{ field: `comments.${commentId}`, new_value: comment.body }],
+    { source: options.source || 'comment add', author: comment.author }
+  );
+  updateCommentSearch(projectRoot, issueId);
+
+  return comment;
+}
+
+/**
+ * Read all comments on an issue, oldest first
+ */
+export async function listComments(projectRoot: string, issueId: string): Promise<Comment[]> {
+  const index = await loadIndex(projectRoot);
+  const issueComments = index.comments?.[issueId] || {};
+
+  const comments: Comment[] = [];
+  for (const commentId of Object.keys(issueComments)) {
+    const content = await fs.readFile(path.join(projectRoot, issueComments[commentId].path), 'utf-8');
+    const { frontmatter, content: body } = parseYamlFrontmatter(content);
+    comments.push({
+      id: frontmatter.id,
+      issueId: frontmatter.issueId,
+      body: body.trim(),
+      author: frontmatter.author,
+      // Unquoted timestamps load as dates
+      createdAt: toIsoString(frontmatter.createdAt),
+      updatedAt: toIsoString(frontmatter.updatedAt),
+      editedAt: frontmatter.editedAt ? toIsoString(frontmatter.editedAt) : undefined,
+      metadata: frontmatter.metadata,
+    });
+  }
+
+  return comments.sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+}
+
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value ?? '');
+}
+
+/**
+ * Replace the body of an existing comment and record the edit in the issue's history
+ */
+export async function editComment(
+  projectRoot: string,
+  issueId: string,
+  commentId: string,
+  body: string,
+  options: {
+    editorUsed?: CommentMetadata['editorUsed'];
+    source?: string;
+    tasksRoot?: string;
+    // When the edit was made, for edits brought in from elsewhere
+    editedAt?: string;
+    metadata?: Partial<CommentMetadata>;
+  } = {}
+): Promise<Comment> {
+  if (!body.trim()) {
+    throw new Error('Comment body cannot be empty');
+  }
+
+  const index = await loadIndex(projectRoot);
+  const issueComments = index.comments?.[issueId] || {};
+  if (!issueComments[commentId]) {
+    throw new Error(`Comment ${commentId} not found in issue ${issueId}`);
+  }
+
+  const commentPath = path.join(projectRoot, issueComments[commentId].path);
+  const { frontmatter, content: existingBody } = parseYamlFrontmatter(
+    await fs.readFile(commentPath, 'utf-8')
+  );
+
+  const now = options.editedAt || new Date().toISOString();
+  const updatedComment = {
+    ...frontmatter,
+    updatedAt: now,
+    editedAt: now,
+    metadata: {
+      ...frontmatter.metadata,
+      edited: true,
+      editorUsed: options.editorUsed || 'cli',
+      ...options.metadata,
+    },
+  };
+  recordBeforeWrite(commentPath);
+  await fs.writeFile(commentPath, stringifyYamlFrontmatter(updatedComment, body.trim()));
+
+  issueComments[commentId].lastModified = now;
+  await saveIndex(projectRoot, index);
+
+  const tasksRoot =
+    options.tasksRoot ||
+    new ConfigManager(projectRoot).getAbsolutePaths(process.env.CLI_TASKS_DIR).tasksRoot;
+  new HistoryLog(tasksRoot).record(
+    issueId,
+    'comment',
+    [{ field: `comments.${commentId}`, old_value: existingBody, new_value: body.trim() }],
+    { source: options.source || 'comment update', timestamp: now }
+  );
+  updateCommentSearch(projectRoot, issueId);
+
+  return { ...updatedComment, issueId, body: body.trim() } as Comment;
+}
+
+/**
+ * Merge metadata into a comment, such as sync links or reactions, without marking it
+ * edited or recording history
+ */
+export async function updateCommentMetadata(
+  projectRoot: string,
+  issueId: string,
+  commentId: string,
+  metadata: Partial<CommentMetadata>
+): Promise<void> {
+  const index = await loadIndex(projectRoot);
+  const entry = index.comments?.[issueId]?.[commentId];
+  if (!entry) {
+    throw new Error(`Comment ${commentId} not found in issue ${issueId}`);
+  }
+
+  const commentPath = path.join(projectRoot, entry.path);
+  const { frontmatter, content } = parseYamlFrontmatter(await fs.readFile(commentPath, 'utf-8'));
+  recordBeforeWrite(commentPath);
+  await fs.writeFile(
+    commentPath,
+    stringifyYamlFrontmatter(
+      { ...frontmatter, metadata: { ...frontmatter.metadata, ...metadata } },
+      content.trim()
+    )
+  );
+}
+
+/**
+ * Delete a comment, drop it from the index and record the deletion in the issue's history
+ */
+export async function removeComment(
+  projectRoot: string,
+  issueId: string,
+  commentId: string,
+  options: { source?: string; tasksRoot?: string } = {}
+): Promise<void> {
+  const index = await loadIndex(projectRoot);
+  const issueComments = index.comments?.[issueId] || {};
+  if (!issueComments[commentId]) {
+    throw new Error(`Comment ${commentId} not found in issue ${issueId}`);
+  }
+
+  const commentPath = path.join(projectRoot, issueComments[commentId].path);
+  const { content: deletedBody } = parseYamlFrontmatter(await fs.readFile(commentPath, 'utf-8'));
+  recordBeforeWrite(commentPath);
+  await fs.unlink(commentPath);
+
+  // Clean up empty comment entries
+  delete issueComments[commentId];
+  if (Object.keys(issueComments).length === 0) {
+    delete index.comments[issueId];
+  }
+  await saveIndex(projectRoot, index);
+
+  const tasksRoot =
+    options.tasksRoot ||
+    new ConfigManager(projectRoot).getAbsolutePaths(process.env.CLI_TASKS_DIR).tasksRoot;
+  new HistoryLog(tasksRoot).record(
+    issueId,
+    'comment',
+    [{ field: `comments.${commentId}`, old_value: deletedBody }],
+    { source: options.source || 'comment delete' }
+  );
+  updateCommentSearch(projectRoot, issueId);
+
+  // Try to remove empty comment directory
+  try {
+    await fs.rmdir(path.dirname(commentPath));
+  } catch {
+    // Directory not empty, ignore
+  }
+}
+
+/**
+ * Reindex an issue's comments for full-text search; a failure leaves the comment in place
+ */
+export function updateCommentSearch(projectRoot: string, issueId: string): void {
+  try {
+    const config = new ConfigManager(projectRoot).getConfig();
+    new SearchIndex(config, projectRoot, process.env.CLI_TASKS_DIR).updateComments(issueId);
+  } catch {
+    // Not in a configured project, or no search index yet
+  }
+}
+
 /**
  * Format a comment for display
  */
@@ -0,0 +1,854 @@
+/**
+ * Item Importer for AI-Trackdown
+ * Imports epics, issues and tasks with their comments from Jira (JSON or CSV exports)
+ * and generic CSV files. A YAML mapping names the source fields for each item field
+ * and translates statuses and priorities; items remember the source ID they came
+ * from, so importing the same export again updates instead of duplicating.
+ */
+
+import * as YAML from 'yaml';
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type Priority,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import type { ConfigManager } from './config-manager.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { createComment, listComments } from './index.js';
+import { type ItemInput, ItemService } from './item-service.js';
+
+export type ImportFormat = 'jira-json' | 'jira-csv' | 'csv';
+export type ImportItemType = 'epic' | 'issue' | 'task';
+export type ImportRecord = Record<string, unknown>;
+
+export const IMPORT_FORMATS: ImportFormat[] = ['jira-json', 'jira-csv', 'csv'];
+
+// Item fields a mapping can fill from source fields
+export const IMPORT_FIELDS = [
+  'title',
+  'description',
+  'content',
+  'state',
+  'priority',
+  'assignee',
+  'tags',
+  'milestone',
+  'due_date',
+  'estimated_tokens',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type ImportFieldMap = Partial<Record<ImportField, string>>;
+
+export interface ImportMapping {
+  // Namespace for source IDs, so different sources cannot collide
+  source: string;
+  // Source field holding each record's unique ID
+  id: string;
+  // Other fields parents may be referenced by (e.g. Jira CSV "Parent id" is the numeric ID)
+  alt_ids?: string[];
+  type?: {
+    field: string;
+    values: Record<string, ImportItemType>;
+    default?: ImportItemType;
+  };
+  // Source fields holding the parent's ID; the first with a value wins
+  parent?: string | string[];
+  // Item field -> source field, for all types, with per-type overrides
+  fields: ImportFieldMap;
+  epic?: ImportFieldMap;
+  issue?: ImportFieldMap;
+  task?: ImportFieldMap;
+  // Source status or priority -> item state or priority
+  states?: Record<string, UnifiedState>;
+  priorities?: Record<string, Priority>;
+  // Source field holding the record's comments
+  comments?: string;
+}
+
+export interface ImportAction {
+  source_id: string;
+  type: ImportItemType;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  item_id?: string;
+  title: string;
+  parent_id?: string;
+  changes: string[];
+  comments: number;
+  warnings: string[];
+  error?: string;
+}
+
+export interface ImportResult {
+  dry_run: boolean;
+  actions: ImportAction[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: number;
+  comments: number;
+}
+
+export interface ImportOptions {
+  cliTasksDir?: string;
+  user?: string;
+}
+
+interface SourceComment {
+  author?: string;
+  body: string;
+  created?: string;
+}
+
+interface PlannedRecord {
+  record: ImportRecord;
+  sourceId: string;
+  type: ImportItemType;
+}
+
+const TYPE_ORDER: ImportItemType[] = ['epic', 'issue', 'task'];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const JIRA_TYPES: Record<string, ImportItemType> = {
+  Epic: 'epic',
+  Story: 'issue',
+  Bug: 'issue',
+  Task: 'issue',
+  Improvement: 'issue',
+  'New Feature': 'issue',
+  'Sub-task': 'task',
+  Subtask: 'task',
+};
+
+const JIRA_STATES: Record<string, UnifiedState> = {
+  Backlog: 'planning',
+  'To Do': 'planning',
+  Open: 'planning',
+  'Selected for Development': 'ready_for_engineering',
+  'In Progress': 'active',
+  'In Review': 'ready_for_qa',
+  'In QA': 'ready_for_qa',
+  Done: 'done',
+  Closed: 'done',
+  Resolved: 'done',
+  "Won't Do": 'won_t_do',
+  "Won't Fix": 'won_t_do',
+};
+
+const JIRA_PRIORITIES: Record<string, Priority> = {
+  Highest: 'critical',
+  Blocker: 'critical',
+  Critical: 'critical',
+  High: 'high',
+  Major: 'high',
+  Medium: 'medium',
+  Low: 'low',
+  Minor: 'low',
+  Lowest: 'low',
+  Trivial: 'low',
+};
+
+export const DEFAULT_IMPORT_MAPPINGS: Record<ImportFormat, ImportMapping> = {
+  'jira-json': {
+    source: 'jira',
+    id: 'key',
+    alt_ids: ['id'],
+    type: { field: 'fields.issuetype.name', values: JIRA_TYPES, default: 'issue' },
+    parent: ['fields.parent.key', 'fields.customfield_10014'],
+    fields: {
+      title: 'fields.summary',
+      content: 'fields.description',
+      state: 'fields.status.name',
+      priority: 'fields.priority.name',
+      assignee: 'fields.assignee.displayName',
+      tags: 'fields.labels',
+      milestone: 'fields.fixVersions',
+      due_date: 'fields.duedate',
+    },
+    states: JIRA_STATES,
+    priorities: JIRA_PRIORITIES,
+    comments: 'fields.comment.comments',
+  },
+  'jira-csv': {
+    source: 'jira',
+    id: 'Issue key',
+    alt_ids: ['Issue id'],
+    type: { field: 'Issue Type', values: JIRA_TYPES, default: 'issue' },
+    parent: ['Parent', 'Parent id', 'Custom field (Epic Link)'],
+    fields: {
+      title: 'Summary',
+      content: 'Description',
+      state: 'Status',
+      priority: 'Priority',
+      assignee: 'Assignee',
+      tags: 'Labels',
+      milestone: 'Fix Version/s',
+      due_date: 'Due Date',
+    },
+    states: JIRA_STATES,
+    priorities: JIRA_PRIORITIES,
+    comments: 'Comment',
+  },
+  csv: {
+    source: 'csv',
+    id: 'id',
+    type: {
+      field: 'type',
+      values: { epic: 'epic', issue: 'issue', task: 'task' },
+      default: 'issue',
+    },
+    parent: 'parent',
+    fields: {
+      title: 'title',
+      description: 'description',
+      content: 'content',
+      state: 'state',
+      priority: 'priority',
+      assignee: 'assignee',
+      tags: 'tags',
+      milestone: 'milestone',
+      due_date: 'due_date',
+      estimated_tokens: 'estimated_tokens',
+    },
+    comments: 'comments',
+  },
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines in quotes) into rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Read the records of an export file. CSV rows become records keyed by header;
+ * repeated headers (Jira's Labels and Comment columns) collect into arrays.
+ */
+export function readImportRecords(format: ImportFormat, text: string): ImportRecord[] {
+  if (format === 'jira-json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid Jira JSON export: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    const issues = Array.isArray(data) ? data : (data as { issues?: unknown })?.issues;
+    if (!Array.isArray(issues)) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        'Jira JSON export must be an array of issues or an object with an "issues" array'
+      );
+    }
+    return issues as ImportRecord[];
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const headers = header.map((name) => name.trim());
+  const repeated = new Set(headers.filter((name, index) => headers.indexOf(name) !== index));
+
+  return rows.map((cells) => {
+    const record: ImportRecord = {};
+    headers.forEach((name, index) => {
+      const value = cells[index] ?? '';
+      if (repeated.has(name)) {
+        const values = (record[name] as string[] | undefined) || [];
+        if (value.trim()) values.push(value);
+        record[name] = values;
+      } else {
+        record[name] = value;
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Build the mapping for a format, with an optional YAML mapping file layered over the
+ * defaults: top-level keys replace the defaults, except that fields, states and
+ * priorities are merged.
+ */
+export function loadImportMapping(format: ImportFormat, yamlText?: string): ImportMapping {
+  const defaults = DEFAULT_IMPORT_MAPPINGS[format];
+  if (!defaults) {
+    throw new AITrackdownError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown import format: ${format}. Expected one of: ${IMPORT_FORMATS.join(', ')}`
+    );
+  }
+  if (!yamlText) {
+    return defaults;
+  }
+
+  const custom = (YAML.parse(yamlText) || {}) as Partial<ImportMapping>;
+  if (typeof custom !== 'object' || Array.isArray(custom)) {
+    throw new AITrackdownError(ErrorCode.CONFIG_INVALID, 'Import mapping must be a YAML object');
+  }
+
+  const mapping: ImportMapping = {
+    ...defaults,
+    ...custom,
+    fields: { ...defaults.fields, ...custom.fields },
+    states: { ...defaults.states, ...custom.states },
+    priorities: { ...defaults.priorities, ...custom.priorities },
+  };
+
+  for (const fieldMap of [mapping.fields, mapping.epic, mapping.issue, mapping.task]) {
+    for (const field of Object.keys(fieldMap || {})) {
+      if (!(IMPORT_FIELDS as readonly string[]).includes(field)) {
+        throw new AITrackdownError(
+          ErrorCode.CONFIG_INVALID,
+          `Unknown item field in import mapping: ${field}. Expected one of: ${IMPORT_FIELDS.join(', ')}`
+        );
+      }
+    }
+  }
+  for (const [from, state] of Object.entries(mapping.states || {})) {
+    if (!StateManager.isLegacyStatus(state) && !StateManager.isResolutionState(state)) {
+      throw new AITrackdownError(
+        ErrorCode.CONFIG_INVALID,
+        `Invalid state for "${from}" in import mapping: ${state}`
+      );
+    }
+  }
+  for (const [from, priority] of Object.entries(mapping.priorities || {})) {
+    if (!PRIORITIES.includes(priority)) {
+      throw new AITrackdownError(
+        ErrorCode.CONFIG_INVALID,
+        `Invalid priority for "${from}" in import mapping: ${priority}`
+      );
+    }
+  }
+  if (!mapping.id) {
+    throw new AITrackdownError(ErrorCode.CONFIG_INVALID, 'Import mapping needs an id field');
+  }
+
+  return mapping;
+}
+
+export class ItemImporter {
+  private configManager: ConfigManager;
+  private options: ImportOptions;
+  private items: ItemService;
+
+  constructor(configManager: ConfigManager, options: ImportOptions = {}) {
+    this.configManager = configManager;
+    this.options = options;
+    this.items = new ItemService(configManager, options.cliTasksDir);
+  }
+
+  /**
+   * Import records: epics first, then issues, then tasks, so parents exist before
+   * their children. With dryRun nothing is written and new items have no ID yet.
+   */
+  public async import(
+    records: ImportRecord[],
+    mapping: ImportMapping,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ImportResult> {
+    const dryRun = options.dryRun ?? false;
+    const result: ImportResult = {
+      dry_run: dryRun,
+      actions: [],
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      errors: 0,
+      comments: 0,
+    };
+
+    // Items already imported, keyed by source ID; planned items get a placeholder ID
+    const imported = new Map<string, AnyItemData | { placeholder: string; type: string }>();
+    for (const item of this.getAllItems()) {
+      if (item.source_id) imported.set(item.source_id, item);
+    }
+
+    // Source references (ID and alternate IDs) -> namespaced source ID
+    const references = new Map<string, string>();
+    const planned: PlannedRecord[] = [];
+    for (const record of records) {
+      const id = this.text(record, mapping.id);
+      const sourceId = id ? `${mapping.source}:${id}` : '';
+      if (id) {
+        references.set(id, sourceId);
+        for (const alt of mapping.alt_ids || []) {
+          const altId = this.text(record, alt);
+          if (altId) references.set(altId, sourceId);
+        }
+      }
+      planned.push({ record, sourceId, type: this.resolveType(record, mapping) });
+    }
+    planned.sort((a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type));
+
+    const seen = new Set<string>();
+    const projectRoot = this.configManager.getAbsolutePaths(this.options.cliTasksDir).projectRoot;
+
+    for (const entry of planned) {
+      const action = await this.importRecord(entry, mapping, {
+        dryRun,
+        imported,
+        references,
+        seen,
+        projectRoot,
+      });
+      result.actions.push(action);
+      if (action.action === 'create') result.created++;
+      else if (action.action === 'update') result.updated++;
+      else if (action.action === 'unchanged') result.unchanged++;
+      else result.errors++;
+      result.comments += action.comments;
+    }
+
+    return result;
+  }
+
+  private async importRecord(
+    entry: PlannedRecord,
+    mapping: ImportMapping,
+    context: {
+      dryRun: boolean;
+      imported: Map<string, AnyItemData | { placeholder: string; type: string }>;
+      references: Map<string, string>;
+      seen: Set<string>;
+      projectRoot: string;
+    }
+  ): Promise<ImportAction> {
+    const { record, sourceId } = entry;
+    let type = entry.type;
+    const fieldMap = { ...mapping.fields, ...mapping[type] };
+    const title = this.text(record, fieldMap.title);
+    const action: ImportAction = {
+      source_id: sourceId,
+      type,
+      action: 'error',
+      title,
+      changes: [],
+      comments: 0,
+      warnings: [],
+    };
+
+    if (!sourceId) {
+      action.error = `Missing source ID (${mapping.id})`;
+      return action;
+    }
+    if (!title) {
+      action.error = 'Missing title';
+      return action;
+    }
+    if (context.seen.has(sourceId)) {
+      action.error = `Duplicate source ID ${sourceId}`;
+      return action;
+    }
+    context.seen.add(sourceId);
+
+    try {
+      const input = this.buildInput(record, fieldMap, mapping, action.warnings);
+
+      // Link to the parent: an epic for issues, an issue for tasks
+      const parent = this.resolveParent(record, mapping, context);
+      if (type === 'task' && parent?.type !== 'issue') {
+        action.warnings.push('No parent issue, imported as an issue');
+        type = 'issue';
+        action.type = type;
+      }
+      if (parent) {
+        if (type === 'issue' && parent.type === 'epic') {
+          input.epic_id = parent.id;
+        } else if (type === 'task') {
+          input.issue_id = parent.id;
+        } else {
+          action.warnings.push(`Parent ${parent.id} is a ${parent.type}, link dropped`);
+        }
+        action.parent_id = parent.id;
+      }
+
+      const comments = this.readComments(record, mapping);
+      const existing = context.imported.get(sourceId);
+
+      if (!existing || 'placeholder' in existing) {
+        action.action = 'create';
+        action.comments = comments.length;
+        if (context.dryRun) {
+          context.imported.set(sourceId, { placeholder: `(new ${sourceId})`, type });
+          return action;
+        }
+
+        const item = await this.items.createItem(
+          type,
+          { ...input, source_id: sourceId },
+          { user: this.options.user, source: 'import' }
+        );
+        action.item_id = getItemId(item);
+        context.imported.set(sourceId, item);
+        await this.addComments(action.item_id, comments, context.projectRoot);
+        return action;
+      }
+
+      // Re-run: update the fields that changed and add comments not seen before
+      const itemId = getItemId(existing);
+      action.item_id = itemId;
+      const updates = this.diffInput(existing, input);
+      action.changes = Object.keys(updates);
+
+      const known = await listComments(context.projectRoot, itemId);
+      const newComments = comments.filter(
+        (comment) =>
+          !known.some(
+            (seen) =>
+              seen.body === comment.body.trim() &&
+              (!comment.author || seen.author === comment.author)
+          )
+      );
+      action.comments = newComments.length;
+      action.action = action.changes.length > 0 || newComments.length > 0 ? 'update' : 'unchanged';
+
+      if (!context.dryRun) {
+        if (action.changes.length > 0) {
+          await this.items.updateItem(
+            itemId,
+            { ...updates, reason: updates.state ? `Imported from ${sourceId}` : undefined },
+            { user: this.options.user, source: 'import' }
+          );
+        }
+        await this.addComments(itemId, newComments, context.projectRoot);
+      }
+      return action;
+    } catch (error) {
+      action.action = 'error';
+      action.error = error instanceof Error ? error.message : 'Unknown error';
+      return action;
+    }
+  }
+
+  /**
+   * Map a record's source fields onto item input
+   */
+  private buildInput(
+    record: ImportRecord,
+    fieldMap: ImportFieldMap,
+    mapping: ImportMapping,
+    warnings: string[]
+  ): ItemInput {
+    const input: ItemInput = { title: this.text(record, fieldMap.title) };
+
+    const description = this.text(record, fieldMap.description);
+    if (description) input.description = description;
+    const content = this.text(record, fieldMap.content);
+    if (content) input.content = content;
+    const assignee = this.text(record, fieldMap.assignee);
+    if (assignee) input.assignee = assignee;
+    const milestone = this.text(record, fieldMap.milestone);
+    if (milestone) input.milestone = milestone;
+
+    const tags = this.list(record, fieldMap.tags);
+    if (tags.length > 0) input.tags = tags;
+
+    const status = this.text(record, fieldMap.state);
+    if (status) {
+      const state = mapping.states?.[status] ?? this.normalizeState(status);
+      if (state) input.state = state;
+      else warnings.push(`Unmapped status "${status}"`);
+    }
+
+    const priority = this.text(record, fieldMap.priority);
+    if (priority) {
+      const mapped =
+        mapping.priorities?.[priority] ??
+        PRIORITIES.find((candidate) => candidate === priority.toLowerCase());
+      if (mapped) input.priority = mapped;
+      else warnings.push(`Unmapped priority "${priority}"`);
+    }
+
+    const dueDate = this.text(record, fieldMap.due_date);
+    if (dueDate) {
+      const date = toIsoDate(dueDate);
+      if (date) input.due_date = date.slice(0, 10);
+      else warnings.push(`Unreadable due date "${dueDate}"`);
+    }
+
+    const tokens = Number(this.text(record, fieldMap.estimated_tokens));
+    if (fieldMap.estimated_tokens && Number.isFinite(tokens) && tokens > 0) {
+      input.estimated_tokens = tokens;
+    }
+
+    return input;
+  }
+
+  /**
+   * Fields of the input that differ from an existing item (content is only set on creation)
+   */
+  private diffInput(item: AnyItemData, input: ItemInput): ItemInput {
+    const updates: ItemInput = {};
+    if (input.title && input.title !== item.title) updates.title = input.title;
+    if (input.description && input.description !== item.description) {
+      updates.description = input.description;
+    }
+    if (input.priority && input.priority !== item.priority) updates.priority = input.priority;
+    if (input.assignee && input.assignee !== item.assignee) updates.assignee = input.assignee;
+    if (input.tags && input.tags.join('\n') !== (item.tags || []).join('\n')) {
+      updates.tags = input.tags;
+    }
+    const milestone = 'milestone' in item ? item.milestone : undefined;
+    if (input.milestone && input.milestone !== milestone) updates.milestone = input.milestone;
+    if (input.due_date && input.due_date !== item.due_date) updates.due_date = input.due_date;
+    if (input.estimated_tokens && input.estimated_tokens !== item.estimated_tokens) {
+      updates.estimated_tokens = input.estimated_tokens;
+    }
+    if (input.state && input.state !== StateManager.getEffectiveState(item)) {
+      updates.state = input.state;
+    }
+    return updates;
+  }
+
+  private resolveType(record: ImportRecord, mapping: ImportMapping): ImportItemType {
+    if (!mapping.type) {
+      return 'issue';
+    }
+    const value = this.text(record, mapping.type.field);
+    const type =
+      mapping.type.values[value] ??
+      TYPE_ORDER.find((candidate) => candidate === value.toLowerCase());
+    return type || mapping.type.default || 'issue';
+  }
+
+  /**
+   * Find the parent item (existing or planned in this run) named by the parent fields
+   */
+  private resolveParent(
+    record: ImportRecord,
+    mapping: ImportMapping,
+    context: {
+      imported: Map<string, AnyItemData | { placeholder: string; type: string }>;
+      references: Map<string, string>;
+    }
+  ): { id: string; type: string } | null {
+    const fields = Array.isArray(mapping.parent) ? mapping.parent : [mapping.parent];
+    for (const field of fields) {
+      const reference = this.text(record, field);
+      if (!reference) continue;
+      const sourceId = context.references.get(reference) || `${mapping.source}:${reference}`;
+      const parent = context.imported.get(sourceId);
+      if (parent) {
+        return 'placeholder' in parent
+          ? { id: parent.placeholder, type: parent.type }
+          : { id: getItemId(parent), type: getItemType(parent) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read comments: Jira JSON comment objects, or strings such as Jira CSV's
+   * "date;author;body" cells
+   */
+  private readComments(record: ImportRecord, mapping: ImportMapping): SourceComment[] {
+    if (!mapping.comments) {
+      return [];
+    }
+    const value = getField(record, mapping.comments);
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+    const comments: SourceComment[] = [];
+
+    for (const entry of values) {
+      if (typeof entry === 'string') {
+        const parts = entry.match(/^([^;\n]+);([^;\n]+);([\s\S]*)$/);
+        const created = parts ? toIsoDate(parts[1].trim()) : null;
+        if (parts && created) {
+          comments.push({ created, author: parts[2].trim(), body: parts[3].trim() });
+        } else if (entry.trim()) {
+          comments.push({ body: entry.trim() });
+        }
+      } else if (entry && typeof entry === 'object') {
+        const comment = entry as Record<string, unknown>;
+        const body = toText(comment.body);
+        if (!body) continue;
+        comments.push({
+          body,
+          author: toText(comment.author) || undefined,
+          created: toIsoDate(toText(comment.created)) || undefined,
+        });
+      }
+    }
+
+    return comments;
+  }
+
+  private async addComments(
+    itemId: string,
+    comments: SourceComment[],
+    projectRoot: string
+  ): Promise<void> {
+    const tasksRoot = this.configManager.getAbsolutePaths(this.options.cliTasksDir).tasksRoot;
+    for (const comment of comments) {
+      await createComment(projectRoot, itemId, comment.body, {
+        author: comment.author || this.options.user,
+        createdAt: comment.created,
+        source: 'import',
+        tasksRoot,
+      });
+    }
+  }
+
+  private normalizeState(value: string): UnifiedState | undefined {
+    const state = value
+      .toLowerCase()
+      .replace(/['’]/g, '_')
+      .replace(/[\s-]+/g, '_');
+    return StateManager.isLegacyStatus(state as UnifiedState) ||
+      StateManager.isResolutionState(state as UnifiedState)
+      ? (state as UnifiedState)
+      : undefined;
+  }
+
+  private text(record: ImportRecord, field?: string): string {
+    return field ? toText(getField(record, field)) : '';
+  }
+
+  private list(record: ImportRecord, field?: string): string[] {
+    if (!field) {
+      return [];
+    }
+    const value = getField(record, field);
+    const values = Array.isArray(value) ? value.map(toText) : [toText(value)];
+    return values
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  }
+
+  private getAllItems(): AnyItemData[] {
+    const manager = this.items.getRelationshipManager();
+    return [...manager.getAllEpics(), ...manager.getAllIssues(), ...manager.getAllTasks()];
+  }
+}
+
+/**
+ * Read a field by exact key (CSV headers may contain dots) or by dotted path
+ */
+function getField(record: ImportRecord, field: string): unknown {
+  if (field in record) {
+    return record[field];
+  }
+  let value: unknown = record;
+  for (const part of field.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Flatten a source value to text: Jira objects by their name, Atlassian document
+ * format bodies to paragraphs, lists joined with commas
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean).join(', ');
+  }
+  const object = value as Record<string, unknown>;
+  if (object.type === 'doc' && Array.isArray(object.content)) {
+    return object.content.map(adfText).join('\n\n').trim();
+  }
+  for (const key of ['displayName', 'name', 'value', 'key']) {
+    if (typeof object[key] === 'string') {
+      return (object[key] as string).trim();
+    }
+  }
+  return '';
+}
+
+function adfText(node: unknown): string {
+  const { text, content } = (node || {}) as { text?: string; content?: unknown[] };
+  if (typeof text === 'string') {
+    return text;
+  }
+  return Array.isArray(content) ? content.map(adfText).join('') : '';
+}
+
+/**
+ * Read ISO timestamps (including Jira's "+0000" offsets) and Jira CSV dates such as
+ * "20/Mar/24 10:15 AM"
+ */
+function toIsoDate(value: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const jira = value.match(
+    /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M)?)?$/i
+  );
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase());
+    if (month < 0) return null;
+    const year = jira[3].length === 2 ? 2000 + Number(jira[3]) : Number(jira[3]);
+    let hours = Number(jira[4] || 0);
+    if (jira[6]?.toUpperCase() === 'PM' && hours < 12) hours += 12;
+    if (jira[6]?.toUpperCase() === 'AM' && hours === 12) hours = 0;
+    return new Date(
+      Date.UTC(year, month, Number(jira[1]), hours, Number(jira[5] || 0))
+    ).toISOString();
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return null;
+  }
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
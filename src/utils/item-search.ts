@@ -0,0 +1,134 @@
+/**
+ * Item Search for AI-Trackdown
+ * Runs GitHub-style queries such as `is:open label:bug login` against all items
+ */
+
+import {
+  type AnyItemData,
+  getItemType,
+  type ItemType,
+  type SearchFilters,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import type { DateQuery } from '../types/filters.js';
+import { isFinishedItem } from './due-dates.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import type { RelationshipManager } from './relationship-manager.js';
+import { SearchQueryParser } from './search-parser.js';
+
+export interface ItemSearchResult {
+  query: string;
+  warnings: string[];
+  // Matches before limit/offset were applied: best match first for text, else newest first
+  items: AnyItemData[];
+}
+
+/**
+ * Search items with the query syntax; invalid queries throw INVALID_ARGUMENT.
+ * `@me` in user qualifiers resolves to `options.user`, else $USER.
+ */
+export function searchItems(
+  relationshipManager: RelationshipManager,
+  query: string,
+  options: { type?: ItemType; user?: string } = {}
+): ItemSearchResult {
+  const validation = SearchQueryParser.validate(query);
+  if (validation.errors.length > 0) {
+    throw new AITrackdownError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid search query: ${validation.errors.map((error) => error.message).join('; ')}`
+    );
+  }
+
+  const parsed = SearchQueryParser.parse(query);
+  const filters: SearchFilters = {};
+  // Quoted phrases come back from the parser unquoted
+  if (parsed.text?.length) {
+    filters.text = parsed.text.map((term) => (term.includes(' ') ? `"${term}"` : term)).join(' ');
+  }
+  const me = options.user || process.env.USER || 'unknown';
+  const resolveUser = (name: string) => (name === '@me' ? me : name);
+  const unassigned = parsed.no?.includes('assignee') || parsed.assignee === 'none';
+  if (parsed.assignee && !unassigned) filters.assignee = resolveUser(parsed.assignee);
+  if (parsed.label?.length) filters.tags = parsed.label;
+  if (parsed.is?.overdue) filters.overdue = true;
+  if (parsed.created) Object.assign(filters, toDateRange(parsed.created, 'created'));
+  if (parsed.updated) Object.assign(filters, toDateRange(parsed.updated, 'updated'));
+
+  const state = parsed.status as UnifiedState | undefined;
+  if (state && !StateManager.isLegacyStatus(state) && !StateManager.isResolutionState(state)) {
+    throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Invalid status: ${state}`);
+  }
+
+  const type = options.type || (parsed.is?.pr ? 'pr' : parsed.is?.issue ? 'issue' : undefined);
+  const open = parsed.is?.open || parsed.state === 'open';
+  const closed = parsed.is?.closed || parsed.state === 'closed';
+  const milestone = parsed.milestone?.toLowerCase();
+  const author = parsed.author && resolveUser(parsed.author);
+  const mention = parsed.mentions && mentionPattern(resolveUser(parsed.mentions));
+
+  const items = relationshipManager
+    .search(filters)
+    .items.filter((item) => !type || getItemType(item) === type)
+    .filter((item) => !state || StateManager.getEffectiveState(item) === state)
+    .filter((item) => !open || !isFinishedItem(item))
+    .filter((item) => !closed || isFinishedItem(item))
+    .filter(
+      (item) =>
+        !milestone ||
+        ('milestone' in item && String(item.milestone || '').toLowerCase() === milestone)
+    )
+    .filter((item) => !unassigned || !item.assignee || item.assignee === 'unassigned')
+    .filter((item) => !parsed.no?.includes('label') || !('tags' in item && item.tags?.length))
+    .filter(
+      (item) => !parsed.no?.includes('milestone') || !('milestone' in item && item.milestone)
+    )
+    .filter((item) => !author || item.created_by === author)
+    .filter(
+      (item) =>
+        !mention || mention.test(`${item.title}\n${item.description}\n${item.content || ''}`)
+    );
+
+  // Text matches are already ranked best first
+  if (!filters.text) {
+    items.sort((a, b) => b.updated_date.localeCompare(a.updated_date));
+  }
+
+  return { query, warnings: validation.warnings, items };
+}
+
+/**
+ * Match `@user` as a whole word, so @ann does not match @anna
+ */
+function mentionPattern(user: string): RegExp {
+  const escaped = user.replace(/^@/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`@${escaped}(?![\\w-])`, 'i');
+}
+
+/**
+ * Convert a parsed `created:`/`updated:` qualifier into search filter bounds
+ */
+function toDateRange(query: DateQuery, field: 'created' | 'updated'): SearchFilters {
+  const value = new Date(query.value).toISOString();
+  switch (query.operator) {
+    case '>':
+    case '>=':
+      return { [`${field}_after`]: value };
+    case '<':
+    case '<=':
+      return { [`${field}_before`]: value };
+    case '..':
+      return {
+        [`${field}_after`]: value,
+        ...(query.endValue && { [`${field}_before`]: new Date(query.endValue).toISOString() }),
+      };
+    case '=': {
+      const end = new Date(value);
+      end.setUTCDate(end.getUTCDate() + 1);
+      return { [`${field}_after`]: value, [`${field}_before`]: end.toISOString() };
+    }
+    default:
+      return {};
+  }
+}
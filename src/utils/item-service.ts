@@ -0,0 +1,549 @@
+/**
+ * Item Service for AI-Trackdown
+ * Creates, updates and deletes epics, issues, tasks and PRs through the same validation,
+ * history, hook and index-update paths as the CLI commands, for programmatic callers
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  type AnyItemData,
+  type EpicFrontmatter,
+  getItemId,
+  getItemType,
+  type IssueFrontmatter,
+  type ItemStatus,
+  type PRFrontmatter,
+  type PRStatus,
+  type Priority,
+  StateManager,
+  StateTransition,
+  type TaskFrontmatter,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import type { ConfigManager } from './config-manager.js';
+import { parseDueDate, parseSlaHours } from './due-dates.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { HistoryLog } from './history-log.js';
+import { AITrackdownIdGenerator } from './id-generator.js';
+import { IndexAutoUpdater } from './index-auto-updater.js';
+import { unlinkJournaled } from './journaled-fs.js';
+import { RelationshipManager } from './relationship-manager.js';
+import { type TransitionContext, TransitionHookRunner } from './transition-hooks.js';
+
+export type WritableItemType = 'epic' | 'issue' | 'task' | 'pr';
+
+const STATUSES: ItemStatus[] = ['planning', 'active', 'completed', 'archived'];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const PR_STATUSES: PRStatus[] = ['draft', 'open', 'review', 'approved', 'merged', 'closed'];
+
+export interface ItemInput {
+  title?: string;
+  description?: string;
+  status?: ItemStatus;
+  state?: UnifiedState;
+  priority?: Priority;
+  assignee?: string;
+  tags?: string[];
+  // null clears the field on update
+  milestone?: string | null;
+  due_date?: string | null;
+  // Epics and issues only
+  start_date?: string | null;
+  sla_hours?: string | number | null;
+  estimated_tokens?: number;
+  actual_tokens?: number;
+  completion_percentage?: number;
+  dependencies?: string[];
+  // Parent links: epic_id for issues, issue_id for tasks and PRs
+  epic_id?: string;
+  issue_id?: string;
+  // PR fields
+  pr_status?: PRStatus;
+  branch_name?: string;
+  target_branch?: string;
+  reviewers?: string[];
+  // Creation only: body content, template and the ID of an imported source record
+  content?: string;
+  template?: string;
+  source_id?: string;
+  // Update only: reason for a state change and a note appended to the body
+  reason?: string;
+  notes?: string;
+  reviewer?: string;
+}
+
+export interface ItemWriteOptions {
+  user?: string;
+  // Recorded as the history source, e.g. 'api'
+  source?: string;
+}
+
+export interface DeleteItemOptions {
+  recursive?: boolean;
+  force?: boolean;
+}
+
+export class ItemService {
+  private configManager: ConfigManager;
+  private cliTasksDir?: string;
+  private paths: ReturnType<ConfigManager['getAbsolutePaths']>;
+  private parser = new FrontmatterParser();
+  private relationshipManager: RelationshipManager;
+
+  constructor(configManager: ConfigManager, cliTasksDir?: string) {
+    this.configManager = configManager;
+    this.cliTasksDir = cliTasksDir;
+    this.paths = configManager.getAbsolutePaths(cliTasksDir);
+    this.relationshipManager = new RelationshipManager(
+      configManager.getConfig(),
+      this.paths.projectRoot,
+      cliTasksDir
+    );
+  }
+
+  public getRelationshipManager(): RelationshipManager {
+    return this.relationshipManager;
+  }
+
+  /**
+   * Create an item. Tasks and PRs need an existing parent issue; an issue's epic must exist.
+   */
+  public async createItem(
+    type: WritableItemType,
+    input: ItemInput,
+    options: ItemWriteOptions = {}
+  ): Promise<AnyItemData> {
+    const config = this.configManager.getConfig();
+    const title = input.title?.trim();
+    if (!title) {
+      throw new AITrackdownError(ErrorCode.MISSING_REQUIRED, 'Title is required');
+    }
+    this.validateInput(input);
+
+    const epic = type === 'issue' && input.epic_id ? this.requireEpic(input.epic_id) : undefined;
+    let issue: ReturnType<ItemService['requireIssue']> | undefined;
+    if (type === 'task' || type === 'pr') {
+      if (!input.issue_id) {
+        throw new AITrackdownError(
+          ErrorCode.MISSING_REQUIRED,
+          `issue_id is required to create a ${type}`
+        );
+      }
+      issue = this.requireIssue(input.issue_id);
+    }
+
+    const templateName = input.template || 'default';
+    const template = this.configManager.getTemplateWithFallback(type, templateName);
+    if (!template) {
+      throw new AITrackdownError(
+        ErrorCode.TEMPLATE_NOT_FOUND,
+        `${type} template '${templateName}' not found`
+      );
+    }
+
+    const idGenerator = new AITrackdownIdGenerator(config, this.paths.projectRoot);
+    const user = options.user || process.env.USER || 'system';
+    const now = new Date().toISOString();
+    const common = {
+      title,
+      description: input.description || template.frontmatter_template.description || '',
+      status: input.status || 'planning',
+      ...(input.state && {
+        state: input.state,
+        state_metadata: {
+          transitioned_at: now,
+          transitioned_by: user,
+          automation_eligible: false,
+          transition_reason: 'Initial creation',
+        },
+      }),
+      priority: input.priority || 'medium',
+      assignee: input.assignee || config.default_assignee || 'unassigned',
+      created_by: user,
+      created_date: now,
+      updated_date: now,
+      estimated_tokens: input.estimated_tokens || 0,
+      actual_tokens: 0,
+      ai_context: template.ai_context_defaults || config.ai_context_templates || [],
+      sync_status: 'local' as const,
+      tags: input.tags?.length ? input.tags : undefined,
+      dependencies: input.dependencies?.length ? input.dependencies : undefined,
+      due_date: input.due_date ? parseDueDate(input.due_date) : undefined,
+      sla_hours: input.sla_hours ? parseSlaHours(String(input.sla_hours)) : undefined,
+      source_id: input.source_id || undefined,
+    };
+
+    let itemId: string;
+    let dir: string;
+    let write: (filePath: string, content: string) => void;
+    switch (type) {
+      case 'epic': {
+        itemId = idGenerator.generateEpicId(title);
+        dir = this.paths.epicsDir;
+        const frontmatter: EpicFrontmatter = {
+          ...common,
+          epic_id: itemId,
+          related_issues: [],
+          milestone: input.milestone || undefined,
+          start_date: input.start_date ? parseDueDate(input.start_date, 'start date') : undefined,
+          completion_percentage: 0,
+        };
+        write = (filePath, content) => this.parser.writeEpic(filePath, frontmatter, content);
+        break;
+      }
+      case 'issue': {
+        itemId = idGenerator.generateIssueId(input.epic_id || '', title);
+        dir = this.paths.issuesDir;
+        const frontmatter: IssueFrontmatter = {
+          ...common,
+          issue_id: itemId,
+          epic_id: input.epic_id,
+          related_tasks: [],
+          related_issues: [],
+          milestone: input.milestone || undefined,
+          start_date: input.start_date ? parseDueDate(input.start_date, 'start date') : undefined,
+          completion_percentage: 0,
+          blocked_by: [],
+          blocks: [],
+        };
+        write = (filePath, content) => this.parser.writeIssue(filePath, frontmatter, content);
+        break;
+      }
+      case 'task': {
+        itemId = idGenerator.generateTaskId(input.issue_id || '', title);
+        dir = this.paths.tasksDir;
+        const frontmatter: TaskFrontmatter = {
+          ...common,
+          task_id: itemId,
+          issue_id: input.issue_id || '',
+          epic_id: issue?.epic_id || '',
+          subtasks: [],
+          blocked_by: [],
+          blocks: [],
+        };
+        write = (filePath, content) => this.parser.writeTask(filePath, frontmatter, content);
+        break;
+      }
+      case 'pr': {
+        itemId = idGenerator.generatePRId(input.issue_id || '', title);
+        dir = this.paths.prsDir;
+        const frontmatter: PRFrontmatter = {
+          ...common,
+          pr_id: itemId,
+          issue_id: input.issue_id || '',
+          epic_id: issue?.epic_id || '',
+          pr_status: input.pr_status || 'draft',
+          branch_name: input.branch_name,
+          target_branch: input.target_branch || 'main',
+          reviewers: input.reviewers?.length ? input.reviewers : undefined,
+          approvals: [],
+          blocked_by: [],
+          blocks: [],
+          related_prs: [],
+          milestone: input.milestone || undefined,
+          template_used: templateName,
+        };
+        write = (filePath, content) => this.parser.writePR(filePath, frontmatter, content);
+        break;
+      }
+    }
+
+    const content =
+      input.content ??
+      template.content_template
+        .replace(/\{\{title\}\}/g, title)
+        .replace(/\{\{description\}\}/g, common.description)
+        .replace(/\{\{issue_id\}\}/g, input.issue_id || '')
+        .replace(/\{\{branch_name\}\}/g, input.branch_name || '')
+        .replace(/\{\{target_branch\}\}/g, input.target_branch || 'main');
+
+    const filename = `${itemId}-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}${config.naming_conventions.file_extension}`;
+    const filePath = path.join(dir, filename);
+    if (fs.existsSync(filePath)) {
+      throw new AITrackdownError(ErrorCode.FILE_EXISTS, `${type} file already exists: ${filePath}`);
+    }
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    write(filePath, content);
+
+    // Link the new item into its parent, as the create commands do
+    const indexUpdater = this.getIndexUpdater();
+    if (epic) {
+      this.parser.updateFile(epic.file_path, {
+        related_issues: [...(epic.related_issues || []), itemId],
+      });
+    }
+    if (issue) {
+      this.parser.updateFile(
+        issue.file_path,
+        type === 'task'
+          ? { related_tasks: [...(issue.related_tasks || []), itemId] }
+          : { related_prs: [...(issue.related_prs || []), itemId] }
+      );
+    }
+
+    this.relationshipManager.rebuildCache();
+    await indexUpdater.onItemCreated(type, itemId, true);
+    if (epic) await indexUpdater.onItemUpdated('epic', epic.epic_id, true);
+    if (issue) await indexUpdater.onItemUpdated('issue', issue.issue_id, true);
+
+    return this.requireItem(itemId);
+  }
+
+  /**
+   * Update an item's fields. State changes are validated against the workflow and run
+   * transition hooks; a vetoing hook aborts the update.
+   */
+  public async updateItem(
+    itemId: string,
+    input: ItemInput,
+    options: ItemWriteOptions = {}
+  ): Promise<AnyItemData> {
+    const item = this.requireItem(itemId);
+    const type = getItemType(item);
+    const user = options.user || process.env.USER || 'system';
+    this.validateInput(input);
+
+    const updates: Record<string, unknown> = {};
+    for (const field of [
+      'title',
+      'description',
+      'status',
+      'priority',
+      'assignee',
+      'tags',
+      'estimated_tokens',
+      'actual_tokens',
+      'dependencies',
+    ] as const) {
+      if (input[field] !== undefined) {
+        updates[field] = input[field];
+      }
+    }
+    if (input.milestone !== undefined) {
+      updates.milestone = input.milestone || undefined;
+    }
+    if (input.due_date !== undefined) {
+      updates.due_date = input.due_date ? parseDueDate(input.due_date) : undefined;
+    }
+    if (input.start_date !== undefined && (type === 'epic' || type === 'issue')) {
+      updates.start_date = input.start_date
+        ? parseDueDate(input.start_date, 'start date')
+        : undefined;
+    }
+    if (input.sla_hours !== undefined) {
+      updates.sla_hours = input.sla_hours ? parseSlaHours(String(input.sla_hours)) : undefined;
+    }
+    if (input.completion_percentage !== undefined) {
+      updates.completion_percentage = input.completion_percentage;
+    }
+    if (type === 'pr') {
+      for (const field of ['pr_status', 'branch_name', 'target_branch', 'reviewers'] as const) {
+        if (input[field] !== undefined) {
+          updates[field] = input[field];
+        }
+      }
+    }
+
+    if (input.state) {
+      const transition = StateTransition.transitionState(
+        item,
+        input.state,
+        user,
+        input.reason,
+        input.reviewer
+      );
+      if (!transition.success) {
+        throw new AITrackdownError(
+          ErrorCode.INVALID_ARGUMENT,
+          `Invalid state transition: ${transition.errors.join('; ')}`
+        );
+      }
+      updates.state = transition.item.state;
+      updates.state_metadata = transition.item.state_metadata;
+    }
+
+    if (Object.keys(updates).length === 0 && !input.notes) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, 'No updates specified');
+    }
+
+    // Run transition hooks for state changes; a failing hook script vetoes the update
+    const hooks = new TransitionHookRunner(
+      this.configManager.getConfig(),
+      this.paths,
+      this.cliTasksDir
+    );
+    const hookContext: TransitionContext | null = input.state
+      ? {
+          itemId,
+          itemType: type,
+          from: StateManager.getEffectiveState(item),
+          to: input.state,
+          user,
+          reason: input.reason,
+        }
+      : null;
+    if (hookContext && hooks.runBefore(item, hookContext).some((result) => result.vetoed)) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Transition to ${input.state} vetoed by hook`
+      );
+    }
+
+    updates.updated_date = new Date().toISOString();
+
+    let appendContent = '';
+    const timestamp = new Date().toISOString();
+    if (input.reason && (input.state || input.status)) {
+      appendContent += `\n## State Change: ${timestamp}\n`;
+      appendContent += `**Reason**: ${input.reason}\n`;
+      appendContent += input.state
+        ? `**New State**: ${input.state}\n`
+        : `**New Status**: ${input.status}\n`;
+      if (input.reviewer) {
+        appendContent += `**Reviewer**: ${input.reviewer}\n`;
+      }
+    }
+    if (input.notes) {
+      if (appendContent) appendContent += '\n';
+      appendContent += `\n## Note: ${timestamp}\n${input.notes}\n`;
+    }
+
+    const updated = this.parser.updateFile(item.file_path, updates, appendContent || undefined);
+
+    new HistoryLog(this.paths.tasksRoot).recordDiff(itemId, 'update', item, updated, {
+      source: options.source || 'api',
+      author: user,
+      reason: input.reason,
+    });
+
+    if (hookContext) {
+      await hooks.runAfter(updated, hookContext);
+    }
+
+    this.relationshipManager.rebuildCache();
+
+    // Keep the index current and roll the change up to parent items
+    await this.getIndexUpdater().onItemUpdated(type, itemId, true);
+
+    return this.requireItem(itemId);
+  }
+
+  /**
+   * Delete an item. Children require `recursive` and dependents require `force`,
+   * mirroring the delete commands. Returns the IDs of the deleted items.
+   */
+  public async deleteItem(itemId: string, options: DeleteItemOptions = {}): Promise<string[]> {
+    const item = this.requireItem(itemId);
+    const type = getItemType(item);
+
+    let children: AnyItemData[] = [];
+    if (type === 'epic') {
+      const hierarchy = this.requireEpicHierarchy(itemId);
+      children = [...hierarchy.issues, ...hierarchy.tasks, ...hierarchy.prs];
+    } else if (type === 'issue') {
+      const hierarchy = this.requireIssueHierarchy(itemId);
+      children = [...hierarchy.tasks, ...hierarchy.prs];
+    }
+    if (children.length > 0 && !options.recursive) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Cannot delete ${type} ${itemId} with ${children.length} related items without recursive`
+      );
+    }
+
+    const dependents = this.relationshipManager.getRelatedItems(itemId).dependents;
+    if (dependents.length > 0 && !options.force) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Cannot delete ${itemId} with dependents: ${dependents.map(getItemId).join(', ')} (use force to override)`
+      );
+    }
+
+    const deleted = [item, ...children];
+    for (const target of deleted) {
+      if (fs.existsSync(target.file_path)) {
+        unlinkJournaled(target.file_path);
+      }
+    }
+
+    this.relationshipManager.rebuildCache();
+    const indexUpdater = this.getIndexUpdater();
+    for (const target of deleted) {
+      await indexUpdater.onItemDeleted(getItemType(target), getItemId(target), true);
+    }
+
+    return deleted.map(getItemId);
+  }
+
+  private validateInput(input: ItemInput): void {
+    if (input.status !== undefined && !STATUSES.includes(input.status)) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Invalid status: ${input.status}`);
+    }
+    if (input.priority !== undefined && !PRIORITIES.includes(input.priority)) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Invalid priority: ${input.priority}`);
+    }
+    if (
+      input.state !== undefined &&
+      !StateManager.isLegacyStatus(input.state) &&
+      !StateManager.isResolutionState(input.state)
+    ) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, `Invalid state: ${input.state}`);
+    }
+    if (input.pr_status !== undefined && !PR_STATUSES.includes(input.pr_status)) {
+      throw new AITrackdownError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid PR status: ${input.pr_status}`
+      );
+    }
+    if (
+      input.completion_percentage !== undefined &&
+      (input.completion_percentage < 0 || input.completion_percentage > 100)
+    ) {
+      throw new AITrackdownError(ErrorCode.INVALID_ARGUMENT, 'Progress must be between 0 and 100');
+    }
+  }
+
+  private requireItem(itemId: string): AnyItemData {
+    const item = this.relationshipManager.getItem(itemId);
+    if (!item) {
+      throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Item not found: ${itemId}`);
+    }
+    return item;
+  }
+
+  private requireEpic(epicId: string) {
+    return this.requireEpicHierarchy(epicId).epic;
+  }
+
+  private requireIssue(issueId: string) {
+    return this.requireIssueHierarchy(issueId).issue;
+  }
+
+  private requireEpicHierarchy(epicId: string) {
+    const hierarchy = this.relationshipManager.getEpicHierarchy(epicId);
+    if (!hierarchy) {
+      throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Epic not found: ${epicId}`);
+    }
+    return hierarchy;
+  }
+
+  private requireIssueHierarchy(issueId: string) {
+    const hierarchy = this.relationshipManager.getIssueHierarchy(issueId);
+    if (!hierarchy) {
+      throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Issue not found: ${issueId}`);
+    }
+    return hierarchy;
+  }
+
+  private getIndexUpdater(): IndexAutoUpdater {
+    return new IndexAutoUpdater(
+      this.configManager.getConfig(),
+      this.paths.projectRoot,
+      this.cliTasksDir
+    );
+  }
+}
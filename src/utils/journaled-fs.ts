@@ -0,0 +1,95 @@
+/**
+ * Journal-aware file writes for AI-Trackdown
+ * Commands that change items write through these helpers, which hand each target
+ * to the active undo transaction before it is written, moved or removed
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export type BeforeWriteRecorder = (files: string[]) => void;
+
+let recorder: BeforeWriteRecorder | null = null;
+
+/**
+ * Set the function that records before-images, or clear it with null.
+ * The transaction journal sets it for the duration of a command.
+ */
+export function setBeforeWriteRecorder(next: BeforeWriteRecorder | null): void {
+  recorder = next;
+}
+
+/**
+ * Tell the active transaction, if any, that these files are about to change.
+ * Directories stand for every file under them.
+ */
+export function recordBeforeWrite(...files: string[]): void {
+  if (!recorder) return;
+
+  const targets = files.flatMap((file) => {
+    const absolute = path.resolve(file);
+    return isDirectory(absolute) ? listFiles(absolute) : [absolute];
+  });
+  try {
+    recorder(targets);
+  } catch {
+    // A journal failure must not stop the command's own write
+  }
+}
+
+export function writeFileJournaled(file: string, content: string): void {
+  recordBeforeWrite(file);
+  fs.writeFileSync(file, content, 'utf8');
+}
+
+export function appendFileJournaled(file: string, content: string): void {
+  recordBeforeWrite(file);
+  fs.appendFileSync(file, content, 'utf8');
+}
+
+export function copyFileJournaled(source: string, target: string): void {
+  recordBeforeWrite(target);
+  fs.copyFileSync(source, target);
+}
+
+export function unlinkJournaled(file: string): void {
+  recordBeforeWrite(file);
+  fs.unlinkSync(file);
+}
+
+/**
+ * Remove a file or a whole directory tree
+ */
+export function removeJournaled(target: string): void {
+  recordBeforeWrite(target);
+  fs.rmSync(target, { recursive: true, force: true });
+}
+
+/**
+ * Move a file or directory. For a directory both the files under the source and
+ * the paths they move to are recorded.
+ */
+export function renameJournaled(source: string, target: string): void {
+  const from = path.resolve(source);
+  const to = path.resolve(target);
+  const moved = isDirectory(from) ? listFiles(from) : [from];
+  recordBeforeWrite(...moved, ...moved.map((file) => path.join(to, path.relative(from, file))));
+  fs.renameSync(from, to);
+}
+
+function isDirectory(file: string): boolean {
+  return fs.existsSync(file) && fs.statSync(file).isDirectory();
+}
+
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(full));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,578 @@
+/**
+ * Kanban Board for AI-Trackdown
+ * Keyboard-driven board with one column per state. The board only renders to a
+ * string and reacts to keypresses, so the terminal handling stays in the command.
+ */
+
+import chalk from 'chalk';
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type ItemType,
+  type Priority,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { ColorTheme } from './colors.js';
+import type { ConfigManager } from './config-manager.js';
+import { searchItems } from './item-search.js';
+import { ItemService } from './item-service.js';
+import type { RelationshipManager } from './relationship-manager.js';
+
+export type BoardGroupBy = 'none' | 'epic' | 'assignee' | 'priority';
+
+export const BOARD_GROUPINGS: BoardGroupBy[] = ['none', 'epic', 'assignee', 'priority'];
+
+// Built-in states in the order work flows through them
+export const BOARD_COLUMNS: UnifiedState[] = [
+  'planning',
+  'ready_for_engineering',
+  'active',
+  'ready_for_qa',
+  'ready_for_deployment',
+  'done',
+  'completed',
+  'won_t_do',
+  'archived',
+];
+
+const PRIORITIES: Priority[] = ['critical', 'high', 'medium', 'low'];
+const MIN_COLUMN_WIDTH = 22;
+// Title bar, column headers and separator above the cards; detail and status lines below
+const HEADER_LINES = 3;
+const FOOTER_LINES = 3;
+
+export interface BoardOptions {
+  cliTasksDir?: string;
+  // Author recorded for moves and edits
+  user?: string;
+  types?: ItemType[];
+  columns?: UnifiedState[];
+  groupBy?: BoardGroupBy;
+  filter?: string;
+}
+
+export interface BoardKey {
+  name?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+}
+
+interface BoardPrompt {
+  kind: 'filter' | 'assignee' | 'priority' | 'move';
+  label: string;
+  value: string;
+}
+
+type BoardEntry = { kind: 'group'; label: string } | { kind: 'card'; item: AnyItemData };
+
+export class KanbanBoard {
+  private itemService: ItemService;
+  private relationshipManager: RelationshipManager;
+  private user: string;
+  private types: ItemType[];
+  private columns: UnifiedState[];
+  private groupBy: BoardGroupBy;
+  private filter: string;
+  private cards = new Map<UnifiedState, AnyItemData[]>();
+  private column = 0;
+  private row = 0;
+  private prompt: BoardPrompt | null = null;
+  private message = '';
+
+  constructor(configManager: ConfigManager, options: BoardOptions = {}) {
+    this.itemService = new ItemService(configManager, options.cliTasksDir);
+    this.relationshipManager = this.itemService.getRelationshipManager();
+    this.user = options.user || process.env.USER || 'system';
+    this.types = options.types?.length ? options.types : ['issue', 'task'];
+    this.groupBy = options.groupBy || 'none';
+    this.filter = options.filter || '';
+
+    // Custom workflow states get a column after the built-in ones
+    const workflowStates = StateManager.getWorkflowEngine().getWorkflow().states as UnifiedState[];
+    this.columns = options.columns?.length
+      ? options.columns
+      : [...BOARD_COLUMNS, ...workflowStates.filter((state) => !BOARD_COLUMNS.includes(state))];
+
+    this.reload();
+  }
+
+  /**
+   * Re-read items from disk, keeping the selected card where possible
+   */
+  public reload(): void {
+    const selected = this.getSelectedItem();
+    this.relationshipManager.rebuildCache();
+
+    let items: AnyItemData[];
+    try {
+      items = this.filter
+        ? searchItems(this.relationshipManager, this.filter).items
+        : this.relationshipManager.search({}).items;
+    } catch (error) {
+      this.message = error instanceof Error ? error.message : 'Invalid filter';
+      this.filter = '';
+      items = this.relationshipManager.search({}).items;
+    }
+
+    this.cards = new Map(this.columns.map((state) => [state, []]));
+    for (const item of items.filter((candidate) => this.types.includes(getItemType(candidate)))) {
+      this.cards.get(StateManager.getEffectiveState(item))?.push(item);
+    }
+    for (const cards of this.cards.values()) {
+      cards.sort((a, b) => this.compareCards(a, b));
+    }
+
+    if (selected) this.select(getItemId(selected));
+    this.clampSelection();
+  }
+
+  public getSelectedItem(): AnyItemData | undefined {
+    return this.cards.get(this.columns[this.column])?.[this.row];
+  }
+
+  public getColumnItems(state: UnifiedState): AnyItemData[] {
+    return this.cards.get(state) || [];
+  }
+
+  public getMessage(): string {
+    return this.message;
+  }
+
+  /**
+   * Handle a keypress; resolves to 'quit' when the board should close
+   */
+  public async handleKey(
+    input: string | undefined,
+    key: BoardKey = {}
+  ): Promise<'quit' | undefined> {
+    if (key.ctrl && key.name === 'c') return 'quit';
+    if (this.prompt) {
+      await this.handlePromptKey(input, key);
+      return undefined;
+    }
+
+    this.message = '';
+    const name = key.name || input;
+    switch (name) {
+      case 'q':
+        return key.shift ? undefined : 'quit';
+      case 'left':
+      case 'h':
+        if (key.shift || input === 'H') await this.moveSelected(-1);
+        else this.moveCursor(-1, 0);
+        break;
+      case 'right':
+      case 'l':
+        if (key.shift || input === 'L') await this.moveSelected(1);
+        else this.moveCursor(1, 0);
+        break;
+      case 'up':
+      case 'k':
+        this.moveCursor(0, -1);
+        break;
+      case 'down':
+      case 'j':
+        this.moveCursor(0, 1);
+        break;
+      case 'g': {
+        const next = (BOARD_GROUPINGS.indexOf(this.groupBy) + 1) % BOARD_GROUPINGS.length;
+        this.setGroupBy(BOARD_GROUPINGS[next]);
+        break;
+      }
+      case 'r':
+        this.reload();
+        this.message = 'Refreshed';
+        break;
+      case '/':
+        this.prompt = { kind: 'filter', label: 'Filter', value: this.filter };
+        break;
+      case 'p':
+        if (this.getSelectedItem()) {
+          this.prompt = {
+            kind: 'priority',
+            label: 'Priority (low/medium/high/critical)',
+            value: '',
+          };
+        }
+        break;
+      case 'a': {
+        const item = this.getSelectedItem();
+        if (item) {
+          this.prompt = { kind: 'assignee', label: 'Assignee', value: item.assignee || '' };
+        }
+        break;
+      }
+      case 'm': {
+        const item = this.getSelectedItem();
+        if (item) {
+          const allowed = this.allowedStates(item);
+          this.prompt = {
+            kind: 'move',
+            label: `Move to (${allowed.map((state, i) => `${i + 1}:${state}`).join(' ') || 'none'})`,
+            value: '',
+          };
+        }
+        break;
+      }
+    }
+    return undefined;
+  }
+
+  public setGroupBy(groupBy: BoardGroupBy): void {
+    const item = this.getSelectedItem();
+    this.groupBy = groupBy;
+    this.reload();
+    if (item) this.select(getItemId(item));
+  }
+
+  /**
+   * Render the visible part of the board as lines of the given size
+   */
+  public render(width: number, height: number): string {
+    // Show as many columns as fit, then share the width between them
+    const visible = Math.min(
+      this.columns.length,
+      Math.max(1, Math.floor(width / MIN_COLUMN_WIDTH))
+    );
+    const columnWidth = Math.floor(width / visible);
+    const first = Math.min(
+      Math.max(0, this.column - visible + 1),
+      Math.max(0, this.columns.length - visible)
+    );
+    const shown = this.columns.slice(first, first + visible);
+    const bodyHeight = Math.max(1, height - HEADER_LINES - FOOTER_LINES);
+
+    const title = [
+      `Board: ${this.types.join(', ')}`,
+      `group: ${this.groupBy}`,
+      this.filter ? `filter: ${this.filter}` : '',
+      first > 0 || first + visible < this.columns.length
+        ? `columns ${first + 1}-${first + shown.length} of ${this.columns.length}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('  │  ');
+
+    const lines = [chalk.bold.cyan(fitWidth(title, width))];
+    lines.push(
+      shown
+        .map((state, i) => {
+          const label = fitWidth(
+            ` ${state.replace(/_/g, ' ')} (${this.getColumnItems(state).length})`,
+            columnWidth
+          );
+          return first + i === this.column ? chalk.inverse.bold(label) : chalk.bold(label);
+        })
+        .join('')
+    );
+    lines.push(chalk.gray('─'.repeat(Math.min(width, columnWidth * shown.length))));
+
+    const bodies = shown.map((state, i) =>
+      this.renderColumn(state, first + i === this.column, columnWidth, bodyHeight)
+    );
+    for (let line = 0; line < bodyHeight; line++) {
+      lines.push(bodies.map((body) => body[line] || ' '.repeat(columnWidth)).join(''));
+    }
+
+    lines.push(chalk.gray('─'.repeat(Math.min(width, columnWidth * shown.length))));
+    lines.push(this.renderDetails(width));
+    lines.push(this.renderStatus(width));
+    return lines.join('\n');
+  }
+
+  private renderColumn(
+    state: UnifiedState,
+    active: boolean,
+    width: number,
+    height: number
+  ): string[] {
+    const lines: string[] = [];
+    let selectedLine = 0;
+    let cardIndex = 0;
+
+    for (const entry of this.entries(state)) {
+      if (entry.kind === 'group') {
+        lines.push(chalk.gray(fitWidth(`── ${entry.label} `, width, '─')));
+        continue;
+      }
+      const item = entry.item;
+      const selected = active && cardIndex === this.row;
+      if (selected) selectedLine = lines.length;
+      cardIndex++;
+
+      const badge = ColorTheme.priority(item.priority)('●');
+      const head = fitWidth(
+        ` ${getItemId(item)}${item.assignee ? ` @${item.assignee}` : ''}`,
+        width - 2
+      );
+      const title = fitWidth(`   ${item.title}`, width);
+      lines.push(selected ? chalk.inverse(`${head} `) + badge : `${head} ${badge}`);
+      lines.push(selected ? chalk.inverse(title) : chalk.dim(title));
+    }
+
+    // Scroll so the selected card stays on screen
+    const offset = Math.max(0, Math.min(selectedLine - height + 2, lines.length - height));
+    return lines.slice(offset, offset + height);
+  }
+
+  private renderDetails(width: number): string {
+    const item = this.getSelectedItem();
+    if (!item) return chalk.gray(fitWidth(' No items in this column', width));
+
+    const allowed = this.allowedStates(item);
+    return fitWidth(
+      ` ${getItemId(item)} ${item.title}  [${item.priority}]` +
+        `  assignee: ${item.assignee || 'unassigned'}` +
+        `  next: ${allowed.join(', ') || 'none'}`,
+      width
+    );
+  }
+
+  private renderStatus(width: number): string {
+    if (this.prompt) {
+      return chalk.yellow(fitWidth(` ${this.prompt.label}: ${this.prompt.value}█`, width));
+    }
+    if (this.message) {
+      return chalk.yellow(fitWidth(` ${this.message}`, width));
+    }
+    return chalk.gray(
+      fitWidth(
+        ' ←→/hl column  ↑↓/jk card  H/L move  m move to  p priority  a assignee  / filter  g group  r refresh  q quit',
+        width
+      )
+    );
+  }
+
+  private async handlePromptKey(input: string | undefined, key: BoardKey): Promise<void> {
+    const prompt = this.prompt as BoardPrompt;
+    switch (key.name) {
+      case 'escape':
+        this.prompt = null;
+        return;
+      case 'backspace':
+        prompt.value = prompt.value.slice(0, -1);
+        return;
+      case 'return':
+      case 'enter':
+        this.prompt = null;
+        await this.submitPrompt(prompt);
+        return;
+    }
+    if (input && !key.ctrl && input >= ' ') {
+      prompt.value += input;
+    }
+  }
+
+  private async submitPrompt(prompt: BoardPrompt): Promise<void> {
+    const value = prompt.value.trim();
+    const item = this.getSelectedItem();
+
+    switch (prompt.kind) {
+      case 'filter':
+        this.filter = value;
+        this.reload();
+        if (!this.message && value) {
+          const total = this.columns.reduce(
+            (sum, state) => sum + this.getColumnItems(state).length,
+            0
+          );
+          this.message = `${total} matching item(s)`;
+        }
+        return;
+      case 'priority': {
+        const priority = PRIORITIES.find((candidate) => candidate.startsWith(value.toLowerCase()));
+        if (!item || !value) return;
+        if (!priority) {
+          this.message = `Invalid priority: ${value}`;
+          return;
+        }
+        await this.update(item, { priority }, `${getItemId(item)} priority set to ${priority}`);
+        return;
+      }
+      case 'assignee':
+        if (item && value !== (item.assignee || '')) {
+          await this.update(
+            item,
+            { assignee: value },
+            `${getItemId(item)} ${value ? `assigned to ${value}` : 'unassigned'}`
+          );
+        }
+        return;
+      case 'move': {
+        if (!item || !value) return;
+        const allowed = this.allowedStates(item);
+        const target =
+          allowed[Number.parseInt(value, 10) - 1] ||
+          allowed.find((state) => state === value) ||
+          (value as UnifiedState);
+        await this.transition(item, target);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move the selected card to the nearest column in a direction it may transition to
+   */
+  private async moveSelected(direction: -1 | 1): Promise<void> {
+    const item = this.getSelectedItem();
+    if (!item) return;
+
+    const allowed = this.allowedStates(item);
+    for (let i = this.column + direction; i >= 0 && i < this.columns.length; i += direction) {
+      if (allowed.includes(this.columns[i])) {
+        await this.transition(item, this.columns[i]);
+        return;
+      }
+    }
+    this.message = `${getItemId(item)} cannot move ${direction < 0 ? 'left' : 'right'} from ${StateManager.getEffectiveState(item)}`;
+  }
+
+  private async transition(item: AnyItemData, to: UnifiedState): Promise<void> {
+    const from = StateManager.getEffectiveState(item);
+    const validation = StateManager.validateTransition(
+      from,
+      to,
+      StateManager.getWorkflowEngine().getUserRoles(this.user),
+      getItemType(item)
+    );
+    if (!validation.valid) {
+      this.message = validation.errors.join('; ');
+      return;
+    }
+
+    // The item service re-validates, writes state_metadata, runs hooks and records history;
+    // the reload afterwards follows the card to its new column
+    await this.update(item, { state: to }, `${getItemId(item)} moved to ${to}`);
+  }
+
+  private async update(
+    item: AnyItemData,
+    input: Parameters<ItemService['updateItem']>[1],
+    success: string
+  ): Promise<void> {
+    try {
+      await this.itemService.updateItem(getItemId(item), input, {
+        user: this.user,
+        source: 'board',
+      });
+      this.reload();
+      this.message = success;
+    } catch (error) {
+      this.message = error instanceof Error ? error.message : 'Update failed';
+    }
+  }
+
+  private allowedStates(item: AnyItemData): UnifiedState[] {
+    const roles = StateManager.getWorkflowEngine().getUserRoles(this.user);
+    const from = StateManager.getEffectiveState(item);
+    return StateManager.getAllowedTransitions(from, getItemType(item)).filter(
+      (to) => StateManager.validateTransition(from, to, roles, getItemType(item)).valid
+    );
+  }
+
+  private moveCursor(columns: number, rows: number): void {
+    if (columns) {
+      this.column = Math.min(Math.max(0, this.column + columns), this.columns.length - 1);
+      this.row = Math.min(
+        this.row,
+        Math.max(0, this.getColumnItems(this.columns[this.column]).length - 1)
+      );
+    }
+    this.row += rows;
+    this.clampSelection();
+  }
+
+  private select(itemId: string): void {
+    this.columns.forEach((state, column) => {
+      const row = this.getColumnItems(state).findIndex((item) => getItemId(item) === itemId);
+      if (row >= 0) {
+        this.column = column;
+        this.row = row;
+      }
+    });
+  }
+
+  private clampSelection(): void {
+    const count = this.getColumnItems(this.columns[this.column]).length;
+    this.row = Math.min(Math.max(0, this.row), Math.max(0, count - 1));
+  }
+
+  /**
+   * Cards of a column with group headers when grouping is on
+   */
+  private entries(state: UnifiedState): BoardEntry[] {
+    const entries: BoardEntry[] = [];
+    let group: string | undefined;
+    for (const item of this.getColumnItems(state)) {
+      const label = this.groupLabel(item);
+      if (this.groupBy !== 'none' && label !== group) {
+        entries.push({ kind: 'group', label });
+        group = label;
+      }
+      entries.push({ kind: 'card', item });
+    }
+    return entries;
+  }
+
+  private compareCards(a: AnyItemData, b: AnyItemData): number {
+    if (this.groupBy === 'priority') {
+      return PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) || compareIds(a, b);
+    }
+    if (this.groupBy !== 'none') {
+      const [groupA, groupB] = [this.groupKey(a), this.groupKey(b)];
+      // Items without an epic or assignee go last
+      if (groupA !== groupB) {
+        if (!groupA) return 1;
+        if (!groupB) return -1;
+        return groupA.localeCompare(groupB);
+      }
+    }
+    return PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) || compareIds(a, b);
+  }
+
+  private groupKey(item: AnyItemData): string {
+    switch (this.groupBy) {
+      case 'epic':
+        return getItemType(item) === 'epic'
+          ? getItemId(item)
+          : ('epic_id' in item && item.epic_id) || '';
+      case 'assignee':
+        return item.assignee || '';
+      case 'priority':
+        return item.priority;
+      default:
+        return '';
+    }
+  }
+
+  private groupLabel(item: AnyItemData): string {
+    const key = this.groupKey(item);
+    switch (this.groupBy) {
+      case 'epic': {
+        if (!key) return 'No epic';
+        const epic = this.relationshipManager.getItem(key);
+        return epic ? `${key} ${epic.title}` : key;
+      }
+      case 'assignee':
+        return key ? `@${key}` : 'Unassigned';
+      default:
+        return key;
+    }
+  }
+}
+
+/**
+ * Truncate or pad plain text to an exact width
+ */
+function fitWidth(text: string, width: number, pad = ' '): string {
+  if (width <= 0) return '';
+  if (text.length > width) return `${text.slice(0, Math.max(0, width - 1))}…`;
+  return text + pad.repeat(width - text.length);
+}
+
+function compareIds(a: AnyItemData, b: AnyItemData): number {
+  return getItemId(a).localeCompare(getItemId(b), undefined, { numeric: true });
+}
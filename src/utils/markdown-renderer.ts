@@ -0,0 +1,202 @@
+/**
+ * Markdown Renderer for AI-Trackdown
+ * Renders the markdown used in item bodies and comments to HTML. Raw HTML in the
+ * source is escaped, and links are limited to safe schemes, so output can be published.
+ */
+
+const SAFE_URL = /^(https?:\/\/|mailto:|#|\/|\.{0,2}\/|[\w-]+(\.[\w-]+)*(\/|$|#|\?))/i;
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render markdown blocks: headings, paragraphs, fenced code, block quotes,
+ * ordered, unordered and task lists, tables and horizontal rules
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${lang}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quote.push(lines[i].replace(/^\s*>\s?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      const [header, , ...body] = rows;
+      html.push(
+        '<table><thead><tr>' +
+          header.map((cell) => `<th>${renderInline(cell)}</th>`).join('') +
+          '</tr></thead><tbody>' +
+          body
+            .map(
+              (row) => `<tr>${row.map((cell) => `<td>${renderInline(cell)}</td>`).join('')}</tr>`
+            )
+            .join('') +
+          '</tbody></table>'
+      );
+      continue;
+    }
+
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const indent = listItem[1].length;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = lines[i].match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+        if (match && match[1].length <= indent && /\d/.test(match[2]) === ordered) {
+          items.push(match[3]);
+          i++;
+          continue;
+        }
+        // Nested list lines and wrapped text belong to the previous item
+        if (items.length > 0 && lines[i].trim() && /^\s+/.test(lines[i])) {
+          items[items.length - 1] +=
+            `\n${lines[i].slice(Math.min(indent + 2, lines[i].search(/\S/)))}`;
+          i++;
+          continue;
+        }
+        break;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${items.map(renderListItem).join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    html.push(`<p>${renderInline(paragraph.join('\n')).replace(/\n/g, '<br>\n')}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+/**
+ * Render inline markdown: code spans, links, images as links, bold, italic and strikethrough
+ */
+export function renderInline(text: string): string {
+  // Code spans are kept aside so their content is not formatted
+  const codeSpans: string[] = [];
+  let result = text.replace(/`([^`]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\uE000${codeSpans.length - 1}\uE000`;
+  });
+
+  result = escapeHtml(result)
+    .replace(
+      /!?\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g,
+      (_match, label: string, url: string) => {
+        const href = url.replace(/&amp;/g, '&');
+        if (!SAFE_URL.test(href)) return label;
+        return `<a href="${escapeHtml(href)}">${label || escapeHtml(href)}</a>`;
+      }
+    )
+    .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, '$1<a href="$2">$2</a>')
+    .replace(
+      /\*\*(.+?)\*\*|__(.+?)__/g,
+      (_match, a?: string, b?: string) => `<strong>${a ?? b}</strong>`
+    )
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_(?!\s)(.+?)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_match, index: string) => codeSpans[Number(index)]);
+}
+
+function renderListItem(item: string): string {
+  const [first, ...rest] = item.split('\n');
+  const task = first.match(/^\[([ xX])\]\s+(.*)$/);
+  const label = task
+    ? `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> ${renderInline(task[2])}`
+    : renderInline(first);
+  const nested = rest.length > 0 ? renderMarkdown(rest.join('\n')) : '';
+  return `<li${task ? ' class="task"' : ''}>${label}${nested}</li>`;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    lines[i].includes('|') &&
+    i + 1 < lines.length &&
+    /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(lines[i + 1])
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    /^\s*(```|~~~)/.test(line) ||
+    /^#{1,6}\s/.test(line) ||
+    /^\s*>/.test(line) ||
+    /^\s*([-*+]|\d+[.)])\s+/.test(line) ||
+    isTableStart(lines, i)
+  );
+}
@@ -0,0 +1,508 @@
+/**
+ * MCP Server for AI-Trackdown
+ * Model Context Protocol server over stdio (newline-delimited JSON-RPC 2.0) so agents
+ * create and update items through the same rules as the CLI instead of parsing its output
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import { type AnyItemData, getItemId, getItemType, StateManager } from '../types/ai-trackdown.js';
+import type { ConfigManager } from './config-manager.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { createComment } from './index.js';
+import { searchItems } from './item-search.js';
+import { type ItemInput, ItemService, type WritableItemType } from './item-service.js';
+import { buildLlmsTxt } from './llms-txt.js';
+import type { RelationshipManager } from './relationship-manager.js';
+
+// Newest first; the first entry is offered when the client asks for an unknown version
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const ITEM_URI_PREFIX = 'trackdown://items/';
+const CONTEXT_URI_PREFIX = 'trackdown://context/';
+const LLMS_TXT_URI = 'trackdown://llms.txt';
+
+// JSON-RPC and MCP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const RESOURCE_NOT_FOUND = -32002;
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface McpServerOptions {
+  cliTasksDir?: string;
+  // Recorded as the author of agent changes
+  user?: string;
+  version?: string;
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+class RpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const ITEM_FIELDS = {
+  title: { type: 'string' },
+  description: { type: 'string' },
+  priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+  assignee: { type: 'string' },
+  tags: { type: 'array', items: { type: 'string' } },
+  milestone: { type: 'string' },
+  due_date: { type: 'string', description: 'YYYY-MM-DD' },
+};
+
+export class TrackdownMcpServer {
+  private configManager: ConfigManager;
+  private options: McpServerOptions;
+  private paths: ReturnType<ConfigManager['getAbsolutePaths']>;
+  private itemService: ItemService;
+  private relationshipManager: RelationshipManager;
+  private tools: McpTool[];
+
+  constructor(configManager: ConfigManager, options: McpServerOptions = {}) {
+    this.configManager = configManager;
+    this.options = options;
+    this.paths = configManager.getAbsolutePaths(options.cliTasksDir);
+    this.itemService = new ItemService(configManager, options.cliTasksDir);
+    this.relationshipManager = this.itemService.getRelationshipManager();
+    this.tools = this.createTools();
+  }
+
+  /**
+   * Serve newline-delimited JSON-RPC messages until the input closes
+   */
+  public async listen(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+
+    // Handle one message at a time so writes from consecutive tool calls never interleave
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let response: JsonRpcResponse | null;
+      try {
+        response = await this.handleMessage(JSON.parse(line));
+      } catch {
+        response = {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: PARSE_ERROR, message: 'Parse error' },
+        };
+      }
+
+      if (response) {
+        output.write(`${JSON.stringify(response)}\n`);
+      }
+    }
+  }
+
+  /**
+   * Handle one request or notification; notifications get no response
+   */
+  public async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    const id = message?.id ?? null;
+    if (message?.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      return { jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid request' } };
+    }
+    if (message.id === undefined) {
+      return null;
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params || {});
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : INVALID_PARAMS;
+      const text = error instanceof Error ? error.message : 'Unknown error';
+      return { jsonrpc: '2.0', id, error: { code, message: text } };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = String(params.protocolVersion || '');
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'ai-trackdown', version: this.options.version || '0.0.0' },
+          instructions:
+            'Track epics, issues, tasks and PRs in this project. Search before creating ' +
+            'to avoid duplicates, and give a reason when changing state.',
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: this.tools.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(
+          String(params.name || ''),
+          (params.arguments || {}) as Record<string, unknown>
+        );
+      case 'resources/list':
+        return { resources: this.listResources() };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: `${ITEM_URI_PREFIX}{id}`,
+              name: 'Item',
+              description: 'Markdown file of an epic, issue, task or PR by ID',
+              mimeType: 'text/markdown',
+            },
+          ],
+        };
+      case 'resources/read':
+        return { contents: [this.readResource(String(params.uri || ''))] };
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Run a tool; failures are reported in the result so the agent can correct itself
+   */
+  private async callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    const tool = this.tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    this.relationshipManager.rebuildCache();
+    try {
+      const result = await tool.handler(args);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }],
+        isError: true,
+      };
+    }
+  }
+
+  private createTools(): McpTool[] {
+    const write = { user: this.options.user, source: 'mcp' };
+    const create = (type: WritableItemType) => async (args: Record<string, unknown>) =>
+      summarize(await this.itemService.createItem(type, args as ItemInput, write));
+
+    return [
+      {
+        name: 'create_epic',
+        description: 'Create an epic',
+        inputSchema: objectSchema(ITEM_FIELDS, ['title']),
+        handler: create('epic'),
+      },
+      {
+        name: 'create_issue',
+        description: 'Create an issue, optionally within an existing epic',
+        inputSchema: objectSchema({ ...ITEM_FIELDS, epic_id: { type: 'string' } }, ['title']),
+        handler: create('issue'),
+      },
+      {
+        name: 'create_task',
+        description: 'Create a task under an existing issue',
+        inputSchema: objectSchema({ ...ITEM_FIELDS, issue_id: { type: 'string' } }, [
+          'title',
+          'issue_id',
+        ]),
+        handler: create('task'),
+      },
+      {
+        name: 'update_state',
+        description:
+          'Move an item to a new workflow state. The transition must be allowed by the ' +
+          'workflow and transition hooks may veto it.',
+        inputSchema: objectSchema(
+          {
+            item_id: { type: 'string' },
+            state: {
+              type: 'string',
+              enum: [
+                'planning',
+                'active',
+                'completed',
+                'archived',
+                'ready_for_engineering',
+                'ready_for_qa',
+                'ready_for_deployment',
+                'won_t_do',
+                'done',
+              ],
+            },
+            reason: { type: 'string' },
+            reviewer: { type: 'string' },
+          },
+          ['item_id', 'state']
+        ),
+        handler: async (args) => {
+          const { item_id, ...input } = args as unknown as ItemInput & { item_id: string };
+          const item = await this.itemService.updateItem(
+            item_id,
+            pick(input, ['state', 'reason', 'reviewer']),
+            write
+          );
+          return {
+            ...summarize(item),
+            allowed_next_states: StateManager.getAllowedTransitions(
+              StateManager.getEffectiveState(item),
+              getItemType(item)
+            ),
+          };
+        },
+      },
+      {
+        name: 'update_item',
+        description: 'Update fields of an item, or append a note to its body',
+        inputSchema: objectSchema(
+          { item_id: { type: 'string' }, ...ITEM_FIELDS, notes: { type: 'string' } },
+          ['item_id']
+        ),
+        handler: async (args) => {
+          const { item_id, ...input } = args as unknown as ItemInput & { item_id: string };
+          const fields = [...Object.keys(ITEM_FIELDS), 'notes'] as Array<keyof ItemInput>;
+          return summarize(await this.itemService.updateItem(item_id, pick(input, fields), write));
+        },
+      },
+      {
+        name: 'add_comment',
+        description: 'Add a comment to an issue',
+        inputSchema: objectSchema({ issue_id: { type: 'string' }, body: { type: 'string' } }, [
+          'issue_id',
+          'body',
+        ]),
+        handler: async (args) => {
+          const issueId = String(args.issue_id || '');
+          const body = String(args.body || '');
+          if (!this.relationshipManager.getIssueHierarchy(issueId)) {
+            throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Issue not found: ${issueId}`);
+          }
+          if (!body.trim()) {
+            throw new AITrackdownError(ErrorCode.MISSING_REQUIRED, 'Comment body is required');
+          }
+          return createComment(this.paths.projectRoot, issueId, body, {
+            author: this.options.user,
+            editorUsed: 'api',
+            source: 'mcp',
+            tasksRoot: this.paths.tasksRoot,
+          });
+        },
+      },
+      {
+        name: 'search',
+        description:
+          'Search items with GitHub-style qualifiers, e.g. "is:open label:bug login", ' +
+          '"assignee:alice is:overdue" or "status:ready_for_qa"',
+        inputSchema: objectSchema(
+          {
+            query: { type: 'string' },
+            type: { type: 'string', enum: ['epic', 'issue', 'task', 'pr'] },
+            limit: { type: 'number' },
+          },
+          ['query']
+        ),
+        handler: async (args) => {
+          const result = searchItems(this.relationshipManager, String(args.query || ''), {
+            type: args.type as WritableItemType | undefined,
+          });
+          const limit = Number(args.limit) > 0 ? Number(args.limit) : 50;
+          return {
+            total: result.items.length,
+            warnings: result.warnings,
+            items: result.items.slice(0, limit).map(summarize),
+          };
+        },
+      },
+      {
+        name: 'get_item',
+        description: 'Get an item with its full frontmatter and body',
+        inputSchema: objectSchema({ item_id: { type: 'string' } }, ['item_id']),
+        handler: async (args) => this.requireItem(String(args.item_id || '')),
+      },
+      {
+        name: 'get_hierarchy',
+        description:
+          'Get an epic with its issues, tasks and PRs, or an issue with its tasks and PRs',
+        inputSchema: objectSchema({ item_id: { type: 'string' } }, ['item_id']),
+        handler: async (args) => {
+          const item = this.requireItem(String(args.item_id || ''));
+          const id = getItemId(item);
+          switch (getItemType(item)) {
+            case 'epic': {
+              const hierarchy = this.relationshipManager.getEpicHierarchy(id);
+              return (
+                hierarchy && {
+                  epic: summarize(hierarchy.epic),
+                  issues: hierarchy.issues.map(summarize),
+                  tasks: hierarchy.tasks.map(summarize),
+                  prs: hierarchy.prs.map(summarize),
+                }
+              );
+            }
+            case 'issue': {
+              const hierarchy = this.relationshipManager.getIssueHierarchy(id);
+              return (
+                hierarchy && {
+                  issue: summarize(hierarchy.issue),
+                  epic: hierarchy.epic && summarize(hierarchy.epic),
+                  tasks: hierarchy.tasks.map(summarize),
+                  prs: hierarchy.prs.map(summarize),
+                }
+              );
+            }
+            default:
+              throw new AITrackdownError(
+                ErrorCode.INVALID_ARGUMENT,
+                `Hierarchies are available for epics and issues, not ${id}`
+              );
+          }
+        },
+      },
+    ];
+  }
+
+  /**
+   * Resources: llms.txt, every item file and the ai_context files items reference
+   */
+  private listResources() {
+    this.relationshipManager.rebuildCache();
+    const items = this.relationshipManager.search({}).items;
+
+    const contextEntries = new Set<string>();
+    for (const item of items) {
+      for (const entry of item.ai_context || []) {
+        if (this.resolveContextFile(entry)) contextEntries.add(entry);
+      }
+    }
+
+    return [
+      {
+        uri: LLMS_TXT_URI,
+        name: 'llms.txt',
+        description: 'Project overview for language models',
+        mimeType: 'text/plain',
+      },
+      ...items.map((item) => ({
+        uri: `${ITEM_URI_PREFIX}${getItemId(item)}`,
+        name: `${getItemId(item)}: ${item.title}`,
+        mimeType: 'text/markdown',
+      })),
+      ...[...contextEntries].sort().map((entry) => ({
+        uri: `${CONTEXT_URI_PREFIX}${entry}`,
+        name: entry,
+        description: 'AI context referenced by items',
+        mimeType: 'text/markdown',
+      })),
+    ];
+  }
+
+  private readResource(uri: string): { uri: string; mimeType: string; text: string } {
+    if (uri === LLMS_TXT_URI) {
+      this.relationshipManager.rebuildCache();
+      const { content } = buildLlmsTxt(this.configManager.getConfig(), this.relationshipManager);
+      return { uri, mimeType: 'text/plain', text: content };
+    }
+
+    if (uri.startsWith(ITEM_URI_PREFIX)) {
+      this.relationshipManager.rebuildCache();
+      const item = this.relationshipManager.getItem(uri.slice(ITEM_URI_PREFIX.length));
+      if (item && fs.existsSync(item.file_path)) {
+        return { uri, mimeType: 'text/markdown', text: fs.readFileSync(item.file_path, 'utf8') };
+      }
+    }
+
+    if (uri.startsWith(CONTEXT_URI_PREFIX)) {
+      const file = this.resolveContextFile(uri.slice(CONTEXT_URI_PREFIX.length));
+      if (file) {
+        return { uri, mimeType: 'text/markdown', text: fs.readFileSync(file, 'utf8') };
+      }
+    }
+
+    throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+
+  /**
+   * Map an ai_context entry such as "context/requirements" to a file in the project;
+   * entries that are plain labels or point outside the project resolve to null
+   */
+  private resolveContextFile(entry: string): string | null {
+    const root = this.paths.projectRoot;
+    for (const candidate of [entry, `${entry}.md`]) {
+      const file = path.resolve(root, candidate);
+      if (!file.startsWith(root + path.sep)) return null;
+      if (fs.existsSync(file) && fs.statSync(file).isFile()) return file;
+    }
+    return null;
+  }
+
+  private requireItem(itemId: string): AnyItemData {
+    const item = this.relationshipManager.getItem(itemId);
+    if (!item) {
+      throw new AITrackdownError(ErrorCode.FILE_NOT_FOUND, `Item not found: ${itemId}`);
+    }
+    return item;
+  }
+}
+
+/**
+ * Compact view of an item for tool results
+ */
+function summarize(item: AnyItemData) {
+  return {
+    id: getItemId(item),
+    type: getItemType(item),
+    title: item.title,
+    state: StateManager.getEffectiveState(item),
+    priority: item.priority,
+    assignee: item.assignee,
+    ...('epic_id' in item &&
+      item.epic_id &&
+      getItemType(item) !== 'epic' && { epic_id: item.epic_id }),
+    ...('issue_id' in item && getItemType(item) !== 'issue' && { issue_id: item.issue_id }),
+    ...('milestone' in item && item.milestone && { milestone: item.milestone }),
+    ...(item.due_date && { due_date: item.due_date }),
+  };
+}
+
+function objectSchema(properties: Record<string, unknown>, required: string[]) {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+function pick<T extends object>(source: T, keys: Array<keyof T>): Partial<T> {
+  return Object.fromEntries(
+    keys.filter((key) => source[key] !== undefined).map((key) => [key, source[key]])
+  ) as Partial<T>;
+}
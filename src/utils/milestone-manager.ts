@@ -0,0 +1,275 @@
+/**
+ * Milestone Manager for AI-Trackdown
+ * Milestone records with target dates, progress derived from linked items and release linkage
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as YAML from 'yaml';
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type MilestoneData,
+  type MilestoneFrontmatter,
+  type MilestoneProgress,
+  type ProjectConfig,
+  StateManager,
+} from '../types/ai-trackdown.js';
+import { isFinishedItem, parseDueDate } from './due-dates.js';
+import { AITrackdownIdGenerator } from './id-generator.js';
+import { writeFileJournaled } from './journaled-fs.js';
+import { RelationshipManager } from './relationship-manager.js';
+import { toIsoDate } from './sprint-manager.js';
+import { UnifiedPathResolver } from './unified-path-resolver.js';
+
+const FRONTMATTER_REGEX = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
+
+export interface CreateMilestoneOptions {
+  title: string;
+  description?: string;
+  due_date?: string;
+}
+
+export interface MilestoneCloseResult {
+  milestone: MilestoneData;
+  // Linked items that were still open when the milestone was closed
+  open_items: string[];
+}
+
+export class MilestoneManager {
+  private config: ProjectConfig;
+  private projectRoot: string;
+  private cliTasksDir?: string;
+  private milestonesDir: string;
+
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+    this.cliTasksDir = cliTasksDir;
+    this.milestonesDir = new UnifiedPathResolver(
+      config,
+      projectRoot,
+      cliTasksDir
+    ).getUnifiedPaths().milestonesDir;
+  }
+
+  /**
+   * List all milestones ordered by due date; milestones without one come last
+   */
+  public listMilestones(): MilestoneData[] {
+    if (!fs.existsSync(this.milestonesDir)) {
+      return [];
+    }
+
+    const milestones: MilestoneData[] = [];
+    for (const file of fs.readdirSync(this.milestonesDir)) {
+      if (!file.endsWith('.md')) continue;
+      try {
+        milestones.push(this.readMilestone(path.join(this.milestonesDir, file)));
+      } catch (error) {
+        console.warn(
+          `Failed to parse milestone ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return milestones.sort(
+      (a, b) =>
+        (a.due_date || '9999').localeCompare(b.due_date || '9999') ||
+        a.milestone_id.localeCompare(b.milestone_id)
+    );
+  }
+
+  /**
+   * Get a milestone by ID or title (titles match case-insensitively)
+   */
+  public getMilestone(ref: string): MilestoneData | null {
+    const milestones = this.listMilestones();
+    return (
+      milestones.find((milestone) => milestone.milestone_id === ref) ||
+      milestones.find((milestone) => milestone.title.toLowerCase() === ref.toLowerCase()) ||
+      null
+    );
+  }
+
+  /**
+   * Find the milestone for a release version, titled either "1.4.0" or "v1.4.0"
+   */
+  public findForVersion(version: string): MilestoneData | null {
+    const bare = version.replace(/^v/, '');
+    return this.getMilestone(bare) || this.getMilestone(`v${bare}`);
+  }
+
+  /**
+   * Create a new open milestone; titles must be unique because items link by title
+   */
+  public createMilestone(options: CreateMilestoneOptions): MilestoneData {
+    const title = options.title.trim();
+    if (!title) {
+      throw new Error('Milestone title is required');
+    }
+    if (this.getMilestone(title)) {
+      throw new Error(`Milestone already exists: ${title}`);
+    }
+
+    const idGenerator = new AITrackdownIdGenerator(this.config, this.projectRoot);
+    const milestoneId = idGenerator.generateMilestoneId(title);
+    const now = new Date().toISOString();
+
+    const milestone: MilestoneData = {
+      milestone_id: milestoneId,
+      title,
+      ...(options.description && { description: options.description }),
+      ...(options.due_date && { due_date: parseDueDate(options.due_date) }),
+      milestone_state: 'open',
+      created_date: now,
+      updated_date: now,
+      content: `# Milestone: ${title}\n\n${options.description || 'Milestone description to be defined.'}\n`,
+      file_path: path.join(this.milestonesDir, idGenerator.generateFilename(milestoneId, title)),
+    };
+
+    this.writeMilestone(milestone);
+    return milestone;
+  }
+
+  /**
+   * Close a milestone. Open linked items block closing unless forced.
+   */
+  public closeMilestone(ref: string, options: { force?: boolean } = {}): MilestoneCloseResult {
+    const milestone = this.requireMilestone(ref);
+    if (milestone.milestone_state === 'closed') {
+      throw new Error(`Milestone ${milestone.milestone_id} is already closed`);
+    }
+
+    const openItems = this.getProgress(milestone)
+      .items.filter((item) => !item.finished)
+      .map((item) => item.id);
+    if (openItems.length > 0 && !options.force) {
+      throw new Error(
+        `Milestone ${milestone.milestone_id} has open items: ${openItems.join(', ')} (use --force to close anyway)`
+      );
+    }
+
+    milestone.milestone_state = 'closed';
+    milestone.closed_date = new Date().toISOString();
+    this.writeMilestone(milestone);
+
+    return { milestone, open_items: openItems };
+  }
+
+  /**
+   * Update milestone fields, e.g. from GitHub sync
+   */
+  public updateMilestone(
+    ref: string,
+    updates: Partial<Omit<MilestoneFrontmatter, 'milestone_id' | 'created_date'>>
+  ): MilestoneData {
+    const milestone = this.requireMilestone(ref);
+    Object.assign(milestone, updates);
+    if (updates.due_date) {
+      milestone.due_date = parseDueDate(updates.due_date);
+    }
+    if (updates.milestone_state === 'open') {
+      milestone.closed_date = undefined;
+    } else if (updates.milestone_state === 'closed' && !milestone.closed_date) {
+      milestone.closed_date = new Date().toISOString();
+    }
+    this.writeMilestone(milestone);
+    return milestone;
+  }
+
+  /**
+   * Items whose `milestone` field names this milestone by title or ID
+   */
+  public getItems(
+    milestone: MilestoneData,
+    relationshipManager?: RelationshipManager
+  ): AnyItemData[] {
+    const manager =
+      relationshipManager ||
+      new RelationshipManager(this.config, this.projectRoot, this.cliTasksDir);
+    const title = milestone.title.toLowerCase();
+    return manager
+      .search({})
+      .items.filter(
+        (item) =>
+          'milestone' in item &&
+          typeof item.milestone === 'string' &&
+          (item.milestone === milestone.milestone_id || item.milestone.toLowerCase() === title)
+      );
+  }
+
+  /**
+   * Progress of a milestone from its linked items; won't-do items are left out
+   */
+  public getProgress(
+    milestone: MilestoneData,
+    relationshipManager?: RelationshipManager
+  ): MilestoneProgress {
+    const items = this.getItems(milestone, relationshipManager)
+      .filter((item) => StateManager.getEffectiveState(item) !== 'won_t_do')
+      .map((item) => ({
+        id: getItemId(item),
+        type: getItemType(item),
+        title: item.title,
+        state: StateManager.getEffectiveState(item),
+        finished: isFinishedItem(item),
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const finished = items.filter((item) => item.finished).length;
+    return {
+      total: items.length,
+      finished,
+      percentage: items.length > 0 ? Math.round((finished / items.length) * 100) : 0,
+      items,
+    };
+  }
+
+  private requireMilestone(ref: string): MilestoneData {
+    const milestone = this.getMilestone(ref);
+    if (!milestone) {
+      throw new Error(`Milestone not found: ${ref}`);
+    }
+    return milestone;
+  }
+
+  private readMilestone(filePath: string): MilestoneData {
+    const match = fs.readFileSync(filePath, 'utf8').match(FRONTMATTER_REGEX);
+    if (!match) {
+      throw new Error('missing YAML frontmatter');
+    }
+
+    const frontmatter = YAML.parse(match[1]) as MilestoneFrontmatter;
+    if (!frontmatter?.milestone_id) {
+      throw new Error('missing milestone_id');
+    }
+
+    return {
+      ...frontmatter,
+      // YAML may load unquoted dates as Date objects, and numeric titles as numbers
+      title: String(frontmatter.title),
+      ...(frontmatter.due_date && { due_date: toIsoDate(frontmatter.due_date) }),
+      milestone_state: frontmatter.milestone_state || 'open',
+      content: match[2].trim(),
+      file_path: filePath,
+    };
+  }
+
+  private writeMilestone(milestone: MilestoneData): void {
+    const { content, file_path, ...frontmatter } = milestone;
+    frontmatter.updated_date = new Date().toISOString();
+    milestone.updated_date = frontmatter.updated_date;
+
+    const cleaned = Object.fromEntries(
+      Object.entries(frontmatter).filter(([, value]) => value !== undefined && value !== null)
+    );
+    const yamlString = YAML.stringify(cleaned, { indent: 2, lineWidth: 120 });
+
+    if (!fs.existsSync(this.milestonesDir)) {
+      fs.mkdirSync(this.milestonesDir, { recursive: true });
+    }
+    writeFileJournaled(file_path, `---\n${yamlString}---\n\n${content}\n`);
+  }
+}
@@ -7,6 +7,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { PRData, PRStatus } from '../types/ai-trackdown.js';
 import type { ConfigManager } from './config-manager.js';
+import { renameJournaled, writeFileJournaled } from './journaled-fs.js';
 import { PRStatusManager } from './pr-status-manager.js';
 
 export class PRFileManager {
@@ -99,7 +100,7 @@ export class PRFileManager {
       // Generate unique filename
       const uniquePath = this.generateUniqueFilename(newPath);
 
-      fs.renameSync(currentPath, uniquePath);
+      renameJournaled(currentPath, uniquePath);
 
       return {
         moved: true,
@@ -110,7 +111,7 @@ export class PRFileManager {
     }
 
     // Move the file
-    fs.renameSync(currentPath, newPath);
+    renameJournaled(currentPath, newPath);
 
     return {
       moved: true,
@@ -161,7 +162,7 @@ export class PRFileManager {
     const reviewFilePath = path.join(reviewsDir, reviewFileName);
 
     // Write review file
-    fs.writeFileSync(reviewFilePath, content, 'utf8');
+    writeFileJournaled(reviewFilePath, content);
 
     return reviewFilePath;
   }
@@ -196,7 +197,7 @@ export class PRFileManager {
         if (stats.mtime < cutoffDate) {
           try {
             const archivePath = path.join(archiveDir, file);
-            fs.renameSync(filePath, archivePath);
+            renameJournaled(filePath, archivePath);
             archivedFiles.push(file);
           } catch (error) {
             errors.push(`Failed to archive ${file}: ${error}`);
@@ -5,8 +5,9 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { PRData, PRStatus } from '../types/ai-trackdown.js';
+import { type PRData, type PRStatus, StateManager } from '../types/ai-trackdown.js';
 import type { ConfigManager } from './config-manager.js';
+import { renameJournaled } from './journaled-fs.js';
 
 export class PRStatusManager {
   private configManager: ConfigManager;
@@ -19,16 +20,15 @@ export class PRStatusManager {
    * Validates if a status transition is allowed
    */
   isValidStatusTransition(currentStatus: PRStatus, newStatus: PRStatus): boolean {
-    const validTransitions: Record<PRStatus, PRStatus[]> = {
-      draft: ['open', 'closed'],
-      open: ['draft', 'review', 'approved', 'merged', 'closed'],
-      review: ['open', 'approved', 'closed'],
-      approved: ['review', 'merged', 'closed'],
-      merged: [], // Merged PRs cannot transition to other states
-      closed: ['draft', 'open'], // Closed PRs can be reopened
-    };
-
-    return validTransitions[currentStatus].includes(newStatus);
+    // Rules come from the pr_status workflow in config.yaml
+    const workflow = StateManager.getWorkflowEngine();
+    const user = process.env.USER || 'system';
+    return workflow.validateTransition(
+      currentStatus,
+      newStatus,
+      'pr_status',
+      workflow.getUserRoles(user)
+    ).valid;
   }
 
   /**
@@ -78,7 +78,7 @@ export class PRStatusManager {
     }
 
     // Move the file
-    fs.renameSync(pr.file_path, newFilePath);
+    renameJournaled(pr.file_path, newFilePath);
 
     return newFilePath;
   }
@@ -0,0 +1,101 @@
+/**
+ * Project Analytics for AI-Trackdown
+ * Computes ProjectAnalytics (breakdowns, completion, resolution and token usage) from items
+ */
+
+import {
+  type AnyItemData,
+  getItemType,
+  type ItemStatus,
+  type Priority,
+  type ProjectAnalytics,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { isFinishedItem } from './due-dates.js';
+
+const STATUSES: ItemStatus[] = ['planning', 'active', 'completed', 'archived'];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const STATES: UnifiedState[] = [
+  'planning',
+  'active',
+  'completed',
+  'archived',
+  'ready_for_engineering',
+  'ready_for_qa',
+  'ready_for_deployment',
+  'won_t_do',
+  'done',
+];
+
+/**
+ * Calculate analytics over a set of items; rates are percentages rounded to one decimal
+ */
+export function calculateProjectAnalytics(items: AnyItemData[]): ProjectAnalytics {
+  const status_breakdown = Object.fromEntries(STATUSES.map((status) => [status, 0])) as Record<
+    ItemStatus,
+    number
+  >;
+  const state_breakdown = Object.fromEntries(STATES.map((state) => [state, 0])) as Record<
+    UnifiedState,
+    number
+  >;
+  const priority_breakdown = Object.fromEntries(
+    PRIORITIES.map((priority) => [priority, 0])
+  ) as Record<Priority, number>;
+  const assignee_breakdown: Record<string, number> = {};
+
+  let finished = 0;
+  let transitioned = 0;
+  let automated = 0;
+  let estimated_total = 0;
+  let actual_total = 0;
+
+  for (const item of items) {
+    const state = StateManager.getEffectiveState(item);
+    if (item.status in status_breakdown) status_breakdown[item.status]++;
+    state_breakdown[state] = (state_breakdown[state] || 0) + 1;
+    if (item.priority in priority_breakdown) priority_breakdown[item.priority]++;
+    const assignee = item.assignee || 'unassigned';
+    assignee_breakdown[assignee] = (assignee_breakdown[assignee] || 0) + 1;
+
+    if (isFinishedItem(item)) finished++;
+    if (item.state_metadata) {
+      transitioned++;
+      if (item.state_metadata.automation_eligible) automated++;
+    }
+    estimated_total += item.estimated_tokens || 0;
+    actual_total += item.actual_tokens || 0;
+  }
+
+  const count = (type: string) => items.filter((item) => getItemType(item) === type).length;
+
+  return {
+    total_epics: count('epic'),
+    total_issues: count('issue'),
+    total_tasks: count('task'),
+    completion_rate: percentage(finished, items.length),
+    status_breakdown,
+    state_breakdown,
+    priority_breakdown,
+    assignee_breakdown,
+    resolution_analytics: {
+      ready_for_engineering: state_breakdown.ready_for_engineering,
+      ready_for_qa: state_breakdown.ready_for_qa,
+      ready_for_deployment: state_breakdown.ready_for_deployment,
+      won_t_do: state_breakdown.won_t_do,
+      done: state_breakdown.done,
+      automation_rate: percentage(automated, transitioned),
+    },
+    token_usage: {
+      estimated_total,
+      actual_total,
+      efficiency_ratio:
+        estimated_total > 0 ? Math.round((actual_total / estimated_total) * 100) / 100 : 0,
+    },
+  };
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
@@ -0,0 +1,449 @@
+/**
+ * Recurrence Manager for AI-Trackdown
+ * Parses recurrence rules on items and templates and creates the instances
+ * that are due, at most once per series and occurrence date
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as YAML from 'yaml';
+import type {
+  AnyItemData,
+  EpicData,
+  EpicFrontmatter,
+  IssueData,
+  IssueFrontmatter,
+  ItemTemplate,
+  ProjectConfig,
+  TaskData,
+  TaskFrontmatter,
+} from '../types/ai-trackdown.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { HistoryLog } from './history-log.js';
+import { AITrackdownIdGenerator } from './id-generator.js';
+import { RelationshipManager } from './relationship-manager.js';
+import { addDays, daysBetween, toIsoDate } from './sprint-manager.js';
+import { TemplateManager } from './template-manager.js';
+import { UnifiedPathResolver, type UnifiedPaths } from './unified-path-resolver.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Occurrences are looked for at most this far back
+const MAX_LOOKBACK_DAYS = 400;
+
+export type RecurringItemType = 'epic' | 'issue' | 'task';
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number; // Every N days or weeks
+  weekdays?: number[]; // 0 = Sunday; weekly rules without days use the start date's weekday
+  monthday?: number; // Clamped to the last day of shorter months
+}
+
+export interface RecurringSeries {
+  id: string; // Series item ID, or template:<type>-<name>
+  type: RecurringItemType;
+  title: string;
+  rule_text: string;
+  rule: RecurrenceRule;
+  start?: string;
+  template_name: string;
+  item?: EpicData | IssueData | TaskData;
+  template?: ItemTemplate;
+}
+
+export interface RecurRunOptions {
+  date?: string; // Run as of this date instead of today
+  catchUp?: boolean; // Create every missed occurrence, not only the latest
+  dryRun?: boolean;
+  user?: string;
+}
+
+export interface RecurRunResult {
+  series_id: string;
+  date: string;
+  item_id?: string;
+  file_path?: string;
+  error?: string;
+}
+
+/**
+ * Parse a recurrence rule such as "daily", "weekdays", "weekly on monday",
+ * "weekly on tue, thu", "every 2 weeks" or "monthly on 15"
+ */
+export function parseRecurrence(text: string): RecurrenceRule {
+  const rule = text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (rule === 'daily') return { frequency: 'daily', interval: 1 };
+  if (rule === 'weekdays') return { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] };
+
+  const weekly = rule.match(/^weekly(?: on (.+))?$/);
+  if (weekly) {
+    return {
+      frequency: 'weekly',
+      interval: 1,
+      ...(weekly[1] && { weekdays: parseWeekdays(weekly[1], text) }),
+    };
+  }
+
+  const every = rule.match(/^every (\d+) (day|week)s?(?: on (.+))?$/);
+  if (every) {
+    const interval = Number.parseInt(every[1], 10);
+    if (interval < 1) throw new Error(`Invalid recurrence rule: ${text}`);
+    if (every[2] === 'day') {
+      if (every[3]) throw new Error(`Invalid recurrence rule: ${text}`);
+      return { frequency: 'daily', interval };
+    }
+    return {
+      frequency: 'weekly',
+      interval,
+      ...(every[3] && { weekdays: parseWeekdays(every[3], text) }),
+    };
+  }
+
+  const monthly = rule.match(/^monthly(?: on (?:day )?(\d{1,2})(?:st|nd|rd|th)?)?$/);
+  if (monthly) {
+    const monthday = monthly[1] ? Number.parseInt(monthly[1], 10) : undefined;
+    if (monthday !== undefined && (monthday < 1 || monthday > 31)) {
+      throw new Error(`Invalid recurrence rule: ${text}`);
+    }
+    return { frequency: 'monthly', interval: 1, ...(monthday && { monthday }) };
+  }
+
+  throw new Error(
+    `Invalid recurrence rule: ${text} (expected daily, weekdays, weekly on <day>, every <n> days|weeks or monthly on <day>)`
+  );
+}
+
+function parseWeekdays(list: string, text: string): number[] {
+  const days = list
+    .split(/,|\band\b/)
+    .map((day) => day.trim())
+    .filter(Boolean)
+    .map((day) => {
+      const index = WEEKDAYS.findIndex((name) => name === day || name.slice(0, 3) === day);
+      if (index === -1) throw new Error(`Invalid recurrence rule: ${text} (unknown day "${day}")`);
+      return index;
+    });
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Whether a rule has an occurrence on a date. Rules with an interval or
+ * without explicit days are anchored on the series start date.
+ */
+export function occursOn(rule: RecurrenceRule, date: string, start?: string): boolean {
+  if (start && date < start) return false;
+  const day = new Date(`${date}T00:00:00Z`);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return (
+        rule.interval === 1 || (!!start && (daysBetween(start, date) - 1) % rule.interval === 0)
+      );
+
+    case 'weekly': {
+      const weekdays =
+        rule.weekdays || (start ? [new Date(`${start}T00:00:00Z`).getUTCDay()] : [1]);
+      if (!weekdays.includes(day.getUTCDay())) return false;
+      if (rule.interval === 1) return true;
+      if (!start) return false;
+      // Count whole weeks between the Sundays starting each week
+      const weekStart = (iso: string) => addDays(iso, -new Date(`${iso}T00:00:00Z`).getUTCDay());
+      const weeks = (daysBetween(weekStart(start), weekStart(date)) - 1) / 7;
+      return weeks % rule.interval === 0;
+    }
+
+    case 'monthly': {
+      const wanted = rule.monthday || (start ? Number.parseInt(start.slice(8, 10), 10) : 1);
+      const lastDay = new Date(
+        Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      return day.getUTCDate() === Math.min(wanted, lastDay);
+    }
+  }
+}
+
+export class RecurrenceManager {
+  private config: ProjectConfig;
+  private projectRoot: string;
+  private paths: UnifiedPaths;
+  private relationshipManager: RelationshipManager;
+  private parser = new FrontmatterParser();
+
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+    this.paths = new UnifiedPathResolver(config, projectRoot, cliTasksDir).getUnifiedPaths();
+    this.relationshipManager = new RelationshipManager(config, projectRoot, cliTasksDir);
+  }
+
+  /**
+   * List every recurring series: items with a recurrence rule, then project
+   * templates with one
+   */
+  public listSeries(): RecurringSeries[] {
+    const series: RecurringSeries[] = [];
+
+    const items: Array<EpicData | IssueData | TaskData> = [
+      ...this.relationshipManager.getAllEpics(),
+      ...this.relationshipManager.getAllIssues(),
+      ...this.relationshipManager.getAllTasks(),
+    ];
+    for (const item of items) {
+      if (!item.recurrence) continue;
+      series.push({
+        id: getRecurringId(item),
+        type: getRecurringType(item),
+        title: item.title,
+        rule_text: item.recurrence,
+        rule: this.parseRule(item.recurrence, getRecurringId(item)),
+        start: toIsoDate(item.created_date),
+        template_name: item.recurrence_template || 'default',
+        item,
+      });
+    }
+
+    if (fs.existsSync(this.paths.templatesDir)) {
+      for (const file of fs.readdirSync(this.paths.templatesDir).sort()) {
+        if (!file.endsWith('.yaml')) continue;
+        const template = YAML.parse(
+          fs.readFileSync(path.join(this.paths.templatesDir, file), 'utf8')
+        ) as ItemTemplate;
+        if (!template?.recurrence) continue;
+        if (!['epic', 'issue', 'task'].includes(template.type)) {
+          throw new Error(`Recurring template ${file} must be an epic, issue or task template`);
+        }
+        series.push({
+          id: `template:${template.type}-${template.name}`,
+          type: template.type as RecurringItemType,
+          title: template.frontmatter_template?.title || template.description || template.name,
+          rule_text: template.recurrence,
+          rule: this.parseRule(template.recurrence, file),
+          ...(template.recurrence_start && { start: toIsoDate(template.recurrence_start) }),
+          template_name: template.name,
+          template,
+        });
+      }
+    }
+
+    return series;
+  }
+
+  /**
+   * Instances already created for a series, oldest occurrence first
+   */
+  public getInstances(seriesId: string): Array<EpicData | IssueData | TaskData> {
+    return [
+      ...this.relationshipManager.getAllEpics(),
+      ...this.relationshipManager.getAllIssues(),
+      ...this.relationshipManager.getAllTasks(),
+    ]
+      .filter((item) => item.recurrence_series === seriesId)
+      .sort((a, b) => (a.recurrence_date || '').localeCompare(b.recurrence_date || ''));
+  }
+
+  /**
+   * Next occurrence on or after a date that has no instance yet
+   */
+  public getNextOccurrence(series: RecurringSeries, from: string): string | undefined {
+    const existing = new Set(this.getInstances(series.id).map((item) => item.recurrence_date));
+    const first = series.start && series.start > from ? series.start : from;
+    for (let offset = 0; offset <= MAX_LOOKBACK_DAYS; offset++) {
+      const date = addDays(first, offset);
+      if (occursOn(series.rule, date, series.start) && !existing.has(date)) return date;
+    }
+    return undefined;
+  }
+
+  /**
+   * Occurrence dates up to a date that have no instance yet. Only the latest
+   * occurrence is due unless catching up, which also includes every missed
+   * occurrence since the last instance (or the start of the series).
+   */
+  public getDueDates(series: RecurringSeries, asOf: string, catchUp = false): string[] {
+    const existing = new Set(this.getInstances(series.id).map((item) => item.recurrence_date));
+    const lastInstance = [...existing].filter(Boolean).sort().pop();
+
+    const occurrences: string[] = [];
+    for (let offset = 0; offset <= MAX_LOOKBACK_DAYS; offset++) {
+      const date = addDays(asOf, -offset);
+      if ((series.start && date < series.start) || (lastInstance && date <= lastInstance)) break;
+      if (occursOn(series.rule, date, series.start)) {
+        occurrences.unshift(date);
+        if (!catchUp) break;
+      }
+    }
+
+    return occurrences.filter((date) => !existing.has(date));
+  }
+
+  /**
+   * Create the instances that are due for every series. Safe to run repeatedly:
+   * an occurrence that already has an instance is never created again.
+   */
+  public run(options: RecurRunOptions = {}): RecurRunResult[] {
+    const asOf = toIsoDate(options.date || new Date());
+    const idGenerator = new AITrackdownIdGenerator(this.config, this.projectRoot);
+    const results: RecurRunResult[] = [];
+
+    for (const series of this.listSeries()) {
+      for (const date of this.getDueDates(series, asOf, options.catchUp)) {
+        if (options.dryRun) {
+          results.push({ series_id: series.id, date });
+          continue;
+        }
+        try {
+          const item = this.createInstance(series, date, idGenerator, options.user);
+          results.push({
+            series_id: series.id,
+            date,
+            item_id: getRecurringId(item),
+            file_path: item.file_path,
+          });
+        } catch (error) {
+          results.push({
+            series_id: series.id,
+            date,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (results.some((result) => result.item_id)) {
+      this.relationshipManager.rebuildCache();
+    }
+    return results;
+  }
+
+  private parseRule(text: string, source: string): RecurrenceRule {
+    try {
+      return parseRecurrence(text);
+    } catch (error) {
+      throw new Error(`${source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private createInstance(
+    series: RecurringSeries,
+    date: string,
+    idGenerator: AITrackdownIdGenerator,
+    user?: string
+  ): EpicData | IssueData | TaskData {
+    const template =
+      series.template ||
+      new TemplateManager().getTemplate(this.paths.templatesDir, series.type, series.template_name);
+    const defaults = (template?.frontmatter_template || {}) as Partial<TaskFrontmatter>;
+    const source = series.item as Partial<TaskData> | undefined;
+
+    const title = `${series.title} (${date})`;
+    const description = source?.description || defaults.description || '';
+    const now = new Date().toISOString();
+    const common = {
+      title,
+      description,
+      status: 'planning' as const,
+      priority: source?.priority || defaults.priority || 'medium',
+      assignee:
+        source?.assignee || defaults.assignee || this.config.default_assignee || 'unassigned',
+      created_date: now,
+      updated_date: now,
+      estimated_tokens: source?.estimated_tokens || 0,
+      actual_tokens: 0,
+      ai_context: source?.ai_context || template?.ai_context_defaults || [],
+      sync_status: 'local' as const,
+      ...((source?.tags || defaults.tags) && { tags: source?.tags || defaults.tags }),
+      ...((source?.time_estimate || defaults.time_estimate) && {
+        time_estimate: source?.time_estimate || defaults.time_estimate,
+      }),
+      recurrence_series: series.id,
+      recurrence_date: date,
+    };
+
+    const content = (template?.content_template || '# {{title}}\n\n{{description}}\n')
+      .replace(/\{\{title\}\}/g, title)
+      .replace(/\{\{description\}\}/g, description)
+      .replace(/\{\{date\}\}/g, date);
+
+    const epicId = source?.epic_id || defaults.epic_id;
+    let id: string;
+    let filePath: string;
+
+    switch (series.type) {
+      case 'epic': {
+        id = idGenerator.generateEpicId(title);
+        filePath = path.join(this.paths.epicsDir, idGenerator.generateFilename(id, title));
+        const frontmatter: EpicFrontmatter = {
+          ...common,
+          epic_id: id,
+          related_issues: [],
+          completion_percentage: 0,
+        };
+        this.parser.writeEpic(filePath, frontmatter, content);
+        break;
+      }
+
+      case 'issue': {
+        id = idGenerator.generateIssueId(epicId || '', title);
+        filePath = path.join(this.paths.issuesDir, idGenerator.generateFilename(id, title));
+        const frontmatter: IssueFrontmatter = {
+          ...common,
+          issue_id: id,
+          ...(epicId && { epic_id: epicId }),
+          related_tasks: [],
+          completion_percentage: 0,
+        };
+        this.parser.writeIssue(filePath, frontmatter, content);
+
+        const epic = epicId ? this.relationshipManager.getEpicHierarchy(epicId)?.epic : undefined;
+        if (epic) {
+          this.parser.updateFile(epic.file_path, {
+            related_issues: [...(epic.related_issues || []), id],
+          });
+        }
+        break;
+      }
+
+      case 'task': {
+        const issueId = source?.issue_id || defaults.issue_id;
+        if (!issueId) throw new Error('recurring tasks need an issue_id');
+        id = idGenerator.generateTaskId(issueId, title);
+        filePath = path.join(this.paths.tasksDir, idGenerator.generateFilename(id, title));
+        const frontmatter: TaskFrontmatter = {
+          ...common,
+          task_id: id,
+          issue_id: issueId,
+          ...(epicId && { epic_id: epicId }),
+        };
+        this.parser.writeTask(filePath, frontmatter, content);
+
+        const issue = this.relationshipManager.getIssueHierarchy(issueId)?.issue;
+        if (issue) {
+          this.parser.updateFile(issue.file_path, {
+            related_tasks: [...(issue.related_tasks || []), id],
+          });
+        }
+        break;
+      }
+    }
+
+    const created = this.parser.parseAnyItem(filePath) as EpicData | IssueData | TaskData;
+    new HistoryLog(this.paths.tasksRoot).recordDiff(id, 'create', null, created, {
+      source: `recur run ${series.id}`,
+      ...(user && { author: user }),
+    });
+    return created;
+  }
+}
+
+function getRecurringType(item: AnyItemData): RecurringItemType {
+  if ('task_id' in item) return 'task';
+  if ('issue_id' in item) return 'issue';
+  return 'epic';
+}
+
+function getRecurringId(item: AnyItemData): string {
+  if ('task_id' in item) return item.task_id;
+  if ('issue_id' in item) return item.issue_id;
+  return (item as EpicData).epic_id;
+}
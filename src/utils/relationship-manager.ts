@@ -3,23 +3,26 @@
  * Manages Epic → Issue → Task relationships and dependencies
  */
 
-import type {
-  AnyItemData,
-  EpicData,
-  EpicHierarchy,
-  IssueData,
-  IssueHierarchy,
-  PRData,
-  PRHierarchy,
-  ProjectConfig,
-  SearchFilters,
-  SearchResult,
-  TaskData,
-  TaskHierarchy,
-  ValidationError,
-  ValidationResult,
+import {
+  type AnyItemData,
+  type EpicData,
+  type EpicHierarchy,
+  getItemId,
+  type IssueData,
+  type IssueHierarchy,
+  type PRData,
+  type PRHierarchy,
+  type ProjectConfig,
+  type SearchFilters,
+  type SearchResult,
+  type TaskData,
+  type TaskHierarchy,
+  type ValidationError,
+  type ValidationResult,
 } from '../types/ai-trackdown.js';
+import { getDueItem } from './due-dates.js';
 import { FrontmatterParser } from './frontmatter-parser.js';
+import { SearchIndex } from './search-index.js';
 import { UnifiedPathResolver } from './unified-path-resolver.js';
 
 export class RelationshipManager {
@@ -37,6 +40,8 @@ export class RelationshipManager {
   private lastCacheUpdate: number = 0;
   private cacheExpiry: number = 300000; // 5 minutes
 
+  private searchIndex?: SearchIndex;
+
   constructor(config: ProjectConfig, projectRoot?: string, cliTasksDir?: string) {
     this.parser = new FrontmatterParser();
     this.config = config;
@@ -189,6 +194,14 @@ export class RelationshipManager {
     return null;
   }
 
+  /**
+   * Get any epic, issue, task or PR by its ID
+   */
+  public getItem(itemId: string): AnyItemData | null {
+    this.refreshCacheIfNeeded();
+    return this.findItemById(itemId);
+  }
+
   /**
    * Get all related items (siblings and dependencies)
    */
@@ -303,6 +316,17 @@ export class RelationshipManager {
       );
     }
 
+    if (filters.text) {
+      const rank = new Map(
+        this.getSearchIndex()
+          .search(filters.text)
+          .map((hit, position) => [hit.id, position])
+      );
+      allItems = allItems
+        .filter((item) => rank.has(getItemId(item)))
+        .sort((a, b) => (rank.get(getItemId(a)) ?? 0) - (rank.get(getItemId(b)) ?? 0));
+    }
+
     if (filters.ai_context_search) {
       const searchTerm = filters.ai_context_search.toLowerCase();
       allItems = allItems.filter((item) =>
@@ -310,6 +334,19 @@ export class RelationshipManager {
       );
     }
 
+    if (filters.due_before || filters.due_after || filters.overdue !== undefined) {
+      const now = new Date();
+      allItems = allItems.filter((item) => {
+        const due = getDueItem(item, now);
+        if (filters.overdue !== undefined && (due?.bucket === 'overdue') !== filters.overdue) {
+          return false;
+        }
+        if (filters.due_before && (!due || due.deadline > filters.due_before)) return false;
+        if (filters.due_after && (!due || due.deadline < filters.due_after)) return false;
+        return true;
+      });
+    }
+
     const executionTime = Date.now() - startTime;
 
     return {
@@ -419,6 +456,16 @@ export class RelationshipManager {
     };
   }
 
+  /**
+   * Get the full-text search index for this project
+   */
+  public getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(this.config, this.projectRoot, this.cliTasksDir);
+    }
+    return this.searchIndex;
+  }
+
   /**
    * Rebuild all caches from filesystem
    */
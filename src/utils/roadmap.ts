@@ -0,0 +1,449 @@
+/**
+ * Roadmap for AI-Trackdown
+ * Schedule open epics and issues from start and target dates, dependency order
+ * and assignee capacity, rendered as an ASCII timeline, Mermaid gantt or CSV
+ */
+
+import {
+  type AnyItemData,
+  getItemId,
+  isEpicData,
+  isIssueData,
+  isTaskData,
+  StateManager,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { DependencyGraph } from './dependency-graph.js';
+import { isFinishedItem } from './due-dates.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { addDays, daysBetween, toIsoDate } from './sprint-manager.js';
+import { parseDurationSafe } from './time-tracker.js';
+
+export type RoadmapFormat = 'ascii' | 'mermaid' | 'csv' | 'json';
+
+export const DEFAULT_HOURS_PER_DAY = 6;
+
+// Columns used for bars in the ASCII timeline
+const TIMELINE_WIDTH = 60;
+const LABEL_WIDTH = 32;
+
+export interface RoadmapOptions {
+  // First day that can be scheduled (default: today)
+  from?: string;
+  // Working hours per day, overridden per assignee by `capacity`
+  hours_per_day?: number;
+  capacity?: Record<string, number>;
+  // Due dates of milestones by ID and title, used as targets for items without one
+  milestones?: Record<string, string>;
+  // Only show this epic; it is still scheduled around the rest of the work
+  epic_id?: string;
+}
+
+export interface RoadmapEntry {
+  id: string;
+  type: 'epic' | 'issue';
+  title: string;
+  epic_id?: string;
+  assignee: string;
+  state: UnifiedState;
+  start: string;
+  end: string;
+  days: number;
+  // Estimated hours; 0 when the item has no estimate and was given a single day
+  hours: number;
+  // Both start_date and due_date were set, so the dates were kept as planned
+  fixed: boolean;
+  target?: string;
+  // Days the scheduled end falls after the target
+  late_days: number;
+}
+
+export interface Roadmap {
+  start: string;
+  end: string;
+  // Epics, each followed by its issues, then issues without an epic
+  entries: RoadmapEntry[];
+  // Items left unscheduled because they wait on each other
+  cycles: string[][];
+  unestimated: string[];
+}
+
+/**
+ * Schedule open epics and issues. Issues are the units of work; an epic spans
+ * its open issues, or is scheduled itself when it has none. Each unit starts
+ * once the items it waits on have ended, no earlier than its start_date, and
+ * only when its assignee is free: an assignee works on one unit at a time at
+ * their hours per day. Days are calendar days.
+ */
+export function buildRoadmap(items: AnyItemData[], options: RoadmapOptions = {}): Roadmap {
+  const from = options.from ? toIsoDate(options.from) : toIsoDate(new Date());
+  const hoursPerDay = options.hours_per_day || DEFAULT_HOURS_PER_DAY;
+  const milestones = options.milestones || {};
+  if (
+    options.epic_id &&
+    !items.some((item) => isEpicData(item) && item.epic_id === options.epic_id)
+  ) {
+    throw new AITrackdownError(ErrorCode.INVALID_EPIC_ID, `Epic not found: ${options.epic_id}`);
+  }
+
+  const open = items.filter((item) => !isFinishedItem(item));
+  const epics = new Map(open.filter(isEpicData).map((epic) => [epic.epic_id, epic] as const));
+  const issuesByEpic = new Map<string, string[]>();
+  const units = new Map<string, AnyItemData>();
+  for (const issue of open.filter(isIssueData)) {
+    units.set(issue.issue_id, issue);
+    if (issue.epic_id && epics.has(issue.epic_id)) {
+      issuesByEpic.set(issue.epic_id, [...(issuesByEpic.get(issue.epic_id) || []), issue.issue_id]);
+    }
+  }
+  for (const [epicId, epic] of epics) {
+    if (!issuesByEpic.has(epicId)) units.set(epicId, epic);
+  }
+
+  // Issues without an estimate of their own are sized by their open tasks
+  const taskHours = new Map<string, number>();
+  for (const task of open.filter(isTaskData)) {
+    const hours = parseDurationSafe(task.time_estimate) / 60;
+    taskHours.set(task.issue_id, (taskHours.get(task.issue_id) || 0) + hours);
+  }
+
+  // Waiting on an epic means waiting on its open issues, and issues inherit
+  // what their epic waits on
+  const expand = (id: string): string[] => issuesByEpic.get(id) || [id];
+  const blockers = new Map<string, Set<string>>();
+  for (const id of units.keys()) blockers.set(id, new Set());
+  const addBlocker = (blocker: string, id: string) => {
+    for (const target of expand(id)) {
+      for (const source of expand(blocker)) {
+        if (source !== target && units.has(source)) blockers.get(target)?.add(source);
+      }
+    }
+  };
+  for (const item of open) {
+    const id = getItemId(item);
+    if (!units.has(id) && !issuesByEpic.has(id)) continue;
+    const links = item as { dependencies?: string[]; blocked_by?: string[]; blocks?: string[] };
+    for (const blocker of [...(links.dependencies || []), ...(links.blocked_by || [])]) {
+      addBlocker(blocker, id);
+    }
+    for (const blocked of links.blocks || []) {
+      addBlocker(id, blocked);
+    }
+  }
+
+  // Order units with the same rules as `graph order`
+  const graph = new DependencyGraph(
+    Array.from(units.values()).map(
+      (item) =>
+        ({
+          ...item,
+          dependencies: Array.from(blockers.get(getItemId(item)) || []),
+          blocked_by: [],
+          blocks: [],
+        }) as AnyItemData
+    )
+  );
+  const { order, cycles } = graph.getWorkOrder();
+
+  const scheduled = new Map<string, RoadmapEntry>();
+  const freeFrom = new Map<string, string>();
+  const unestimated: string[] = [];
+
+  for (const node of order) {
+    const item = units.get(node.id) as AnyItemData;
+    const planned = item as { start_date?: string; time_estimate?: string };
+    const assignee = item.assignee && item.assignee !== 'unassigned' ? item.assignee : '';
+    const fixed = Boolean(
+      planned.start_date && item.due_date && item.due_date >= planned.start_date
+    );
+
+    let start = latest([from, planned.start_date]);
+    for (const blocker of blockers.get(node.id) || []) {
+      const entry = scheduled.get(blocker);
+      if (entry) start = latest([start, addDays(entry.end, 1)]);
+    }
+    if (assignee) start = latest([start, freeFrom.get(assignee)]);
+
+    const hours =
+      parseDurationSafe(planned.time_estimate) / 60 ||
+      (isIssueData(item) ? taskHours.get(node.id) || 0 : 0);
+    let days: number;
+    if (fixed) {
+      days = daysBetween(planned.start_date as string, item.due_date as string);
+    } else {
+      if (hours === 0) unestimated.push(node.id);
+      const capacity = (assignee && options.capacity?.[assignee]) || hoursPerDay;
+      days = Math.max(1, Math.ceil(hours / capacity));
+    }
+
+    const end = addDays(start, days - 1);
+    if (assignee) freeFrom.set(assignee, addDays(end, 1));
+
+    const epic = isIssueData(item) && item.epic_id ? epics.get(item.epic_id) : undefined;
+    const target = getTarget(item, milestones) || (epic ? getTarget(epic, milestones) : undefined);
+    scheduled.set(node.id, {
+      id: node.id,
+      type: isEpicData(item) ? 'epic' : 'issue',
+      title: item.title,
+      epic_id: isIssueData(item) ? item.epic_id : undefined,
+      assignee: assignee || 'unassigned',
+      state: StateManager.getEffectiveState(item),
+      start,
+      end,
+      days,
+      hours,
+      fixed,
+      target,
+      late_days: lateDays(end, target),
+    });
+  }
+
+  const byStart = (a: RoadmapEntry, b: RoadmapEntry) =>
+    a.start.localeCompare(b.start) || a.id.localeCompare(b.id, undefined, { numeric: true });
+
+  const groups: RoadmapEntry[][] = [];
+  for (const [epicId, epic] of epics) {
+    const own = scheduled.get(epicId);
+    if (own) {
+      groups.push([own]);
+      continue;
+    }
+    const children = (issuesByEpic.get(epicId) || [])
+      .map((id) => scheduled.get(id))
+      .filter((entry): entry is RoadmapEntry => Boolean(entry))
+      .sort(byStart);
+    if (children.length === 0) continue;
+    const start = children.map((entry) => entry.start).sort()[0];
+    const end = children
+      .map((entry) => entry.end)
+      .sort()
+      .reverse()[0];
+    const target = getTarget(epic, milestones);
+    groups.push([
+      {
+        id: epicId,
+        type: 'epic',
+        title: epic.title,
+        assignee: epic.assignee || 'unassigned',
+        state: StateManager.getEffectiveState(epic),
+        start,
+        end,
+        days: daysBetween(start, end),
+        hours: children.reduce((sum, entry) => sum + entry.hours, 0),
+        fixed: false,
+        target,
+        late_days: lateDays(end, target),
+      },
+      ...children,
+    ]);
+  }
+  groups.sort((a, b) => byStart(a[0], b[0]));
+
+  const orphans = Array.from(scheduled.values())
+    .filter((entry) => entry.type === 'issue' && !(entry.epic_id && epics.has(entry.epic_id)))
+    .sort(byStart);
+  const entries = [...groups.flat(), ...orphans].filter(
+    (entry) => !options.epic_id || entry.id === options.epic_id || entry.epic_id === options.epic_id
+  );
+
+  return {
+    start: entries.map((entry) => entry.start).sort()[0] || from,
+    end:
+      entries
+        .map((entry) => entry.end)
+        .sort()
+        .reverse()[0] || from,
+    entries,
+    cycles,
+    unestimated,
+  };
+}
+
+/**
+ * Render a roadmap in one of the output formats
+ */
+export function renderRoadmap(
+  roadmap: Roadmap,
+  format: RoadmapFormat,
+  options: { title?: string; width?: number } = {}
+): string {
+  switch (format) {
+    case 'mermaid':
+      return renderGantt(roadmap, options.title);
+    case 'csv':
+      return renderCsv(roadmap);
+    case 'json':
+      return `${JSON.stringify(roadmap, null, 2)}\n`;
+    default:
+      return renderTimeline(roadmap, options.width);
+  }
+}
+
+/**
+ * ASCII timeline: one row per epic and issue with a bar over its scheduled days.
+ * Epic bars use '=', issue bars '#'; a '|' marks a target date inside the range.
+ */
+function renderTimeline(roadmap: Roadmap, width = TIMELINE_WIDTH): string {
+  if (roadmap.entries.length === 0) {
+    return 'Nothing to schedule: no open epics or issues\n';
+  }
+
+  const span = daysBetween(roadmap.start, roadmap.end);
+  const daysPerColumn = Math.max(1, Math.ceil(span / width));
+  const columns = Math.ceil(span / daysPerColumn);
+  const columnOf = (date: string) =>
+    Math.floor((daysBetween(roadmap.start, date) - 1) / daysPerColumn);
+
+  // Date labels every ten columns, dropped when they would overlap
+  const axis = Array.from({ length: columns + 10 }, () => ' ');
+  for (let column = 0; column < columns; column += 10) {
+    const label = addDays(roadmap.start, column * daysPerColumn).slice(5);
+    label.split('').forEach((char, index) => {
+      axis[column + index] = char;
+    });
+  }
+
+  const lines = [
+    `Roadmap ${roadmap.start} → ${roadmap.end} (${daysPerColumn === 1 ? '1 day' : `${daysPerColumn} days`} per column)`,
+    '',
+    `${' '.repeat(LABEL_WIDTH)} ${axis.join('').trimEnd()}`,
+  ];
+
+  for (const entry of roadmap.entries) {
+    const indent = isGrouped(roadmap, entry) ? '  ' : '';
+    const label = truncate(`${indent}${entry.id} ${entry.title}`, LABEL_WIDTH).padEnd(LABEL_WIDTH);
+    const bar = Array.from({ length: columns }, () => '.');
+    for (let column = columnOf(entry.start); column <= columnOf(entry.end); column++) {
+      bar[column] = entry.type === 'epic' ? '=' : '#';
+    }
+    if (entry.target && entry.target >= roadmap.start && entry.target <= roadmap.end) {
+      bar[columnOf(entry.target)] = '|';
+    }
+
+    const details = [
+      `${entry.start.slice(5)} → ${entry.end.slice(5)}`,
+      `${entry.days}d`,
+      ...(entry.type === 'issue' || entry.assignee !== 'unassigned' ? [entry.assignee] : []),
+      ...(entry.late_days > 0 ? [`LATE ${entry.late_days}d (target ${entry.target})`] : []),
+    ];
+    lines.push(`${label} ${bar.join('')}  ${details.join(' · ')}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Mermaid gantt chart with a section per epic. Late items are marked `crit`,
+ * items in progress `active`, and epic targets are drawn as milestones.
+ */
+function renderGantt(roadmap: Roadmap, title?: string): string {
+  const lines = ['gantt'];
+  if (title) lines.push(`  title ${ganttText(title)}`);
+  lines.push('  dateFormat YYYY-MM-DD', '  axisFormat %b %d');
+
+  const task = (entry: RoadmapEntry) => {
+    const tags = [
+      ...(entry.late_days > 0 ? ['crit'] : []),
+      ...(entry.state === 'active' ? ['active'] : []),
+    ];
+    return `    ${ganttText(`${entry.id} ${entry.title}`)} :${[...tags, ganttId(entry.id), entry.start, `${entry.days}d`].join(', ')}`;
+  };
+
+  let section: string | undefined;
+  for (const entry of roadmap.entries) {
+    if (entry.type === 'epic') {
+      section = entry.id;
+      lines.push(`  section ${ganttText(`${entry.id} ${entry.title}`)}`);
+      // An epic scheduled on its own is its only task
+      if (!roadmap.entries.some((other) => other.epic_id === entry.id)) {
+        lines.push(task(entry));
+      }
+      if (entry.target) {
+        lines.push(`    Target :milestone, ${ganttId(entry.id)}_target, ${entry.target}, 0d`);
+      }
+      continue;
+    }
+    if (!isGrouped(roadmap, entry) && section !== '') {
+      lines.push('  section No epic');
+      section = '';
+    }
+    lines.push(task(entry));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderCsv(roadmap: Roadmap): string {
+  const rows = [
+    [
+      'id',
+      'type',
+      'title',
+      'epic_id',
+      'assignee',
+      'state',
+      'start_date',
+      'end_date',
+      'days',
+      'hours',
+      'target_date',
+      'late_days',
+    ],
+    ...roadmap.entries.map((entry) => [
+      entry.id,
+      entry.type,
+      entry.title,
+      entry.epic_id || '',
+      entry.assignee,
+      entry.state,
+      entry.start,
+      entry.end,
+      String(entry.days),
+      String(Math.round(entry.hours * 10) / 10),
+      entry.target || '',
+      String(entry.late_days),
+    ]),
+  ];
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\n')}\n`;
+}
+
+// Issues listed under their epic, as opposed to issues without an open epic
+function isGrouped(roadmap: Roadmap, entry: RoadmapEntry): boolean {
+  return Boolean(
+    entry.epic_id &&
+      roadmap.entries.some((other) => other.type === 'epic' && other.id === entry.epic_id)
+  );
+}
+
+/**
+ * Target date: the item's due date, else the due date of its milestone
+ */
+function getTarget(item: AnyItemData, milestones: Record<string, string>): string | undefined {
+  const milestone = (item as { milestone?: string }).milestone;
+  return item.due_date || (milestone ? milestones[milestone] : undefined);
+}
+
+function lateDays(end: string, target?: string): number {
+  return target && end > target ? daysBetween(target, end) - 1 : 0;
+}
+
+function latest(dates: Array<string | undefined>): string {
+  return (dates.filter(Boolean) as string[]).sort().reverse()[0];
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function ganttId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+// Colons and semicolons end a gantt task name; '#' starts a comment
+function ganttText(text: string): string {
+  return text.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
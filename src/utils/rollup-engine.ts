@@ -0,0 +1,308 @@
+/**
+ * Roll-up Engine for AI-Trackdown
+ * Derives the completion and state of epics and issues from their children
+ */
+
+import type {
+  AnyItemData,
+  EpicData,
+  IssueData,
+  ItemType,
+  ProjectConfig,
+  RollupConfig,
+  TaskData,
+  UnifiedState,
+} from '../types/ai-trackdown.js';
+import { StateManager, StateTransition } from '../types/ai-trackdown.js';
+import { Formatter } from './formatter.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { HistoryLog } from './history-log.js';
+import { RelationshipManager } from './relationship-manager.js';
+import { UnifiedPathResolver } from './unified-path-resolver.js';
+
+const FINISHED_STATES: string[] = ['done', 'completed', 'archived'];
+const NOT_STARTED_STATES: string[] = ['planning', 'ready_for_engineering'];
+const SKIPPED_STATES: string[] = ['won_t_do'];
+
+// Moves roll-up makes as the system even where the workflow leaves them to people,
+// such as planning → active; any other derived state must be a workflow transition
+const ROLLUP_TRANSITIONS: Record<'epic' | 'issue', string[][]> = {
+  epic: [['planning', 'active']],
+  issue: [['active', 'ready_for_qa']],
+};
+
+export interface RollupResult {
+  item_id: string;
+  item_type: 'epic' | 'issue';
+  completion: number;
+  previous_completion?: number;
+  // State derived from the children, when the parent is not in it yet
+  suggested_state?: string;
+  reason?: string;
+  applied: boolean;
+  // Why the suggested state could not be applied
+  blocked_by?: string[];
+}
+
+export interface RollupOptions {
+  dryRun?: boolean;
+  user?: string;
+}
+
+/**
+ * Render a roll-up result as a single status line
+ */
+export function formatRollupResult(result: RollupResult): string {
+  const completion =
+    result.previous_completion !== undefined && result.previous_completion !== result.completion
+      ? `${result.previous_completion}% → ${result.completion}%`
+      : `${result.completion}%`;
+  let text = `Roll-up ${result.item_id}: ${completion}`;
+
+  if (!result.suggested_state) return Formatter.dim(text);
+  if (result.applied) {
+    return Formatter.success(`${text}, moved to ${result.suggested_state} (${result.reason})`);
+  }
+  text += `, suggest ${result.suggested_state} (${result.reason})`;
+  if (result.blocked_by?.length) text += ` - ${result.blocked_by.join('; ')}`;
+  return Formatter.info(text);
+}
+
+export class RollupEngine {
+  private rollup: RollupConfig;
+  private relationshipManager: RelationshipManager;
+  private parser = new FrontmatterParser();
+  private history: HistoryLog;
+
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.rollup = config.rollup || { enabled: false };
+    this.relationshipManager = new RelationshipManager(config, projectRoot, cliTasksDir);
+    this.history = new HistoryLog(
+      new UnifiedPathResolver(config, projectRoot, cliTasksDir).getUnifiedPaths().tasksRoot
+    );
+  }
+
+  /**
+   * Whether roll-up is turned on in the project configuration
+   */
+  public isEnabled(): boolean {
+    return this.rollup.enabled === true;
+  }
+
+  /**
+   * Roll up the parents of a changed item: a task updates its issue, then the
+   * issue's epic; an issue updates its epic.
+   */
+  public rollupFrom(type: ItemType, id: string, options: RollupOptions = {}): RollupResult[] {
+    this.relationshipManager.rebuildCache();
+    const item = this.relationshipManager.getItem(id);
+    if (!item) return [];
+
+    const results: RollupResult[] = [];
+    let epicId: string | undefined;
+
+    if (type === 'task') {
+      const task = item as TaskData;
+      const issueResult = this.rollupIssue(task.issue_id, options);
+      if (issueResult) results.push(issueResult);
+      epicId =
+        task.epic_id || this.relationshipManager.getIssueHierarchy(task.issue_id)?.epic?.epic_id;
+    } else if (type === 'issue') {
+      epicId = (item as IssueData).epic_id;
+    }
+
+    if (epicId) {
+      const epicResult = this.rollupEpic(epicId, options);
+      if (epicResult) results.push(epicResult);
+    }
+
+    return results;
+  }
+
+  /**
+   * Derive an issue's completion from its tasks and, once every task is done,
+   * its next state. Returns null when the issue has no tasks to roll up.
+   */
+  public rollupIssue(issueId: string, options: RollupOptions = {}): RollupResult | null {
+    const hierarchy = this.relationshipManager.getIssueHierarchy(issueId);
+    if (!hierarchy) return null;
+
+    const tasks = hierarchy.tasks.filter((task) => !SKIPPED_STATES.includes(this.stateOf(task)));
+    if (tasks.length === 0) return null;
+
+    const finished = tasks.filter((task) => this.isFinished(task));
+    const completion = Math.round((finished.length / tasks.length) * 100);
+
+    const issueState = this.stateOf(hierarchy.issue);
+    const target = this.rollup.issue_tasks_done_state || 'ready_for_qa';
+    const suggested =
+      finished.length === tasks.length &&
+      issueState !== target &&
+      ['planning', 'active', 'ready_for_engineering'].includes(issueState)
+        ? target
+        : undefined;
+
+    return this.apply(hierarchy.issue, 'issue', completion, suggested, 'all tasks done', options);
+  }
+
+  /**
+   * Derive an epic's completion from its issues and move it to active once its
+   * first issue starts. Returns null when the epic has no issues to roll up.
+   */
+  public rollupEpic(epicId: string, options: RollupOptions = {}): RollupResult | null {
+    const hierarchy = this.relationshipManager.getEpicHierarchy(epicId);
+    if (!hierarchy) return null;
+
+    const issues = hierarchy.issues.filter(
+      (issue) => !SKIPPED_STATES.includes(this.stateOf(issue))
+    );
+    if (issues.length === 0) return null;
+
+    const total = issues.reduce((sum, issue) => sum + this.issueCompletion(issue), 0);
+    const completion = Math.round(total / issues.length);
+
+    const started = issues.find(
+      (issue) => this.isFinished(issue) || !NOT_STARTED_STATES.includes(this.stateOf(issue))
+    );
+    const target = this.rollup.epic_started_state || 'active';
+    const suggested =
+      started && NOT_STARTED_STATES.includes(this.stateOf(hierarchy.epic)) ? target : undefined;
+
+    return this.apply(
+      hierarchy.epic,
+      'epic',
+      completion,
+      suggested,
+      started ? `${started.issue_id} started` : '',
+      options
+    );
+  }
+
+  /**
+   * Completion of an issue as seen by its epic: finished issues count as 100%,
+   * issues with tasks use their tasks, others keep their recorded progress
+   */
+  private issueCompletion(issue: IssueData): number {
+    if (this.isFinished(issue)) return 100;
+    const tasks = this.relationshipManager
+      .getChildren(issue.issue_id, 'issue')
+      .filter((task) => !SKIPPED_STATES.includes(this.stateOf(task)));
+    if (tasks.length === 0) return issue.completion_percentage || 0;
+    const finished = tasks.filter((task) => this.isFinished(task));
+    return (finished.length / tasks.length) * 100;
+  }
+
+  private apply(
+    item: EpicData | IssueData,
+    itemType: 'epic' | 'issue',
+    completion: number,
+    suggestedState: string | undefined,
+    reason: string,
+    options: RollupOptions
+  ): RollupResult {
+    const id = itemType === 'epic' ? (item as EpicData).epic_id : (item as IssueData).issue_id;
+    const result: RollupResult = {
+      item_id: id,
+      item_type: itemType,
+      completion,
+      ...(item.completion_percentage !== undefined && {
+        previous_completion: item.completion_percentage,
+      }),
+      ...(suggestedState && { suggested_state: suggestedState, reason }),
+      applied: false,
+    };
+
+    const updates: Partial<EpicData | IssueData> = {};
+    if (item.completion_percentage !== completion) {
+      updates.completion_percentage = completion;
+    }
+
+    if (suggestedState) {
+      const transition = this.transitionState(
+        item,
+        itemType,
+        suggestedState as UnifiedState,
+        options.user || 'rollup',
+        `Roll-up: ${reason}`
+      );
+      if (!transition.success) {
+        result.blocked_by = transition.errors;
+      } else if (this.rollup.apply_states && !options.dryRun) {
+        updates.state = transition.item.state;
+        updates.state_metadata = transition.item.state_metadata;
+        result.applied = true;
+      }
+    }
+
+    if (options.dryRun || Object.keys(updates).length === 0) return result;
+
+    const updated = this.parser.updateFile(item.file_path, {
+      ...updates,
+      updated_date: new Date().toISOString(),
+    });
+    this.history.recordDiff(id, result.applied ? 'state_change' : 'update', item, updated, {
+      source: 'rollup',
+      ...(options.user && { author: options.user }),
+      ...(result.applied && { reason }),
+    });
+    this.relationshipManager.rebuildCache();
+
+    return result;
+  }
+
+  /**
+   * Validate a derived state against the workflow, falling back to the roll-up
+   * transitions when the workflow has no rule for the move. Required fields and
+   * unknown states still block the move.
+   */
+  private transitionState(
+    item: EpicData | IssueData,
+    itemType: 'epic' | 'issue',
+    state: UnifiedState,
+    user: string,
+    reason: string
+  ): ReturnType<typeof StateTransition.transitionState> {
+    const transition = StateTransition.transitionState(item, state, user, reason);
+    const from = StateManager.getEffectiveState(item);
+    const isRollupMove = ROLLUP_TRANSITIONS[itemType].some(
+      ([source, target]) => source === from && target === state
+    );
+    const workflow = StateManager.getWorkflowEngine();
+    if (
+      transition.success ||
+      !isRollupMove ||
+      !workflow.getWorkflow(itemType).states.includes(state)
+    ) {
+      return transition;
+    }
+
+    const updated: AnyItemData = {
+      ...item,
+      state,
+      state_metadata: StateManager.createStateMetadata(user, from, true, 'rollup', reason),
+      updated_date: new Date().toISOString(),
+    };
+    const missing = workflow.getMissingFields(updated, state, itemType);
+    if (missing.length > 0) {
+      return {
+        item,
+        success: false,
+        errors: [`${state} requires: ${missing.join(', ')}`],
+        warnings: [],
+      };
+    }
+    return { item: updated, success: true, errors: [], warnings: [] };
+  }
+
+  /**
+   * Commands like task complete only set the legacy status, so a completed
+   * status counts as finished whatever the state says
+   */
+  private isFinished(item: AnyItemData): boolean {
+    return FINISHED_STATES.includes(this.stateOf(item)) || item.status === 'completed';
+  }
+
+  private stateOf(item: AnyItemData): string {
+    return StateManager.getEffectiveState(item);
+  }
+}
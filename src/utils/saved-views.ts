@@ -0,0 +1,100 @@
+/**
+ * Saved Views for AI-Trackdown
+ * Named search queries: the built-in presets plus views saved in project config
+ */
+
+import type { ProjectConfig, SavedView } from '../types/ai-trackdown.js';
+import { DEFAULT_FILTER_PRESETS } from '../types/filters.js';
+import type { ConfigManager } from './config-manager.js';
+import { AITrackdownError, ErrorCode } from './error-handler.js';
+import { type ItemSearchResult, searchItems } from './item-search.js';
+import type { RelationshipManager } from './relationship-manager.js';
+import { SearchQueryParser } from './search-parser.js';
+
+const VIEW_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export interface ViewDefinition {
+  name: string;
+  query: string;
+  description?: string;
+  // Saved views shadow a built-in preset of the same name
+  source: 'built-in' | 'saved';
+}
+
+/**
+ * Who `@me` refers to: the configured user, else $USER
+ */
+export function getCurrentUser(config: ProjectConfig): string {
+  return config.user || process.env.USER || 'unknown';
+}
+
+/**
+ * All views by name: built-in presets first, then saved views
+ */
+export function listViews(config: ProjectConfig): ViewDefinition[] {
+  const saved = config.views || {};
+  const views: ViewDefinition[] = DEFAULT_FILTER_PRESETS.filter(
+    (preset) => !saved[preset.name]
+  ).map((preset) => ({
+    name: preset.name,
+    query: preset.query,
+    description: preset.description,
+    source: 'built-in',
+  }));
+
+  for (const [name, view] of Object.entries(saved).sort(([a], [b]) => a.localeCompare(b))) {
+    views.push({ name, query: view.query, source: 'saved' });
+  }
+  return views;
+}
+
+export function getView(config: ProjectConfig, name: string): ViewDefinition | undefined {
+  return listViews(config).find((view) => view.name === name);
+}
+
+/**
+ * Save a view to project config, replacing any saved view of the same name
+ */
+export function saveView(configManager: ConfigManager, name: string, query: string): SavedView {
+  if (!VIEW_NAME_PATTERN.test(name)) {
+    throw new AITrackdownError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid view name: ${name}. Use letters, digits, "-" and "_"`
+    );
+  }
+  if (!query.trim()) {
+    throw new AITrackdownError(ErrorCode.MISSING_REQUIRED, 'A view needs a query');
+  }
+  const validation = SearchQueryParser.validate(query);
+  if (validation.errors.length > 0) {
+    throw new AITrackdownError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid search query: ${validation.errors.map((error) => error.message).join('; ')}`
+    );
+  }
+
+  const view: SavedView = { query: query.trim(), created_date: new Date().toISOString() };
+  configManager.updateConfig({ views: { [name]: view } });
+  return view;
+}
+
+/**
+ * Run a view across every item type, resolving `@me` to the current user
+ */
+export function runView(
+  relationshipManager: RelationshipManager,
+  config: ProjectConfig,
+  name: string
+): ItemSearchResult & { view: ViewDefinition } {
+  const view = getView(config, name);
+  if (!view) {
+    throw new AITrackdownError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown view: ${name}. Run "aitrackdown view list" to see all views`
+    );
+  }
+  return {
+    view,
+    ...searchItems(relationshipManager, view.query, { user: getCurrentUser(config) }),
+  };
+}
@@ -0,0 +1,554 @@
+/**
+ * Full-Text Search Index for AI-Trackdown
+ * Keeps a persistent inverted index of item titles, descriptions, content and comments
+ * next to .ai-trackdown-index, and ranks matches with BM25
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getItemId, type ItemType, type ProjectConfig } from '../types/ai-trackdown.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { UnifiedPathResolver } from './unified-path-resolver.js';
+import { parseYamlFrontmatter } from './yaml.js';
+
+const SEARCH_INDEX_FILE_NAME = '.ai-trackdown-search-index';
+const SEARCH_INDEX_VERSION = '1.0.0';
+const COMMENT_INDEX_FILE_NAME = '.ai-trackdown-index';
+
+// BM25 parameters, and how many body hits a title hit is worth
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TITLE_BOOST = 3;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+export const SEARCHABLE_TYPES: ItemType[] = ['epic', 'issue', 'task', 'pr'];
+
+export const SEARCH_FIELDS = ['title', 'description', 'content', 'comments'] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export interface SearchClause {
+  kind: 'term' | 'prefix' | 'phrase';
+  tokens: string[];
+}
+
+export interface SearchHit {
+  id: string;
+  type: ItemType;
+  title: string;
+  file_path: string;
+  score: number;
+  // Field the snippet was taken from
+  field: SearchField;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  type?: ItemType;
+  limit?: number;
+  // Wraps each match in the snippet; defaults to **match**
+  highlight?: (match: string) => string;
+}
+
+interface SearchDocument {
+  type: ItemType;
+  // Relative to the tasks root
+  file: string;
+  mtime: number;
+  // Token count of the title, and of all fields
+  titleLength: number;
+  length: number;
+  fields: Record<SearchField, string>;
+}
+
+interface SearchIndexData {
+  version: string;
+  lastUpdated: string;
+  documents: Record<string, SearchDocument>;
+  // Token positions keyed by term, then item ID
+  postings: Record<string, Record<string, number[]>>;
+}
+
+type CommentEntries = Record<string, Record<string, { path: string }>>;
+
+export class SearchIndex {
+  private indexPath: string;
+  private tasksRoot: string;
+  private projectRoot: string;
+  private pathResolver: UnifiedPathResolver;
+  private frontmatterParser: FrontmatterParser;
+  private commentEntries: CommentEntries | null = null;
+
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.projectRoot = projectRoot;
+    this.pathResolver = new UnifiedPathResolver(config, projectRoot, cliTasksDir);
+    this.frontmatterParser = new FrontmatterParser();
+    this.tasksRoot = this.pathResolver.getUnifiedPaths().tasksRoot;
+    this.indexPath = path.join(this.tasksRoot, SEARCH_INDEX_FILE_NAME);
+  }
+
+  /**
+   * Search all items. Every word, "quoted phrase" and prefix* in the query must match;
+   * results are best match first, with a highlighted snippet
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) {
+      return [];
+    }
+
+    const { index, changed } = this.load();
+    if (changed) {
+      this.save(index);
+    }
+
+    const documents = Object.entries(index.documents);
+    const averageLength =
+      documents.reduce((total, [, doc]) => total + doc.length, 0) / (documents.length || 1);
+
+    let scores: Map<string, number> | undefined;
+    for (const clause of clauses) {
+      const matches = matchClause(index, clause);
+      const idf = Math.log(1 + (documents.length - matches.size + 0.5) / (matches.size + 0.5));
+      const next = new Map<string, number>();
+      for (const [id, frequency] of matches) {
+        if (scores && !scores.has(id)) continue;
+        const doc = index.documents[id];
+        const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (averageLength || 1));
+        const score = (idf * frequency * (BM25_K1 + 1)) / (frequency + norm);
+        next.set(id, (scores?.get(id) || 0) + score);
+      }
+      scores = next;
+    }
+
+    const highlight = options.highlight || ((match: string) => `**${match}**`);
+    const pattern = buildHighlightPattern(clauses);
+    const hits = [...(scores || new Map<string, number>())]
+      .filter(([id]) => !options.type || index.documents[id].type === options.type)
+      .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a.localeCompare(b))
+      .slice(0, options.limit && options.limit > 0 ? options.limit : undefined);
+
+    return hits.map(([id, score]) => {
+      const doc = index.documents[id];
+      const { field, snippet } = buildSnippet(doc, pattern, highlight);
+      return {
+        id,
+        type: doc.type,
+        title: doc.fields.title,
+        file_path: path.join(this.tasksRoot, doc.file),
+        score: Math.round(score * 1000) / 1000,
+        field,
+        snippet,
+      };
+    });
+  }
+
+  /**
+   * Reindex one item from its file, or drop it when the file is gone. Until the
+   * first search builds the index there is nothing to update.
+   */
+  updateItem(type: ItemType, id: string): void {
+    const index = this.read();
+    if (!index) return;
+
+    const filePath = this.findItemFile(type, id);
+    if (filePath) {
+      const file = path.relative(this.tasksRoot, filePath);
+      const existingId = Object.keys(index.documents).find(
+        (key) => index.documents[key].file === file
+      );
+      this.indexFile(index, type, filePath, existingId, { force: true });
+    } else {
+      removeDocument(index, id);
+    }
+    this.save(index);
+  }
+
+  /**
+   * Drop an item from the index
+   */
+  removeItem(_type: ItemType, id: string): void {
+    const index = this.read();
+    if (!index?.documents[id]) return;
+
+    removeDocument(index, id);
+    this.save(index);
+  }
+
+  /**
+   * Reindex the comments on an item after one was added, edited or deleted
+   */
+  updateComments(itemId: string): void {
+    const index = this.read();
+    const doc = index?.documents[itemId];
+    if (!index || !doc) return;
+
+    this.commentEntries = null;
+    removeDocument(index, itemId);
+    addDocument(index, itemId, {
+      ...doc,
+      fields: { ...doc.fields, comments: this.readComments(itemId) },
+    });
+    this.save(index);
+  }
+
+  /**
+   * Throw the index away and index every item again
+   */
+  rebuild(): { documents: number; terms: number } {
+    const index = emptyIndex();
+    this.commentEntries = null;
+    this.refresh(index);
+    this.save(index);
+    return {
+      documents: Object.keys(index.documents).length,
+      terms: Object.keys(index.postings).length,
+    };
+  }
+
+  /**
+   * Load the index for a search, building it on first use and reindexing item files
+   * changed on disk since they were indexed. Comments are indexed with their item
+   * and kept current through the index auto-updater.
+   */
+  private load(): { index: SearchIndexData; changed: boolean } {
+    const index = this.read() || emptyIndex();
+    return { index, changed: this.refresh(index) };
+  }
+
+  /**
+   * The saved index as it is, or null when there is none or it is from another version
+   */
+  private read(): SearchIndexData | null {
+    try {
+      const index: SearchIndexData = JSON.parse(fs.readFileSync(this.indexPath, 'utf8'));
+      if (index.version !== SEARCH_INDEX_VERSION || !index.documents || !index.postings) {
+        return null;
+      }
+      return index;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Compare item files against the index by modification time; returns whether
+   * anything was reindexed or dropped
+   */
+  private refresh(index: SearchIndexData): boolean {
+    const idsByFile = new Map(Object.entries(index.documents).map(([id, doc]) => [doc.file, id]));
+    const seen = new Set<string>();
+    let changed = false;
+
+    for (const type of SEARCHABLE_TYPES) {
+      const dir = this.pathResolver.getItemTypeDirectory(type);
+      if (!fs.existsSync(dir)) continue;
+
+      for (const file of fs.readdirSync(dir).filter((name) => name.endsWith('.md'))) {
+        const filePath = path.join(dir, file);
+        const relativePath = path.relative(this.tasksRoot, filePath);
+        seen.add(relativePath);
+        if (this.indexFile(index, type, filePath, idsByFile.get(relativePath))) {
+          changed = true;
+        }
+      }
+    }
+
+    for (const [id, doc] of Object.entries(index.documents)) {
+      if (!seen.has(doc.file)) {
+        removeDocument(index, id);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Index an item file unless it is unchanged since it was indexed; returns whether
+   * it was indexed. Files that fail to parse are skipped.
+   */
+  private indexFile(
+    index: SearchIndexData,
+    type: ItemType,
+    filePath: string,
+    existingId?: string,
+    options: { force?: boolean } = {}
+  ): boolean {
+    const file = path.relative(this.tasksRoot, filePath);
+    const mtime = fs.statSync(filePath).mtimeMs;
+    const existing = existingId ? index.documents[existingId] : undefined;
+    if (!options.force && existing && existing.mtime === mtime) {
+      return false;
+    }
+
+    let item: ReturnType<FrontmatterParser['parseAnyItem']>;
+    try {
+      item = this.frontmatterParser.parseAnyItem(filePath);
+    } catch {
+      return false;
+    }
+
+    const id = getItemId(item);
+    // A renamed file keeps the comments indexed under its old entry
+    const previous = index.documents[id] || existing;
+    if (existingId) removeDocument(index, existingId);
+    removeDocument(index, id);
+
+    addDocument(index, id, {
+      type,
+      file,
+      mtime,
+      titleLength: 0,
+      length: 0,
+      fields: {
+        title: normalizeText(item.title || ''),
+        description: normalizeText(item.description || ''),
+        content: normalizeText(item.content || ''),
+        comments: previous ? previous.fields.comments : this.readComments(id),
+      },
+    });
+    return true;
+  }
+
+  private findItemFile(type: ItemType, id: string): string | null {
+    const dir = this.pathResolver.getItemTypeDirectory(type);
+    if (!fs.existsSync(dir)) return null;
+
+    const file = fs
+      .readdirSync(dir)
+      .find((name) => name.endsWith('.md') && (name === `${id}.md` || name.startsWith(`${id}-`)));
+    return file ? path.join(dir, file) : null;
+  }
+
+  /**
+   * Read an item's comment bodies, oldest first, from the comment store
+   */
+  private readComments(itemId: string): string {
+    if (!this.commentEntries) {
+      try {
+        const commentIndex = JSON.parse(
+          fs.readFileSync(path.join(this.projectRoot, COMMENT_INDEX_FILE_NAME), 'utf8')
+        );
+        this.commentEntries = commentIndex.comments || {};
+      } catch {
+        this.commentEntries = {};
+      }
+    }
+
+    const bodies: Array<{ createdAt: string; body: string }> = [];
+    for (const entry of Object.values(this.commentEntries?.[itemId] || {})) {
+      try {
+        const { frontmatter, content } = parseYamlFrontmatter(
+          fs.readFileSync(path.join(this.projectRoot, entry.path), 'utf8')
+        );
+        bodies.push({ createdAt: String(frontmatter.createdAt ?? ''), body: content });
+      } catch {
+        // A missing comment file is left out
+      }
+    }
+
+    return bodies
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((comment) => normalizeText(comment.body))
+      .join(' ');
+  }
+
+  private save(index: SearchIndexData): void {
+    index.lastUpdated = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(index), 'utf8');
+  }
+}
+
+/**
+ * Split a query into clauses: words, "quoted phrases" and prefix* words. A word that
+ * tokenizes to several terms, such as ISS-0001, is matched as a phrase.
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const word = match[2];
+    const tokens = tokenize(word ?? match[1]);
+    if (tokens.length === 0) continue;
+
+    if (tokens.length > 1) {
+      clauses.push({ kind: 'phrase', tokens });
+    } else if (word?.endsWith('*')) {
+      clauses.push({ kind: 'prefix', tokens });
+    } else {
+      clauses.push({ kind: 'term', tokens });
+    }
+  }
+  return clauses;
+}
+
+/**
+ * Lower-cased runs of letters and digits
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function emptyIndex(): SearchIndexData {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    lastUpdated: new Date().toISOString(),
+    documents: {},
+    postings: {},
+  };
+}
+
+/**
+ * Drop heading markers and collapse whitespace so snippets read as prose
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/^#+\s*/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * A field's terms; the item ID is indexed as part of the title
+ */
+function fieldTokens(id: string, doc: SearchDocument, field: SearchField): string[] {
+  return tokenize(field === 'title' ? `${id} ${doc.fields.title}` : doc.fields[field]);
+}
+
+/**
+ * Add a document's token positions. Fields are numbered in one sequence with a gap
+ * between them, so a phrase never spans two fields.
+ */
+function addDocument(index: SearchIndexData, id: string, doc: SearchDocument): void {
+  let position = 0;
+  for (const field of SEARCH_FIELDS) {
+    for (const token of fieldTokens(id, doc, field)) {
+      const postings = index.postings[token] || {};
+      const positions = postings[id] || [];
+      positions.push(position);
+      postings[id] = positions;
+      index.postings[token] = postings;
+      position++;
+    }
+    if (field === 'title') {
+      doc.titleLength = position;
+    }
+    position++;
+  }
+  doc.length = position - SEARCH_FIELDS.length;
+  index.documents[id] = doc;
+}
+
+function removeDocument(index: SearchIndexData, id: string): void {
+  const doc = index.documents[id];
+  if (!doc) return;
+
+  const tokens = new Set(SEARCH_FIELDS.flatMap((field) => fieldTokens(id, doc, field)));
+  for (const token of tokens) {
+    const postings = index.postings[token];
+    if (!postings) continue;
+    delete postings[id];
+    if (Object.keys(postings).length === 0) {
+      delete index.postings[token];
+    }
+  }
+  delete index.documents[id];
+}
+
+/**
+ * Documents matching a clause, with the clause's term frequency in each. Title
+ * matches count TITLE_BOOST times.
+ */
+function matchClause(index: SearchIndexData, clause: SearchClause): Map<string, number> {
+  const positions = new Map<string, number[]>();
+
+  if (clause.kind === 'term') {
+    for (const [id, found] of Object.entries(index.postings[clause.tokens[0]] || {})) {
+      positions.set(id, found);
+    }
+  } else if (clause.kind === 'prefix') {
+    for (const [term, postings] of Object.entries(index.postings)) {
+      if (!term.startsWith(clause.tokens[0])) continue;
+      for (const [id, found] of Object.entries(postings)) {
+        positions.set(id, [...(positions.get(id) || []), ...found]);
+      }
+    }
+  } else {
+    const [first, ...rest] = clause.tokens;
+    for (const [id, found] of Object.entries(index.postings[first] || {})) {
+      const following = rest.map((token) => new Set(index.postings[token]?.[id] || []));
+      const starts = found.filter((start) =>
+        following.every((set, offset) => set.has(start + offset + 1))
+      );
+      if (starts.length > 0) positions.set(id, starts);
+    }
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const [id, found] of positions) {
+    const titleLength = index.documents[id]?.titleLength ?? 0;
+    frequencies.set(
+      id,
+      found.reduce((total, position) => total + (position < titleLength ? TITLE_BOOST : 1), 0)
+    );
+  }
+  return frequencies;
+}
+
+/**
+ * A case-insensitive pattern matching any clause at word boundaries
+ */
+function buildHighlightPattern(clauses: SearchClause[]): RegExp {
+  const escapeToken = (token: string) => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const alternatives = clauses.map((clause) => {
+    const body = clause.tokens.map(escapeToken).join('[^\\p{L}\\p{N}]+');
+    return clause.kind === 'prefix' ? `${body}[\\p{L}\\p{N}]*` : `${body}(?![\\p{L}\\p{N}])`;
+  });
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+/**
+ * Cut a window around the first match in the description, content or comments, or
+ * the start of the description when only the title matched
+ */
+function buildSnippet(
+  doc: SearchDocument,
+  pattern: RegExp,
+  highlight: (match: string) => string
+): { field: SearchField; snippet: string } {
+  let field: SearchField = doc.fields.description ? 'description' : 'content';
+  let start = 0;
+  for (const candidate of ['description', 'content', 'comments'] as const) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(doc.fields[candidate]);
+    if (match) {
+      field = candidate;
+      start = match.index;
+      break;
+    }
+  }
+  if (!doc.fields[field]) {
+    field = 'title';
+  }
+
+  const text = doc.fields[field];
+  if (start > SNIPPET_LEAD) {
+    const space = text.indexOf(' ', start - SNIPPET_LEAD);
+    start = space >= 0 && space < start ? space + 1 : start - SNIPPET_LEAD;
+  } else {
+    start = 0;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const snippet = text.slice(start, end).replace(pattern, (match) => highlight(match));
+  return {
+    field,
+    snippet: `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`,
+  };
+}
@@ -77,7 +77,7 @@ export class SearchQueryParser {
 
     for (const token of tokens) {
       if (token.includes(':')) {
-        const [qualifier, value] = token.split(':', 2);
+        const [qualifier, value] = SearchQueryParser.splitQualifier(token);
         SearchQueryParser.parseQualifier(parsed, qualifier.toLowerCase(), value);
       } else {
         // Plain text search term
@@ -103,7 +103,7 @@ export class SearchQueryParser {
       const tokens = SearchQueryParser.tokenize(query);
       for (const token of tokens) {
         if (token.includes(':')) {
-          const [qualifier, value] = token.split(':', 2);
+          const [qualifier, value] = SearchQueryParser.splitQualifier(token);
 
           if (!SearchQueryParser.QUALIFIERS.has(qualifier.toLowerCase())) {
             errors.push({
@@ -212,6 +212,7 @@ export class SearchQueryParser {
       if (parsed.is.public) parts.push('is:public');
       if (parsed.is.private) parts.push('is:private');
       if (parsed.is.fork) parts.push('is:fork');
+      if (parsed.is.overdue) parts.push('is:overdue');
     }
 
     if (parsed.state) {
@@ -277,7 +278,9 @@ export class SearchQueryParser {
 
     // No qualifiers
     if (parsed.no && parsed.no.length > 0) {
-      parsed.no.forEach((field) => parts.push(`no:${field}`));
+      for (const field of parsed.no) {
+        parts.push(`no:${field}`);
+      }
     }
 
     if (parsed.language) parts.push(`language:${parsed.language}`);
@@ -315,6 +318,7 @@ export class SearchQueryParser {
       if (parsed.is.open) filters.state = 'open';
       if (parsed.is.closed) filters.state = 'closed';
     }
+    if (parsed.is?.overdue) filters.overdue = true;
 
     // Boolean filters
     if (parsed.draft !== undefined) filters.draft = parsed.draft;
@@ -413,6 +417,14 @@ export class SearchQueryParser {
     return tokens;
   }
 
+  /**
+   * Split `qualifier:value` at the first colon, so values such as `priority:high` survive
+   */
+  private static splitQualifier(token: string): [string, string] {
+    const colon = token.indexOf(':');
+    return [token.slice(0, colon), token.slice(colon + 1)];
+  }
+
   private static parseQualifier(parsed: ParsedSearchQuery, qualifier: string, value: string): void {
     switch (qualifier) {
       case 'is':
@@ -439,6 +451,9 @@ export class SearchQueryParser {
           case 'fork':
             parsed.is.fork = true;
             break;
+          case 'overdue':
+            parsed.is.overdue = true;
+            break;
         }
         break;
 
@@ -556,35 +571,21 @@ export class SearchQueryParser {
   }
 
   private static parseDateQuery(value: string): DateQuery {
-    // Handle relative dates
+    // A bare relative date means "since": updated:7d is updated in the last 7 days
     if (value.match(/^\d+[dwmy]$/)) {
-      const amount = parseInt(value.slice(0, -1), 10);
-      const unit = value.slice(-1);
-      const date = new Date();
-
-      switch (unit) {
-        case 'd':
-          date.setDate(date.getDate() - amount);
-          break;
-        case 'w':
-          date.setDate(date.getDate() - amount * 7);
-          break;
-        case 'm':
-          date.setMonth(date.getMonth() - amount);
-          break;
-        case 'y':
-          date.setFullYear(date.getFullYear() - amount);
-          break;
-      }
-
-      return { operator: '>', value: date.toISOString().split('T')[0] };
+      return { operator: '>', value: SearchQueryParser.resolveRelativeDate(value) };
     }
 
-    // Handle operators
+    // Handle operators; updated:<30d is updated before 30 days ago
     for (const op of SearchQueryParser.DATE_OPERATORS) {
       if (value.startsWith(op)) {
         const dateValue = value.substring(op.length);
-        return { operator: op as any, value: dateValue };
+        return {
+          operator: op as any,
+          value: /^\d+[dwmy]$/.test(dateValue)
+            ? SearchQueryParser.resolveRelativeDate(dateValue)
+            : dateValue,
+        };
       }
     }
 
@@ -592,6 +593,32 @@ export class SearchQueryParser {
     return { operator: '=', value };
   }
 
+  /**
+   * Resolve a relative date such as 30d, 2w, 6m or 1y to the YYYY-MM-DD that long ago
+   */
+  private static resolveRelativeDate(value: string): string {
+    const amount = parseInt(value.slice(0, -1), 10);
+    const unit = value.slice(-1);
+    const date = new Date();
+
+    switch (unit) {
+      case 'd':
+        date.setDate(date.getDate() - amount);
+        break;
+      case 'w':
+        date.setDate(date.getDate() - amount * 7);
+        break;
+      case 'm':
+        date.setMonth(date.getMonth() - amount);
+        break;
+      case 'y':
+        date.setFullYear(date.getFullYear() - amount);
+        break;
+    }
+
+    return date.toISOString().split('T')[0];
+  }
+
   private static parseNumberQuery(value: string): NumberQuery {
     // Handle operators
     for (const op of SearchQueryParser.NUMBER_OPERATORS) {
@@ -685,6 +712,9 @@ export function buildSearchQuery(filters: AdvancedFilters): string {
   if (filters.state && filters.state !== 'all') {
     parts.push(`is:${filters.state}`);
   }
+  if (filters.overdue) {
+    parts.push('is:overdue');
+  }
 
   // Add user filters
   if (filters.author) parts.push(`author:${filters.author}`);
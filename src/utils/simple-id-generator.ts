@@ -5,6 +5,7 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { writeFileJournaled } from './journaled-fs.js';
 
 export class IdGenerator {
   private countersPath: string;
@@ -108,8 +109,12 @@ export class IdGenerator {
         fs.mkdirSync(dir, { recursive: true });
       }
 
-      const data = JSON.stringify(this.counters, null, 2);
-      fs.writeFileSync(this.countersPath, data, 'utf8');
+      // Both ID generators share this file; keep the counters the other one owns
+      const existing = fs.existsSync(this.countersPath)
+        ? JSON.parse(fs.readFileSync(this.countersPath, 'utf8'))
+        : {};
+      const data = JSON.stringify({ ...existing, ...this.counters }, null, 2);
+      writeFileJournaled(this.countersPath, data);
     } catch (_error) {
       // Silently fail
     }
@@ -0,0 +1,626 @@
+/**
+ * Site Builder for AI-Trackdown
+ * Renders projects, epics, issues, tasks and PRs into a linked, read-only static site
+ * with comment threads, progress bars, analytics charts and a client-side search index
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  type AnyItemData,
+  getItemId,
+  getItemType,
+  type ItemType,
+  type ProjectAnalytics,
+  StateManager,
+} from '../types/ai-trackdown.js';
+import type { Comment } from '../types/comment.js';
+import type { ConfigManager } from './config-manager.js';
+import { isFinishedItem } from './due-dates.js';
+import { listComments } from './index.js';
+import { escapeHtml, renderMarkdown } from './markdown-renderer.js';
+import { calculateProjectAnalytics } from './project-analytics.js';
+import { ProjectContextManager } from './project-context-manager.js';
+import { RelationshipManager } from './relationship-manager.js';
+
+export interface SiteBuildOptions {
+  outDir: string;
+  cliTasksDir?: string;
+  title?: string;
+  // Empty the output directory first so pages of deleted items go away
+  clean?: boolean;
+}
+
+export interface SiteBuildResult {
+  outDir: string;
+  projects: string[];
+  pages: number;
+  items: number;
+}
+
+interface SiteProject {
+  name: string;
+  description?: string;
+  projectRoot: string;
+  relationshipManager: RelationshipManager;
+  // Directory of the project's pages relative to the output directory, '' or 'projects/<name>/'
+  base: string;
+}
+
+interface SearchEntry {
+  id: string;
+  type: ItemType;
+  title: string;
+  state: string;
+  url: string;
+  text: string;
+}
+
+const TYPE_DIRS: Record<string, string> = {
+  epic: 'epics',
+  issue: 'issues',
+  task: 'tasks',
+  pr: 'prs',
+};
+
+// Body text kept per item in the search index
+const SEARCH_TEXT_LENGTH = 2000;
+
+export class SiteBuilder {
+  private configManager: ConfigManager;
+  private options: SiteBuildOptions;
+  private outDir: string;
+  private pages = 0;
+
+  constructor(configManager: ConfigManager, options: SiteBuildOptions) {
+    this.configManager = configManager;
+    this.options = options;
+    this.outDir = path.resolve(options.outDir);
+  }
+
+  public async build(): Promise<SiteBuildResult> {
+    const projectRoot = this.configManager.getAbsolutePaths(this.options.cliTasksDir).projectRoot;
+    if (this.options.clean) {
+      // Never wipe the project itself when --out points at it or above it
+      if (!path.relative(this.outDir, projectRoot).startsWith('..')) {
+        throw new Error(`Refusing to clean ${this.outDir}: it contains the project`);
+      }
+      fs.rmSync(this.outDir, { recursive: true, force: true });
+    }
+    this.pages = 0;
+
+    const projects = await this.loadProjects(projectRoot);
+    this.writeFile('assets/style.css', STYLE_CSS);
+    this.writeFile('assets/search.js', SEARCH_JS);
+
+    let items = 0;
+    const summaries: Array<{ project: SiteProject; analytics: ProjectAnalytics }> = [];
+    for (const project of projects) {
+      const projectItems = this.getItems(project);
+      items += projectItems.length;
+      summaries.push({
+        project,
+        analytics: await this.buildProject(project, projectItems),
+      });
+    }
+
+    // Multi-project sites get a landing page linking each project
+    if (projects.length > 1 || projects[0]?.base) {
+      const title = this.options.title || 'Projects';
+      this.writePage('index.html', title, '', (root) => {
+        const rows = summaries.map(
+          ({ project, analytics }) => `<tr>
+  <td><a href="${root}${project.base}index.html">${escapeHtml(project.name)}</a></td>
+  <td>${analytics.total_epics}</td><td>${analytics.total_issues}</td><td>${analytics.total_tasks}</td>
+  <td>${progressBar(analytics.completion_rate)}</td>
+</tr>`
+        );
+        return `<h1>${escapeHtml(title)}</h1>
+<table class="list"><thead><tr><th>Project</th><th>Epics</th><th>Issues</th><th>Tasks</th><th>Completion</th></tr></thead>
+<tbody>${rows.join('\n')}</tbody></table>`;
+      });
+    }
+
+    return {
+      outDir: this.outDir,
+      projects: projects.map((project) => project.name),
+      pages: this.pages,
+      items,
+    };
+  }
+
+  /**
+   * The current project, or every project in multi-project mode
+   */
+  private async loadProjects(projectRoot: string): Promise<SiteProject[]> {
+    const contextManager = new ProjectContextManager(projectRoot);
+    const state = await contextManager.initializeContext();
+    const names = state.context.mode === 'multi' ? contextManager.listProjects() : [];
+
+    if (names.length === 0) {
+      const config = this.configManager.getConfig();
+      return [
+        {
+          name: this.options.title || config.name,
+          description: config.description,
+          projectRoot,
+          relationshipManager: new RelationshipManager(
+            config,
+            projectRoot,
+            this.options.cliTasksDir
+          ),
+          base: '',
+        },
+      ];
+    }
+
+    const projects: SiteProject[] = [];
+    for (const name of names) {
+      const context = await contextManager.initializeContext(name);
+      const config = context.configManager.getConfig();
+      projects.push({
+        name,
+        description: config.description,
+        projectRoot: context.paths.projectRoot,
+        relationshipManager: new RelationshipManager(config, context.paths.projectRoot),
+        base: `projects/${slug(name)}/`,
+      });
+    }
+    return projects;
+  }
+
+  private getItems(project: SiteProject): AnyItemData[] {
+    const manager = project.relationshipManager;
+    return [
+      ...manager.getAllEpics(),
+      ...manager.getAllIssues(),
+      ...manager.getAllTasks(),
+      ...manager.getAllPRs(),
+    ].sort((a, b) => compareIds(getItemId(a), getItemId(b)));
+  }
+
+  private async buildProject(
+    project: SiteProject,
+    items: AnyItemData[]
+  ): Promise<ProjectAnalytics> {
+    const analytics = calculateProjectAnalytics(items);
+    const search: SearchEntry[] = [];
+
+    for (const item of items) {
+      const comments =
+        getItemType(item) === 'issue' ? await this.loadComments(project, getItemId(item)) : [];
+      const rel = itemPath(project, item);
+      this.writePage(rel, `${getItemId(item)}: ${item.title}`, project.base, (root) =>
+        this.renderItem(project, item, comments, root)
+      );
+      search.push({
+        id: getItemId(item),
+        type: getItemType(item),
+        title: item.title,
+        state: StateManager.getEffectiveState(item),
+        url: `${TYPE_DIRS[getItemType(item)]}/${getItemId(item)}.html`,
+        text: [
+          item.description,
+          item.assignee,
+          ...(item.tags || []),
+          item.content,
+          ...comments.map((comment) => comment.body),
+        ]
+          .filter(Boolean)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .slice(0, SEARCH_TEXT_LENGTH),
+      });
+    }
+
+    this.writePage(`${project.base}index.html`, project.name, project.base, (root) =>
+      this.renderDashboard(project, items, analytics, root)
+    );
+
+    // A script rather than JSON so search also works when pages are opened from disk
+    this.writeFile(
+      `${project.base}search-index.js`,
+      `window.TRACKDOWN_SEARCH = ${JSON.stringify(search).replace(/</g, '\\u003c')};\n`
+    );
+    this.writePage(`${project.base}search.html`, `Search ${project.name}`, project.base, (root) => {
+      return `<h1>Search</h1>
+<p id="search-status" class="muted">Loading…</p>
+<ul id="search-results" class="items"></ul>
+<script src="${root}${project.base}search-index.js"></script>
+<script src="${root}assets/search.js"></script>`;
+    });
+
+    return analytics;
+  }
+
+  private async loadComments(project: SiteProject, issueId: string): Promise<Comment[]> {
+    try {
+      return await listComments(project.projectRoot, issueId);
+    } catch {
+      // A comment file missing from disk should not stop the build
+      return [];
+    }
+  }
+
+  private renderDashboard(
+    project: SiteProject,
+    items: AnyItemData[],
+    analytics: ProjectAnalytics,
+    root: string
+  ): string {
+    const link = (item: AnyItemData) => this.itemLink(project, item, root);
+    const epics = items.filter((item) => getItemType(item) === 'epic');
+    const unplanned = items.filter(
+      (item) => getItemType(item) === 'issue' && !('epic_id' in item && item.epic_id)
+    );
+    const activeStates = Object.entries(analytics.state_breakdown).filter(([, count]) => count > 0);
+    const assignees = Object.entries(analytics.assignee_breakdown)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 10);
+
+    return `<h1>${escapeHtml(project.name)}</h1>
+${project.description ? `<p class="muted">${escapeHtml(project.description)}</p>` : ''}
+<div class="cards">
+  <div class="card"><strong>${analytics.total_epics}</strong><span>Epics</span></div>
+  <div class="card"><strong>${analytics.total_issues}</strong><span>Issues</span></div>
+  <div class="card"><strong>${analytics.total_tasks}</strong><span>Tasks</span></div>
+  <div class="card"><strong>${items.length - analytics.total_epics - analytics.total_issues - analytics.total_tasks}</strong><span>PRs</span></div>
+  <div class="card wide"><span>Completion</span>${progressBar(analytics.completion_rate)}</div>
+</div>
+<div class="charts">
+  <section><h2>By state</h2>${barChart(activeStates.map(([state, count]) => [state.replace(/_/g, ' '), count]))}</section>
+  <section><h2>By priority</h2>${barChart(
+    (['critical', 'high', 'medium', 'low'] as const).map((priority) => [
+      priority,
+      analytics.priority_breakdown[priority],
+    ])
+  )}</section>
+  <section><h2>By assignee</h2>${barChart(assignees)}</section>
+  <section><h2>Tokens</h2>${barChart([
+    ['estimated', analytics.token_usage.estimated_total],
+    ['actual', analytics.token_usage.actual_total],
+  ])}
+  <p class="muted">Automation rate ${analytics.resolution_analytics.automation_rate}% · efficiency ${analytics.token_usage.efficiency_ratio}</p></section>
+</div>
+<h2>Epics</h2>
+${this.itemList(project, epics, root) || '<p class="muted">No epics</p>'}
+${unplanned.length > 0 ? `<h2>Issues without an epic</h2>\n${this.itemList(project, unplanned, root)}` : ''}
+<h2>All items</h2>
+<table class="list"><thead><tr><th>ID</th><th>Title</th><th>State</th><th>Priority</th><th>Assignee</th></tr></thead>
+<tbody>${items
+      .map(
+        (item) =>
+          `<tr><td>${link(item)}</td><td>${escapeHtml(item.title)}</td><td>${stateBadge(item)}</td><td>${escapeHtml(item.priority)}</td><td>${escapeHtml(item.assignee || '')}</td></tr>`
+      )
+      .join('\n')}</tbody></table>`;
+  }
+
+  private renderItem(
+    project: SiteProject,
+    item: AnyItemData,
+    comments: Comment[],
+    root: string
+  ): string {
+    const manager = project.relationshipManager;
+    const id = getItemId(item);
+    const type = getItemType(item);
+    const crumbs = [`<a href="${root}${project.base}index.html">${escapeHtml(project.name)}</a>`];
+    const sections: string[] = [];
+
+    const epicId = 'epic_id' in item && type !== 'epic' ? item.epic_id : undefined;
+    const issueId = 'issue_id' in item && type !== 'issue' ? item.issue_id : undefined;
+    for (const parentId of [epicId, issueId]) {
+      const parent = parentId && manager.getItem(parentId);
+      if (parent) crumbs.push(this.itemLink(project, parent, root, true));
+    }
+    crumbs.push(escapeHtml(id));
+
+    if (type === 'epic') {
+      const hierarchy = manager.getEpicHierarchy(id);
+      if (hierarchy?.issues.length) {
+        sections.push(`<h2>Issues</h2>\n${this.itemList(project, hierarchy.issues, root)}`);
+      }
+      const orphanTasks = hierarchy?.tasks.filter(
+        (task) => !hierarchy.issues.some((issue) => issue.issue_id === task.issue_id)
+      );
+      if (orphanTasks?.length) {
+        sections.push(`<h2>Tasks</h2>\n${this.itemList(project, orphanTasks, root)}`);
+      }
+    }
+    if (type === 'issue') {
+      const hierarchy = manager.getIssueHierarchy(id);
+      if (hierarchy?.tasks.length) {
+        sections.push(`<h2>Tasks</h2>\n${this.itemList(project, hierarchy.tasks, root)}`);
+      }
+      if (hierarchy?.prs.length) {
+        sections.push(`<h2>Pull requests</h2>\n${this.itemList(project, hierarchy.prs, root)}`);
+      }
+    }
+    if (type === 'issue') {
+      sections.push(`<h2>Comments (${comments.length})</h2>
+${
+  comments
+    .map(
+      (comment) => `<article class="comment" id="${escapeHtml(comment.id)}">
+  <header><strong>${escapeHtml(comment.author || 'unknown')}</strong> <span class="muted">${escapeHtml(formatDate(comment.createdAt))}${comment.metadata?.edited ? ' · edited' : ''}</span></header>
+  ${renderMarkdown(comment.body)}
+</article>`
+    )
+    .join('\n') || '<p class="muted">No comments</p>'
+}`);
+    }
+
+    const meta: Array<[string, string | undefined]> = [
+      ['Type', type],
+      ['State', stateBadge(item)],
+      ['Priority', escapeHtml(item.priority)],
+      ['Assignee', item.assignee && escapeHtml(item.assignee)],
+      [
+        'Tags',
+        item.tags?.length
+          ? item.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join(' ')
+          : undefined,
+      ],
+      [
+        'Milestone',
+        'milestone' in item && item.milestone ? escapeHtml(String(item.milestone)) : undefined,
+      ],
+      ['Due', item.due_date && escapeHtml(item.due_date)],
+      ['PR status', 'pr_status' in item ? escapeHtml(item.pr_status) : undefined],
+      ['Created', escapeHtml(formatDate(item.created_date))],
+      ['Updated', escapeHtml(formatDate(item.updated_date))],
+      [
+        'Last transition',
+        item.state_metadata &&
+          escapeHtml(
+            `${formatDate(item.state_metadata.transitioned_at)} by ${item.state_metadata.transitioned_by}`
+          ),
+      ],
+      [
+        'Tokens',
+        item.estimated_tokens || item.actual_tokens
+          ? `${item.actual_tokens || 0} / ${item.estimated_tokens || 0}`
+          : undefined,
+      ],
+    ];
+
+    return `<nav class="crumbs">${crumbs.join(' › ')}</nav>
+<h1>${escapeHtml(item.title)} <span class="muted">${escapeHtml(id)}</span></h1>
+${progressBar(itemProgress(item, manager))}
+<table class="meta">${meta
+      .filter(([, value]) => value)
+      .map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`)
+      .join('')}</table>
+${item.description ? `<p class="lead">${escapeHtml(item.description)}</p>` : ''}
+<div class="content">${renderMarkdown(item.content || '')}</div>
+${sections.join('\n')}`;
+  }
+
+  private itemList(project: SiteProject, items: AnyItemData[], root: string): string {
+    if (items.length === 0) return '';
+    return `<ul class="items">${items
+      .map(
+        (item) =>
+          `<li>${this.itemLink(project, item, root, true)} ${stateBadge(item)}${progressBar(itemProgress(item, project.relationshipManager))}</li>`
+      )
+      .join('\n')}</ul>`;
+  }
+
+  private itemLink(
+    project: SiteProject,
+    item: AnyItemData,
+    root: string,
+    withTitle = false
+  ): string {
+    const label = withTitle ? `${getItemId(item)} ${item.title}` : getItemId(item);
+    return `<a href="${root}${itemPath(project, item)}">${escapeHtml(label)}</a>`;
+  }
+
+  /**
+   * Write an HTML page; render receives the relative path back to the site root
+   */
+  private writePage(
+    rel: string,
+    title: string,
+    base: string,
+    render: (root: string) => string
+  ): void {
+    const root = '../'.repeat(rel.split('/').length - 1);
+    const siteTitle = this.options.title || this.configManager.getConfig().name;
+    this.writeFile(
+      rel,
+      `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}assets/style.css">
+</head>
+<body>
+<header class="top">
+  <a class="brand" href="${root}index.html">${escapeHtml(siteTitle)}</a>
+  <form action="${root}${base}search.html"><input type="search" name="q" placeholder="Search items"></form>
+</header>
+<main>
+${render(root)}
+</main>
+<footer class="muted">Generated by aitrackdown on ${escapeHtml(formatDate(new Date().toISOString()))}</footer>
+</body>
+</html>
+`
+    );
+    this.pages++;
+  }
+
+  private writeFile(rel: string, content: string): void {
+    const file = path.join(this.outDir, rel);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content, 'utf8');
+  }
+}
+
+function itemPath(project: SiteProject, item: AnyItemData): string {
+  return `${project.base}${TYPE_DIRS[getItemType(item)]}/${getItemId(item)}.html`;
+}
+
+/**
+ * Finished items are complete; otherwise completion_percentage when set above zero
+ * (templates default it to 0), then the share of finished children for epics and issues
+ */
+function itemProgress(item: AnyItemData, manager: RelationshipManager): number {
+  if (isFinishedItem(item)) return 100;
+  const explicit = 'completion_percentage' in item ? item.completion_percentage || 0 : 0;
+  if (explicit > 0) return explicit;
+
+  const type = getItemType(item);
+  const children =
+    type === 'epic' || type === 'issue' ? manager.getChildren(getItemId(item), type) : [];
+  if (children.length > 0) {
+    return Math.round((children.filter(isFinishedItem).length / children.length) * 100);
+  }
+  return 0;
+}
+
+function progressBar(percent: number): string {
+  const value = Math.max(0, Math.min(100, Math.round(percent)));
+  return `<span class="progress" title="${value}%"><span style="width:${value}%"></span></span><span class="pct">${value}%</span>`;
+}
+
+function stateBadge(item: AnyItemData): string {
+  const state = StateManager.getEffectiveState(item);
+  return `<span class="state state-${escapeHtml(state)}">${escapeHtml(state.replace(/_/g, ' '))}</span>`;
+}
+
+/**
+ * Horizontal bar chart as inline SVG
+ */
+function barChart(data: Array<[string, number]>): string {
+  if (data.length === 0 || data.every(([, value]) => !value)) {
+    return '<p class="muted">No data</p>';
+  }
+  const max = Math.max(...data.map(([, value]) => value));
+  const rowHeight = 22;
+  const rows = data.map(([label, value], i) => {
+    const width = max > 0 ? Math.round((value / max) * 160) : 0;
+    const y = i * rowHeight;
+    return `<text x="0" y="${y + 15}">${escapeHtml(label)}</text><rect x="150" y="${y + 4}" width="${width}" height="14" rx="2"></rect><text x="${156 + width}" y="${y + 15}">${value}</text>`;
+  });
+  return `<svg class="chart" viewBox="0 0 360 ${data.length * rowHeight}" role="img">${rows.join('')}</svg>`;
+}
+
+// YAML parsing turns unquoted timestamps, as in comment files, into Dates
+function formatDate(value: string | Date | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function slug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'project'
+  );
+}
+
+const STYLE_CSS = `:root { --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --accent: #0969da; --bg-soft: #f6f8fa; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--fg); }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+header.top { display: flex; align-items: center; justify-content: space-between; gap: 1rem; padding: .6rem 1.5rem; background: #24292f; }
+header.top .brand { color: #fff; font-weight: 600; }
+header.top input { padding: .3rem .6rem; border-radius: 6px; border: 1px solid var(--border); min-width: 16rem; }
+main { max-width: 1100px; margin: 0 auto; padding: 1.5rem; }
+footer { text-align: center; padding: 2rem; font-size: .85rem; }
+h1 .muted { font-weight: normal; font-size: .7em; }
+.muted { color: var(--muted); }
+.crumbs { font-size: .9rem; color: var(--muted); }
+.cards { display: flex; flex-wrap: wrap; gap: .75rem; margin: 1rem 0; }
+.card { border: 1px solid var(--border); border-radius: 8px; padding: .75rem 1rem; min-width: 7rem; display: flex; flex-direction: column; }
+.card strong { font-size: 1.6rem; }
+.card.wide { flex: 1; min-width: 16rem; }
+.charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 1rem; }
+.charts section { border: 1px solid var(--border); border-radius: 8px; padding: .5rem 1rem 1rem; }
+.charts h2 { font-size: 1rem; }
+svg.chart { width: 100%; font-size: 12px; }
+svg.chart rect { fill: var(--accent); }
+svg.chart text { fill: var(--fg); }
+.progress { display: inline-block; width: 120px; height: 8px; border-radius: 4px; background: #e6e8eb; overflow: hidden; vertical-align: middle; margin: 0 .4rem; }
+.progress > span { display: block; height: 100%; background: #2da44e; }
+.pct { font-size: .8rem; color: var(--muted); }
+table { border-collapse: collapse; }
+table.list { width: 100%; }
+table.list th, table.list td, table.meta th, table.meta td { text-align: left; padding: .35rem .6rem; border-bottom: 1px solid var(--border); }
+table.meta th { color: var(--muted); font-weight: normal; }
+ul.items { list-style: none; padding: 0; }
+ul.items li { padding: .35rem 0; border-bottom: 1px solid var(--border); }
+.state { display: inline-block; padding: 0 .5rem; border-radius: 1rem; font-size: .8rem; background: var(--bg-soft); border: 1px solid var(--border); }
+.state-active, .state-ready_for_engineering { background: #ddf4ff; }
+.state-ready_for_qa, .state-ready_for_deployment { background: #fff8c5; }
+.state-done, .state-completed { background: #dafbe1; }
+.state-won_t_do, .state-archived { background: #eaeef2; color: var(--muted); }
+.tag { background: var(--bg-soft); border-radius: 4px; padding: 0 .35rem; font-size: .85rem; }
+.content, .comment { overflow-wrap: break-word; }
+.content pre, .comment pre { background: var(--bg-soft); padding: .75rem; border-radius: 6px; overflow-x: auto; }
+.content table td, .content table th { border: 1px solid var(--border); padding: .25rem .5rem; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid var(--border); color: var(--muted); }
+.comment { border: 1px solid var(--border); border-radius: 8px; padding: .5rem 1rem; margin: .75rem 0; }
+.comment header { border-bottom: 1px solid var(--border); padding-bottom: .35rem; }
+li.task { list-style: none; }
+`;
+
+const SEARCH_JS = `(function () {
+  var entries = window.TRACKDOWN_SEARCH || [];
+  var params = new URLSearchParams(window.location.search);
+  var query = (params.get('q') || '').trim();
+  var status = document.getElementById('search-status');
+  var list = document.getElementById('search-results');
+  var input = document.querySelector('header.top input');
+  if (input) input.value = query;
+
+  function escape(text) {
+    var div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    status.textContent = entries.length + ' items indexed. Type in the search box above.';
+    return;
+  }
+
+  var results = entries
+    .map(function (entry) {
+      var title = (entry.id + ' ' + entry.title).toLowerCase();
+      var text = (entry.type + ' ' + entry.state + ' ' + entry.text).toLowerCase();
+      var score = 0;
+      for (var i = 0; i < terms.length; i++) {
+        if (title.indexOf(terms[i]) >= 0) score += 3;
+        else if (text.indexOf(terms[i]) >= 0) score += 1;
+        else return null;
+      }
+      return { entry: entry, score: score };
+    })
+    .filter(Boolean)
+    .sort(function (a, b) { return b.score - a.score; });
+
+  status.textContent = results.length + ' result(s) for "' + query + '"';
+  list.innerHTML = results
+    .map(function (result) {
+      var entry = result.entry;
+      return '<li><a href="' + encodeURI(entry.url) + '">' + escape(entry.id + ' ' + entry.title) + '</a> ' +
+        '<span class="state state-' + escape(entry.state) + '">' + escape(entry.state.replace(/_/g, ' ')) + '</span>' +
+        '<div class="muted">' + escape(entry.text.slice(0, 160)) + '</div></li>';
+    })
+    .join('');
+})();
+`;
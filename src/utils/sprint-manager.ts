@@ -0,0 +1,515 @@
+/**
+ * Sprint Manager for AI-Trackdown
+ * Sprint planning, capacity checks, rollover of unfinished work and burndown data
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as YAML from 'yaml';
+import {
+  type AnyItemData,
+  type BurndownPoint,
+  getItemId,
+  type ProjectConfig,
+  type SprintCapacityUnit,
+  type SprintData,
+  type SprintFrontmatter,
+  StateManager,
+  type StateMetadata,
+  type UnifiedState,
+} from '../types/ai-trackdown.js';
+import { HistoryLog } from './history-log.js';
+import { AITrackdownIdGenerator } from './id-generator.js';
+import { writeFileJournaled } from './journaled-fs.js';
+import type { RelationshipManager } from './relationship-manager.js';
+import { parseDurationSafe } from './time-tracker.js';
+import { UnifiedPathResolver } from './unified-path-resolver.js';
+
+const FRONTMATTER_REGEX = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// States that count as finished work for burndown and rollover
+const FINISHED_STATES: UnifiedState[] = ['completed', 'archived', 'done', 'won_t_do'];
+
+export interface CreateSprintOptions {
+  title: string;
+  goal?: string;
+  start_date: string;
+  end_date: string;
+  capacity?: number;
+  capacity_unit?: SprintCapacityUnit;
+}
+
+export interface SprintCommitment {
+  committed: number;
+  capacity: number;
+  unit: SprintCapacityUnit;
+  over_capacity: boolean;
+}
+
+export interface SprintCloseResult {
+  sprint: SprintData;
+  completed: string[];
+  unfinished: string[];
+  next_sprint?: SprintData;
+}
+
+/**
+ * Normalize a date string to an ISO calendar date (YYYY-MM-DD) in the local time zone.
+ * Bare calendar dates are kept as they are rather than read as UTC midnight.
+ */
+export function toIsoDate(input: string | Date): string {
+  const date = typeof input === 'string' ? parseLocalDate(input) : input;
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${input}`);
+  }
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add whole days to an ISO calendar date
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = parseLocalDate(isoDate);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+}
+
+/**
+ * Number of calendar days from start to end, both inclusive
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  const start = parseLocalDate(startDate).getTime();
+  const end = parseLocalDate(endDate).getTime();
+  // Rounding absorbs the hour gained or lost across a daylight saving change
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+function parseLocalDate(input: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input);
+  if (!match) return new Date(input);
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Reject dates like 2025-02-30 that the Date constructor would roll over
+  return date.getDate() === Number(match[3]) ? date : new Date(Number.NaN);
+}
+
+/**
+ * Format an amount of work in a sprint capacity unit ("12.5h", "3 items")
+ */
+export function formatWork(amount: number, unit: SprintCapacityUnit): string {
+  const rounded = Math.round(amount * 10) / 10;
+  switch (unit) {
+    case 'hours':
+      return `${rounded}h`;
+    case 'tokens':
+      return `${rounded} tokens`;
+    default:
+      return `${rounded} ${rounded === 1 ? 'item' : 'items'}`;
+  }
+}
+
+/**
+ * Whether recorded item fields describe finished work, as SprintManager.isFinished does
+ */
+function isFinishedFields(fields: Record<string, unknown>): boolean {
+  return (
+    FINISHED_STATES.includes(fields.state as UnifiedState) ||
+    fields.status === 'completed' ||
+    fields.status === 'archived' ||
+    fields.pr_status === 'merged' ||
+    fields.pr_status === 'closed'
+  );
+}
+
+export class SprintManager {
+  private config: ProjectConfig;
+  private projectRoot: string;
+  private sprintsDir: string;
+  private historyLog: HistoryLog;
+
+  constructor(config: ProjectConfig, projectRoot: string, cliTasksDir?: string) {
+    this.config = config;
+    this.projectRoot = projectRoot;
+    const paths = new UnifiedPathResolver(config, projectRoot, cliTasksDir).getUnifiedPaths();
+    this.sprintsDir = paths.sprintsDir;
+    this.historyLog = new HistoryLog(paths.tasksRoot);
+  }
+
+  /**
+   * List all sprints ordered by start date
+   */
+  public listSprints(): SprintData[] {
+    if (!fs.existsSync(this.sprintsDir)) {
+      return [];
+    }
+
+    const sprints: SprintData[] = [];
+    for (const file of fs.readdirSync(this.sprintsDir)) {
+      if (!file.endsWith('.md')) continue;
+      try {
+        sprints.push(this.readSprint(path.join(this.sprintsDir, file)));
+      } catch (error) {
+        console.warn(
+          `Failed to parse sprint ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return sprints.sort(
+      (a, b) => a.start_date.localeCompare(b.start_date) || a.sprint_id.localeCompare(b.sprint_id)
+    );
+  }
+
+  /**
+   * Get a sprint by ID
+   */
+  public getSprint(sprintId: string): SprintData | null {
+    return this.listSprints().find((sprint) => sprint.sprint_id === sprintId) || null;
+  }
+
+  /**
+   * Get the currently active sprint, if any
+   */
+  public getActiveSprint(): SprintData | null {
+    return this.listSprints().find((sprint) => sprint.sprint_status === 'active') || null;
+  }
+
+  /**
+   * Create a new sprint in planning state
+   */
+  public createSprint(options: CreateSprintOptions): SprintData {
+    const startDate = toIsoDate(options.start_date);
+    const endDate = toIsoDate(options.end_date);
+    if (endDate < startDate) {
+      throw new Error(`Sprint end date ${endDate} is before start date ${startDate}`);
+    }
+    if (
+      options.capacity !== undefined &&
+      (options.capacity < 0 || Number.isNaN(options.capacity))
+    ) {
+      throw new Error('Sprint capacity must be a non-negative number');
+    }
+
+    const idGenerator = new AITrackdownIdGenerator(this.config, this.projectRoot);
+    const sprintId = idGenerator.generateSprintId(options.title);
+    const now = new Date().toISOString();
+
+    const sprint: SprintData = {
+      sprint_id: sprintId,
+      title: options.title,
+      ...(options.goal && { goal: options.goal }),
+      sprint_status: 'planning',
+      start_date: startDate,
+      end_date: endDate,
+      capacity: options.capacity ?? 0,
+      capacity_unit: options.capacity_unit || 'hours',
+      items: [],
+      created_date: now,
+      updated_date: now,
+      content: `# Sprint: ${options.title}\n\n## Goal\n${options.goal || 'Sprint goal to be defined.'}\n`,
+      file_path: path.join(this.sprintsDir, idGenerator.generateFilename(sprintId, options.title)),
+    };
+
+    this.writeSprint(sprint);
+    return sprint;
+  }
+
+  /**
+   * Commit items to a sprint; an item can only belong to one open sprint at a time
+   */
+  public addItems(
+    sprintId: string,
+    itemIds: string[],
+    relationshipManager: RelationshipManager
+  ): SprintData {
+    const sprint = this.requireSprint(sprintId);
+    if (sprint.sprint_status === 'closed') {
+      throw new Error(`Sprint ${sprintId} is closed`);
+    }
+
+    const openSprints = this.listSprints().filter(
+      (other) => other.sprint_id !== sprintId && other.sprint_status !== 'closed'
+    );
+
+    for (const itemId of itemIds) {
+      const item = relationshipManager.getItem(itemId);
+      if (!item) {
+        throw new Error(`Item not found: ${itemId}`);
+      }
+      if (!('issue_id' in item)) {
+        throw new Error(`Only issues, tasks and PRs can be added to a sprint: ${itemId}`);
+      }
+      const owner = openSprints.find((other) => other.items.includes(itemId));
+      if (owner) {
+        throw new Error(`${itemId} is already planned in ${owner.sprint_id}`);
+      }
+      if (!sprint.items.includes(itemId)) {
+        sprint.items.push(itemId);
+      }
+    }
+
+    this.writeSprint(sprint);
+    return sprint;
+  }
+
+  /**
+   * Remove items from a sprint
+   */
+  public removeItems(sprintId: string, itemIds: string[]): SprintData {
+    const sprint = this.requireSprint(sprintId);
+    if (sprint.sprint_status === 'closed') {
+      throw new Error(`Sprint ${sprintId} is closed`);
+    }
+
+    const missing = itemIds.filter((itemId) => !sprint.items.includes(itemId));
+    if (missing.length > 0) {
+      throw new Error(`Not in ${sprintId}: ${missing.join(', ')}`);
+    }
+
+    sprint.items = sprint.items.filter((itemId) => !itemIds.includes(itemId));
+    this.writeSprint(sprint);
+    return sprint;
+  }
+
+  /**
+   * Start a planned sprint (only one sprint may be active at a time)
+   */
+  public startSprint(sprintId: string): SprintData {
+    const sprint = this.requireSprint(sprintId);
+    if (sprint.sprint_status !== 'planning') {
+      throw new Error(`Sprint ${sprintId} is ${sprint.sprint_status}, not planning`);
+    }
+
+    const active = this.getActiveSprint();
+    if (active) {
+      throw new Error(`Sprint ${active.sprint_id} is already active; close it first`);
+    }
+
+    sprint.sprint_status = 'active';
+    this.writeSprint(sprint);
+    return sprint;
+  }
+
+  /**
+   * Close a sprint and roll unfinished items into the next planned sprint,
+   * creating one with the same length and capacity when none exists
+   */
+  public closeSprint(
+    sprintId: string,
+    relationshipManager: RelationshipManager,
+    options: { rollover?: boolean } = {}
+  ): SprintCloseResult {
+    const sprint = this.requireSprint(sprintId);
+    if (sprint.sprint_status === 'closed') {
+      throw new Error(`Sprint ${sprintId} is already closed`);
+    }
+
+    const completed: string[] = [];
+    const unfinished: string[] = [];
+    for (const itemId of sprint.items) {
+      const item = relationshipManager.getItem(itemId);
+      if (item && this.isFinished(item)) {
+        completed.push(itemId);
+      } else if (item) {
+        unfinished.push(itemId);
+      }
+    }
+
+    let nextSprint: SprintData | undefined;
+    if (options.rollover !== false && unfinished.length > 0) {
+      nextSprint =
+        this.listSprints().find(
+          (other) => other.sprint_status === 'planning' && other.sprint_id !== sprintId
+        ) ||
+        this.createSprint({
+          title: `${sprint.title.replace(/ \(continued\)$/, '')} (continued)`,
+          goal: sprint.goal,
+          start_date: addDays(sprint.end_date, 1),
+          end_date: addDays(sprint.end_date, daysBetween(sprint.start_date, sprint.end_date)),
+          capacity: sprint.capacity,
+          capacity_unit: sprint.capacity_unit,
+        });
+
+      for (const itemId of unfinished) {
+        if (!nextSprint.items.includes(itemId)) {
+          nextSprint.items.push(itemId);
+        }
+      }
+      nextSprint.rolled_over_from = sprintId;
+      this.writeSprint(nextSprint);
+      sprint.rolled_over_to = nextSprint.sprint_id;
+    }
+
+    sprint.sprint_status = 'closed';
+    sprint.closed_date = new Date().toISOString();
+    sprint.completed_items = completed;
+    sprint.unfinished_items = unfinished;
+    this.writeSprint(sprint);
+
+    return { sprint, completed, unfinished, next_sprint: nextSprint };
+  }
+
+  /**
+   * Compare committed work against the sprint capacity
+   */
+  public getCommitment(
+    sprint: SprintData,
+    relationshipManager: RelationshipManager
+  ): SprintCommitment {
+    const committed = sprint.items.reduce((sum, itemId) => {
+      const item = relationshipManager.getItem(itemId);
+      return item ? sum + this.getWork(item, sprint.capacity_unit) : sum;
+    }, 0);
+
+    return {
+      committed,
+      capacity: sprint.capacity,
+      unit: sprint.capacity_unit,
+      over_capacity: sprint.capacity > 0 && committed > sprint.capacity,
+    };
+  }
+
+  /**
+   * Compute remaining work at the end of each sprint day, using the time each
+   * item was last finished according to its history log
+   */
+  public getBurndown(
+    sprint: SprintData,
+    relationshipManager: RelationshipManager,
+    today: Date = new Date()
+  ): BurndownPoint[] {
+    const items = sprint.items
+      .map((itemId) => relationshipManager.getItem(itemId))
+      .filter((item): item is AnyItemData => item !== null)
+      .map((item) => ({
+        work: this.getWork(item, sprint.capacity_unit),
+        finished_on: this.isFinished(item) ? this.getFinishedDate(item) : null,
+      }));
+
+    const total = items.reduce((sum, item) => sum + item.work, 0);
+    const sprintDays = daysBetween(sprint.start_date, sprint.end_date);
+    const lastDay = sprint.sprint_status === 'closed' ? sprint.end_date : toIsoDate(today);
+
+    const points: BurndownPoint[] = [];
+    for (let day = 0; day < sprintDays; day++) {
+      const date = addDays(sprint.start_date, day);
+      if (date > lastDay) break;
+
+      const remaining = items
+        .filter((item) => !item.finished_on || item.finished_on > date)
+        .reduce((sum, item) => sum + item.work, 0);
+      const ideal = sprintDays > 1 ? total * (1 - day / (sprintDays - 1)) : 0;
+
+      points.push({ date, remaining, ideal: Math.round(ideal * 100) / 100 });
+    }
+
+    return points;
+  }
+
+  /**
+   * Check whether an item counts as done for sprint purposes
+   */
+  public isFinished(item: AnyItemData): boolean {
+    if ('pr_id' in item && (item.pr_status === 'merged' || item.pr_status === 'closed')) {
+      return true;
+    }
+    if (item.status === 'completed' || item.status === 'archived') {
+      return true;
+    }
+    return FINISHED_STATES.includes(StateManager.getEffectiveState(item));
+  }
+
+  /**
+   * Work an item contributes to a sprint, in the sprint's capacity unit
+   */
+  private getWork(item: AnyItemData, unit: SprintCapacityUnit): number {
+    switch (unit) {
+      case 'items':
+        return 1;
+      case 'tokens':
+        return item.estimated_tokens || 0;
+      default:
+        return parseDurationSafe((item as { time_estimate?: string }).time_estimate) / 60;
+    }
+  }
+
+  /**
+   * Replay the item's history to find when it last became finished, so later edits
+   * such as archiving a done item don't move its burndown point. Items without
+   * history fall back to their last transition.
+   */
+  private getFinishedDate(item: AnyItemData): string {
+    const fields: Record<string, unknown> = {};
+    let finishedAt: string | undefined;
+
+    for (const event of this.historyLog.getEvents(getItemId(item))) {
+      // Fields first changed here held their old value since before the log began
+      for (const change of event.changes) {
+        if (!(change.field in fields)) fields[change.field] = change.old_value;
+      }
+      if (!finishedAt && isFinishedFields(fields)) {
+        const metadata = fields.state_metadata as StateMetadata | undefined;
+        finishedAt = metadata?.transitioned_at || event.timestamp;
+      }
+
+      for (const change of event.changes) {
+        fields[change.field] = change.new_value;
+      }
+      if (!isFinishedFields(fields)) {
+        finishedAt = undefined;
+      } else if (!finishedAt) {
+        finishedAt = event.timestamp;
+      }
+    }
+
+    return toIsoDate(finishedAt || item.state_metadata?.transitioned_at || item.updated_date);
+  }
+
+  private requireSprint(sprintId: string): SprintData {
+    const sprint = this.getSprint(sprintId);
+    if (!sprint) {
+      throw new Error(`Sprint not found: ${sprintId}`);
+    }
+    return sprint;
+  }
+
+  private readSprint(filePath: string): SprintData {
+    const match = fs.readFileSync(filePath, 'utf8').match(FRONTMATTER_REGEX);
+    if (!match) {
+      throw new Error('missing YAML frontmatter');
+    }
+
+    const frontmatter = YAML.parse(match[1]) as SprintFrontmatter;
+    if (!frontmatter?.sprint_id) {
+      throw new Error('missing sprint_id');
+    }
+
+    return {
+      ...frontmatter,
+      // YAML may load unquoted dates as Date objects
+      start_date: toIsoDate(frontmatter.start_date),
+      end_date: toIsoDate(frontmatter.end_date),
+      items: frontmatter.items || [],
+      content: match[2].trim(),
+      file_path: filePath,
+    };
+  }
+
+  private writeSprint(sprint: SprintData): void {
+    const { content, file_path, ...frontmatter } = sprint;
+    frontmatter.updated_date = new Date().toISOString();
+    sprint.updated_date = frontmatter.updated_date;
+
+    const cleaned = Object.fromEntries(
+      Object.entries(frontmatter).filter(([, value]) => value !== undefined && value !== null)
+    );
+    const yamlString = YAML.stringify(cleaned, { indent: 2, lineWidth: 120 });
+
+    if (!fs.existsSync(this.sprintsDir)) {
+      fs.mkdirSync(this.sprintsDir, { recursive: true });
+    }
+    writeFileJournaled(file_path, `---\n${yamlString}---\n\n${content}\n`);
+  }
+}
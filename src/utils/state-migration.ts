@@ -12,7 +12,8 @@ import {
   MigrationResult,
   MigrationLogEntry,
   ItemType,
-  StateManager
+  StateManager,
+  getItemType
 } from '../types/ai-trackdown.js';
 
 export class StateMigration {
@@ -313,9 +314,11 @@ export class StateTransition {
     user_role?: string
   ): { item: AnyItemData; success: boolean; errors: string[]; warnings: string[] } {
     const current_state = StateManager.getEffectiveState(item);
+    const item_type = getItemType(item);
+    const roles = user_role ?? StateManager.getWorkflowEngine().getUserRoles(transitioned_by);
     
     // Validate transition
-    const validation = StateManager.validateTransition(current_state, to_state, user_role);
+    const validation = StateManager.validateTransition(current_state, to_state, roles, item_type);
     
     if (!validation.valid) {
       return {
@@ -344,6 +347,21 @@ export class StateTransition {
       updated_date: new Date().toISOString()
     };
 
+    // The workflow may require fields to be set before entering the new state
+    const missing_fields = StateManager.getWorkflowEngine().getMissingFields(
+      updated_item,
+      to_state,
+      item_type
+    );
+    if (missing_fields.length > 0) {
+      return {
+        item,
+        success: false,
+        errors: [`${to_state} requires: ${missing_fields.join(', ')}`],
+        warnings: validation.warnings
+      };
+    }
+
     return {
       item: updated_item,
       success: true,
@@ -357,12 +375,13 @@ export class StateTransition {
    */
   static getAvailableTransitions(item: AnyItemData, user_role?: string): UnifiedState[] {
     const current_state = StateManager.getEffectiveState(item);
-    const all_transitions = StateManager.getAllowedTransitions(current_state);
+    const item_type = getItemType(item);
+    const all_transitions = StateManager.getAllowedTransitions(current_state, item_type);
     
     // Filter by user role if specified
     if (user_role) {
       return all_transitions.filter(to_state => {
-        const validation = StateManager.validateTransition(current_state, to_state, user_role);
+        const validation = StateManager.validateTransition(current_state, to_state, user_role, item_type);
         return validation.valid;
       });
     }
@@ -375,7 +394,12 @@ export class StateTransition {
    */
   static canAutomate(item: AnyItemData, to_state: UnifiedState): boolean {
     const current_state = StateManager.getEffectiveState(item);
-    const validation = StateManager.validateTransition(current_state, to_state);
+    const validation = StateManager.validateTransition(
+      current_state,
+      to_state,
+      undefined,
+      getItemType(item)
+    );
     
     return validation.valid && validation.warnings.length === 0;
   }
@@ -0,0 +1,416 @@
+/**
+ * Time Tracker for AI-Trackdown
+ * Running timers, manual time entries, duration parsing and timesheet roll-ups
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  type ActiveTimer,
+  type AnyItemData,
+  getItemId,
+  type TimeEntry,
+  type TimeRollUp,
+  type TimesheetRow,
+} from '../types/ai-trackdown.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import type { RelationshipManager } from './relationship-manager.js';
+
+const TIME_LOG_FILE = 'time-log.jsonl';
+const TIMER_FILE = 'timer.json';
+
+// Working-time conventions used when converting days and weeks to minutes
+export const HOURS_PER_DAY = 8;
+export const DAYS_PER_WEEK = 5;
+
+const UNIT_MINUTES: Record<string, number> = {
+  w: DAYS_PER_WEEK * HOURS_PER_DAY * 60,
+  d: HOURS_PER_DAY * 60,
+  h: 60,
+  m: 1,
+};
+
+const DURATION_TOKEN =
+  /(\d+(?:\.\d+)?)\s*(weeks?|w|days?|d|hours?|hrs?|h|minutes?|mins?|m)(?![a-z])/gi;
+
+/**
+ * Parse a human duration ("2h30m", "1.5h", "1d 2h", "45 minutes") into minutes
+ */
+export function parseDuration(input: string): number {
+  const text = input.trim().toLowerCase();
+  if (!text) {
+    throw new Error('Duration is empty');
+  }
+
+  let total = 0;
+  let matched = '';
+  for (const match of text.matchAll(DURATION_TOKEN)) {
+    total += parseFloat(match[1]) * UNIT_MINUTES[match[2].charAt(0)];
+    matched += match[0];
+  }
+
+  // Everything apart from separators must have been consumed by a duration token
+  const leftover = text.replace(DURATION_TOKEN, '').replace(/[\s,]|and/g, '');
+  if (!matched || leftover.length > 0) {
+    throw new Error(`Invalid duration: "${input}" (expected e.g. 2h30m, 45m, 1.5h, 1d)`);
+  }
+
+  return Math.round(total);
+}
+
+/**
+ * Try to parse a free-text duration, returning 0 for missing or unparseable values
+ */
+export function parseDurationSafe(input?: string): number {
+  if (!input) return 0;
+  try {
+    return parseDuration(input);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Format minutes as a compact duration ("2h30m", "45m", "0m")
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h${mins}m`;
+}
+
+/**
+ * Get the ISO date (YYYY-MM-DD) of the Monday starting the local calendar week
+ * containing the given date
+ */
+export function getWeekStart(date: string | Date): string {
+  const d = new Date(date);
+  const day = d.getDay();
+  const offset = day === 0 ? -6 : 1 - day;
+  d.setDate(d.getDate() + offset);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Group entries into per-assignee, per-week, per-item timesheet rows.
+ * Time counts towards the item's assignee, whoever logged it.
+ */
+export function buildTimesheet(
+  entries: TimeEntry[],
+  getAssignee: (itemId: string) => string | undefined
+): TimesheetRow[] {
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const assignee = getAssignee(entry.item_id) || 'unassigned';
+    const weekStart = getWeekStart(entry.started_at);
+    const key = `${assignee}|${weekStart}|${entry.item_id}`;
+    const row = rows.get(key) || {
+      assignee,
+      week_start: weekStart,
+      item_id: entry.item_id,
+      minutes: 0,
+      entries: 0,
+    };
+    row.minutes += entry.duration_minutes;
+    row.entries++;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.assignee.localeCompare(b.assignee) ||
+      a.week_start.localeCompare(b.week_start) ||
+      a.item_id.localeCompare(b.item_id)
+  );
+}
+
+export interface TimeEntryFilter {
+  itemIds?: string[];
+  user?: string;
+  since?: string;
+  until?: string;
+}
+
+export class TimeTracker {
+  private logPath: string;
+  private timerPath: string;
+
+  constructor(configDir: string) {
+    this.logPath = path.join(configDir, TIME_LOG_FILE);
+    this.timerPath = path.join(configDir, TIMER_FILE);
+  }
+
+  /**
+   * Get the currently running timer, if any
+   */
+  public getActiveTimer(): ActiveTimer | null {
+    if (!fs.existsSync(this.timerPath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.timerPath, 'utf8')) as ActiveTimer;
+    } catch (error) {
+      throw new Error(
+        `Failed to read running timer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Start a timer for an item (only one timer may run at a time)
+   */
+  public startTimer(itemId: string, user: string, note?: string): ActiveTimer {
+    const running = this.getActiveTimer();
+    if (running) {
+      throw new Error(
+        `A timer is already running for ${running.item_id} (started ${running.started_at})`
+      );
+    }
+
+    const timer: ActiveTimer = {
+      item_id: itemId,
+      user,
+      started_at: new Date().toISOString(),
+      ...(note && { note }),
+    };
+
+    this.ensureDirectoryExists();
+    fs.writeFileSync(this.timerPath, JSON.stringify(timer, null, 2), 'utf8');
+    return timer;
+  }
+
+  /**
+   * Stop the running timer and record it as a time entry
+   */
+  public stopTimer(note?: string, now: Date = new Date()): TimeEntry {
+    const timer = this.getActiveTimer();
+    if (!timer) {
+      throw new Error('No timer is running');
+    }
+
+    const minutes = (now.getTime() - new Date(timer.started_at).getTime()) / 60000;
+    const notes = [timer.note, note].filter(Boolean).join(' - ');
+
+    const entry = this.appendEntry({
+      item_id: timer.item_id,
+      user: timer.user,
+      started_at: timer.started_at,
+      ended_at: now.toISOString(),
+      duration_minutes: Math.max(1, Math.round(minutes)),
+      source: 'timer',
+      ...(notes && { note: notes }),
+    });
+
+    fs.unlinkSync(this.timerPath);
+    return entry;
+  }
+
+  /**
+   * Discard the running timer without recording anything
+   */
+  public cancelTimer(): ActiveTimer | null {
+    const timer = this.getActiveTimer();
+    if (timer) {
+      fs.unlinkSync(this.timerPath);
+    }
+    return timer;
+  }
+
+  /**
+   * Record a manual time entry ending at the given date (defaults to now)
+   */
+  public logTime(
+    itemId: string,
+    minutes: number,
+    user: string,
+    options: { note?: string; date?: string } = {}
+  ): TimeEntry {
+    if (minutes <= 0) {
+      throw new Error('Logged time must be greater than zero');
+    }
+
+    const endedAt = options.date ? new Date(options.date) : new Date();
+    if (Number.isNaN(endedAt.getTime())) {
+      throw new Error(`Invalid date: ${options.date}`);
+    }
+    const startedAt = new Date(endedAt.getTime() - minutes * 60000);
+
+    return this.appendEntry({
+      item_id: itemId,
+      user,
+      started_at: startedAt.toISOString(),
+      ended_at: endedAt.toISOString(),
+      duration_minutes: Math.round(minutes),
+      source: 'manual',
+      ...(options.note && { note: options.note }),
+    });
+  }
+
+  /**
+   * Read entries from the log, optionally filtered
+   */
+  public getEntries(filter: TimeEntryFilter = {}): TimeEntry[] {
+    if (!fs.existsSync(this.logPath)) {
+      return [];
+    }
+
+    const entries: TimeEntry[] = [];
+    const lines = fs.readFileSync(this.logPath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as TimeEntry);
+      } catch {
+        // Skip corrupted lines rather than failing the whole report
+      }
+    }
+
+    return entries.filter((entry) => {
+      if (filter.itemIds && !filter.itemIds.includes(entry.item_id)) return false;
+      if (filter.user && entry.user !== filter.user) return false;
+      if (filter.since && entry.started_at < filter.since) return false;
+      if (filter.until && entry.started_at > filter.until) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Get the item ID plus the IDs of every descendant whose time rolls up into it
+   */
+  public getScopeItemIds(itemId: string, relationshipManager: RelationshipManager): string[] {
+    const item = relationshipManager.getItem(itemId);
+    if (!item) {
+      throw new Error(`Item not found: ${itemId}`);
+    }
+    return [itemId, ...this.getDescendants(item, relationshipManager).map((d) => getItemId(d))];
+  }
+
+  /**
+   * Compute logged and estimated time for an item including all of its descendants
+   */
+  public getRollUp(itemId: string, relationshipManager: RelationshipManager): TimeRollUp {
+    const item = relationshipManager.getItem(itemId);
+    if (!item) {
+      throw new Error(`Item not found: ${itemId}`);
+    }
+
+    const descendants = this.getDescendants(item, relationshipManager);
+    const allIds = [itemId, ...descendants.map((d) => getItemId(d))];
+    const entries = this.getEntries({ itemIds: allIds });
+
+    const own = entries.filter((e) => e.item_id === itemId);
+    // Estimates roll up from the leaves; fall back to the item's own estimate
+    const childEstimates = descendants
+      .filter((d) => 'task_id' in d)
+      .reduce(
+        (sum, d) => sum + parseDurationSafe((d as { time_estimate?: string }).time_estimate),
+        0
+      );
+    const ownEstimate = parseDurationSafe((item as { time_estimate?: string }).time_estimate);
+
+    return {
+      item_id: itemId,
+      logged_minutes: entries.reduce((sum, e) => sum + e.duration_minutes, 0),
+      own_minutes: own.reduce((sum, e) => sum + e.duration_minutes, 0),
+      estimated_minutes: childEstimates > 0 ? childEstimates : ownEstimate,
+      entry_count: entries.length,
+    };
+  }
+
+  /**
+   * Write rolled-up time_logged onto the item and every ancestor (task → issue → epic).
+   * time_spent is left to whoever sets it by hand.
+   */
+  public applyRollUps(itemId: string, relationshipManager: RelationshipManager): string[] {
+    const parser = new FrontmatterParser();
+    const updated: string[] = [];
+
+    let current = relationshipManager.getItem(itemId);
+    while (current) {
+      if ('pr_id' in current) {
+        // PR time counts towards its issue but PRs carry no time fields themselves
+        current = relationshipManager.getItem(current.issue_id);
+        continue;
+      }
+
+      const rollUp = this.getRollUp(getItemId(current), relationshipManager);
+      parser.updateFile(current.file_path, { time_logged: formatDuration(rollUp.logged_minutes) });
+      updated.push(getItemId(current));
+
+      current = this.getParent(current, relationshipManager);
+    }
+
+    relationshipManager.rebuildCache();
+    return updated;
+  }
+
+  private getParent(
+    item: AnyItemData,
+    relationshipManager: RelationshipManager
+  ): AnyItemData | null {
+    if ('task_id' in item) {
+      return relationshipManager.getItem(item.issue_id);
+    }
+    if ('issue_id' in item && item.epic_id) {
+      return relationshipManager.getItem(item.epic_id);
+    }
+    return null;
+  }
+
+  private getDescendants(
+    item: AnyItemData,
+    relationshipManager: RelationshipManager
+  ): AnyItemData[] {
+    if ('task_id' in item || 'pr_id' in item) {
+      return [];
+    }
+
+    if ('issue_id' in item) {
+      const hierarchy = relationshipManager.getIssueHierarchy(item.issue_id);
+      return hierarchy ? [...hierarchy.tasks, ...hierarchy.prs] : [];
+    }
+
+    if ('epic_id' in item) {
+      const hierarchy = relationshipManager.getEpicHierarchy(item.epic_id);
+      if (!hierarchy) return [];
+      // Tasks and PRs are attributed through their issue so that items whose
+      // epic_id was never filled in are still counted
+      const issueIds = new Set(hierarchy.issues.map((i) => i.issue_id));
+      const children: AnyItemData[] = [...hierarchy.issues];
+      for (const issue of hierarchy.issues) {
+        children.push(...this.getDescendants(issue, relationshipManager));
+      }
+      for (const extra of [...hierarchy.tasks, ...hierarchy.prs]) {
+        if (!issueIds.has(extra.issue_id)) children.push(extra);
+      }
+      return children;
+    }
+
+    return [];
+  }
+
+  private appendEntry(entry: Omit<TimeEntry, 'id' | 'logged_at'>): TimeEntry {
+    const full: TimeEntry = {
+      id: `TE-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      ...entry,
+      logged_at: new Date().toISOString(),
+    };
+
+    this.ensureDirectoryExists();
+    fs.appendFileSync(this.logPath, `${JSON.stringify(full)}\n`, 'utf8');
+    return full;
+  }
+
+  private ensureDirectoryExists(): void {
+    const dir = path.dirname(this.logPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+}
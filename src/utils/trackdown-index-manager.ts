@@ -24,6 +24,7 @@ import type {
   TaskData,
 } from '../types/ai-trackdown.js';
 import { FrontmatterParser } from './frontmatter-parser.js';
+import { renameJournaled } from './journaled-fs.js';
 import { type ProjectDetectionResult, ProjectDetector } from './project-detector.js';
 import { UnifiedPathResolver } from './unified-path-resolver.js';
 import { TicketComplianceFixer } from './ticket-compliance-fixer.js';
@@ -265,7 +266,7 @@ export class TrackdownIndexManager {
       await writeFile(tempPath, indexContent, 'utf8');
 
       // Rename temp file to final location (atomic operation)
-      fs.renameSync(tempPath, this.indexPath);
+      renameJournaled(tempPath, this.indexPath);
 
       // Update cache
       this.cachedIndex = index;
@@ -906,6 +907,10 @@ export class TrackdownIndexManager {
    */
   private async checkExistingProjects(): Promise<string[]> {
     try {
+      // Called while rebuilding, so a missing index must not start another rebuild
+      if (!(await this.indexExists())) {
+        return [];
+      }
       const index = await this.loadIndex();
       return Object.keys(index.projects);
     } catch (_error) {
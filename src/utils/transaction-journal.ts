@@ -0,0 +1,501 @@
+/**
+ * Transaction Journal for AI-Trackdown
+ * Records the files mutating commands change so they can be undone and redone
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { JournalFileChange, JournalTransaction } from '../types/ai-trackdown.js';
+import { ConfigManager } from './config-manager.js';
+import { Formatter } from './formatter.js';
+import { setBeforeWriteRecorder } from './journaled-fs.js';
+import type { UnifiedPaths } from './unified-path-resolver.js';
+
+const JOURNAL_DIR = 'journal';
+const STACK_FILE = 'stack.json';
+const PENDING_LOG_SUFFIX = '.before.jsonl';
+const INDEX_FILE_NAME = '.ai-trackdown-index';
+const COUNTERS_FILE = 'counters.json';
+const ITEM_ID_PATTERN = /^[A-Z]+-\d+$/;
+const ITEM_FILE_PATTERN = /^([A-Z]+-\d+)[-.]/;
+
+// Number of transactions kept on the undo stack
+export const MAX_JOURNAL_ENTRIES = 50;
+
+// Commands (by full subcommand path) that modify items and are recorded for undo
+export const JOURNALED_COMMANDS = new Set([
+  'epic create',
+  'epic update',
+  'epic complete',
+  'epic delete',
+  'issue create',
+  'issue update',
+  'issue complete',
+  'issue assign',
+  'issue close',
+  'issue reopen',
+  'issue delete',
+  'task create',
+  'task update',
+  'task complete',
+  'task delete',
+  'pr create',
+  'pr update',
+  'pr review',
+  'pr approve',
+  'pr merge',
+  'pr close',
+  'pr batch',
+  'pr archive',
+  'comment add',
+  'comment update',
+  'comment delete',
+  'comment move',
+  'state update',
+  'state batch-update',
+  'resolve engineering',
+  'resolve qa',
+  'resolve deployment',
+  'resolve done',
+  'resolve reject',
+  'resolve batch-engineering',
+  'resolve batch-qa',
+  'resolve batch-deployment',
+  'sprint create',
+  'sprint add',
+  'sprint remove',
+  'sprint start',
+  'sprint close',
+  'milestone create',
+  'milestone close',
+  'recur run',
+  'sync pull',
+  'sync resolve',
+  'import',
+  'graph export', // Only changes files with --embed
+  'commits scan',
+]);
+
+interface JournalStack {
+  undo: string[]; // Oldest first
+  redo: string[]; // Most recently undone last
+}
+
+export interface JournalApplyOptions {
+  force?: boolean; // Overwrite files that changed after the transaction
+  dryRun?: boolean;
+}
+
+export interface JournalApplyResult {
+  transaction: JournalTransaction;
+  restored: string[];
+  conflicts: string[];
+}
+
+type JournalPaths = Pick<
+  UnifiedPaths,
+  'projectRoot' | 'configDir' | 'tasksRoot' | 'epicsDir' | 'issuesDir' | 'tasksDir' | 'prsDir'
+> &
+  Partial<Pick<UnifiedPaths, 'sprintsDir' | 'milestonesDir'>>;
+
+/**
+ * Start a transaction for a CLI command if it is one that modifies items.
+ * Returns a function that commits it, or null when the command is not journaled.
+ */
+export function beginCommandTransaction(
+  commandPath: string,
+  args: string[],
+  cliTasksDir?: string
+): (() => void) | null {
+  if (!JOURNALED_COMMANDS.has(commandPath)) {
+    return null;
+  }
+
+  let journal: TransactionJournal;
+  try {
+    journal = new TransactionJournal(new ConfigManager().getAbsolutePaths(cliTasksDir));
+  } catch {
+    // Not inside a project; the command itself will report the problem
+    return null;
+  }
+
+  const itemIds = args.filter((arg) => ITEM_ID_PATTERN.test(arg));
+  const transaction = journal.begin(`${commandPath} ${args.join(' ')}`.trim(), itemIds);
+  return () => {
+    try {
+      journal.commit(transaction);
+    } catch (error) {
+      console.error(
+        Formatter.warning(
+          `Failed to record undo journal: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+    }
+  };
+}
+
+export class TransactionJournal {
+  private projectRoot: string;
+  private journalDir: string;
+  private trackedDirs: string[];
+  private trackedFiles: string[];
+
+  constructor(paths: JournalPaths) {
+    this.projectRoot = paths.projectRoot;
+    this.journalDir = path.join(paths.configDir, JOURNAL_DIR);
+    this.trackedDirs = [
+      paths.epicsDir,
+      paths.issuesDir,
+      paths.tasksDir,
+      paths.prsDir,
+      ...(paths.sprintsDir ? [paths.sprintsDir] : []),
+      ...(paths.milestonesDir ? [paths.milestonesDir] : []),
+    ];
+    this.trackedFiles = [
+      path.join(paths.tasksRoot, INDEX_FILE_NAME),
+      path.join(paths.configDir, COUNTERS_FILE),
+    ];
+  }
+
+  /**
+   * Start recording a command. Item files, the index and ID counters are read only
+   * as the command first writes each of them, and the journal is left untouched
+   * until then. Before-images are logged to disk as they are taken so a crashed
+   * command can still be undone.
+   */
+  public begin(command: string, itemIds: string[] = []): JournalTransaction {
+    const transaction: JournalTransaction = {
+      id: `TX-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      command,
+      user: process.env.USER || 'system',
+      timestamp: new Date().toISOString(),
+      item_ids: itemIds,
+      status: 'pending',
+      files: [],
+    };
+
+    setBeforeWriteRecorder((files) => this.recordBeforeImages(transaction, files));
+    return transaction;
+  }
+
+  /**
+   * Record the outcome of a command, keeping only the files it changed.
+   * Transactions that changed nothing are dropped from the journal.
+   */
+  public commit(transaction: JournalTransaction, itemIds?: string[]): JournalTransaction | null {
+    setBeforeWriteRecorder(null);
+    if (!transaction.snapshot) {
+      // Nothing tracked was written, so the journal was never touched
+      return null;
+    }
+
+    this.finalize(transaction);
+    if (itemIds) {
+      transaction.item_ids = itemIds;
+    }
+
+    const stack = this.readStack();
+    if (transaction.files.length === 0) {
+      stack.undo = stack.undo.filter((id) => id !== transaction.id);
+      this.writeStack(stack);
+      this.deleteTransaction(transaction.id);
+      return null;
+    }
+
+    // A new change invalidates anything that was undone before it
+    for (const id of stack.redo) {
+      this.deleteTransaction(id);
+    }
+    stack.redo = [];
+
+    while (stack.undo.length > MAX_JOURNAL_ENTRIES) {
+      const dropped = stack.undo.shift();
+      if (dropped) this.deleteTransaction(dropped);
+    }
+
+    this.writeTransaction(transaction);
+    this.writeStack(stack);
+    return transaction;
+  }
+
+  /**
+   * Restore the files touched by the most recent transaction
+   */
+  public undo(options: JournalApplyOptions = {}): JournalApplyResult {
+    const stack = this.readStack();
+    // A command that never committed (e.g. it exited early) is undone as of its current result
+    if (this.recoverPending(stack)) {
+      this.writeStack(stack);
+    }
+
+    const id = stack.undo[stack.undo.length - 1];
+    if (!id) {
+      throw new Error('Nothing to undo');
+    }
+
+    const result = this.apply(this.readTransaction(id), 'before', options);
+    if (result.restored.length > 0) {
+      stack.undo.pop();
+      stack.redo.push(id);
+      this.writeStack(stack);
+    }
+    return result;
+  }
+
+  /**
+   * Reapply the most recently undone transaction
+   */
+  public redo(options: JournalApplyOptions = {}): JournalApplyResult {
+    const stack = this.readStack();
+    const id = stack.redo[stack.redo.length - 1];
+    if (!id) {
+      throw new Error('Nothing to redo');
+    }
+
+    const result = this.apply(this.readTransaction(id), 'after', options);
+    if (result.restored.length > 0) {
+      stack.redo.pop();
+      stack.undo.push(id);
+      this.writeStack(stack);
+    }
+    return result;
+  }
+
+  /**
+   * List the most recent undoable transactions, newest first
+   */
+  public list(limit = 10): JournalTransaction[] {
+    return this.readStack()
+      .undo.slice(-limit)
+      .reverse()
+      .map((id) => this.readTransaction(id));
+  }
+
+  /**
+   * List transactions that can be redone, next redo first
+   */
+  public listRedo(limit = 10): JournalTransaction[] {
+    return this.readStack()
+      .redo.slice(-limit)
+      .reverse()
+      .map((id) => this.readTransaction(id));
+  }
+
+  /**
+   * Close out a transaction left pending by a command that exited early, so its
+   * diff is not widened by changes made afterwards. Returns true when the stack changed.
+   */
+  private recoverPending(stack: JournalStack): boolean {
+    const id = stack.undo[stack.undo.length - 1];
+    if (!id) return false;
+
+    const transaction = this.readTransaction(id);
+    if (transaction.status !== 'pending') return false;
+
+    transaction.snapshot = this.readBeforeImages(id);
+    this.finalize(transaction);
+    if (transaction.files.length === 0) {
+      stack.undo.pop();
+      this.deleteTransaction(id);
+      return true;
+    }
+    this.writeTransaction(transaction);
+    return false;
+  }
+
+  private finalize(transaction: JournalTransaction): void {
+    const before = transaction.snapshot || {};
+    const changes: JournalFileChange[] = [];
+
+    for (const [file, oldContent] of Object.entries(before)) {
+      const newContent = this.readFile(file);
+      if (oldContent !== newContent) {
+        changes.push({ path: file, before: oldContent, after: newContent });
+      }
+    }
+
+    transaction.files = changes.sort((a, b) => a.path.localeCompare(b.path));
+    transaction.item_ids = [
+      ...new Set([...transaction.item_ids, ...this.getChangedItemIds(transaction.files)]),
+    ];
+    transaction.status = 'committed';
+    delete transaction.snapshot;
+    this.deletePendingLog(transaction.id);
+  }
+
+  /**
+   * Keep the content tracked files had before the command first writes, moves or
+   * removes them. The first such write also opens the transaction on disk.
+   */
+  private recordBeforeImages(transaction: JournalTransaction, files: string[]): void {
+    const snapshot = transaction.snapshot || {};
+    const added = files
+      .filter((file) => this.isTracked(file))
+      .map((absolute) => path.relative(this.projectRoot, absolute))
+      .filter((relative) => !(relative in snapshot));
+    if (added.length === 0) return;
+
+    if (!transaction.snapshot) {
+      this.openPending(transaction);
+      transaction.snapshot = snapshot;
+    }
+
+    for (const relative of new Set(added)) {
+      snapshot[relative] = this.readFile(relative);
+      fs.appendFileSync(
+        this.pendingLogPath(transaction.id),
+        `${JSON.stringify({ path: relative, before: snapshot[relative] })}\n`,
+        'utf8'
+      );
+    }
+  }
+
+  private openPending(transaction: JournalTransaction): void {
+    const stack = this.readStack();
+    this.recoverPending(stack);
+    this.writeTransaction(transaction);
+    stack.undo.push(transaction.id);
+    this.writeStack(stack);
+  }
+
+  private isTracked(file: string): boolean {
+    if (this.trackedFiles.includes(file)) return true;
+
+    return this.trackedDirs.some((dir) => {
+      const relative = path.relative(dir, file);
+      if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        return false;
+      }
+      // Hidden directories hold tool state (e.g. audit history), not items
+      return !relative.split(path.sep).some((part) => part.startsWith('.'));
+    });
+  }
+
+  private getChangedItemIds(files: JournalFileChange[]): string[] {
+    const ids: string[] = [];
+    for (const change of files) {
+      // Item files are named <ID>-<slug>.md; comments and other files are skipped
+      const match = path.basename(change.path).match(ITEM_FILE_PATTERN);
+      if (match) ids.push(match[1]);
+    }
+    return ids;
+  }
+
+  private apply(
+    transaction: JournalTransaction,
+    target: 'before' | 'after',
+    options: JournalApplyOptions
+  ): JournalApplyResult {
+    const expected = target === 'before' ? 'after' : 'before';
+
+    // Refuse to clobber edits made after the transaction unless forced
+    const conflicts = transaction.files
+      .filter((change) => this.readFile(change.path) !== change[expected])
+      .map((change) => change.path);
+
+    if (options.dryRun || (conflicts.length > 0 && !options.force)) {
+      return { transaction, restored: [], conflicts };
+    }
+
+    const restored: string[] = [];
+    for (const change of transaction.files) {
+      const absolute = path.join(this.projectRoot, change.path);
+      const content = change[target];
+      if (content === null) {
+        if (fs.existsSync(absolute)) fs.unlinkSync(absolute);
+      } else {
+        fs.mkdirSync(path.dirname(absolute), { recursive: true });
+        fs.writeFileSync(absolute, content, 'utf8');
+      }
+      restored.push(change.path);
+    }
+
+    return { transaction, restored, conflicts };
+  }
+
+  private readFile(relativePath: string): string | null {
+    const absolute = path.join(this.projectRoot, relativePath);
+    return fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf8') : null;
+  }
+
+  private readStack(): JournalStack {
+    const stackPath = path.join(this.journalDir, STACK_FILE);
+    if (!fs.existsSync(stackPath)) {
+      return { undo: [], redo: [] };
+    }
+    try {
+      const stack = JSON.parse(fs.readFileSync(stackPath, 'utf8')) as Partial<JournalStack>;
+      return { undo: stack.undo || [], redo: stack.redo || [] };
+    } catch (error) {
+      throw new Error(
+        `Failed to read undo journal: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private writeStack(stack: JournalStack): void {
+    this.ensureDirectoryExists();
+    fs.writeFileSync(
+      path.join(this.journalDir, STACK_FILE),
+      JSON.stringify(stack, null, 2),
+      'utf8'
+    );
+  }
+
+  private readTransaction(id: string): JournalTransaction {
+    const file = path.join(this.journalDir, `${id}.json`);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Journal entry missing: ${id}`);
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as JournalTransaction;
+  }
+
+  private writeTransaction(transaction: JournalTransaction): void {
+    // Before-images of a pending transaction live in its log, not in the entry
+    const { snapshot: _snapshot, ...entry } = transaction;
+    this.ensureDirectoryExists();
+    fs.writeFileSync(
+      path.join(this.journalDir, `${transaction.id}.json`),
+      JSON.stringify(entry),
+      'utf8'
+    );
+  }
+
+  private pendingLogPath(id: string): string {
+    return path.join(this.journalDir, `${id}${PENDING_LOG_SUFFIX}`);
+  }
+
+  private readBeforeImages(id: string): Record<string, string | null> {
+    const images: Record<string, string | null> = {};
+    const log = this.pendingLogPath(id);
+    if (!fs.existsSync(log)) return images;
+
+    for (const line of fs.readFileSync(log, 'utf8').split('\n')) {
+      if (!line) continue;
+      const image = JSON.parse(line) as { path: string; before: string | null };
+      images[image.path] ??= image.before;
+    }
+    return images;
+  }
+
+  private deletePendingLog(id: string): void {
+    const log = this.pendingLogPath(id);
+    if (fs.existsSync(log)) {
+      fs.unlinkSync(log);
+    }
+  }
+
+  private deleteTransaction(id: string): void {
+    const file = path.join(this.journalDir, `${id}.json`);
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+    this.deletePendingLog(id);
+  }
+
+  private ensureDirectoryExists(): void {
+    if (!fs.existsSync(this.journalDir)) {
+      fs.mkdirSync(this.journalDir, { recursive: true });
+    }
+  }
+}
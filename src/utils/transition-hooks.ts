@@ -0,0 +1,285 @@
+/**
+ * Transition Hooks for AI-Trackdown
+ * Runs configured shell commands and built-in actions when items change state
+ */
+
+import { spawnSync } from 'node:child_process';
+import type {
+  AnyFrontmatter,
+  AnyItemData,
+  ItemType,
+  ProjectConfig,
+  TransitionHookConfig,
+  UnifiedState,
+} from '../types/ai-trackdown.js';
+import { StateManager, StateTransition } from '../types/ai-trackdown.js';
+import { Formatter } from './formatter.js';
+import { FrontmatterParser } from './frontmatter-parser.js';
+import { HistoryLog } from './history-log.js';
+import { createComment } from './index.js';
+import { RelationshipManager } from './relationship-manager.js';
+import type { UnifiedPaths } from './unified-path-resolver.js';
+
+const DEFAULT_HOOK_TIMEOUT = 30000;
+
+export interface TransitionContext {
+  itemId: string;
+  itemType: ItemType;
+  from: string;
+  to: string;
+  user: string;
+  reason?: string;
+}
+
+export interface HookResult {
+  hook: string;
+  success: boolean;
+  message?: string;
+  vetoed?: boolean;
+}
+
+/**
+ * Render a hook result as a single status line
+ */
+export function formatHookResult(result: HookResult): string {
+  const text = `Hook ${result.hook}${result.message ? `: ${result.message}` : ''}`;
+  if (result.vetoed) return Formatter.error(`${text} (transition vetoed)`);
+  return result.success ? Formatter.success(text) : Formatter.warning(text);
+}
+
+export class TransitionHookRunner {
+  private config: ProjectConfig;
+  private projectRoot: string;
+  private tasksRoot: string;
+  private cliTasksDir?: string;
+
+  constructor(
+    config: ProjectConfig,
+    paths: Pick<UnifiedPaths, 'projectRoot' | 'tasksRoot'>,
+    cliTasksDir?: string
+  ) {
+    this.config = config;
+    this.projectRoot = paths.projectRoot;
+    this.tasksRoot = paths.tasksRoot;
+    this.cliTasksDir = cliTasksDir;
+  }
+
+  /**
+   * Gets the hooks configured for a transition
+   */
+  public getHooks(context: TransitionContext): TransitionHookConfig[] {
+    const matches = (value: string | string[] | undefined, state: string) =>
+      value === undefined || (Array.isArray(value) ? value : [value]).includes(state);
+
+    return (this.config.hooks || []).filter(
+      (hook) =>
+        matches(hook.on, context.to) &&
+        matches(hook.from, context.from) &&
+        (!hook.types || hook.types.includes(context.itemType))
+    );
+  }
+
+  /**
+   * Run shell command hooks before the transition is saved. A result marked
+   * as vetoed means the transition must not go ahead.
+   */
+  public runBefore(item: AnyItemData, context: TransitionContext): HookResult[] {
+    const { content: _content, file_path: _filePath, ...frontmatter } = item;
+
+    return this.getHooks(context)
+      .filter((hook) => hook.run)
+      .map((hook) => {
+        const command = hook.run as string;
+        const result = spawnSync(command, {
+          cwd: this.projectRoot,
+          shell: true,
+          input: JSON.stringify(frontmatter),
+          encoding: 'utf8',
+          timeout: hook.timeout ?? DEFAULT_HOOK_TIMEOUT,
+          env: {
+            ...process.env,
+            AITRACKDOWN_ITEM_ID: context.itemId,
+            AITRACKDOWN_ITEM_TYPE: context.itemType,
+            AITRACKDOWN_FROM_STATE: context.from,
+            AITRACKDOWN_TO_STATE: context.to,
+            AITRACKDOWN_USER: context.user,
+          },
+        });
+
+        if (result.status !== 0) {
+          const output = (result.stderr || result.stdout || '').trim();
+          // Scripts that ignore stdin can cause EPIPE, so prefer the exit code when there is one
+          const reason =
+            result.status !== null
+              ? `exited with code ${result.status}`
+              : result.error?.message || `killed by ${result.signal}`;
+          return {
+            hook: command,
+            success: false,
+            message: output ? `${reason}: ${output}` : reason,
+            vetoed: hook.veto !== false,
+          };
+        }
+
+        const output = (result.stdout || '').trim();
+        return { hook: command, success: true, ...(output && { message: output }) };
+      });
+  }
+
+  /**
+   * Run built-in actions after the transition is saved. Failures are reported
+   * but do not undo the transition.
+   */
+  public async runAfter(item: AnyItemData, context: TransitionContext): Promise<HookResult[]> {
+    const results: HookResult[] = [];
+    // Actions update this copy so each one sees the changes of those before it
+    const current = { ...item };
+
+    for (const hook of this.getHooks(context)) {
+      if (!hook.action) continue;
+      try {
+        results.push({
+          hook: hook.action,
+          success: true,
+          message: await this.runAction(hook, current, context),
+        });
+      } catch (error) {
+        results.push({
+          hook: hook.action,
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async runAction(
+    hook: TransitionHookConfig,
+    item: AnyItemData,
+    context: TransitionContext
+  ): Promise<string> {
+    switch (hook.action) {
+      case 'assign': {
+        if (!hook.assignee) throw new Error('assign hook needs an assignee');
+        this.updateItem(item, { assignee: hook.assignee }, context);
+        return `assigned ${context.itemId} to ${hook.assignee}`;
+      }
+
+      case 'add_tag': {
+        if (!hook.tag) throw new Error('add_tag hook needs a tag');
+        const tags = ('tags' in item && item.tags) || [];
+        if (tags.includes(hook.tag)) return `${context.itemId} already tagged ${hook.tag}`;
+        this.updateItem(item, { tags: [...tags, hook.tag] }, context);
+        return `tagged ${context.itemId} with ${hook.tag}`;
+      }
+
+      case 'comment': {
+        if (!hook.body) throw new Error('comment hook needs a body');
+        if (context.itemType !== 'issue') {
+          throw new Error(`comments are only supported on issues, not ${context.itemType}s`);
+        }
+        const comment = await createComment(
+          this.projectRoot,
+          context.itemId,
+          this.renderTemplate(hook.body, item, context),
+          { author: context.user, source: `hook on ${context.to}`, tasksRoot: this.tasksRoot }
+        );
+        return `posted ${comment.id} on ${context.itemId}`;
+      }
+
+      case 'cascade':
+        return this.cascade(context, (hook.state || context.to) as UnifiedState);
+
+      default:
+        throw new Error(`Unknown hook action: ${hook.action}`);
+    }
+  }
+
+  /**
+   * Move the children of an item (issues of an epic, tasks of an issue) to a state.
+   * Children that cannot make the transition are skipped and reported.
+   */
+  private cascade(context: TransitionContext, state: UnifiedState): string {
+    const relationshipManager = new RelationshipManager(
+      this.config,
+      this.projectRoot,
+      this.cliTasksDir
+    );
+    const history = new HistoryLog(this.tasksRoot);
+    const parser = new FrontmatterParser();
+
+    const children: Array<{ id: string; child: AnyItemData }> = [];
+    if (context.itemType === 'epic') {
+      const hierarchy = relationshipManager.getEpicHierarchy(context.itemId);
+      for (const issue of hierarchy?.issues || [])
+        children.push({ id: issue.issue_id, child: issue });
+      for (const task of hierarchy?.tasks || []) children.push({ id: task.task_id, child: task });
+    } else if (context.itemType === 'issue') {
+      const hierarchy = relationshipManager.getIssueHierarchy(context.itemId);
+      for (const task of hierarchy?.tasks || []) children.push({ id: task.task_id, child: task });
+    }
+
+    const moved: string[] = [];
+    const skipped: string[] = [];
+    for (const { id, child } of children) {
+      if (StateManager.getEffectiveState(child) === state) continue;
+
+      const result = StateTransition.transitionState(
+        child,
+        state,
+        context.user,
+        `Cascaded from ${context.itemId}`
+      );
+      if (!result.success) {
+        skipped.push(`${id} (${result.errors.join('; ')})`);
+        continue;
+      }
+
+      const updated = parser.updateFile(child.file_path, {
+        state: result.item.state,
+        state_metadata: result.item.state_metadata,
+        updated_date: result.item.updated_date,
+      });
+      history.recordDiff(id, 'state_change', child, updated, {
+        source: `hook cascade from ${context.itemId}`,
+        author: context.user,
+      });
+      moved.push(id);
+    }
+
+    if (skipped.length > 0) {
+      throw new Error(
+        `moved ${moved.length} children to ${state}; could not move ${skipped.join(', ')}`
+      );
+    }
+    return moved.length > 0
+      ? `moved ${moved.join(', ')} to ${state}`
+      : `no children to move to ${state}`;
+  }
+
+  private updateItem(
+    item: AnyItemData,
+    updates: Partial<AnyFrontmatter>,
+    context: TransitionContext
+  ): void {
+    const updated = new FrontmatterParser().updateFile(item.file_path, updates);
+    new HistoryLog(this.tasksRoot).recordDiff(context.itemId, 'update', item, updated, {
+      source: `hook on ${context.to}`,
+      author: context.user,
+    });
+    Object.assign(item, updated);
+  }
+
+  private renderTemplate(template: string, item: AnyItemData, context: TransitionContext): string {
+    const values: Record<string, string> = {
+      id: context.itemId,
+      title: item.title,
+      from: context.from,
+      to: context.to,
+      user: context.user,
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+  }
+}
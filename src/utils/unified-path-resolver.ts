@@ -16,6 +16,8 @@ export interface UnifiedPaths {
   issuesDir: string; // {tasksRoot}/issues/
   tasksDir: string; // {tasksRoot}/tasks/
   prsDir: string; // {tasksRoot}/prs/
+  sprintsDir: string; // {tasksRoot}/sprints/
+  milestonesDir: string; // {tasksRoot}/milestones/
   templatesDir: string; // {tasksRoot}/templates/
 }
 
@@ -76,6 +78,12 @@ export class UnifiedPathResolver {
       issuesDir: join(this.projectRoot, tasksRoot, this.config.structure.issues_dir),
       tasksDir: join(this.projectRoot, tasksRoot, this.config.structure.tasks_dir),
       prsDir: join(this.projectRoot, tasksRoot, this.config.structure.prs_dir || 'prs'),
+      sprintsDir: join(this.projectRoot, tasksRoot, this.config.structure.sprints_dir || 'sprints'),
+      milestonesDir: join(
+        this.projectRoot,
+        tasksRoot,
+        this.config.structure.milestones_dir || 'milestones'
+      ),
       templatesDir: join(this.projectRoot, tasksRoot, this.config.structure.templates_dir),
     };
   }
@@ -6,6 +6,7 @@
 
 import type { EpicData, IssueData, ProjectConfig, TaskData } from '../types/ai-trackdown.js';
 import { ConfigManager } from './config-manager.js';
+import { isOverdue } from './due-dates.js';
 import { Formatter } from './formatter.js';
 import { RelationshipManager } from './relationship-manager.js';
 
@@ -34,6 +35,8 @@ export interface TicketHealthMetrics {
     updatedLastWeek: number;
     createdLastWeek: number;
   };
+  // Open items (including PRs) past their due date or SLA
+  overdue: number;
   completionRate: number;
   lastUpdated: Date;
 }
@@ -162,6 +165,11 @@ export class UniversalTicketingInterface {
       }
     }
 
+    const now = new Date();
+    const overdue = [...allItems, ...this.relationshipManager.getAllPRs()].filter((item) =>
+      isOverdue(item, now)
+    ).length;
+
     const completionRate =
       allItems.length > 0 ? Math.round((statusBreakdown.completed / allItems.length) * 100) : 0;
 
@@ -173,6 +181,7 @@ export class UniversalTicketingInterface {
         updatedLastWeek,
         createdLastWeek,
       },
+      overdue,
       completionRate,
       lastUpdated: new Date(),
     };
@@ -217,6 +226,7 @@ export class UniversalTicketingInterface {
     console.log(
       `   🔄 Recent Activity: ${metrics.recentActivity.updatedLastWeek} updated, ${metrics.recentActivity.createdLastWeek} created (last 7 days)`
     );
+    console.log(`   ⏳ Overdue: ${metrics.overdue}`);
     console.log(`   ⏰ Last Updated: ${metrics.lastUpdated.toLocaleString()}`);
     console.log('');
 
@@ -245,6 +255,11 @@ export class UniversalTicketingInterface {
       alerts.push(`🚨 High number of critical items: ${metrics.priorityBreakdown.critical}`);
     }
 
+    // Check for items past their due date or SLA
+    if (metrics.overdue > 0) {
+      alerts.push(`⏳ Overdue items: ${metrics.overdue} (see aitrackdown due --overdue)`);
+    }
+
     // Check for stale items (low recent activity)
     if (metrics.recentActivity.updatedLastWeek < Math.ceil(metrics.counts.total * 0.1)) {
       alerts.push(
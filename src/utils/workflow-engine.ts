@@ -0,0 +1,235 @@
+/**
+ * Workflow Engine for AI-Trackdown
+ * Resolves the states, transitions, required roles and required fields configured
+ * per item type in config.yaml, falling back to the built-in workflow
+ */
+
+import type {
+  AnyItemData,
+  ProjectConfig,
+  StateValidationResult,
+  StateValidationRule,
+  UnifiedState,
+  WorkflowConfig,
+  WorkflowsConfig,
+  WorkflowTransitionConfig,
+  WorkflowType,
+} from '../types/ai-trackdown.js';
+
+export interface ResolvedWorkflow {
+  states: string[];
+  transitions: StateValidationRule[];
+  required_fields: Record<string, string[]>;
+}
+
+export const DEFAULT_WORKFLOW: Required<WorkflowConfig> = {
+  states: [
+    'planning',
+    'active',
+    'completed',
+    'archived',
+    'ready_for_engineering',
+    'ready_for_qa',
+    'ready_for_deployment',
+    'won_t_do',
+    'done',
+  ],
+  transitions: [
+    // Engineering workflow
+    { from: ['planning', 'active'], to: 'ready_for_engineering', automation_eligible: true },
+    { from: 'ready_for_engineering', to: 'active' },
+    { from: 'ready_for_engineering', to: 'ready_for_qa', automation_eligible: true },
+
+    // QA workflow
+    { from: 'ready_for_qa', to: 'active' },
+    { from: 'ready_for_qa', to: 'ready_for_deployment', automation_eligible: true },
+    { from: 'ready_for_qa', to: 'ready_for_engineering' },
+
+    // Deployment workflow
+    { from: 'ready_for_deployment', to: 'done', automation_eligible: true },
+    { from: 'ready_for_deployment', to: 'ready_for_qa' },
+
+    // Terminal states
+    { from: ['done', 'won_t_do'], to: 'archived', automation_eligible: true },
+
+    // Universal transitions
+    {
+      from: ['planning', 'active', 'ready_for_engineering', 'ready_for_qa', 'ready_for_deployment'],
+      to: 'won_t_do',
+    },
+  ],
+  required_fields: {},
+};
+
+export const DEFAULT_PR_STATUS_WORKFLOW: Required<WorkflowConfig> = {
+  states: ['draft', 'open', 'review', 'approved', 'merged', 'closed'],
+  transitions: [
+    { from: 'draft', to: 'open' },
+    { from: 'open', to: 'draft' },
+    { from: 'open', to: 'review' },
+    { from: ['open', 'review'], to: 'approved' },
+    { from: 'review', to: 'open' },
+    { from: 'approved', to: 'review' },
+    { from: ['open', 'approved'], to: 'merged' },
+    { from: ['draft', 'open', 'review', 'approved'], to: 'closed' },
+    // Closed PRs can be reopened; merged PRs are final
+    { from: 'closed', to: 'draft' },
+    { from: 'closed', to: 'open' },
+  ],
+  required_fields: {},
+};
+
+export class WorkflowEngine {
+  private workflows: WorkflowsConfig;
+  private roles: Record<string, string[]>;
+  private cache = new Map<WorkflowType, ResolvedWorkflow>();
+
+  constructor(config: Pick<ProjectConfig, 'workflows' | 'roles'> = {}) {
+    this.workflows = config.workflows || {};
+    this.roles = config.roles || {};
+  }
+
+  /**
+   * Resolve the workflow for an item type. Fields not set for the type come from
+   * the configured default workflow, then from the built-in one.
+   */
+  public getWorkflow(type: WorkflowType = 'default'): ResolvedWorkflow {
+    const cached = this.cache.get(type);
+    if (cached) return cached;
+
+    const layers: WorkflowConfig[] =
+      type === 'pr_status'
+        ? [DEFAULT_PR_STATUS_WORKFLOW, this.workflows.pr_status || {}]
+        : [DEFAULT_WORKFLOW, this.workflows.default || {}, this.workflows[type] || {}];
+    const merged = layers.reduce<WorkflowConfig>(
+      (acc, layer) => ({
+        states: layer.states || acc.states,
+        transitions: layer.transitions || acc.transitions,
+        required_fields: layer.required_fields || acc.required_fields,
+      }),
+      {}
+    );
+
+    const states = [...(merged.states || [])];
+    const transitions: StateValidationRule[] = [];
+    for (const transition of merged.transitions || []) {
+      for (const from of this.expandFrom(transition, states)) {
+        transitions.push({
+          from_state: from as UnifiedState,
+          to_state: transition.to as UnifiedState,
+          automation_eligible: transition.automation_eligible ?? false,
+          ...(transition.required_role && { required_role: transition.required_role }),
+        });
+      }
+    }
+
+    // States only mentioned in transitions are still part of the workflow
+    for (const rule of transitions) {
+      if (!states.includes(rule.from_state)) states.push(rule.from_state);
+      if (!states.includes(rule.to_state)) states.push(rule.to_state);
+    }
+
+    const resolved = { states, transitions, required_fields: merged.required_fields || {} };
+    this.cache.set(type, resolved);
+    return resolved;
+  }
+
+  /**
+   * Gets the states that can be reached from a state
+   */
+  public getAllowedTransitions(fromState: string, type: WorkflowType = 'default'): UnifiedState[] {
+    return this.getWorkflow(type)
+      .transitions.filter((rule) => rule.from_state === fromState)
+      .map((rule) => rule.to_state);
+  }
+
+  /**
+   * Validates a transition against the workflow and the roles of the user making it
+   */
+  public validateTransition(
+    fromState: string,
+    toState: string,
+    type: WorkflowType = 'default',
+    userRoles?: string | string[]
+  ): StateValidationResult {
+    const workflow = this.getWorkflow(type);
+    const allowed = this.getAllowedTransitions(fromState, type);
+
+    if (!workflow.states.includes(toState)) {
+      return {
+        valid: false,
+        errors: [`Unknown state for ${type} workflow: ${toState}`],
+        warnings: [],
+        allowed_transitions: allowed,
+      };
+    }
+
+    const rule = workflow.transitions.find(
+      (r) => r.from_state === fromState && r.to_state === toState
+    );
+    if (!rule) {
+      return {
+        valid: false,
+        errors: [`Invalid transition from ${fromState} to ${toState}`],
+        warnings: [],
+        allowed_transitions: allowed,
+      };
+    }
+
+    const roles = Array.isArray(userRoles) ? userRoles : userRoles ? [userRoles] : [];
+    if (rule.required_role && !roles.includes(rule.required_role)) {
+      return {
+        valid: false,
+        errors: [`Transition requires role: ${rule.required_role}`],
+        warnings: [],
+        allowed_transitions: allowed,
+      };
+    }
+
+    return {
+      valid: true,
+      errors: [],
+      warnings: rule.automation_eligible ? [] : ['Manual transition - automation not recommended'],
+      allowed_transitions: allowed,
+    };
+  }
+
+  /**
+   * Gets the roles configured for a user
+   */
+  public getUserRoles(user: string): string[] {
+    return this.roles[user] || [];
+  }
+
+  /**
+   * Lists the fields required on entering a state that the item does not have.
+   * Fields are looked up on the item first, then on its state metadata.
+   */
+  public getMissingFields(
+    item: AnyItemData,
+    state: string,
+    type: WorkflowType = 'default'
+  ): string[] {
+    const required = this.getWorkflow(type).required_fields[state] || [];
+    const record = item as unknown as Record<string, unknown>;
+    const metadata = (item.state_metadata || {}) as unknown as Record<string, unknown>;
+
+    return required.filter((field) => {
+      const value = record[field] ?? metadata[field];
+      return (
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0)
+      );
+    });
+  }
+
+  private expandFrom(transition: WorkflowTransitionConfig, states: string[]): string[] {
+    const sources = Array.isArray(transition.from) ? transition.from : [transition.from];
+    if (sources.includes('*')) {
+      return states.filter((state) => state !== transition.to);
+    }
+    return sources;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Tests for the local API server: item CRUD through the CLI write paths,
+ * search, hierarchy, comments and server-sent change events
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as http from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TrackdownApiServer } from '../src/utils/api-server.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+
+describe('TrackdownApiServer', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let server: TrackdownApiServer;
+  let baseUrl: string;
+
+  const request = async (method: string, route: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Trackdown-User': 'dashboard' },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'api-server-test-'));
+    originalCwd = process.cwd();
+    // Item IDs come from counters in the working directory, as in the CLI
+    process.chdir(tempDir);
+
+    const configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('api-test');
+    server = new TrackdownApiServer(configManager, { port: 0 });
+    const address = await server.start();
+    baseUrl = `http://127.0.0.1:${address.port}/api`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates, updates and deletes items with the CLI validation and linking', async () => {
+    const epic = await request('POST', '/epics', { title: 'Checkout' });
+    expect(epic.status).toBe(201);
+    expect(epic.body).toMatchObject({ epic_id: 'EP-0001', status: 'planning' });
+
+    const issue = await request('POST', '/issues', {
+      title: 'Card payments',
+      epic_id: 'EP-0001',
+      tags: 'payments, bug',
+      due_date: '2026-11-02',
+    });
+    expect(issue.status).toBe(201);
+    expect(issue.body).toMatchObject({
+      issue_id: 'ISS-0001',
+      epic_id: 'EP-0001',
+      tags: ['payments', 'bug'],
+      due_date: '2026-11-02',
+    });
+
+    const task = await request('POST', '/tasks', { title: 'Stripe client', issue_id: 'ISS-0001' });
+    expect(task.body).toMatchObject({ task_id: 'TSK-0001', epic_id: 'EP-0001' });
+
+    const hierarchy = await request('GET', '/epics/EP-0001/hierarchy');
+    expect(hierarchy.body.epic.related_issues).toEqual(['ISS-0001']);
+    expect(hierarchy.body.tasks.map((t: { task_id: string }) => t.task_id)).toEqual(['TSK-0001']);
+    const issueTree = await request('GET', '/issues/ISS-0001/hierarchy');
+    expect(issueTree.body.issue.related_tasks).toEqual(['TSK-0001']);
+
+    const updated = await request('PATCH', '/issues/ISS-0001', {
+      state: 'ready_for_engineering',
+      reason: 'Picked up',
+      priority: 'high',
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ state: 'ready_for_engineering', priority: 'high' });
+    expect(updated.body.content).toContain('**Reason**: Picked up');
+    const history = readFileSync(
+      join(tempDir, 'tasks', '.ai-trackdown-history', 'ISS-0001.jsonl'),
+      'utf8'
+    );
+    expect(history).toContain('"author":"dashboard"');
+
+    expect((await request('PATCH', '/issues/ISS-0001', { priority: 'urgent' })).status).toBe(400);
+    expect((await request('POST', '/tasks', { title: 'Orphan' })).status).toBe(400);
+    expect((await request('POST', '/issues', { title: 'x', epic_id: 'EP-0099' })).status).toBe(404);
+    expect((await request('GET', '/tasks/ISS-0001')).status).toBe(404);
+
+    const refused = await request('DELETE', '/issues/ISS-0001');
+    expect(refused.status).toBe(400);
+    expect(refused.body.error).toContain('without recursive');
+
+    const deleted = await request('DELETE', '/issues/ISS-0001?recursive=true');
+    expect(deleted.body.deleted).toEqual(['ISS-0001', 'TSK-0001']);
+    expect((await request('GET', '/issues/ISS-0001')).status).toBe(404);
+  });
+
+  it('lists from the index and searches with the query syntax', async () => {
+    await request('POST', '/issues', { title: 'Login fails', tags: ['bug'], assignee: 'alice' });
+    await request('POST', '/issues', { title: 'Dark mode', tags: ['feature'] });
+    await request('POST', '/issues', { title: 'Old login bug', tags: ['bug'], state: 'done' });
+
+    const list = await request('GET', '/issues?assignee=alice');
+    expect(list.body.total).toBe(1);
+    expect(list.body.items[0]).toMatchObject({ id: 'ISS-0001', title: 'Login fails' });
+
+    const paged = await request('GET', '/issues?limit=2&offset=2');
+    expect(paged.body).toMatchObject({ total: 3, limit: 2, offset: 2 });
+    expect(paged.body.items).toHaveLength(1);
+
+    const search = await request(
+      'GET',
+      `/search?q=${encodeURIComponent('is:open label:bug login')}`
+    );
+    expect(search.body.items.map((item: { issue_id: string }) => item.issue_id)).toEqual([
+      'ISS-0001',
+    ]);
+
+    const closed = await request('GET', `/search?q=${encodeURIComponent('is:closed')}`);
+    expect(closed.body.total).toBe(1);
+
+    expect((await request('GET', '/search?q=created:yesterday')).status).toBe(400);
+  });
+
+  it('manages comments on issues', async () => {
+    await request('POST', '/issues', { title: 'Discuss' });
+
+    const created = await request('POST', '/issues/ISS-0001/comments', { body: 'First!' });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ issueId: 'ISS-0001', author: 'dashboard' });
+
+    const edited = await request('PATCH', `/issues/ISS-0001/comments/${created.body.id}`, {
+      body: 'Edited',
+    });
+    expect(edited.body).toMatchObject({ body: 'Edited', metadata: { edited: true } });
+
+    const list = await request('GET', '/issues/ISS-0001/comments');
+    expect(list.body.map((comment: { body: string }) => comment.body)).toEqual(['Edited']);
+
+    expect((await request('DELETE', '/issues/ISS-0001/comments/COMMENT-0099')).status).toBe(404);
+    await request('DELETE', `/issues/ISS-0001/comments/${created.body.id}`);
+    expect((await request('GET', '/issues/ISS-0001/comments')).body).toEqual([]);
+  });
+
+  it('refuses requests a cross-site page could send without a preflight', async () => {
+    const plainText = await fetch(`${baseUrl}/issues`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: JSON.stringify({ title: 'Posted by another site' }),
+    });
+    expect(plainText.status).toBe(415);
+
+    const rebound = await new Promise<number | undefined>((resolve, reject) => {
+      const url = new URL(`${baseUrl}/issues`);
+      const req = http.get(
+        {
+          host: url.hostname,
+          port: url.port,
+          path: url.pathname,
+          headers: { Host: 'attacker.example' },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }
+      );
+      req.on('error', reject);
+    });
+    expect(rebound).toBe(403);
+
+    expect((await request('GET', '/issues')).body.total).toBe(0);
+  });
+
+  it('pushes server-sent events for files changed outside the server', async () => {
+    const events: string[] = [];
+    const received = new Promise<void>((resolve, reject) => {
+      const req = http.get(`${baseUrl}/events`, (res) => {
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          events.push(chunk);
+          if (chunk.includes('event: created')) {
+            req.destroy();
+            resolve();
+          }
+        });
+        // Write the file once the stream is open
+        mkdirSync(join(tempDir, 'tasks', 'issues'), { recursive: true });
+        writeFileSync(
+          join(tempDir, 'tasks', 'issues', 'ISS-0042-edited-by-hand.md'),
+          `---
+issue_id: ISS-0042
+title: Edited by hand
+description: ''
+status: active
+priority: low
+assignee: bob
+created_date: 2026-10-19T08:00:00.000Z
+updated_date: 2026-10-19T08:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local
+related_tasks: []
+---
+
+# Edited by hand
+`
+        );
+      });
+      req.on('error', reject);
+    });
+
+    await received;
+    const payload = events.join('').match(/event: created\ndata: (.*)\n/)?.[1];
+    expect(JSON.parse(payload || '{}')).toMatchObject({
+      type: 'created',
+      item_type: 'issue',
+      item_id: 'ISS-0042',
+    });
+
+    // The cache and index pick up the external edit
+    expect((await request('GET', '/issues/ISS-0042')).body.title).toBe('Edited by hand');
+    expect((await request('GET', '/issues')).body.items.map((i: { id: string }) => i.id)).toEqual([
+      'ISS-0042',
+    ]);
+  });
+});
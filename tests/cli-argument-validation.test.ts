@@ -2,6 +2,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { main } from '../src/index.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
 import { CLITestUtils, createMockProject, setupTestEnvironment } from './utils/test-helpers.js';
 
 // Mock external dependencies
@@ -54,6 +55,8 @@ describe('CLI Argument Parsing and Validation Tests', () => {
   beforeEach(() => {
     const testContext = getTestContext();
     createMockProject(testContext.tempDir);
+    // Without its own config the test project resolves to the repository's .ai-trackdown
+    new ConfigManager(testContext.tempDir).initializeProject('cli-test');
   });
 
   describe('Global Options Validation', () => {
@@ -0,0 +1,285 @@
+/**
+ * Tests for syncing comments on synced issues: creation, edits, deletions and
+ * reactions in both directions, against an in-memory sync provider
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubSyncEngine } from '../src/integrations/github-sync.js';
+import {
+  createSyncProvider,
+  type RemoteIssueInput,
+  type RemoteIssueUpdate,
+  type SyncProvider,
+} from '../src/integrations/sync-provider.js';
+import type { GitHubIssue, RemoteComment } from '../src/types/ai-trackdown.js';
+import type { Comment, CommentReactions, ReactionType } from '../src/types/comment.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import {
+  createComment,
+  editComment,
+  listComments,
+  removeComment,
+  updateCommentMetadata,
+} from '../src/utils/index.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+vi.mock('../src/integrations/sync-provider.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/integrations/sync-provider.js')>()),
+  createSyncProvider: vi.fn(),
+}));
+
+// Provider calls these tests never make
+const notUsed = (): never => {
+  throw new Error('Not used by this test');
+};
+
+/**
+ * Minimal in-memory provider recording issues, comments and comment reactions
+ */
+function createMemoryProvider(): SyncProvider & {
+  issues: GitHubIssue[];
+  comments: Map<number, RemoteComment[]>;
+  reactions: Map<number, CommentReactions>;
+  now: () => string;
+} {
+  const issues: GitHubIssue[] = [];
+  const comments = new Map<number, RemoteComment[]>();
+  const reactions = new Map<number, CommentReactions>();
+  let nextCommentId = 700;
+  let clock = Date.now();
+  const now = () => {
+    clock += 1000;
+    return new Date(clock).toISOString();
+  };
+
+  const findComment = (issueNumber: number, commentId: number) => {
+    const comment = (comments.get(issueNumber) || []).find(
+      (candidate) => candidate.id === commentId
+    );
+    if (!comment) throw new Error(`No comment ${commentId} on #${issueNumber}`);
+    return comment;
+  };
+
+  return {
+    issues,
+    comments,
+    reactions,
+    now,
+    name: 'github' as const,
+    getAllIssues: async () => issues.map((issue) => ({ ...issue })),
+    createIssue: async (data: RemoteIssueInput) => {
+      const issue: GitHubIssue = {
+        id: 1000 + issues.length,
+        number: issues.length + 1,
+        title: data.title,
+        body: data.body,
+        state: 'open',
+        created_at: now(),
+        updated_at: now(),
+        labels: [],
+        html_url: `https://github.test/issues/${issues.length + 1}`,
+      };
+      issues.push(issue);
+      return { ...issue };
+    },
+    updateIssue: async (number: number, data: RemoteIssueUpdate) => {
+      const issue = issues.find((candidate) => candidate.number === number);
+      if (!issue) throw new Error(`No issue #${number}`);
+      Object.assign(issue, { body: data.body ?? issue.body, updated_at: now() });
+      return { ...issue };
+    },
+    getComments: async (issueNumber: number) =>
+      (comments.get(issueNumber) || []).map((comment) => ({
+        ...comment,
+        reactions: Object.values(reactions.get(comment.id) || {}).flat().length,
+      })),
+    createComment: async (issueNumber: number, body: string) => {
+      const comment: RemoteComment = {
+        id: nextCommentId++,
+        body,
+        author: 'sync-bot',
+        created_at: now(),
+        updated_at: now(),
+        html_url: `https://github.test/issues/${issueNumber}#comment`,
+      };
+      comments.set(issueNumber, [...(comments.get(issueNumber) || []), comment]);
+      return { ...comment, reactions: 0 };
+    },
+    updateComment: async (issueNumber: number, commentId: number, body: string) => {
+      const comment = findComment(issueNumber, commentId);
+      Object.assign(comment, { body, updated_at: now() });
+      return { ...comment };
+    },
+    deleteComment: async (issueNumber: number, commentId: number) => {
+      comments.set(
+        issueNumber,
+        (comments.get(issueNumber) || []).filter((comment) => comment.id !== commentId)
+      );
+    },
+    getCommentReactions: async (_issueNumber: number, commentId: number) => ({
+      ...reactions.get(commentId),
+    }),
+    addCommentReaction: async (_issueNumber: number, commentId: number, reaction: ReactionType) => {
+      const current = reactions.get(commentId) || {};
+      current[reaction] = [...(current[reaction] || []), 'sync-bot'];
+      reactions.set(commentId, current);
+    },
+    testConnection: notUsed,
+    getIssue: notUsed,
+    getLabels: notUsed,
+    getMilestones: notUsed,
+    createMilestone: notUsed,
+    updateMilestone: notUsed,
+    addSubIssue: notUsed,
+    getPullRequests: notUsed,
+    createPullRequest: notUsed,
+    updatePullRequest: notUsed,
+    getRateLimit: notUsed,
+  };
+}
+
+describe('Comment sync', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let provider: ReturnType<typeof createMemoryProvider>;
+  let engine: GitHubSyncEngine;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'comment-sync-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('comment-sync-test');
+    configManager.updateConfig({
+      github_sync: {
+        enabled: true,
+        repository: 'owner/repo',
+        token: 'ghp_test',
+        auto_sync: false,
+        conflict_resolution: 'most_recent',
+        sync_labels: false,
+        sync_milestones: false,
+        sync_assignees: false,
+        sync_comments: true,
+        rate_limit_delay: 0,
+        batch_size: 50,
+      },
+    });
+    provider = createMemoryProvider();
+    vi.mocked(createSyncProvider).mockReturnValue(provider);
+    engine = new GitHubSyncEngine(configManager);
+
+    await new ItemService(configManager).createItem('issue', { title: 'Flaky login' });
+    await createComment(tempDir, 'ISS-0001', 'Seen twice today', { author: 'alice' });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const remoteComments = () => provider.comments.get(1) || [];
+  const remoteIdOf = (comment: Comment) => {
+    if (comment.metadata?.remoteId === undefined) {
+      throw new Error(`Comment ${comment.id} has not been pushed`);
+    }
+    return comment.metadata.remoteId;
+  };
+
+  it('creates comments both ways and does not duplicate them on repeat runs', async () => {
+    const pushed = await engine.pushToGitHub();
+    expect(pushed.errors).toEqual([]);
+    expect(pushed.comments_synced).toBe(1);
+    expect(remoteComments()).toEqual([expect.objectContaining({ body: 'Seen twice today' })]);
+
+    const [local] = await listComments(tempDir, 'ISS-0001');
+    expect(local.metadata).toMatchObject({
+      remoteId: remoteComments()[0].id,
+      remoteUrl: 'https://github.test/issues/1#comment',
+    });
+
+    remoteComments().push({
+      id: 900,
+      body: 'Fixed by the retry change',
+      author: 'bob',
+      created_at: provider.now(),
+      updated_at: provider.now(),
+    });
+    provider.reactions.set(900, { heart: ['carol'] });
+
+    const pulled = await engine.pullFromGitHub();
+    expect(pulled.errors).toEqual([]);
+    expect(pulled.comments_synced).toBe(1);
+    const comments = await listComments(tempDir, 'ISS-0001');
+    expect(comments).toHaveLength(2);
+    expect(comments[1]).toMatchObject({
+      body: 'Fixed by the retry change',
+      author: 'bob',
+      metadata: { remoteId: 900, reactions: { heart: ['carol'] } },
+    });
+
+    const again = await engine.bidirectionalSync();
+    expect(again.errors).toEqual([]);
+    expect(again.comments_synced).toBe(0);
+    expect(remoteComments()).toHaveLength(2);
+    expect(await listComments(tempDir, 'ISS-0001')).toHaveLength(2);
+  });
+
+  it('carries edits and deletions across', async () => {
+    await engine.pushToGitHub();
+    const [local] = await listComments(tempDir, 'ISS-0001');
+    const remoteId = remoteIdOf(local);
+
+    await editComment(tempDir, 'ISS-0001', local.id, 'Seen three times today');
+    expect((await engine.pushToGitHub()).comments_synced).toBe(1);
+    expect(remoteComments()[0].body).toBe('Seen three times today');
+
+    Object.assign(remoteComments()[0], { body: 'Seen four times', updated_at: provider.now() });
+    expect((await engine.pullFromGitHub()).comments_synced).toBe(1);
+    const [edited] = await listComments(tempDir, 'ISS-0001');
+    expect(edited).toMatchObject({
+      body: 'Seen four times',
+      editedAt: remoteComments()[0].updated_at,
+    });
+    expect((await engine.bidirectionalSync()).comments_synced).toBe(0);
+
+    await removeComment(tempDir, 'ISS-0001', local.id);
+    // A pull keeps the remote comment and does not bring it back
+    expect((await engine.pullFromGitHub()).comments_synced).toBe(0);
+    expect(await listComments(tempDir, 'ISS-0001')).toEqual([]);
+    expect((await engine.pushToGitHub()).comments_synced).toBe(1);
+    expect(remoteComments().find((comment) => comment.id === remoteId)).toBeUndefined();
+
+    await createComment(tempDir, 'ISS-0001', 'Reopened', { author: 'alice' });
+    await engine.pushToGitHub();
+    provider.comments.set(1, []);
+    expect((await engine.bidirectionalSync()).comments_synced).toBe(1);
+    expect(await listComments(tempDir, 'ISS-0001')).toEqual([]);
+  });
+
+  it('pushes local reactions and records remote reactors', async () => {
+    await engine.pushToGitHub();
+    const [local] = await listComments(tempDir, 'ISS-0001');
+    await updateCommentMetadata(tempDir, 'ISS-0001', local.id, {
+      reactions: { '+1': ['alice'] },
+    });
+    provider.reactions.set(remoteIdOf(local), { rocket: ['dave'] });
+
+    const synced = await engine.bidirectionalSync();
+    expect(synced.comments_synced).toBe(1);
+    expect(provider.reactions.get(remoteIdOf(local))).toEqual({
+      rocket: ['dave'],
+      '+1': ['sync-bot'],
+    });
+    const [reacted] = await listComments(tempDir, 'ISS-0001');
+    expect(reacted.metadata?.reactions).toEqual({ '+1': ['alice'], rocket: ['dave'] });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for commit linking: IDs and closing keywords in commit messages,
+ * recording commits on items, workflow-checked transitions and incremental scans
+ */
+
+import { execSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CommitLinker,
+  findClosingReferences,
+  findItemReferences,
+} from '../src/utils/commit-linker.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+describe('Commit linker', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let items: ItemService;
+
+  const prefixes = ['EP', 'ISS', 'TSK', 'PR'];
+  const commit = (message: string, author = 'Alice') =>
+    execSync(
+      `git -c user.name=${author} -c user.email=${author.toLowerCase()}@example.com commit -q --allow-empty -F -`,
+      { cwd: tempDir, input: message }
+    );
+  const head = () => execSync('git rev-parse HEAD', { cwd: tempDir, encoding: 'utf8' }).trim();
+  const getItem = (id: string) => {
+    items.getRelationshipManager().rebuildCache();
+    return items.getRelationshipManager().getItem(id);
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'commit-linker-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+    execSync('git init -q', { cwd: tempDir });
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('commit-linker-test');
+    items = new ItemService(configManager);
+
+    await items.createItem('epic', { title: 'Checkout' });
+    await items.createItem('issue', { title: 'Payment API', epic_id: 'EP-0001' });
+    await items.createItem('issue', { title: 'Cart UI', epic_id: 'EP-0001' });
+    await items.createItem('task', { title: 'Wire buttons', issue_id: 'ISS-0002' });
+    await items.updateItem('ISS-0001', { state: 'ready_for_engineering' });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('finds item IDs and the IDs a commit fixes', () => {
+    const message =
+      'Fixes ISS-0042 and TSK-0007\n\nRefs EP-0001, see ISS-0042 again. Closes: TSK-0008, PR-0002';
+    expect(findItemReferences(message, prefixes)).toEqual([
+      'ISS-0042',
+      'TSK-0007',
+      'EP-0001',
+      'TSK-0008',
+      'PR-0002',
+    ]);
+    expect(findClosingReferences(message, prefixes)).toEqual([
+      'ISS-0042',
+      'TSK-0007',
+      'TSK-0008',
+      'PR-0002',
+    ]);
+    expect(findClosingReferences('Prefix ISS-0042 fixes nothing', prefixes)).toEqual([]);
+    expect(findClosingReferences('resolved ISS-0001', prefixes, ['done'])).toEqual([]);
+    expect(findItemReferences('XISS-0001 ISS-12a', prefixes)).toEqual([]);
+  });
+
+  it('records commits on items and continues from the last scanned commit', async () => {
+    commit('Add payment client for ISS-0001\n\nAlso touches TSK-0001 and ISS-0999');
+    commit('Style the cart (ISS-0002)', 'Bob');
+    const linker = new CommitLinker(configManager);
+
+    const first = await linker.scan();
+    expect(first.scanned).toBe(2);
+    expect(first.since).toBeUndefined();
+    expect(first.linked.map((link) => link.item_id)).toEqual(['ISS-0001', 'TSK-0001', 'ISS-0002']);
+    expect(first.unknown_ids).toEqual(['ISS-0999']);
+    expect(first.transitions).toEqual([]);
+    expect(linker.getLastCommit()).toBe(head());
+
+    const [linked] = getItem('ISS-0002')?.commits || [];
+    expect(linked).toMatchObject({ author: 'Bob', message: 'Style the cart (ISS-0002)' });
+    expect(linked.sha).toBe(head());
+    expect(linked.date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(getItem('TSK-0001')?.commits?.[0].message).toBe('Add payment client for ISS-0001');
+
+    commit('Handle declined cards, ISS-0001');
+    const second = await linker.scan();
+    expect(second.scanned).toBe(1);
+    expect(second.since).toBe(first.head);
+    expect(getItem('ISS-0001')?.commits).toHaveLength(2);
+
+    // A full rescan finds nothing new
+    const full = await linker.scan({ full: true });
+    expect(full.scanned).toBe(3);
+    expect(full.linked).toEqual([]);
+    expect(getItem('ISS-0001')?.commits).toHaveLength(2);
+  });
+
+  it('moves fixed items through workflow validation', async () => {
+    commit('Fixes ISS-0001, ISS-0002');
+    commit('Closes TSK-0001', 'Bob');
+    const result = await new CommitLinker(configManager).scan({ transition_state: 'ready_for_qa' });
+
+    expect(result.transitions.map(({ item_id, from, to }) => ({ item_id, from, to }))).toEqual([
+      { item_id: 'ISS-0001', from: 'ready_for_engineering', to: 'ready_for_qa' },
+      { item_id: 'ISS-0002', from: 'planning', to: 'ready_for_qa' },
+      { item_id: 'TSK-0001', from: 'planning', to: 'ready_for_qa' },
+    ]);
+    expect(result.transitions[0].error).toBeUndefined();
+    // The default workflow only reaches ready_for_qa from ready_for_engineering
+    expect(result.transitions[1].error).toContain('Invalid state transition');
+
+    const issue = getItem('ISS-0001');
+    expect(issue?.state).toBe('ready_for_qa');
+    expect(issue?.state_metadata?.transitioned_by).toBe('Alice');
+    expect(issue?.content).toContain(
+      `**Reason**: Commit ${result.linked[0].sha.slice(0, 7)}: Fixes ISS-0001, ISS-0002`
+    );
+    expect(getItem('ISS-0002')?.state).not.toBe('ready_for_qa');
+
+    // Transitions come from the config too, and only for newly linked commits
+    configManager.updateConfig({ commit_links: { transition_state: 'ready_for_qa' } });
+    commit('Fixes ISS-0002 again');
+    await items.updateItem('ISS-0002', { state: 'ready_for_engineering' });
+    const next = await new CommitLinker(configManager).scan();
+    expect(next.transitions).toMatchObject([
+      { item_id: 'ISS-0002', from: 'ready_for_engineering' },
+    ]);
+    expect(next.transitions[0].error).toBeUndefined();
+    expect((await new CommitLinker(configManager).scan({ full: true })).transitions).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for dependency graph analysis: work order, critical path by estimates,
+ * blocked chains with root blockers, cycles and epic scoping
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AnyItemData } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { DependencyGraph, scopeToEpic } from '../src/utils/dependency-graph.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+describe('Dependency graph', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let items: ItemService;
+
+  const allItems = (): AnyItemData[] => items.getRelationshipManager().search({}).items;
+  const ids = (nodes: Array<{ id: string }>) => nodes.map((node) => node.id);
+  // blocks, blocked_by and time_estimate are set in the frontmatter, as the CLI does
+  const edit = (id: string, updates: Record<string, unknown>) => {
+    const item = items.getRelationshipManager().getItem(id);
+    if (!item) throw new Error(`No item ${id}`);
+    new FrontmatterParser().updateFile(item.file_path, updates);
+    items.getRelationshipManager().rebuildCache();
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'dependency-graph-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    const configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('dependency-graph-test');
+    items = new ItemService(configManager);
+
+    // Schema (ISS-0001) → API (ISS-0002) → UI (ISS-0003); Docs (TSK-0001) waits on the API
+    await items.createItem('epic', { title: 'Checkout' });
+    await items.createItem('epic', { title: 'Reporting' });
+    await items.createItem('issue', { title: 'Schema', epic_id: 'EP-0001' });
+    await items.createItem('issue', {
+      title: 'API',
+      epic_id: 'EP-0001',
+      dependencies: ['ISS-0001'],
+    });
+    await items.createItem('issue', { title: 'UI', epic_id: 'EP-0001', priority: 'high' });
+    await items.createItem('task', { title: 'Docs', issue_id: 'ISS-0002' });
+    await items.createItem('task', { title: 'Mockups', issue_id: 'ISS-0003', priority: 'high' });
+    await items.createItem('issue', { title: 'Charts', epic_id: 'EP-0002' });
+
+    edit('ISS-0002', { blocks: ['ISS-0003', 'TSK-0001'], time_estimate: '8h' });
+    edit('ISS-0001', { time_estimate: '2h' });
+    edit('ISS-0003', { blocked_by: ['ISS-0002'], time_estimate: '1h' });
+    edit('TSK-0001', { time_estimate: '4h' });
+    edit('TSK-0002', { blocks: ['ISS-0003'] });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('orders items after their dependencies, by priority when ready', () => {
+    const { order, cycles } = new DependencyGraph(allItems()).getWorkOrder();
+    expect(ids(order)).toEqual([
+      'TSK-0002',
+      'EP-0001',
+      'EP-0002',
+      'ISS-0001',
+      'ISS-0002',
+      'ISS-0003',
+      'ISS-0004',
+      'TSK-0001',
+    ]);
+    expect(cycles).toEqual([]);
+  });
+
+  it('finds the critical path by estimates and scopes to an epic', () => {
+    const result = new DependencyGraph(scopeToEpic(allItems(), 'EP-0001')).getCriticalPath();
+    // Schema → API → Docs (14h) outweighs Schema → API → UI (11h)
+    expect(ids(result.path)).toEqual(['ISS-0001', 'ISS-0002', 'TSK-0001']);
+    expect(result.total).toBe(14);
+    expect(result.unestimated).toEqual([]);
+
+    // Without estimates the longest chain wins
+    const byTokens = new DependencyGraph(allItems(), { weight: 'tokens' }).getCriticalPath();
+    expect(byTokens.path).toHaveLength(3);
+    expect(byTokens.unestimated).toHaveLength(3);
+
+    expect(ids(scopeToEpic(allItems(), 'EP-0002').map((item) => ({ id: item.title })))).toEqual([
+      'Reporting',
+      'Charts',
+    ]);
+    expect(() => scopeToEpic(allItems(), 'EP-0099')).toThrow('Epic not found: EP-0099');
+  });
+
+  it('lists blocked items with their root blockers', async () => {
+    const blocked = new DependencyGraph(allItems()).getBlockedItems();
+    expect(
+      blocked.map((entry) => [entry.item.id, entry.depth, entry.root_blockers.sort()])
+    ).toEqual([
+      ['ISS-0003', 2, ['ISS-0001', 'TSK-0002']],
+      ['TSK-0001', 2, ['ISS-0001']],
+      ['ISS-0002', 1, ['ISS-0001']],
+    ]);
+    expect(blocked[0].blockers.slice(0, 2).sort()).toEqual(['ISS-0002', 'TSK-0002']);
+
+    // Finished items no longer block
+    await items.updateItem('ISS-0001', { status: 'completed' });
+    const afterSchema = new DependencyGraph(allItems()).getBlockedItems();
+    expect(afterSchema.map((entry) => entry.item.id)).toEqual(['ISS-0003', 'TSK-0001']);
+    expect(afterSchema[1].root_blockers).toEqual(['ISS-0002']);
+  });
+
+  it('reports dependency cycles instead of ordering them', () => {
+    edit('ISS-0001', { blocked_by: ['TSK-0001'] });
+    const graph = new DependencyGraph(allItems());
+
+    const { order, cycles } = graph.getWorkOrder();
+    expect(cycles).toEqual([['ISS-0001', 'ISS-0002', 'TSK-0001']]);
+    expect(ids(order)).toEqual(['TSK-0002', 'EP-0001', 'EP-0002', 'ISS-0004']);
+    expect(graph.getCriticalPath().cycles).toEqual(cycles);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for due dates and SLAs: deadlines, the bucketed due report and
+ * overdue filtering in search
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProjectConfig } from '../src/types/ai-trackdown.js';
+import { buildDueReport, getDueItem, parseDueDate, parseSlaHours } from '../src/utils/due-dates.js';
+import { RelationshipManager } from '../src/utils/relationship-manager.js';
+import { SearchQueryParser } from '../src/utils/search-parser.js';
+
+const testConfig: ProjectConfig = {
+  name: 'due-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+const common = `priority: medium
+assignee: dev
+created_date: 2026-10-19T08:00:00.000Z
+updated_date: 2026-10-19T08:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local`;
+
+function writeItem(root: string, dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(root, 'tasks', dir), { recursive: true });
+  writeFileSync(join(root, 'tasks', dir, name), `---\n${frontmatter}\n${common}\n---\n\n# Item\n`);
+}
+
+// Monday 2026-10-19, midday
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+describe('due dates', () => {
+  let tempDir: string;
+  const items = () => new RelationshipManager(testConfig, tempDir).search({}).items;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'due-dates-test-'));
+    writeItem(
+      tempDir,
+      'epics',
+      'EP-0001-launch.md',
+      'epic_id: EP-0001\ntitle: Launch\ndescription: test\nstatus: active\ndue_date: 2026-12-01'
+    );
+    const issue = (id: string, extra: string) =>
+      `issue_id: ${id}\nepic_id: EP-0001\ntitle: ${id}\ndescription: test\nstatus: active\n${extra}`;
+    writeItem(tempDir, 'issues', 'ISS-0001-late.md', issue('ISS-0001', 'due_date: 2026-10-16'));
+    writeItem(tempDir, 'issues', 'ISS-0002-today.md', issue('ISS-0002', 'due_date: 2026-10-19'));
+    writeItem(tempDir, 'issues', 'ISS-0003-week.md', issue('ISS-0003', 'due_date: 2026-10-23'));
+    writeItem(tempDir, 'issues', 'ISS-0004-sla.md', issue('ISS-0004', 'sla_hours: 2'));
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0005-done.md',
+      issue('ISS-0005', 'state: done\ndue_date: 2026-10-01')
+    );
+    writeItem(tempDir, 'issues', 'ISS-0006-none.md', issue('ISS-0006', 'tags: []'));
+    writeItem(
+      tempDir,
+      'prs',
+      'PR-0001-review.md',
+      'pr_id: PR-0001\nissue_id: ISS-0003\nepic_id: EP-0001\ntitle: Review\ndescription: test\nstatus: active\npr_status: open\nsla_hours: 72'
+    );
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('validates due dates and SLA hours', () => {
+    expect(parseDueDate('2026-10-23')).toBe('2026-10-23');
+    expect(parseDueDate('2026-10-23T17:00:00Z')).toBe('2026-10-23');
+    expect(() => parseDueDate('next friday')).toThrow('Invalid due date: next friday');
+    expect(parseSlaHours('48')).toBe(48);
+    expect(() => parseSlaHours('0')).toThrow('Invalid SLA hours: 0');
+  });
+
+  it('buckets open items by their earliest deadline', () => {
+    const report = buildDueReport(items(), now);
+    const ids = (bucket: keyof typeof report) =>
+      (report[bucket] as Array<{ item_id: string }>).map((item) => item.item_id);
+
+    expect(report.as_of).toBe('2026-10-19');
+    // Finished items and items without a deadline are left out
+    expect(ids('overdue')).toEqual(['ISS-0001', 'ISS-0004']);
+    expect(ids('today')).toEqual(['ISS-0002']);
+    expect(ids('this_week')).toEqual(['PR-0001', 'ISS-0003']);
+    expect(ids('later')).toEqual(['EP-0001']);
+
+    // The SLA ran out at 10:00 the same day, so the item is overdue without being a day late
+    expect(report.overdue[1]).toMatchObject({
+      item_type: 'issue',
+      sla_deadline: '2026-10-19T10:00:00.000Z',
+      sla_breached: true,
+      deadline: '2026-10-19',
+      days_left: 0,
+    });
+    expect(report.overdue[0]).toMatchObject({ days_left: -3, sla_breached: false });
+    expect(report.this_week[0]).toMatchObject({ item_type: 'pr', deadline: '2026-10-22' });
+  });
+
+  it('ends this week on Sunday and counts days in local time', () => {
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0007-next-monday.md',
+      'issue_id: ISS-0007\ntitle: ISS-0007\ndescription: test\nstatus: active\ndue_date: 2026-10-26'
+    );
+    const dueItem = (title: string, at: Date) => {
+      const item = items().find((candidate) => candidate.title === title);
+      return item && getDueItem(item, at);
+    };
+
+    // Next Monday is a week away but not in this calendar week
+    expect(dueItem('ISS-0007', now)?.bucket).toBe('later');
+    expect(dueItem('ISS-0003', now)?.bucket).toBe('this_week');
+
+    const originalTz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      // 22:00 on Monday in New York is already Tuesday in UTC
+      const mondayEvening = new Date('2026-10-20T02:00:00.000Z');
+      expect(dueItem('ISS-0002', mondayEvening)).toMatchObject({ bucket: 'today', days_left: 0 });
+      expect(buildDueReport(items(), mondayEvening).as_of).toBe('2026-10-19');
+    } finally {
+      if (originalTz === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTz;
+    }
+  });
+
+  it('filters on deadlines in search and the is:overdue qualifier', () => {
+    // Search checks deadlines against the current time
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+
+    const manager = new RelationshipManager(testConfig, tempDir);
+    const overdue = manager.search({ overdue: true }).items;
+    expect(overdue.map((item) => getDueItem(item, now)?.item_id).sort()).toEqual([
+      'ISS-0001',
+      'ISS-0004',
+    ]);
+
+    const dueSoon = manager.search({ due_after: '2026-10-20', due_before: '2026-10-31' }).items;
+    expect(dueSoon.map((item) => item.title).sort()).toEqual(['ISS-0003', 'Review']);
+
+    const parsed = SearchQueryParser.parse('is:overdue checkout');
+    expect(parsed.is?.overdue).toBe(true);
+    expect(parsed.text).toEqual(['checkout']);
+    expect(SearchQueryParser.toAdvancedFilters(parsed).overdue).toBe(true);
+    expect(SearchQueryParser.toGitHubQuery(parsed)).toContain('is:overdue');
+  });
+});
@@ -239,6 +239,45 @@ describe('GitHubClient', () => {
       });
     });
   });
+
+  describe('getMilestones', () => {
+    it('should follow pagination past the first 100 milestones', async () => {
+      const milestonePage = (from: number, count: number) =>
+        Array.from({ length: count }, (_, index) => ({
+          number: from + index,
+          title: `v1.${from + index}.0`,
+          description: null,
+          state: 'open',
+          due_on: null,
+          updated_at: '2023-01-01T00:00:00Z',
+          html_url: `https://github.com/owner/repo/milestone/${from + index}`,
+        }));
+      const fetchMock = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify(milestonePage(1, 100)), {
+            headers: {
+              'content-type': 'application/json',
+              link: '<https://api.github.com/repos/owner/repo/milestones?state=all&per_page=100&page=2>; rel="next"',
+            },
+          })
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify(milestonePage(101, 1)), {
+            headers: { 'content-type': 'application/json' },
+          })
+        );
+
+      try {
+        const milestones = await client.getMilestones();
+        expect(milestones).toHaveLength(101);
+        expect(milestones[100]).toMatchObject({ number: 101, title: 'v1.101.0', state: 'open' });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+  });
 });
 
 describe('GitHubSyncEngine', () => {
@@ -270,6 +309,13 @@ describe('GitHubSyncEngine', () => {
       readdirSync: vi.fn().mockReturnValue(['test.md']),
     }));
 
+    // Mock milestone records, which are read from the mocked file system
+    vi.mock('../src/utils/milestone-manager.js', () => ({
+      MilestoneManager: vi.fn().mockImplementation(() => ({
+        listMilestones: vi.fn().mockReturnValue([]),
+      })),
+    }));
+
     // Mock frontmatter parser
     vi.mock('../src/utils/frontmatter-parser.js', () => ({
       FrontmatterParser: vi.fn().mockImplementation(() => ({
@@ -362,6 +408,7 @@ describe('GitHubSyncEngine', () => {
     it('should push local changes to GitHub', async () => {
       const mockClient = {
         getAllIssues: vi.fn().mockResolvedValue([]),
+        getMilestones: vi.fn().mockResolvedValue([]),
         createIssue: vi.fn().mockResolvedValue(mockGitHubIssue),
         updateIssue: vi.fn().mockResolvedValue(mockGitHubIssue),
       };
@@ -385,6 +432,7 @@ describe('GitHubSyncEngine', () => {
     it('should pull changes from GitHub', async () => {
       const mockClient = {
         getAllIssues: vi.fn().mockResolvedValue([mockGitHubIssue]),
+        getMilestones: vi.fn().mockResolvedValue([]),
       };
 
       (syncEngine as any).client = mockClient;
@@ -404,6 +452,7 @@ describe('GitHubSyncEngine', () => {
     it('should perform bidirectional sync', async () => {
       const mockClient = {
         getAllIssues: vi.fn().mockResolvedValue([mockGitHubIssue]),
+        getMilestones: vi.fn().mockResolvedValue([]),
         createIssue: vi.fn().mockResolvedValue(mockGitHubIssue),
       };
 
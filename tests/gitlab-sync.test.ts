@@ -0,0 +1,326 @@
+/**
+ * Tests for sync providers: provider selection from config, and the GitLab client
+ * and sync engine against a local mock GitLab API
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitHubSyncEngine } from '../src/integrations/github-sync.js';
+import { createSyncProvider } from '../src/integrations/sync-provider.js';
+import type { GitHubSyncConfig } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { GitHubClient } from '../src/utils/github-client.js';
+import { GitLabClient } from '../src/utils/gitlab-client.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+const PROJECT = '/api/v4/projects/group%2Fsub%2Fapp';
+
+// The request body fields the mock reads
+interface RequestBody {
+  title?: string;
+  description?: string;
+  body?: string;
+  labels?: string;
+  assignee_ids?: number[];
+  milestone_id?: number;
+  due_date?: string;
+  state_event?: string;
+}
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: RequestBody;
+}
+
+type MockRecord = Record<string, unknown>;
+
+/**
+ * Minimal in-memory GitLab: issues, milestones, notes and users for one project
+ */
+function createMockGitLab() {
+  const requests: RecordedRequest[] = [];
+  const issues: MockRecord[] = [
+    {
+      id: 500,
+      iid: 7,
+      title: 'Remote bug',
+      description: 'Found in production',
+      state: 'opened',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+      labels: ['bug'],
+      assignee: null,
+      milestone: null,
+      web_url: 'http://gitlab.test/group/sub/app/-/issues/7',
+    },
+  ];
+  const milestones: MockRecord[] = [];
+  const notes: MockRecord[] = [
+    { id: 1, body: 'changed the description', system: true, author: { username: 'bot' } },
+    {
+      id: 2,
+      body: 'Can reproduce',
+      system: false,
+      author: { username: 'carol' },
+      created_at: '2024-01-03T00:00:00Z',
+      updated_at: '2024-01-03T00:00:00Z',
+    },
+  ];
+
+  const send = (res: ServerResponse, status: number, data: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'RateLimit-Limit': '2000',
+      'RateLimit-Remaining': '1990',
+      'RateLimit-Reset': '1700000000',
+    });
+    res.end(JSON.stringify(data));
+  };
+
+  const handle = (req: IncomingMessage, res: ServerResponse, body: RequestBody = {}) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Keep the encoded project path intact, as GitLab routes on it
+    const path = (req.url || '/').split('?')[0];
+    requests.push({ method: req.method || 'GET', path, query: url.searchParams, body });
+
+    if (req.headers['private-token'] !== 'glpat-test') {
+      return send(res, 401, { message: '401 Unauthorized' });
+    }
+
+    const now = new Date().toISOString();
+    if (path === PROJECT) {
+      return send(res, 200, { permissions: { project_access: { access_level: 30 } } });
+    }
+    if (path === '/api/v4/users') {
+      return send(res, 200, url.searchParams.get('username') === 'alice' ? [{ id: 42 }] : []);
+    }
+    if (path === `${PROJECT}/issues` && req.method === 'GET') {
+      const page = Number(url.searchParams.get('page'));
+      return send(res, 200, page === 1 ? issues : []);
+    }
+    if (path === `${PROJECT}/issues` && req.method === 'POST') {
+      const issue = {
+        id: 600 + issues.length,
+        iid: 10 + issues.length,
+        title: body.title,
+        description: body.description,
+        state: 'opened',
+        created_at: now,
+        updated_at: now,
+        labels: body.labels ? body.labels.split(',') : [],
+        assignees: body.assignee_ids ? [{ id: 42, username: 'alice' }] : [],
+        milestone: milestones.find((milestone) => milestone.id === body.milestone_id) || null,
+        web_url: `http://gitlab.test/group/sub/app/-/issues/${10 + issues.length}`,
+      };
+      issues.push(issue);
+      return send(res, 201, issue);
+    }
+    const issueMatch = path.match(/\/issues\/(\d+)$/);
+    if (issueMatch && req.method === 'PUT') {
+      const issue = issues.find((candidate) => candidate.iid === Number(issueMatch[1]));
+      if (!issue) return send(res, 404, { message: '404 Not found' });
+      if (body.state_event) issue.state = body.state_event === 'close' ? 'closed' : 'opened';
+      if (body.title) issue.title = body.title;
+      issue.updated_at = now;
+      return send(res, 200, issue);
+    }
+    if (path === `${PROJECT}/milestones` && req.method === 'GET') {
+      return send(res, 200, milestones);
+    }
+    if (path === `${PROJECT}/milestones` && req.method === 'POST') {
+      const milestone = {
+        id: 900 + milestones.length,
+        iid: milestones.length + 1,
+        title: body.title,
+        description: body.description,
+        due_date: body.due_date,
+        state: 'active',
+        updated_at: now,
+        web_url: 'http://gitlab.test/group/sub/app/-/milestones/1',
+      };
+      milestones.push(milestone);
+      return send(res, 201, milestone);
+    }
+    if (path === `${PROJECT}/issues/7/notes` && req.method === 'GET') {
+      return send(res, 200, notes);
+    }
+    if (path === `${PROJECT}/issues/7/notes` && req.method === 'POST') {
+      const note = {
+        id: 3,
+        body: body.body,
+        system: false,
+        author: { username: 'me' },
+        created_at: now,
+        updated_at: now,
+      };
+      notes.push(note);
+      return send(res, 201, note);
+    }
+    return send(res, 404, { message: '404 Not found' });
+  };
+
+  const server = createServer((req, res) => {
+    let text = '';
+    req.on('data', (chunk) => {
+      text += chunk;
+    });
+    req.on('end', () => handle(req, res, text ? JSON.parse(text) : undefined));
+  });
+
+  return { server, requests, issues, milestones };
+}
+
+describe('Sync providers', () => {
+  let mock: ReturnType<typeof createMockGitLab>;
+  let syncConfig: GitHubSyncConfig;
+
+  beforeEach(async () => {
+    mock = createMockGitLab();
+    await new Promise<void>((resolve) => mock.server.listen(0, '127.0.0.1', resolve));
+    const { port } = mock.server.address() as AddressInfo;
+    syncConfig = {
+      enabled: true,
+      provider: 'gitlab',
+      repository: 'group/sub/app',
+      token: 'glpat-test',
+      api_url: `http://127.0.0.1:${port}`,
+      auto_sync: false,
+      conflict_resolution: 'most_recent',
+      sync_labels: true,
+      sync_milestones: true,
+      sync_assignees: true,
+      rate_limit_delay: 0,
+      batch_size: 50,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => mock.server.close(() => resolve()));
+  });
+
+  it('selects the provider from config', () => {
+    expect(
+      createSyncProvider({ ...syncConfig, provider: undefined, repository: 'o/r' })
+    ).toBeInstanceOf(GitHubClient);
+    expect(createSyncProvider(syncConfig)).toBeInstanceOf(GitLabClient);
+    expect(() =>
+      createSyncProvider({ ...syncConfig, provider: 'jira' as GitHubSyncConfig['provider'] })
+    ).toThrow('Unknown sync provider: jira');
+  });
+
+  it('maps GitLab issues, notes and rate limits', async () => {
+    const client = new GitLabClient(syncConfig);
+
+    expect(await client.testConnection()).toEqual({
+      success: true,
+      message: 'Connected to group/sub/app successfully',
+    });
+    expect(await new GitLabClient({ ...syncConfig, token: 'wrong' }).testConnection()).toEqual({
+      success: false,
+      message: 'Authentication failed. Please check your GitLab token.',
+    });
+
+    const [issue] = await client.getAllIssues({ state: 'open' });
+    expect(issue).toMatchObject({
+      id: 500,
+      number: 7,
+      state: 'open',
+      body: 'Found in production',
+      labels: [{ name: 'bug' }],
+      html_url: 'http://gitlab.test/group/sub/app/-/issues/7',
+    });
+    const list = mock.requests.find((request) => request.path === `${PROJECT}/issues`);
+    expect(list?.query.get('state')).toBe('opened');
+
+    const closed = await client.updateIssue(7, { state: 'closed', labels: ['bug', 'p1'] });
+    expect(closed.state).toBe('closed');
+    expect(mock.requests[mock.requests.length - 1].body).toEqual({
+      labels: 'bug,p1',
+      state_event: 'close',
+    });
+
+    const comments = await client.getComments(7);
+    expect(comments).toEqual([
+      expect.objectContaining({ id: 2, body: 'Can reproduce', author: 'carol' }),
+    ]);
+    expect(await client.createComment(7, 'Fixed in main')).toMatchObject({
+      id: 3,
+      body: 'Fixed in main',
+    });
+
+    expect(await client.getRateLimit()).toMatchObject({ limit: 2000, remaining: 1990, used: 10 });
+  });
+
+  describe('sync engine with GitLab', () => {
+    let tempDir: string;
+    let originalCwd: string;
+    let configManager: ConfigManager;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'gitlab-sync-test-'));
+      originalCwd = process.cwd();
+      process.chdir(tempDir);
+
+      configManager = new ConfigManager(tempDir);
+      configManager.initializeProject('gitlab-test');
+      configManager.updateConfig({ github_sync: syncConfig });
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      if (existsSync(tempDir)) {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('pushes local issues and milestones, then pulls remote issues', async () => {
+      const items = new ItemService(configManager);
+      await items.createItem('issue', {
+        title: 'Local feature',
+        assignee: 'alice',
+        tags: ['feature'],
+        milestone: 'v1.0',
+      });
+      const paths = configManager.getAbsolutePaths();
+      const { MilestoneManager } = await import('../src/utils/milestone-manager.js');
+      new MilestoneManager(configManager.getConfig(), paths.projectRoot).createMilestone({
+        title: 'v1.0',
+        due_date: '2024-03-01',
+      });
+
+      const engine = new GitHubSyncEngine(configManager);
+      const pushed = await engine.pushToGitHub();
+      expect(pushed.errors).toEqual([]);
+      expect(pushed).toMatchObject({ success: true, pushed_count: 1, milestones_synced: 1 });
+
+      expect(mock.milestones[0]).toMatchObject({ id: 900, title: 'v1.0', due_date: '2024-03-01' });
+      const created = mock.requests.find(
+        (request) => request.method === 'POST' && request.path === `${PROJECT}/issues`
+      );
+      expect(created?.body).toMatchObject({
+        title: 'Local feature',
+        labels: 'feature',
+        assignee_ids: [42],
+        milestone_id: 900,
+      });
+      expect(created?.body?.description).toContain('AI-Trackdown Metadata');
+
+      const local = readFileSync(join(paths.issuesDir, 'ISS-0001-local-feature.md'), 'utf8');
+      expect(local).toContain('github_number: 11');
+      expect(local).toContain('github_url: http://gitlab.test/group/sub/app/-/issues/11');
+
+      const pulled = await engine.pullFromGitHub();
+      expect(pulled.success).toBe(true);
+      const remote = readFileSync(join(paths.issuesDir, 'ISS-0007.md'), 'utf8');
+      expect(remote).toContain('title: Remote bug');
+      expect(remote).toContain('Found in production');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for graph export: Mermaid and DOT output of the hierarchy and dependency
+ * edges, state colours, scoping and embedding in item markdown and llms.txt
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AnyItemData } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { scopeToEpic, scopeToProject } from '../src/utils/dependency-graph.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import {
+  buildExportGraph,
+  embedGraph,
+  exportGraph,
+  GRAPH_EMBED_START,
+} from '../src/utils/graph-export.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { buildLlmsTxt } from '../src/utils/llms-txt.js';
+
+describe('Graph export', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let items: ItemService;
+
+  const allItems = (): AnyItemData[] => items.getRelationshipManager().search({}).items;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'graph-export-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('graph-export-test');
+    items = new ItemService(configManager);
+
+    await items.createItem('epic', { title: 'Checkout' });
+    await items.createItem('epic', { title: 'Reporting' });
+    await items.createItem('issue', { title: 'Payment "v2" API', epic_id: 'EP-0001' });
+    await items.createItem('issue', {
+      title: 'Cart UI',
+      epic_id: 'EP-0001',
+      dependencies: ['ISS-0001'],
+    });
+    await items.createItem('task', { title: 'Wire buttons', issue_id: 'ISS-0002' });
+    await items.createItem('pr', { title: 'Add cart page', issue_id: 'ISS-0002' });
+    await items.createItem('issue', { title: 'Charts', epic_id: 'EP-0002' });
+    await items.updateItem('ISS-0001', { state: 'ready_for_engineering' });
+    await items.updateItem('ISS-0001', { state: 'active' });
+    await items.updateItem('ISS-0003', { status: 'completed' });
+
+    const task = items.getRelationshipManager().getItem('TSK-0001');
+    new FrontmatterParser().updateFile(task?.file_path as string, { blocked_by: ['ISS-0003'] });
+    items.getRelationshipManager().rebuildCache();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('collects hierarchy and dependency edges under the project', () => {
+    const { nodes, edges } = buildExportGraph(allItems(), 'graph-export-test');
+    expect(nodes[0]).toEqual({
+      id: 'graph-export-test',
+      type: 'project',
+      label: 'graph-export-test',
+    });
+    expect(nodes.find((node) => node.id === 'ISS-0001')?.state).toBe('active');
+    expect(edges).toEqual(
+      expect.arrayContaining([
+        { from: 'graph-export-test', to: 'EP-0001', kind: 'hierarchy' },
+        { from: 'EP-0001', to: 'ISS-0002', kind: 'hierarchy' },
+        { from: 'ISS-0002', to: 'TSK-0001', kind: 'hierarchy' },
+        { from: 'ISS-0002', to: 'PR-0001', kind: 'hierarchy' },
+        { from: 'ISS-0001', to: 'ISS-0002', kind: 'blocks' },
+        { from: 'ISS-0003', to: 'TSK-0001', kind: 'blocks' },
+      ])
+    );
+    expect(edges).toHaveLength(9);
+
+    // Links leaving the scope are dropped
+    const scoped = buildExportGraph(scopeToEpic(allItems(), 'EP-0001'));
+    expect(scoped.nodes.map((node) => node.id)).toEqual([
+      'EP-0001',
+      'ISS-0001',
+      'ISS-0002',
+      'TSK-0001',
+      'PR-0001',
+    ]);
+    expect(scoped.edges.some((edge) => edge.from === 'ISS-0003')).toBe(false);
+    expect(scopeToProject(allItems(), 'graph-export-test', 'graph-export-test')).toHaveLength(7);
+    expect(() => scopeToProject(allItems(), 'other', 'graph-export-test')).toThrow(
+      'Project not found: other'
+    );
+  });
+
+  it('renders Mermaid and DOT with styled edges and state colours', () => {
+    const scoped = scopeToEpic(allItems(), 'EP-0001');
+    const mermaid = exportGraph(scoped, { format: 'mermaid', title: 'EP-0001' });
+    expect(mermaid).toContain('flowchart TD');
+    expect(mermaid).toContain('EP_0001(["EP-0001: Checkout"])');
+    expect(mermaid).toContain('ISS_0001["ISS-0001: Payment #quot;v2#quot; API"]');
+    expect(mermaid).toContain('PR_0001{{"PR-0001: Add cart page"}}');
+    expect(mermaid).toContain('EP_0001 --> ISS_0001');
+    expect(mermaid).toContain('ISS_0001 -.->|blocks| ISS_0002');
+    expect(mermaid).toContain('classDef state_active fill:#ddf4ff');
+    expect(mermaid).toContain('class ISS_0001 state_active');
+
+    const dot = exportGraph(scoped, { format: 'dot', title: 'EP-0001' });
+    expect(dot).toMatch(/^digraph "EP-0001" \{/);
+    expect(dot).toContain(
+      '"ISS-0001" [label="ISS-0001\\nPayment \\"v2\\" API", fillcolor="#ddf4ff"'
+    );
+    expect(dot).toContain('"EP-0001" -> "ISS-0002";');
+    expect(dot).toContain(
+      '"ISS-0001" -> "ISS-0002" [style=dashed, color="#cf222e", label="blocks"];'
+    );
+    expect(dot.trimEnd().endsWith('}')).toBe(true);
+  });
+
+  it('embeds graphs in markdown and llms.txt', () => {
+    const first = embedGraph('# Cart UI\n\nBody', 'flowchart TD\n  A --> B\n', 'mermaid');
+    expect(first).toBe(
+      '# Cart UI\n\nBody\n\n## Dependency Graph\n\n<!-- aitrackdown:graph -->\n```mermaid\nflowchart TD\n  A --> B\n```\n<!-- /aitrackdown:graph -->\n'
+    );
+    const second = embedGraph(`${first}\nMore notes`, 'flowchart TD\n  C --> D', 'mermaid');
+    expect(second.split(GRAPH_EMBED_START)).toHaveLength(2);
+    expect(second).toContain('C --> D');
+    expect(second).not.toContain('A --> B');
+    expect(second).toContain('More notes');
+
+    const { content } = buildLlmsTxt(configManager.getConfig(), items.getRelationshipManager(), {
+      includeGraph: true,
+    });
+    expect(content).toContain('## Dependency Graph\n\n```mermaid\nflowchart TD');
+    expect(content).toContain('graph_export_test --> EP_0001');
+    expect(
+      buildLlmsTxt(configManager.getConfig(), items.getRelationshipManager()).content
+    ).not.toContain('```mermaid');
+  });
+});
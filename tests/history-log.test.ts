@@ -0,0 +1,132 @@
+/**
+ * Tests for HistoryLog: field diffs, filtered event queries and
+ * point-in-time reconstruction of items
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { diffItems, HistoryLog } from '../src/utils/history-log.js';
+
+describe('diffItems', () => {
+  it('reports added, removed and changed fields but ignores bookkeeping fields', () => {
+    const changes = diffItems(
+      { title: 'Old', tags: ['a'], milestone: 'v1', updated_date: '1', file_path: '/a' },
+      { title: 'New', tags: ['a'], assignee: 'bob', updated_date: '2', file_path: '/b' }
+    );
+
+    expect(changes).toEqual([
+      { field: 'title', old_value: 'Old', new_value: 'New' },
+      { field: 'milestone', old_value: 'v1' },
+      { field: 'assignee', new_value: 'bob' },
+    ]);
+  });
+});
+
+describe('HistoryLog', () => {
+  let tempDir: string;
+  let history: HistoryLog;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'history-log-test-'));
+    history = new HistoryLog(tempDir);
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('appends one JSONL line per event and skips empty diffs', () => {
+    history.recordDiff(
+      'ISS-0001',
+      'update',
+      { status: 'planning' },
+      { status: 'active' },
+      { source: 'issue update', author: 'alice' }
+    );
+    const skipped = history.recordDiff(
+      'ISS-0001',
+      'update',
+      { status: 'active' },
+      { status: 'active' },
+      { source: 'issue update' }
+    );
+
+    expect(skipped).toBeNull();
+    const lines = readFileSync(join(tempDir, '.ai-trackdown-history', 'ISS-0001.jsonl'), 'utf8')
+      .trim()
+      .split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      item_id: 'ISS-0001',
+      author: 'alice',
+      action: 'update',
+      changes: [{ field: 'status', old_value: 'planning', new_value: 'active' }],
+    });
+  });
+
+  it('filters events by date, field and author', () => {
+    history.record('ISS-0001', 'update', [{ field: 'title', old_value: 'A', new_value: 'B' }], {
+      source: 'issue update',
+      author: 'alice',
+      timestamp: '2025-01-05T10:00:00.000Z',
+    });
+    history.record(
+      'ISS-0001',
+      'state_change',
+      [{ field: 'state', old_value: 'active', new_value: 'done' }],
+      {
+        source: 'state update',
+        author: 'bob',
+        timestamp: '2025-02-05T10:00:00.000Z',
+      }
+    );
+
+    expect(history.getEvents('ISS-0001')).toHaveLength(2);
+    expect(history.getEvents('ISS-0001', { since: '2025-02-01' })[0].author).toBe('bob');
+    expect(history.getEvents('ISS-0001', { field: 'title' })[0].action).toBe('update');
+    expect(history.getEvents('ISS-0001', { author: 'carol' })).toEqual([]);
+    expect(history.getEvents('ISS-0002')).toEqual([]);
+  });
+
+  it('reconstructs an item as of a past date', () => {
+    const created = { created_date: '2025-01-01T00:00:00.000Z' };
+    history.record(
+      'ISS-0001',
+      'update',
+      [{ field: 'title', old_value: 'Draft', new_value: 'Final' }],
+      {
+        source: 'issue update',
+        timestamp: '2025-01-10T00:00:00.000Z',
+      }
+    );
+    history.record('ISS-0001', 'update', [{ field: 'milestone', new_value: 'v2' }], {
+      source: 'issue update',
+      timestamp: '2025-01-20T00:00:00.000Z',
+    });
+    history.record('ISS-0001', 'comment', [{ field: 'comments.CMT-1', new_value: 'hi' }], {
+      source: 'comment add',
+      timestamp: '2025-01-25T00:00:00.000Z',
+    });
+
+    const current = { ...created, title: 'Final', milestone: 'v2' };
+
+    expect(history.reconstruct('ISS-0001', current, '2025-01-15')).toEqual({
+      ...created,
+      title: 'Final',
+    });
+    expect(history.reconstruct('ISS-0001', current, '2025-01-05')).toEqual({
+      ...created,
+      title: 'Draft',
+    });
+    expect(history.reconstruct('ISS-0001', current, '2024-12-31')).toBeNull();
+  });
+
+  it('rejects item IDs that are not safe file names', () => {
+    expect(() => history.getEvents('../etc/passwd')).toThrow('Invalid item ID');
+  });
+});
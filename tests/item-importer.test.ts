@@ -0,0 +1,200 @@
+/**
+ * Tests for importing Jira exports and CSV files: parsing, field mapping, parent links,
+ * comments, dry runs and idempotent re-runs
+ */
+
+import { existsSync, readdirSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { listComments } from '../src/utils/index.js';
+import {
+  ItemImporter,
+  loadImportMapping,
+  parseCsv,
+  readImportRecords,
+} from '../src/utils/item-importer.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+interface JiraComment {
+  body: string;
+  author: { displayName: string };
+  created?: string;
+}
+
+function jiraExport(overrides: { status?: string; comments?: JiraComment[] } = {}) {
+  return JSON.stringify({
+    issues: [
+      {
+        id: '10003',
+        key: 'PROJ-3',
+        fields: {
+          summary: 'Write parser',
+          issuetype: { name: 'Sub-task' },
+          status: { name: 'To Do' },
+          parent: { key: 'PROJ-2' },
+        },
+      },
+      {
+        id: '10002',
+        key: 'PROJ-2',
+        fields: {
+          summary: 'Import from Jira',
+          description: 'Bring the backlog over',
+          issuetype: { name: 'Story' },
+          status: { name: overrides.status || 'In Progress' },
+          priority: { name: 'Highest' },
+          assignee: { displayName: 'Alice' },
+          labels: ['migration'],
+          parent: { key: 'PROJ-1' },
+          comment: {
+            comments: overrides.comments || [
+              {
+                body: 'Started',
+                author: { displayName: 'Bob' },
+                created: '2024-03-20T10:15:00.000+0000',
+              },
+            ],
+          },
+        },
+      },
+      {
+        id: '10001',
+        key: 'PROJ-1',
+        fields: { summary: 'Migration', issuetype: { name: 'Epic' }, status: { name: 'Open' } },
+      },
+    ],
+  });
+}
+
+describe('Item import', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'item-import-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('import-test');
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const importJira = (text: string, dryRun = false) =>
+    new ItemImporter(configManager).import(
+      readImportRecords('jira-json', text),
+      loadImportMapping('jira-json'),
+      { dryRun }
+    );
+
+  it('parses quoted CSV fields and repeated columns', () => {
+    expect(parseCsv('\uFEFFa,b\n"x, y","say ""hi""\nthere"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+
+    const records = readImportRecords(
+      'jira-csv',
+      'Issue key,Summary,Labels,Labels,Comment\nPROJ-9,Fix login,auth,,"20/Mar/24 10:15 AM;Bob;Seen it"\n'
+    );
+    expect(records[0]).toMatchObject({
+      'Issue key': 'PROJ-9',
+      Labels: ['auth'],
+      Comment: '20/Mar/24 10:15 AM;Bob;Seen it',
+    });
+  });
+
+  it('validates mapping files', () => {
+    const mapping = loadImportMapping(
+      'csv',
+      'source: roadmap\nfields:\n  title: Name\nstates:\n  Doing: active\n'
+    );
+    expect(mapping.source).toBe('roadmap');
+    expect(mapping.fields).toMatchObject({ title: 'Name', state: 'state' });
+    expect(mapping.states).toEqual({ Doing: 'active' });
+
+    expect(() => loadImportMapping('csv', 'fields:\n  colour: Colour\n')).toThrow('colour');
+    expect(() => loadImportMapping('csv', 'states:\n  Doing: busy\n')).toThrow('busy');
+  });
+
+  it('imports Jira issues with parent links, states and comments', async () => {
+    const result = await importJira(jiraExport());
+    expect(result).toMatchObject({ created: 3, updated: 0, errors: 0, comments: 1 });
+
+    const manager = new ItemService(configManager).getRelationshipManager();
+    const [epic] = manager.getAllEpics();
+    const [issue] = manager.getAllIssues();
+    const [task] = manager.getAllTasks();
+
+    expect(epic).toMatchObject({ epic_id: 'EP-0001', source_id: 'jira:PROJ-1', state: 'planning' });
+    expect(issue).toMatchObject({
+      issue_id: 'ISS-0001',
+      epic_id: 'EP-0001',
+      source_id: 'jira:PROJ-2',
+      title: 'Import from Jira',
+      state: 'active',
+      priority: 'critical',
+      assignee: 'Alice',
+      tags: ['migration'],
+    });
+    expect(issue.content).toContain('Bring the backlog over');
+    expect(task).toMatchObject({
+      task_id: 'TSK-0001',
+      issue_id: 'ISS-0001',
+      epic_id: 'EP-0001',
+      source_id: 'jira:PROJ-3',
+    });
+
+    const comments = await listComments(tempDir, 'ISS-0001');
+    expect(comments).toHaveLength(1);
+    expect(comments[0]).toMatchObject({ body: 'Started', author: 'Bob' });
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const result = await importJira(jiraExport(), true);
+    expect(result).toMatchObject({ dry_run: true, created: 3, comments: 1 });
+    expect(result.actions.find((action) => action.source_id === 'jira:PROJ-3')?.parent_id).toBe(
+      '(new jira:PROJ-2)'
+    );
+
+    const paths = configManager.getAbsolutePaths();
+    expect(readdirSync(paths.epicsDir)).toEqual([]);
+    expect(readdirSync(paths.issuesDir).filter((name) => name.endsWith('.md'))).toEqual([]);
+  });
+
+  it('updates changed fields and adds new comments on re-runs', async () => {
+    const selected = { status: 'Selected for Development' };
+    await importJira(jiraExport(selected));
+
+    const again = await importJira(jiraExport(selected));
+    expect(again).toMatchObject({ created: 0, updated: 0, unchanged: 3, comments: 0 });
+
+    const changed = await importJira(
+      jiraExport({
+        status: 'In Review',
+        comments: [
+          { body: 'Started', author: { displayName: 'Bob' } },
+          { body: 'Ready for review', author: { displayName: 'Alice' } },
+        ],
+      })
+    );
+    expect(changed).toMatchObject({ created: 0, updated: 1, unchanged: 2, comments: 1 });
+    expect(changed.actions.find((action) => action.action === 'update')?.changes).toContain(
+      'state'
+    );
+
+    const [issue] = new ItemService(configManager).getRelationshipManager().getAllIssues();
+    expect(issue.state).toBe('ready_for_qa');
+    expect(await listComments(tempDir, 'ISS-0001')).toHaveLength(2);
+  });
+});
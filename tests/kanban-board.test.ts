@@ -0,0 +1,141 @@
+/**
+ * Tests for the Kanban board: columns, grouping, filtering, validated moves
+ * and inline edits driven through keypresses
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getItemId } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { KanbanBoard } from '../src/utils/kanban-board.js';
+
+describe('KanbanBoard', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+
+  const ids = (board: KanbanBoard, state: Parameters<KanbanBoard['getColumnItems']>[0]) =>
+    board.getColumnItems(state).map(getItemId);
+
+  const type = async (board: KanbanBoard, text: string) => {
+    for (const char of text) await board.handleKey(char, { name: char });
+    await board.handleKey(undefined, { name: 'return' });
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'kanban-board-test-'));
+    originalCwd = process.cwd();
+    // Item IDs come from counters in the working directory, as in the CLI
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('board-test');
+    const items = new ItemService(configManager);
+    await items.createItem('epic', { title: 'Checkout' });
+    await items.createItem('issue', {
+      title: 'Card payments',
+      epic_id: 'EP-0001',
+      assignee: 'alice',
+    });
+    await items.createItem('issue', { title: 'Login bug', tags: ['bug'], priority: 'high' });
+    await items.createItem('issue', { title: 'Shipped', state: 'ready_for_qa' });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('lays out one column per state and groups cards', () => {
+    const board = new KanbanBoard(configManager, { user: 'bob' });
+    expect(ids(board, 'planning')).toEqual(['ISS-0002', 'ISS-0001']);
+    expect(ids(board, 'ready_for_qa')).toEqual(['ISS-0003']);
+
+    const screen = board.render(200, 20);
+    expect(screen).toContain('planning (2)');
+    expect(screen).toContain('ready for qa (1)');
+    expect(screen).toContain('ISS-0001 @alice');
+    expect(screen.split('\n')).toHaveLength(20);
+
+    board.setGroupBy('epic');
+    expect(ids(board, 'planning')).toEqual(['ISS-0001', 'ISS-0002']);
+    const grouped = board.render(200, 20);
+    expect(grouped).toContain('── EP-0001 Checkout');
+    expect(grouped).toContain('── No epic');
+  });
+
+  it('moves cards only along allowed transitions and records state_metadata', async () => {
+    const board = new KanbanBoard(configManager, { user: 'bob' });
+    expect(board.getSelectedItem()?.title).toBe('Login bug');
+
+    // planning → ready_for_engineering is the nearest allowed column to the right
+    await board.handleKey('L', { name: 'l', shift: true });
+    expect(board.getMessage()).toBe('ISS-0002 moved to ready_for_engineering');
+    expect(ids(board, 'ready_for_engineering')).toEqual(['ISS-0002']);
+    expect(board.getSelectedItem()?.title).toBe('Login bug');
+
+    const file = readFileSync(join(tempDir, 'tasks', 'issues', 'ISS-0002-login-bug.md'), 'utf8');
+    expect(file).toContain('state: ready_for_engineering');
+    expect(file).toContain('transitioned_by: bob');
+    expect(file).toContain('previous_state: planning');
+
+    // Nothing to the left of planning is reachable from it
+    await board.handleKey('H', { name: 'h', shift: true });
+    await board.handleKey('H', { name: 'h', shift: true });
+    expect(board.getMessage()).toContain('cannot move left');
+
+    await board.handleKey('m', { name: 'm' });
+    await type(board, 'done');
+    expect(board.getMessage()).toContain('Invalid transition');
+    expect(ids(board, 'active')).toEqual([]);
+  });
+
+  it('edits priority and assignee inline and filters with the query syntax', async () => {
+    const board = new KanbanBoard(configManager, { user: 'bob' });
+    await board.handleKey('j', { name: 'j' });
+    expect(board.getSelectedItem()?.title).toBe('Card payments');
+
+    await board.handleKey('p', { name: 'p' });
+    await type(board, 'crit');
+    expect(board.getSelectedItem()?.priority).toBe('critical');
+
+    await board.handleKey('a', { name: 'a' });
+    for (let i = 0; i < 'alice'.length; i++) {
+      await board.handleKey(undefined, { name: 'backspace' });
+    }
+    await type(board, 'carol');
+    expect(board.getSelectedItem()?.assignee).toBe('carol');
+
+    await board.handleKey('/', {});
+    await type(board, 'label:bug');
+    expect(ids(board, 'planning')).toEqual(['ISS-0002']);
+    expect(ids(board, 'ready_for_qa')).toEqual([]);
+
+    await board.handleKey('/', {});
+    for (let i = 0; i < 'label:bug'.length; i++) {
+      await board.handleKey(undefined, { name: 'backspace' });
+    }
+    await type(board, 'created:yesterday');
+    expect(board.getMessage()).toContain('Invalid search query');
+    expect(ids(board, 'planning')).toHaveLength(2);
+
+    expect(await board.handleKey('q', { name: 'q' })).toBe('quit');
+  });
+
+  it('picks up changes made outside the board on reload', async () => {
+    const board = new KanbanBoard(configManager, { user: 'bob' });
+    const items = new ItemService(configManager);
+    await items.updateItem('ISS-0001', { state: 'ready_for_engineering' });
+    await items.updateItem('ISS-0001', { state: 'active' });
+    expect(ids(board, 'active')).toEqual([]);
+
+    board.reload();
+    expect(ids(board, 'active')).toEqual(['ISS-0001']);
+  });
+});
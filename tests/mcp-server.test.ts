@@ -0,0 +1,187 @@
+/**
+ * Tests for the MCP server: protocol handshake, tools that write through the CLI
+ * rules, and resources for items, llms.txt and ai_context files
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { type JsonRpcResponse, TrackdownMcpServer } from '../src/utils/mcp-server.js';
+
+// The parts of tool and resource results these tests read
+interface McpResult {
+  isError?: boolean;
+  content: Array<{ text: string }>;
+  contents: Array<{ text: string }>;
+  tools: Array<{ name: string }>;
+  resources: Array<{ uri: string }>;
+}
+
+describe('TrackdownMcpServer', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let server: TrackdownMcpServer;
+  let nextId: number;
+
+  const rpc = async (method: string, params?: Record<string, unknown>) => {
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: nextId++, method, params });
+    return response as JsonRpcResponse & { result: McpResult };
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const { result } = await rpc('tools/call', { name, arguments: args });
+    return {
+      isError: Boolean(result.isError),
+      text: result.content[0].text,
+      data: result.isError ? undefined : JSON.parse(result.content[0].text),
+    };
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'mcp-server-test-'));
+    originalCwd = process.cwd();
+    // Item IDs come from counters in the working directory, as in the CLI
+    process.chdir(tempDir);
+
+    const configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('mcp-test');
+    server = new TrackdownMcpServer(configManager, { user: 'agent', version: '9.9.9' });
+    nextId = 1;
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('speaks newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', (chunk: Buffer) => lines.push(...chunk.toString().trim().split('\n')));
+
+    const done = server.listen(input, output);
+    input.write(
+      `${JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } })}\n`
+    );
+    input.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })}\n`);
+    input.write('not json\n');
+    input.write(`${JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'nope' })}\n`);
+    input.end();
+    await done;
+
+    const responses = lines.map((line) => JSON.parse(line));
+    expect(responses).toHaveLength(3);
+    expect(responses[0].result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: 'ai-trackdown', version: '9.9.9' },
+    });
+    expect(responses[1]).toMatchObject({ id: null, error: { code: -32700 } });
+    expect(responses[2]).toMatchObject({ id: 2, error: { code: -32601 } });
+  });
+
+  it('creates and updates items with the CLI IDs, workflow rules and history', async () => {
+    const { result } = await rpc('tools/list');
+    expect(result.tools.map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        'create_issue',
+        'update_state',
+        'add_comment',
+        'search',
+        'get_hierarchy',
+      ])
+    );
+
+    expect((await callTool('create_epic', { title: 'Checkout' })).data).toMatchObject({
+      id: 'EP-0001',
+      type: 'epic',
+    });
+    const issue = await callTool('create_issue', {
+      title: 'Card payments',
+      epic_id: 'EP-0001',
+      tags: ['bug'],
+    });
+    expect(issue.data).toMatchObject({ id: 'ISS-0001', epic_id: 'EP-0001', state: 'planning' });
+    await callTool('create_task', { title: 'Stripe client', issue_id: 'ISS-0001' });
+
+    const orphan = await callTool('create_task', { title: 'Orphan' });
+    expect(orphan.isError).toBe(true);
+
+    const ready = await callTool('update_state', {
+      item_id: 'ISS-0001',
+      state: 'ready_for_engineering',
+      reason: 'Picked up',
+    });
+    expect(ready.data).toMatchObject({ state: 'ready_for_engineering' });
+    expect(ready.data.allowed_next_states).toContain('ready_for_qa');
+
+    const invalid = await callTool('update_state', { item_id: 'ISS-0001', state: 'planning' });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.text).toContain('transition');
+
+    const history = readFileSync(
+      join(tempDir, 'tasks', '.ai-trackdown-history', 'ISS-0001.jsonl'),
+      'utf8'
+    );
+    expect(history).toContain('"source":"mcp"');
+    expect(history).toContain('"author":"agent"');
+
+    const comment = await callTool('add_comment', { issue_id: 'ISS-0001', body: 'On it' });
+    expect(comment.data).toMatchObject({ issueId: 'ISS-0001', author: 'agent', body: 'On it' });
+    expect((await callTool('add_comment', { issue_id: 'ISS-0099', body: 'x' })).isError).toBe(true);
+
+    const search = await callTool('search', { query: 'is:open label:bug payments' });
+    expect(search.data.items.map((item: { id: string }) => item.id)).toEqual(['ISS-0001']);
+    expect((await callTool('search', { query: 'created:yesterday' })).isError).toBe(true);
+
+    const tree = await callTool('get_hierarchy', { item_id: 'EP-0001' });
+    expect(tree.data.issues.map((item: { id: string }) => item.id)).toEqual(['ISS-0001']);
+    expect(tree.data.tasks.map((item: { id: string }) => item.id)).toEqual(['TSK-0001']);
+
+    expect((await rpc('tools/call', { name: 'drop_database', arguments: {} })).error?.code).toBe(
+      -32602
+    );
+  });
+
+  it('exposes llms.txt, item files and ai_context files as resources', async () => {
+    mkdirSync(join(tempDir, 'context'), { recursive: true });
+    writeFileSync(join(tempDir, 'context', 'requirements.md'), '# Requirements\n');
+    await callTool('create_issue', { title: 'Login fails' });
+    const itemFile = join(tempDir, 'tasks', 'issues', 'ISS-0001-login-fails.md');
+    writeFileSync(
+      itemFile,
+      readFileSync(itemFile, 'utf8').replace(
+        /ai_context:.*\n/,
+        'ai_context:\n  - context/requirements\n  - ../outside\n'
+      )
+    );
+
+    const { result } = await rpc('resources/list');
+    const uris = result.resources.map((resource) => resource.uri);
+    expect(uris).toEqual([
+      'trackdown://llms.txt',
+      'trackdown://items/ISS-0001',
+      'trackdown://context/context/requirements',
+    ]);
+
+    const llms = await rpc('resources/read', { uri: 'trackdown://llms.txt' });
+    expect(llms.result.contents[0].text).toContain('mcp-test');
+    const item = await rpc('resources/read', { uri: 'trackdown://items/ISS-0001' });
+    expect(item.result.contents[0].text).toContain('title: Login fails');
+    const context = await rpc('resources/read', {
+      uri: 'trackdown://context/context/requirements',
+    });
+    expect(context.result.contents[0].text).toBe('# Requirements\n');
+
+    expect(
+      (await rpc('resources/read', { uri: 'trackdown://context/../outside' })).error?.code
+    ).toBe(-32002);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for milestones: records, progress from linked items, closing and
+ * release version lookup
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig } from '../src/types/ai-trackdown.js';
+import { MilestoneManager } from '../src/utils/milestone-manager.js';
+
+const testConfig: ProjectConfig = {
+  name: 'milestone-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+const common = `description: test
+priority: medium
+assignee: dev
+created_date: 2026-10-19T08:00:00.000Z
+updated_date: 2026-10-19T08:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local`;
+
+function writeItem(root: string, dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(root, 'tasks', dir), { recursive: true });
+  writeFileSync(join(root, 'tasks', dir, name), `---\n${frontmatter}\n${common}\n---\n\n# Item\n`);
+}
+
+describe('MilestoneManager', () => {
+  let tempDir: string;
+  let manager: MilestoneManager;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'milestone-test-'));
+    manager = new MilestoneManager(testConfig, tempDir);
+
+    writeItem(
+      tempDir,
+      'epics',
+      'EP-0001-launch.md',
+      'epic_id: EP-0001\ntitle: Launch\nstatus: active\nmilestone: v1.4.0'
+    );
+    const issue = (id: string, extra: string) =>
+      `issue_id: ${id}\nepic_id: EP-0001\ntitle: ${id}\nstatus: active\n${extra}`;
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0001-done.md',
+      issue('ISS-0001', 'state: done\nmilestone: V1.4.0')
+    );
+    writeItem(tempDir, 'issues', 'ISS-0002-open.md', issue('ISS-0002', 'milestone: v1.4.0'));
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0003-dropped.md',
+      issue('ISS-0003', 'state: won_t_do\nmilestone: v1.4.0')
+    );
+    writeItem(tempDir, 'issues', 'ISS-0004-other.md', issue('ISS-0004', 'milestone: v2.0.0'));
+    writeItem(
+      tempDir,
+      'prs',
+      'PR-0001-merged.md',
+      'pr_id: PR-0001\nissue_id: ISS-0002\nepic_id: EP-0001\ntitle: Ship it\nstatus: completed\npr_status: merged\nmilestone: MS-0001'
+    );
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates milestones as records and finds them by ID, title or version', () => {
+    const milestone = manager.createMilestone({
+      title: 'v1.4.0',
+      description: 'Checkout release',
+      due_date: '2026-11-02',
+    });
+
+    expect(milestone).toMatchObject({
+      milestone_id: 'MS-0001',
+      milestone_state: 'open',
+      due_date: '2026-11-02',
+    });
+    expect(existsSync(milestone.file_path)).toBe(true);
+
+    const later = manager.createMilestone({ title: 'v2.0.0' });
+    const earlier = manager.createMilestone({ title: 'Beta', due_date: '2026-10-26' });
+    expect(manager.listMilestones().map((m) => m.title)).toEqual(['Beta', 'v1.4.0', 'v2.0.0']);
+    expect(later.due_date).toBeUndefined();
+
+    expect(manager.getMilestone('MS-0003')?.title).toBe(earlier.title);
+    expect(manager.getMilestone('V1.4.0')?.milestone_id).toBe('MS-0001');
+    expect(manager.findForVersion('1.4.0')?.milestone_id).toBe('MS-0001');
+    expect(manager.findForVersion('3.0.0')).toBeNull();
+
+    expect(() => manager.createMilestone({ title: 'v1.4.0' })).toThrow(
+      'Milestone already exists: v1.4.0'
+    );
+    expect(() => manager.createMilestone({ title: 'x', due_date: 'soon' })).toThrow(
+      'Invalid due date'
+    );
+  });
+
+  it('computes progress from items linked by title or ID', () => {
+    const milestone = manager.createMilestone({ title: 'v1.4.0' });
+    const progress = manager.getProgress(milestone);
+
+    // Won't-do items are left out; ISS-0004 belongs to another milestone
+    expect(progress.items.map((item) => item.id)).toEqual([
+      'EP-0001',
+      'ISS-0001',
+      'ISS-0002',
+      'PR-0001',
+    ]);
+    expect(progress).toMatchObject({ total: 4, finished: 2, percentage: 50 });
+    expect(progress.items.find((item) => item.id === 'PR-0001')).toMatchObject({
+      type: 'pr',
+      finished: true,
+    });
+  });
+
+  it('refuses to close with open items unless forced', () => {
+    manager.createMilestone({ title: 'v1.4.0' });
+
+    expect(() => manager.closeMilestone('v1.4.0')).toThrow(
+      'Milestone MS-0001 has open items: EP-0001, ISS-0002'
+    );
+
+    const result = manager.closeMilestone('v1.4.0', { force: true });
+    expect(result.open_items).toEqual(['EP-0001', 'ISS-0002']);
+    expect(result.milestone.closed_date).toBeDefined();
+
+    const reloaded = manager.getMilestone('MS-0001');
+    expect(reloaded?.milestone_state).toBe('closed');
+    expect(() => manager.closeMilestone('MS-0001')).toThrow('already closed');
+
+    const reopened = manager.updateMilestone('MS-0001', { milestone_state: 'open' });
+    expect(reopened.closed_date).toBeUndefined();
+    expect(manager.getMilestone('MS-0001')?.closed_date).toBeUndefined();
+  });
+});
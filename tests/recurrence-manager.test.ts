@@ -0,0 +1,198 @@
+/**
+ * Tests for RecurrenceManager: recurrence rules, due occurrences and
+ * idempotent creation of instances from item and template series
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig } from '../src/types/ai-trackdown.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import { occursOn, parseRecurrence, RecurrenceManager } from '../src/utils/recurrence-manager.js';
+
+const testConfig: ProjectConfig = {
+  name: 'recur-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+const common = `priority: high
+assignee: dev
+created_date: 2026-10-01T09:00:00.000Z
+updated_date: 2026-10-01T09:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local`;
+
+function writeItem(root: string, dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(root, 'tasks', dir), { recursive: true });
+  writeFileSync(join(root, 'tasks', dir, name), `---\n${frontmatter}\n${common}\n---\n\n# Item\n`);
+}
+
+describe('parseRecurrence', () => {
+  it('parses daily, weekly, interval and monthly rules', () => {
+    expect(parseRecurrence('Weekly on Monday')).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [1],
+    });
+    expect(parseRecurrence('weekly on thu, tue')).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [2, 4],
+    });
+    expect(parseRecurrence('every 3 days')).toEqual({ frequency: 'daily', interval: 3 });
+    expect(parseRecurrence('monthly on 31st')).toEqual({
+      frequency: 'monthly',
+      interval: 1,
+      monthday: 31,
+    });
+    expect(() => parseRecurrence('weekly on funday')).toThrow('unknown day "funday"');
+    expect(() => parseRecurrence('hourly')).toThrow('Invalid recurrence rule: hourly');
+  });
+
+  it('finds occurrences relative to the series start', () => {
+    // Weeks are counted from the week the series starts in (Thursday 2026-10-01)
+    const fortnightly = parseRecurrence('every 2 weeks on monday');
+    expect(occursOn(fortnightly, '2026-10-05', '2026-10-01')).toBe(false);
+    expect(occursOn(fortnightly, '2026-10-12', '2026-10-01')).toBe(true);
+    expect(occursOn(fortnightly, '2026-10-19', '2026-10-01')).toBe(false);
+
+    // Monthly days past the end of a month fall on its last day
+    const monthEnd = parseRecurrence('monthly on 31');
+    expect(occursOn(monthEnd, '2026-11-30')).toBe(true);
+    expect(occursOn(monthEnd, '2026-12-30')).toBe(false);
+
+    expect(occursOn(parseRecurrence('daily'), '2026-09-30', '2026-10-01')).toBe(false);
+  });
+});
+
+describe('RecurrenceManager', () => {
+  let tempDir: string;
+  const parser = new FrontmatterParser();
+  const manager = () => new RecurrenceManager(testConfig, tempDir);
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'recurrence-test-'));
+    mkdirSync(join(tempDir, '.ai-trackdown'), { recursive: true });
+    writeFileSync(
+      join(tempDir, '.ai-trackdown', 'counters.json'),
+      JSON.stringify({ epic: 2, issue: 2, task: 1, pr: 1 })
+    );
+    writeItem(
+      tempDir,
+      'epics',
+      'EP-0001-maintenance.md',
+      'epic_id: EP-0001\ntitle: Maintenance\ndescription: chores\nstatus: active\nrelated_issues: [ISS-0001]'
+    );
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0001-dependency-audit.md',
+      'issue_id: ISS-0001\nepic_id: EP-0001\ntitle: Dependency audit\ndescription: Run npm audit\nstatus: planning\nrelated_tasks: []\ntags: [chore]\nrecurrence: weekly on monday'
+    );
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates the latest due instance once and links it to the series', () => {
+    const results = manager().run({ date: '2026-10-14', user: 'cron' });
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      series_id: 'ISS-0001',
+      date: '2026-10-12',
+      item_id: 'ISS-0002',
+    });
+
+    const instance = parser.parseIssue(results[0].file_path as string);
+    expect(instance).toMatchObject({
+      title: 'Dependency audit (2026-10-12)',
+      epic_id: 'EP-0001',
+      priority: 'high',
+      tags: ['chore'],
+      recurrence_series: 'ISS-0001',
+      recurrence_date: '2026-10-12',
+    });
+    expect(instance.recurrence).toBeUndefined();
+
+    const epic = parser.parseEpic(join(tempDir, 'tasks', 'epics', 'EP-0001-maintenance.md'));
+    expect(epic.related_issues).toEqual(['ISS-0001', 'ISS-0002']);
+
+    // Running again, even later the same week, creates nothing
+    expect(manager().run({ date: '2026-10-14' })).toEqual([]);
+    expect(manager().run({ date: '2026-10-18' })).toEqual([]);
+  });
+
+  it('catches up on missed occurrences since the last instance', () => {
+    manager().run({ date: '2026-10-05' });
+
+    const dryRun = manager().run({ date: '2026-10-27', catchUp: true, dryRun: true });
+    expect(dryRun.map((result) => result.date)).toEqual(['2026-10-12', '2026-10-19', '2026-10-26']);
+    expect(dryRun.every((result) => result.item_id === undefined)).toBe(true);
+
+    const created = manager().run({ date: '2026-10-27', catchUp: true });
+    expect(created.map((result) => result.item_id)).toEqual(['ISS-0003', 'ISS-0004', 'ISS-0005']);
+    expect(manager().getInstances('ISS-0001')).toHaveLength(4);
+  });
+
+  it('creates instances from recurring templates', () => {
+    mkdirSync(join(tempDir, 'tasks', 'templates'), { recursive: true });
+    writeFileSync(
+      join(tempDir, 'tasks', 'templates', 'task-release-checklist.yaml'),
+      [
+        'type: task',
+        'name: release-checklist',
+        'description: Release checklist',
+        'recurrence: monthly on 1',
+        'frontmatter_template:',
+        '  title: Release checklist',
+        '  issue_id: ISS-0001',
+        '  assignee: release-manager',
+        'content_template: |',
+        '  # {{title}}',
+        '  - [ ] Tag the release for {{date}}',
+      ].join('\n')
+    );
+
+    const results = manager().run({ date: '2026-11-03' });
+    const fromTemplate = results.find(
+      (result) => result.series_id === 'template:task-release-checklist'
+    );
+    expect(fromTemplate).toMatchObject({ date: '2026-11-01', item_id: 'TSK-0001' });
+
+    const taskPath = fromTemplate?.file_path as string;
+    const task = parser.parseTask(taskPath);
+    expect(task).toMatchObject({
+      issue_id: 'ISS-0001',
+      assignee: 'release-manager',
+      recurrence_series: 'template:task-release-checklist',
+    });
+    expect(readFileSync(taskPath, 'utf8')).toContain('- [ ] Tag the release for 2026-11-01');
+
+    const issue = parser.parseIssue(
+      join(tempDir, 'tasks', 'issues', 'ISS-0001-dependency-audit.md')
+    );
+    expect(issue.related_tasks).toEqual(['TSK-0001']);
+  });
+});
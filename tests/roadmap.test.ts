@@ -0,0 +1,185 @@
+/**
+ * Tests for the roadmap: scheduling by dependencies, estimates and assignee
+ * capacity, fixed and target dates, and the timeline, gantt and CSV output
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AnyItemData } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { buildRoadmap, renderRoadmap } from '../src/utils/roadmap.js';
+
+describe('Roadmap', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let items: ItemService;
+
+  const allItems = (): AnyItemData[] => items.getRelationshipManager().search({}).items;
+  const dates = (roadmap: ReturnType<typeof buildRoadmap>) =>
+    Object.fromEntries(roadmap.entries.map((entry) => [entry.id, [entry.start, entry.end]]));
+  // time_estimate is set in the frontmatter, as the CLI does
+  const edit = (id: string, updates: Record<string, unknown>) => {
+    const item = items.getRelationshipManager().getItem(id);
+    if (!item) throw new Error(`No item ${id}`);
+    new FrontmatterParser().updateFile(item.file_path, updates);
+    items.getRelationshipManager().rebuildCache();
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'roadmap-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    const configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('roadmap-test');
+    items = new ItemService(configManager);
+
+    // Checkout: Schema (alice, 12h) → API (bob, 6h); Cart UI (alice, two 6h tasks)
+    // Reporting depends on Checkout and has no issues
+    await items.createItem('epic', { title: 'Checkout', due_date: '2026-11-05' });
+    await items.createItem('epic', { title: 'Reporting', dependencies: ['EP-0001'] });
+    await items.createItem('issue', { title: 'Schema', epic_id: 'EP-0001', assignee: 'alice' });
+    await items.createItem('issue', {
+      title: 'API',
+      epic_id: 'EP-0001',
+      assignee: 'bob',
+      dependencies: ['ISS-0001'],
+      due_date: '2026-11-03',
+    });
+    await items.createItem('issue', { title: 'Cart: UI', epic_id: 'EP-0001', assignee: 'alice' });
+    await items.createItem('task', { title: 'Buttons', issue_id: 'ISS-0003' });
+    await items.createItem('task', { title: 'Layout', issue_id: 'ISS-0003' });
+    await items.createItem('issue', { title: 'Docs', start_date: '2026-11-10' });
+
+    edit('ISS-0001', { time_estimate: '12h' });
+    edit('ISS-0002', { time_estimate: '6h' });
+    edit('TSK-0001', { time_estimate: '6h' });
+    edit('TSK-0002', { time_estimate: '6h' });
+    edit('EP-0002', { time_estimate: '18h' });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('schedules after dependencies, one issue at a time per assignee', () => {
+    const roadmap = buildRoadmap(allItems(), { from: '2026-11-02' });
+    expect(roadmap.entries.map((entry) => entry.id)).toEqual([
+      'EP-0001',
+      'ISS-0001',
+      'ISS-0002',
+      'ISS-0003',
+      'EP-0002',
+      'ISS-0004',
+    ]);
+    expect(dates(roadmap)).toEqual({
+      // Two days for Schema, then alice's Cart UI is sized by its tasks
+      'ISS-0001': ['2026-11-02', '2026-11-03'],
+      'ISS-0002': ['2026-11-04', '2026-11-04'],
+      'ISS-0003': ['2026-11-04', '2026-11-05'],
+      'EP-0001': ['2026-11-02', '2026-11-05'],
+      // Reporting waits on all of Checkout's issues
+      'EP-0002': ['2026-11-06', '2026-11-08'],
+      // Unestimated: one day from its start date
+      'ISS-0004': ['2026-11-10', '2026-11-10'],
+    });
+    expect(roadmap.entries.find((entry) => entry.id === 'ISS-0002')?.late_days).toBe(1);
+    expect(roadmap.entries.find((entry) => entry.id === 'EP-0001')?.late_days).toBe(0);
+    expect(roadmap.unestimated).toEqual(['ISS-0004']);
+    expect(roadmap).toMatchObject({ start: '2026-11-02', end: '2026-11-10', cycles: [] });
+
+    // Lower capacity stretches alice's work; --epic keeps the rest of the schedule
+    const slower = buildRoadmap(allItems(), {
+      from: '2026-11-02',
+      capacity: { alice: 3 },
+      epic_id: 'EP-0001',
+    });
+    expect(dates(slower)).toEqual({
+      'EP-0001': ['2026-11-02', '2026-11-09'],
+      'ISS-0001': ['2026-11-02', '2026-11-05'],
+      'ISS-0002': ['2026-11-06', '2026-11-06'],
+      'ISS-0003': ['2026-11-06', '2026-11-09'],
+    });
+    expect(() => buildRoadmap(allItems(), { epic_id: 'EP-0099' })).toThrow(
+      'Epic not found: EP-0099'
+    );
+  });
+
+  it('keeps planned dates, uses milestone targets and skips finished items', async () => {
+    await items.updateItem('ISS-0004', { due_date: '2026-11-12' });
+    await items.updateItem('ISS-0002', { due_date: null, milestone: 'Beta' });
+    await items.updateItem('ISS-0001', { status: 'completed' });
+    expect(items.getRelationshipManager().getItem('ISS-0004')).toMatchObject({
+      start_date: '2026-11-10',
+    });
+
+    const roadmap = buildRoadmap(allItems(), {
+      from: '2026-11-02',
+      milestones: { Beta: '2026-11-01' },
+    });
+    expect(dates(roadmap)['ISS-0004']).toEqual(['2026-11-10', '2026-11-12']);
+    expect(roadmap.entries.find((entry) => entry.id === 'ISS-0004')?.fixed).toBe(true);
+    expect(roadmap.entries.find((entry) => entry.id === 'ISS-0001')).toBeUndefined();
+    expect(roadmap.entries.find((entry) => entry.id === 'ISS-0002')).toMatchObject({
+      start: '2026-11-02',
+      target: '2026-11-01',
+      late_days: 1,
+    });
+
+    await expect(items.updateItem('ISS-0004', { start_date: 'soon' })).rejects.toThrow(
+      'Invalid start date: soon'
+    );
+  });
+
+  it('reports cycles instead of scheduling them', () => {
+    edit('ISS-0001', { blocked_by: ['ISS-0002'] });
+    const roadmap = buildRoadmap(allItems(), { from: '2026-11-02' });
+    expect(roadmap.cycles).toEqual([['ISS-0001', 'ISS-0002']]);
+    // Reporting waits on the cycle too, so only Cart UI and Docs are scheduled
+    expect(Object.keys(dates(roadmap))).toEqual(['EP-0001', 'ISS-0003', 'ISS-0004']);
+  });
+
+  it('renders an ASCII timeline, a Mermaid gantt chart and CSV', () => {
+    const roadmap = buildRoadmap(allItems(), { from: '2026-11-02' });
+
+    const timeline = renderRoadmap(roadmap, 'ascii').split('\n');
+    expect(timeline[0]).toBe('Roadmap 2026-11-02 → 2026-11-10 (1 day per column)');
+    expect(timeline[2].trim()).toBe('11-02');
+    // The target marker sits on the epic's last day
+    expect(timeline[3]).toBe(`${'EP-0001 Checkout'.padEnd(32)} ===|.....  11-02 → 11-05 · 4d`);
+    expect(timeline[5]).toContain('  ISS-0002 API');
+    expect(timeline[5]).toContain(
+      '.|#......  11-04 → 11-04 · 1d · bob · LATE 1d (target 2026-11-03)'
+    );
+    expect(timeline[8]).toMatch(/^ISS-0004 Docs\s+\.{8}# {2}11-10 → 11-10 · 1d · unassigned$/);
+
+    const gantt = renderRoadmap(roadmap, 'mermaid', { title: 'roadmap-test' });
+    expect(gantt).toContain('gantt\n  title roadmap-test\n  dateFormat YYYY-MM-DD');
+    expect(gantt).toContain(
+      '  section EP-0001 Checkout\n    Target :milestone, EP_0001_target, 2026-11-05, 0d'
+    );
+    expect(gantt).toContain('    ISS-0002 API :crit, ISS_0002, 2026-11-04, 1d');
+    expect(gantt).toContain('    ISS-0003 Cart UI :ISS_0003, 2026-11-04, 2d');
+    expect(gantt).toContain(
+      '  section EP-0002 Reporting\n    EP-0002 Reporting :EP_0002, 2026-11-06, 3d'
+    );
+    expect(gantt).toContain('  section No epic\n    ISS-0004 Docs :ISS_0004, 2026-11-10, 1d');
+
+    const csv = renderRoadmap(roadmap, 'csv').trimEnd().split('\n');
+    expect(csv[0]).toBe(
+      'id,type,title,epic_id,assignee,state,start_date,end_date,days,hours,target_date,late_days'
+    );
+    expect(csv).toContain(
+      'ISS-0003,issue,Cart: UI,EP-0001,alice,planning,2026-11-04,2026-11-05,2,12,2026-11-05,0'
+    );
+    expect(csv).toHaveLength(7);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for RollupEngine: completion derived from children and parent states
+ * suggested or applied when children start or finish
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig, RollupConfig } from '../src/types/ai-trackdown.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import { HistoryLog } from '../src/utils/history-log.js';
+import { RollupEngine } from '../src/utils/rollup-engine.js';
+
+const baseConfig: ProjectConfig = {
+  name: 'rollup-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+const common = `priority: medium
+assignee: dev
+created_date: 2025-03-01T00:00:00.000Z
+updated_date: 2025-03-01T00:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local`;
+
+function writeItem(root: string, dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(root, 'tasks', dir), { recursive: true });
+  writeFileSync(join(root, 'tasks', dir, name), `---\n${frontmatter}\n${common}\n---\n\n# Item\n`);
+}
+
+describe('RollupEngine', () => {
+  let tempDir: string;
+  const parser = new FrontmatterParser();
+
+  const engine = (rollup: RollupConfig) => new RollupEngine({ ...baseConfig, rollup }, tempDir);
+  const readIssue = (name: string) => parser.parseIssue(join(tempDir, 'tasks', 'issues', name));
+  const readEpic = () => parser.parseEpic(join(tempDir, 'tasks', 'epics', 'EP-0001-epic.md'));
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'rollup-engine-test-'));
+    writeItem(
+      tempDir,
+      'epics',
+      'EP-0001-epic.md',
+      'epic_id: EP-0001\ntitle: Epic\ndescription: test\nstatus: planning\ncompletion_percentage: 0\nrelated_issues: [ISS-0001, ISS-0002]'
+    );
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0001-first.md',
+      'issue_id: ISS-0001\nepic_id: EP-0001\ntitle: First\ndescription: test\nstatus: active\nstate: active\ncompletion_percentage: 0\nrelated_tasks: [TSK-0001, TSK-0002, TSK-0003]'
+    );
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0002-second.md',
+      'issue_id: ISS-0002\nepic_id: EP-0001\ntitle: Second\ndescription: test\nstatus: planning\nstate: planning\ncompletion_percentage: 0\nrelated_tasks: []'
+    );
+    const task = (id: string, state: string) =>
+      `task_id: ${id}\nissue_id: ISS-0001\nepic_id: EP-0001\ntitle: ${id}\ndescription: test\nstatus: active\nstate: ${state}`;
+    writeItem(tempDir, 'tasks', 'TSK-0001-a.md', task('TSK-0001', 'done'));
+    writeItem(tempDir, 'tasks', 'TSK-0002-b.md', task('TSK-0002', 'active'));
+    writeItem(tempDir, 'tasks', 'TSK-0003-c.md', task('TSK-0003', 'won_t_do'));
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rolls completion up from tasks to the issue and epic', () => {
+    const results = engine({ enabled: true }).rollupFrom('task', 'TSK-0001');
+
+    // Won't-do tasks are left out, so one of two tasks is done
+    expect(results).toEqual([
+      {
+        item_id: 'ISS-0001',
+        item_type: 'issue',
+        completion: 50,
+        previous_completion: 0,
+        applied: false,
+      },
+      {
+        item_id: 'EP-0001',
+        item_type: 'epic',
+        completion: 25,
+        previous_completion: 0,
+        suggested_state: 'active',
+        reason: 'ISS-0001 started',
+        applied: false,
+      },
+    ]);
+    expect(readIssue('ISS-0001-first.md').completion_percentage).toBe(50);
+    expect(readEpic().completion_percentage).toBe(25);
+    // Without apply_states the derived state is only suggested
+    expect(readEpic().state).toBeUndefined();
+  });
+
+  it('applies derived states when children start or finish', () => {
+    parser.updateFile(join(tempDir, 'tasks', 'tasks', 'TSK-0002-b.md'), { status: 'completed' });
+
+    const results = engine({ enabled: true, apply_states: true }).rollupFrom('task', 'TSK-0002', {
+      user: 'dev',
+    });
+    expect(
+      results.map((result) => [result.item_id, result.suggested_state, result.applied])
+    ).toEqual([
+      ['ISS-0001', 'ready_for_qa', true],
+      ['EP-0001', 'active', true],
+    ]);
+
+    const issue = readIssue('ISS-0001-first.md');
+    expect(issue.state).toBe('ready_for_qa');
+    expect(issue.completion_percentage).toBe(100);
+    expect(issue.state_metadata?.transition_reason).toBe('Roll-up: all tasks done');
+    expect(readEpic().state).toBe('active');
+    expect(readEpic().completion_percentage).toBe(50);
+
+    const [event] = new HistoryLog(join(tempDir, 'tasks')).getEvents('ISS-0001');
+    expect(event).toMatchObject({ action: 'state_change', source: 'rollup', author: 'dev' });
+  });
+
+  it('reports states the workflow does not allow and leaves files alone on dry run', () => {
+    const rollup = engine({ enabled: true, apply_states: true, epic_started_state: 'done' });
+
+    const preview = rollup.rollupEpic('EP-0001', { dryRun: true });
+    expect(preview).toMatchObject({
+      suggested_state: 'done',
+      applied: false,
+      blocked_by: ['Invalid transition from planning to done'],
+    });
+    expect(readEpic().completion_percentage).toBe(0);
+
+    expect(engine({ enabled: false }).isEnabled()).toBe(false);
+    expect(rollup.rollupIssue('ISS-0002')).toBeNull();
+  });
+});
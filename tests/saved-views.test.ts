@@ -0,0 +1,124 @@
+/**
+ * Tests for saved views: built-in presets resolving @me against the local items,
+ * and views saved to and run from project config
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { listViews, runView, saveView } from '../src/utils/saved-views.js';
+
+describe('Saved views', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let items: ItemService;
+
+  const run = (name: string) =>
+    runView(items.getRelationshipManager(), configManager.getConfig(), name).items.map(
+      (item) => item.title
+    );
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'saved-views-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('saved-views-test');
+    configManager.updateConfig({ user: 'alice' });
+    items = new ItemService(configManager);
+
+    await items.createItem(
+      'epic',
+      { title: 'Checkout', assignee: 'alice', tags: ['bug'] },
+      { user: 'bob' }
+    );
+    await items.createItem(
+      'issue',
+      { title: 'Login times out', content: 'Can @alice take a look?', tags: ['help wanted'] },
+      { user: 'alice' }
+    );
+    await items.createItem(
+      'task',
+      {
+        title: 'Fix card validation',
+        assignee: 'bob',
+        tags: ['priority:high'],
+        issue_id: 'ISS-0001',
+      },
+      { user: 'alice' }
+    );
+    await items.createItem(
+      'task',
+      {
+        title: 'Old cleanup',
+        assignee: 'alice',
+        content: 'Ask @alicia first',
+        issue_id: 'ISS-0001',
+      },
+      { user: 'bob' }
+    );
+    await items.updateItem('TSK-0002', { status: 'completed' });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('runs built-in presets against every item type with @me resolved', () => {
+    expect(run('my-issues')).toEqual(['Checkout']);
+    expect(run('my-created').sort()).toEqual(['Fix card validation', 'Login times out']);
+    expect(run('mentioned')).toEqual(['Login times out']);
+    expect(run('bugs')).toEqual(['Checkout']);
+    expect(run('help-wanted')).toEqual(['Login times out']);
+    expect(run('high-priority')).toEqual(['Fix card validation']);
+    expect(run('no-assignee')).toEqual(['Login times out']);
+    expect(run('stale')).toEqual([]);
+
+    configManager.updateConfig({ user: 'bob' });
+    expect(run('my-issues')).toEqual(['Fix card validation']);
+  });
+
+  it('saves views to project config and runs them', () => {
+    saveView(configManager, 'alice-tasks', 'assignee:@me');
+    saveView(configManager, 'recent', 'updated:7d label:bug');
+    saveView(configManager, 'alice-tasks', 'assignee:@me is:closed');
+
+    const config = readFileSync(join(tempDir, '.ai-trackdown', 'config.yaml'), 'utf8');
+    expect(config).toContain('alice-tasks');
+    expect(configManager.getConfig().views?.['alice-tasks'].query).toBe('assignee:@me is:closed');
+
+    expect(run('alice-tasks')).toEqual(['Old cleanup']);
+    expect(run('recent')).toEqual(['Checkout']);
+
+    const views = listViews(configManager.getConfig());
+    expect(views.filter((view) => view.source === 'saved').map((view) => view.name)).toEqual([
+      'alice-tasks',
+      'recent',
+    ]);
+    expect(views.find((view) => view.name === 'stale')).toMatchObject({ source: 'built-in' });
+
+    // A saved view replaces the built-in of the same name
+    saveView(configManager, 'bugs', 'label:bug is:closed');
+    expect(run('bugs')).toEqual([]);
+    expect(listViews(configManager.getConfig()).filter((view) => view.name === 'bugs')).toEqual([
+      { name: 'bugs', query: 'label:bug is:closed', source: 'saved' },
+    ]);
+  });
+
+  it('rejects bad names, bad queries and unknown views', () => {
+    expect(() => saveView(configManager, 'my view', 'is:open')).toThrow('Invalid view name');
+    expect(() => saveView(configManager, 'broken', 'colour:red')).toThrow(
+      'Unknown qualifier: colour'
+    );
+    expect(() => run('missing')).toThrow('Unknown view: missing');
+  });
+});
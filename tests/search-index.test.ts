@@ -0,0 +1,132 @@
+/**
+ * Tests for the full-text search index: BM25 ranking, snippets, phrase and prefix
+ * queries, and incremental updates from items, comments and files edited on disk
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { createComment, editComment } from '../src/utils/index.js';
+import { searchItems } from '../src/utils/item-search.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { parseSearchQuery, SearchIndex } from '../src/utils/search-index.js';
+
+describe('Search index', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let items: ItemService;
+
+  const search = (query: string, options: Parameters<SearchIndex['search']>[1] = {}) =>
+    new SearchIndex(configManager.getConfig(), tempDir).search(query, options);
+  const ids = (query: string) => search(query).map((hit) => hit.id);
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'search-index-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('search-index-test');
+    items = new ItemService(configManager);
+
+    await items.createItem('epic', { title: 'Checkout', content: 'Payments and the cart' });
+    await items.createItem('issue', {
+      title: 'Login times out',
+      description: 'Users are logged out after the session timeout',
+      content: 'The login form hangs on slow networks.',
+      epic_id: 'EP-0001',
+    });
+    await items.createItem('issue', {
+      title: 'Payment form validation',
+      content: 'Card numbers are not validated before login redirects to checkout.',
+      epic_id: 'EP-0001',
+    });
+    await items.createItem('task', {
+      title: 'Add retry to the payment form',
+      issue_id: 'ISS-0002',
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('ranks title matches first and highlights snippets', () => {
+    // Creating items leaves building the index to the first search
+    expect(existsSync(join(tempDir, 'tasks', '.ai-trackdown-search-index'))).toBe(false);
+    const hits = search('login');
+    expect(hits.map((hit) => hit.id)).toEqual(['ISS-0001', 'ISS-0002']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0]).toMatchObject({ type: 'issue', title: 'Login times out' });
+    expect(hits[1]).toMatchObject({ field: 'content' });
+    expect(hits[1].snippet).toContain('before **login** redirects');
+
+    expect(existsSync(join(tempDir, 'tasks', '.ai-trackdown-search-index'))).toBe(true);
+    expect(search('login', { type: 'task' })).toEqual([]);
+    expect(search('login', { limit: 1 })).toHaveLength(1);
+    // Every term must match
+    expect(ids('login payment')).toEqual(['ISS-0002']);
+    expect(ids('ISS-0002')).toEqual(['ISS-0002']);
+  });
+
+  it('matches quoted phrases and prefixes', () => {
+    expect(parseSearchQuery('"payment form" valid* login')).toEqual([
+      { kind: 'phrase', tokens: ['payment', 'form'] },
+      { kind: 'prefix', tokens: ['valid'] },
+      { kind: 'term', tokens: ['login'] },
+    ]);
+
+    expect(ids('"payment form"')).toEqual(['ISS-0002', 'TSK-0001']);
+    expect(ids('"form payment"')).toEqual([]);
+    expect(ids('valid*')).toEqual(['ISS-0002']);
+    expect(search('time*')[0].snippet).toContain('**timeout**');
+  });
+
+  it('updates incrementally for items, comments and files edited on disk', async () => {
+    expect(ids('flaky')).toEqual([]);
+    await items.updateItem('TSK-0001', { title: 'Retry flaky payment requests' });
+    expect(ids('flaky')).toEqual(['TSK-0001']);
+
+    const comment = await createComment(
+      tempDir,
+      'ISS-0001',
+      'Reproduced behind the corporate proxy'
+    );
+    const [hit] = search('proxy');
+    expect(hit).toMatchObject({ id: 'ISS-0001', field: 'comments' });
+    expect(hit.snippet).toContain('corporate **proxy**');
+
+    await editComment(tempDir, 'ISS-0001', comment.id, 'Reproduced on hotel wifi');
+    expect(ids('proxy')).toEqual([]);
+    expect(ids('hotel')).toEqual(['ISS-0001']);
+
+    const file = join(tempDir, 'tasks', 'issues', 'ISS-0002-payment-form-validation.md');
+    writeFileSync(file, readFileSync(file, 'utf8').replaceAll('Card numbers', 'Expiry dates'));
+    expect(ids('expiry')).toEqual(['ISS-0002']);
+    // Comments survive the item being reindexed
+    await items.updateItem('ISS-0001', { priority: 'high' });
+    expect(ids('hotel')).toEqual(['ISS-0001']);
+
+    await items.deleteItem('TSK-0001');
+    expect(ids('flaky')).toEqual([]);
+  });
+
+  it('ranks text in query-syntax searches', () => {
+    const manager = items.getRelationshipManager();
+    const result = searchItems(manager, 'is:open login');
+    expect(result.items.map((item) => item.title)).toEqual([
+      'Login times out',
+      'Payment form validation',
+    ]);
+    expect(searchItems(manager, '"payment form" is:issue').items.map((item) => item.title)).toEqual(
+      ['Payment form validation']
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the static site: markdown rendering, project analytics and the
+ * generated pages, links, comment threads and search index
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { createComment } from '../src/utils/index.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { renderMarkdown } from '../src/utils/markdown-renderer.js';
+import { calculateProjectAnalytics } from '../src/utils/project-analytics.js';
+import { SiteBuilder } from '../src/utils/site-builder.js';
+
+describe('renderMarkdown', () => {
+  it('renders common blocks and inline formatting', () => {
+    const html = renderMarkdown(
+      '# Title\n\nSome **bold**, *em* and `a < b`.\n\n- [x] done\n- [ ] todo\n\n1. one\n2. two\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n```ts\nconst x = 1;\n```'
+    );
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('<strong>bold</strong>, <em>em</em> and <code>a &lt; b</code>');
+    expect(html).toContain('<input type="checkbox" disabled checked> done');
+    expect(html).toContain('<ol><li>one</li><li>two</li></ol>');
+    expect(html).toContain('<td>1</td><td>2</td>');
+    expect(html).toContain('<pre><code class="language-ts">const x = 1;</code></pre>');
+  });
+
+  it('escapes raw html and drops unsafe links', () => {
+    const html = renderMarkdown(
+      '<script>alert(1)</script> [ok](https://example.com/a_b) [bad](javascript:alert)'
+    );
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<a href="https://example.com/a_b">ok</a>');
+    expect(html).not.toContain('javascript:');
+  });
+});
+
+describe('SiteBuilder', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+
+  const read = (rel: string) => readFileSync(join(tempDir, 'site', rel), 'utf8');
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'site-builder-test-'));
+    originalCwd = process.cwd();
+    // Item IDs come from counters in the working directory, as in the CLI
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('site-test');
+    const items = new ItemService(configManager);
+    await items.createItem('epic', { title: 'Checkout', estimated_tokens: 400 });
+    await items.createItem('issue', {
+      title: 'Card payments',
+      epic_id: 'EP-0001',
+      content: '## Notes\n\nUse **Stripe** <img src=x>',
+    });
+    await items.createItem('task', { title: 'Stripe client', issue_id: 'ISS-0001', state: 'done' });
+    await items.createItem('task', { title: 'Webhooks', issue_id: 'ISS-0001' });
+    await items.createItem('issue', { title: 'Dark mode', assignee: 'alice', priority: 'high' });
+    await createComment(tempDir, 'ISS-0001', 'Ship it *soon*', {
+      author: 'bob',
+      tasksRoot: join(tempDir, 'tasks'),
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('calculates analytics from items', () => {
+    const manager = new ItemService(configManager).getRelationshipManager();
+    const analytics = calculateProjectAnalytics([
+      ...manager.getAllEpics(),
+      ...manager.getAllIssues(),
+      ...manager.getAllTasks(),
+    ]);
+    expect(analytics).toMatchObject({
+      total_epics: 1,
+      total_issues: 2,
+      total_tasks: 2,
+      completion_rate: 20,
+      priority_breakdown: { high: 1, medium: 4 },
+      assignee_breakdown: { alice: 1, unassigned: 4 },
+      token_usage: { estimated_total: 400 },
+    });
+    expect(analytics.state_breakdown.done).toBe(1);
+    expect(analytics.resolution_analytics.done).toBe(1);
+  });
+
+  it('renders linked pages with hierarchy, comments, progress and charts', async () => {
+    const result = await new SiteBuilder(configManager, {
+      outDir: join(tempDir, 'site'),
+    }).build();
+    expect(result).toMatchObject({ projects: ['site-test'], items: 5, pages: 7 });
+
+    const dashboard = read('index.html');
+    expect(dashboard).toContain('<svg class="chart"');
+    expect(dashboard).toContain('href="epics/EP-0001.html"');
+    expect(dashboard).toContain('Issues without an epic');
+
+    const issue = read('issues/ISS-0001.html');
+    expect(issue).toContain('href="../assets/style.css"');
+    expect(issue).toContain('<a href="../epics/EP-0001.html">EP-0001 Checkout</a>');
+    expect(issue).toContain('<a href="../tasks/TSK-0001.html">TSK-0001 Stripe client</a>');
+    expect(issue).toContain('<h2>Notes</h2>');
+    expect(issue).toContain('Use <strong>Stripe</strong> &lt;img src=x&gt;');
+    expect(issue).toContain('<strong>bob</strong>');
+    expect(issue).toContain('<p>Ship it <em>soon</em></p>');
+    // Half of the issue's tasks are finished
+    expect(issue).toContain('style="width:50%"');
+
+    const task = read('tasks/TSK-0001.html');
+    expect(task).toContain('<nav class="crumbs"><a href="../index.html">site-test</a>');
+    expect(task).toContain('style="width:100%"');
+
+    const index = read('search-index.js');
+    expect(index.startsWith('window.TRACKDOWN_SEARCH = ')).toBe(true);
+    const entries = JSON.parse(index.slice('window.TRACKDOWN_SEARCH = '.length, -2));
+    expect(entries.find((entry: { id: string }) => entry.id === 'ISS-0001')).toMatchObject({
+      url: 'issues/ISS-0001.html',
+      state: 'planning',
+    });
+    expect(index).not.toContain('<img');
+    expect(read('search.html')).toContain('<script src="assets/search.js"></script>');
+  });
+
+  it('refuses to clean a directory containing the project', async () => {
+    await expect(
+      new SiteBuilder(configManager, { outDir: tempDir, clean: true }).build()
+    ).rejects.toThrow('Refusing to clean');
+    expect(existsSync(join(tempDir, 'tasks'))).toBe(true);
+  });
+});
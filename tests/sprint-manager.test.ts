@@ -0,0 +1,283 @@
+/**
+ * Tests for SprintManager: planning, capacity, rollover on close and burndown
+ */
+
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig } from '../src/types/ai-trackdown.js';
+import { HistoryLog } from '../src/utils/history-log.js';
+import { RelationshipManager } from '../src/utils/relationship-manager.js';
+import { addDays, daysBetween, SprintManager, toIsoDate } from '../src/utils/sprint-manager.js';
+
+const testConfig: ProjectConfig = {
+  name: 'sprint-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+function writeTask(root: string, id: string, extra: string): void {
+  const dir = join(root, 'tasks', 'tasks');
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    join(dir, `${id}-task.md`),
+    `---
+task_id: ${id}
+issue_id: ISS-0001
+epic_id: EP-0001
+title: Task ${id}
+description: test
+priority: medium
+assignee: dev
+created_date: 2025-03-01T00:00:00.000Z
+updated_date: 2025-03-01T00:00:00.000Z
+estimated_tokens: 100
+actual_tokens: 0
+ai_context: []
+sync_status: local
+${extra}
+---
+
+# Task
+`
+  );
+}
+
+describe('sprint date helpers', () => {
+  it('adds days and counts inclusive sprint length', () => {
+    expect(addDays('2025-02-27', 2)).toBe('2025-03-01');
+    expect(daysBetween('2025-03-03', '2025-03-16')).toBe(14);
+    expect(daysBetween('2025-03-03', '2025-03-03')).toBe(1);
+  });
+
+  it('works in local calendar days', () => {
+    const originalTz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      // 02:00 UTC on the 6th is still the evening of the 5th in New York
+      expect(toIsoDate(new Date('2025-01-06T02:00:00Z'))).toBe('2025-01-05');
+      expect(toIsoDate('2025-01-06')).toBe('2025-01-06');
+      // Spans the switch to daylight saving time on 2025-03-09
+      expect(addDays('2025-03-08', 2)).toBe('2025-03-10');
+      expect(daysBetween('2025-03-08', '2025-03-10')).toBe(3);
+      expect(() => toIsoDate('2025-02-30')).toThrow('Invalid date');
+    } finally {
+      if (originalTz === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTz;
+    }
+  });
+});
+
+describe('SprintManager', () => {
+  let tempDir: string;
+  let sprints: SprintManager;
+  let relationshipManager: RelationshipManager;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'sprint-manager-test-'));
+    writeTask(
+      tempDir,
+      'TSK-0001',
+      'status: completed\ntime_estimate: 4h\nstate: done\nstate_metadata:\n  transitioned_at: 2025-03-04T15:00:00.000Z\n  transitioned_by: dev\n  automation_eligible: false'
+    );
+    writeTask(tempDir, 'TSK-0002', 'status: active\ntime_estimate: 6h');
+    writeTask(tempDir, 'TSK-0003', 'status: active\ntime_estimate: 2h');
+    sprints = new SprintManager(testConfig, tempDir);
+    relationshipManager = new RelationshipManager(testConfig, tempDir);
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('creates sprints with sequential IDs in the sprints directory', () => {
+    const first = sprints.createSprint({
+      title: 'Sprint One',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+      capacity: 10,
+    });
+    const second = sprints.createSprint({
+      title: 'Sprint Two',
+      start_date: '2025-03-10',
+      end_date: '2025-03-14',
+    });
+
+    expect(first.sprint_id).toBe('SPRINT-0001');
+    expect(second.sprint_id).toBe('SPRINT-0002');
+    expect(readdirSync(join(tempDir, 'tasks', 'sprints'))).toContain('SPRINT-0001-sprint-one.md');
+    expect(sprints.getSprint('SPRINT-0001')?.capacity).toBe(10);
+    expect(() =>
+      sprints.createSprint({ title: 'Bad', start_date: '2025-03-07', end_date: '2025-03-03' })
+    ).toThrow('before start date');
+  });
+
+  it('tracks committed work against capacity', () => {
+    const sprint = sprints.createSprint({
+      title: 'Plan',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+      capacity: 10,
+    });
+
+    const planned = sprints.addItems(
+      sprint.sprint_id,
+      ['TSK-0001', 'TSK-0002'],
+      relationshipManager
+    );
+    expect(sprints.getCommitment(planned, relationshipManager)).toEqual({
+      committed: 10,
+      capacity: 10,
+      unit: 'hours',
+      over_capacity: false,
+    });
+
+    const updated = sprints.addItems(sprint.sprint_id, ['TSK-0003'], relationshipManager);
+    expect(sprints.getCommitment(updated, relationshipManager).over_capacity).toBe(true);
+
+    expect(sprints.removeItems(sprint.sprint_id, ['TSK-0003']).items).toEqual([
+      'TSK-0001',
+      'TSK-0002',
+    ]);
+    expect(() => sprints.addItems(sprint.sprint_id, ['TSK-9999'], relationshipManager)).toThrow(
+      'Item not found'
+    );
+  });
+
+  it('allows only one active sprint and one open sprint per item', () => {
+    const a = sprints.createSprint({
+      title: 'A',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+    });
+    const b = sprints.createSprint({
+      title: 'B',
+      start_date: '2025-03-10',
+      end_date: '2025-03-14',
+    });
+
+    sprints.addItems(a.sprint_id, ['TSK-0002'], relationshipManager);
+    expect(() => sprints.addItems(b.sprint_id, ['TSK-0002'], relationshipManager)).toThrow(
+      'already planned in SPRINT-0001'
+    );
+
+    sprints.startSprint(a.sprint_id);
+    expect(sprints.getActiveSprint()?.sprint_id).toBe(a.sprint_id);
+    expect(() => sprints.startSprint(b.sprint_id)).toThrow('already active');
+  });
+
+  it('rolls unfinished items into a new sprint of the same length on close', () => {
+    const sprint = sprints.createSprint({
+      title: 'Rollover',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+      capacity: 12,
+    });
+    sprints.addItems(sprint.sprint_id, ['TSK-0001', 'TSK-0002', 'TSK-0003'], relationshipManager);
+    sprints.startSprint(sprint.sprint_id);
+
+    const result = sprints.closeSprint(sprint.sprint_id, relationshipManager);
+
+    expect(result.completed).toEqual(['TSK-0001']);
+    expect(result.unfinished).toEqual(['TSK-0002', 'TSK-0003']);
+    expect(result.next_sprint?.start_date).toBe('2025-03-08');
+    expect(result.next_sprint?.end_date).toBe('2025-03-12');
+    expect(result.next_sprint?.capacity).toBe(12);
+
+    const closed = sprints.getSprint(sprint.sprint_id);
+    expect(closed?.sprint_status).toBe('closed');
+    expect(closed?.rolled_over_to).toBe(result.next_sprint?.sprint_id);
+    expect(sprints.getSprint(result.next_sprint?.sprint_id ?? '')?.items).toEqual([
+      'TSK-0002',
+      'TSK-0003',
+    ]);
+  });
+
+  it('computes daily remaining work from transition history', () => {
+    const sprint = sprints.createSprint({
+      title: 'Burn',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+    });
+    const planned = sprints.addItems(
+      sprint.sprint_id,
+      ['TSK-0001', 'TSK-0002', 'TSK-0003'],
+      relationshipManager
+    );
+
+    const points = sprints.getBurndown(
+      planned,
+      relationshipManager,
+      new Date('2025-03-05T12:00:00Z')
+    );
+
+    expect(points.map((p) => p.date)).toEqual(['2025-03-03', '2025-03-04', '2025-03-05']);
+    expect(points.map((p) => p.remaining)).toEqual([12, 8, 8]);
+    expect(points[0].ideal).toBe(12);
+    expect(points[2].ideal).toBe(6);
+  });
+
+  it('keeps the completion day when a finished item is archived later', () => {
+    // Done on the 4th, archived on the 6th: only the first transition burns it down
+    writeTask(
+      tempDir,
+      'TSK-0002',
+      'status: archived\ntime_estimate: 6h\nstate: archived\nstate_metadata:\n  transitioned_at: 2025-03-06T09:00:00.000Z\n  transitioned_by: dev\n  automation_eligible: false'
+    );
+    const history = new HistoryLog(join(tempDir, 'tasks'));
+    history.record(
+      'TSK-0002',
+      'state_change',
+      [{ field: 'state', old_value: 'active', new_value: 'done' }],
+      {
+        source: 'state update',
+        timestamp: '2025-03-04T10:00:00.000Z',
+      }
+    );
+    history.record(
+      'TSK-0002',
+      'state_change',
+      [{ field: 'state', old_value: 'done', new_value: 'archived' }],
+      {
+        source: 'state update',
+        timestamp: '2025-03-06T09:00:00.000Z',
+      }
+    );
+
+    const sprint = sprints.createSprint({
+      title: 'Burn',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07',
+    });
+    const planned = sprints.addItems(
+      sprint.sprint_id,
+      ['TSK-0002', 'TSK-0003'],
+      relationshipManager
+    );
+
+    const points = sprints.getBurndown(
+      planned,
+      relationshipManager,
+      new Date('2025-03-07T12:00:00Z')
+    );
+    expect(points.map((p) => p.remaining)).toEqual([8, 2, 2, 2, 2]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Tests for syncing epics, tasks and PR items through their per-type sync mappings,
+ * against an in-memory sync provider
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubSyncEngine } from '../src/integrations/github-sync.js';
+import {
+  createSyncProvider,
+  type RemoteIssueInput,
+  type RemoteIssueUpdate,
+  type RemoteMilestoneInput,
+  type RemotePullRequestInput,
+  type RemotePullRequestUpdate,
+  type SyncProvider,
+} from '../src/integrations/sync-provider.js';
+import type {
+  GitHubIssue,
+  GitHubMilestone,
+  GitHubSyncConfig,
+  RemotePullRequest,
+} from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { ItemService } from '../src/utils/item-service.js';
+import { MilestoneManager } from '../src/utils/milestone-manager.js';
+
+vi.mock('../src/integrations/sync-provider.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/integrations/sync-provider.js')>()),
+  createSyncProvider: vi.fn(),
+}));
+
+// Provider calls these tests never make
+const notUsed = (): never => {
+  throw new Error('Not used by this test');
+};
+
+const find = <T extends { number: number }>(records: T[], number: number): T => {
+  const record = records.find((candidate) => candidate.number === number);
+  if (!record) throw new Error(`No #${number}`);
+  return record;
+};
+
+/**
+ * Minimal in-memory provider recording issues, milestones, sub-issues and pull requests
+ */
+function createMemoryProvider(): SyncProvider & {
+  issues: GitHubIssue[];
+  milestones: GitHubMilestone[];
+  pulls: RemotePullRequest[];
+  subIssues: Array<[number, number]>;
+} {
+  const issues: GitHubIssue[] = [];
+  const milestones: GitHubMilestone[] = [];
+  const pulls: RemotePullRequest[] = [];
+  const subIssues: Array<[number, number]> = [];
+  const now = () => new Date(Date.now() + 1000).toISOString();
+
+  return {
+    issues,
+    milestones,
+    pulls,
+    subIssues,
+    name: 'github' as const,
+    getAllIssues: async () => issues.map((issue) => ({ ...issue })),
+    createIssue: async (data: RemoteIssueInput) => {
+      const issue: GitHubIssue = {
+        id: 1000 + issues.length,
+        number: issues.length + 1,
+        title: data.title,
+        body: data.body,
+        state: 'open',
+        created_at: now(),
+        updated_at: now(),
+        labels: (data.labels || []).map((name) => ({ name, color: '' })),
+        milestone: data.milestone
+          ? { number: data.milestone, title: `#${data.milestone}` }
+          : undefined,
+        html_url: `https://github.test/issues/${issues.length + 1}`,
+      };
+      issues.push(issue);
+      return { ...issue };
+    },
+    updateIssue: async (number: number, data: RemoteIssueUpdate) => {
+      const issue = find(issues, number);
+      Object.assign(issue, {
+        title: data.title ?? issue.title,
+        body: data.body ?? issue.body,
+        state: data.state ?? issue.state,
+        updated_at: now(),
+      });
+      return { ...issue };
+    },
+    getMilestones: async () => milestones.map((milestone) => ({ ...milestone })),
+    createMilestone: async (data: RemoteMilestoneInput & { title: string }) => {
+      const milestone: GitHubMilestone = {
+        number: milestones.length + 1,
+        title: data.title,
+        description: data.description,
+        state: data.state || 'open',
+        due_on: data.due_on,
+        updated_at: now(),
+        html_url: `https://github.test/milestone/${milestones.length + 1}`,
+      };
+      milestones.push(milestone);
+      return { ...milestone };
+    },
+    updateMilestone: async (number: number, data: RemoteMilestoneInput) => {
+      const milestone = find(milestones, number);
+      Object.assign(milestone, data, { updated_at: now() });
+      return { ...milestone };
+    },
+    addSubIssue: async (parent: number, child: GitHubIssue) => {
+      subIssues.push([parent, child.number]);
+    },
+    getPullRequests: async () => pulls.map((pull) => ({ ...pull })),
+    createPullRequest: async (data: RemotePullRequestInput) => {
+      const pull: RemotePullRequest = {
+        id: 5000 + pulls.length,
+        number: 100 + pulls.length,
+        title: data.title,
+        body: data.body,
+        state: 'open',
+        draft: Boolean(data.draft),
+        head: data.head,
+        base: data.base || 'main',
+        created_at: now(),
+        updated_at: now(),
+        html_url: `https://github.test/pull/${100 + pulls.length}`,
+      };
+      pulls.push(pull);
+      return { ...pull };
+    },
+    updatePullRequest: async (number: number, data: RemotePullRequestUpdate) => {
+      const pull = find(pulls, number);
+      Object.assign(pull, {
+        title: data.title ?? pull.title,
+        body: data.body ?? pull.body,
+        state: data.state ?? pull.state,
+        updated_at: now(),
+      });
+      return { ...pull };
+    },
+    testConnection: notUsed,
+    getIssue: notUsed,
+    getLabels: notUsed,
+    getComments: notUsed,
+    createComment: notUsed,
+    updateComment: notUsed,
+    deleteComment: notUsed,
+    getCommentReactions: notUsed,
+    addCommentReaction: notUsed,
+    getRateLimit: notUsed,
+  };
+}
+
+describe('Sync item mappings', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let provider: ReturnType<typeof createMemoryProvider>;
+
+  const syncConfig = (mappings: Partial<GitHubSyncConfig>): GitHubSyncConfig => ({
+    enabled: true,
+    repository: 'owner/repo',
+    token: 'ghp_test',
+    auto_sync: false,
+    conflict_resolution: 'most_recent',
+    sync_labels: true,
+    sync_milestones: false,
+    sync_assignees: false,
+    rate_limit_delay: 0,
+    batch_size: 50,
+    ...mappings,
+  });
+
+  const createEngine = (mappings: Partial<GitHubSyncConfig>) => {
+    configManager.updateConfig({ github_sync: syncConfig(mappings) });
+    vi.mocked(createSyncProvider).mockReturnValue(provider);
+    return new GitHubSyncEngine(configManager);
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'sync-mappings-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('sync-mappings-test');
+    provider = createMemoryProvider();
+
+    const items = new ItemService(configManager);
+    await items.createItem('epic', { title: 'Checkout', due_date: '2024-06-30' });
+    await items.createItem('issue', { title: 'Payment form', epic_id: 'EP-0001' });
+    await items.createItem('task', { title: 'Validate card', issue_id: 'ISS-0001' });
+    await items.createItem('pr', {
+      title: 'Add payment form',
+      issue_id: 'ISS-0001',
+      branch_name: 'feature/payment-form',
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('pushes epics as milestones, tasks as sub-issues and PR items as pull requests', async () => {
+    const engine = createEngine({
+      sync_epics: 'milestone',
+      sync_tasks: 'sub_issue',
+      sync_prs: 'pull_request',
+    });
+
+    const pushed = await engine.pushToGitHub();
+    expect(pushed.errors).toEqual([]);
+    expect(pushed).toMatchObject({
+      pushed_count: 1,
+      epics_synced: 1,
+      tasks_synced: 1,
+      prs_synced: 1,
+    });
+
+    expect(provider.milestones).toEqual([
+      expect.objectContaining({ number: 1, title: 'Checkout', due_on: '2024-06-30T00:00:00Z' }),
+    ]);
+    const [issue, task] = provider.issues;
+    expect(issue).toMatchObject({ title: 'Payment form', milestone: { number: 1 } });
+    expect(task.title).toBe('Validate card');
+    expect(task.body).toContain('"task_id": "TSK-0001"');
+    expect(provider.subIssues).toEqual([[issue.number, task.number]]);
+    expect(provider.pulls[0]).toMatchObject({
+      title: 'Add payment form',
+      head: 'feature/payment-form',
+    });
+
+    const manager = new ItemService(configManager).getRelationshipManager();
+    expect(manager.getAllEpics()[0].github_milestone_number).toBe(1);
+    expect(manager.getAllTasks()[0]).toMatchObject({ github_number: 2, sync_status: 'synced' });
+    expect(manager.getAllPRs()[0]).toMatchObject({ pr_number: 100 });
+
+    // Linked items are not pulled back as issues, and a merged pull request marks the item
+    provider.pulls[0].state = 'merged';
+    provider.pulls[0].merge_commit = 'abc123';
+    const pulled = await engine.pullFromGitHub();
+    expect(pulled.errors).toEqual([]);
+    expect(pulled).toMatchObject({ pulled_count: 1, prs_synced: 1 });
+
+    const after = new ItemService(configManager).getRelationshipManager();
+    expect(after.getAllIssues()).toHaveLength(1);
+    expect(after.getAllPRs()[0]).toMatchObject({ pr_status: 'merged', merge_commit: 'abc123' });
+
+    const again = await engine.pushToGitHub();
+    expect(again).toMatchObject({ epics_synced: 0, tasks_synced: 0, prs_synced: 0 });
+    expect(provider.issues).toHaveLength(2);
+  });
+
+  it('pushes epics as tracking issues and tasks as checklist entries', async () => {
+    const engine = createEngine({ sync_epics: 'tracking_issue', sync_tasks: 'checklist' });
+
+    const pushed = await engine.pushToGitHub();
+    expect(pushed.errors).toEqual([]);
+    expect(pushed).toMatchObject({ epics_synced: 1, tasks_synced: 1 });
+    expect(pushed.prs_synced).toBeUndefined();
+
+    const [issue, tracking] = provider.issues;
+    expect(issue.body).toContain('- [ ] Validate card (TSK-0001)');
+    expect(tracking.title).toBe('Checkout');
+    expect(tracking.body).toContain(`- [ ] #${issue.number}`);
+    expect(provider.pulls).toEqual([]);
+
+    const again = await engine.pushToGitHub();
+    expect(again.epics_synced).toBe(0);
+    expect(provider.issues).toHaveLength(2);
+  });
+
+  it('creates missing remote milestones and links pushed issues to them', async () => {
+    const milestones = new MilestoneManager(configManager.getConfig(), tempDir);
+    milestones.createMilestone({ title: 'v1.4.0', due_date: '2024-02-01' });
+    await new ItemService(configManager).updateItem('ISS-0001', { milestone: 'v1.4.0' });
+    provider.milestones.push({
+      number: 1,
+      title: 'v2.0.0',
+      state: 'open',
+      updated_at: '2024-01-01T00:00:00Z',
+      html_url: 'https://github.test/milestone/1',
+    });
+
+    const pushed = await createEngine({ sync_milestones: true }).pushToGitHub();
+    expect(pushed.errors).toEqual([]);
+    expect(pushed.milestones_synced).toBe(1);
+    expect(provider.milestones[1]).toMatchObject({
+      number: 2,
+      title: 'v1.4.0',
+      state: 'open',
+      due_on: '2024-02-01T00:00:00Z',
+    });
+    expect(milestones.getMilestone('v1.4.0')?.github_number).toBe(2);
+    // Push leaves remote-only milestones alone
+    expect(milestones.listMilestones().map((milestone) => milestone.title)).toEqual(['v1.4.0']);
+    expect(provider.issues[0]).toMatchObject({ title: 'Payment form', milestone: { number: 2 } });
+  });
+});
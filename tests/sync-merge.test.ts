@@ -0,0 +1,255 @@
+/**
+ * Tests for three-way sync merges: field-level merging against the last synced
+ * snapshot, recorded conflicts and their resolution, against an in-memory provider
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubSyncEngine } from '../src/integrations/github-sync.js';
+import {
+  createSyncProvider,
+  type RemoteIssueInput,
+  type RemoteIssueUpdate,
+  type SyncProvider,
+} from '../src/integrations/sync-provider.js';
+import type { ConflictResolution, GitHubIssue } from '../src/types/ai-trackdown.js';
+import { ConfigManager } from '../src/utils/config-manager.js';
+import { ItemService } from '../src/utils/item-service.js';
+
+vi.mock('../src/integrations/sync-provider.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/integrations/sync-provider.js')>()),
+  createSyncProvider: vi.fn(),
+}));
+
+// Provider calls these tests never make
+const notUsed = (): never => {
+  throw new Error('Not used by this test');
+};
+
+/**
+ * Minimal in-memory provider recording issues
+ */
+function createMemoryProvider(): SyncProvider & { issues: GitHubIssue[]; now: () => string } {
+  const issues: GitHubIssue[] = [];
+  let clock = Date.now();
+  const now = () => {
+    clock += 1000;
+    return new Date(clock).toISOString();
+  };
+
+  return {
+    issues,
+    now,
+    name: 'github' as const,
+    getAllIssues: async () => issues.map((issue) => ({ ...issue })),
+    createIssue: async (data: RemoteIssueInput) => {
+      const issue: GitHubIssue = {
+        id: 1000 + issues.length,
+        number: issues.length + 1,
+        title: data.title,
+        body: data.body,
+        state: 'open',
+        created_at: now(),
+        updated_at: now(),
+        labels: (data.labels || []).map((name) => ({ name, color: '' })),
+        html_url: `https://github.test/issues/${issues.length + 1}`,
+      };
+      issues.push(issue);
+      return { ...issue };
+    },
+    updateIssue: async (number: number, data: RemoteIssueUpdate) => {
+      const issue = issues.find((candidate) => candidate.number === number);
+      if (!issue) throw new Error(`No issue #${number}`);
+      Object.assign(issue, {
+        title: data.title ?? issue.title,
+        body: data.body ?? issue.body,
+        state: data.state ?? issue.state,
+        labels: data.labels ? data.labels.map((name) => ({ name, color: '' })) : issue.labels,
+        updated_at: now(),
+      });
+      return { ...issue };
+    },
+    testConnection: notUsed,
+    getIssue: notUsed,
+    getLabels: notUsed,
+    getMilestones: notUsed,
+    createMilestone: notUsed,
+    updateMilestone: notUsed,
+    getComments: notUsed,
+    createComment: notUsed,
+    updateComment: notUsed,
+    deleteComment: notUsed,
+    getCommentReactions: notUsed,
+    addCommentReaction: notUsed,
+    addSubIssue: notUsed,
+    getPullRequests: notUsed,
+    createPullRequest: notUsed,
+    updatePullRequest: notUsed,
+    getRateLimit: notUsed,
+  };
+}
+
+describe('Three-way sync merge', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let configManager: ConfigManager;
+  let provider: ReturnType<typeof createMemoryProvider>;
+
+  const createEngine = (conflictResolution: ConflictResolution = 'merge') => {
+    configManager.updateConfig({
+      github_sync: {
+        enabled: true,
+        repository: 'owner/repo',
+        token: 'ghp_test',
+        auto_sync: false,
+        conflict_resolution: conflictResolution,
+        sync_labels: true,
+        sync_milestones: false,
+        sync_assignees: false,
+        rate_limit_delay: 0,
+        batch_size: 50,
+      },
+    });
+    vi.mocked(createSyncProvider).mockReturnValue(provider);
+    return new GitHubSyncEngine(configManager);
+  };
+
+  const getLocalIssue = () =>
+    new ItemService(configManager).getRelationshipManager().getAllIssues()[0];
+
+  const editLocal = async (updates: Record<string, unknown>) => {
+    await new ItemService(configManager).updateItem('ISS-0001', updates);
+  };
+
+  const editRemote = (updates: Partial<GitHubIssue>) => {
+    Object.assign(provider.issues[0], updates, { updated_at: provider.now() });
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'sync-merge-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    configManager = new ConfigManager(tempDir);
+    configManager.initializeProject('sync-merge-test');
+    provider = createMemoryProvider();
+
+    await new ItemService(configManager).createItem('issue', {
+      title: 'Checkout fails',
+      content: 'Steps to reproduce',
+      tags: ['bug'],
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('merges changes to different fields from both sides', async () => {
+    const engine = createEngine();
+    expect((await engine.pushToGitHub()).errors).toEqual([]);
+    expect(existsSync(join(tempDir, '.ai-trackdown', 'sync-base.json'))).toBe(true);
+
+    await editLocal({ title: 'Checkout fails on Safari' });
+    editRemote({
+      body: provider.issues[0].body.replace(
+        'Steps to reproduce',
+        'Steps to reproduce\n\nAlso on iOS'
+      ),
+      labels: [
+        { name: 'bug', color: '' },
+        { name: 'p1', color: '' },
+      ],
+    });
+
+    const result = await engine.bidirectionalSync();
+    expect(result.errors).toEqual([]);
+    expect(result.conflict_count).toBe(0);
+
+    expect(provider.issues[0].title).toBe('Checkout fails on Safari');
+    const local = getLocalIssue();
+    expect(local).toMatchObject({
+      title: 'Checkout fails on Safari',
+      tags: ['bug', 'p1'],
+      sync_status: 'synced',
+    });
+    expect(local.content).toContain('Also on iOS');
+
+    const again = await engine.bidirectionalSync();
+    expect(again.operations[0]).toMatchObject({ action: 'skip' });
+  });
+
+  it('records fields changed on both sides and resolves them', async () => {
+    const engine = createEngine();
+    await engine.pushToGitHub();
+
+    await editLocal({ title: 'Local title', tags: ['bug', 'ui'] });
+    editRemote({ title: 'Remote title', state: 'closed' });
+
+    const result = await engine.bidirectionalSync();
+    expect(result.conflict_count).toBe(1);
+    expect(result.conflicts[0].reason).toBe('Conflicting changes to title');
+
+    // The fields without a conflict still merged
+    expect(provider.issues[0].labels.map((label) => label.name)).toEqual(['bug', 'ui']);
+    expect(getLocalIssue()).toMatchObject({
+      title: 'Local title',
+      status: 'completed',
+      sync_status: 'conflict',
+    });
+    expect(engine.getConflicts()).toEqual([
+      expect.objectContaining({
+        issue_id: 'ISS-0001',
+        github_number: 1,
+        fields: { title: { base: 'Checkout fails', local: 'Local title', remote: 'Remote title' } },
+      }),
+    ]);
+    const conflictsFile = join(tempDir, '.ai-trackdown', 'sync-conflicts.json');
+    expect(JSON.parse(readFileSync(conflictsFile, 'utf8'))).toHaveProperty('ISS-0001');
+
+    // Still conflicting on the next sync, without touching either title
+    expect((await engine.pushToGitHub()).conflict_count).toBe(1);
+    expect(provider.issues[0].title).toBe('Remote title');
+
+    await expect(engine.resolveConflict('ISS-0001', { body: 'local' })).rejects.toThrow(
+      'ISS-0001 has no conflict on body'
+    );
+    expect(await engine.resolveConflict('ISS-0001', { title: 'local' })).toBeUndefined();
+    expect(getLocalIssue().sync_status).toBe('local');
+    expect(engine.getConflicts()).toEqual([]);
+
+    const pushed = await engine.pushToGitHub();
+    expect(pushed.conflict_count).toBe(0);
+    expect(provider.issues[0].title).toBe('Local title');
+    expect(getLocalIssue().sync_status).toBe('synced');
+  });
+
+  it('takes the remote value when resolving to remote', async () => {
+    const engine = createEngine();
+    await engine.pushToGitHub();
+    await editLocal({ title: 'Local title' });
+    editRemote({ title: 'Remote title' });
+    await engine.pullFromGitHub();
+
+    await engine.resolveConflict('ISS-0001', 'remote');
+    expect(getLocalIssue()).toMatchObject({ title: 'Remote title', sync_status: 'synced' });
+    expect((await createEngine().bidirectionalSync()).conflict_count).toBe(0);
+  });
+
+  it('settles conflicts by strategy when not merging', async () => {
+    await createEngine('remote_wins').pushToGitHub();
+    await editLocal({ title: 'Local title', tags: ['bug', 'ui'] });
+    editRemote({ title: 'Remote title' });
+
+    const result = await createEngine('remote_wins').bidirectionalSync();
+    expect(result.conflict_count).toBe(0);
+    expect(getLocalIssue()).toMatchObject({ title: 'Remote title', tags: ['bug', 'ui'] });
+    expect(provider.issues[0].labels.map((label) => label.name)).toEqual(['bug', 'ui']);
+  });
+});
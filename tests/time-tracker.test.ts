@@ -0,0 +1,210 @@
+/**
+ * Tests for TimeTracker: duration parsing, timers, manual entries,
+ * timesheets and roll-ups into parent issues and epics
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig } from '../src/types/ai-trackdown.js';
+import { RelationshipManager } from '../src/utils/relationship-manager.js';
+import {
+  buildTimesheet,
+  formatDuration,
+  getWeekStart,
+  parseDuration,
+  TimeTracker,
+} from '../src/utils/time-tracker.js';
+
+const testConfig: ProjectConfig = {
+  name: 'time-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+function writeItem(dir: string, file: string, frontmatter: string): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    join(dir, file),
+    `---
+${frontmatter}
+status: active
+priority: medium
+assignee: dev
+created_date: 2025-01-01T00:00:00.000Z
+updated_date: 2025-01-01T00:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local
+---
+
+# Body
+`
+  );
+}
+
+describe('duration parsing', () => {
+  it('parses compound and long-form durations', () => {
+    expect(parseDuration('2h30m')).toBe(150);
+    expect(parseDuration('1.5h')).toBe(90);
+    expect(parseDuration('45 minutes')).toBe(45);
+    expect(parseDuration('4 hours')).toBe(240);
+    expect(parseDuration('1d 2h')).toBe(600);
+    expect(parseDuration('1w')).toBe(2400);
+  });
+
+  it('rejects input that is not a duration', () => {
+    expect(() => parseDuration('soon')).toThrow('Invalid duration');
+    expect(() => parseDuration('2x')).toThrow('Invalid duration');
+    expect(() => parseDuration('')).toThrow();
+  });
+
+  it('formats minutes compactly', () => {
+    expect(formatDuration(150)).toBe('2h30m');
+    expect(formatDuration(120)).toBe('2h');
+    expect(formatDuration(5)).toBe('5m');
+  });
+
+  it('finds the Monday starting a week', () => {
+    expect(getWeekStart('2025-01-05T12:00:00Z')).toBe('2024-12-30');
+    expect(getWeekStart('2025-01-06T12:00:00Z')).toBe('2025-01-06');
+  });
+
+  it('uses the local calendar week', () => {
+    const originalTz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      // 21:00 on Sunday in New York is already Monday in UTC
+      expect(getWeekStart('2025-01-06T02:00:00Z')).toBe('2024-12-30');
+    } finally {
+      if (originalTz === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTz;
+    }
+  });
+});
+
+describe('TimeTracker', () => {
+  let tempDir: string;
+  let tracker: TimeTracker;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'time-tracker-test-'));
+    tracker = new TimeTracker(tempDir);
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('persists a running timer and records it on stop', () => {
+    tracker.startTimer('TSK-0001', 'alice', 'wiring');
+    expect(new TimeTracker(tempDir).getActiveTimer()?.item_id).toBe('TSK-0001');
+    expect(() => tracker.startTimer('TSK-0002', 'alice')).toThrow('already running');
+
+    const started = new Date(tracker.getActiveTimer()?.started_at ?? '');
+    const entry = tracker.stopTimer('done', new Date(started.getTime() + 90 * 60000));
+
+    expect(entry.duration_minutes).toBe(90);
+    expect(entry.source).toBe('timer');
+    expect(entry.note).toBe('wiring - done');
+    expect(tracker.getActiveTimer()).toBeNull();
+    expect(() => tracker.stopTimer()).toThrow('No timer is running');
+  });
+
+  it('logs manual entries and filters them', () => {
+    tracker.logTime('TSK-0001', 60, 'alice', { date: '2025-01-06T17:00:00Z', note: 'review' });
+    tracker.logTime('TSK-0002', 30, 'bob', { date: '2025-01-14T17:00:00Z' });
+
+    expect(tracker.getEntries()).toHaveLength(2);
+    expect(tracker.getEntries({ user: 'bob' })).toHaveLength(1);
+    expect(tracker.getEntries({ since: '2025-01-10T00:00:00Z' })[0].item_id).toBe('TSK-0002');
+    expect(() => tracker.logTime('TSK-0001', 0, 'alice')).toThrow();
+  });
+
+  it('builds per-assignee, per-week timesheets', () => {
+    tracker.logTime('TSK-0001', 60, 'alice', { date: '2025-01-06T12:00:00Z' });
+    tracker.logTime('TSK-0001', 30, 'bob', { date: '2025-01-07T12:00:00Z' });
+    tracker.logTime('TSK-0001', 45, 'alice', { date: '2025-01-14T12:00:00Z' });
+    tracker.logTime('TSK-0002', 15, 'alice', { date: '2025-01-14T12:00:00Z' });
+
+    const assignees: Record<string, string> = { 'TSK-0001': 'carol' };
+    const rows = buildTimesheet(tracker.getEntries(), (id) => assignees[id]);
+    expect(rows).toEqual([
+      { assignee: 'carol', week_start: '2025-01-06', item_id: 'TSK-0001', minutes: 90, entries: 2 },
+      { assignee: 'carol', week_start: '2025-01-13', item_id: 'TSK-0001', minutes: 45, entries: 1 },
+      {
+        assignee: 'unassigned',
+        week_start: '2025-01-13',
+        item_id: 'TSK-0002',
+        minutes: 15,
+        entries: 1,
+      },
+    ]);
+  });
+
+  it('rolls task time up into the parent issue and epic', () => {
+    const tasksRoot = join(tempDir, 'tasks');
+    writeItem(
+      join(tasksRoot, 'epics'),
+      'EP-0001-epic.md',
+      'epic_id: EP-0001\ntitle: Epic\ndescription: e\nrelated_issues: [ISS-0001]'
+    );
+    writeItem(
+      join(tasksRoot, 'issues'),
+      'ISS-0001-issue.md',
+      'issue_id: ISS-0001\nepic_id: EP-0001\ntitle: Issue\ndescription: i\nrelated_tasks: [TSK-0001, TSK-0002]\ntime_spent: 3h'
+    );
+    writeItem(
+      join(tasksRoot, 'tasks'),
+      'TSK-0001-a.md',
+      'task_id: TSK-0001\nissue_id: ISS-0001\nepic_id: EP-0001\ntitle: A\ndescription: a\ntime_estimate: 2h'
+    );
+    writeItem(
+      join(tasksRoot, 'tasks'),
+      'TSK-0002-b.md',
+      'task_id: TSK-0002\nissue_id: ISS-0001\nepic_id: EP-0001\ntitle: B\ndescription: b\ntime_estimate: 1h'
+    );
+
+    const relationshipManager = new RelationshipManager(testConfig, tempDir);
+    tracker.logTime('TSK-0001', 90, 'alice');
+    tracker.logTime('TSK-0002', 30, 'bob');
+    tracker.logTime('ISS-0001', 15, 'carol');
+
+    const updated = tracker.applyRollUps('TSK-0001', relationshipManager);
+    expect(updated).toEqual(['TSK-0001', 'ISS-0001', 'EP-0001']);
+
+    const rollUp = tracker.getRollUp('EP-0001', relationshipManager);
+    expect(rollUp.logged_minutes).toBe(135);
+    expect(rollUp.estimated_minutes).toBe(180);
+
+    expect(readFileSync(join(tasksRoot, 'tasks', 'TSK-0001-a.md'), 'utf8')).toContain(
+      'time_logged: 1h30m'
+    );
+    // A time_spent set by hand is kept next to the roll-up
+    const issueFile = readFileSync(join(tasksRoot, 'issues', 'ISS-0001-issue.md'), 'utf8');
+    expect(issueFile).toContain('time_logged: 2h15m');
+    expect(issueFile).toContain('time_spent: 3h');
+    expect(readFileSync(join(tasksRoot, 'epics', 'EP-0001-epic.md'), 'utf8')).toContain(
+      'time_logged: 2h15m'
+    );
+  });
+});
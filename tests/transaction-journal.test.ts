@@ -0,0 +1,175 @@
+/**
+ * Tests for TransactionJournal: recording file changes around commands,
+ * undo/redo of item files and counters, and conflict protection
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { renameJournaled, unlinkJournaled, writeFileJournaled } from '../src/utils/journaled-fs.js';
+import { TransactionJournal } from '../src/utils/transaction-journal.js';
+
+describe('TransactionJournal', () => {
+  let tempDir: string;
+  let journal: TransactionJournal;
+  let issueFile: string;
+  let countersFile: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'transaction-journal-test-'));
+    const tasksRoot = join(tempDir, 'tasks');
+    const configDir = join(tempDir, '.ai-trackdown');
+    mkdirSync(join(tasksRoot, 'issues'), { recursive: true });
+    mkdirSync(configDir, { recursive: true });
+
+    issueFile = join(tasksRoot, 'issues', 'ISS-0001-first.md');
+    countersFile = join(configDir, 'counters.json');
+    writeFileSync(issueFile, '---\nissue_id: ISS-0001\n---\n');
+    writeFileSync(countersFile, '{"issue":1}');
+
+    journal = new TransactionJournal({
+      projectRoot: tempDir,
+      configDir,
+      tasksRoot,
+      epicsDir: join(tasksRoot, 'epics'),
+      issuesDir: join(tasksRoot, 'issues'),
+      tasksDir: join(tasksRoot, 'tasks'),
+      prsDir: join(tasksRoot, 'prs'),
+    });
+  });
+
+  afterEach(async () => {
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps only changed files and drops transactions that changed nothing', () => {
+    const noop = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    expect(journal.commit(noop)).toBeNull();
+    expect(journal.list()).toEqual([]);
+
+    const tx = journal.begin('issue create', []);
+    writeFileJournaled(join(tempDir, 'tasks', 'issues', 'ISS-0002-second.md'), 'new');
+    writeFileJournaled(countersFile, '{"issue":2}');
+    const committed = journal.commit(tx);
+
+    expect(committed?.files.map((f) => f.path)).toEqual([
+      join('.ai-trackdown', 'counters.json'),
+      join('tasks', 'issues', 'ISS-0002-second.md'),
+    ]);
+    expect(committed?.item_ids).toEqual(['ISS-0002']);
+    expect(journal.list()[0].command).toBe('issue create');
+  });
+
+  it('leaves the journal untouched until a tracked file is written', () => {
+    const journalDir = join(tempDir, '.ai-trackdown', 'journal');
+    const tx = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    writeFileJournaled(join(tempDir, 'notes.md'), 'not an item');
+    writeFileSync(issueFile, 'written around the journal');
+    expect(existsSync(journalDir)).toBe(false);
+
+    writeFileJournaled(issueFile, 'updated');
+    expect(existsSync(join(journalDir, 'stack.json'))).toBe(true);
+    expect(journal.commit(tx)?.files.map((f) => f.path)).toEqual([
+      join('tasks', 'issues', 'ISS-0001-first.md'),
+    ]);
+  });
+
+  it('records the first before-image of a file written more than once', () => {
+    const tx = journal.begin('issue delete ISS-0001', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'first');
+    writeFileJournaled(issueFile, 'second');
+    unlinkJournaled(issueFile);
+    const committed = journal.commit(tx);
+
+    expect(committed?.files).toHaveLength(1);
+    expect(committed?.files[0].before).toContain('issue_id: ISS-0001');
+    expect(committed?.files[0].after).toBeNull();
+  });
+
+  it('records both ends of a directory move', () => {
+    const prsDir = join(tempDir, 'tasks', 'prs');
+    mkdirSync(join(prsDir, 'open'), { recursive: true });
+    writeFileSync(join(prsDir, 'open', 'PR-0001-fix.md'), 'pr');
+
+    const tx = journal.begin('pr archive', []);
+    renameJournaled(join(prsDir, 'open'), join(prsDir, 'archived'));
+    const committed = journal.commit(tx);
+
+    expect(committed?.files).toEqual([
+      { path: join('tasks', 'prs', 'archived', 'PR-0001-fix.md'), before: null, after: 'pr' },
+      { path: join('tasks', 'prs', 'open', 'PR-0001-fix.md'), before: 'pr', after: null },
+    ]);
+
+    journal.undo();
+    expect(readFileSync(join(prsDir, 'open', 'PR-0001-fix.md'), 'utf8')).toBe('pr');
+    expect(existsSync(join(prsDir, 'archived', 'PR-0001-fix.md'))).toBe(false);
+  });
+
+  it('undoes a delete including counters and redoes it', () => {
+    const tx = journal.begin('issue delete ISS-0001', ['ISS-0001']);
+    unlinkJournaled(issueFile);
+    writeFileJournaled(countersFile, '{"issue":5}');
+    journal.commit(tx);
+
+    const undone = journal.undo();
+    expect(undone.restored).toHaveLength(2);
+    expect(readFileSync(issueFile, 'utf8')).toContain('ISS-0001');
+    expect(readFileSync(countersFile, 'utf8')).toBe('{"issue":1}');
+    expect(journal.list()).toEqual([]);
+    expect(journal.listRedo()[0].item_ids).toEqual(['ISS-0001']);
+
+    journal.redo();
+    expect(existsSync(issueFile)).toBe(false);
+    expect(readFileSync(countersFile, 'utf8')).toBe('{"issue":5}');
+    expect(() => journal.redo()).toThrow('Nothing to redo');
+  });
+
+  it('refuses to overwrite files edited after the transaction unless forced', () => {
+    const tx = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'updated');
+    journal.commit(tx);
+    writeFileSync(issueFile, 'edited by hand');
+
+    const refused = journal.undo();
+    expect(refused.restored).toEqual([]);
+    expect(refused.conflicts).toEqual([join('tasks', 'issues', 'ISS-0001-first.md')]);
+    expect(readFileSync(issueFile, 'utf8')).toBe('edited by hand');
+
+    expect(journal.undo({ dryRun: true, force: true }).restored).toEqual([]);
+    journal.undo({ force: true });
+    expect(readFileSync(issueFile, 'utf8')).toContain('issue_id: ISS-0001');
+  });
+
+  it('clears the redo stack when a new change is committed', () => {
+    const first = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'one');
+    journal.commit(first);
+    journal.undo();
+    expect(journal.listRedo()).toHaveLength(1);
+
+    const second = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'two');
+    journal.commit(second);
+
+    expect(journal.listRedo()).toEqual([]);
+    expect(journal.list().map((t) => t.id)).toEqual([second.id]);
+  });
+
+  it('closes out a pending transaction left by a command that exited early', () => {
+    journal.begin('state update ISS-0001 done', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'half written');
+
+    const next = journal.begin('issue update ISS-0001', ['ISS-0001']);
+    writeFileJournaled(issueFile, 'later change');
+    journal.commit(next);
+
+    const [latest, crashed] = journal.list();
+    expect(latest.command).toBe('issue update ISS-0001');
+    expect(crashed.status).toBe('committed');
+    expect(crashed.files[0].after).toBe('half written');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for TransitionHookRunner: hook matching, shell hooks with vetoes and
+ * built-in actions run after a transition
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProjectConfig, TransitionHookConfig } from '../src/types/ai-trackdown.js';
+import { FrontmatterParser } from '../src/utils/frontmatter-parser.js';
+import { RelationshipManager } from '../src/utils/relationship-manager.js';
+import { type TransitionContext, TransitionHookRunner } from '../src/utils/transition-hooks.js';
+
+const baseConfig: ProjectConfig = {
+  name: 'hooks-test',
+  version: '1.0.0',
+  tasks_directory: 'tasks',
+  structure: {
+    epics_dir: 'epics',
+    issues_dir: 'issues',
+    tasks_dir: 'tasks',
+    templates_dir: 'templates',
+    prs_dir: 'prs',
+  },
+  naming_conventions: {
+    epic_prefix: 'EP',
+    issue_prefix: 'ISS',
+    task_prefix: 'TSK',
+    pr_prefix: 'PR',
+    file_extension: '.md',
+  },
+};
+
+const common = `priority: medium
+created_date: 2025-03-01T00:00:00.000Z
+updated_date: 2025-03-01T00:00:00.000Z
+estimated_tokens: 0
+actual_tokens: 0
+ai_context: []
+sync_status: local`;
+
+function writeItem(root: string, dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(root, 'tasks', dir), { recursive: true });
+  writeFileSync(join(root, 'tasks', dir, name), `---\n${frontmatter}\n${common}\n---\n\n# Item\n`);
+}
+
+describe('TransitionHookRunner', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  const context: TransitionContext = {
+    itemId: 'ISS-0001',
+    itemType: 'issue',
+    from: 'ready_for_engineering',
+    to: 'ready_for_qa',
+    user: 'dev',
+  };
+
+  const runner = (hooks: TransitionHookConfig[]) =>
+    new TransitionHookRunner(
+      { ...baseConfig, hooks },
+      { projectRoot: tempDir, tasksRoot: join(tempDir, 'tasks') }
+    );
+
+  const loadIssue = () =>
+    new RelationshipManager(baseConfig, tempDir).getIssueHierarchy('ISS-0001');
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'transition-hooks-test-'));
+    originalCwd = process.cwd();
+    // Comment IDs come from counters in the working directory, as in the CLI
+    process.chdir(tempDir);
+    writeItem(
+      tempDir,
+      'issues',
+      'ISS-0001-hooked.md',
+      'issue_id: ISS-0001\nepic_id: EP-0001\ntitle: Hooked\ndescription: test\nstatus: active\nstate: ready_for_qa\nassignee: dev\ntags: [backend]\nrelated_tasks: [TSK-0001]'
+    );
+    writeItem(
+      tempDir,
+      'tasks',
+      'TSK-0001-child.md',
+      'task_id: TSK-0001\nissue_id: ISS-0001\nepic_id: EP-0001\ntitle: Child\ndescription: test\nstatus: active\nstate: ready_for_engineering\nassignee: dev'
+    );
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    if (existsSync(tempDir)) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('matches hooks by target state, source state and item type', () => {
+    const hooks = runner([
+      { on: 'ready_for_qa', action: 'assign', assignee: 'qa' },
+      { on: ['done', 'ready_for_qa'], from: 'active', action: 'add_tag', tag: 'x' },
+      { on: 'ready_for_qa', types: ['task'], action: 'add_tag', tag: 'y' },
+      { on: 'ready_for_qa', types: ['issue'], run: 'true' },
+    ]).getHooks(context);
+
+    expect(hooks.map((hook) => hook.action || hook.run)).toEqual(['assign', 'true']);
+  });
+
+  it('passes the frontmatter on stdin and vetoes on a non-zero exit', () => {
+    const item = loadIssue()?.issue;
+    if (!item) throw new Error('fixture missing');
+
+    const [captured] = runner([
+      { on: 'ready_for_qa', run: 'cat > hook-input.json && echo "$AITRACKDOWN_TO_STATE"' },
+    ]).runBefore(item, context);
+    expect(captured).toMatchObject({ success: true, message: 'ready_for_qa' });
+    const input = JSON.parse(readFileSync(join(tempDir, 'hook-input.json'), 'utf8'));
+    expect(input.issue_id).toBe('ISS-0001');
+    expect(input.file_path).toBeUndefined();
+
+    const results = runner([
+      { on: 'ready_for_qa', run: 'echo "tests failing" >&2; exit 3' },
+      { on: 'ready_for_qa', run: 'exit 1', veto: false },
+    ]).runBefore(item, context);
+    expect(results[0]).toMatchObject({
+      success: false,
+      vetoed: true,
+      message: 'exited with code 3: tests failing',
+    });
+    expect(results[1]).toMatchObject({ success: false, vetoed: false });
+  });
+
+  it('assigns, tags, comments and cascades after the transition', async () => {
+    const item = loadIssue()?.issue;
+    if (!item) throw new Error('fixture missing');
+
+    const results = await runner([
+      { on: 'ready_for_qa', action: 'assign', assignee: 'qa-team' },
+      { on: 'ready_for_qa', action: 'add_tag', tag: 'needs-qa' },
+      { on: 'ready_for_qa', action: 'comment', body: '{{id}} moved to {{to}} by {{user}}' },
+      { on: 'ready_for_qa', action: 'cascade' },
+    ]).runAfter(item, context);
+
+    expect(results.every((result) => result.success)).toBe(true);
+
+    const parser = new FrontmatterParser();
+    const issue = parser.parseIssue(join(tempDir, 'tasks', 'issues', 'ISS-0001-hooked.md'));
+    expect(issue.assignee).toBe('qa-team');
+    expect(issue.tags).toEqual(['backend', 'needs-qa']);
+
+    const task = parser.parseTask(join(tempDir, 'tasks', 'tasks', 'TSK-0001-child.md'));
+    expect(task.state).toBe('ready_for_qa');
+    expect(task.state_metadata?.transition_reason).toBe('Cascaded from ISS-0001');
+
+    const commentDir = join(tempDir, 'tasks', 'issues', 'comments', 'ISS-0001');
+    const [commentFile] = readdirSync(commentDir);
+    expect(readFileSync(join(commentDir, commentFile), 'utf8')).toContain(
+      'ISS-0001 moved to ready_for_qa by dev'
+    );
+  });
+
+  it('reports failed actions without throwing', async () => {
+    const item = loadIssue()?.issue;
+    if (!item) throw new Error('fixture missing');
+
+    const [result] = await runner([{ on: 'ready_for_qa', action: 'assign' }]).runAfter(
+      item,
+      context
+    );
+    expect(result).toEqual({
+      hook: 'assign',
+      success: false,
+      message: 'assign hook needs an assignee',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for WorkflowEngine: built-in defaults, per-type configured workflows,
+ * required roles and required fields on entry
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { IssueData } from '../src/types/ai-trackdown.js';
+import { StateManager, StateTransition } from '../src/types/ai-trackdown.js';
+import { WorkflowEngine } from '../src/utils/workflow-engine.js';
+
+const issue: IssueData = {
+  issue_id: 'ISS-0001',
+  epic_id: 'EP-0001',
+  title: 'Workflow test',
+  description: 'test',
+  status: 'active',
+  state: 'ready_for_qa',
+  priority: 'medium',
+  assignee: 'dev',
+  created_date: '2025-01-01T00:00:00.000Z',
+  updated_date: '2025-01-01T00:00:00.000Z',
+  estimated_tokens: 0,
+  actual_tokens: 0,
+  ai_context: [],
+  sync_status: 'local',
+  related_tasks: [],
+  content: '',
+  file_path: '/tmp/ISS-0001.md',
+};
+
+describe('WorkflowEngine', () => {
+  afterEach(() => {
+    StateManager.configureWorkflows({});
+  });
+
+  it('falls back to the built-in workflow', () => {
+    const engine = new WorkflowEngine();
+
+    expect(engine.getAllowedTransitions('planning')).toEqual(['ready_for_engineering', 'won_t_do']);
+    expect(engine.validateTransition('planning', 'done').valid).toBe(false);
+    expect(engine.validateTransition('ready_for_qa', 'ready_for_deployment').warnings).toEqual([]);
+    expect(engine.validateTransition('merged', 'open', 'pr_status').valid).toBe(false);
+    expect(engine.validateTransition('closed', 'open', 'pr_status').valid).toBe(true);
+  });
+
+  it('resolves custom states per item type with wildcard transitions', () => {
+    const engine = new WorkflowEngine({
+      workflows: {
+        task: {
+          states: ['todo', 'doing', 'blocked', 'done'],
+          transitions: [
+            { from: 'todo', to: 'doing', automation_eligible: true },
+            { from: 'doing', to: 'done', automation_eligible: true },
+            { from: '*', to: 'blocked' },
+          ],
+        },
+      },
+    });
+
+    expect(engine.getWorkflow('task').states).toEqual(['todo', 'doing', 'blocked', 'done']);
+    expect(engine.getAllowedTransitions('done', 'task')).toEqual(['blocked']);
+    expect(engine.validateTransition('todo', 'ready_for_qa', 'task').errors).toEqual([
+      'Unknown state for task workflow: ready_for_qa',
+    ]);
+    // Other item types keep the default workflow
+    expect(engine.getAllowedTransitions('planning', 'issue')).toContain('ready_for_engineering');
+  });
+
+  it('enforces required roles from the roles map', () => {
+    const engine = new WorkflowEngine({
+      workflows: {
+        default: {
+          transitions: [{ from: 'ready_for_qa', to: 'ready_for_deployment', required_role: 'qa' }],
+        },
+      },
+      roles: { alice: ['qa'] },
+    });
+
+    expect(engine.getWorkflow().transitions[0].required_role).toBe('qa');
+    expect(engine.validateTransition('ready_for_qa', 'ready_for_deployment').errors).toEqual([
+      'Transition requires role: qa',
+    ]);
+    expect(
+      engine.validateTransition(
+        'ready_for_qa',
+        'ready_for_deployment',
+        'default',
+        engine.getUserRoles('alice')
+      ).valid
+    ).toBe(true);
+  });
+
+  it('requires fields on entry when transitioning items', () => {
+    StateManager.configureWorkflows({
+      workflows: { issue: { required_fields: { ready_for_deployment: ['reviewer'] } } },
+    });
+
+    const blocked = StateTransition.transitionState(issue, 'ready_for_deployment', 'dev');
+    expect(blocked.success).toBe(false);
+    expect(blocked.errors).toEqual(['ready_for_deployment requires: reviewer']);
+
+    const allowed = StateTransition.transitionState(
+      issue,
+      'ready_for_deployment',
+      'dev',
+      undefined,
+      'lead'
+    );
+    expect(allowed.success).toBe(true);
+    expect(allowed.item.state_metadata?.reviewer).toBe('lead');
+  });
+});